@@ -15,6 +15,7 @@ import ReconciliationDetailPage from "@/pages/reconciliation-detail-page";
 import ActionCenterPage from "@/pages/action-center-page";
 import InventoryPage from "@/pages/inventory-page";
 import PurchaseOrdersPage from "@/pages/purchase-orders-page";
+import ReorderRunsPage from "@/pages/reorder-runs-page";
 import WorkspaceSettingsPage from "@/pages/workspace-settings-page";
 import SettingsPage from "@/pages/settings-page";
 import SuppliersPage from "@/pages/suppliers-page";
@@ -60,6 +61,8 @@ function Router() {
       <ProtectedRoute path="/forecast" component={ForecastsPage} />
       <ProtectedRoute path="/orders" component={PurchaseOrdersPage} />
       <ProtectedRoute path="/purchase-orders" component={PurchaseOrdersPage} />
+      <ProtectedRoute path="/reorder-runs" component={ReorderRunsPage} />
+      <ProtectedRoute path="/reorder-runs/:runId" component={ReorderRunsPage} />
       <ProtectedRoute path="/recon" component={ReconciliationPage} />
       <ProtectedRoute path="/recon/:batchId" component={ReconciliationDetailPage} />
       <ProtectedRoute path="/workspace-settings" component={WorkspaceSettingsPage} />
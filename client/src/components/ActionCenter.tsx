@@ -22,7 +22,8 @@ import {
   ShoppingCart,
   Filter,
   User,
-  Eye
+  Eye,
+  Truck
 } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
 import { apiRequest } from "@/lib/queryClient";
@@ -59,6 +60,7 @@ const EVENT_ICONS = {
   SYNC_ERROR: Zap,
   PAYMENT_MISMATCH: DollarSign,
   ROAS_DROP: TrendingDown,
+  SHIPMENT_DELAYED: Truck,
 };
 
 const SEVERITY_COLORS = {
@@ -168,6 +170,10 @@ export function ActionCenter() {
         return `Payment mismatch on ${event.payload.orderId}: expected $${event.payload.expectedAmount}, got $${event.payload.actualAmount}`;
       case "ROAS_DROP":
         return `ROAS dropped for ${event.sku}: ${event.payload.currentROAS}% (target: ${event.payload.targetROAS}%)`;
+      case "SHIPMENT_DELAYED":
+        return event.payload.reason === "EXCEPTION"
+          ? `Shipment ${event.payload.trackingNumber} in exception for ${event.payload.hoursSinceUpdate}h`
+          : `Shipment ${event.payload.trackingNumber} stalled in transit for ${event.payload.hoursSinceUpdate}h`;
       default:
         return "Unknown event";
     }
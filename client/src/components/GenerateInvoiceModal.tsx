@@ -26,8 +26,10 @@ import {
   getFinanceSettings, 
   getTaxCustomers, 
   calculateRegionTax,
+  getFiledVatReturnFor,
   initializeTaxationData
 } from "@/utils/taxation";
+import { MTD_VAT_REGION_ID } from "@shared/vat";
 import type { TaxCustomer, OrderItem, TaxBreakup } from "@shared/schema";
 import { generateInvoiceNumber } from "@/helpers/invoiceNumber";
 import { useToast } from "@/hooks/use-toast";
@@ -54,6 +56,7 @@ interface TaxRegion {
   taxRules: { id: string; name: string; rate: number; category: string }[];
   states?: string[];
   stateRates?: { code: string; rate: number }[];
+  pricing?: "exclusive" | "inclusive";
 }
 
 interface TaxProduct {
@@ -185,21 +188,24 @@ export function GenerateInvoiceModal({ order, trigger }: GenerateInvoiceModalPro
   // Calculate totals using the new comprehensive taxation system
   const calculateTotals = () => {
     if (!formData.regionId || lineItems.length === 0) {
-      return { subtotal: 0, tax: 0, grand: 0, taxBreakdown: null };
+      return { subtotal: 0, tax: 0, grand: 0, taxBreakdown: null, lineItemTaxDetails: [] };
     }
 
     const result = calculateRegionTax(
       formData.regionId,
       formData.customerState,
       formData.businessState,
-      lineItems
+      lineItems,
+      {},
+      formData.issueDate
     );
 
     return {
       subtotal: result.totals.sub,
       tax: result.totals.tax,
       grand: result.totals.grand,
-      taxBreakdown: result.taxBreakup
+      taxBreakdown: result.taxBreakup,
+      lineItemTaxDetails: result.lineItemTaxDetails
     };
   };
 
@@ -207,7 +213,11 @@ export function GenerateInvoiceModal({ order, trigger }: GenerateInvoiceModalPro
   useEffect(() => {
     const totals = calculateTotals();
     setTaxBreakdown(totals.taxBreakdown || null);
-  }, [formData.regionId, formData.customerState, formData.businessState, lineItems]);
+  }, [formData.regionId, formData.customerState, formData.businessState, formData.issueDate, lineItems]);
+
+  const pricesIncludeTax = availableRegions.find(r => r.id === formData.regionId)?.pricing === "inclusive";
+  // Invoices backdated into a filed VAT period are flagged on that return
+  const filedVatReturn = formData.regionId === MTD_VAT_REGION_ID ? getFiledVatReturnFor(formData.issueDate) : undefined;
 
   const generateInvoice = () => {
     // Validation
@@ -284,7 +294,14 @@ export function GenerateInvoiceModal({ order, trigger }: GenerateInvoiceModalPro
       placeOfSupply: formData.placeOfSupply,
       customerState: formData.customerState,
       businessState: formData.businessState,
-      lineItems,
+      // Each line keeps the net and tax backed out of (or added to) its price, for the invoice page
+      lineItems: lineItems.map((item, index) => ({
+        ...item,
+        taxRate: totals.lineItemTaxDetails[index]?.taxRate,
+        netAmount: totals.lineItemTaxDetails[index]?.netAmount,
+        taxAmount: totals.lineItemTaxDetails[index]?.taxAmount
+      })),
+      pricing: pricesIncludeTax ? "inclusive" : "exclusive",
       subtotal: totals.subtotal,
       taxTotal: totals.tax,
       grandTotal: totals.grand,
@@ -361,6 +378,11 @@ export function GenerateInvoiceModal({ order, trigger }: GenerateInvoiceModalPro
                     value={formData.issueDate}
                     onChange={(e) => setFormData(prev => ({ ...prev, issueDate: e.target.value }))}
                   />
+                  {filedVatReturn && (
+                    <p className="text-xs text-amber-600 mt-1" data-testid="text-filed-vat-period">
+                      This date is in a VAT period filed on {new Date(filedVatReturn.filedAt).toLocaleDateString()}. The invoice will be flagged as a change to that return.
+                    </p>
+                  )}
                 </div>
                 <div>
                   <Label htmlFor="dueDate">Due Date</Label>
@@ -464,11 +486,11 @@ export function GenerateInvoiceModal({ order, trigger }: GenerateInvoiceModalPro
               {/* Totals Summary */}
               <div className="mt-6 space-y-2 text-right">
                 <div className="flex justify-between">
-                  <span>Subtotal:</span>
+                  <span>{pricesIncludeTax ? "Net (prices include tax):" : "Subtotal:"}</span>
                   <span>{currencyFormat(totals.subtotal, formData.currency, formData.locale)}</span>
                 </div>
                 <div className="flex justify-between">
-                  <span>Tax:</span>
+                  <span>{pricesIncludeTax ? "Tax included:" : "Tax:"}</span>
                   <span>{currencyFormat(totals.tax, formData.currency, formData.locale)}</span>
                 </div>
                 <div className="flex justify-between text-lg font-bold border-t pt-2">
@@ -16,7 +16,6 @@ import {
   DialogDescription,
   DialogHeader,
   DialogTitle,
-  DialogTrigger,
 } from "@/components/ui/dialog";
 import {
   Select,
@@ -27,23 +26,25 @@ import {
 } from "@/components/ui/select";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { 
-  Plus, 
-  Trash2, 
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Plus,
+  Trash2,
   Settings,
-  User,
-  Clock,
-  AlertCircle
+  AlertCircle,
+  ArrowUp,
+  ArrowDown,
+  Pencil,
+  FlaskConical,
+  CheckCircle2,
+  XCircle,
 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import type { Rule, CreateRuleData } from "@shared/schema";
-
-const TASK_TYPES = [
-  { value: "RESTOCK", label: "Restock" },
-  { value: "RECONCILE", label: "Reconcile" },
-  { value: "RETRY_SYNC", label: "Retry Sync" },
-  { value: "ADJUST_BUDGET", label: "Adjust Budget" },
-];
+import type { Rule, RuleAction, RuleCondition, RuleEvaluation, CreateRuleData } from "@shared/schema";
 
 const PRIORITIES = [
   { value: "P1", label: "P1 - Critical" },
@@ -51,15 +52,319 @@ const PRIORITIES = [
   { value: "P3", label: "P3 - Medium" },
 ];
 
-export function RulesManager() {
-  const [createDialogOpen, setCreateDialogOpen] = useState(false);
-  const [formData, setFormData] = useState<CreateRuleData>({
-    type: "RESTOCK",
-    assigneeId: undefined,
-    priority: undefined,
-    dueOffsetHours: undefined,
+const EVENT_TYPES = ["INVENTORY_LOW", "SYNC_ERROR", "PAYMENT_MISMATCH", "ROAS_DROP", "SHIPMENT_DELAYED"];
+
+const SEVERITIES = ["LOW", "MEDIUM", "HIGH"];
+
+const CONDITION_FIELDS = [
+  { value: "eventType", label: "Event type" },
+  { value: "severity", label: "Severity" },
+  { value: "channel", label: "Channel" },
+  { value: "sku", label: "SKU" },
+  { value: "taskType", label: "Task type" },
+  { value: "payload", label: "Payload field" },
+];
+
+const OPERATORS: { value: RuleCondition["operator"], label: string }[] = [
+  { value: "eq", label: "equals" },
+  { value: "neq", label: "does not equal" },
+  { value: "in", label: "is one of" },
+  { value: "not_in", label: "is not one of" },
+  { value: "matches", label: "matches pattern" },
+  { value: "contains", label: "contains" },
+  { value: "gt", label: ">" },
+  { value: "gte", label: ">=" },
+  { value: "lt", label: "<" },
+  { value: "lte", label: "<=" },
+  { value: "exists", label: "is set" },
+];
+
+const NUMERIC_OPERATORS = ["gt", "gte", "lt", "lte"];
+
+const ACTION_TYPES: { value: RuleAction["type"], label: string }[] = [
+  { value: "assign", label: "Assign to" },
+  { value: "set_priority", label: "Set priority" },
+  { value: "set_due", label: "Due in (hours)" },
+  { value: "add_watcher", label: "Add watcher" },
+  { value: "notify", label: "Notify" },
+];
+
+interface ConditionForm {
+  field: string;
+  payloadPath: string;
+  operator: RuleCondition["operator"];
+  value: string;
+  abs: boolean;
+}
+
+interface ActionForm {
+  type: RuleAction["type"];
+  value: string;
+  channel: "in_app" | "teams_email";
+}
+
+interface RuleForm {
+  name: string;
+  enabled: boolean;
+  stopProcessing: boolean;
+  conditions: ConditionForm[];
+  actions: ActionForm[];
+}
+
+interface TestEventForm {
+  type: string;
+  severity: string;
+  channel: string;
+  sku: string;
+  payload: string;
+}
+
+const emptyCondition = (): ConditionForm => ({ field: "taskType", payloadPath: "", operator: "eq", value: "", abs: false });
+const emptyAction = (): ActionForm => ({ type: "assign", value: "", channel: "in_app" });
+const emptyForm = (): RuleForm => ({ name: "", enabled: true, stopProcessing: true, conditions: [], actions: [emptyAction()] });
+
+function toRuleData(form: RuleForm): CreateRuleData {
+  return {
+    name: form.name,
+    enabled: form.enabled,
+    stopProcessing: form.stopProcessing,
+    conditions: form.conditions.map(condition => {
+      const field = condition.field === "payload" ? `payload.${condition.payloadPath}` : condition.field;
+      let value: RuleCondition["value"] = condition.value;
+      if (NUMERIC_OPERATORS.includes(condition.operator)) {
+        value = Number(condition.value);
+      } else if (condition.operator === "in" || condition.operator === "not_in") {
+        value = condition.value.split(",").map(v => v.trim()).filter(Boolean);
+      } else if (condition.operator === "exists") {
+        value = undefined;
+      }
+      return { field, operator: condition.operator, value, abs: condition.abs || undefined };
+    }),
+    actions: form.actions.map((action): RuleAction => {
+      switch (action.type) {
+        case "assign":
+          return { type: "assign", assigneeId: action.value };
+        case "set_priority":
+          return { type: "set_priority", priority: (action.value || "P2") as "P1" | "P2" | "P3" };
+        case "set_due":
+          return { type: "set_due", dueOffsetHours: parseInt(action.value) || 0 };
+        case "add_watcher":
+          return { type: "add_watcher", userId: action.value };
+        case "notify":
+          return { type: "notify", channel: action.channel, userId: action.value || undefined };
+      }
+    }),
+  };
+}
+
+function toForm(rule: Rule): RuleForm {
+  return {
+    name: rule.name,
+    enabled: rule.enabled,
+    stopProcessing: rule.stopProcessing,
+    conditions: rule.conditions.map(condition => ({
+      field: condition.field.startsWith("payload.") ? "payload" : condition.field,
+      payloadPath: condition.field.startsWith("payload.") ? condition.field.slice("payload.".length) : "",
+      operator: condition.operator,
+      value: Array.isArray(condition.value) ? condition.value.join(", ") : String(condition.value ?? ""),
+      abs: !!condition.abs,
+    })),
+    actions: rule.actions.map(action => {
+      switch (action.type) {
+        case "assign":
+          return { type: action.type, value: action.assigneeId, channel: "in_app" as const };
+        case "set_priority":
+          return { type: action.type, value: action.priority, channel: "in_app" as const };
+        case "set_due":
+          return { type: action.type, value: String(action.dueOffsetHours), channel: "in_app" as const };
+        case "add_watcher":
+          return { type: action.type, value: action.userId, channel: "in_app" as const };
+        case "notify":
+          return { type: action.type, value: action.userId || "", channel: action.channel };
+      }
+    }),
+  };
+}
+
+function describeCondition(condition: RuleCondition): string {
+  const operator = OPERATORS.find(o => o.value === condition.operator)?.label || condition.operator;
+  const value = Array.isArray(condition.value) ? condition.value.join(", ") : condition.value;
+  const field = condition.abs ? `|${condition.field}|` : condition.field;
+  return condition.operator === "exists" ? `${field} ${operator}` : `${field} ${operator} ${value}`;
+}
+
+function describeAction(action: RuleAction): string {
+  switch (action.type) {
+    case "assign":
+      return `Assign to ${action.assigneeId}`;
+    case "set_priority":
+      return `Priority ${action.priority}`;
+    case "set_due":
+      return `Due in ${action.dueOffsetHours}h`;
+    case "add_watcher":
+      return `Watcher ${action.userId}`;
+    case "notify":
+      return action.channel === "teams_email"
+        ? "Notify Teams/email"
+        : `Notify ${action.userId || "assignee"} in app`;
+  }
+}
+
+// Dry run against a sample event: the saved rules in order, or a single unsaved rule
+function RuleTestPanel({ draft }: { draft?: CreateRuleData }) {
+  const [event, setEvent] = useState<TestEventForm>({
+    type: "PAYMENT_MISMATCH",
+    severity: "MEDIUM",
+    channel: "",
+    sku: "",
+    payload: '{\n  "diffBase": -150\n}',
   });
+  const [payloadError, setPayloadError] = useState<string | null>(null);
+
+  const testMutation = useMutation({
+    mutationFn: async (body: unknown) => {
+      const response = await apiRequest("POST", "/api/rules/test", body);
+      return await response.json() as RuleEvaluation;
+    },
+  });
+
+  const runTest = () => {
+    let payload: unknown = {};
+    try {
+      payload = event.payload.trim() ? JSON.parse(event.payload) : {};
+      setPayloadError(null);
+    } catch {
+      setPayloadError("Payload must be valid JSON");
+      return;
+    }
+
+    testMutation.mutate({
+      event: {
+        type: event.type,
+        severity: event.severity,
+        channel: event.channel || undefined,
+        sku: event.sku || undefined,
+        payload,
+      },
+      rule: draft,
+    });
+  };
+
+  const evaluation = testMutation.data;
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-2">
+          <Label>Event Type</Label>
+          <Select value={event.type} onValueChange={(value) => setEvent(prev => ({ ...prev, type: value }))}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {EVENT_TYPES.map(type => (
+                <SelectItem key={type} value={type}>{type}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Severity</Label>
+          <Select value={event.severity} onValueChange={(value) => setEvent(prev => ({ ...prev, severity: value }))}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SEVERITIES.map(severity => (
+                <SelectItem key={severity} value={severity}>{severity}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Channel</Label>
+          <Input
+            value={event.channel}
+            onChange={(e) => setEvent(prev => ({ ...prev, channel: e.target.value }))}
+            placeholder="e.g., shopify, stripe"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>SKU</Label>
+          <Input
+            value={event.sku}
+            onChange={(e) => setEvent(prev => ({ ...prev, sku: e.target.value }))}
+            placeholder="e.g., SKU-001"
+          />
+        </div>
+      </div>
+      <div className="space-y-2">
+        <Label>Payload (JSON)</Label>
+        <Textarea
+          rows={4}
+          className="font-mono text-xs"
+          value={event.payload}
+          onChange={(e) => setEvent(prev => ({ ...prev, payload: e.target.value }))}
+        />
+        {payloadError && <p className="text-sm text-destructive">{payloadError}</p>}
+      </div>
+      <Button type="button" variant="outline" onClick={runTest} disabled={testMutation.isPending}>
+        <FlaskConical className="h-4 w-4 mr-2" />
+        {testMutation.isPending ? "Testing..." : draft ? "Test This Rule" : "Test Rules"}
+      </Button>
+
+      {testMutation.error && (
+        <p className="text-sm text-destructive">{(testMutation.error as Error).message}</p>
+      )}
+
+      {evaluation && (
+        <div className="space-y-3">
+          <div className="p-3 rounded-lg bg-muted text-sm">
+            {evaluation.matchedRuleIds.length === 0 ? (
+              <span>No rule matches — the task would keep its defaults.</span>
+            ) : (
+              <div className="flex flex-wrap gap-2">
+                <span className="font-medium">Result:</span>
+                {evaluation.outcome.assigneeId && <Badge variant="outline">Assign {evaluation.outcome.assigneeId}</Badge>}
+                {evaluation.outcome.priority && <Badge variant="outline">{evaluation.outcome.priority}</Badge>}
+                {evaluation.outcome.dueOffsetHours !== undefined && <Badge variant="outline">Due in {evaluation.outcome.dueOffsetHours}h</Badge>}
+                {evaluation.outcome.watcherIds.map(id => <Badge key={id} variant="outline">Watcher {id}</Badge>)}
+                {evaluation.outcome.notify.map((action, i) => <Badge key={i} variant="outline">{describeAction(action)}</Badge>)}
+              </div>
+            )}
+          </div>
+          {evaluation.trace.map(trace => (
+            <div key={trace.ruleId} className="p-3 border rounded-lg space-y-1">
+              <div className="flex items-center justify-between">
+                <span className="font-medium text-sm">{trace.name}</span>
+                <Badge variant={trace.status === "MATCHED" ? "default" : "secondary"}>
+                  {trace.status.replace("_", " ")}
+                </Badge>
+              </div>
+              {trace.conditions.map((condition, i) => (
+                <div key={i} className="flex items-center gap-2 text-xs text-muted-foreground">
+                  {condition.passed
+                    ? <CheckCircle2 className="h-3 w-3 text-green-600" />
+                    : <XCircle className="h-3 w-3 text-destructive" />}
+                  {describeCondition(condition)}
+                  <span>(was {condition.actual === undefined ? "not set" : JSON.stringify(condition.actual)})</span>
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function RulesManager() {
+  const [editorOpen, setEditorOpen] = useState(false);
+  const [testOpen, setTestOpen] = useState(false);
+  const [editingRuleId, setEditingRuleId] = useState<string | null>(null);
+  const [formData, setFormData] = useState<RuleForm>(emptyForm());
   const { user } = useAuth();
+  const { toast } = useToast();
   const queryClient = useQueryClient();
 
   // Only show for admin users
@@ -69,10 +374,10 @@ export function RulesManager() {
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
             <Settings className="h-5 w-5" />
-            Task Assignment Rules
+            Task Routing Rules
           </CardTitle>
           <CardDescription>
-            Only administrators can manage task assignment rules.
+            Only administrators can manage task routing rules.
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -85,7 +390,7 @@ export function RulesManager() {
     );
   }
 
-  // Fetch rules
+  // Fetch rules (in evaluation order)
   const { data: rules = [] } = useQuery<Rule[]>({
     queryKey: ["/api/rules"],
     queryFn: async () => {
@@ -95,22 +400,51 @@ export function RulesManager() {
     },
   });
 
-  // Create rule mutation
-  const createRuleMutation = useMutation({
+  const onMutationError = (error: Error) => {
+    toast({
+      title: "Rule Update Failed",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  // Create or update rule mutation
+  const saveRuleMutation = useMutation({
     mutationFn: async (ruleData: CreateRuleData) => {
-      const response = await apiRequest("POST", "/api/rules", ruleData);
+      const response = editingRuleId
+        ? await apiRequest("PUT", `/api/rules/${editingRuleId}`, ruleData)
+        : await apiRequest("POST", "/api/rules", ruleData);
       return await response.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/rules"] });
-      setCreateDialogOpen(false);
-      setFormData({
-        type: "RESTOCK",
-        assigneeId: undefined,
-        priority: undefined,
-        dueOffsetHours: undefined,
-      });
+      setEditorOpen(false);
+      setEditingRuleId(null);
+      setFormData(emptyForm());
     },
+    onError: onMutationError,
+  });
+
+  const toggleRuleMutation = useMutation({
+    mutationFn: async ({ ruleId, enabled }: { ruleId: string, enabled: boolean }) => {
+      const response = await apiRequest("PUT", `/api/rules/${ruleId}`, { enabled });
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/rules"] });
+    },
+    onError: onMutationError,
+  });
+
+  const reorderRulesMutation = useMutation({
+    mutationFn: async (ruleIds: string[]) => {
+      const response = await apiRequest("POST", "/api/rules/reorder", { ruleIds });
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/rules"] });
+    },
+    onError: onMutationError,
   });
 
   // Delete rule mutation
@@ -122,11 +456,40 @@ export function RulesManager() {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/rules"] });
     },
+    onError: onMutationError,
   });
 
+  const openEditor = (rule?: Rule) => {
+    setEditingRuleId(rule?.id || null);
+    setFormData(rule ? toForm(rule) : emptyForm());
+    setEditorOpen(true);
+  };
+
+  const moveRule = (index: number, direction: -1 | 1) => {
+    const ids = rules.map(rule => rule.id);
+    const target = index + direction;
+    if (target < 0 || target >= ids.length) return;
+    [ids[index], ids[target]] = [ids[target], ids[index]];
+    reorderRulesMutation.mutate(ids);
+  };
+
+  const updateCondition = (index: number, updates: Partial<ConditionForm>) => {
+    setFormData(prev => ({
+      ...prev,
+      conditions: prev.conditions.map((condition, i) => i === index ? { ...condition, ...updates } : condition),
+    }));
+  };
+
+  const updateAction = (index: number, updates: Partial<ActionForm>) => {
+    setFormData(prev => ({
+      ...prev,
+      actions: prev.actions.map((action, i) => i === index ? { ...action, ...updates } : action),
+    }));
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    createRuleMutation.mutate(formData);
+    saveRuleMutation.mutate(toRuleData(formData));
   };
 
   return (
@@ -136,171 +499,330 @@ export function RulesManager() {
           <div>
             <CardTitle className="flex items-center gap-2">
               <Settings className="h-5 w-5" />
-              Task Assignment Rules
+              Task Routing Rules
             </CardTitle>
             <CardDescription>
-              Automatically assign tasks based on type, priority, and due dates
+              Rules run top to bottom against the event behind each new task
             </CardDescription>
           </div>
-          <Dialog open={createDialogOpen} onOpenChange={setCreateDialogOpen}>
-            <DialogTrigger asChild>
-              <Button size="sm">
-                <Plus className="h-4 w-4 mr-2" />
-                Add Rule
-              </Button>
-            </DialogTrigger>
-            <DialogContent>
-              <DialogHeader>
-                <DialogTitle>Create Assignment Rule</DialogTitle>
-                <DialogDescription>
-                  Set up automatic task assignment for specific task types
-                </DialogDescription>
-              </DialogHeader>
-              <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="flex gap-2">
+            <Button size="sm" variant="outline" onClick={() => setTestOpen(true)}>
+              <FlaskConical className="h-4 w-4 mr-2" />
+              Test
+            </Button>
+            <Button size="sm" onClick={() => openEditor()}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Rule
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {rules.length === 0 ? (
+          <div className="text-center text-muted-foreground py-8">
+            <Settings className="h-8 w-8 mx-auto mb-2 opacity-50" />
+            <p>No routing rules configured.</p>
+            <p className="text-sm">Create rules to assign, prioritise and notify on tasks automatically.</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {rules.map((rule, index) => (
+              <div key={rule.id} className={`flex items-start justify-between p-4 border rounded-lg ${rule.enabled ? "" : "opacity-60"}`}>
                 <div className="space-y-2">
-                  <Label htmlFor="type">Task Type</Label>
-                  <Select
-                    value={formData.type}
-                    onValueChange={(value) => setFormData(prev => ({ ...prev, type: value as any }))}
+                  <div className="flex items-center gap-3">
+                    <Badge variant="secondary">{index + 1}</Badge>
+                    <span className="font-medium">{rule.name}</span>
+                    {!rule.stopProcessing && <Badge variant="outline">Continues</Badge>}
+                  </div>
+                  <div className="text-sm text-muted-foreground">
+                    {rule.conditions.length === 0
+                      ? "Always"
+                      : `When ${rule.conditions.map(describeCondition).join(" and ")}`}
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    {rule.actions.map((action, i) => (
+                      <Badge key={i} variant={action.type === "set_priority" && action.priority === "P1" ? "destructive" : "outline"}>
+                        {describeAction(action)}
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+                <div className="flex items-center gap-1">
+                  <Switch
+                    checked={rule.enabled}
+                    onCheckedChange={(enabled) => toggleRuleMutation.mutate({ ruleId: rule.id, enabled })}
+                  />
+                  <Button variant="ghost" size="sm" onClick={() => moveRule(index, -1)} disabled={index === 0 || reorderRulesMutation.isPending}>
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => moveRule(index, 1)} disabled={index === rules.length - 1 || reorderRulesMutation.isPending}>
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => openEditor(rule)}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => deleteRuleMutation.mutate(rule.id)}
+                    disabled={deleteRuleMutation.isPending}
+                    className="text-destructive hover:text-destructive"
                   >
-                    <SelectTrigger>
-                      <SelectValue placeholder="Select task type" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {TASK_TYPES.map(type => (
-                        <SelectItem key={type.value} value={type.value}>
-                          {type.label}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
                 </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={testOpen} onOpenChange={setTestOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Test Routing Rules</DialogTitle>
+            <DialogDescription>
+              See which rules would match a task raised from this event. Nothing is created.
+            </DialogDescription>
+          </DialogHeader>
+          <RuleTestPanel />
+        </DialogContent>
+      </Dialog>
 
+      <Dialog open={editorOpen} onOpenChange={setEditorOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingRuleId ? "Edit Routing Rule" : "Create Routing Rule"}</DialogTitle>
+            <DialogDescription>
+              All conditions must match for the actions to apply
+            </DialogDescription>
+          </DialogHeader>
+          <Tabs defaultValue="rule">
+            <TabsList>
+              <TabsTrigger value="rule">Rule</TabsTrigger>
+              <TabsTrigger value="test">Test</TabsTrigger>
+            </TabsList>
+            <TabsContent value="rule">
+              <form onSubmit={handleSubmit} className="space-y-4">
                 <div className="space-y-2">
-                  <Label htmlFor="assigneeId">Assignee ID (Optional)</Label>
+                  <Label htmlFor="name">Name</Label>
                   <Input
-                    id="assigneeId"
-                    value={formData.assigneeId || ""}
-                    onChange={(e) => setFormData(prev => ({ 
-                      ...prev, 
-                      assigneeId: e.target.value || undefined 
-                    }))}
-                    placeholder="e.g., ops_user, tech_user, finance_user"
+                    id="name"
+                    value={formData.name}
+                    onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                    placeholder="e.g., Large Stripe mismatches to finance"
+                    required
                   />
                 </div>
 
+                <div className="flex items-center gap-6">
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      id="enabled"
+                      checked={formData.enabled}
+                      onCheckedChange={(enabled) => setFormData(prev => ({ ...prev, enabled }))}
+                    />
+                    <Label htmlFor="enabled">Enabled</Label>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      id="stopProcessing"
+                      checked={formData.stopProcessing}
+                      onCheckedChange={(stopProcessing) => setFormData(prev => ({ ...prev, stopProcessing }))}
+                    />
+                    <Label htmlFor="stopProcessing">Stop after this rule matches</Label>
+                  </div>
+                </div>
+
                 <div className="space-y-2">
-                  <Label htmlFor="priority">Priority (Optional)</Label>
-                  <Select
-                    value={formData.priority || ""}
-                    onValueChange={(value) => setFormData(prev => ({ 
-                      ...prev, 
-                      priority: value || undefined as any
-                    }))}
-                  >
-                    <SelectTrigger>
-                      <SelectValue placeholder="Select priority" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="">No priority override</SelectItem>
-                      {PRIORITIES.map(priority => (
-                        <SelectItem key={priority.value} value={priority.value}>
-                          {priority.label}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
+                  <div className="flex items-center justify-between">
+                    <Label>Conditions</Label>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setFormData(prev => ({ ...prev, conditions: [...prev.conditions, emptyCondition()] }))}
+                    >
+                      <Plus className="h-4 w-4 mr-1" />
+                      Condition
+                    </Button>
+                  </div>
+                  {formData.conditions.length === 0 && (
+                    <p className="text-sm text-muted-foreground">No conditions: the rule matches every task.</p>
+                  )}
+                  {formData.conditions.map((condition, index) => (
+                    <div key={index} className="flex flex-wrap items-center gap-2">
+                      <Select value={condition.field} onValueChange={(field) => updateCondition(index, { field })}>
+                        <SelectTrigger className="w-[140px]">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {CONDITION_FIELDS.map(field => (
+                            <SelectItem key={field.value} value={field.value}>{field.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {condition.field === "payload" && (
+                        <Input
+                          className="w-[120px]"
+                          value={condition.payloadPath}
+                          onChange={(e) => updateCondition(index, { payloadPath: e.target.value })}
+                          placeholder="diffBase"
+                        />
+                      )}
+                      <Select
+                        value={condition.operator}
+                        onValueChange={(operator) => updateCondition(index, { operator: operator as RuleCondition["operator"] })}
+                      >
+                        <SelectTrigger className="w-[150px]">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {OPERATORS.map(operator => (
+                            <SelectItem key={operator.value} value={operator.value}>{operator.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {condition.operator !== "exists" && (
+                        <Input
+                          className="w-[140px]"
+                          type={NUMERIC_OPERATORS.includes(condition.operator) ? "number" : "text"}
+                          value={condition.value}
+                          onChange={(e) => updateCondition(index, { value: e.target.value })}
+                          placeholder={condition.operator === "matches" ? "SKU-1*" : condition.operator.endsWith("in") ? "a, b" : "value"}
+                        />
+                      )}
+                      {NUMERIC_OPERATORS.includes(condition.operator) && (
+                        <div className="flex items-center gap-1">
+                          <Checkbox
+                            id={`abs-${index}`}
+                            checked={condition.abs}
+                            onCheckedChange={(checked) => updateCondition(index, { abs: checked === true })}
+                          />
+                          <Label htmlFor={`abs-${index}`} className="text-xs">Absolute</Label>
+                        </div>
+                      )}
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setFormData(prev => ({ ...prev, conditions: prev.conditions.filter((_, i) => i !== index) }))}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
                 </div>
 
                 <div className="space-y-2">
-                  <Label htmlFor="dueOffsetHours">Due Date Offset (Hours)</Label>
-                  <Input
-                    id="dueOffsetHours"
-                    type="number"
-                    min="0"
-                    value={formData.dueOffsetHours || ""}
-                    onChange={(e) => setFormData(prev => ({ 
-                      ...prev, 
-                      dueOffsetHours: e.target.value ? parseInt(e.target.value) : undefined 
-                    }))}
-                    placeholder="e.g., 24 for 1 day, 168 for 1 week"
-                  />
+                  <div className="flex items-center justify-between">
+                    <Label>Actions</Label>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setFormData(prev => ({ ...prev, actions: [...prev.actions, emptyAction()] }))}
+                    >
+                      <Plus className="h-4 w-4 mr-1" />
+                      Action
+                    </Button>
+                  </div>
+                  {formData.actions.map((action, index) => (
+                    <div key={index} className="flex flex-wrap items-center gap-2">
+                      <Select
+                        value={action.type}
+                        onValueChange={(type) => updateAction(index, { type: type as RuleAction["type"], value: "" })}
+                      >
+                        <SelectTrigger className="w-[150px]">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {ACTION_TYPES.map(type => (
+                            <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {action.type === "set_priority" ? (
+                        <Select value={action.value} onValueChange={(value) => updateAction(index, { value })}>
+                          <SelectTrigger className="w-[160px]">
+                            <SelectValue placeholder="Select priority" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {PRIORITIES.map(priority => (
+                              <SelectItem key={priority.value} value={priority.value}>{priority.label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      ) : action.type === "notify" ? (
+                        <>
+                          <Select
+                            value={action.channel}
+                            onValueChange={(channel) => updateAction(index, { channel: channel as ActionForm["channel"] })}
+                          >
+                            <SelectTrigger className="w-[140px]">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="in_app">In app</SelectItem>
+                              <SelectItem value="teams_email">Teams / email</SelectItem>
+                            </SelectContent>
+                          </Select>
+                          {action.channel === "in_app" && (
+                            <Input
+                              className="w-[160px]"
+                              value={action.value}
+                              onChange={(e) => updateAction(index, { value: e.target.value })}
+                              placeholder="User (default: assignee)"
+                            />
+                          )}
+                        </>
+                      ) : (
+                        <Input
+                          className="w-[200px]"
+                          type={action.type === "set_due" ? "number" : "text"}
+                          min={action.type === "set_due" ? "0" : undefined}
+                          value={action.value}
+                          onChange={(e) => updateAction(index, { value: e.target.value })}
+                          placeholder={action.type === "set_due" ? "e.g., 24" : "e.g., ops_user, finance_user"}
+                          required
+                        />
+                      )}
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        disabled={formData.actions.length === 1}
+                        onClick={() => setFormData(prev => ({ ...prev, actions: prev.actions.filter((_, i) => i !== index) }))}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
                 </div>
 
                 <div className="flex justify-end space-x-2 pt-4">
                   <Button
                     type="button"
                     variant="outline"
-                    onClick={() => setCreateDialogOpen(false)}
+                    onClick={() => setEditorOpen(false)}
                   >
                     Cancel
                   </Button>
-                  <Button 
-                    type="submit" 
-                    disabled={createRuleMutation.isPending}
+                  <Button
+                    type="submit"
+                    disabled={saveRuleMutation.isPending}
                   >
-                    {createRuleMutation.isPending ? "Creating..." : "Create Rule"}
+                    {saveRuleMutation.isPending ? "Saving..." : editingRuleId ? "Save Rule" : "Create Rule"}
                   </Button>
                 </div>
               </form>
-            </DialogContent>
-          </Dialog>
-        </div>
-      </CardHeader>
-      <CardContent>
-        {rules.length === 0 ? (
-          <div className="text-center text-muted-foreground py-8">
-            <Settings className="h-8 w-8 mx-auto mb-2 opacity-50" />
-            <p>No assignment rules configured.</p>
-            <p className="text-sm">Create rules to automatically assign tasks based on type.</p>
-          </div>
-        ) : (
-          <div className="space-y-3">
-            {rules.map((rule) => (
-              <div key={rule.id} className="flex items-center justify-between p-4 border rounded-lg">
-                <div className="space-y-1">
-                  <div className="flex items-center gap-3">
-                    <Badge variant="outline">
-                      {TASK_TYPES.find(t => t.value === rule.type)?.label || rule.type}
-                    </Badge>
-                    {rule.priority && (
-                      <Badge variant={
-                        rule.priority === "P1" ? "destructive" : 
-                        rule.priority === "P2" ? "default" : "secondary"
-                      }>
-                        {rule.priority}
-                      </Badge>
-                    )}
-                  </div>
-                  <div className="flex items-center gap-4 text-sm text-muted-foreground">
-                    {rule.assigneeId && (
-                      <div className="flex items-center gap-1">
-                        <User className="h-3 w-3" />
-                        Assign to: {rule.assigneeId}
-                      </div>
-                    )}
-                    {rule.dueOffsetHours && (
-                      <div className="flex items-center gap-1">
-                        <Clock className="h-3 w-3" />
-                        Due in: {rule.dueOffsetHours}h
-                      </div>
-                    )}
-                  </div>
-                </div>
-                <Button
-                  variant="ghost"
-                  size="sm"
-                  onClick={() => deleteRuleMutation.mutate(rule.id)}
-                  disabled={deleteRuleMutation.isPending}
-                  className="text-destructive hover:text-destructive"
-                >
-                  <Trash2 className="h-4 w-4" />
-                </Button>
-              </div>
-            ))}
-          </div>
-        )}
-      </CardContent>
+            </TabsContent>
+            <TabsContent value="test">
+              <RuleTestPanel draft={toRuleData({ ...formData, name: formData.name || "Unsaved rule" })} />
+            </TabsContent>
+          </Tabs>
+        </DialogContent>
+      </Dialog>
     </Card>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,429 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Plus, Trash2, Package, Pencil, FlaskConical } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { ShippingBox, CreateShippingBoxData } from "@shared/schema";
+
+interface BoxForm {
+  name: string;
+  locationId: string;
+  length: string;
+  width: string;
+  height: string;
+  units: "cm" | "in";
+  maxWeight: string;
+  tareWeight: string;
+  weightUnits: "kg" | "lb";
+  active: boolean;
+}
+
+interface PackingSuggestion {
+  locationId: string | null;
+  parcels: Array<{
+    boxId: string | null;
+    boxName: string | null;
+    length: number;
+    width: number;
+    height: number;
+    weight: number;
+    items: Array<{ sku: string, quantity: number }>;
+    fillRatio: number;
+  }>;
+  missingSkus: string[];
+}
+
+const emptyForm = (): BoxForm => ({
+  name: "",
+  locationId: "",
+  length: "",
+  width: "",
+  height: "",
+  units: "cm",
+  maxWeight: "",
+  tareWeight: "0",
+  weightUnits: "kg",
+  active: true,
+});
+
+function toBoxData(form: BoxForm): CreateShippingBoxData {
+  return {
+    name: form.name,
+    locationId: form.locationId.trim() || null,
+    length: Number(form.length),
+    width: Number(form.width),
+    height: Number(form.height),
+    units: form.units,
+    maxWeight: Number(form.maxWeight),
+    tareWeight: Number(form.tareWeight || 0),
+    weightUnits: form.weightUnits,
+    active: form.active,
+  };
+}
+
+function toForm(box: ShippingBox): BoxForm {
+  return {
+    name: box.name,
+    locationId: box.locationId || "",
+    length: String(box.length),
+    width: String(box.width),
+    height: String(box.height),
+    units: box.units,
+    maxWeight: String(box.maxWeight),
+    tareWeight: String(box.tareWeight),
+    weightUnits: box.weightUnits,
+    active: box.active,
+  };
+}
+
+// Parse "SKU-001 x 2" lines into packing items
+function parseItems(value: string): Array<{ sku: string, quantity: number }> {
+  return value.split("\n").map(line => line.trim()).filter(Boolean).map(line => {
+    const [sku, quantity] = line.split(/\s*x\s*/i);
+    return { sku: sku.trim(), quantity: Math.max(1, parseInt(quantity || "1", 10) || 1) };
+  });
+}
+
+// Try the packer against the catalogue with a list of SKUs
+function PackingTestPanel() {
+  const [items, setItems] = useState("");
+  const [locationId, setLocationId] = useState("");
+
+  const packMutation = useMutation({
+    mutationFn: async (body: unknown) => {
+      const response = await apiRequest("POST", "/api/shipping/packing", body);
+      return await response.json() as PackingSuggestion;
+    },
+  });
+
+  const suggestion = packMutation.data;
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="packing-items">Items</Label>
+        <Textarea
+          id="packing-items"
+          value={items}
+          onChange={(e) => setItems(e.target.value)}
+          placeholder={"SKU-001 x 2\nSKU-002 x 1"}
+          rows={4}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="packing-location">Location</Label>
+        <Input id="packing-location" value={locationId} onChange={(e) => setLocationId(e.target.value)} placeholder="Blank for shared boxes only" />
+      </div>
+      <Button
+        type="button"
+        variant="outline"
+        onClick={() => packMutation.mutate({ items: parseItems(items), locationId: locationId.trim() || undefined })}
+        disabled={packMutation.isPending || parseItems(items).length === 0}
+      >
+        <FlaskConical className="h-4 w-4 mr-2" />
+        {packMutation.isPending ? "Packing..." : "Suggest Parcels"}
+      </Button>
+
+      {packMutation.error && (
+        <p className="text-sm text-destructive">{(packMutation.error as Error).message}</p>
+      )}
+
+      {suggestion && (
+        <div className="space-y-3">
+          {suggestion.missingSkus.length > 0 && (
+            <div className="p-3 rounded-lg bg-muted text-sm">
+              No dimensions for {suggestion.missingSkus.join(", ")} — these were left out.
+            </div>
+          )}
+          {suggestion.parcels.map((parcel, index) => (
+            <div key={index} className="p-3 border rounded-lg space-y-1">
+              <div className="flex items-center justify-between">
+                <span className="font-medium text-sm">{parcel.boxName || "Own packaging"}</span>
+                <Badge variant="secondary">{Math.round(parcel.fillRatio * 100)}% full</Badge>
+              </div>
+              <div className="text-xs text-muted-foreground">
+                {parcel.length} × {parcel.width} × {parcel.height} cm · {parcel.weight} kg
+              </div>
+              <div className="text-xs">
+                {parcel.items.map(item => `${item.sku} × ${item.quantity}`).join(", ")}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function ShippingBoxesManager() {
+  const [editorOpen, setEditorOpen] = useState(false);
+  const [testOpen, setTestOpen] = useState(false);
+  const [editingBoxId, setEditingBoxId] = useState<string | null>(null);
+  const [formData, setFormData] = useState<BoxForm>(emptyForm());
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // Fetch boxes (smallest first)
+  const { data: boxes = [] } = useQuery<ShippingBox[]>({
+    queryKey: ["/api/shipping/boxes"],
+  });
+
+  const onMutationError = (error: Error) => {
+    toast({
+      title: "Box Catalogue Update Failed",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  // Create or update box mutation
+  const saveBoxMutation = useMutation({
+    mutationFn: async (boxData: CreateShippingBoxData) => {
+      const response = editingBoxId
+        ? await apiRequest("PUT", `/api/shipping/boxes/${editingBoxId}`, boxData)
+        : await apiRequest("POST", "/api/shipping/boxes", boxData);
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/shipping/boxes"] });
+      setEditorOpen(false);
+      setEditingBoxId(null);
+      setFormData(emptyForm());
+    },
+    onError: onMutationError,
+  });
+
+  const toggleBoxMutation = useMutation({
+    mutationFn: async ({ boxId, active }: { boxId: string, active: boolean }) => {
+      const response = await apiRequest("PUT", `/api/shipping/boxes/${boxId}`, { active });
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/shipping/boxes"] });
+    },
+    onError: onMutationError,
+  });
+
+  // Delete box mutation
+  const deleteBoxMutation = useMutation({
+    mutationFn: async (boxId: string) => {
+      const response = await apiRequest("DELETE", `/api/shipping/boxes/${boxId}`);
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/shipping/boxes"] });
+    },
+    onError: onMutationError,
+  });
+
+  const openEditor = (box?: ShippingBox) => {
+    setEditingBoxId(box?.id || null);
+    setFormData(box ? toForm(box) : emptyForm());
+    setEditorOpen(true);
+  };
+
+  const update = (updates: Partial<BoxForm>) => setFormData(prev => ({ ...prev, ...updates }));
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveBoxMutation.mutate(toBoxData(formData));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Package className="h-5 w-5" />
+              Box Catalogue
+            </CardTitle>
+            <CardDescription>
+              Shipments and rate requests without parcels are packed into these boxes using each product's dimensions
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button size="sm" variant="outline" onClick={() => setTestOpen(true)} disabled={boxes.length === 0} data-testid="button-test-packing">
+              <FlaskConical className="h-4 w-4 mr-2" />
+              Test
+            </Button>
+            <Button size="sm" onClick={() => openEditor()} data-testid="button-add-shipping-box">
+              <Plus className="h-4 w-4 mr-2" />
+              Add Box
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {boxes.length === 0 ? (
+          <div className="text-center text-muted-foreground py-8">
+            <Package className="h-8 w-8 mx-auto mb-2 opacity-50" />
+            <p>No boxes configured.</p>
+            <p className="text-sm">Add the boxes you pack with to get parcel suggestions for orders.</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {boxes.map(box => (
+              <div key={box.id} className={`flex items-center justify-between p-4 border rounded-lg ${box.active ? "" : "opacity-60"}`}>
+                <div className="space-y-1">
+                  <div className="flex items-center gap-3">
+                    <span className="font-medium">{box.name}</span>
+                    <Badge variant="outline">{box.locationId || "All locations"}</Badge>
+                  </div>
+                  <div className="text-sm text-muted-foreground">
+                    {box.length} × {box.width} × {box.height} {box.units} · up to {box.maxWeight} {box.weightUnits}
+                    {box.tareWeight > 0 && ` (box ${box.tareWeight} ${box.weightUnits})`}
+                  </div>
+                </div>
+                <div className="flex items-center gap-1">
+                  <Switch
+                    checked={box.active}
+                    onCheckedChange={(active) => toggleBoxMutation.mutate({ boxId: box.id, active })}
+                  />
+                  <Button variant="ghost" size="sm" onClick={() => openEditor(box)}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => deleteBoxMutation.mutate(box.id)}
+                    disabled={deleteBoxMutation.isPending}
+                    className="text-destructive hover:text-destructive"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={testOpen} onOpenChange={setTestOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Test Packing</DialogTitle>
+            <DialogDescription>
+              See how these items would be split into parcels. Items need dimensions set for their SKU.
+            </DialogDescription>
+          </DialogHeader>
+          <PackingTestPanel />
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={editorOpen} onOpenChange={setEditorOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editingBoxId ? "Edit Box" : "Add Box"}</DialogTitle>
+            <DialogDescription>
+              Inner dimensions, and the most the packed box may weigh
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="box-name">Name</Label>
+                <Input id="box-name" value={formData.name} onChange={(e) => update({ name: e.target.value })} placeholder="e.g., Medium mailer" required />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="box-location">Location</Label>
+                <Input id="box-location" value={formData.locationId} onChange={(e) => update({ locationId: e.target.value })} placeholder="Blank for all locations" />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-4 gap-3">
+              <div className="space-y-2">
+                <Label>Length</Label>
+                <Input type="number" min="0" step="0.1" value={formData.length} onChange={(e) => update({ length: e.target.value })} required />
+              </div>
+              <div className="space-y-2">
+                <Label>Width</Label>
+                <Input type="number" min="0" step="0.1" value={formData.width} onChange={(e) => update({ width: e.target.value })} required />
+              </div>
+              <div className="space-y-2">
+                <Label>Height</Label>
+                <Input type="number" min="0" step="0.1" value={formData.height} onChange={(e) => update({ height: e.target.value })} required />
+              </div>
+              <div className="space-y-2">
+                <Label>Units</Label>
+                <Select value={formData.units} onValueChange={(units) => update({ units: units as BoxForm["units"] })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="cm">cm</SelectItem>
+                    <SelectItem value="in">in</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-3 gap-3">
+              <div className="space-y-2">
+                <Label>Max Weight</Label>
+                <Input type="number" min="0" step="0.1" value={formData.maxWeight} onChange={(e) => update({ maxWeight: e.target.value })} required />
+              </div>
+              <div className="space-y-2">
+                <Label>Box Weight</Label>
+                <Input type="number" min="0" step="0.01" value={formData.tareWeight} onChange={(e) => update({ tareWeight: e.target.value })} />
+              </div>
+              <div className="space-y-2">
+                <Label>Weight Units</Label>
+                <Select value={formData.weightUnits} onValueChange={(weightUnits) => update({ weightUnits: weightUnits as BoxForm["weightUnits"] })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="kg">kg</SelectItem>
+                    <SelectItem value="lb">lb</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Switch id="box-active" checked={formData.active} onCheckedChange={(active) => update({ active })} />
+              <Label htmlFor="box-active">Active</Label>
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => setEditorOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saveBoxMutation.isPending}>
+                {saveBoxMutation.isPending ? "Saving..." : editingBoxId ? "Update Box" : "Add Box"}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,658 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Plus,
+  Trash2,
+  Route,
+  ArrowUp,
+  ArrowDown,
+  Pencil,
+  FlaskConical,
+  CheckCircle2,
+  XCircle,
+} from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type {
+  ShippingRule,
+  ShippingRuleCondition,
+  ShippingRuleContext,
+  ShippingRuleEvaluation,
+  CreateShippingRuleData,
+} from "@shared/schema";
+
+interface ConnectorOption {
+  id: string;
+  name: string;
+  provider: string;
+  status: string;
+}
+
+const CONDITION_FIELDS: { value: ShippingRuleCondition["field"], label: string }[] = [
+  { value: "destinationCountry", label: "Destination country" },
+  { value: "destinationRegion", label: "Destination region" },
+  { value: "destinationPostalCode", label: "Postal code" },
+  { value: "weightKg", label: "Weight (kg)" },
+  { value: "parcelCount", label: "Parcels" },
+  { value: "orderValue", label: "Order value" },
+  { value: "currency", label: "Currency" },
+  { value: "skus", label: "SKU" },
+  { value: "skuTags", label: "SKU tag" },
+  { value: "cod", label: "Cash on delivery" },
+];
+
+const OPERATORS: { value: ShippingRuleCondition["operator"], label: string }[] = [
+  { value: "eq", label: "equals" },
+  { value: "neq", label: "does not equal" },
+  { value: "in", label: "is one of" },
+  { value: "not_in", label: "is not one of" },
+  { value: "matches", label: "matches pattern" },
+  { value: "contains", label: "contains" },
+  { value: "gt", label: ">" },
+  { value: "gte", label: ">=" },
+  { value: "lt", label: "<" },
+  { value: "lte", label: "<=" },
+  { value: "exists", label: "is set" },
+];
+
+const NUMERIC_OPERATORS = ["gt", "gte", "lt", "lte"];
+
+interface ConditionForm {
+  field: ShippingRuleCondition["field"];
+  operator: ShippingRuleCondition["operator"];
+  value: string;
+}
+
+interface RuleForm {
+  name: string;
+  enabled: boolean;
+  connectorId: string;
+  serviceCode: string;
+  conditions: ConditionForm[];
+}
+
+interface TestShipmentForm {
+  destinationCountry: string;
+  destinationRegion: string;
+  destinationPostalCode: string;
+  weightKg: string;
+  orderValue: string;
+  currency: string;
+  skus: string;
+  skuTags: string;
+  cod: boolean;
+}
+
+const emptyCondition = (): ConditionForm => ({ field: "destinationCountry", operator: "eq", value: "" });
+const emptyForm = (connectorId = ""): RuleForm => ({ name: "", enabled: true, connectorId, serviceCode: "", conditions: [] });
+
+const splitList = (value: string) => value.split(",").map(v => v.trim()).filter(Boolean);
+
+function toRuleData(form: RuleForm): CreateShippingRuleData {
+  return {
+    name: form.name,
+    enabled: form.enabled,
+    connectorId: form.connectorId,
+    serviceCode: form.serviceCode.trim() || null,
+    conditions: form.conditions.map(condition => {
+      let value: ShippingRuleCondition["value"] = condition.value;
+      if (NUMERIC_OPERATORS.includes(condition.operator)) {
+        value = Number(condition.value);
+      } else if (condition.operator === "in" || condition.operator === "not_in") {
+        value = splitList(condition.value);
+      } else if (condition.operator === "exists") {
+        value = undefined;
+      }
+      return { field: condition.field, operator: condition.operator, value };
+    }),
+  };
+}
+
+function toForm(rule: ShippingRule): RuleForm {
+  return {
+    name: rule.name,
+    enabled: rule.enabled,
+    connectorId: rule.connectorId,
+    serviceCode: rule.serviceCode || "",
+    conditions: rule.conditions.map(condition => ({
+      field: condition.field,
+      operator: condition.operator,
+      value: Array.isArray(condition.value) ? condition.value.join(", ") : String(condition.value ?? ""),
+    })),
+  };
+}
+
+function describeCondition(condition: ShippingRuleCondition): string {
+  const field = CONDITION_FIELDS.find(f => f.value === condition.field)?.label || condition.field;
+  const operator = OPERATORS.find(o => o.value === condition.operator)?.label || condition.operator;
+  const value = Array.isArray(condition.value) ? condition.value.join(", ") : condition.value;
+  return condition.operator === "exists" ? `${field} ${operator}` : `${field} ${operator} ${value}`;
+}
+
+function describeCarrier(connectors: ConnectorOption[], connectorId: string, serviceCode: string | null): string {
+  const connector = connectors.find(c => c.id === connectorId);
+  return `${connector?.name || "Unknown connector"} · ${serviceCode || "cheapest service"}`;
+}
+
+// Dry run against a sample shipment: the saved rules in order, or a single unsaved rule
+function ShippingRuleTestPanel({ connectors, draft }: { connectors: ConnectorOption[], draft?: CreateShippingRuleData }) {
+  const [shipment, setShipment] = useState<TestShipmentForm>({
+    destinationCountry: "US",
+    destinationRegion: "",
+    destinationPostalCode: "",
+    weightKg: "1",
+    orderValue: "50",
+    currency: "USD",
+    skus: "",
+    skuTags: "",
+    cod: false,
+  });
+
+  const testMutation = useMutation({
+    mutationFn: async (body: unknown) => {
+      const response = await apiRequest("POST", "/api/shipping/rules/test", body);
+      return await response.json() as ShippingRuleEvaluation;
+    },
+  });
+
+  const runTest = () => {
+    const context: ShippingRuleContext = {
+      destinationCountry: shipment.destinationCountry || undefined,
+      destinationRegion: shipment.destinationRegion || undefined,
+      destinationPostalCode: shipment.destinationPostalCode || undefined,
+      weightKg: shipment.weightKg ? Number(shipment.weightKg) : undefined,
+      parcelCount: 1,
+      orderValue: shipment.orderValue ? Number(shipment.orderValue) : undefined,
+      currency: shipment.currency || undefined,
+      skus: splitList(shipment.skus),
+      skuTags: splitList(shipment.skuTags),
+      cod: shipment.cod,
+    };
+    testMutation.mutate({ context, rule: draft });
+  };
+
+  const update = (updates: Partial<TestShipmentForm>) => setShipment(prev => ({ ...prev, ...updates }));
+  const evaluation = testMutation.data;
+  const matched = evaluation?.trace.filter(trace => trace.status === "MATCHED") || [];
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-3 gap-3">
+        <div className="space-y-2">
+          <Label>Country</Label>
+          <Input value={shipment.destinationCountry} onChange={(e) => update({ destinationCountry: e.target.value })} placeholder="e.g., US" />
+        </div>
+        <div className="space-y-2">
+          <Label>Region</Label>
+          <Input value={shipment.destinationRegion} onChange={(e) => update({ destinationRegion: e.target.value })} placeholder="e.g., CA" />
+        </div>
+        <div className="space-y-2">
+          <Label>Postal Code</Label>
+          <Input value={shipment.destinationPostalCode} onChange={(e) => update({ destinationPostalCode: e.target.value })} placeholder="e.g., 94105" />
+        </div>
+        <div className="space-y-2">
+          <Label>Weight (kg)</Label>
+          <Input type="number" min="0" step="0.1" value={shipment.weightKg} onChange={(e) => update({ weightKg: e.target.value })} />
+        </div>
+        <div className="space-y-2">
+          <Label>Order Value</Label>
+          <Input type="number" min="0" step="0.01" value={shipment.orderValue} onChange={(e) => update({ orderValue: e.target.value })} />
+        </div>
+        <div className="space-y-2">
+          <Label>Currency</Label>
+          <Input value={shipment.currency} onChange={(e) => update({ currency: e.target.value })} placeholder="USD" />
+        </div>
+        <div className="space-y-2">
+          <Label>SKUs</Label>
+          <Input value={shipment.skus} onChange={(e) => update({ skus: e.target.value })} placeholder="SKU-001, SKU-002" />
+        </div>
+        <div className="space-y-2">
+          <Label>SKU Tags</Label>
+          <Input value={shipment.skuTags} onChange={(e) => update({ skuTags: e.target.value })} placeholder="fragile, hazmat" />
+        </div>
+        <div className="flex items-end gap-2 pb-2">
+          <Switch id="test-cod" checked={shipment.cod} onCheckedChange={(cod) => update({ cod })} />
+          <Label htmlFor="test-cod">Cash on delivery</Label>
+        </div>
+      </div>
+      <Button type="button" variant="outline" onClick={runTest} disabled={testMutation.isPending}>
+        <FlaskConical className="h-4 w-4 mr-2" />
+        {testMutation.isPending ? "Testing..." : draft ? "Test This Rule" : "Test Rules"}
+      </Button>
+
+      {testMutation.error && (
+        <p className="text-sm text-destructive">{(testMutation.error as Error).message}</p>
+      )}
+
+      {evaluation && (
+        <div className="space-y-3">
+          <div className="p-3 rounded-lg bg-muted text-sm">
+            {matched.length === 0 ? (
+              <span>No rule matches — the shipment needs a connector picked by hand.</span>
+            ) : (
+              <div className="space-y-1">
+                <div>
+                  <span className="font-medium">Ships with: </span>
+                  {describeCarrier(connectors, matched[0].connectorId, matched[0].serviceCode)}
+                </div>
+                {matched.length > 1 && (
+                  <div className="text-muted-foreground">
+                    Falls back to: {matched.slice(1).map(trace => describeCarrier(connectors, trace.connectorId, trace.serviceCode)).join(", then ")}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+          {evaluation.trace.map(trace => (
+            <div key={trace.ruleId} className="p-3 border rounded-lg space-y-1">
+              <div className="flex items-center justify-between">
+                <span className="font-medium text-sm">{trace.name}</span>
+                <Badge variant={trace.status === "MATCHED" ? "default" : "secondary"}>
+                  {trace.status.replace("_", " ")}
+                </Badge>
+              </div>
+              {trace.conditions.map((condition, i) => (
+                <div key={i} className="flex items-center gap-2 text-xs text-muted-foreground">
+                  {condition.passed
+                    ? <CheckCircle2 className="h-3 w-3 text-green-600" />
+                    : <XCircle className="h-3 w-3 text-destructive" />}
+                  {describeCondition(condition)}
+                  <span>(was {condition.actual === undefined ? "not set" : JSON.stringify(condition.actual)})</span>
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function ShippingRulesManager({ connectors }: { connectors: ConnectorOption[] }) {
+  const [editorOpen, setEditorOpen] = useState(false);
+  const [testOpen, setTestOpen] = useState(false);
+  const [editingRuleId, setEditingRuleId] = useState<string | null>(null);
+  const [formData, setFormData] = useState<RuleForm>(emptyForm());
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // Fetch rules (in evaluation order)
+  const { data: rules = [] } = useQuery<ShippingRule[]>({
+    queryKey: ["/api/shipping/rules"],
+  });
+
+  const onMutationError = (error: Error) => {
+    toast({
+      title: "Shipping Rule Update Failed",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  // Create or update rule mutation
+  const saveRuleMutation = useMutation({
+    mutationFn: async (ruleData: CreateShippingRuleData) => {
+      const response = editingRuleId
+        ? await apiRequest("PUT", `/api/shipping/rules/${editingRuleId}`, ruleData)
+        : await apiRequest("POST", "/api/shipping/rules", ruleData);
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/shipping/rules"] });
+      setEditorOpen(false);
+      setEditingRuleId(null);
+      setFormData(emptyForm());
+    },
+    onError: onMutationError,
+  });
+
+  const toggleRuleMutation = useMutation({
+    mutationFn: async ({ ruleId, enabled }: { ruleId: string, enabled: boolean }) => {
+      const response = await apiRequest("PUT", `/api/shipping/rules/${ruleId}`, { enabled });
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/shipping/rules"] });
+    },
+    onError: onMutationError,
+  });
+
+  const reorderRulesMutation = useMutation({
+    mutationFn: async (ruleIds: string[]) => {
+      const response = await apiRequest("POST", "/api/shipping/rules/reorder", { ruleIds });
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/shipping/rules"] });
+    },
+    onError: onMutationError,
+  });
+
+  // Delete rule mutation
+  const deleteRuleMutation = useMutation({
+    mutationFn: async (ruleId: string) => {
+      const response = await apiRequest("DELETE", `/api/shipping/rules/${ruleId}`);
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/shipping/rules"] });
+    },
+    onError: onMutationError,
+  });
+
+  const openEditor = (rule?: ShippingRule) => {
+    setEditingRuleId(rule?.id || null);
+    setFormData(rule ? toForm(rule) : emptyForm(connectors[0]?.id));
+    setEditorOpen(true);
+  };
+
+  const moveRule = (index: number, direction: -1 | 1) => {
+    const ids = rules.map(rule => rule.id);
+    const target = index + direction;
+    if (target < 0 || target >= ids.length) return;
+    [ids[index], ids[target]] = [ids[target], ids[index]];
+    reorderRulesMutation.mutate(ids);
+  };
+
+  const updateCondition = (index: number, updates: Partial<ConditionForm>) => {
+    setFormData(prev => ({
+      ...prev,
+      conditions: prev.conditions.map((condition, i) => i === index ? { ...condition, ...updates } : condition),
+    }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveRuleMutation.mutate(toRuleData(formData));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Route className="h-5 w-5" />
+              Shipping Rules
+            </CardTitle>
+            <CardDescription>
+              Shipments created without a connector use the first matching rule, falling back to the next if the carrier errors
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button size="sm" variant="outline" onClick={() => setTestOpen(true)} data-testid="button-test-shipping-rules">
+              <FlaskConical className="h-4 w-4 mr-2" />
+              Test
+            </Button>
+            <Button size="sm" onClick={() => openEditor()} disabled={connectors.length === 0} data-testid="button-add-shipping-rule">
+              <Plus className="h-4 w-4 mr-2" />
+              Add Rule
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {rules.length === 0 ? (
+          <div className="text-center text-muted-foreground py-8">
+            <Route className="h-8 w-8 mx-auto mb-2 opacity-50" />
+            <p>No shipping rules configured.</p>
+            <p className="text-sm">
+              {connectors.length === 0
+                ? "Add a shipping connector first, then create rules to pick it automatically."
+                : "Create rules to pick the carrier and service by destination, weight, value, SKU tags or COD."}
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {rules.map((rule, index) => (
+              <div key={rule.id} className={`flex items-start justify-between p-4 border rounded-lg ${rule.enabled ? "" : "opacity-60"}`}>
+                <div className="space-y-2">
+                  <div className="flex items-center gap-3">
+                    <Badge variant="secondary">{index + 1}</Badge>
+                    <span className="font-medium">{rule.name}</span>
+                  </div>
+                  <div className="text-sm text-muted-foreground">
+                    {rule.conditions.length === 0
+                      ? "Always"
+                      : `When ${rule.conditions.map(describeCondition).join(" and ")}`}
+                  </div>
+                  <Badge variant="outline">{describeCarrier(connectors, rule.connectorId, rule.serviceCode)}</Badge>
+                </div>
+                <div className="flex items-center gap-1">
+                  <Switch
+                    checked={rule.enabled}
+                    onCheckedChange={(enabled) => toggleRuleMutation.mutate({ ruleId: rule.id, enabled })}
+                  />
+                  <Button variant="ghost" size="sm" onClick={() => moveRule(index, -1)} disabled={index === 0 || reorderRulesMutation.isPending}>
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => moveRule(index, 1)} disabled={index === rules.length - 1 || reorderRulesMutation.isPending}>
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => openEditor(rule)}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => deleteRuleMutation.mutate(rule.id)}
+                    disabled={deleteRuleMutation.isPending}
+                    className="text-destructive hover:text-destructive"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={testOpen} onOpenChange={setTestOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Test Shipping Rules</DialogTitle>
+            <DialogDescription>
+              See which carrier the rules would pick for this shipment. Nothing is booked.
+            </DialogDescription>
+          </DialogHeader>
+          <ShippingRuleTestPanel connectors={connectors} />
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={editorOpen} onOpenChange={setEditorOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingRuleId ? "Edit Shipping Rule" : "Create Shipping Rule"}</DialogTitle>
+            <DialogDescription>
+              All conditions must match for the rule to pick its carrier
+            </DialogDescription>
+          </DialogHeader>
+          <Tabs defaultValue="rule">
+            <TabsList>
+              <TabsTrigger value="rule">Rule</TabsTrigger>
+              <TabsTrigger value="test">Test</TabsTrigger>
+            </TabsList>
+            <TabsContent value="rule">
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="shipping-rule-name">Name</Label>
+                  <Input
+                    id="shipping-rule-name"
+                    value={formData.name}
+                    onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                    placeholder="e.g., Heavy international parcels by DHL"
+                    required
+                  />
+                </div>
+
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-2">
+                    <Label>Connector</Label>
+                    <Select value={formData.connectorId} onValueChange={(connectorId) => setFormData(prev => ({ ...prev, connectorId }))}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select connector" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {connectors.map(connector => (
+                          <SelectItem key={connector.id} value={connector.id}>
+                            {connector.name}{connector.status !== "active" ? ` (${connector.status})` : ""}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="shipping-rule-service">Service Code</Label>
+                    <Input
+                      id="shipping-rule-service"
+                      value={formData.serviceCode}
+                      onChange={(e) => setFormData(prev => ({ ...prev, serviceCode: e.target.value }))}
+                      placeholder="Blank for the cheapest service"
+                    />
+                  </div>
+                </div>
+
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id="shipping-rule-enabled"
+                    checked={formData.enabled}
+                    onCheckedChange={(enabled) => setFormData(prev => ({ ...prev, enabled }))}
+                  />
+                  <Label htmlFor="shipping-rule-enabled">Enabled</Label>
+                </div>
+
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Label>Conditions</Label>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setFormData(prev => ({ ...prev, conditions: [...prev.conditions, emptyCondition()] }))}
+                    >
+                      <Plus className="h-4 w-4 mr-1" />
+                      Condition
+                    </Button>
+                  </div>
+                  {formData.conditions.length === 0 && (
+                    <p className="text-sm text-muted-foreground">No conditions: the rule matches every shipment.</p>
+                  )}
+                  {formData.conditions.map((condition, index) => (
+                    <div key={index} className="flex flex-wrap items-center gap-2">
+                      <Select
+                        value={condition.field}
+                        onValueChange={(field) => updateCondition(index, {
+                          field: field as ConditionForm["field"],
+                          ...(field === "cod" && { operator: "eq", value: "true" }),
+                        })}
+                      >
+                        <SelectTrigger className="w-[170px]">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {CONDITION_FIELDS.map(field => (
+                            <SelectItem key={field.value} value={field.value}>{field.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Select
+                        value={condition.operator}
+                        onValueChange={(operator) => updateCondition(index, { operator: operator as ConditionForm["operator"] })}
+                      >
+                        <SelectTrigger className="w-[150px]">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {OPERATORS.map(operator => (
+                            <SelectItem key={operator.value} value={operator.value}>{operator.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {condition.operator !== "exists" && (condition.field === "cod" ? (
+                        <Select value={condition.value} onValueChange={(value) => updateCondition(index, { value })}>
+                          <SelectTrigger className="w-[140px]">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="true">Yes</SelectItem>
+                            <SelectItem value="false">No</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      ) : (
+                        <Input
+                          className="w-[140px]"
+                          type={NUMERIC_OPERATORS.includes(condition.operator) ? "number" : "text"}
+                          value={condition.value}
+                          onChange={(e) => updateCondition(index, { value: e.target.value })}
+                          placeholder={condition.operator === "matches" ? "94*" : condition.operator.endsWith("in") ? "US, CA" : "value"}
+                        />
+                      ))}
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setFormData(prev => ({ ...prev, conditions: prev.conditions.filter((_, i) => i !== index) }))}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+
+                <div className="flex justify-end space-x-2 pt-4">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => setEditorOpen(false)}
+                  >
+                    Cancel
+                  </Button>
+                  <Button
+                    type="submit"
+                    disabled={saveRuleMutation.isPending || !formData.connectorId}
+                  >
+                    {saveRuleMutation.isPending ? "Saving..." : editingRuleId ? "Save Rule" : "Create Rule"}
+                  </Button>
+                </div>
+              </form>
+            </TabsContent>
+            <TabsContent value="test">
+              <ShippingRuleTestPanel
+                connectors={connectors}
+                draft={toRuleData({ ...formData, name: formData.name || "Unsaved rule" })}
+              />
+            </TabsContent>
+          </Tabs>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
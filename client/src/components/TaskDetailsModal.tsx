@@ -24,11 +24,12 @@ import {
   CheckCircle2,
   UserPlus,
   Calendar,
-  AlertCircle
+  AlertCircle,
+  TrendingUp
 } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
 import { apiRequest } from "@/lib/queryClient";
-import type { Task, Comment, Activity as ActivityType } from "@shared/schema";
+import type { Task, Comment, Activity as ActivityType, EscalationActivityMeta } from "@shared/schema";
 
 interface TaskDetailsModalProps {
   task: Task | null;
@@ -41,6 +42,7 @@ const ACTIVITY_ICONS = {
   ASSIGN: UserPlus,
   COMMENT: MessageCircle,
   DUE_CHANGE: Calendar,
+  ESCALATION: TrendingUp,
 } as const;
 
 const PRIORITY_COLORS = {
@@ -113,11 +115,15 @@ export function TaskDetailsModal({ task, open, onOpenChange }: TaskDetailsModalP
         return "Added a comment";
       case "DUE_CHANGE":
         return "Due date changed";
+      case "ESCALATION":
+        return `Escalated by "${meta?.policyName || "SLA policy"}": ${meta?.reason || "SLA breached"}`;
       default:
         return "Activity logged";
     }
   };
 
+  const escalations = activity.filter(act => act.type === "ESCALATION");
+
   if (!task) return null;
 
   return (
@@ -127,6 +133,11 @@ export function TaskDetailsModal({ task, open, onOpenChange }: TaskDetailsModalP
           <DialogTitle className="flex items-center gap-3">
             <Badge variant={PRIORITY_COLORS[task.priority]}>{task.priority}</Badge>
             {task.title}
+            {task.escalationLevel > 0 && (
+              <Badge variant="outline" className="text-destructive border-destructive">
+                Escalated ×{task.escalationLevel}
+              </Badge>
+            )}
           </DialogTitle>
           <DialogDescription>
             Task ID: {task.id} • Created {formatDistanceToNow(new Date(task.createdAt))} ago
@@ -177,7 +188,7 @@ export function TaskDetailsModal({ task, open, onOpenChange }: TaskDetailsModalP
         <Separator />
 
         <Tabs defaultValue="comments" className="flex-1">
-          <TabsList className="grid w-full grid-cols-2">
+          <TabsList className="grid w-full grid-cols-3">
             <TabsTrigger value="comments" className="flex items-center gap-2">
               <MessageCircle className="h-4 w-4" />
               Comments ({comments.length})
@@ -186,6 +197,10 @@ export function TaskDetailsModal({ task, open, onOpenChange }: TaskDetailsModalP
               <Activity className="h-4 w-4" />
               Activity ({activity.length})
             </TabsTrigger>
+            <TabsTrigger value="escalations" className="flex items-center gap-2">
+              <TrendingUp className="h-4 w-4" />
+              Escalations ({escalations.length})
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="comments" className="space-y-4">
@@ -275,6 +290,46 @@ export function TaskDetailsModal({ task, open, onOpenChange }: TaskDetailsModalP
               </div>
             </ScrollArea>
           </TabsContent>
+
+          <TabsContent value="escalations" className="space-y-4">
+            <ScrollArea className="h-64">
+              <div className="space-y-3">
+                {escalations.length === 0 ? (
+                  <div className="text-center text-muted-foreground py-8">
+                    <TrendingUp className="h-8 w-8 mx-auto mb-2 opacity-50" />
+                    <p>This task has not been escalated.</p>
+                  </div>
+                ) : (
+                  escalations.map((act) => {
+                    const meta = act.meta as EscalationActivityMeta;
+                    return (
+                      <div key={act.id} className="p-3 border rounded-lg space-y-1">
+                        <div className="flex items-center justify-between">
+                          <span className="text-sm font-medium">
+                            Level {meta.level} • {meta.policyName}
+                          </span>
+                          <span className="text-xs text-muted-foreground">
+                            {formatDistanceToNow(new Date(act.createdAt))} ago
+                          </span>
+                        </div>
+                        <p className="text-sm text-muted-foreground">{meta.reason}</p>
+                        <div className="flex flex-wrap gap-2 text-xs">
+                          {meta.oldPriority !== meta.newPriority && (
+                            <Badge variant="outline">{meta.oldPriority} → {meta.newPriority}</Badge>
+                          )}
+                          {meta.oldAssigneeId !== meta.newAssigneeId && (
+                            <Badge variant="outline">
+                              {meta.oldAssigneeId || "Unassigned"} → {meta.newAssigneeId}
+                            </Badge>
+                          )}
+                        </div>
+                      </div>
+                    );
+                  })
+                )}
+              </div>
+            </ScrollArea>
+          </TabsContent>
         </Tabs>
       </DialogContent>
     </Dialog>
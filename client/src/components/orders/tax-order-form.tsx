@@ -19,6 +19,7 @@ import {
   currencyFormat,
   getEffectiveTaxRate 
 } from "@/utils/taxation";
+import { regionRatesOn } from "@shared/taxation";
 
 interface TaxOrderFormProps {
   order?: TaxOrder | null;
@@ -67,7 +68,9 @@ export function TaxOrderForm({ order, onSave, onCancel, isOpen = true }: TaxOrde
   // Get selected region
   const selectedRegion = useMemo(() => {
     if (!settings || !formData.regionId) return null;
-    return settings.regions.find(r => r.id === formData.regionId);
+    const region = settings.regions.find(r => r.id === formData.regionId);
+    // New orders are taxed at today's rates
+    return region ? regionRatesOn(region) : undefined;
   }, [settings, formData.regionId]);
 
   // Get filtered products for selected region
@@ -1,4 +1,5 @@
 import { useState, useEffect, useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
@@ -11,26 +12,16 @@ import type {
   ForecastHorizon, 
   ForecastMethod, 
   ForecastData, 
+  ForecastsResponse, 
   DemandSuggestion,
-  ForecastStatus
+  ForecastStatus,
+  DailySales
 } from "@shared/schema";
 import { 
-  getForecastForHorizon, 
   calcSuggestion, 
-  formatDate, 
-  addDays 
-} from "@/utils/forecasting";
-import {
-  getForecastSettings,
-  getSalesOrders,
-  getForecastFromCache,
-  addForecastToCache,
-  getProductSalesHistory,
-  getOrRefreshForecast,
-  startAutoRefresh,
-  prewarmCache,
-  getCacheRefreshSettings
-} from "@/utils/forecastStorage";
+  FORECAST_METHOD_LABELS
+} from "@shared/forecasting";
+import { getForecastSettings } from "@/utils/forecastStorage";
 import { getLocations, getLocationInventory } from "@/utils/warehouse";
 
 interface ForecastTabProps {
@@ -42,9 +33,6 @@ export function ForecastTab({ product, onProductUpdate }: ForecastTabProps) {
   const [selectedLocation, setSelectedLocation] = useState<string>("all");
   const [selectedHorizon, setSelectedHorizon] = useState<ForecastHorizon>("30");
   const [selectedMethod, setSelectedMethod] = useState<ForecastMethod>("moving_avg");
-  const [forecastData, setForecastData] = useState<ForecastData | null>(null);
-  const [demandSuggestion, setDemandSuggestion] = useState<DemandSuggestion | null>(null);
-  const [loading, setLoading] = useState(false);
   const [createPOModalOpen, setCreatePOModalOpen] = useState(false);
 
   // Get available locations
@@ -56,60 +44,38 @@ export function ForecastTab({ product, onProductUpdate }: ForecastTabProps) {
     setSelectedMethod(forecastSettings.defaultMethod);
   }, [forecastSettings.defaultMethod]);
 
-  // Compute forecast when parameters change
-  useEffect(() => {
-    computeForecast();
-  }, [product.id, selectedLocation, selectedHorizon, selectedMethod]);
-
-  const computeForecast = async () => {
-    setLoading(true);
-    try {
-      const locationId = selectedLocation === "all" ? undefined : selectedLocation;
-      
-      // Use enhanced caching with auto-refresh
-      const forecast = await getOrRefreshForecast(
-        product.id,
-        locationId,
-        selectedHorizon,
-        selectedMethod,
-        async (productId, locId, horizon, method) => {
-          // Refresh callback - compute new forecast
-          const orders = getSalesOrders();
-          const result = getForecastForHorizon(
-            orders,
-            productId,
-            locId,
-            horizon,
-            method,
-            forecastSettings.minHistoryDays
-          );
-
-          // Create forecast data object
-          return {
-            productId,
-            locationId: locId,
-            horizon,
-            method,
-            ts: new Date().toISOString(),
-            result
-          };
-        }
-      );
-
-      if (forecast) {
-        setForecastData(forecast);
-        computeDemandSuggestion(forecast);
-      } else {
-        console.warn("No forecast data available");
-      }
-    } catch (error) {
-      console.error("Error computing forecast:", error);
-    } finally {
-      setLoading(false);
-    }
-  };
+  // Forecasts are computed server-side; a combination that isn't stored yet is queued and polled for
+  const { data: forecastData = null, isLoading: loading } = useQuery<ForecastsResponse, Error, ForecastData | null>({
+    queryKey: ["/api/forecasts", product.sku, selectedLocation, selectedHorizon, selectedMethod],
+    queryFn: async () => {
+      const params = new URLSearchParams({
+        productId: product.sku,
+        locationId: selectedLocation,
+        horizon: selectedHorizon,
+        method: selectedMethod
+      });
+      const response = await fetch(`/api/forecasts?${params.toString()}`);
+      if (!response.ok) throw new Error("Failed to fetch forecast");
+      return response.json();
+    },
+    select: (data) => data.forecasts[0] || null,
+    refetchInterval: (query) => query.state.data?.refreshing && query.state.dataUpdateCount < 20 ? 2000 : false,
+  });
+
+  // Recent daily sales for the chart
+  const { data: salesHistory = [] } = useQuery<DailySales[]>({
+    queryKey: ["/api/forecasts", product.sku, "history", selectedLocation],
+    queryFn: async () => {
+      const params = new URLSearchParams({ locationId: selectedLocation, days: "30" });
+      const response = await fetch(`/api/forecasts/${encodeURIComponent(product.sku)}/history?${params.toString()}`);
+      if (!response.ok) throw new Error("Failed to fetch sales history");
+      return response.json();
+    },
+  });
+
+  const demandSuggestion = useMemo((): DemandSuggestion | null => {
+    if (!forecastData) return null;
 
-  const computeDemandSuggestion = (forecast: ForecastData) => {
     try {
       // Get current inventory for the location
       const inventory = getLocationInventory();
@@ -118,10 +84,10 @@ export function ForecastTab({ product, onProductUpdate }: ForecastTabProps) {
       let leadTimeDays = 7; // Default lead time
       let reorderQty = 0;
 
-      if (forecast.locationId) {
+      if (forecastData.locationId) {
         // Specific location
         const locationInv = inventory.find(
-          inv => inv.productId === product.id && inv.locationId === forecast.locationId
+          inv => inv.productId === product.id && inv.locationId === forecastData.locationId
         );
         onHand = locationInv?.onHand || 0;
         safetyStock = locationInv?.safetyStock || 0;
@@ -139,51 +105,18 @@ export function ForecastTab({ product, onProductUpdate }: ForecastTabProps) {
         onHand = product.stock;
       }
 
-      const suggestion = calcSuggestion({
+      return calcSuggestion({
         onHand,
         safetyStock,
-        avgDaily: forecast.result.avgDaily,
+        avgDaily: forecastData.result.avgDaily,
         leadTimeDays,
         reorderQty
       });
-
-      setDemandSuggestion(suggestion);
     } catch (error) {
       console.error("Error computing demand suggestion:", error);
+      return null;
     }
-  };
-
-  // Initialize auto-refresh system on component mount
-  useEffect(() => {
-    const refreshCallback = async (productId: string, locationId: string | undefined, horizon: ForecastHorizon, method: ForecastMethod) => {
-      const orders = getSalesOrders();
-      const result = getForecastForHorizon(
-        orders,
-        productId,
-        locationId,
-        horizon,
-        method,
-        forecastSettings.minHistoryDays
-      );
-
-      return {
-        productId,
-        locationId,
-        horizon,
-        method,
-        ts: new Date().toISOString(),
-        result
-      };
-    };
-
-    // Start auto-refresh for this session
-    startAutoRefresh(refreshCallback);
-
-    // Cleanup on unmount
-    return () => {
-      // Auto-refresh will be cleaned up when the application unmounts
-    };
-  }, [forecastSettings.minHistoryDays]);
+  }, [forecastData, product.id, product.stock]);
 
   const getForecastStatus = (): ForecastStatus => {
     if (!demandSuggestion) return "healthy";
@@ -208,6 +141,12 @@ export function ForecastTab({ product, onProductUpdate }: ForecastTabProps) {
     }
   };
 
+  // Backtest metrics are percentages; null when there were no actual sales to score against
+  const formatMetric = (value: number | null, signed: boolean = false) => {
+    if (value === null) return "—";
+    return `${signed && value > 0 ? "+" : ""}${value.toFixed(1)}%`;
+  };
+
   const handleCreatePO = () => {
     if (!demandSuggestion || !forecastData) return;
     
@@ -224,7 +163,7 @@ export function ForecastTab({ product, onProductUpdate }: ForecastTabProps) {
       suggestedQty: demandSuggestion.suggestedQty,
       avgDailySales: demandSuggestion.avgDaily,
       daysLeft: Math.floor(demandSuggestion.coverDays),
-      forecastDemand: forecastData.result.totalDemand,
+      forecastDemand: forecastData.result.daily.reduce((sum, day) => sum + day.qty, 0),
       nextReorderDate: demandSuggestion.nextReorderDate,
       currentStock: demandSuggestion.onHand
     };
@@ -233,39 +172,18 @@ export function ForecastTab({ product, onProductUpdate }: ForecastTabProps) {
   const chartData = useMemo(() => {
     if (!forecastData) return null;
 
-    // Get historical data for comparison
-    const historicalOrders = getProductSalesHistory(
-      product.id,
-      selectedLocation === "all" ? undefined : selectedLocation,
-      60 // Last 60 days
-    );
-
-    // Group by date
-    const historicalByDate = new Map<string, number>();
-    historicalOrders.forEach(order => {
-      const date = formatDate(new Date(order.createdAt));
-      historicalByDate.set(date, (historicalByDate.get(date) || 0) + order.qty);
-    });
-
     // Create chart data combining historical and forecast
     const chartPoints: Array<{
       date: string;
       historical: number | null;
       forecast: number | null;
       type: "historical" | "forecast";
-    }> = [];
-    
-    // Add historical data (last 30 days)
-    for (let i = 30; i >= 1; i--) {
-      const date = addDays(new Date(), -i);
-      const dateStr = formatDate(date);
-      chartPoints.push({
-        date: dateStr,
-        historical: historicalByDate.get(dateStr) || 0,
-        forecast: null,
-        type: "historical"
-      });
-    }
+    }> = salesHistory.map(day => ({
+      date: day.date,
+      historical: day.qty,
+      forecast: null,
+      type: "historical" as const
+    }));
 
     // Add forecast data (next horizon days)
     const horizonDays = parseInt(selectedHorizon);
@@ -279,7 +197,7 @@ export function ForecastTab({ product, onProductUpdate }: ForecastTabProps) {
     });
 
     return chartPoints;
-  }, [forecastData, product.id, selectedLocation, selectedHorizon]);
+  }, [forecastData, salesHistory, selectedHorizon]);
 
   return (
     <div className="space-y-6">
@@ -334,8 +252,12 @@ export function ForecastTab({ product, onProductUpdate }: ForecastTabProps) {
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
+                  <SelectItem value="auto">Auto (best backtest)</SelectItem>
                   <SelectItem value="moving_avg">Moving Average</SelectItem>
                   <SelectItem value="ewma">Exponential Smoothing</SelectItem>
+                  <SelectItem value="holt_winters">Holt-Winters (weekly seasonal)</SelectItem>
+                  <SelectItem value="croston">Croston (intermittent)</SelectItem>
+                  <SelectItem value="sba">Croston SBA (intermittent)</SelectItem>
                 </SelectContent>
               </Select>
             </div>
@@ -400,6 +322,48 @@ export function ForecastTab({ product, onProductUpdate }: ForecastTabProps) {
         </div>
       )}
 
+      {/* Backtest Accuracy */}
+      {forecastData?.result.backtests && forecastData.result.backtests.length > 0 && (
+        <Card className="bg-zinc-950 border-zinc-800" data-testid="card-forecast-accuracy">
+          <CardHeader>
+            <CardTitle className="text-white flex items-center justify-between">
+              <span>Forecast Accuracy</span>
+              {forecastData.result.selectedMethod && (
+                <Badge variant="outline" className="text-green-400 border-green-400/30" data-testid="badge-selected-method">
+                  {forecastData.method === "auto" ? "Auto: " : ""}
+                  {FORECAST_METHOD_LABELS[forecastData.result.selectedMethod]}
+                </Badge>
+              )}
+            </CardTitle>
+            <p className="text-sm text-zinc-400">
+              Rolling-origin backtest over the last {forecastData.result.backtests[0].folds} weeks
+            </p>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-1 text-sm">
+              <div className="grid grid-cols-4 gap-4 text-zinc-400 pb-2 border-b border-zinc-800">
+                <span>Method</span>
+                <span className="text-right">MAPE</span>
+                <span className="text-right">WAPE</span>
+                <span className="text-right">Bias</span>
+              </div>
+              {forecastData.result.backtests.map(backtest => (
+                <div
+                  key={backtest.method}
+                  className={`grid grid-cols-4 gap-4 py-1 ${backtest.method === forecastData.result.selectedMethod ? "text-green-400" : "text-white"}`}
+                  data-testid={`row-backtest-${backtest.method}`}
+                >
+                  <span>{FORECAST_METHOD_LABELS[backtest.method]}</span>
+                  <span className="text-right">{formatMetric(backtest.mape)}</span>
+                  <span className="text-right">{formatMetric(backtest.wape)}</span>
+                  <span className="text-right">{formatMetric(backtest.bias, true)}</span>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Forecast Status & Actions */}
       {demandSuggestion && (
         <Card className="bg-zinc-950 border-zinc-800">
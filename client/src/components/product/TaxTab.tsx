@@ -10,6 +10,7 @@ import { Textarea } from "@/components/ui/textarea";
 import { Calculator, MapPin, Percent, Settings, AlertCircle } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { getFinanceSettings, getEffectiveTaxRate, calculateRegionTax } from "@/utils/taxation";
+import { isRateInForce } from "@shared/taxation";
 import { getAllProducts, getProductBySku, type Product } from "@/data/seedProductData";
 
 interface TaxTabProps {
@@ -326,7 +327,8 @@ export function TaxTab({ product, onProductUpdate }: TaxTabProps) {
             <div className="space-y-2">
               {settings.regions
                 .find((r: any) => r.id === product.regionId)
-                ?.taxRules?.map((rule: any) => (
+                ?.taxRules?.filter((rule: any) => isRateInForce(rule))
+                .map((rule: any) => (
                   <div 
                     key={rule.id} 
                     className="flex items-center justify-between p-3 bg-gray-800 rounded-lg"
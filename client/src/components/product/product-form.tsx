@@ -17,6 +17,7 @@ import {
   currencyFormat,
   getEffectiveTaxRate 
 } from "@/utils/taxation";
+import { regionRatesOn } from "@shared/taxation";
 
 interface ProductFormProps {
   product?: TaxProduct | null;
@@ -53,7 +54,8 @@ export function ProductForm({ product, onSave, onCancel, isOpen = true }: Produc
         sku: product.sku,
         name: product.name,
         regionId: product.regionId,
-        price: product.price
+        price: product.price,
+        hsnCode: product.hsnCode
       });
       
       if (product.taxOverride) {
@@ -94,6 +96,7 @@ export function ProductForm({ product, onSave, onCancel, isOpen = true }: Produc
       name: formData.name!,
       regionId: formData.regionId!,
       price: formData.price!,
+      hsnCode: formData.hsnCode?.trim() || undefined,
       taxOverride: hasCustomTaxOverride 
         ? {
             id: product?.taxOverride?.id || nanoid(),
@@ -127,7 +130,8 @@ export function ProductForm({ product, onSave, onCancel, isOpen = true }: Produc
 
   const getSelectedRegion = () => {
     if (!settings || !formData.regionId) return null;
-    return settings.regions.find(r => r.id === formData.regionId);
+    const region = settings.regions.find(r => r.id === formData.regionId);
+    return region ? regionRatesOn(region) : undefined;
   };
 
   const getCurrentEffectiveTaxRate = () => {
@@ -136,8 +140,7 @@ export function ProductForm({ product, onSave, onCancel, isOpen = true }: Produc
     }
     
     if (formData.regionId && settings) {
-      const region = settings.regions.find(r => r.id === formData.regionId);
-      return region?.taxRules[0]?.rate || 0;
+      return getSelectedRegion()?.taxRules[0]?.rate || 0;
     }
     
     return 0;
@@ -241,6 +244,22 @@ export function ProductForm({ product, onSave, onCancel, isOpen = true }: Produc
             </div>
           </div>
           
+          {formData.regionId === "IN" && (
+            <div className="space-y-2">
+              <Label htmlFor="product-hsn">HSN / SAC Code</Label>
+              <Input
+                id="product-hsn"
+                data-testid="input-product-hsn"
+                placeholder="e.g., 8518"
+                value={formData.hsnCode ?? ""}
+                onChange={(e) => setFormData(prev => ({ ...prev, hsnCode: e.target.value }))}
+              />
+              <div className="text-sm text-gray-500">
+                Needed for GSTR-1 and e-invoices; service (SAC) codes start with 99
+              </div>
+            </div>
+          )}
+
           {selectedRegion && (
             <div className="p-3 bg-gray-50 dark:bg-gray-900 rounded-lg">
               <div className="text-sm">
@@ -2,7 +2,7 @@ import type { SalesOrderItem } from "@shared/schema";
 import { getAllProducts } from "./seedProductData";
 import { getLocations, initializeWarehouseData } from "@/utils/warehouse";
 import { addSalesOrders, getSalesOrders, initializeForecastStorage } from "@/utils/forecastStorage";
-import { formatDate, addDays } from "@/utils/forecasting";
+import { formatDate, addDays } from "@shared/forecasting";
 
 // Product velocity patterns (daily sales rate)
 const PRODUCT_VELOCITIES: Record<string, number> = {
@@ -1,5 +1,6 @@
 import { useState } from 'react';
-import { Book, Copy, Check, Key, Zap, Shield, Globe } from 'lucide-react';
+import { useQuery } from '@tanstack/react-query';
+import { Book, Copy, Check, Key, Zap, Shield, Globe, FileJson } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -9,6 +10,116 @@ import { useToast } from '@/hooks/use-toast';
 
 const API_BASE_URL = window.location.origin;
 
+// The parts of /api/v1/openapi.json the reference renders
+interface OpenApiSchema {
+  type?: string;
+  description?: string;
+  properties?: Record<string, OpenApiSchema>;
+  required?: string[];
+}
+
+interface OpenApiOperation {
+  operationId: string;
+  summary: string;
+  description?: string;
+  tags: string[];
+  'x-scope': string;
+  parameters: { name: string; in: string; required: boolean; description?: string }[];
+  requestBody?: { content: { 'application/json': { schema: OpenApiSchema } } };
+}
+
+interface OpenApiDocument {
+  tags: { name: string; description: string }[];
+  paths: Record<string, Record<string, OpenApiOperation>>;
+}
+
+// Paging and field selection work the same on every list; see the Querying tab
+const COMMON_QUERY_PARAMS = ['fields', 'expand', 'limit', 'cursor', 'order', 'updated_since', 'updated_before'];
+
+function EndpointReference() {
+  const { data: spec, isLoading, error } = useQuery<OpenApiDocument>({
+    queryKey: ['/api/v1/openapi.json'],
+  });
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground">Loading endpoints...</p>;
+  }
+
+  if (error || !spec) {
+    return <p className="text-sm text-destructive">Unable to load the API specification</p>;
+  }
+
+  const operations = Object.entries(spec.paths).flatMap(([path, methods]) =>
+    Object.entries(methods).map(([method, operation]) => ({ path, method: method.toUpperCase(), operation }))
+  );
+
+  return (
+    <div className="grid gap-6">
+      {spec.tags.map((tag) => (
+        <Card key={tag.name}>
+          <CardHeader>
+            <CardTitle>{tag.name}</CardTitle>
+            <CardDescription>{tag.description}</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {operations.filter(({ operation }) => operation.tags.includes(tag.name)).map(({ path, method, operation }) => {
+              const queryParams = operation.parameters.filter((param) => param.in === 'query');
+              const filters = queryParams.filter((param) => !COMMON_QUERY_PARAMS.includes(param.name));
+              // Described as "Comma-separated related records to embed: customer, invoices"
+              const relations = queryParams.find((param) => param.name === 'expand')?.description?.split(': ')[1];
+              const body = operation.requestBody?.content['application/json'].schema;
+
+              return (
+                <div key={operation.operationId} className="p-3 border rounded space-y-2">
+                  <div className="flex items-center justify-between gap-3">
+                    <div className="flex items-center gap-3">
+                      <Badge variant={method === 'GET' ? 'default' : method === 'POST' ? 'secondary' : 'outline'}>
+                        {method}
+                      </Badge>
+                      <code className="text-sm">{path}</code>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm text-muted-foreground">{operation.summary}</span>
+                      <Badge variant="outline" className="font-mono text-xs">{operation['x-scope']}</Badge>
+                    </div>
+                  </div>
+                  {operation.description && (
+                    <p className="text-sm text-muted-foreground">{operation.description}</p>
+                  )}
+                  <div className="space-y-1 text-sm text-muted-foreground">
+                    {filters.length > 0 && (
+                      <div>
+                        Query:{' '}
+                        {filters.map((param) => (
+                          <code key={param.name} className="mr-2" title={param.description}>
+                            {param.name}{param.required ? '*' : ''}
+                          </code>
+                        ))}
+                      </div>
+                    )}
+                    {relations && <div>Expand: {relations}</div>}
+                    {body?.properties && (
+                      <div>
+                        Body:{' '}
+                        {Object.keys(body.properties).map((name) => (
+                          <code key={name} className="mr-2" title={body.properties![name].description}>
+                            {name}{body.required?.includes(name) ? '*' : ''}
+                          </code>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </CardContent>
+        </Card>
+      ))}
+      <p className="text-xs text-muted-foreground">* required</p>
+    </div>
+  );
+}
+
 export default function ApiDocsPage() {
   const [copiedCode, setCopiedCode] = useState<string | null>(null);
   const { toast } = useToast();
@@ -71,10 +182,11 @@ export default function ApiDocsPage() {
         </div>
 
         <Tabs defaultValue="overview" className="w-full">
-          <TabsList className="grid w-full grid-cols-5">
+          <TabsList className="grid w-full grid-cols-6">
             <TabsTrigger value="overview">Overview</TabsTrigger>
             <TabsTrigger value="auth">Authentication</TabsTrigger>
             <TabsTrigger value="endpoints">Endpoints</TabsTrigger>
+            <TabsTrigger value="querying">Querying</TabsTrigger>
             <TabsTrigger value="webhooks">Webhooks</TabsTrigger>
             <TabsTrigger value="examples">Examples</TabsTrigger>
           </TabsList>
@@ -133,6 +245,25 @@ export default function ApiDocsPage() {
                     • HTTP 429 status code when limit exceeded
                   </p>
                 </div>
+
+                <div>
+                  <h3 className="text-lg font-semibold mb-2">Idempotent Requests</h3>
+                  <p className="text-muted-foreground mb-4">
+                    Send an <code>Idempotency-Key</code> header (up to 255 characters, e.g. a UUID) on POST, PATCH and DELETE
+                    requests to retry them safely. For 24 hours, repeating the request with the same key returns the original
+                    response with an <code>Idempotent-Replayed: true</code> header instead of running it again. Reusing a key
+                    with a different body returns HTTP 409; server errors are not stored, so they can be retried with the same key.
+                  </p>
+                  <CodeBlock
+                    code={`curl -X POST "${API_BASE_URL}/api/v1/orders" \\
+  -H "Authorization: Bearer YOUR_API_KEY" \\
+  -H "Idempotency-Key: 6f1c2b9e-4d3a-4e8f-9b7a-2c5d8e1f0a3b" \\
+  -H "Content-Type: application/json" \\
+  -d '{ "customerId": "cust-001", "items": [{ "sku": "SKU-001", "quantity": 2 }] }'`}
+                    language="bash"
+                    label="Idempotent request cURL"
+                  />
+                </div>
               </CardContent>
             </Card>
           </TabsContent>
@@ -180,6 +311,7 @@ export default function ApiDocsPage() {
                         <Badge variant="outline">read:suppliers</Badge>
                         <Badge variant="outline">read:customers</Badge>
                         <Badge variant="outline">read:invoices</Badge>
+                        <Badge variant="outline">read:forecasts</Badge>
                       </div>
                     </div>
                     <div>
@@ -214,85 +346,129 @@ export default function ApiDocsPage() {
           </TabsContent>
 
           <TabsContent value="endpoints" className="space-y-6">
-            <div className="grid gap-6">
-              {[
-                {
-                  title: 'Products',
-                  description: 'Manage product catalog and information',
-                  endpoints: [
-                    { method: 'GET', path: '/products', description: 'List products with filtering' },
-                    { method: 'GET', path: '/products/{id}', description: 'Get single product' },
-                    { method: 'POST', path: '/products', description: 'Create new product' },
-                    { method: 'PATCH', path: '/products/{id}', description: 'Update product' }
-                  ]
-                },
-                {
-                  title: 'Inventory',
-                  description: 'Track stock levels and locations',
-                  endpoints: [
-                    { method: 'GET', path: '/inventory', description: 'List inventory with filtering' },
-                    { method: 'PATCH', path: '/inventory/adjust', description: 'Adjust inventory levels' }
-                  ]
-                },
-                {
-                  title: 'Orders',
-                  description: 'Manage customer orders and fulfillment',
-                  endpoints: [
-                    { method: 'GET', path: '/orders', description: 'List orders with filtering' },
-                    { method: 'GET', path: '/orders/{id}', description: 'Get single order' },
-                    { method: 'POST', path: '/orders', description: 'Create new order' },
-                    { method: 'PATCH', path: '/orders/{id}/status', description: 'Update order status' }
-                  ]
-                },
-                {
-                  title: 'Suppliers',
-                  description: 'Manage supplier information',
-                  endpoints: [
-                    { method: 'GET', path: '/suppliers', description: 'List suppliers with filtering' },
-                    { method: 'GET', path: '/suppliers/{id}', description: 'Get single supplier' }
-                  ]
-                },
-                {
-                  title: 'Customers',
-                  description: 'Manage customer information',
-                  endpoints: [
-                    { method: 'GET', path: '/customers', description: 'List customers with filtering' },
-                    { method: 'GET', path: '/customers/{id}', description: 'Get single customer' }
-                  ]
-                },
-                {
-                  title: 'Invoices',
-                  description: 'Handle billing and payments',
-                  endpoints: [
-                    { method: 'GET', path: '/invoices', description: 'List invoices with filtering' },
-                    { method: 'GET', path: '/invoices/{id}', description: 'Get single invoice' },
-                    { method: 'PATCH', path: '/invoices/{id}/status', description: 'Update invoice status' }
-                  ]
-                }
-              ].map((resource) => (
-                <Card key={resource.title}>
-                  <CardHeader>
-                    <CardTitle>{resource.title}</CardTitle>
-                    <CardDescription>{resource.description}</CardDescription>
-                  </CardHeader>
-                  <CardContent>
-                    <div className="space-y-2">
-                      {resource.endpoints.map((endpoint, index) => (
-                        <div key={index} className="flex items-center justify-between p-2 border rounded">
-                          <div className="flex items-center gap-3">
-                            <Badge variant={endpoint.method === 'GET' ? 'default' : endpoint.method === 'POST' ? 'secondary' : 'outline'}>
-                              {endpoint.method}
-                            </Badge>
-                            <code className="text-sm">{endpoint.path}</code>
-                          </div>
-                          <span className="text-sm text-muted-foreground">{endpoint.description}</span>
-                        </div>
-                      ))}
-                    </div>
-                  </CardContent>
-                </Card>
-              ))}
-            </div>
+            <Card>
+              <CardContent className="p-4 flex items-center justify-between gap-4">
+                <p className="text-sm text-muted-foreground">
+                  Generated from the OpenAPI document, which is built from the same definitions that serve the API.
+                  Typed clients can be generated from it, or use the <code>@flowventory/api-client</code> package.
+                </p>
+                <Button variant="outline" size="sm" asChild>
+                  <a href="/api/v1/openapi.json" target="_blank" rel="noreferrer">
+                    <FileJson className="h-4 w-4 mr-2" />
+                    openapi.json
+                  </a>
+                </Button>
+              </CardContent>
+            </Card>
+            <EndpointReference />
+          </TabsContent>
+
+          <TabsContent value="querying" className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Pagination</CardTitle>
+                <CardDescription>
+                  List endpoints return pages of up to <code>limit</code> records (default 50, maximum 200), ordered by when records were last updated
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <p className="text-muted-foreground">
+                  Pass the <code>nextCursor</code> from one page as <code>cursor</code> to fetch the next. Cursors are opaque
+                  and stay valid while records are added. Use <code>order=asc</code> for oldest first (the default is <code>desc</code>).
+                </p>
+                <CodeBlock
+                  code={`{
+  "data": [ ... ],
+  "pagination": {
+    "limit": 50,
+    "hasMore": true,
+    "nextCursor": "MTcyNzYwNDAwMDAwMDpwcm9kLTAwMQ"
+  }
+}`}
+                  language="json"
+                  label="Paginated response"
+                />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Incremental Sync</CardTitle>
+                <CardDescription>Fetch only what changed since your last sync</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <p className="text-muted-foreground">
+                  Request <code>updated_since</code> with <code>order=asc</code> and follow cursors until <code>hasMore</code> is false.
+                  Store the <code>updatedAt</code> of the last record and use it as <code>updated_since</code> next time; records
+                  updated during a sync show up again on a later page or run.
+                </p>
+                <CodeBlock
+                  code={`curl "${API_BASE_URL}/api/v1/products?updated_since=2024-09-29T10:00:00Z&order=asc&limit=200" \\
+  -H "Authorization: Bearer YOUR_API_KEY"`}
+                  language="bash"
+                  label="Incremental sync cURL"
+                />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Filtering</CardTitle>
+                <CardDescription>The same syntax works on every list endpoint</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="space-y-1 text-sm">
+                  <div><code>status=PENDING</code> - Exact match, case-insensitive</div>
+                  <div><code>status=PENDING,PROCESSING</code> - Comma-separated values match any of them</div>
+                  <div><code>sku=SKU-001</code> - Records for a SKU (orders and suppliers containing it)</div>
+                  <div><code>created_since=2024-09-01</code> - Date range start, inclusive</div>
+                  <div><code>created_before=2024-10-01</code> - Date range end, exclusive</div>
+                  <div><code>updated_since</code> / <code>updated_before</code> - Available on every list endpoint</div>
+                </div>
+                <p className="text-muted-foreground">
+                  Dates are ISO 8601. Each resource's filters are listed under Endpoints. Unknown parameters are
+                  rejected with HTTP 400 so a misspelt filter never returns the whole collection.
+                </p>
+                <CodeBlock
+                  code={`curl "${API_BASE_URL}/api/v1/orders?status=pending,processing&created_since=2024-09-01&sku=SKU-001" \\
+  -H "Authorization: Bearer YOUR_API_KEY"`}
+                  language="bash"
+                  label="Filter orders cURL"
+                />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Sparse Fields & Expansion</CardTitle>
+                <CardDescription>Shape responses on list and single-record endpoints</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <p className="text-muted-foreground">
+                  <code>fields</code> returns only the listed top-level fields (<code>id</code> is always included).{' '}
+                  <code>expand</code> embeds related records, such as an order's customer, under the relation's name.
+                </p>
+                <CodeBlock
+                  code={`curl "${API_BASE_URL}/api/v1/orders?fields=orderNumber,status,total&expand=customer" \\
+  -H "Authorization: Bearer YOUR_API_KEY"
+
+{
+  "data": [
+    {
+      "id": "ord-001",
+      "orderNumber": "ORD-2024-1A2B3C4D",
+      "status": "PENDING",
+      "total": 18276,
+      "customer": { "id": "cust-001", "name": "Acme Retail", ... }
+    }
+  ],
+  "pagination": { "limit": 50, "hasMore": false, "nextCursor": null }
+}`}
+                  language="bash"
+                  label="Fields and expand cURL"
+                />
+              </CardContent>
+            </Card>
           </TabsContent>
 
           <TabsContent value="webhooks" className="space-y-6">
@@ -333,11 +509,64 @@ export default function ApiDocsPage() {
                       <div className="space-y-1 text-sm">
                         <div><code>invoice.created</code> - New invoice generated</div>
                         <div><code>invoice.paid</code> - Invoice marked as paid</div>
+                        <div><code>invoice.status_changed</code> - Invoice status updated</div>
+                      </div>
+                    </div>
+                    <div>
+                      <h4 className="font-medium mb-2">Shipment Events</h4>
+                      <div className="space-y-1 text-sm">
+                        <div><code>shipment.created</code> - Shipment booked with a carrier</div>
+                        <div><code>shipment.status_changed</code> - Carrier tracking status updated</div>
+                      </div>
+                    </div>
+                    <div>
+                      <h4 className="font-medium mb-2">Purchase Order Events</h4>
+                      <div className="space-y-1 text-sm">
+                        <div><code>purchase_order.created</code> - Purchase order drafted</div>
+                        <div><code>purchase_order.sent</code> - Purchase order sent to the supplier</div>
+                        <div><code>purchase_order.received</code> - Goods receipt posted</div>
+                      </div>
+                    </div>
+                    <div>
+                      <h4 className="font-medium mb-2">Return Events</h4>
+                      <div className="space-y-1 text-sm">
+                        <div><code>return.created</code> - Return requested</div>
+                        <div><code>return.status_changed</code> - Return status updated</div>
+                      </div>
+                    </div>
+                    <div>
+                      <h4 className="font-medium mb-2">Reconciliation Events</h4>
+                      <div className="space-y-1 text-sm">
+                        <div><code>recon.batch_completed</code> - Payout batch reconciled</div>
+                        <div><code>recon.mismatch_detected</code> - Order paid more or less than expected</div>
+                      </div>
+                    </div>
+                    <div>
+                      <h4 className="font-medium mb-2">Task &amp; Supplier Events</h4>
+                      <div className="space-y-1 text-sm">
+                        <div><code>task.created</code> - Action Center task created</div>
+                        <div><code>task.resolved</code> - Task done or dismissed</div>
+                        <div><code>supplier.sla_breached</code> - Delivery late or defective</div>
                       </div>
                     </div>
                   </div>
                 </div>
 
+                <div>
+                  <h3 className="text-lg font-semibold mb-2">Payload Versions</h3>
+                  <p className="text-muted-foreground mb-4">
+                    Each event's payload has a version, sent as <code>version</code> in the body and in the{' '}
+                    <code>X-Flowventory-Event-Version</code> header. New fields may be added within a version; removing or
+                    changing a field bumps it. The catalogue, with a JSON Schema for every payload, is available from the
+                    management API:
+                  </p>
+                  <CodeBlock
+                    code={`curl "${API_BASE_URL}/mgmt/webhooks/events"`}
+                    language="bash"
+                    label="Event catalogue cURL"
+                  />
+                </div>
+
                 <Separator />
 
                 <div>
@@ -359,6 +588,7 @@ export default function ApiDocsPage() {
                     code={`{
   "id": "evt_1234567890",
   "event": "product.created",
+  "version": 1,
   "timestamp": "2024-09-29T10:00:00Z",
   "data": {
     "id": "prod-001",
@@ -372,6 +602,24 @@ export default function ApiDocsPage() {
                     label="Webhook payload"
                   />
                 </div>
+
+                <div>
+                  <h3 className="text-lg font-semibold mb-2">Retries &amp; Replay</h3>
+                  <p className="text-muted-foreground mb-4">
+                    A delivery gets up to 5 attempts, spread over about an hour and a half. Every attempt is logged with its
+                    request, response and latency. Deliveries that run out of attempts are kept as dead letters and can be
+                    replayed one at a time or in bulk. An endpoint that keeps failing for a day is disabled and your team
+                    is notified; switch it back on before replaying.
+                  </p>
+                  <CodeBlock
+                    code={`curl "${API_BASE_URL}/mgmt/webhooks/WEBHOOK_ID/deliveries?status=failed"
+curl "${API_BASE_URL}/mgmt/webhooks/WEBHOOK_ID/dead-letters"
+curl -X POST "${API_BASE_URL}/mgmt/webhooks/WEBHOOK_ID/deliveries/DELIVERY_ID/replay"
+curl -X POST "${API_BASE_URL}/mgmt/webhooks/WEBHOOK_ID/dead-letters/replay"`}
+                    language="bash"
+                    label="Delivery log and replay cURL"
+                  />
+                </div>
               </CardContent>
             </Card>
           </TabsContent>
@@ -405,7 +653,8 @@ export default function ApiDocsPage() {
     "sku": "NEW-001",
     "name": "New Product",
     "price": 29.99,
-    "stock": 100
+    "stock": 100,
+    "locationId": "loc-001"
   }'`}
                       language="bash"
                       label="Create product cURL"
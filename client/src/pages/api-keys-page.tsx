@@ -5,6 +5,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/use-auth';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -35,7 +36,8 @@ const SCOPE_CATEGORIES = {
   orders: 'Orders',
   suppliers: 'Suppliers',
   customers: 'Customers',
-  invoices: 'Invoices'
+  invoices: 'Invoices',
+  forecasts: 'Forecasts'
 };
 
 const AVAILABLE_SCOPES: Scope[] = [
@@ -50,7 +52,8 @@ const AVAILABLE_SCOPES: Scope[] = [
   { id: 'read:customers', name: 'Read Customers', description: 'View customer information', category: 'customers' },
   { id: 'write:customers', name: 'Write Customers', description: 'Create and update customers', category: 'customers' },
   { id: 'read:invoices', name: 'Read Invoices', description: 'View invoices and payment status', category: 'invoices' },
-  { id: 'write:invoices', name: 'Write Invoices', description: 'Create invoices and update payment status', category: 'invoices' }
+  { id: 'write:invoices', name: 'Write Invoices', description: 'Create invoices and update payment status', category: 'invoices' },
+  { id: 'read:forecasts', name: 'Read Forecasts', description: 'View demand forecasts and forecast accuracy', category: 'forecasts' }
 ];
 
 export default function ApiKeysPage() {
@@ -64,6 +67,7 @@ export default function ApiKeysPage() {
   const [showFullKey, setShowFullKey] = useState<{[key: string]: boolean}>({});
   const [copiedKey, setCopiedKey] = useState<string | null>(null);
   const { toast } = useToast();
+  const { user } = useAuth();
 
   // Load API keys on component mount
   useEffect(() => {
@@ -103,7 +107,8 @@ export default function ApiKeysPage() {
         },
         body: JSON.stringify({
           name: newKeyName.trim(),
-          scopes: selectedScopes
+          scopes: selectedScopes,
+          workspaceId: user?.organizationId
         })
       });
 
@@ -6,13 +6,27 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { useToast } from "@/hooks/use-toast";
-import { FileDown, Filter, Calendar, MapPin, FileText, Download } from "lucide-react";
-import type { ComplianceReportRow } from "@/utils/taxation";
+import { useQuery } from "@tanstack/react-query";
+import { FileDown, Filter, Calendar, MapPin, FileText, Download, Landmark, Receipt, AlertTriangle, Lock } from "lucide-react";
+import { vatReturnChanges, type FiledVatReturn, type MtdVatReturn } from "@shared/vat";
+import type { ComplianceReportRow, EInvoiceResult } from "@/utils/taxation";
 import { 
   getFinanceSettings, 
   generateComplianceReport, 
   exportComplianceReportCSV,
+  generateGstr1,
+  exportGstr1JSON,
+  exportGstr1CSV,
+  generateEInvoices,
+  exportEInvoicesJSON,
+  fetchVatPurchases,
+  generateVatReturn,
+  generateVatSummary,
+  getFiledVatReturns,
+  fileVatReturn,
+  exportVatReturnJSON,
   currencyFormat,
   initializeTaxationData
 } from "@/utils/taxation";
@@ -20,6 +34,29 @@ import { LocationGuard } from "@/components/LocationGuard";
 import { useAuth } from "@/hooks/use-auth";
 import { getUserScope, getUserAccessibleLocations, scopeFilter } from "@/utils/locationAccess";
 
+// The nine boxes of a UK VAT return, as HMRC labels them
+const VAT_RETURN_BOXES: [number, Exclude<keyof MtdVatReturn, "periodKey" | "finalised">, string][] = [
+  [1, "vatDueSales", "VAT due on sales and other outputs"],
+  [2, "vatDueAcquisitions", "VAT due on acquisitions of goods from the EU"],
+  [3, "totalVatDue", "Total VAT due"],
+  [4, "vatReclaimedCurrPeriod", "VAT reclaimed on purchases and other inputs"],
+  [5, "netVatDue", "Net VAT to pay to HMRC or reclaim"],
+  [6, "totalValueSalesExVAT", "Total value of sales and all other outputs, excluding VAT"],
+  [7, "totalValuePurchasesExVAT", "Total value of purchases and all other inputs, excluding VAT"],
+  [8, "totalValueGoodsSuppliedExVAT", "Total value of supplies of goods to the EU, excluding VAT"],
+  [9, "totalAcquisitionsExVAT", "Total value of acquisitions of goods from the EU, excluding VAT"],
+];
+
+// First and last day of the current calendar quarter
+function currentQuarter(): { start: string; end: string } {
+  const now = new Date();
+  const firstMonth = Math.floor(now.getMonth() / 3) * 3;
+  return {
+    start: new Date(Date.UTC(now.getFullYear(), firstMonth, 1)).toISOString().slice(0, 10),
+    end: new Date(Date.UTC(now.getFullYear(), firstMonth + 3, 0)).toISOString().slice(0, 10),
+  };
+}
+
 export default function CompliancePage() {
   const [filters, setFilters] = useState({
     regionId: "",
@@ -29,6 +66,10 @@ export default function CompliancePage() {
   });
   
   const [reportData, setReportData] = useState<ComplianceReportRow[]>([]);
+  const [gstPeriod, setGstPeriod] = useState(new Date().toISOString().slice(0, 7));
+  const [eInvoices, setEInvoices] = useState<EInvoiceResult[] | null>(null);
+  const [vatPeriod, setVatPeriod] = useState(() => ({ periodKey: "", ...currentQuarter() }));
+  const [filedVatReturns, setFiledVatReturns] = useState<FiledVatReturn[]>(() => getFiledVatReturns());
   const [settings, setSettings] = useState<any>(null);
   const { toast } = useToast();
   const { user } = useAuth();
@@ -96,6 +137,96 @@ export default function CompliancePage() {
     }
   };
 
+  // Recomputed from the stored invoices whenever the month changes
+  const gstr1 = useMemo(() => settings ? generateGstr1(gstPeriod) : null, [settings, gstPeriod]);
+
+  const handleExportGstr1 = (format: "json" | "csv") => {
+    if (!gstr1) return;
+    if (format === "json") {
+      exportGstr1JSON(gstr1.gstr1);
+    } else {
+      exportGstr1CSV(gstr1.gstr1);
+    }
+    toast({
+      title: "GSTR-1 Exported",
+      description: gstr1.problems.length > 0
+        ? `${gstr1.problems.length} invoice(s) were left out; fix them and export again.`
+        : `GSTR-1 for ${gstPeriod} is ready to import into the GST offline tool.`,
+      variant: gstr1.problems.length > 0 ? "destructive" : "default",
+    });
+  };
+
+  const handleValidateEInvoices = () => {
+    const results = generateEInvoices(gstPeriod);
+    setEInvoices(results);
+    const failed = results.filter(result => result.errors.length > 0).length;
+    toast({
+      title: "E-invoices Validated",
+      description: `${results.length - failed} of ${results.length} B2B invoice(s) are ready for the IRP.`,
+      variant: failed > 0 ? "destructive" : "default",
+    });
+  };
+
+  const handleExportEInvoices = () => {
+    if (!eInvoices) return;
+    exportEInvoicesJSON(eInvoices, gstPeriod);
+  };
+
+  const vatPeriodValid = Boolean(vatPeriod.start && vatPeriod.end && vatPeriod.start <= vatPeriod.end);
+  const { data: vatPurchases, isLoading: vatPurchasesLoading } = useQuery({
+    queryKey: ["/api/vat/purchases", vatPeriod.start, vatPeriod.end],
+    queryFn: () => fetchVatPurchases(vatPeriod.start, vatPeriod.end),
+    enabled: vatPeriodValid,
+  });
+
+  const vatSummary = useMemo(
+    () => settings && vatPurchases ? generateVatSummary(vatPeriod.start, vatPeriod.end, vatPurchases) : [],
+    [settings, vatPurchases, vatPeriod.start, vatPeriod.end]
+  );
+  const vatReturn = useMemo(
+    () => vatPurchases ? generateVatReturn(vatPeriod, vatPurchases) : null,
+    [vatPurchases, vatPeriod]
+  );
+  // A filed period shows the figures as filed, with anything changed in it since flagged
+  const filedVatReturn = filedVatReturns.find(filed => filed.period.start === vatPeriod.start && filed.period.end === vatPeriod.end);
+  const vatChanges = useMemo(
+    () => filedVatReturn && vatReturn ? vatReturnChanges(filedVatReturn, vatReturn) : [],
+    [filedVatReturn, vatReturn]
+  );
+  const shownVatReturn = filedVatReturn ?? vatReturn;
+
+  const handleFileVatReturn = () => {
+    if (!vatReturn) return;
+    if (!vatPeriod.periodKey.trim()) {
+      toast({
+        title: "Period Key Required",
+        description: "Enter the period key HMRC gave for this VAT obligation.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      fileVatReturn(vatReturn);
+      setFiledVatReturns(getFiledVatReturns());
+      toast({
+        title: "VAT Period Locked",
+        description: `${vatPeriod.start} to ${vatPeriod.end} is marked as filed. Later changes to it will be flagged here.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Could Not Lock Period",
+        description: error instanceof Error ? error.message : "There was an error locking the VAT period.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleExportVatReturn = () => {
+    if (!shownVatReturn) return;
+    exportVatReturnJSON(shownVatReturn.submission);
+  };
+
   const clearFilters = () => {
     setFilters({
       regionId: "",
@@ -358,6 +489,11 @@ export default function CompliancePage() {
                     </TableCell>
                     <TableCell>
                       <Badge variant="outline">{row.taxRule}</Badge>
+                      {row.taxRate !== undefined && (
+                        <div className="text-xs text-gray-500 mt-1" data-testid={`text-tax-rate-${row.docNo}`}>
+                          {(row.taxRate * 100).toFixed(2)}% on {row.date}
+                        </div>
+                      )}
                     </TableCell>
                     <TableCell>
                       <Badge variant="secondary">{row.currency}</Badge>
@@ -369,6 +505,254 @@ export default function CompliancePage() {
           )}
         </CardContent>
       </Card>
+
+      {/* India GST returns */}
+      {settings.regions.some((region: any) => region.id === "IN") && (
+        <Card className="rounded-2xl" data-testid="card-india-gst">
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <Landmark className="h-5 w-5" />
+              <span>India GST: GSTR-1 and E-invoices</span>
+            </CardTitle>
+            <CardDescription>
+              Build GSTR-1 (B2B, B2CL, B2CS and HSN summary) and NIC e-invoice JSON from India tax invoices. Files are validated here and uploaded to the GST portal or IRP separately.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-wrap items-end gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="gst-period">Return Period</Label>
+                <Input
+                  id="gst-period"
+                  type="month"
+                  data-testid="input-gst-period"
+                  value={gstPeriod}
+                  onChange={(e) => { setGstPeriod(e.target.value); setEInvoices(null); }}
+                />
+              </div>
+              <Button variant="outline" onClick={() => handleExportGstr1("json")} disabled={!gstr1} data-testid="button-export-gstr1-json">
+                <Download className="h-4 w-4 mr-2" />
+                GSTR-1 JSON
+              </Button>
+              <Button variant="outline" onClick={() => handleExportGstr1("csv")} disabled={!gstr1} data-testid="button-export-gstr1-csv">
+                <Download className="h-4 w-4 mr-2" />
+                GSTR-1 CSV
+              </Button>
+              <Button variant="outline" onClick={handleValidateEInvoices} data-testid="button-validate-einvoices">
+                Validate E-invoices
+              </Button>
+              <Button
+                onClick={handleExportEInvoices}
+                disabled={!eInvoices?.some(result => result.errors.length === 0)}
+                data-testid="button-export-einvoices"
+              >
+                <Download className="h-4 w-4 mr-2" />
+                E-invoice JSON
+              </Button>
+            </div>
+
+            {gstr1 && (
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm" data-testid="gstr1-summary">
+                <div>B2B invoices: <span className="font-semibold">{gstr1.gstr1.b2b.reduce((count, recipient) => count + recipient.inv.length, 0)}</span></div>
+                <div>B2CL invoices: <span className="font-semibold">{gstr1.gstr1.b2cl.reduce((count, state) => count + state.inv.length, 0)}</span></div>
+                <div>B2CS rows: <span className="font-semibold">{gstr1.gstr1.b2cs.length}</span></div>
+                <div>HSN rows: <span className="font-semibold">{gstr1.gstr1.hsn.data.length}</span></div>
+              </div>
+            )}
+
+            {gstr1 && gstr1.problems.length > 0 && (
+              <div className="space-y-2" data-testid="gstr1-problems">
+                <div className="text-sm font-medium">Left out of GSTR-1</div>
+                {gstr1.problems.map((invoice) => (
+                  <div key={invoice.invoiceNumber} className="text-sm">
+                    <Badge variant="destructive" className="mr-2">{invoice.invoiceNumber}</Badge>
+                    {invoice.problems.join("; ")}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {eInvoices && (
+              eInvoices.length === 0 ? (
+                <div className="text-sm text-gray-600">No B2B India invoices in {gstPeriod}.</div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Invoice</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Validation Errors</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {eInvoices.map((result) => (
+                      <TableRow key={result.invoiceNumber} data-testid={`row-einvoice-${result.invoiceNumber}`}>
+                        <TableCell className="font-medium">{result.invoiceNumber}</TableCell>
+                        <TableCell>
+                          <Badge variant={result.errors.length === 0 ? "default" : "destructive"}>
+                            {result.errors.length === 0 ? "Ready" : `${result.errors.length} error(s)`}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          {result.errors.length === 0 ? "—" : (
+                            <ul className="list-disc pl-4">
+                              {result.errors.map((error) => <li key={error}>{error}</li>)}
+                            </ul>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* VAT returns */}
+      <Card className="rounded-2xl" data-testid="card-vat-returns">
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <Receipt className="h-5 w-5" />
+            <span>VAT Returns</span>
+          </CardTitle>
+          <CardDescription>
+            Output tax from tax invoices and input tax from supplier bills for a period, by region. For the UK, the nine-box Making Tax Digital return, exported as the JSON HMRC's VAT API takes.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap items-end gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="vat-start">Period Start</Label>
+              <Input
+                id="vat-start"
+                type="date"
+                data-testid="input-vat-start"
+                value={vatPeriod.start}
+                onChange={(e) => setVatPeriod(prev => ({ ...prev, start: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="vat-end">Period End</Label>
+              <Input
+                id="vat-end"
+                type="date"
+                data-testid="input-vat-end"
+                value={vatPeriod.end}
+                onChange={(e) => setVatPeriod(prev => ({ ...prev, end: e.target.value }))}
+              />
+            </div>
+          </div>
+
+          {!vatPeriodValid ? (
+            <div className="text-sm text-gray-600">Choose a period that ends on or after its start.</div>
+          ) : vatPurchasesLoading ? (
+            <div className="text-sm text-gray-600">Loading purchases...</div>
+          ) : vatSummary.length === 0 ? (
+            <div className="text-sm text-gray-600">No invoices or supplier bills in this period.</div>
+          ) : (
+            <Table data-testid="table-vat-summary">
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Region</TableHead>
+                  <TableHead className="text-right">Sales (net)</TableHead>
+                  <TableHead className="text-right">Output Tax</TableHead>
+                  <TableHead className="text-right">Purchases (net)</TableHead>
+                  <TableHead className="text-right">Input Tax</TableHead>
+                  <TableHead className="text-right">Net Tax</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {vatSummary.map((row) => {
+                  const region = settings.regions.find((r: any) => r.id === row.regionId);
+                  const format = (amount: number) => currencyFormat(amount, row.currency, region?.locale || "en-US");
+                  return (
+                    <TableRow key={row.regionId} data-testid={`row-vat-summary-${row.regionId}`}>
+                      <TableCell className="font-medium">{row.regionName}</TableCell>
+                      <TableCell className="text-right">{format(row.sales)}</TableCell>
+                      <TableCell className="text-right">{format(row.outputTax)}</TableCell>
+                      <TableCell className="text-right">{format(row.purchases)}</TableCell>
+                      <TableCell className="text-right">{format(row.inputTax)}</TableCell>
+                      <TableCell className="text-right font-semibold">{format(row.netTax)}</TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+
+          {settings.regions.some((region: any) => region.id === "UK") && shownVatReturn && (
+            <div className="space-y-4 border-t pt-4" data-testid="uk-vat-return">
+              <div className="flex flex-wrap items-end gap-3">
+                <div className="space-y-2">
+                  <Label htmlFor="vat-period-key">HMRC Period Key</Label>
+                  <Input
+                    id="vat-period-key"
+                    data-testid="input-vat-period-key"
+                    placeholder="e.g. 24A1"
+                    value={filedVatReturn ? filedVatReturn.period.periodKey : vatPeriod.periodKey}
+                    disabled={Boolean(filedVatReturn)}
+                    onChange={(e) => setVatPeriod(prev => ({ ...prev, periodKey: e.target.value.trim().toUpperCase() }))}
+                  />
+                </div>
+                <Button variant="outline" onClick={handleExportVatReturn} data-testid="button-export-vat-return">
+                  <Download className="h-4 w-4 mr-2" />
+                  MTD JSON
+                </Button>
+                {filedVatReturn ? (
+                  <Badge variant="secondary" className="h-9 px-3" data-testid="badge-vat-filed">
+                    <Lock className="h-3 w-3 mr-1" />
+                    Filed {new Date(filedVatReturn.filedAt).toLocaleDateString()}
+                  </Badge>
+                ) : (
+                  <Button onClick={handleFileVatReturn} data-testid="button-file-vat-return">
+                    <Lock className="h-4 w-4 mr-2" />
+                    Mark as Filed
+                  </Button>
+                )}
+              </div>
+
+              {vatChanges.length > 0 && (
+                <Alert variant="destructive" data-testid="alert-vat-changes">
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertTitle>Changed since this return was filed</AlertTitle>
+                  <AlertDescription>
+                    <ul className="list-disc pl-4">
+                      {vatChanges.map(({ change, document, filed }) => (
+                        <li key={`${document.kind}:${document.id}`}>
+                          {document.kind === "sale" ? "Invoice" : "Purchase"} {document.reference} ({document.counterparty}) {change}
+                          {filed && `: VAT ${filed.vat.toFixed(2)} → ${document.vat.toFixed(2)}, net ${filed.net.toFixed(2)} → ${document.net.toFixed(2)}`}
+                        </li>
+                      ))}
+                    </ul>
+                    Correct the differences on the next return.
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              <Table data-testid="table-vat-boxes">
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-16">Box</TableHead>
+                    <TableHead>Description</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {VAT_RETURN_BOXES.map(([box, field, label]) => (
+                    <TableRow key={box} data-testid={`row-vat-box-${box}`}>
+                      <TableCell className="font-medium">{box}</TableCell>
+                      <TableCell>{label}</TableCell>
+                      <TableCell className="text-right">{currencyFormat(shownVatReturn.submission[field], "GBP", "en-GB")}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
     </div>
     </LocationGuard>
   );
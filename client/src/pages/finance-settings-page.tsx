@@ -8,17 +8,36 @@ import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, D
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
-import { Plus, Settings, DollarSign, Globe, Percent } from "lucide-react";
+import { Plus, Settings, DollarSign, Globe, Percent, CalendarClock, Landmark } from "lucide-react";
 import { nanoid } from "nanoid";
-import type { FinanceSettings, TaxRegion, TaxRule, InsertTaxRule, StateRate } from "@shared/schema";
+import type { FinanceSettings, GstRegistration, TaxRegion, TaxRule, InsertTaxRule, StateRate } from "@shared/schema";
+import { gstinProblem } from "@shared/gst";
+import { DEFAULT_TAX_ROUNDING, rateHistory, regionRatesOn, toTaxDate } from "@shared/taxation";
 import { 
   getFinanceSettings, 
   saveFinanceSettings, 
   addTaxRuleToRegion, 
+  scheduleTaxRateChange,
   currencyFormat,
   initializeTaxationData
 } from "@/utils/taxation";
 
+function formatRatePeriod({ effectiveFrom, effectiveTo }: Pick<TaxRule, "effectiveFrom" | "effectiveTo">): string {
+  if (effectiveFrom && effectiveTo) return `${effectiveFrom} to ${effectiveTo}`;
+  if (effectiveFrom) return `from ${effectiveFrom}`;
+  return effectiveTo ? `until ${effectiveTo}` : "";
+}
+
+// Versions of each rule and state rate that aren't the only one, oldest first
+function rateChanges(region: TaxRegion) {
+  const ruleIds = Array.from(new Set(region.taxRules.map(rule => rule.id)));
+  const stateCodes = Array.from(new Set((region.stateRates ?? []).map(stateRate => stateRate.code)));
+  return [
+    ...ruleIds.map(id => ({ key: id, label: id, versions: rateHistory(region.taxRules.filter(rule => rule.id === id)) })),
+    ...stateCodes.map(code => ({ key: `state-${code}`, label: code, versions: rateHistory((region.stateRates ?? []).filter(stateRate => stateRate.code === code)) })),
+  ].filter(history => history.versions.length > 1);
+}
+
 export default function FinanceSettingsPage() {
   const [settings, setSettings] = useState<FinanceSettings | null>(null);
   const [isAddRuleModalOpen, setIsAddRuleModalOpen] = useState(false);
@@ -28,6 +47,21 @@ export default function FinanceSettingsPage() {
     rate: 0,
     category: "standard"
   });
+  const [gstRegistration, setGstRegistration] = useState<GstRegistration>({
+    gstin: "",
+    legalName: "",
+    address1: "",
+    location: "",
+    pincode: ""
+  });
+  const [isChangeRateModalOpen, setIsChangeRateModalOpen] = useState(false);
+  const [rateChange, setRateChange] = useState({
+    regionId: "",
+    target: "", // "rule:<id>" or "state:<code>"
+    rate: 0,
+    effectiveFrom: toTaxDate(),
+    name: ""
+  });
   const { toast } = useToast();
 
   useEffect(() => {
@@ -39,6 +73,9 @@ export default function FinanceSettingsPage() {
   const loadSettings = () => {
     const financeSettings = getFinanceSettings();
     setSettings(financeSettings);
+    if (financeSettings?.gstRegistration) {
+      setGstRegistration(financeSettings.gstRegistration);
+    }
   };
 
   const handleBaseCurrencyChange = (currency: string) => {
@@ -89,6 +126,46 @@ export default function FinanceSettingsPage() {
     });
   };
 
+  const handleSaveGstRegistration = () => {
+    if (!settings) return;
+
+    const registration = { ...gstRegistration, gstin: gstRegistration.gstin.trim().toUpperCase() };
+    const problem = gstinProblem(registration.gstin);
+    if (problem) {
+      toast({
+        title: "Invalid GSTIN",
+        description: problem,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const updatedSettings = { ...settings, gstRegistration: registration };
+    setSettings(updatedSettings);
+    setGstRegistration(registration);
+    saveFinanceSettings(updatedSettings);
+    toast({
+      title: "GST Registration Saved",
+      description: "GSTR-1 returns and e-invoices will use these supplier details",
+    });
+  };
+
+  const handleRegionPricingChange = (regionId: string, changes: Partial<Pick<TaxRegion, "pricing" | "rounding">>) => {
+    if (!settings) return;
+
+    const updatedSettings = {
+      ...settings,
+      regions: settings.regions.map(region => region.id === regionId ? { ...region, ...changes } : region)
+    };
+
+    setSettings(updatedSettings);
+    saveFinanceSettings(updatedSettings);
+    toast({
+      title: "Tax Pricing Updated",
+      description: "New orders and invoices in this region will use the updated pricing and rounding",
+    });
+  };
+
   const handleAddTaxRule = () => {
     if (!selectedRegionId || !newRule.name || newRule.rate < 0 || newRule.rate > 1) {
       toast({
@@ -118,6 +195,43 @@ export default function FinanceSettingsPage() {
     });
   };
 
+  const handleChangeRate = () => {
+    const [kind, key] = rateChange.target.split(":");
+    if (!rateChange.regionId || !key || !rateChange.effectiveFrom || rateChange.rate < 0 || rateChange.rate > 1) {
+      toast({
+        title: "Invalid Input",
+        description: "Choose a region, a rule or state, a date and a tax rate between 0 and 1.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      scheduleTaxRateChange(
+        rateChange.regionId,
+        kind === "state" ? { stateCode: key } : { ruleId: key, name: rateChange.name || undefined },
+        rateChange.rate,
+        rateChange.effectiveFrom
+      );
+    } catch (error) {
+      toast({
+        title: "Rate Not Changed",
+        description: error instanceof Error ? error.message : "The rate could not be changed",
+        variant: "destructive",
+      });
+      return;
+    }
+    loadSettings();
+
+    setRateChange({ regionId: "", target: "", rate: 0, effectiveFrom: toTaxDate(), name: "" });
+    setIsChangeRateModalOpen(false);
+
+    toast({
+      title: "Tax Rate Changed",
+      description: `The new rate applies to documents dated ${rateChange.effectiveFrom} onwards`,
+    });
+  };
+
   const formatTaxRate = (rate: number): string => {
     return `${(rate * 100).toFixed(1)}%`;
   };
@@ -223,6 +337,74 @@ export default function FinanceSettingsPage() {
         </CardContent>
       </Card>
 
+      {/* India GST registration */}
+      <Card className="rounded-2xl">
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <Landmark className="h-5 w-5" />
+            <span>GST Registration (India)</span>
+          </CardTitle>
+          <CardDescription>
+            Supplier details for GSTR-1 returns and e-invoices. The business state above must match the GSTIN's state.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="gst-gstin">GSTIN</Label>
+              <Input
+                id="gst-gstin"
+                data-testid="input-gstin"
+                placeholder="29ABCDE1234F1ZW"
+                value={gstRegistration.gstin}
+                onChange={(e) => setGstRegistration(prev => ({ ...prev, gstin: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="gst-legal-name">Legal Name</Label>
+              <Input
+                id="gst-legal-name"
+                data-testid="input-gst-legal-name"
+                value={gstRegistration.legalName}
+                onChange={(e) => setGstRegistration(prev => ({ ...prev, legalName: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="gst-address">Address</Label>
+              <Input
+                id="gst-address"
+                data-testid="input-gst-address"
+                value={gstRegistration.address1}
+                onChange={(e) => setGstRegistration(prev => ({ ...prev, address1: e.target.value }))}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-2">
+                <Label htmlFor="gst-location">City</Label>
+                <Input
+                  id="gst-location"
+                  data-testid="input-gst-location"
+                  value={gstRegistration.location}
+                  onChange={(e) => setGstRegistration(prev => ({ ...prev, location: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="gst-pincode">PIN Code</Label>
+                <Input
+                  id="gst-pincode"
+                  data-testid="input-gst-pincode"
+                  value={gstRegistration.pincode}
+                  onChange={(e) => setGstRegistration(prev => ({ ...prev, pincode: e.target.value }))}
+                />
+              </div>
+            </div>
+          </div>
+          <Button onClick={handleSaveGstRegistration} data-testid="button-save-gst-registration">
+            Save GST Registration
+          </Button>
+        </CardContent>
+      </Card>
+
       {/* Regional Tax Rules */}
       <Card className="rounded-2xl">
         <CardHeader>
@@ -231,88 +413,196 @@ export default function FinanceSettingsPage() {
               <Percent className="h-5 w-5" />
               <span>Regional Tax Rules</span>
             </div>
-            <Dialog open={isAddRuleModalOpen} onOpenChange={setIsAddRuleModalOpen}>
-              <DialogTrigger asChild>
-                <Button size="sm" data-testid="button-add-tax-rule">
-                  <Plus className="h-4 w-4 mr-2" />
-                  Add Tax Rule
-                </Button>
-              </DialogTrigger>
-              <DialogContent>
-                <DialogHeader>
-                  <DialogTitle>Add New Tax Rule</DialogTitle>
-                  <DialogDescription>
-                    Create a new tax rule for a specific region. The rate should be entered as a decimal (e.g., 0.2 for 20%).
-                  </DialogDescription>
-                </DialogHeader>
-                <div className="space-y-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="select-region">Region</Label>
-                    <Select value={selectedRegionId} onValueChange={setSelectedRegionId}>
-                      <SelectTrigger data-testid="select-region">
-                        <SelectValue placeholder="Select region" />
-                      </SelectTrigger>
-                      <SelectContent>
-                        {settings.regions.map((region) => (
-                          <SelectItem key={region.id} value={region.id}>
-                            {region.name} ({region.currency})
-                          </SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="rule-name">Tax Rule Name</Label>
-                    <Input
-                      id="rule-name"
-                      data-testid="input-tax-rule-name"
-                      placeholder="e.g., VAT 20%"
-                      value={newRule.name}
-                      onChange={(e) => setNewRule(prev => ({ ...prev, name: e.target.value }))}
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="rule-rate">Tax Rate (0.0 - 1.0)</Label>
-                    <Input
-                      id="rule-rate"
-                      data-testid="input-tax-rate"
-                      type="number"
-                      min="0"
-                      max="1"
-                      step="0.01"
-                      placeholder="0.20"
-                      value={newRule.rate}
-                      onChange={(e) => setNewRule(prev => ({ ...prev, rate: parseFloat(e.target.value) || 0 }))}
-                    />
-                    <div className="text-sm text-gray-500">
-                      Preview: {formatTaxRate(newRule.rate)}
+            <div className="flex items-center space-x-2">
+              <Dialog open={isChangeRateModalOpen} onOpenChange={setIsChangeRateModalOpen}>
+                <DialogTrigger asChild>
+                  <Button size="sm" variant="outline" data-testid="button-change-tax-rate">
+                    <CalendarClock className="h-4 w-4 mr-2" />
+                    Change Rate
+                  </Button>
+                </DialogTrigger>
+                <DialogContent>
+                  <DialogHeader>
+                    <DialogTitle>Change Tax Rate</DialogTitle>
+                    <DialogDescription>
+                      Set a new rate from a date. Orders and invoices dated before it keep the rate in force at the time.
+                    </DialogDescription>
+                  </DialogHeader>
+                  <div className="space-y-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="change-rate-region">Region</Label>
+                      <Select value={rateChange.regionId} onValueChange={(value) => setRateChange(prev => ({ ...prev, regionId: value, target: "" }))}>
+                        <SelectTrigger data-testid="select-change-rate-region">
+                          <SelectValue placeholder="Select region" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {settings.regions.map((region) => (
+                            <SelectItem key={region.id} value={region.id}>
+                              {region.name} ({region.currency})
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
                     </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="change-rate-target">Tax Rule or State</Label>
+                      <Select value={rateChange.target} onValueChange={(value) => setRateChange(prev => ({ ...prev, target: value }))}>
+                        <SelectTrigger data-testid="select-change-rate-target">
+                          <SelectValue placeholder="Select tax rule or state" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(() => {
+                            const region = settings.regions.find(r => r.id === rateChange.regionId);
+                            if (!region) return null;
+                            const current = regionRatesOn(region);
+                            return [
+                              ...current.taxRules.map((rule) => (
+                                <SelectItem key={`rule:${rule.id}`} value={`rule:${rule.id}`}>
+                                  {rule.name} - {formatTaxRate(rule.rate)}
+                                </SelectItem>
+                              )),
+                              ...(current.stateRates ?? []).map((stateRate) => (
+                                <SelectItem key={`state:${stateRate.code}`} value={`state:${stateRate.code}`}>
+                                  {stateRate.code} - {formatTaxRate(stateRate.rate)}
+                                </SelectItem>
+                              ))
+                            ];
+                          })()}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="change-rate-rate">New Tax Rate (0.0 - 1.0)</Label>
+                      <Input
+                        id="change-rate-rate"
+                        data-testid="input-change-rate-rate"
+                        type="number"
+                        min="0"
+                        max="1"
+                        step="0.0025"
+                        value={rateChange.rate}
+                        onChange={(e) => setRateChange(prev => ({ ...prev, rate: parseFloat(e.target.value) || 0 }))}
+                      />
+                      <div className="text-sm text-gray-500">
+                        Preview: {formatTaxRate(rateChange.rate)}
+                      </div>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="change-rate-from">Effective From</Label>
+                      <Input
+                        id="change-rate-from"
+                        data-testid="input-change-rate-from"
+                        type="date"
+                        value={rateChange.effectiveFrom}
+                        onChange={(e) => setRateChange(prev => ({ ...prev, effectiveFrom: e.target.value }))}
+                      />
+                    </div>
+                    {rateChange.target.startsWith("rule:") && (
+                      <div className="space-y-2">
+                        <Label htmlFor="change-rate-name">New Rule Name (optional)</Label>
+                        <Input
+                          id="change-rate-name"
+                          data-testid="input-change-rate-name"
+                          placeholder="e.g., VAT 22% (Standard)"
+                          value={rateChange.name}
+                          onChange={(e) => setRateChange(prev => ({ ...prev, name: e.target.value }))}
+                        />
+                      </div>
+                    )}
                   </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="rule-category">Tax Category</Label>
-                    <Select value={newRule.category} onValueChange={(value: any) => setNewRule(prev => ({ ...prev, category: value }))}>
-                      <SelectTrigger data-testid="select-tax-category">
-                        <SelectValue />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="standard">Standard Rate</SelectItem>
-                        <SelectItem value="reduced">Reduced Rate</SelectItem>
-                        <SelectItem value="zero">Zero Rate</SelectItem>
-                        <SelectItem value="state">State Specific</SelectItem>
-                      </SelectContent>
-                    </Select>
-                  </div>
-                </div>
-                <DialogFooter>
-                  <Button variant="outline" onClick={() => setIsAddRuleModalOpen(false)}>
-                    Cancel
-                  </Button>
-                  <Button onClick={handleAddTaxRule} data-testid="button-save-tax-rule">
+                  <DialogFooter>
+                    <Button variant="outline" onClick={() => setIsChangeRateModalOpen(false)}>
+                      Cancel
+                    </Button>
+                    <Button onClick={handleChangeRate} data-testid="button-save-rate-change">
+                      Change Rate
+                    </Button>
+                  </DialogFooter>
+                </DialogContent>
+              </Dialog>
+              <Dialog open={isAddRuleModalOpen} onOpenChange={setIsAddRuleModalOpen}>
+                <DialogTrigger asChild>
+                  <Button size="sm" data-testid="button-add-tax-rule">
+                    <Plus className="h-4 w-4 mr-2" />
                     Add Tax Rule
                   </Button>
-                </DialogFooter>
-              </DialogContent>
-            </Dialog>
+                </DialogTrigger>
+                <DialogContent>
+                  <DialogHeader>
+                    <DialogTitle>Add New Tax Rule</DialogTitle>
+                    <DialogDescription>
+                      Create a new tax rule for a specific region. The rate should be entered as a decimal (e.g., 0.2 for 20%).
+                    </DialogDescription>
+                  </DialogHeader>
+                  <div className="space-y-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="select-region">Region</Label>
+                      <Select value={selectedRegionId} onValueChange={setSelectedRegionId}>
+                        <SelectTrigger data-testid="select-region">
+                          <SelectValue placeholder="Select region" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {settings.regions.map((region) => (
+                            <SelectItem key={region.id} value={region.id}>
+                              {region.name} ({region.currency})
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="rule-name">Tax Rule Name</Label>
+                      <Input
+                        id="rule-name"
+                        data-testid="input-tax-rule-name"
+                        placeholder="e.g., VAT 20%"
+                        value={newRule.name}
+                        onChange={(e) => setNewRule(prev => ({ ...prev, name: e.target.value }))}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="rule-rate">Tax Rate (0.0 - 1.0)</Label>
+                      <Input
+                        id="rule-rate"
+                        data-testid="input-tax-rate"
+                        type="number"
+                        min="0"
+                        max="1"
+                        step="0.01"
+                        placeholder="0.20"
+                        value={newRule.rate}
+                        onChange={(e) => setNewRule(prev => ({ ...prev, rate: parseFloat(e.target.value) || 0 }))}
+                      />
+                      <div className="text-sm text-gray-500">
+                        Preview: {formatTaxRate(newRule.rate)}
+                      </div>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="rule-category">Tax Category</Label>
+                      <Select value={newRule.category} onValueChange={(value: any) => setNewRule(prev => ({ ...prev, category: value }))}>
+                        <SelectTrigger data-testid="select-tax-category">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="standard">Standard Rate</SelectItem>
+                          <SelectItem value="reduced">Reduced Rate</SelectItem>
+                          <SelectItem value="zero">Zero Rate</SelectItem>
+                          <SelectItem value="state">State Specific</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                  <DialogFooter>
+                    <Button variant="outline" onClick={() => setIsAddRuleModalOpen(false)}>
+                      Cancel
+                    </Button>
+                    <Button onClick={handleAddTaxRule} data-testid="button-save-tax-rule">
+                      Add Tax Rule
+                    </Button>
+                  </DialogFooter>
+                </DialogContent>
+              </Dialog>
+            </div>
           </CardTitle>
           <CardDescription>
             Manage tax rules for different regions and currencies
@@ -326,11 +616,16 @@ export default function FinanceSettingsPage() {
                 <TableHead>Currency</TableHead>
                 <TableHead>Locale</TableHead>
                 <TableHead>Tax Rules</TableHead>
+                <TableHead>Pricing & Rounding</TableHead>
                 <TableHead>States/Additional Info</TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
-              {settings.regions.map((region) => (
+              {settings.regions.map((regionSettings) => {
+                // Rates in force today; earlier and scheduled ones are listed under Rate History
+                const region = regionRatesOn(regionSettings);
+                const changes = rateChanges(regionSettings);
+                return (
                 <TableRow key={region.id} data-testid={`row-region-${region.id}`}>
                   <TableCell className="font-medium">{region.name}</TableCell>
                   <TableCell>
@@ -347,6 +642,64 @@ export default function FinanceSettingsPage() {
                         </div>
                       ))}
                     </div>
+                    {changes.length > 0 && (
+                      <div className="space-y-1 mt-2" data-testid={`rate-history-${region.id}`}>
+                        <div className="text-sm font-medium">Rate History:</div>
+                        {changes.map((history) => (
+                          <div key={history.key} className="text-xs text-gray-600">
+                            <Badge variant="outline" className="mr-1">{history.label}</Badge>
+                            {history.versions.map((version) => `${formatTaxRate(version.rate)} ${formatRatePeriod(version)}`).join(", ")}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {(() => {
+                      const rounding = { ...DEFAULT_TAX_ROUNDING, ...region.rounding };
+                      const setRounding = (changes: Partial<typeof rounding>) =>
+                        handleRegionPricingChange(region.id, { rounding: { ...rounding, ...changes } });
+                      return (
+                        <div className="space-y-2 min-w-[160px]">
+                          <Select value={region.pricing ?? "exclusive"} onValueChange={(value: "exclusive" | "inclusive") => handleRegionPricingChange(region.id, { pricing: value })}>
+                            <SelectTrigger className="h-8 text-xs" data-testid={`select-pricing-${region.id}`}>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="exclusive">Prices exclude tax</SelectItem>
+                              <SelectItem value="inclusive">Prices include tax</SelectItem>
+                            </SelectContent>
+                          </Select>
+                          <Select value={rounding.level} onValueChange={(value: "line" | "invoice") => setRounding({ level: value })}>
+                            <SelectTrigger className="h-8 text-xs" data-testid={`select-rounding-level-${region.id}`}>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="line">Round each line</SelectItem>
+                              <SelectItem value="invoice">Round per invoice</SelectItem>
+                            </SelectContent>
+                          </Select>
+                          <Select value={rounding.mode} onValueChange={(value: "half_up" | "half_even") => setRounding({ mode: value })}>
+                            <SelectTrigger className="h-8 text-xs" data-testid={`select-rounding-mode-${region.id}`}>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="half_up">Half up</SelectItem>
+                              <SelectItem value="half_even">Half even (banker's)</SelectItem>
+                            </SelectContent>
+                          </Select>
+                          <Select value={String(rounding.unit)} onValueChange={(value) => setRounding({ unit: Number(value) })}>
+                            <SelectTrigger className="h-8 text-xs" data-testid={`select-rounding-unit-${region.id}`}>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="1">To {currencyFormat(0.01, region.currency, region.locale)}</SelectItem>
+                              <SelectItem value="100">To {currencyFormat(1, region.currency, region.locale)}</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      );
+                    })()}
                   </TableCell>
                   <TableCell>
                     {region.states && region.states.length > 0 && (
@@ -381,7 +734,8 @@ export default function FinanceSettingsPage() {
                     )}
                   </TableCell>
                 </TableRow>
-              ))}
+                );
+              })}
             </TableBody>
           </Table>
         </CardContent>
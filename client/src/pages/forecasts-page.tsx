@@ -1,4 +1,5 @@
-import { useState, useMemo, useEffect } from "react";
+import { useState, useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { Link, useLocation } from "wouter";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -9,9 +10,8 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { ArrowLeft, TrendingUp, AlertTriangle, Package, ShoppingCart, Filter, FileText } from "lucide-react";
 import { CreatePOModal } from "@/components/CreatePOModal";
 import { getAllProducts } from "@/data/seedProductData";
-import { getForecastForHorizon, calcSuggestion } from "@/utils/forecasting";
-import { getSalesOrders, getOrRefreshForecast, startAutoRefresh, prewarmCache } from "@/utils/forecastStorage";
-import type { ForecastHorizon, ForecastMethod } from "@shared/schema";
+import { calcSuggestion, FORECAST_METHOD_LABELS } from "@shared/forecasting";
+import type { ForecastData, ForecastModel, ForecastsResponse } from "@shared/schema";
 
 interface ForecastSummary {
   productId: string;
@@ -26,6 +26,8 @@ interface ForecastSummary {
   daysLeft: number;
   riskLevel: "low" | "medium" | "high";
   avgDailySales: number;
+  method?: ForecastModel;
+  wape?: number | null;
 }
 
 export default function ForecastsPage() {
@@ -36,116 +38,76 @@ export default function ForecastsPage() {
   const [riskFilter, setRiskFilter] = useState("all");
   const [createPOModalOpen, setCreatePOModalOpen] = useState(false);
   const [selectedForecastItem, setSelectedForecastItem] = useState<ForecastSummary | null>(null);
-  const [forecastSummaries, setForecastSummaries] = useState<ForecastSummary[]>([]);
-  const [loading, setLoading] = useState(true);
 
-  // Load forecast summaries with enhanced caching
-  useEffect(() => {
-    const loadForecastSummaries = async () => {
-      setLoading(true);
-      try {
-        const products = getAllProducts();
-        const summaries: ForecastSummary[] = [];
+  // Server-computed forecasts (auto method selection per SKU) for every horizon at the selected location
+  const { data: forecasts = [] } = useQuery<ForecastsResponse, Error, ForecastData[]>({
+    queryKey: ["/api/forecasts", { locationId: selectedLocation, method: "auto" }],
+    queryFn: async () => {
+      const params = new URLSearchParams({ locationId: selectedLocation, method: "auto" });
+      const response = await fetch(`/api/forecasts?${params.toString()}`);
+      if (!response.ok) throw new Error("Failed to fetch forecasts");
+      return response.json();
+    },
+    select: (data) => data.forecasts,
+    // Poll while the server computes forecasts it had nothing stored for
+    refetchInterval: (query) => query.state.data?.refreshing && query.state.dataUpdateCount < 20 ? 3000 : false,
+  });
 
-        // Create refresh callback for enhanced caching
-        const refreshCallback = async (productId: string, locationId: string | undefined, horizon: ForecastHorizon, method: ForecastMethod) => {
-          const orders = getSalesOrders();
-          const result = getForecastForHorizon(
-            orders,
-            productId,
-            locationId,
-            horizon,
-            method,
-            30 // Default min history days
-          );
+  const forecastSummaries = useMemo(() => {
+    const summaries: ForecastSummary[] = [];
+    const totalDemand = (forecast?: ForecastData) =>
+      forecast ? forecast.result.daily.reduce((sum, day) => sum + day.qty, 0) : 0;
 
-          return {
-            productId,
-            locationId,
-            horizon,
-            method,
-            ts: new Date().toISOString(),
-            result
-          };
-        };
+    for (const product of getAllProducts()) {
+      const productForecasts = forecasts.filter(f => f.productId === product.sku);
+      const forecast30 = productForecasts.find(f => f.horizon === "30");
+      if (!forecast30) continue;
 
-        // Process products in batches to avoid blocking UI
-        const batchSize = 5;
-        for (let i = 0; i < products.length; i += batchSize) {
-          const batch = products.slice(i, i + batchSize);
-          
-          await Promise.all(
-            batch.map(async (product) => {
-              const locations = selectedLocation === "all" 
-                ? ["main"] // Simplified to main warehouse for now
-                : [selectedLocation];
+      // Get stock for this location
+      const currentStock = product.stock || 0;
 
-              for (const location of locations) {
-                // Get stock for this location
-                const currentStock = product.stock || 0;
-                
-                // Use enhanced caching to get forecast data
-                const forecastData = await getOrRefreshForecast(
-                  product.id,
-                  location === "main" ? undefined : location,
-                  "30",
-                  "moving_avg",
-                  refreshCallback
-                );
+      // Calculate metrics
+      const avgDailySales = forecast30.result.avgDaily;
+      const forecastDemand30 = totalDemand(forecast30);
+      const forecastDemand60 = totalDemand(productForecasts.find(f => f.horizon === "60"));
+      const forecastDemand90 = totalDemand(productForecasts.find(f => f.horizon === "90"));
 
-                if (!forecastData) continue;
-                
-                // Calculate metrics
-                const avgDailySales = forecastData.result.avgDaily;
-                const forecastDemand30 = forecastData.result.daily.reduce((sum: number, day: any) => sum + day.qty, 0);
-                const forecastDemand60 = forecastData.result.daily.slice(0, 60).reduce((sum: number, day: any) => sum + day.qty, 0);
-                const forecastDemand90 = forecastData.result.daily.slice(0, 90).reduce((sum: number, day: any) => sum + day.qty, 0);
-                
-                const daysLeft = avgDailySales > 0 ? Math.floor(currentStock / avgDailySales) : 999;
-                
-                // Determine risk level
-                let riskLevel: "low" | "medium" | "high" = "low";
-                if (daysLeft < 7) riskLevel = "high";
-                else if (daysLeft < 14) riskLevel = "medium";
+      const daysLeft = avgDailySales > 0 ? Math.floor(currentStock / avgDailySales) : 999;
 
-                // Calculate reorder suggestion
-                const suggestion = calcSuggestion({
-                  onHand: currentStock,
-                  safetyStock: 50,
-                  avgDaily: avgDailySales,
-                  leadTimeDays: 14,
-                  reorderQty: 100
-                });
+      // Determine risk level
+      let riskLevel: "low" | "medium" | "high" = "low";
+      if (daysLeft < 7) riskLevel = "high";
+      else if (daysLeft < 14) riskLevel = "medium";
 
-                summaries.push({
-                  productId: product.id,
-                  sku: product.sku,
-                  name: product.name,
-                  location: location === "main" ? "Main Warehouse" : location,
-                  currentStock,
-                  forecastDemand30,
-                  forecastDemand60,
-                  forecastDemand90,
-                  suggestedQty: suggestion.suggestedQty,
-                  daysLeft,
-                  riskLevel,
-                  avgDailySales
-                });
-              }
-            })
-          );
-        }
+      // Calculate reorder suggestion
+      const suggestion = calcSuggestion({
+        onHand: currentStock,
+        safetyStock: 50,
+        avgDaily: avgDailySales,
+        leadTimeDays: 14,
+        reorderQty: 100
+      });
 
-        setForecastSummaries(summaries);
-      } catch (error) {
-        console.error("Error loading forecast summaries:", error);
-      } finally {
-        setLoading(false);
-      }
-    };
+      summaries.push({
+        productId: product.id,
+        sku: product.sku,
+        name: product.name,
+        location: selectedLocation === "all" ? "All Locations" : selectedLocation,
+        currentStock,
+        forecastDemand30,
+        forecastDemand60,
+        forecastDemand90,
+        suggestedQty: suggestion.suggestedQty,
+        daysLeft,
+        riskLevel,
+        avgDailySales,
+        method: forecast30.result.selectedMethod,
+        wape: forecast30.result.backtests?.find(backtest => backtest.method === forecast30.result.selectedMethod)?.wape
+      });
+    }
 
-    loadForecastSummaries();
-  }, [selectedLocation]);
+    return summaries;
+  }, [forecasts, selectedLocation]);
 
   // Filter summaries based on search and filters
   const filteredSummaries = useMemo(() => {
@@ -371,6 +333,7 @@ export default function ForecastsPage() {
                   <TableHead className="text-zinc-400">Location</TableHead>
                   <TableHead className="text-zinc-400">Current Stock</TableHead>
                   <TableHead className="text-zinc-400">Avg Daily Sales</TableHead>
+                  <TableHead className="text-zinc-400">Method</TableHead>
                   <TableHead className="text-zinc-400">30d Forecast</TableHead>
                   <TableHead className="text-zinc-400">Days Left</TableHead>
                   <TableHead className="text-zinc-400">Risk</TableHead>
@@ -396,6 +359,12 @@ export default function ForecastsPage() {
                     <TableCell className="text-zinc-400" data-testid={`text-daily-sales-${index}`}>
                       {summary.avgDailySales.toFixed(1)}
                     </TableCell>
+                    <TableCell className="text-zinc-400" data-testid={`text-method-${index}`}>
+                      <div>{summary.method ? FORECAST_METHOD_LABELS[summary.method] : "—"}</div>
+                      {summary.wape !== undefined && summary.wape !== null && (
+                        <div className="text-xs text-zinc-500">WAPE {summary.wape.toFixed(1)}%</div>
+                      )}
+                    </TableCell>
                     <TableCell className="text-green-400" data-testid={`text-forecast-${index}`}>
                       {summary.forecastDemand30.toFixed(0)}
                     </TableCell>
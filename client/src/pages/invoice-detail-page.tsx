@@ -38,9 +38,13 @@ import {
   CheckCircle,
   AlertCircle
 } from "lucide-react";
-import { currencyFormat, fx } from "@/utils/currency";
+import { currencyFormat, fx, type LineItem } from "@/utils/currency";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import { fromMinorUnits, splitTaxAmount, toMinorUnits } from "@shared/taxation";
+
+// Lines saved since they carried their own net and tax have both
+type InvoiceLineItem = LineItem & { netAmount?: number; taxAmount?: number };
 
 interface Invoice {
   id: string;
@@ -51,7 +55,8 @@ interface Invoice {
   dueDate: string;
   currency: string;
   locale: string;
-  lineItems: any[];
+  lineItems: InvoiceLineItem[];
+  pricing?: 'exclusive' | 'inclusive'; // Whether the unit prices include tax
   subtotal: number;
   taxTotal: number;
   grandTotal: number;
@@ -76,6 +81,16 @@ interface Customer {
 const INVOICES_KEY = "flowventory:invoices";
 const CUSTOMERS_KEY = "flowventory:customers";
 
+// Net and tax of a line as saved with the invoice, or backed out of its price at its tax rate for
+// invoices saved before lines carried them
+function lineAmounts(item: InvoiceLineItem, pricing: Invoice['pricing']): { net: number; tax: number } {
+  if (item.netAmount !== undefined && item.taxAmount !== undefined) {
+    return { net: item.netAmount, tax: item.taxAmount };
+  }
+  const { net, tax } = splitTaxAmount(toMinorUnits(item.qty * item.unitPrice), item.taxRate ?? 0, pricing);
+  return { net: fromMinorUnits(net), tax: fromMinorUnits(tax) };
+}
+
 interface PaymentConnector {
   id: string;
   provider: string;
@@ -308,6 +323,7 @@ export default function InvoiceDetailPage() {
     // Create a print-friendly view
     const printWindow = window.open('', '_blank');
     if (!printWindow || !invoice || !customer) return;
+    const pricesIncludeTax = invoice.pricing === 'inclusive';
 
     const html = `
       <!DOCTYPE html>
@@ -352,6 +368,8 @@ export default function InvoiceDetailPage() {
                 <th>Qty</th>
                 <th>Unit Price</th>
                 <th>Tax Rate</th>
+                <th>Net</th>
+                <th>Tax</th>
                 <th>Total</th>
               </tr>
             </thead>
@@ -362,6 +380,8 @@ export default function InvoiceDetailPage() {
                   <td>${item.qty}</td>
                   <td>${currencyFormat(item.unitPrice, invoice.currency, invoice.locale)}</td>
                   <td>${(item.taxRate * 100).toFixed(1)}%</td>
+                  <td>${currencyFormat(lineAmounts(item, invoice.pricing).net, invoice.currency, invoice.locale)}</td>
+                  <td>${currencyFormat(lineAmounts(item, invoice.pricing).tax, invoice.currency, invoice.locale)}</td>
                   <td>${currencyFormat(item.qty * item.unitPrice, invoice.currency, invoice.locale)}</td>
                 </tr>
               `).join('')}
@@ -369,8 +389,8 @@ export default function InvoiceDetailPage() {
           </table>
           
           <div class="totals">
-            <div>Subtotal: ${currencyFormat(invoice.subtotal, invoice.currency, invoice.locale)}</div>
-            <div>Tax: ${currencyFormat(invoice.taxTotal, invoice.currency, invoice.locale)}</div>
+            <div>${pricesIncludeTax ? 'Net' : 'Subtotal'}: ${currencyFormat(invoice.subtotal, invoice.currency, invoice.locale)}</div>
+            <div>${pricesIncludeTax ? 'Tax included' : 'Tax'}: ${currencyFormat(invoice.taxTotal, invoice.currency, invoice.locale)}</div>
             <div class="total-row">Total: ${currencyFormat(invoice.grandTotal, invoice.currency, invoice.locale)}</div>
           </div>
         </body>
@@ -407,6 +427,7 @@ export default function InvoiceDetailPage() {
   }
 
   const baseCurrencyConversion = getBaseCurrencyConversion();
+  const pricesIncludeTax = invoice.pricing === 'inclusive';
 
   return (
     <div className="container mx-auto p-6 max-w-7xl">
@@ -562,30 +583,42 @@ export default function InvoiceDetailPage() {
                     <TableHead>Qty</TableHead>
                     <TableHead>Unit Price</TableHead>
                     <TableHead>Tax Rate</TableHead>
+                    <TableHead>Net</TableHead>
+                    <TableHead>Tax</TableHead>
                     <TableHead>Line Total</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {invoice.lineItems.map((item, index) => (
-                    <TableRow key={index}>
-                      <TableCell className="font-medium">{item.name}</TableCell>
-                      <TableCell>{item.qty}</TableCell>
-                      <TableCell>{currencyFormat(item.unitPrice, invoice.currency, invoice.locale)}</TableCell>
-                      <TableCell>{(item.taxRate * 100).toFixed(1)}%</TableCell>
-                      <TableCell>{currencyFormat(item.qty * item.unitPrice, invoice.currency, invoice.locale)}</TableCell>
-                    </TableRow>
-                  ))}
+                  {invoice.lineItems.map((item, index) => {
+                    const { net, tax } = lineAmounts(item, invoice.pricing);
+                    return (
+                      <TableRow key={index}>
+                        <TableCell className="font-medium">{item.name}</TableCell>
+                        <TableCell>{item.qty}</TableCell>
+                        <TableCell>{currencyFormat(item.unitPrice, invoice.currency, invoice.locale)}</TableCell>
+                        <TableCell>{(item.taxRate * 100).toFixed(1)}%</TableCell>
+                        <TableCell data-testid={`text-line-net-${index}`}>{currencyFormat(net, invoice.currency, invoice.locale)}</TableCell>
+                        <TableCell data-testid={`text-line-tax-${index}`}>{currencyFormat(tax, invoice.currency, invoice.locale)}</TableCell>
+                        <TableCell>{currencyFormat(item.qty * item.unitPrice, invoice.currency, invoice.locale)}</TableCell>
+                      </TableRow>
+                    );
+                  })}
                 </TableBody>
               </Table>
               
               {/* Totals */}
               <div className="mt-6 space-y-2 text-right">
+                {pricesIncludeTax && (
+                  <div className="text-sm text-gray-600 dark:text-gray-400 text-left">
+                    Prices include tax; the net and tax below are backed out of them.
+                  </div>
+                )}
                 <div className="flex justify-between">
-                  <span>Subtotal:</span>
+                  <span>{pricesIncludeTax ? "Net:" : "Subtotal:"}</span>
                   <span>{currencyFormat(invoice.subtotal, invoice.currency, invoice.locale)}</span>
                 </div>
                 <div className="flex justify-between">
-                  <span>Tax:</span>
+                  <span>{pricesIncludeTax ? "Tax included:" : "Tax:"}</span>
                   <span>{currencyFormat(invoice.taxTotal, invoice.currency, invoice.locale)}</span>
                 </div>
                 <div className="flex justify-between text-lg font-bold border-t pt-2">
@@ -8,7 +8,8 @@ import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, D
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
-import { FileText, Package, RefreshCw, Download, Plus, ExternalLink } from "lucide-react";
+import { FileText, Package, RefreshCw, Download, Plus, ExternalLink, ClipboardList } from "lucide-react";
+import { Link } from "wouter";
 import { useToast } from "@/hooks/use-toast";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -371,6 +372,12 @@ function PurchaseOrdersPage() {
                 </DialogContent>
               </Dialog>
 
+              <Link href="/reorder-runs">
+                <Button variant="outline" size="sm" className="shrink-0">
+                  <ClipboardList className="h-4 w-4" />
+                  <span className="hidden sm:inline ml-2">Reorder Run</span>
+                </Button>
+              </Link>
               <Button 
                 variant="outline" 
                 size="sm"
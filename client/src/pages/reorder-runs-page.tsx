@@ -0,0 +1,260 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link, useLocation, useParams } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowLeft, ClipboardList, Eye, Play, AlertTriangle } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatDistanceToNow } from "date-fns";
+import type { ReorderRunLine, ReorderRunSupplierGroup, ReorderRunSkippedSku } from "@shared/schema";
+
+interface ReorderRun {
+  id: string;
+  status: "PREVIEW" | "COMPLETED";
+  lines: ReorderRunLine[];
+  supplierGroups: ReorderRunSupplierGroup[];
+  skipped: ReorderRunSkippedSku[];
+  totals: {
+    skusEvaluated: number;
+    linesProposed: number;
+    purchaseOrders: number;
+  };
+  createdAt: string;
+}
+
+export default function ReorderRunsPage() {
+  const params = useParams<{ runId?: string }>();
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+
+  const { data: runs, isLoading } = useQuery<ReorderRun[]>({
+    queryKey: ["/api/reorder/runs"],
+  });
+
+  const { data: selectedRun } = useQuery<ReorderRun>({
+    queryKey: ["/api/reorder/runs", params.runId],
+    enabled: !!params.runId,
+  });
+
+  const runMutation = useMutation({
+    mutationFn: async (dryRun: boolean) => {
+      const response = await apiRequest("POST", "/api/reorder/runs", { dryRun });
+      return response.json() as Promise<ReorderRun>;
+    },
+    onSuccess: (run) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/reorder/runs"] });
+      setLocation(`/reorder-runs/${run.id}`);
+      toast({
+        title: run.status === "PREVIEW" ? "Preview Ready" : "Reorder Run Complete",
+        description: run.status === "PREVIEW"
+          ? `${run.totals.linesProposed} of ${run.totals.skusEvaluated} SKUs need reordering`
+          : `Created ${run.totals.purchaseOrders} draft purchase orders`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Reorder Run Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const formatCurrency = (amount: number, currency: string) => {
+    return new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency: currency || "USD",
+    }).format(amount);
+  };
+
+  return (
+    <div className="container mx-auto p-4 sm:p-6 lg:p-8 space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Reorder Runs</h1>
+          <p className="text-muted-foreground">
+            Plan every SKU with a reorder policy and consolidate suggestions into one draft PO per supplier
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => runMutation.mutate(true)} disabled={runMutation.isPending}>
+            <Eye className="mr-2 h-4 w-4" />
+            Preview
+          </Button>
+          <Button onClick={() => runMutation.mutate(false)} disabled={runMutation.isPending}>
+            <Play className="mr-2 h-4 w-4" />
+            {runMutation.isPending ? "Running..." : "Run Reorder"}
+          </Button>
+        </div>
+      </div>
+
+      {selectedRun && (
+        <div className="space-y-4">
+          <div className="flex items-center gap-3">
+            <Link href="/reorder-runs">
+              <Button variant="ghost" size="sm">
+                <ArrowLeft className="mr-2 h-4 w-4" />
+                All runs
+              </Button>
+            </Link>
+            <Badge variant={selectedRun.status === "COMPLETED" ? "default" : "secondary"}>
+              {selectedRun.status}
+            </Badge>
+            <span className="text-sm text-muted-foreground">
+              {new Date(selectedRun.createdAt).toLocaleString()}
+            </span>
+          </div>
+
+          {selectedRun.supplierGroups.map((group) => (
+            <Card key={group.supplierId}>
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <div>
+                    <CardTitle className="text-lg">{group.supplierName}</CardTitle>
+                    <CardDescription>
+                      {group.totalQty} units • {formatCurrency(group.subtotal, group.currency)}
+                      {group.minOrderQty ? ` • min ${group.minOrderQty} units` : ""}
+                      {group.minOrderValue ? ` • min ${formatCurrency(group.minOrderValue, group.currency)}` : ""}
+                    </CardDescription>
+                  </div>
+                  {group.purchaseOrderId ? (
+                    <Badge variant="secondary">Draft PO {group.purchaseOrderId.slice(0, 8)}</Badge>
+                  ) : (
+                    <Badge variant="outline">Not ordered</Badge>
+                  )}
+                </div>
+                {group.notes.length > 0 && (
+                  <div className="text-xs text-muted-foreground bg-muted p-2 rounded space-y-1">
+                    {group.notes.map((note, i) => (
+                      <div key={i}>{note}</div>
+                    ))}
+                  </div>
+                )}
+                {!group.minimumsMet && (
+                  <div className="flex items-center gap-2 text-sm text-destructive">
+                    <AlertTriangle className="h-4 w-4" />
+                    Supplier minimums not met
+                  </div>
+                )}
+              </CardHeader>
+              <CardContent className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>SKU</TableHead>
+                      <TableHead>Stock</TableHead>
+                      <TableHead>Daily Sales</TableHead>
+                      <TableHead>Cover</TableHead>
+                      <TableHead>Qty</TableHead>
+                      <TableHead>Total</TableHead>
+                      <TableHead>Why</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {selectedRun.lines
+                      .filter((line) => line.supplierId === group.supplierId)
+                      .map((line) => (
+                        <TableRow key={line.sku}>
+                          <TableCell className="font-medium">{line.sku}</TableCell>
+                          <TableCell>
+                            {line.onHand}
+                            {line.onOrder > 0 && <span className="text-muted-foreground"> +{line.onOrder}</span>}
+                          </TableCell>
+                          <TableCell>{line.dailySales}</TableCell>
+                          <TableCell>{line.daysCover}d</TableCell>
+                          <TableCell className="font-medium">{line.qty}</TableCell>
+                          <TableCell>{formatCurrency(line.lineTotal, group.currency)}</TableCell>
+                          <TableCell>
+                            <ul className="text-xs text-muted-foreground space-y-1">
+                              {line.reasons.map((reason, i) => (
+                                <li key={i}>{reason}</li>
+                              ))}
+                            </ul>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          ))}
+
+          {selectedRun.skipped.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Not Reordered</CardTitle>
+                <CardDescription>SKUs with a reorder policy that need no order this run</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableBody>
+                    {selectedRun.skipped.map((item) => (
+                      <TableRow key={item.sku}>
+                        <TableCell className="font-medium w-[120px]">{item.sku}</TableCell>
+                        <TableCell className="text-muted-foreground">{item.reason}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      )}
+
+      {!params.runId && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Previous Runs</CardTitle>
+            <CardDescription>Re-open a run to see why each quantity was proposed</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="h-24 bg-muted rounded animate-pulse"></div>
+            ) : !runs || runs.length === 0 ? (
+              <div className="text-center py-8">
+                <ClipboardList className="mx-auto h-12 w-12 text-muted-foreground" />
+                <p className="mt-2 text-muted-foreground">No reorder runs yet</p>
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Created</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>SKUs Evaluated</TableHead>
+                    <TableHead>Lines</TableHead>
+                    <TableHead>Draft POs</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {runs.map((run) => (
+                    <TableRow key={run.id}>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {formatDistanceToNow(new Date(run.createdAt), { addSuffix: true })}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={run.status === "COMPLETED" ? "default" : "secondary"}>{run.status}</Badge>
+                      </TableCell>
+                      <TableCell>{run.totals.skusEvaluated}</TableCell>
+                      <TableCell>{run.totals.linesProposed}</TableCell>
+                      <TableCell>{run.totals.purchaseOrders}</TableCell>
+                      <TableCell>
+                        <Link href={`/reorder-runs/${run.id}`}>
+                          <Button variant="ghost" size="sm">View</Button>
+                        </Link>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
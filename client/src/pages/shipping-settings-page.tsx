@@ -47,6 +47,8 @@ import {
   ExternalLink
 } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
+import { ShippingRulesManager } from "@/components/ShippingRulesManager";
+import { ShippingBoxesManager } from "@/components/ShippingBoxesManager";
 
 // Types from the backend
 interface ShippingProvider {
@@ -451,6 +453,12 @@ export default function ShippingSettingsPage() {
           </CardContent>
         </Card>
 
+        {/* Shipping Rules */}
+        <ShippingRulesManager connectors={typedConnectors} />
+
+        {/* Box Catalogue */}
+        <ShippingBoxesManager />
+
         {/* Available Providers */}
         <Card>
           <CardHeader>
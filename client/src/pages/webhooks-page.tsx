@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { Plus, Webhook, Play, Pause, TestTube, Globe, Settings, Trash2 } from 'lucide-react';
+import { Plus, Webhook, Play, Pause, TestTube, Globe, Settings, Trash2, History, RotateCcw } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -13,6 +13,7 @@ import { Switch } from '@/components/ui/switch';
 import { Textarea } from '@/components/ui/textarea';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 
 interface Webhook {
   id: string;
@@ -27,9 +28,35 @@ interface Webhook {
   lastAttemptAt?: string;
   lastSuccessAt?: string;
   failureCount: number;
+  disabledAt?: string;
+  disabledReason?: string;
   hasSecret: boolean;
 }
 
+interface DeliveryAttempt {
+  id: string;
+  deliveryId: string;
+  eventId: string;
+  eventType: string;
+  attemptNumber: number;
+  statusCode: number | null;
+  responseBody: string | null;
+  error: string | null;
+  durationMs: number;
+  success: boolean;
+  attemptedAt: string;
+}
+
+interface DeadLetter {
+  id: string;
+  eventType: string;
+  payload: { id: string };
+  attemptNumber: number;
+  statusCode: number | null;
+  error: string | null;
+  deadAt: string;
+}
+
 interface WebhookEvent {
   id: string;
   name: string;
@@ -48,7 +75,17 @@ const WEBHOOK_EVENTS: WebhookEvent[] = [
   { id: 'shipment.status_changed', name: 'Shipment Status Changed', description: 'Triggered when shipment status changes', category: 'shipments' },
   { id: 'invoice.created', name: 'Invoice Created', description: 'Triggered when a new invoice is created', category: 'invoices' },
   { id: 'invoice.paid', name: 'Invoice Paid', description: 'Triggered when an invoice is marked as paid', category: 'invoices' },
-  { id: 'invoice.status_changed', name: 'Invoice Status Changed', description: 'Triggered when invoice status changes', category: 'invoices' }
+  { id: 'invoice.status_changed', name: 'Invoice Status Changed', description: 'Triggered when invoice status changes', category: 'invoices' },
+  { id: 'purchase_order.created', name: 'Purchase Order Created', description: 'Triggered when a purchase order is drafted', category: 'purchase_orders' },
+  { id: 'purchase_order.sent', name: 'Purchase Order Sent', description: 'Triggered when a purchase order is sent to the supplier', category: 'purchase_orders' },
+  { id: 'purchase_order.received', name: 'Purchase Order Received', description: 'Triggered when goods are received against a purchase order', category: 'purchase_orders' },
+  { id: 'return.created', name: 'Return Created', description: 'Triggered when a customer return is requested', category: 'returns' },
+  { id: 'return.status_changed', name: 'Return Status Changed', description: 'Triggered when a return status changes', category: 'returns' },
+  { id: 'recon.batch_completed', name: 'Reconciliation Completed', description: 'Triggered when a payout reconciliation batch finishes', category: 'recon' },
+  { id: 'recon.mismatch_detected', name: 'Payout Mismatch Detected', description: 'Triggered when an order was paid more or less than expected', category: 'recon' },
+  { id: 'task.created', name: 'Task Created', description: 'Triggered when an Action Center task is created', category: 'tasks' },
+  { id: 'task.resolved', name: 'Task Resolved', description: 'Triggered when a task is marked done or dismissed', category: 'tasks' },
+  { id: 'supplier.sla_breached', name: 'Supplier SLA Breached', description: 'Triggered when a supplier delivery is late or defective', category: 'suppliers' }
 ];
 
 const EVENT_CATEGORIES = {
@@ -56,7 +93,12 @@ const EVENT_CATEGORIES = {
   inventory: 'Inventory',
   orders: 'Orders',
   shipments: 'Shipments',
-  invoices: 'Invoices'
+  invoices: 'Invoices',
+  purchase_orders: 'Purchase Orders',
+  returns: 'Returns',
+  recon: 'Reconciliation',
+  tasks: 'Tasks',
+  suppliers: 'Suppliers'
 };
 
 export default function WebhooksPage() {
@@ -74,6 +116,10 @@ export default function WebhooksPage() {
   });
   const [creating, setCreating] = useState(false);
   const [updating, setUpdating] = useState(false);
+  const [deliveriesWebhook, setDeliveriesWebhook] = useState<Webhook | null>(null);
+  const [attempts, setAttempts] = useState<DeliveryAttempt[]>([]);
+  const [deadLetters, setDeadLetters] = useState<DeadLetter[]>([]);
+  const [replaying, setReplaying] = useState(false);
   const { toast } = useToast();
 
   // Load webhooks on component mount
@@ -273,6 +319,68 @@ export default function WebhooksPage() {
     }
   };
 
+  const loadDeliveries = async (webhookId: string) => {
+    try {
+      const [attemptsResponse, deadLettersResponse] = await Promise.all([
+        fetch(`/mgmt/webhooks/${webhookId}/deliveries?limit=100`),
+        fetch(`/mgmt/webhooks/${webhookId}/dead-letters`)
+      ]);
+      if (attemptsResponse.ok) {
+        setAttempts((await attemptsResponse.json()).data || []);
+      }
+      if (deadLettersResponse.ok) {
+        setDeadLetters((await deadLettersResponse.json()).data || []);
+      }
+    } catch (error) {
+      console.error('Failed to load webhook deliveries:', error);
+    }
+  };
+
+  const openDeliveriesDialog = (webhook: Webhook) => {
+    setDeliveriesWebhook(webhook);
+    setAttempts([]);
+    setDeadLetters([]);
+    loadDeliveries(webhook.id);
+  };
+
+  const replay = async (path: string, body?: { deliveryIds: string[] }) => {
+    if (!deliveriesWebhook) return;
+
+    setReplaying(true);
+    try {
+      const response = await fetch(`/mgmt/webhooks/${deliveriesWebhook.id}/${path}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(body ?? {})
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        toast({
+          title: 'Replay Queued',
+          description: data.message,
+        });
+        await loadDeliveries(deliveriesWebhook.id);
+      } else {
+        toast({
+          title: 'Replay Failed',
+          description: data.error || 'Failed to replay delivery',
+          variant: 'destructive'
+        });
+      }
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to replay delivery',
+        variant: 'destructive'
+      });
+    } finally {
+      setReplaying(false);
+    }
+  };
+
   const handleEventToggle = (eventId: string) => {
     setFormData(prev => ({
       ...prev,
@@ -338,6 +446,7 @@ export default function WebhooksPage() {
   };
 
   const getStatusColor = (webhook: Webhook) => {
+    if (webhook.disabledAt) return 'destructive';
     if (!webhook.active) return 'secondary';
     if (webhook.failureCount > 0) return 'destructive';
     if (webhook.lastSuccessAt) return 'default';
@@ -345,6 +454,7 @@ export default function WebhooksPage() {
   };
 
   const getStatusText = (webhook: Webhook) => {
+    if (webhook.disabledAt) return 'Disabled';
     if (!webhook.active) return 'Paused';
     if (webhook.failureCount > 0) return `${webhook.failureCount} failures`;
     if (webhook.lastSuccessAt) return 'Healthy';
@@ -537,6 +647,14 @@ export default function WebhooksPage() {
                       >
                         <TestTube className="h-4 w-4" />
                       </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => openDeliveriesDialog(webhook)}
+                        data-testid={`button-deliveries-${webhook.id}`}
+                      >
+                        <History className="h-4 w-4" />
+                      </Button>
                       <Button
                         variant="ghost"
                         size="sm"
@@ -584,6 +702,13 @@ export default function WebhooksPage() {
                 
                 <CardContent>
                   <div className="space-y-3">
+                    {webhook.disabledAt && (
+                      <div className="text-sm text-destructive">
+                        Disabled {new Date(webhook.disabledAt).toLocaleString()}: {webhook.disabledReason}.
+                        Switch it back on, then replay its dead letters.
+                      </div>
+                    )}
+
                     <div>
                       <Label className="text-sm font-medium">Events ({webhook.events.length})</Label>
                       <div className="flex flex-wrap gap-1 mt-1">
@@ -622,6 +747,125 @@ export default function WebhooksPage() {
         </div>
       )}
 
+      {/* Deliveries Dialog */}
+      <Dialog open={!!deliveriesWebhook} onOpenChange={(open) => !open && setDeliveriesWebhook(null)}>
+        <DialogContent className="max-w-4xl max-h-[80vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Deliveries</DialogTitle>
+            <DialogDescription>
+              {deliveriesWebhook?.name || deliveriesWebhook?.url}
+            </DialogDescription>
+          </DialogHeader>
+
+          <Tabs defaultValue="history" className="w-full">
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="history">History</TabsTrigger>
+              <TabsTrigger value="dead-letters">Dead Letters ({deadLetters.length})</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="history">
+              {attempts.length === 0 ? (
+                <p className="text-sm text-muted-foreground py-6 text-center">No delivery attempts yet</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Time</TableHead>
+                      <TableHead>Event</TableHead>
+                      <TableHead>Attempt</TableHead>
+                      <TableHead>Response</TableHead>
+                      <TableHead>Latency</TableHead>
+                      <TableHead></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {attempts.map(attempt => (
+                      <TableRow key={attempt.id} data-testid={`row-attempt-${attempt.id}`}>
+                        <TableCell className="whitespace-nowrap">{new Date(attempt.attemptedAt).toLocaleString()}</TableCell>
+                        <TableCell><code className="text-xs">{attempt.eventType}</code></TableCell>
+                        <TableCell>{attempt.attemptNumber}</TableCell>
+                        <TableCell className="max-w-xs">
+                          <Badge variant={attempt.success ? 'default' : 'destructive'}>
+                            {attempt.statusCode ?? 'Error'}
+                          </Badge>
+                          <p className="text-xs text-muted-foreground truncate" title={attempt.error || attempt.responseBody || ''}>
+                            {attempt.error || attempt.responseBody}
+                          </p>
+                        </TableCell>
+                        <TableCell>{attempt.durationMs}ms</TableCell>
+                        <TableCell>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            disabled={replaying}
+                            onClick={() => replay(`deliveries/${attempt.deliveryId}/replay`)}
+                            data-testid={`button-replay-${attempt.id}`}
+                          >
+                            <RotateCcw className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </TabsContent>
+
+            <TabsContent value="dead-letters" className="space-y-4">
+              {deadLetters.length === 0 ? (
+                <p className="text-sm text-muted-foreground py-6 text-center">No dead letters</p>
+              ) : (
+                <>
+                  <div className="flex justify-end">
+                    <Button
+                      size="sm"
+                      disabled={replaying}
+                      onClick={() => replay('dead-letters/replay')}
+                      data-testid="button-replay-all"
+                    >
+                      <RotateCcw className="h-4 w-4 mr-2" />
+                      Replay All
+                    </Button>
+                  </div>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Failed</TableHead>
+                        <TableHead>Event</TableHead>
+                        <TableHead>Attempts</TableHead>
+                        <TableHead>Last Response</TableHead>
+                        <TableHead></TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {deadLetters.map(deadLetter => (
+                        <TableRow key={deadLetter.id} data-testid={`row-dead-letter-${deadLetter.id}`}>
+                          <TableCell className="whitespace-nowrap">{new Date(deadLetter.deadAt).toLocaleString()}</TableCell>
+                          <TableCell><code className="text-xs">{deadLetter.eventType}</code></TableCell>
+                          <TableCell>{deadLetter.attemptNumber}</TableCell>
+                          <TableCell className="max-w-xs truncate">{deadLetter.statusCode ?? deadLetter.error}</TableCell>
+                          <TableCell>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              disabled={replaying}
+                              onClick={() => replay(`deliveries/${deadLetter.id}/replay`)}
+                              data-testid={`button-replay-dead-letter-${deadLetter.id}`}
+                            >
+                              <RotateCcw className="h-4 w-4" />
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </>
+              )}
+            </TabsContent>
+          </Tabs>
+        </DialogContent>
+      </Dialog>
+
       {/* Edit Dialog */}
       <Dialog open={editDialogOpen} onOpenChange={setEditDialogOpen}>
         <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
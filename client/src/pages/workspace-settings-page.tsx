@@ -16,6 +16,7 @@ import { Trash2, Plus, Save, RotateCcw, TrendingUp } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { getForecastSettings, saveForecastSettings } from "@/utils/forecastStorage";
+import type { ForecastMethod } from "@shared/schema";
 
 // Form schemas
 const generalSettingsSchema = z.object({
@@ -46,7 +47,7 @@ const notificationSchema = z.object({
 });
 
 const forecastSettingsSchema = z.object({
-  defaultMethod: z.enum(["moving_avg", "ewma"]),
+  defaultMethod: z.enum(["moving_avg", "ewma", "holt_winters", "croston", "sba", "auto"]),
   defaultHorizon: z.enum(["30", "60", "90"]),
   minHistoryDays: z.number().min(7).max(365),
   defaultSafetyStock: z.number().min(0),
@@ -748,7 +749,7 @@ export default function WorkspaceSettingsPage() {
                           <Label htmlFor="defaultMethod">Default Forecasting Method</Label>
                           <Select 
                             value={forecastForm.watch("defaultMethod")}
-                            onValueChange={(value) => forecastForm.setValue("defaultMethod", value as "moving_avg" | "ewma")}
+                            onValueChange={(value) => forecastForm.setValue("defaultMethod", value as ForecastMethod)}
                           >
                             <SelectTrigger>
                               <SelectValue placeholder="Select method" />
@@ -756,6 +757,10 @@ export default function WorkspaceSettingsPage() {
                             <SelectContent>
                               <SelectItem value="moving_avg">Moving Average</SelectItem>
                               <SelectItem value="ewma">Exponential Weighted Moving Average</SelectItem>
+                              <SelectItem value="holt_winters">Holt-Winters (weekly seasonal)</SelectItem>
+                              <SelectItem value="croston">Croston (intermittent demand)</SelectItem>
+                              <SelectItem value="sba">Croston SBA (intermittent demand)</SelectItem>
+                              <SelectItem value="auto">Auto (best backtest per SKU)</SelectItem>
                             </SelectContent>
                           </Select>
                           <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
@@ -329,158 +329,6 @@ export function isForecastStale(forecast: ForecastData, customMaxAgeHours?: numb
   return ageHours >= maxAge;
 }
 
-// Enhanced forecast retrieval with auto-refresh and stats tracking
-export async function getOrRefreshForecast(
-  productId: string,
-  locationId: string | undefined,
-  horizon: ForecastHorizon,
-  method: ForecastMethod,
-  refreshCallback?: (productId: string, locationId: string | undefined, horizon: ForecastHorizon, method: ForecastMethod) => Promise<ForecastData>
-): Promise<ForecastData | null> {
-  const settings = getCacheRefreshSettings();
-  const cached = getForecastFromCache(productId, locationId, horizon, method);
-  
-  // Cache hit
-  if (cached && !isForecastStale(cached)) {
-    updateCacheStats({ 
-      hitCount: getCacheStats().hitCount + 1,
-      lastRefresh: new Date().toISOString()
-    });
-    return cached;
-  }
-  
-  // Cache miss or stale data
-  updateCacheStats({ 
-    missCount: getCacheStats().missCount + 1
-  });
-  
-  // If no refresh callback provided, return stale data or null
-  if (!refreshCallback) {
-    return cached;
-  }
-  
-  // Refresh forecast
-  try {
-    console.log(`Refreshing forecast for ${productId} (${locationId || 'all'}) - ${horizon}d ${method}`);
-    const fresh = await refreshCallback(productId, locationId, horizon, method);
-    addForecastToCache(fresh);
-    
-    updateCacheStats({ 
-      refreshCount: getCacheStats().refreshCount + 1,
-      lastRefresh: new Date().toISOString()
-    });
-    
-    return fresh;
-  } catch (error) {
-    console.error("Error refreshing forecast:", error);
-    // Return stale data if refresh fails
-    return cached;
-  }
-}
-
-// Background refresh for priority products
-export function refreshPriorityForecasts(
-  refreshCallback: (productId: string, locationId: string | undefined, horizon: ForecastHorizon, method: ForecastMethod) => Promise<ForecastData>
-): void {
-  const settings = getCacheRefreshSettings();
-  
-  if (!settings.enabled || !settings.backgroundRefresh) {
-    return;
-  }
-  
-  const cache = getForecastCache();
-  const priorities = settings.priorityProductIds;
-  
-  // Find stale forecasts for priority products
-  const staleForecasts = cache.filter(f => 
-    priorities.includes(f.productId) && isForecastStale(f)
-  );
-  
-  if (staleForecasts.length === 0) {
-    return;
-  }
-  
-  console.log(`Background refresh: ${staleForecasts.length} stale priority forecasts`);
-  
-  // Refresh in batches to avoid overwhelming the system
-  const batchSize = 3;
-  for (let i = 0; i < staleForecasts.length; i += batchSize) {
-    const batch = staleForecasts.slice(i, i + batchSize);
-    
-    setTimeout(async () => {
-      await Promise.all(
-        batch.map(f => 
-          getOrRefreshForecast(f.productId, f.locationId, f.horizon, f.method, refreshCallback)
-        )
-      );
-    }, i * 1000); // Stagger batches by 1 second
-  }
-}
-
-// Auto-refresh system initialization
-let refreshInterval: NodeJS.Timeout | null = null;
-
-export function startAutoRefresh(
-  refreshCallback: (productId: string, locationId: string | undefined, horizon: ForecastHorizon, method: ForecastMethod) => Promise<ForecastData>
-): void {
-  const settings = getCacheRefreshSettings();
-  
-  if (!settings.enabled) {
-    console.log("Auto-refresh disabled in settings");
-    return;
-  }
-  
-  // Clear existing interval
-  if (refreshInterval) {
-    clearInterval(refreshInterval);
-  }
-  
-  // Start new interval
-  refreshInterval = setInterval(() => {
-    // Clean up stale forecasts
-    removeStaleForecastsFromCache(settings.maxAgeHours * 2); // Keep twice the refresh age
-    
-    // Refresh priority products
-    refreshPriorityForecasts(refreshCallback);
-    
-    console.log("Auto-refresh cycle completed");
-  }, settings.refreshIntervalMinutes * 60 * 1000);
-  
-  console.log(`Auto-refresh started: every ${settings.refreshIntervalMinutes} minutes`);
-}
-
-export function stopAutoRefresh(): void {
-  if (refreshInterval) {
-    clearInterval(refreshInterval);
-    refreshInterval = null;
-    console.log("Auto-refresh stopped");
-  }
-}
-
-// Smart cache prewarming for commonly accessed forecasts
-export function prewarmCache(
-  products: string[], 
-  refreshCallback: (productId: string, locationId: string | undefined, horizon: ForecastHorizon, method: ForecastMethod) => Promise<ForecastData>
-): void {
-  const settings = getCacheRefreshSettings();
-  const commonConfigs = [
-    { horizon: "30" as ForecastHorizon, method: "moving_avg" as ForecastMethod },
-    { horizon: "60" as ForecastHorizon, method: "moving_avg" as ForecastMethod },
-  ];
-  
-  console.log(`Prewarming cache for ${products.length} products`);
-  
-  let delay = 0;
-  products.forEach(productId => {
-    commonConfigs.forEach(config => {
-      setTimeout(() => {
-        getOrRefreshForecast(productId, undefined, config.horizon, config.method, refreshCallback);
-      }, delay);
-      delay += 200; // Stagger requests by 200ms
-    });
-  });
-}
-
 // === Debug utilities ===
 
 export function getForecastStorageStats() {
@@ -12,6 +12,29 @@ import type {
   PlaceOfSupply,
   TaxBreakup
 } from "@shared/schema";
+import {
+  DEFAULT_FINANCE_SETTINGS,
+  calculateRegionTax as calculateTaxForRegion,
+  getEffectiveTaxRate as getEffectiveTaxRateForRegion,
+  changeTaxRuleRate,
+  changeStateRate,
+  regionRatesOn,
+  type TaxCalculation
+} from "@shared/taxation";
+import { buildEInvoice, buildGstr1, gstr1ToCsv, type EInvoicePayload, type GstContext, type Gstr1Return } from "@shared/gst";
+import {
+  buildVatReturn,
+  buildVatSummary,
+  filedVatReturnFor,
+  lockVatReturn,
+  type FiledVatReturn,
+  type MtdVatReturn,
+  type VatPeriod,
+  type VatPurchase,
+  type VatReturn,
+  type VatSummaryRow
+} from "@shared/vat";
+import { apiRequest } from "@/lib/queryClient";
 
 // Currency formatting utility
 export function currencyFormat(amount: number, currency: string, locale: string): string {
@@ -56,82 +79,7 @@ export function initializeFinanceSettings(): void {
   const existing = localStorage.getItem(key);
   
   if (!existing) {
-    const defaultSettings: FinanceSettings = {
-      baseCurrency: "USD",
-      displayLocale: "en-US",
-      businessState: "KA", // Default business state for India GST demo
-      regions: [
-        // UK (VAT)
-        {
-          id: "UK",
-          name: "United Kingdom",
-          currency: "GBP",
-          locale: "en-GB",
-          taxRules: [
-            { id: "uk_std", name: "VAT 20% (Standard)", rate: 0.20, category: "standard" },
-            { id: "uk_red", name: "VAT 5% (Reduced)", rate: 0.05, category: "reduced" },
-            { id: "uk_zero", name: "VAT 0% (Zero)", rate: 0, category: "zero" }
-          ]
-        },
-
-        // UAE (VAT)
-        {
-          id: "UAE",
-          name: "United Arab Emirates",
-          currency: "AED",
-          locale: "en-AE",
-          taxRules: [
-            { id: "ae_std", name: "VAT 5% (Standard)", rate: 0.05, category: "standard" },
-            { id: "ae_zero", name: "VAT 0% (Zero)", rate: 0, category: "zero" }
-          ]
-        },
-
-        // Singapore (GST)
-        {
-          id: "SG",
-          name: "Singapore",
-          currency: "SGD",
-          locale: "en-SG",
-          taxRules: [
-            { id: "sg_std", name: "GST 9% (Standard)", rate: 0.09, category: "standard" },
-            { id: "sg_zero", name: "GST 0% (Zero)", rate: 0, category: "zero" }
-          ]
-        },
-
-        // India (GST, simplified)
-        {
-          id: "IN",
-          name: "India",
-          currency: "INR",
-          locale: "en-IN",
-          taxRules: [
-            { id: "in_gst_18", name: "GST 18% (Std)", rate: 0.18, category: "standard" },
-            { id: "in_gst_12", name: "GST 12% (Reduced)", rate: 0.12, category: "reduced" },
-            { id: "in_gst_0", name: "GST 0% (Zero/Exempt)", rate: 0, category: "zero" }
-          ],
-          states: ["KA", "MH", "DL", "TN", "GJ", "UP", "WB", "RJ"]
-        },
-
-        // US (Sales Tax, simplified per-state)
-        {
-          id: "US",
-          name: "United States",
-          currency: "USD",
-          locale: "en-US",
-          taxRules: [
-            { id: "us_std", name: "Default Sales Tax", rate: 0.08, category: "state" }
-          ],
-          states: ["CA", "NY", "TX", "FL"],
-          stateRates: [
-            { code: "CA", rate: 0.085 },
-            { code: "NY", rate: 0.08875 },
-            { code: "TX", rate: 0.0825 },
-            { code: "FL", rate: 0.07 }
-          ]
-        }
-      ]
-    };
-    localStorage.setItem(key, JSON.stringify(defaultSettings));
+    localStorage.setItem(key, JSON.stringify(DEFAULT_FINANCE_SETTINGS));
   }
 }
 
@@ -243,10 +191,15 @@ export function getFinanceSettings(): FinanceSettings | null {
   return data ? JSON.parse(data) : null;
 }
 
-// Utility to save finance settings
+// Utility to save finance settings. The server keeps a copy so that orders and invoices it prices
+// (the public API, imports) are taxed the same way
 export function saveFinanceSettings(settings: FinanceSettings): void {
   const key = "flowventory:settings:finance";
   localStorage.setItem(key, JSON.stringify(settings));
+
+  apiRequest("PUT", "/api/settings/finance", settings).catch(error => {
+    console.error("Failed to save finance settings to the server:", error);
+  });
 }
 
 // Utility to get products
@@ -326,7 +279,10 @@ export function initializeCustomersForTax(): void {
         regionId: "IN", 
         country: "India",
         state: "KA",
-        gstinOrVatNo: "29ABCDE1234F1Z5"
+        gstinOrVatNo: "29ABCDE1234F1ZW",
+        address: "14 Residency Road",
+        city: "Bengaluru",
+        postalCode: "560025"
       },
       {
         id: "cust_in_mh_1",
@@ -335,7 +291,10 @@ export function initializeCustomersForTax(): void {
         regionId: "IN",
         country: "India", 
         state: "MH",
-        gstinOrVatNo: "27ABCDE1234F1Z5"
+        gstinOrVatNo: "27ABCDE1234F1Z0",
+        address: "Plot 7, MIDC Andheri East",
+        city: "Mumbai",
+        postalCode: "400093"
       },
       {
         id: "cust_us_ca_1",
@@ -383,66 +342,48 @@ export function addTaxRuleToRegion(regionId: string, taxRule: TaxRule): void {
   }
 }
 
-// Calculate effective tax rate for a product in a region
-export function getEffectiveTaxRate(productId: string, regionId: string, selectedTaxRuleId?: string): number {
-  const products = getTaxProducts();
+// Change a tax rule's rate (or a US state's, with stateCode) from a date. Documents dated before it
+// keep the old rate
+export function scheduleTaxRateChange(
+  regionId: string,
+  target: { ruleId: string; name?: string } | { stateCode: string },
+  rate: number,
+  effectiveFrom: string
+): void {
   const settings = getFinanceSettings();
-  
-  if (!settings) return 0;
-
-  const product = products.find(p => p.id === productId);
-  const region = settings.regions.find(r => r.id === regionId);
-  
-  if (!region) return 0;
-
-  // If product has tax override, use that
-  if (product?.taxOverride) {
-    return product.taxOverride.rate;
-  }
+  if (!settings) return;
 
-  // If a specific tax rule is selected, use that
-  if (selectedTaxRuleId) {
-    const taxRule = region.taxRules.find(rule => rule.id === selectedTaxRuleId);
-    if (taxRule) return taxRule.rate;
-  }
+  settings.regions = settings.regions.map(region => {
+    if (region.id !== regionId) return region;
+    return "stateCode" in target
+      ? changeStateRate(region, target.stateCode, effectiveFrom, rate)
+      : changeTaxRuleRate(region, target.ruleId, effectiveFrom, { rate, name: target.name });
+  });
+  saveFinanceSettings(settings);
+}
 
-  // Use product tax category to find matching rule
-  if (product?.taxCategory) {
-    const taxRule = region.taxRules.find(rule => rule.category === product.taxCategory);
-    if (taxRule) return taxRule.rate;
-  }
+// Calculate effective tax rate for a product in a region, on a date (today by default)
+export function getEffectiveTaxRate(productId: string, regionId: string, selectedTaxRuleId?: string, date?: string): number {
+  const settings = getFinanceSettings();
+  const region = settings?.regions.find(r => r.id === regionId);
+  if (!region) return 0;
 
-  // Default to standard rate in region
-  const standardRule = region.taxRules.find(rule => rule.category === "standard");
-  return standardRule?.rate || 0;
+  const product = getTaxProducts().find(p => p.id === productId);
+  return getEffectiveTaxRateForRegion(region, product, selectedTaxRuleId, date);
 }
 
-// Advanced tax calculation for different regions with place of supply
+// Advanced tax calculation for different regions with place of supply, at the rates in force on the
+// document's date (today by default)
 export function calculateRegionTax(
   regionId: string,
   customerState: string | undefined,
   businessState: string | undefined,
   lineItems: OrderItem[],
-  productTaxCategories: Record<string, string> = {}
-): { 
-  totals: OrderTotals; 
-  taxBreakup?: TaxBreakup;
-  lineItemTaxDetails: Array<{
-    productId: string;
-    taxRate: number;
-    taxAmount: number;
-    taxBreakup?: TaxBreakup;
-  }>;
-} {
+  productTaxCategories: Record<string, string> = {},
+  date?: string
+): TaxCalculation {
   const settings = getFinanceSettings();
-  if (!settings) {
-    return { 
-      totals: { sub: 0, tax: 0, grand: 0, currency: "USD" },
-      lineItemTaxDetails: []
-    };
-  }
-
-  const region = settings.regions.find(r => r.id === regionId);
+  const region = settings?.regions.find(r => r.id === regionId);
   if (!region) {
     return { 
       totals: { sub: 0, tax: 0, grand: 0, currency: "USD" },
@@ -450,90 +391,7 @@ export function calculateRegionTax(
     };
   }
 
-  let subtotal = 0;
-  let totalTax = 0;
-  let totalCGST = 0;
-  let totalSGST = 0; 
-  let totalIGST = 0;
-  const lineItemTaxDetails: Array<{
-    productId: string;
-    taxRate: number;
-    taxAmount: number;
-    taxBreakup?: TaxBreakup;
-  }> = [];
-
-  lineItems.forEach(item => {
-    const lineSubtotal = item.qty * item.unitPrice;
-    subtotal += lineSubtotal;
-
-    // Get tax rate for this line item
-    let taxRate = 0;
-    let lineTaxBreakup: TaxBreakup | undefined;
-
-    if (regionId === "IN" && businessState && customerState) {
-      // India GST logic
-      const productCategory = productTaxCategories[item.productId] || "standard";
-      const gstRule = region.taxRules.find(rule => rule.category === productCategory);
-      
-      if (gstRule) {
-        taxRate = gstRule.rate;
-        
-        if (businessState === customerState) {
-          // Same state: CGST + SGST
-          const cgstRate = taxRate / 2;
-          const sgstRate = taxRate / 2;
-          const cgstAmount = lineSubtotal * cgstRate;
-          const sgstAmount = lineSubtotal * sgstRate;
-          
-          totalCGST += cgstAmount;
-          totalSGST += sgstAmount;
-          lineTaxBreakup = { cgst: cgstAmount, sgst: sgstAmount };
-        } else {
-          // Different state: IGST
-          const igstAmount = lineSubtotal * taxRate;
-          totalIGST += igstAmount;
-          lineTaxBreakup = { igst: igstAmount };
-        }
-      }
-    } else if (regionId === "US" && customerState && region.stateRates) {
-      // US state-specific tax
-      const stateRate = region.stateRates.find(sr => sr.code === customerState);
-      taxRate = stateRate ? stateRate.rate : (region.taxRules[0]?.rate || 0);
-    } else {
-      // Standard regional tax (UK, UAE, SG)
-      const productCategory = productTaxCategories[item.productId] || "standard";
-      const taxRule = region.taxRules.find(rule => rule.category === productCategory);
-      taxRate = taxRule?.rate || 0;
-    }
-
-    const lineTax = lineSubtotal * taxRate;
-    totalTax += lineTax;
-
-    lineItemTaxDetails.push({
-      productId: item.productId,
-      taxRate,
-      taxAmount: lineTax,
-      taxBreakup: lineTaxBreakup
-    });
-  });
-
-  const totals: OrderTotals = {
-    sub: subtotal,
-    tax: totalTax,
-    grand: subtotal + totalTax,
-    currency: region.currency
-  };
-
-  let taxBreakup: TaxBreakup | undefined;
-  if (regionId === "IN" && (totalCGST > 0 || totalSGST > 0 || totalIGST > 0)) {
-    taxBreakup = {
-      cgst: totalCGST > 0 ? totalCGST : undefined,
-      sgst: totalSGST > 0 ? totalSGST : undefined,
-      igst: totalIGST > 0 ? totalIGST : undefined
-    };
-  }
-
-  return { totals, taxBreakup, lineItemTaxDetails };
+  return calculateTaxForRegion(region, { date, customerState, businessState, lineItems, productTaxCategories });
 }
 
 // Generate compliance report data
@@ -546,6 +404,7 @@ export interface ComplianceReportRow {
   tax: number;
   grand: number;
   taxRule: string;
+  taxRate?: number; // The rule's rate on the document's date
   currency: string;
 }
 
@@ -573,10 +432,15 @@ export function generateComplianceReport(
     })
     .map(item => {
       const region = settings.regions.find(r => r.id === item.regionId);
-      const taxRule = region?.taxRules.find(rule => rule.id === item.taxRuleId);
+      // Rates in force when the document was raised, not today's
+      const ratesThen = region && regionRatesOn(region, item.createdAt);
+      const taxRule = ratesThen?.taxRules.find(rule => rule.id === item.taxRuleId);
       
-      // Handle cases where totals might be undefined
-      const totals = item.totals || { sub: 0, tax: 0, grand: 0, currency: 'USD' };
+      // Documents saved without totals are priced at the rates in force on their date
+      const customerState = docType === "Invoices" ? (item as TaxInvoice).placeOfSupply?.state : undefined;
+      const totals = item.totals
+        || (region && calculateTaxForRegion(region, { date: item.createdAt, customerState, businessState: settings.businessState, lineItems: item.items }).totals)
+        || { sub: 0, tax: 0, grand: 0, currency: 'USD' };
       
       return {
         docNo: item.number,
@@ -587,14 +451,136 @@ export function generateComplianceReport(
         tax: totals.tax,
         grand: totals.grand,
         taxRule: taxRule?.name || "Unknown",
+        taxRate: taxRule?.rate,
         currency: totals.currency
       };
     });
 }
 
+function downloadFile(content: string, type: string, filename: string): void {
+  const blob = new Blob([content], { type });
+  const link = document.createElement("a");
+  const url = URL.createObjectURL(blob);
+  link.setAttribute("href", url);
+  link.setAttribute("download", filename);
+  link.style.visibility = 'hidden';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+}
+
+function gstContext(): GstContext | null {
+  const settings = getFinanceSettings();
+  if (!settings) return null;
+  return { settings, customers: getTaxCustomers(), products: getTaxProducts() };
+}
+
+// GSTR-1 for a month (YYYY-MM) of India invoices, with the invoices left out of it and why
+export function generateGstr1(period: string): ReturnType<typeof buildGstr1> | null {
+  const context = gstContext();
+  return context && buildGstr1(getTaxInvoices(), period, context);
+}
+
+export function exportGstr1JSON(gstr1: Gstr1Return): void {
+  downloadFile(JSON.stringify(gstr1, null, 2), "application/json", `GSTR1_${gstr1.gstin || "unregistered"}_${gstr1.fp}.json`);
+}
+
+// One file per section, as the offline tool's CSV templates are laid out
+export function exportGstr1CSV(gstr1: Gstr1Return): void {
+  const sections = gstr1ToCsv(gstr1, getTaxCustomers());
+  (Object.keys(sections) as (keyof typeof sections)[]).forEach(section => {
+    downloadFile(sections[section], "text/csv;charset=utf-8;", `GSTR1_${gstr1.fp}_${section}.csv`);
+  });
+}
+
+export interface EInvoiceResult {
+  invoiceNumber: string;
+  payload?: EInvoicePayload;
+  errors: string[];
+}
+
+// E-invoices for a month's (YYYY-MM) B2B India invoices, each with what the IRP would reject it for
+export function generateEInvoices(period: string): EInvoiceResult[] {
+  const context = gstContext();
+  if (!context) return [];
+
+  const gstins = new Set(context.customers.filter(c => c.gstinOrVatNo).map(c => c.id));
+  return getTaxInvoices()
+    .filter(invoice => invoice.regionId === "IN" && invoice.customerId && gstins.has(invoice.customerId))
+    .filter(invoice => invoice.createdAt.slice(0, 7) === period)
+    .map(invoice => ({ invoiceNumber: invoice.number, ...buildEInvoice(invoice, context) }));
+}
+
+// Only payloads that pass validation are exported; the IRP bulk tool takes them as one array
+export function exportEInvoicesJSON(results: EInvoiceResult[], period: string): void {
+  const payloads = results.filter(result => result.payload && result.errors.length === 0).map(result => result.payload);
+  downloadFile(JSON.stringify(payloads, null, 2), "application/json", `e-invoices-${period}.json`);
+}
+
+// Supplier bills, and POs not billed yet, dated in a period (YYYY-MM-DD, inclusive)
+export async function fetchVatPurchases(from: string, to: string): Promise<VatPurchase[]> {
+  const res = await apiRequest("GET", `/api/vat/purchases?${new URLSearchParams({ from, to })}`);
+  return res.json();
+}
+
+// Invoices raised from orders share the invoice store, with an issue date and flat totals
+interface OrderInvoice extends Omit<TaxInvoice, "createdAt" | "items" | "totals"> {
+  issueDate: string;
+  lineItems: OrderItem[];
+  currency: string;
+  subtotal: number;
+  taxTotal: number;
+  grandTotal: number;
+}
+
+// Every stored invoice, with those raised from orders read as tax invoices
+function vatInvoices(): TaxInvoice[] {
+  return (getTaxInvoices() as (TaxInvoice | OrderInvoice)[])
+    .map((invoice): TaxInvoice => "totals" in invoice ? invoice : {
+      ...invoice,
+      createdAt: invoice.issueDate,
+      items: invoice.lineItems,
+      totals: { sub: invoice.subtotal, tax: invoice.taxTotal, grand: invoice.grandTotal, currency: invoice.currency },
+    })
+    .filter(invoice => invoice.createdAt);
+}
+
+export function generateVatReturn(period: VatPeriod, purchases: VatPurchase[]): VatReturn {
+  return buildVatReturn(vatInvoices(), purchases, period);
+}
+
+export function generateVatSummary(start: string, end: string, purchases: VatPurchase[]): VatSummaryRow[] {
+  const settings = getFinanceSettings();
+  return settings ? buildVatSummary(settings, vatInvoices(), purchases, start, end) : [];
+}
+
+export function getFiledVatReturns(): FiledVatReturn[] {
+  const key = "flowventory:vatReturns";
+  const data = localStorage.getItem(key);
+  return data ? JSON.parse(data) : [];
+}
+
+// Lock a return's period once it has been filed. Throws if the period overlaps one already filed
+export function fileVatReturn(vatReturn: VatReturn): FiledVatReturn {
+  const filed = getFiledVatReturns();
+  const filedReturn = lockVatReturn(vatReturn, filed);
+  localStorage.setItem("flowventory:vatReturns", JSON.stringify([...filed, filedReturn]));
+  return filedReturn;
+}
+
+// The filed UK VAT return whose locked period a document dated on this day falls in
+export function getFiledVatReturnFor(date: string | Date): FiledVatReturn | undefined {
+  return filedVatReturnFor(getFiledVatReturns(), date);
+}
+
+// The MTD submission body, as HMRC's VAT API takes it
+export function exportVatReturnJSON(submission: MtdVatReturn): void {
+  downloadFile(JSON.stringify(submission, null, 2), "application/json", `vat-return-${submission.periodKey}.json`);
+}
+
 // Export compliance report as CSV
 export function exportComplianceReportCSV(data: ComplianceReportRow[]): void {
-  const headers = ["Doc No", "Date", "Customer/Supplier", "Region", "Subtotal", "Tax", "Grand Total", "Tax Rule", "Currency"];
+  const headers = ["Doc No", "Date", "Customer/Supplier", "Region", "Subtotal", "Tax", "Grand Total", "Tax Rule", "Tax Rate", "Currency"];
   const csvContent = [
     headers.join(","),
     ...data.map(row => [
@@ -606,19 +592,12 @@ export function exportComplianceReportCSV(data: ComplianceReportRow[]): void {
       row.tax.toFixed(2),
       row.grand.toFixed(2),
       `"${row.taxRule}"`,
+      row.taxRate !== undefined ? `${(row.taxRate * 100).toFixed(2)}%` : "",
       row.currency
     ].join(","))
   ].join("\n");
 
-  const blob = new Blob([csvContent], { type: "text/csv;charset=utf-8;" });
-  const link = document.createElement("a");
-  const url = URL.createObjectURL(blob);
-  link.setAttribute("href", url);
-  link.setAttribute("download", `compliance-report-${new Date().toISOString().split('T')[0]}.csv`);
-  link.style.visibility = 'hidden';
-  document.body.appendChild(link);
-  link.click();
-  document.body.removeChild(link);
+  downloadFile(csvContent, "text/csv;charset=utf-8;", `compliance-report-${new Date().toISOString().split('T')[0]}.csv`);
 }
 
 // Initialize all taxation data
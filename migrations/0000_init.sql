@@ -0,0 +1,574 @@
+CREATE TABLE "activities" (
+	"id" text PRIMARY KEY NOT NULL,
+	"task_id" text NOT NULL,
+	"type" text NOT NULL,
+	"meta" jsonb,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "comments" (
+	"id" text PRIMARY KEY NOT NULL,
+	"task_id" text NOT NULL,
+	"author_id" text NOT NULL,
+	"message" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "customers" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"email" text,
+	"phone" text,
+	"address" text,
+	"company" text,
+	"workspace_id" varchar NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "escalation_policies" (
+	"id" text PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"enabled" boolean DEFAULT true NOT NULL,
+	"trigger" text NOT NULL,
+	"threshold_hours" real NOT NULL,
+	"task_type" text,
+	"priority" text,
+	"raise_priority" boolean DEFAULT true NOT NULL,
+	"reassign_to" text,
+	"max_escalations" integer DEFAULT 2 NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "events" (
+	"id" text PRIMARY KEY NOT NULL,
+	"type" text NOT NULL,
+	"sku" text,
+	"channel" text,
+	"payload" jsonb NOT NULL,
+	"severity" text NOT NULL,
+	"occurred_at" timestamp DEFAULT now(),
+	"status" text DEFAULT 'OPEN'
+);
+--> statement-breakpoint
+CREATE TABLE "forecasts" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"workspace_id" varchar NOT NULL,
+	"product_id" text NOT NULL,
+	"location_id" varchar,
+	"horizon" text NOT NULL,
+	"method" text NOT NULL,
+	"result" jsonb NOT NULL,
+	"computed_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "fx_rate_snapshots" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"date" text NOT NULL,
+	"source_date" text NOT NULL,
+	"base" text DEFAULT 'USD' NOT NULL,
+	"rates" jsonb NOT NULL,
+	"provider" text NOT NULL,
+	"fetched_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "fx_rate_snapshots_date_unique" UNIQUE("date")
+);
+--> statement-breakpoint
+CREATE TABLE "goods_receipts" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"workspace_id" varchar NOT NULL,
+	"purchase_order_id" varchar NOT NULL,
+	"grn_number" text NOT NULL,
+	"location_id" varchar NOT NULL,
+	"lines" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"has_variance" boolean DEFAULT false NOT NULL,
+	"closed_short" boolean DEFAULT false NOT NULL,
+	"supplier_delivery_id" varchar,
+	"notes" text,
+	"received_by" varchar,
+	"received_at" timestamp DEFAULT now() NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "inventory_levels" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"workspace_id" varchar NOT NULL,
+	"product_id" text NOT NULL,
+	"location_id" varchar NOT NULL,
+	"on_hand" integer DEFAULT 0 NOT NULL,
+	"on_order" integer DEFAULT 0 NOT NULL,
+	"reorder_point" integer DEFAULT 0 NOT NULL,
+	"safety_stock" integer DEFAULT 0 NOT NULL,
+	"reorder_qty" integer DEFAULT 0 NOT NULL,
+	"cost" real,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "inventory_levels_workspace_product_location" UNIQUE("workspace_id","product_id","location_id")
+);
+--> statement-breakpoint
+CREATE TABLE "stock_moves" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"workspace_id" varchar NOT NULL,
+	"type" text NOT NULL,
+	"product_id" text NOT NULL,
+	"from_location_id" varchar,
+	"to_location_id" varchar,
+	"qty" integer NOT NULL,
+	"ref_type" text,
+	"ref_id" varchar,
+	"note" text,
+	"user_id" varchar,
+	"cost" real,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "notification_settings" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" varchar NOT NULL,
+	"smtp_host" text,
+	"smtp_port" integer,
+	"smtp_username" text,
+	"smtp_password" text,
+	"smtp_from_email" text,
+	"daily_digest_enabled" text DEFAULT 'true' NOT NULL,
+	"digest_time" text DEFAULT '09:00' NOT NULL,
+	"alerts_enabled" text DEFAULT 'true' NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "notifications" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" varchar NOT NULL,
+	"user_id" varchar,
+	"type" text NOT NULL,
+	"title" text NOT NULL,
+	"message" text NOT NULL,
+	"icon" text NOT NULL,
+	"priority" text DEFAULT 'medium' NOT NULL,
+	"is_read" text DEFAULT 'false' NOT NULL,
+	"read_by" jsonb DEFAULT '{}'::jsonb,
+	"metadata" jsonb DEFAULT '{}'::jsonb,
+	"created_at" timestamp DEFAULT now(),
+	"expires_at" timestamp
+);
+--> statement-breakpoint
+CREATE TABLE "onboarding_data" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"company_name" text NOT NULL,
+	"industry" text NOT NULL,
+	"monthly_orders" text NOT NULL,
+	"products_live" text NOT NULL,
+	"business_location" text NOT NULL,
+	"sales_channels" text[] NOT NULL,
+	"manage_own_warehouse" text NOT NULL,
+	"average_stock_per_sku" text NOT NULL,
+	"reorder_frequency" text NOT NULL,
+	"reorder_method" text NOT NULL,
+	"ai_assistance" text[] NOT NULL,
+	"notification_methods" text[] NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "organizations" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"created_by" text NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "purchase_orders" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"workspace_id" varchar NOT NULL,
+	"supplier_id" varchar NOT NULL,
+	"supplier_name" text NOT NULL,
+	"supplier_email" text,
+	"currency" text NOT NULL,
+	"status" text DEFAULT 'DRAFT' NOT NULL,
+	"items" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"totals" jsonb DEFAULT '{"subtotal":0,"tax":0,"grandTotal":0}'::jsonb NOT NULL,
+	"notes" text,
+	"linked_task_id" varchar,
+	"sent_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "recon_batches" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"workspace_id" varchar NOT NULL,
+	"source" text NOT NULL,
+	"region" text NOT NULL,
+	"period_from" timestamp,
+	"period_to" timestamp,
+	"input_currencies" text[] NOT NULL,
+	"base_currency" text NOT NULL,
+	"expected_base_total" integer DEFAULT 0 NOT NULL,
+	"paid_base_total" integer DEFAULT 0 NOT NULL,
+	"diff_base_total" integer DEFAULT 0 NOT NULL,
+	"orders_total" integer DEFAULT 0 NOT NULL,
+	"mismatched_count" integer DEFAULT 0 NOT NULL,
+	"fx_snapshots" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"notes" text,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "recon_rows" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"batch_id" varchar NOT NULL,
+	"order_id" text NOT NULL,
+	"currency" text NOT NULL,
+	"gross" integer NOT NULL,
+	"fees" integer NOT NULL,
+	"tax" integer NOT NULL,
+	"expected_net" integer NOT NULL,
+	"paid" integer NOT NULL,
+	"diff" integer NOT NULL,
+	"expected_net_base" integer NOT NULL,
+	"paid_base" integer NOT NULL,
+	"diff_base" integer NOT NULL,
+	"order_date" timestamp,
+	"fx_rate_date" text,
+	"status" text DEFAULT 'PENDING' NOT NULL,
+	"task_id" varchar,
+	"event_id" varchar,
+	"notes" text,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "regions" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" varchar NOT NULL,
+	"name" text NOT NULL,
+	"currency" text,
+	"timezone" text,
+	"sla_days" integer DEFAULT 7 NOT NULL,
+	"restock_buffer_pct" integer DEFAULT 20 NOT NULL,
+	"is_active" text DEFAULT 'true' NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "reorder_policies" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"workspace_id" varchar NOT NULL,
+	"sku" text NOT NULL,
+	"target_days_cover" integer DEFAULT 14 NOT NULL,
+	"safety_days" integer DEFAULT 3 NOT NULL,
+	"max_days_cover" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "reorder_runs" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"workspace_id" varchar NOT NULL,
+	"status" text DEFAULT 'COMPLETED' NOT NULL,
+	"lines" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"supplier_groups" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"skipped" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"totals" jsonb DEFAULT '{"skusEvaluated":0,"linesProposed":0,"purchaseOrders":0}'::jsonb NOT NULL,
+	"created_by" varchar,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "returns" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"rma_id" text NOT NULL,
+	"organization_id" varchar NOT NULL,
+	"customer_id" varchar,
+	"customer_name" text NOT NULL,
+	"customer_email" text NOT NULL,
+	"order_reference" text NOT NULL,
+	"items" jsonb NOT NULL,
+	"reason" text NOT NULL,
+	"reason_description" text,
+	"status" text DEFAULT 'requested' NOT NULL,
+	"total_value" integer NOT NULL,
+	"currency" text DEFAULT 'USD' NOT NULL,
+	"resolution" text DEFAULT 'none',
+	"inspection_notes" text,
+	"inspection_photos" text[],
+	"created_by" varchar,
+	"assigned_to" varchar,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "returns_rma_id_unique" UNIQUE("rma_id")
+);
+--> statement-breakpoint
+CREATE TABLE "returns_settings" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" varchar NOT NULL,
+	"return_window_days" integer DEFAULT 30 NOT NULL,
+	"allow_exchanges" text DEFAULT 'true' NOT NULL,
+	"auto_approve_threshold" integer DEFAULT 0,
+	"currency" text DEFAULT 'USD' NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "returns_settings_organization_id_unique" UNIQUE("organization_id")
+);
+--> statement-breakpoint
+CREATE TABLE "rules" (
+	"id" text PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"position" integer DEFAULT 0 NOT NULL,
+	"enabled" boolean DEFAULT true NOT NULL,
+	"stop_processing" boolean DEFAULT true NOT NULL,
+	"conditions" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"actions" jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "sales_orders" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"order_number" text NOT NULL,
+	"customer_id" varchar NOT NULL,
+	"customer_name" text NOT NULL,
+	"customer_email" text,
+	"workspace_id" varchar NOT NULL,
+	"location_id" varchar,
+	"currency" text DEFAULT 'USD' NOT NULL,
+	"status" text DEFAULT 'PENDING' NOT NULL,
+	"items" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"subtotal" integer DEFAULT 0 NOT NULL,
+	"tax" integer DEFAULT 0 NOT NULL,
+	"shipping" integer DEFAULT 0 NOT NULL,
+	"total" integer DEFAULT 0 NOT NULL,
+	"shipping_address" text,
+	"notes" text,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "sales_orders_order_number_unique" UNIQUE("order_number")
+);
+--> statement-breakpoint
+CREATE TABLE "shipments" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" varchar NOT NULL,
+	"connector_id" varchar,
+	"sales_order_id" varchar,
+	"provider" text NOT NULL,
+	"provider_shipment_id" text,
+	"tracking_number" text,
+	"tracking_url" text,
+	"label_url" text,
+	"service" text NOT NULL,
+	"service_code" text,
+	"currency" text NOT NULL,
+	"cost" integer DEFAULT 0 NOT NULL,
+	"estimated_days" integer,
+	"ship_from" jsonb NOT NULL,
+	"ship_to" jsonb NOT NULL,
+	"parcels" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"status" text DEFAULT 'created' NOT NULL,
+	"tracking_events" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"metadata" jsonb DEFAULT '{}'::jsonb,
+	"notes" text,
+	"last_webhook_at" timestamp,
+	"last_sync_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "shipping_connectors" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" varchar NOT NULL,
+	"provider" text NOT NULL,
+	"name" text NOT NULL,
+	"status" text DEFAULT 'inactive' NOT NULL,
+	"encrypted_credentials" jsonb,
+	"config" jsonb DEFAULT '{}'::jsonb,
+	"last_test_at" timestamp,
+	"last_test_status" text,
+	"last_test_error" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "shipping_rates" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" varchar NOT NULL,
+	"connector_id" varchar NOT NULL,
+	"ship_from_hash" text NOT NULL,
+	"ship_to_hash" text NOT NULL,
+	"parcels_hash" text NOT NULL,
+	"rates" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "simple_purchase_orders" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"date" timestamp DEFAULT now() NOT NULL,
+	"sku" text NOT NULL,
+	"qty" integer NOT NULL,
+	"supplier_name" text NOT NULL,
+	"status" text DEFAULT 'DRAFT' NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "supplier_bills" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"workspace_id" varchar NOT NULL,
+	"purchase_order_id" varchar NOT NULL,
+	"supplier_id" varchar NOT NULL,
+	"bill_number" text NOT NULL,
+	"bill_date" timestamp DEFAULT now() NOT NULL,
+	"due_date" timestamp,
+	"currency" text NOT NULL,
+	"lines" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"totals" jsonb DEFAULT '{"subtotal":0,"tax":0,"grandTotal":0}'::jsonb NOT NULL,
+	"match_status" text DEFAULT 'PENDING' NOT NULL,
+	"match_result" jsonb,
+	"event_id" text,
+	"task_id" text,
+	"notes" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "supplier_deliveries" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"supplier_id" varchar NOT NULL,
+	"purchase_order_id" varchar,
+	"expected_date" timestamp NOT NULL,
+	"actual_date" timestamp,
+	"status" text DEFAULT 'PENDING' NOT NULL,
+	"lead_time_days" integer NOT NULL,
+	"actual_lead_time_days" integer,
+	"is_defective" boolean DEFAULT false,
+	"defect_notes" text,
+	"breach_type" text DEFAULT 'NONE',
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "suppliers" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"workspace_id" varchar NOT NULL,
+	"name" text NOT NULL,
+	"email" text,
+	"phone" text,
+	"region" text DEFAULT 'US' NOT NULL,
+	"currency" text DEFAULT 'USD' NOT NULL,
+	"lead_time_days" integer DEFAULT 7 NOT NULL,
+	"payment_terms" text DEFAULT 'Net 30' NOT NULL,
+	"address" text,
+	"status" text DEFAULT 'active' NOT NULL,
+	"skus" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"min_order_qty" integer,
+	"min_order_value" real,
+	"notes" text,
+	"on_time_rate_pct" real DEFAULT 100,
+	"defect_rate_pct" real DEFAULT 0,
+	"avg_lead_time_days" real DEFAULT 7,
+	"on_time_target_pct" real DEFAULT 95,
+	"defect_target_pct" real DEFAULT 2,
+	"total_deliveries" integer DEFAULT 0,
+	"breach_count" integer DEFAULT 0,
+	"last_breach_date" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "tasks" (
+	"id" text PRIMARY KEY NOT NULL,
+	"title" text NOT NULL,
+	"source_event_id" text,
+	"type" text NOT NULL,
+	"assignee_id" text,
+	"priority" text NOT NULL,
+	"due_at" timestamp,
+	"status" text DEFAULT 'OPEN',
+	"notes" text,
+	"watcher_ids" jsonb DEFAULT '[]'::jsonb,
+	"escalation_level" integer DEFAULT 0 NOT NULL,
+	"last_escalated_at" timestamp,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "tasks_source_event_id_unique" UNIQUE("source_event_id")
+);
+--> statement-breakpoint
+CREATE TABLE "team_invitations" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"email" text NOT NULL,
+	"role" text NOT NULL,
+	"organization_id" varchar NOT NULL,
+	"invited_by" text NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "users" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"username" text NOT NULL,
+	"password" text NOT NULL,
+	"full_name" text NOT NULL,
+	"email" text NOT NULL,
+	"company_name" text NOT NULL,
+	"role" text DEFAULT 'viewer' NOT NULL,
+	"organization_id" varchar,
+	"onboarding_complete" text DEFAULT 'false',
+	"platform_connections" jsonb DEFAULT '{}'::jsonb,
+	"base_currency" text DEFAULT 'INR',
+	"invited_by" text,
+	"joined_at" timestamp DEFAULT now(),
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "users_username_unique" UNIQUE("username"),
+	CONSTRAINT "users_email_unique" UNIQUE("email")
+);
+--> statement-breakpoint
+CREATE TABLE "workspace_settings" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" varchar NOT NULL,
+	"org_name" text DEFAULT 'My Organization' NOT NULL,
+	"logo_url" text,
+	"default_currency" text DEFAULT 'USD' NOT NULL,
+	"default_timezone" text DEFAULT 'UTC' NOT NULL,
+	"date_format" text DEFAULT 'MM/DD/YYYY' NOT NULL,
+	"number_format" text DEFAULT 'US' NOT NULL,
+	"bill_qty_tolerance_pct" real DEFAULT 0 NOT NULL,
+	"bill_price_tolerance_pct" real DEFAULT 2 NOT NULL,
+	"bill_amount_tolerance" real DEFAULT 1 NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "activities" ADD CONSTRAINT "activities_task_id_tasks_id_fk" FOREIGN KEY ("task_id") REFERENCES "public"."tasks"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "comments" ADD CONSTRAINT "comments_task_id_tasks_id_fk" FOREIGN KEY ("task_id") REFERENCES "public"."tasks"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "comments" ADD CONSTRAINT "comments_author_id_users_id_fk" FOREIGN KEY ("author_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "escalation_policies" ADD CONSTRAINT "escalation_policies_reassign_to_users_id_fk" FOREIGN KEY ("reassign_to") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "goods_receipts" ADD CONSTRAINT "goods_receipts_purchase_order_id_purchase_orders_id_fk" FOREIGN KEY ("purchase_order_id") REFERENCES "public"."purchase_orders"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "notification_settings" ADD CONSTRAINT "notification_settings_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "notifications" ADD CONSTRAINT "notifications_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "notifications" ADD CONSTRAINT "notifications_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "onboarding_data" ADD CONSTRAINT "onboarding_data_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "purchase_orders" ADD CONSTRAINT "purchase_orders_linked_task_id_tasks_id_fk" FOREIGN KEY ("linked_task_id") REFERENCES "public"."tasks"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "recon_rows" ADD CONSTRAINT "recon_rows_batch_id_recon_batches_id_fk" FOREIGN KEY ("batch_id") REFERENCES "public"."recon_batches"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "recon_rows" ADD CONSTRAINT "recon_rows_task_id_tasks_id_fk" FOREIGN KEY ("task_id") REFERENCES "public"."tasks"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "recon_rows" ADD CONSTRAINT "recon_rows_event_id_events_id_fk" FOREIGN KEY ("event_id") REFERENCES "public"."events"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "regions" ADD CONSTRAINT "regions_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "returns" ADD CONSTRAINT "returns_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "returns" ADD CONSTRAINT "returns_customer_id_customers_id_fk" FOREIGN KEY ("customer_id") REFERENCES "public"."customers"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "returns" ADD CONSTRAINT "returns_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "returns" ADD CONSTRAINT "returns_assigned_to_users_id_fk" FOREIGN KEY ("assigned_to") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "returns_settings" ADD CONSTRAINT "returns_settings_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "sales_orders" ADD CONSTRAINT "sales_orders_customer_id_customers_id_fk" FOREIGN KEY ("customer_id") REFERENCES "public"."customers"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "shipments" ADD CONSTRAINT "shipments_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "shipments" ADD CONSTRAINT "shipments_connector_id_shipping_connectors_id_fk" FOREIGN KEY ("connector_id") REFERENCES "public"."shipping_connectors"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "shipments" ADD CONSTRAINT "shipments_sales_order_id_sales_orders_id_fk" FOREIGN KEY ("sales_order_id") REFERENCES "public"."sales_orders"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "shipping_connectors" ADD CONSTRAINT "shipping_connectors_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "shipping_rates" ADD CONSTRAINT "shipping_rates_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "shipping_rates" ADD CONSTRAINT "shipping_rates_connector_id_shipping_connectors_id_fk" FOREIGN KEY ("connector_id") REFERENCES "public"."shipping_connectors"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "supplier_bills" ADD CONSTRAINT "supplier_bills_purchase_order_id_purchase_orders_id_fk" FOREIGN KEY ("purchase_order_id") REFERENCES "public"."purchase_orders"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "supplier_bills" ADD CONSTRAINT "supplier_bills_event_id_events_id_fk" FOREIGN KEY ("event_id") REFERENCES "public"."events"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "supplier_bills" ADD CONSTRAINT "supplier_bills_task_id_tasks_id_fk" FOREIGN KEY ("task_id") REFERENCES "public"."tasks"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "supplier_deliveries" ADD CONSTRAINT "supplier_deliveries_supplier_id_suppliers_id_fk" FOREIGN KEY ("supplier_id") REFERENCES "public"."suppliers"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "supplier_deliveries" ADD CONSTRAINT "supplier_deliveries_purchase_order_id_purchase_orders_id_fk" FOREIGN KEY ("purchase_order_id") REFERENCES "public"."purchase_orders"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "tasks" ADD CONSTRAINT "tasks_source_event_id_events_id_fk" FOREIGN KEY ("source_event_id") REFERENCES "public"."events"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "tasks" ADD CONSTRAINT "tasks_assignee_id_users_id_fk" FOREIGN KEY ("assignee_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "team_invitations" ADD CONSTRAINT "team_invitations_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "users" ADD CONSTRAINT "users_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "workspace_settings" ADD CONSTRAINT "workspace_settings_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,81 @@
+CREATE TABLE "api_keys" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"key_prefix" text NOT NULL,
+	"hashed_key" text NOT NULL,
+	"name" text NOT NULL,
+	"scopes" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"workspace_id" varchar,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"revoked_at" timestamp,
+	CONSTRAINT "api_keys_key_prefix_unique" UNIQUE("key_prefix"),
+	CONSTRAINT "api_keys_hashed_key_unique" UNIQUE("hashed_key")
+);
+--> statement-breakpoint
+CREATE TABLE "audit_logs" (
+	"id" varchar PRIMARY KEY NOT NULL,
+	"timestamp" timestamp DEFAULT now() NOT NULL,
+	"key_prefix" text,
+	"key_id" varchar,
+	"ip" text NOT NULL,
+	"user_agent" text,
+	"method" text NOT NULL,
+	"path" text NOT NULL,
+	"query" text,
+	"status_code" integer,
+	"response_time_ms" integer,
+	"error" text,
+	"request_body" jsonb,
+	"response_size" integer
+);
+--> statement-breakpoint
+CREATE TABLE "rate_limit_buckets" (
+	"key_prefix" text PRIMARY KEY NOT NULL,
+	"tokens" real NOT NULL,
+	"last_refill" timestamp NOT NULL,
+	"request_count" integer DEFAULT 0 NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "webhook_deliveries" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"webhook_id" varchar NOT NULL,
+	"event_type" text NOT NULL,
+	"payload" jsonb NOT NULL,
+	"url" text NOT NULL,
+	"attempt_number" integer DEFAULT 1 NOT NULL,
+	"max_attempts" integer NOT NULL,
+	"scheduled_at" timestamp DEFAULT now() NOT NULL,
+	"next_attempt_at" timestamp DEFAULT now() NOT NULL,
+	"attempted_at" timestamp,
+	"status_code" integer,
+	"response_body" text,
+	"error" text,
+	"locked_by" text,
+	"locked_until" timestamp
+);
+--> statement-breakpoint
+CREATE TABLE "webhook_events" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"event" text NOT NULL,
+	"data" jsonb,
+	"workspace_id" varchar,
+	"timestamp" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "webhooks" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"url" text NOT NULL,
+	"secret" text NOT NULL,
+	"events" jsonb NOT NULL,
+	"active" boolean DEFAULT true NOT NULL,
+	"name" text,
+	"description" text,
+	"workspace_id" varchar,
+	"last_status" integer,
+	"last_attempt_at" timestamp,
+	"last_success_at" timestamp,
+	"failure_count" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "webhook_deliveries" ADD CONSTRAINT "webhook_deliveries_webhook_id_webhooks_id_fk" FOREIGN KEY ("webhook_id") REFERENCES "public"."webhooks"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,17 @@
+CREATE TABLE "shipping_rules" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" varchar NOT NULL,
+	"name" text NOT NULL,
+	"position" integer DEFAULT 0 NOT NULL,
+	"enabled" boolean DEFAULT true NOT NULL,
+	"conditions" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"connector_id" varchar NOT NULL,
+	"service_code" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "shipments" ADD COLUMN "shipping_rule_id" varchar;--> statement-breakpoint
+ALTER TABLE "shipping_rules" ADD CONSTRAINT "shipping_rules_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "shipping_rules" ADD CONSTRAINT "shipping_rules_connector_id_shipping_connectors_id_fk" FOREIGN KEY ("connector_id") REFERENCES "public"."shipping_connectors"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "shipments" ADD CONSTRAINT "shipments_shipping_rule_id_shipping_rules_id_fk" FOREIGN KEY ("shipping_rule_id") REFERENCES "public"."shipping_rules"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE "shipments" ADD COLUMN "status_changed_at" timestamp;--> statement-breakpoint
+ALTER TABLE "shipments" ADD COLUMN "next_tracking_poll_at" timestamp;--> statement-breakpoint
+ALTER TABLE "shipments" ADD COLUMN "tracking_poll_attempts" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "shipments" ADD COLUMN "delay_alerted_at" timestamp;
\ No newline at end of file
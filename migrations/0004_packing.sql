@@ -0,0 +1,34 @@
+CREATE TABLE "product_dimensions" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" varchar NOT NULL,
+	"sku" text NOT NULL,
+	"length" real NOT NULL,
+	"width" real NOT NULL,
+	"height" real NOT NULL,
+	"units" text DEFAULT 'cm' NOT NULL,
+	"weight" real NOT NULL,
+	"weight_units" text DEFAULT 'kg' NOT NULL,
+	"ships_alone" boolean DEFAULT false NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "shipping_boxes" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" varchar NOT NULL,
+	"location_id" varchar,
+	"name" text NOT NULL,
+	"length" real NOT NULL,
+	"width" real NOT NULL,
+	"height" real NOT NULL,
+	"units" text DEFAULT 'cm' NOT NULL,
+	"max_weight" real NOT NULL,
+	"tare_weight" real DEFAULT 0 NOT NULL,
+	"weight_units" text DEFAULT 'kg' NOT NULL,
+	"active" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "product_dimensions" ADD CONSTRAINT "product_dimensions_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "shipping_boxes" ADD CONSTRAINT "shipping_boxes_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
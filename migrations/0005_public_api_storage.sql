@@ -0,0 +1,45 @@
+CREATE TABLE "invoices" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"workspace_id" varchar NOT NULL,
+	"number" text NOT NULL,
+	"order_id" varchar,
+	"customer_id" varchar NOT NULL,
+	"customer_name" text NOT NULL,
+	"status" text DEFAULT 'UNPAID' NOT NULL,
+	"currency" text DEFAULT 'USD' NOT NULL,
+	"locale" text DEFAULT 'en-US' NOT NULL,
+	"region_id" text,
+	"line_items" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"subtotal" integer DEFAULT 0 NOT NULL,
+	"tax" integer DEFAULT 0 NOT NULL,
+	"grand_total" integer DEFAULT 0 NOT NULL,
+	"tax_breakdown" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"issue_date" timestamp DEFAULT now() NOT NULL,
+	"due_date" timestamp NOT NULL,
+	"paid_date" timestamp,
+	"payment_method" text,
+	"payment_reference" text,
+	"notes" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "products" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"workspace_id" varchar NOT NULL,
+	"sku" text NOT NULL,
+	"name" text NOT NULL,
+	"category" text DEFAULT 'Uncategorized' NOT NULL,
+	"cost" real DEFAULT 0 NOT NULL,
+	"price" real DEFAULT 0 NOT NULL,
+	"supplier" text,
+	"reorder_point" integer DEFAULT 10 NOT NULL,
+	"max_stock" integer DEFAULT 100 NOT NULL,
+	"region_id" text,
+	"tax_category" text DEFAULT 'standard' NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "invoices" ADD CONSTRAINT "invoices_order_id_sales_orders_id_fk" FOREIGN KEY ("order_id") REFERENCES "public"."sales_orders"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "invoices" ADD CONSTRAINT "invoices_customer_id_customers_id_fk" FOREIGN KEY ("customer_id") REFERENCES "public"."customers"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,18 @@
+ALTER TABLE "customers" ALTER COLUMN "updated_at" SET DATA TYPE timestamp (3);--> statement-breakpoint
+UPDATE "customers" SET "updated_at" = coalesce("created_at", now()) WHERE "updated_at" IS NULL;--> statement-breakpoint
+ALTER TABLE "customers" ALTER COLUMN "updated_at" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "forecasts" ALTER COLUMN "computed_at" SET DATA TYPE timestamp (3);--> statement-breakpoint
+ALTER TABLE "inventory_levels" ALTER COLUMN "updated_at" SET DATA TYPE timestamp (3);--> statement-breakpoint
+ALTER TABLE "invoices" ALTER COLUMN "updated_at" SET DATA TYPE timestamp (3);--> statement-breakpoint
+ALTER TABLE "products" ALTER COLUMN "updated_at" SET DATA TYPE timestamp (3);--> statement-breakpoint
+ALTER TABLE "sales_orders" ALTER COLUMN "updated_at" SET DATA TYPE timestamp (3);--> statement-breakpoint
+UPDATE "sales_orders" SET "updated_at" = coalesce("created_at", now()) WHERE "updated_at" IS NULL;--> statement-breakpoint
+ALTER TABLE "sales_orders" ALTER COLUMN "updated_at" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "suppliers" ALTER COLUMN "updated_at" SET DATA TYPE timestamp (3);--> statement-breakpoint
+CREATE INDEX "customers_workspace_updated" ON "customers" USING btree ("workspace_id","updated_at","id");--> statement-breakpoint
+CREATE INDEX "forecasts_workspace_computed" ON "forecasts" USING btree ("workspace_id","computed_at");--> statement-breakpoint
+CREATE INDEX "inventory_levels_workspace_updated" ON "inventory_levels" USING btree ("workspace_id","updated_at","id");--> statement-breakpoint
+CREATE INDEX "invoices_workspace_updated" ON "invoices" USING btree ("workspace_id","updated_at","id");--> statement-breakpoint
+CREATE INDEX "products_workspace_updated" ON "products" USING btree ("workspace_id","updated_at","id");--> statement-breakpoint
+CREATE INDEX "sales_orders_workspace_updated" ON "sales_orders" USING btree ("workspace_id","updated_at","id");--> statement-breakpoint
+CREATE INDEX "suppliers_workspace_updated" ON "suppliers" USING btree ("workspace_id","updated_at","id");
\ No newline at end of file
@@ -0,0 +1,23 @@
+CREATE TABLE "webhook_delivery_attempts" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"webhook_id" varchar NOT NULL,
+	"delivery_id" varchar NOT NULL,
+	"event_id" varchar NOT NULL,
+	"event_type" text NOT NULL,
+	"attempt_number" integer NOT NULL,
+	"url" text NOT NULL,
+	"request_headers" jsonb NOT NULL,
+	"request_body" jsonb NOT NULL,
+	"status_code" integer,
+	"response_body" text,
+	"error" text,
+	"duration_ms" integer NOT NULL,
+	"success" boolean NOT NULL,
+	"attempted_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "webhook_deliveries" ADD COLUMN "dead_at" timestamp;--> statement-breakpoint
+ALTER TABLE "webhooks" ADD COLUMN "disabled_at" timestamp;--> statement-breakpoint
+ALTER TABLE "webhooks" ADD COLUMN "disabled_reason" text;--> statement-breakpoint
+ALTER TABLE "webhook_delivery_attempts" ADD CONSTRAINT "webhook_delivery_attempts_webhook_id_webhooks_id_fk" FOREIGN KEY ("webhook_id") REFERENCES "public"."webhooks"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "webhook_delivery_attempts_webhook_attempted" ON "webhook_delivery_attempts" USING btree ("webhook_id","attempted_at");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "workspace_settings" ADD COLUMN "finance_settings" jsonb;
\ No newline at end of file
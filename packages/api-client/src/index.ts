@@ -0,0 +1,774 @@
+// Generated from the Flowventory v1 OpenAPI document by scripts/generate-api-client.ts. Do not edit.
+
+export interface ClientOptions {
+  /** Origin of the Flowventory server, e.g. https://app.flowventory.com */
+  baseUrl: string;
+  apiKey: string;
+  fetch?: typeof fetch;
+}
+
+export interface RequestOptions {
+  /** Retries with the same key within 24 hours return the original response */
+  idempotencyKey?: string;
+}
+
+export class FlowventoryApiError extends Error {
+  constructor(public status: number, public body: ApiError | undefined) {
+    super(body?.message || body?.error || `Request failed with status ${status}`);
+    this.name = 'FlowventoryApiError';
+  }
+}
+
+type QueryValue = string | number | boolean | Date | string[] | null | undefined;
+
+export interface ApiError {
+  error: string;
+  message?: string;
+  details?: unknown[];
+}
+
+export interface Pagination {
+  limit: number;
+  hasMore: boolean;
+  nextCursor: string | null;
+}
+
+export interface Product {
+  id: string;
+  workspaceId: string;
+  sku: string;
+  name: string;
+  category: string;
+  cost: number;
+  price: number;
+  supplier: string | null;
+  reorderPoint: number;
+  maxStock: number;
+  regionId: string | null;
+  taxCategory: "standard" | "reduced" | "zero";
+  createdAt: string;
+  updatedAt: string;
+  stock: number;
+  available: number;
+  status: "In Stock" | "Low Stock";
+}
+
+export interface InventoryLevel {
+  id: string;
+  workspaceId: string;
+  productId: string | null;
+  locationId: string;
+  onHand: number;
+  onOrder: number;
+  reorderPoint: number;
+  safetyStock: number;
+  reorderQty: number;
+  cost: number | null;
+  updatedAt: string;
+  sku: string;
+  productName: string;
+  category: string;
+  available: number;
+}
+
+export interface InventoryAdjustment {
+  inventory: InventoryLevel;
+  adjustment: {
+    id: string;
+    productId: string | null;
+    locationId: string;
+    sku: string;
+    previousStock: number;
+    newStock: number;
+    delta: number;
+    reason: string;
+    adjustedBy: string;
+    adjustedAt: string;
+  };
+}
+
+export interface Order {
+  id: string;
+  orderNumber: string;
+  customerId: string;
+  customerName: string;
+  customerEmail: string | null;
+  workspaceId: string;
+  locationId: string | null;
+  currency: "INR" | "GBP" | "USD" | "AED" | "SGD";
+  status: "PENDING" | "PROCESSING" | "SHIPPED" | "DELIVERED" | "CANCELLED";
+  items: {
+    sku: string;
+    productName: string;
+    quantity: number;
+    unitPrice: number;
+    subtotal: number;
+  }[];
+  subtotal: number;
+  tax: number;
+  shipping: number;
+  total: number;
+  shippingAddress: string | null;
+  notes: string | null;
+  createdAt: string | null;
+  updatedAt: string;
+}
+
+export interface Invoice {
+  id: string;
+  workspaceId: string;
+  number: string;
+  orderId: string | null;
+  customerId: string;
+  customerName: string;
+  status: "UNPAID" | "PARTIAL" | "PAID" | "OVERDUE" | "CANCELLED";
+  currency: "INR" | "GBP" | "USD" | "AED" | "SGD";
+  locale: string;
+  regionId: string | null;
+  lineItems: {
+    sku: string;
+    name: string;
+    quantity: number;
+    unitPrice: number;
+  }[];
+  subtotal: number;
+  tax: number;
+  grandTotal: number;
+  taxBreakdown: {
+    name: string;
+    rate: number;
+    amount: number;
+  }[];
+  issueDate: string;
+  dueDate: string;
+  paidDate: string | null;
+  paymentMethod: string | null;
+  paymentReference: string | null;
+  notes: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface Customer {
+  id: string;
+  name: string;
+  email: string | null;
+  phone: string | null;
+  address: string | null;
+  company: string | null;
+  workspaceId: string;
+  createdAt: string | null;
+  updatedAt: string;
+}
+
+export interface Supplier {
+  id: string;
+  workspaceId: string;
+  name: string;
+  email: string | null;
+  phone: string | null;
+  region: "US" | "UK" | "UAE" | "Singapore" | "India" | "Other";
+  currency: "INR" | "GBP" | "USD" | "AED" | "SGD";
+  leadTimeDays: number;
+  paymentTerms: string;
+  address: string | null;
+  status: "active" | "archived";
+  skus: {
+    sku: string;
+    unitCost: number;
+    packSize?: number;
+    moq?: number;
+    leadTimeDays: number;
+  }[];
+  minOrderQty: number | null;
+  minOrderValue: number | null;
+  notes: string | null;
+  onTimeRatePct: number | null;
+  defectRatePct: number | null;
+  avgLeadTimeDays: number | null;
+  onTimeTargetPct: number | null;
+  defectTargetPct: number | null;
+  totalDeliveries: number | null;
+  breachCount: number | null;
+  lastBreachDate: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface Forecast {
+  id: string;
+  productId: string;
+  locationId?: string;
+  horizon: "30" | "60" | "90";
+  method: "moving_avg" | "ewma" | "holt_winters" | "croston" | "sba" | "auto";
+  ts: string;
+  result: {
+    daily: {
+      date: string;
+      qty: number;
+    }[];
+    avgDaily: number;
+    peakDaily: number;
+    selectedMethod?: "moving_avg" | "ewma" | "holt_winters" | "croston" | "sba";
+    backtests?: {
+      method: "moving_avg" | "ewma" | "holt_winters" | "croston" | "sba";
+      folds: number;
+      mape: number | null;
+      wape: number | null;
+      bias: number | null;
+    }[];
+  };
+}
+
+export interface ListProductsQuery {
+  /** Comma-separated top-level fields to return */
+  fields?: string;
+  /** Comma-separated related records to embed: inventory */
+  expand?: string;
+  limit?: number;
+  cursor?: string;
+  order?: "asc" | "desc";
+  updated_since?: string;
+  updated_before?: string;
+  created_since?: string;
+  created_before?: string;
+  /** Exact match; comma-separated values match any */
+  sku?: string | string[];
+  /** Exact match; comma-separated values match any */
+  category?: string | string[];
+  /** Exact match; comma-separated values match any */
+  supplier?: string | string[];
+  /** Exact match; comma-separated values match any */
+  status?: string | string[];
+  /** Exact match; comma-separated values match any */
+  region_id?: string | string[];
+  q?: string;
+}
+
+export interface ListProductsResponse {
+  data: Product[];
+  pagination: Pagination;
+}
+
+export interface CreateProductBody {
+  sku: string;
+  name: string;
+  category?: string;
+  cost?: number;
+  price?: number;
+  supplier?: string;
+  reorderPoint?: number;
+  maxStock?: number;
+  regionId?: string;
+  taxCategory?: "standard" | "reduced" | "zero";
+  stock?: number;
+  locationId?: string;
+}
+
+export interface CreateProductResponse {
+  data: Product;
+}
+
+export interface GetProductQuery {
+  /** Comma-separated top-level fields to return */
+  fields?: string;
+  /** Comma-separated related records to embed: inventory */
+  expand?: string;
+}
+
+export interface GetProductResponse {
+  data: Product;
+}
+
+export interface UpdateProductBody {
+  name?: string;
+  category?: string;
+  cost?: number;
+  price?: number;
+  supplier?: string | null;
+  reorderPoint?: number;
+  maxStock?: number;
+  regionId?: string | null;
+  taxCategory?: "standard" | "reduced" | "zero";
+}
+
+export interface UpdateProductResponse {
+  data: Product;
+}
+
+export interface ListInventoryQuery {
+  /** Comma-separated top-level fields to return */
+  fields?: string;
+  /** Comma-separated related records to embed: product */
+  expand?: string;
+  limit?: number;
+  cursor?: string;
+  order?: "asc" | "desc";
+  updated_since?: string;
+  updated_before?: string;
+  /** Exact match; comma-separated values match any */
+  sku?: string | string[];
+  /** Exact match; comma-separated values match any */
+  product_id?: string | string[];
+  /** Exact match; comma-separated values match any */
+  location_id?: string | string[];
+  /** Exact match; comma-separated values match any */
+  category?: string | string[];
+  low_stock?: string;
+}
+
+export interface ListInventoryResponse {
+  data: InventoryLevel[];
+  pagination: Pagination;
+}
+
+export interface AdjustInventoryBody {
+  productId?: string;
+  sku?: string;
+  locationId: string;
+  delta: number;
+  reason: string;
+}
+
+export interface AdjustInventoryResponse {
+  data: InventoryAdjustment;
+}
+
+export interface ListOrdersQuery {
+  /** Comma-separated top-level fields to return */
+  fields?: string;
+  /** Comma-separated related records to embed: customer, invoices */
+  expand?: string;
+  limit?: number;
+  cursor?: string;
+  order?: "asc" | "desc";
+  updated_since?: string;
+  updated_before?: string;
+  created_since?: string;
+  created_before?: string;
+  /** Exact match; comma-separated values match any */
+  status?: string | string[];
+  /** Exact match; comma-separated values match any */
+  customer_id?: string | string[];
+  /** Exact match; comma-separated values match any */
+  order_number?: string | string[];
+  /** Exact match; comma-separated values match any */
+  currency?: string | string[];
+  /** Exact match; comma-separated values match any */
+  location_id?: string | string[];
+  /** Exact match; comma-separated values match any */
+  sku?: string | string[];
+}
+
+export interface ListOrdersResponse {
+  data: Order[];
+  pagination: Pagination;
+}
+
+export interface CreateOrderBody {
+  customerId: string;
+  items: {
+    productId?: string;
+    sku?: string;
+    quantity: number;
+    /** Defaults to the product price. Net of tax, unless the order's tax region quotes tax-inclusive prices */
+    unitPrice?: number;
+  }[];
+  currency?: "INR" | "GBP" | "USD" | "AED" | "SGD";
+  taxRegionId?: string;
+  customerState?: string;
+  locationId?: string;
+  shippingAddress?: string;
+  notes?: string;
+}
+
+export interface CreateOrderResponse {
+  data: Order;
+}
+
+export interface GetOrderQuery {
+  /** Comma-separated top-level fields to return */
+  fields?: string;
+  /** Comma-separated related records to embed: customer, invoices */
+  expand?: string;
+}
+
+export interface GetOrderResponse {
+  data: Order;
+}
+
+export interface UpdateOrderStatusBody {
+  status: "PENDING" | "PROCESSING" | "SHIPPED" | "DELIVERED" | "CANCELLED";
+}
+
+export interface UpdateOrderStatusResponse {
+  data: Order;
+}
+
+export interface ListSuppliersQuery {
+  /** Comma-separated top-level fields to return */
+  fields?: string;
+  /** Comma-separated related records to embed: products */
+  expand?: string;
+  limit?: number;
+  cursor?: string;
+  order?: "asc" | "desc";
+  updated_since?: string;
+  updated_before?: string;
+  created_since?: string;
+  created_before?: string;
+  /** Exact match; comma-separated values match any */
+  status?: string | string[];
+  /** Exact match; comma-separated values match any */
+  region?: string | string[];
+  /** Exact match; comma-separated values match any */
+  currency?: string | string[];
+  /** Exact match; comma-separated values match any */
+  sku?: string | string[];
+  q?: string;
+}
+
+export interface ListSuppliersResponse {
+  data: Supplier[];
+  pagination: Pagination;
+}
+
+export interface GetSupplierQuery {
+  /** Comma-separated top-level fields to return */
+  fields?: string;
+  /** Comma-separated related records to embed: products */
+  expand?: string;
+}
+
+export interface GetSupplierResponse {
+  data: Supplier;
+}
+
+export interface ListCustomersQuery {
+  /** Comma-separated top-level fields to return */
+  fields?: string;
+  /** Comma-separated related records to embed: orders */
+  expand?: string;
+  limit?: number;
+  cursor?: string;
+  order?: "asc" | "desc";
+  updated_since?: string;
+  updated_before?: string;
+  created_since?: string;
+  created_before?: string;
+  /** Exact match; comma-separated values match any */
+  company?: string | string[];
+  /** Exact match; comma-separated values match any */
+  email?: string | string[];
+  q?: string;
+}
+
+export interface ListCustomersResponse {
+  data: Customer[];
+  pagination: Pagination;
+}
+
+export interface GetCustomerQuery {
+  /** Comma-separated top-level fields to return */
+  fields?: string;
+  /** Comma-separated related records to embed: orders */
+  expand?: string;
+}
+
+export interface GetCustomerResponse {
+  data: Customer;
+}
+
+export interface ListInvoicesQuery {
+  /** Comma-separated top-level fields to return */
+  fields?: string;
+  /** Comma-separated related records to embed: customer, order */
+  expand?: string;
+  limit?: number;
+  cursor?: string;
+  order?: "asc" | "desc";
+  updated_since?: string;
+  updated_before?: string;
+  created_since?: string;
+  created_before?: string;
+  issue_since?: string;
+  issue_before?: string;
+  due_since?: string;
+  due_before?: string;
+  paid_since?: string;
+  paid_before?: string;
+  /** Exact match; comma-separated values match any */
+  status?: string | string[];
+  /** Exact match; comma-separated values match any */
+  customer_id?: string | string[];
+  /** Exact match; comma-separated values match any */
+  order_id?: string | string[];
+  /** Exact match; comma-separated values match any */
+  number?: string | string[];
+  /** Exact match; comma-separated values match any */
+  currency?: string | string[];
+  overdue?: string;
+}
+
+export interface ListInvoicesResponse {
+  data: Invoice[];
+  pagination: Pagination;
+}
+
+export interface GetInvoiceQuery {
+  /** Comma-separated top-level fields to return */
+  fields?: string;
+  /** Comma-separated related records to embed: customer, order */
+  expand?: string;
+}
+
+export interface GetInvoiceResponse {
+  data: Invoice;
+}
+
+export interface UpdateInvoiceStatusBody {
+  status: "UNPAID" | "PARTIAL" | "PAID" | "OVERDUE" | "CANCELLED";
+  paidDate?: string;
+  paymentMethod?: string;
+  paymentReference?: string;
+}
+
+export interface UpdateInvoiceStatusResponse {
+  data: Invoice;
+}
+
+export interface ListForecastsQuery {
+  /** Comma-separated top-level fields to return */
+  fields?: string;
+  /** Nothing can be expanded */
+  expand?: string;
+  limit?: number;
+  cursor?: string;
+  order?: "asc" | "desc";
+  updated_since?: string;
+  updated_before?: string;
+  /** Exact match; comma-separated values match any */
+  sku?: string | string[];
+  /** Exact match; comma-separated values match any */
+  location_id?: string | string[];
+  /** Exact match; comma-separated values match any */
+  horizon?: string | string[];
+  /** Exact match; comma-separated values match any */
+  method?: string | string[];
+}
+
+export interface ListForecastsResponse {
+  data: Forecast[];
+  pagination: Pagination;
+}
+
+export interface GetSkuForecastsQuery {
+  /** Comma-separated top-level fields to return */
+  fields?: string;
+  /** Nothing can be expanded */
+  expand?: string;
+  limit?: number;
+  cursor?: string;
+  order?: "asc" | "desc";
+  updated_since?: string;
+  updated_before?: string;
+  /** Exact match; comma-separated values match any */
+  sku?: string | string[];
+  /** Exact match; comma-separated values match any */
+  location_id?: string | string[];
+  /** Exact match; comma-separated values match any */
+  horizon?: string | string[];
+  /** Exact match; comma-separated values match any */
+  method?: string | string[];
+}
+
+export interface GetSkuForecastsResponse {
+  data: Forecast[];
+  pagination: Pagination;
+}
+
+export class FlowventoryClient {
+  constructor(private options: ClientOptions) {}
+
+  private async request<T>(
+    method: string,
+    path: string,
+    { query, body, idempotencyKey }: { query?: object; body?: unknown; idempotencyKey?: string } = {}
+  ): Promise<T> {
+    const url = new URL(`/api/v1${path}`, this.options.baseUrl);
+    for (const [name, value] of Object.entries(query || {}) as [string, QueryValue][]) {
+      if (value === undefined || value === null) continue;
+      url.searchParams.set(name, Array.isArray(value) ? value.join(',') : value instanceof Date ? value.toISOString() : String(value));
+    }
+
+    const headers: Record<string, string> = { Authorization: `Bearer ${this.options.apiKey}` };
+    if (body !== undefined) headers['Content-Type'] = 'application/json';
+    if (idempotencyKey) headers['Idempotency-Key'] = idempotencyKey;
+
+    const response = await (this.options.fetch || fetch)(url, {
+      method,
+      headers,
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    const payload = await response.json().catch(() => undefined);
+
+    if (!response.ok) {
+      throw new FlowventoryApiError(response.status, payload as ApiError | undefined);
+    }
+    return payload as T;
+  }
+
+  /**
+   * List products with filtering
+   * Requires the `read:products` scope.
+   */
+  listProducts(query?: ListProductsQuery): Promise<ListProductsResponse> {
+    return this.request('GET', `/products`, { query });
+  }
+
+  /**
+   * Create new product
+   * Requires the `write:products` scope.
+   */
+  createProduct(body: CreateProductBody, options?: RequestOptions): Promise<CreateProductResponse> {
+    return this.request('POST', `/products`, { body, ...options });
+  }
+
+  /**
+   * Get single product
+   * Requires the `read:products` scope.
+   */
+  getProduct(id: string, query?: GetProductQuery): Promise<GetProductResponse> {
+    return this.request('GET', `/products/${encodeURIComponent(id)}`, { query });
+  }
+
+  /**
+   * Update product
+   * Requires the `write:products` scope.
+   */
+  updateProduct(id: string, body: UpdateProductBody, options?: RequestOptions): Promise<UpdateProductResponse> {
+    return this.request('PATCH', `/products/${encodeURIComponent(id)}`, { body, ...options });
+  }
+
+  /**
+   * List inventory with filtering
+   * Requires the `read:inventory` scope.
+   */
+  listInventory(query?: ListInventoryQuery): Promise<ListInventoryResponse> {
+    return this.request('GET', `/inventory`, { query });
+  }
+
+  /**
+   * Adjust inventory levels
+   * Requires the `write:inventory` scope.
+   */
+  adjustInventory(body: AdjustInventoryBody, options?: RequestOptions): Promise<AdjustInventoryResponse> {
+    return this.request('PATCH', `/inventory/adjust`, { body, ...options });
+  }
+
+  /**
+   * List orders with filtering
+   * Requires the `read:orders` scope.
+   */
+  listOrders(query?: ListOrdersQuery): Promise<ListOrdersResponse> {
+    return this.request('GET', `/orders`, { query });
+  }
+
+  /**
+   * Create new order
+   * Each line is taxed at its product's tax category in the tax region. Prices are net of tax unless the workspace has set that region to tax-inclusive pricing in its finance settings; the tax they include is then backed out of the subtotal
+   * Requires the `write:orders` scope.
+   */
+  createOrder(body: CreateOrderBody, options?: RequestOptions): Promise<CreateOrderResponse> {
+    return this.request('POST', `/orders`, { body, ...options });
+  }
+
+  /**
+   * Get single order
+   * Requires the `read:orders` scope.
+   */
+  getOrder(id: string, query?: GetOrderQuery): Promise<GetOrderResponse> {
+    return this.request('GET', `/orders/${encodeURIComponent(id)}`, { query });
+  }
+
+  /**
+   * Update order status
+   * Requires the `write:orders` scope.
+   */
+  updateOrderStatus(id: string, body: UpdateOrderStatusBody, options?: RequestOptions): Promise<UpdateOrderStatusResponse> {
+    return this.request('PATCH', `/orders/${encodeURIComponent(id)}/status`, { body, ...options });
+  }
+
+  /**
+   * List suppliers with filtering
+   * Requires the `read:suppliers` scope.
+   */
+  listSuppliers(query?: ListSuppliersQuery): Promise<ListSuppliersResponse> {
+    return this.request('GET', `/suppliers`, { query });
+  }
+
+  /**
+   * Get single supplier
+   * Requires the `read:suppliers` scope.
+   */
+  getSupplier(id: string, query?: GetSupplierQuery): Promise<GetSupplierResponse> {
+    return this.request('GET', `/suppliers/${encodeURIComponent(id)}`, { query });
+  }
+
+  /**
+   * List customers with filtering
+   * Requires the `read:customers` scope.
+   */
+  listCustomers(query?: ListCustomersQuery): Promise<ListCustomersResponse> {
+    return this.request('GET', `/customers`, { query });
+  }
+
+  /**
+   * Get single customer
+   * Requires the `read:customers` scope.
+   */
+  getCustomer(id: string, query?: GetCustomerQuery): Promise<GetCustomerResponse> {
+    return this.request('GET', `/customers/${encodeURIComponent(id)}`, { query });
+  }
+
+  /**
+   * List invoices with filtering
+   * Requires the `read:invoices` scope.
+   */
+  listInvoices(query?: ListInvoicesQuery): Promise<ListInvoicesResponse> {
+    return this.request('GET', `/invoices`, { query });
+  }
+
+  /**
+   * Get single invoice
+   * Requires the `read:invoices` scope.
+   */
+  getInvoice(id: string, query?: GetInvoiceQuery): Promise<GetInvoiceResponse> {
+    return this.request('GET', `/invoices/${encodeURIComponent(id)}`, { query });
+  }
+
+  /**
+   * Update invoice status
+   * Requires the `write:invoices` scope.
+   */
+  updateInvoiceStatus(id: string, body: UpdateInvoiceStatusBody, options?: RequestOptions): Promise<UpdateInvoiceStatusResponse> {
+    return this.request('PATCH', `/invoices/${encodeURIComponent(id)}/status`, { body, ...options });
+  }
+
+  /**
+   * List forecasts with filtering
+   * Forecasts the filters find missing or stale are queued for recomputation; list again shortly to get them
+   * Requires the `read:forecasts` scope.
+   */
+  listForecasts(query?: ListForecastsQuery): Promise<ListForecastsResponse> {
+    return this.request('GET', `/forecasts`, { query });
+  }
+
+  /**
+   * Get forecasts for a single SKU
+   * Requires the `read:forecasts` scope.
+   */
+  getSkuForecasts(sku: string, query?: GetSkuForecastsQuery): Promise<GetSkuForecastsResponse> {
+    return this.request('GET', `/forecasts/${encodeURIComponent(sku)}`, { query });
+  }
+}
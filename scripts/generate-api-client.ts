@@ -0,0 +1,234 @@
+/**
+ * Generates packages/api-client from the v1 OpenAPI document:
+ *   npm run generate:api-client
+ * The document is built from the route definitions in server/routes/api,
+ * so the client changes whenever an endpoint or its zod schemas do.
+ */
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import '../server/routes/api';
+import { buildOpenApiDocument } from '../server/routes/api/openapi';
+import type { JsonSchema } from '../server/routes/api/jsonSchema';
+
+const OUT_DIR = path.resolve(import.meta.dirname, '../packages/api-client');
+
+type Document = ReturnType<typeof buildOpenApiDocument>;
+
+interface Parameter {
+  name: string;
+  in: 'path' | 'query' | 'header';
+  required: boolean;
+  description?: string;
+  schema: JsonSchema;
+}
+
+interface Operation {
+  operationId: string;
+  summary: string;
+  description?: string;
+  'x-scope': string;
+  parameters: Parameter[];
+  requestBody?: { content: { 'application/json': { schema: JsonSchema } } };
+  responses: Record<string, { description: string; content?: { 'application/json': { schema: JsonSchema } } }>;
+}
+
+// Component names that would shadow a global in the generated module
+const RENAMED_COMPONENTS: Record<string, string> = { Error: 'ApiError' };
+
+const pascalCase = (name: string) => name.charAt(0).toUpperCase() + name.slice(1);
+const componentName = (name: string) => RENAMED_COMPONENTS[name] || name;
+const propertyName = (name: string) => /^[A-Za-z_$][\w$]*$/.test(name) ? name : JSON.stringify(name);
+
+function tsType(schema: JsonSchema, indent = ''): string {
+  let type: string;
+
+  if (schema.$ref) {
+    type = componentName(schema.$ref.split('/').pop()!);
+  } else if (schema.anyOf) {
+    type = schema.anyOf.map(option => tsType(option, indent)).join(' | ');
+  } else if (schema.enum) {
+    type = schema.enum.map(value => JSON.stringify(value)).join(' | ');
+  } else if (schema.type === 'string') {
+    type = 'string';
+  } else if (schema.type === 'number' || schema.type === 'integer') {
+    type = 'number';
+  } else if (schema.type === 'boolean') {
+    type = 'boolean';
+  } else if (schema.type === 'array') {
+    const items = tsType(schema.items || {}, indent);
+    type = /[|&\s]/.test(items) && !items.startsWith('{') ? `(${items})[]` : `${items}[]`;
+  } else if (schema.properties) {
+    type = objectType(schema, indent);
+  } else if (schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+    type = `Record<string, ${tsType(schema.additionalProperties, indent)}>`;
+  } else {
+    type = 'unknown';
+  }
+
+  return schema.nullable ? `${type} | null` : type;
+}
+
+function objectType(schema: JsonSchema, indent: string): string {
+  const inner = `${indent}  `;
+  const lines = Object.entries(schema.properties || {}).map(([name, property]) => {
+    const optional = schema.required?.includes(name) ? '' : '?';
+    const comment = property.description ? `${inner}/** ${property.description} */\n` : '';
+    return `${comment}${inner}${propertyName(name)}${optional}: ${tsType(property, inner)};`;
+  });
+  return `{\n${lines.join('\n')}\n${indent}}`;
+}
+
+function declaration(name: string, schema: JsonSchema): string {
+  const type = tsType(schema);
+  return type.startsWith('{') && !schema.nullable
+    ? `export interface ${name} ${type}`
+    : `export type ${name} = ${type};`;
+}
+
+function generateOperation(method: string, route: string, operation: Operation) {
+  const name = pascalCase(operation.operationId);
+  const types: string[] = [];
+  const pathParams = operation.parameters.filter(param => param.in === 'path');
+  const queryParams = operation.parameters.filter(param => param.in === 'query');
+
+  const args = pathParams.map(param => `${param.name}: string`);
+  const options: string[] = [];
+
+  if (queryParams.length > 0) {
+    types.push(declaration(`${name}Query`, {
+      type: 'object',
+      properties: Object.fromEntries(queryParams.map(param => [param.name, { ...param.schema, description: param.description }])),
+      required: queryParams.filter(param => param.required).map(param => param.name),
+    }));
+    const required = queryParams.some(param => param.required);
+    args.push(`query${required ? '' : '?'}: ${name}Query`);
+    options.push('query');
+  }
+
+  const body = operation.requestBody?.content['application/json'].schema;
+  if (body) {
+    types.push(declaration(`${name}Body`, body));
+    args.push(`body: ${name}Body`);
+    options.push('body');
+  }
+
+  if (method !== 'get') {
+    args.push('options?: RequestOptions');
+    options.push('...options');
+  }
+
+  const success = Object.entries(operation.responses).find(([status]) => status.startsWith('2'));
+  const response = success?.[1].content?.['application/json'].schema;
+  types.push(declaration(`${name}Response`, response || {}));
+
+  const urlPath = route.replace(/\{(\w+)\}/g, '${encodeURIComponent($1)}');
+  const doc = [operation.summary, operation.description, `Requires the \`${operation['x-scope']}\` scope.`]
+    .filter(Boolean)
+    .map(line => `   * ${line}`)
+    .join('\n');
+
+  const methodCode = `  /**
+${doc}
+   */
+  ${operation.operationId}(${args.join(', ')}): Promise<${name}Response> {
+    return this.request('${method.toUpperCase()}', \`${urlPath}\`, { ${options.join(', ')} });
+  }`;
+
+  return { types, methodCode };
+}
+
+const RUNTIME = `export interface ClientOptions {
+  /** Origin of the Flowventory server, e.g. https://app.flowventory.com */
+  baseUrl: string;
+  apiKey: string;
+  fetch?: typeof fetch;
+}
+
+export interface RequestOptions {
+  /** Retries with the same key within 24 hours return the original response */
+  idempotencyKey?: string;
+}
+
+export class FlowventoryApiError extends Error {
+  constructor(public status: number, public body: ApiError | undefined) {
+    super(body?.message || body?.error || \`Request failed with status \${status}\`);
+    this.name = 'FlowventoryApiError';
+  }
+}
+
+type QueryValue = string | number | boolean | Date | string[] | null | undefined;`;
+
+const CLIENT_REQUEST = `  constructor(private options: ClientOptions) {}
+
+  private async request<T>(
+    method: string,
+    path: string,
+    { query, body, idempotencyKey }: { query?: object; body?: unknown; idempotencyKey?: string } = {}
+  ): Promise<T> {
+    const url = new URL(\`/api/v1\${path}\`, this.options.baseUrl);
+    for (const [name, value] of Object.entries(query || {}) as [string, QueryValue][]) {
+      if (value === undefined || value === null) continue;
+      url.searchParams.set(name, Array.isArray(value) ? value.join(',') : value instanceof Date ? value.toISOString() : String(value));
+    }
+
+    const headers: Record<string, string> = { Authorization: \`Bearer \${this.options.apiKey}\` };
+    if (body !== undefined) headers['Content-Type'] = 'application/json';
+    if (idempotencyKey) headers['Idempotency-Key'] = idempotencyKey;
+
+    const response = await (this.options.fetch || fetch)(url, {
+      method,
+      headers,
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    const payload = await response.json().catch(() => undefined);
+
+    if (!response.ok) {
+      throw new FlowventoryApiError(response.status, payload as ApiError | undefined);
+    }
+    return payload as T;
+  }`;
+
+function generateClient(document: Document): string {
+  const schemas = Object.entries(document.components.schemas)
+    .map(([name, schema]) => declaration(componentName(name), schema));
+
+  const types: string[] = [];
+  const methods: string[] = [];
+  for (const [route, operations] of Object.entries(document.paths)) {
+    for (const [method, operation] of Object.entries(operations)) {
+      const generated = generateOperation(method, route, operation as Operation);
+      types.push(...generated.types);
+      methods.push(generated.methodCode);
+    }
+  }
+
+  return `// Generated from the Flowventory v1 OpenAPI document by scripts/generate-api-client.ts. Do not edit.
+
+${RUNTIME}
+
+${schemas.join('\n\n')}
+
+${types.join('\n\n')}
+
+export class FlowventoryClient {
+${CLIENT_REQUEST}
+
+${methods.join('\n\n')}
+}
+`;
+}
+
+async function main() {
+  const document = buildOpenApiDocument();
+  await mkdir(path.join(OUT_DIR, 'src'), { recursive: true });
+  await writeFile(path.join(OUT_DIR, 'openapi.json'), `${JSON.stringify(document, null, 2)}\n`);
+  await writeFile(path.join(OUT_DIR, 'src/index.ts'), generateClient(document));
+  console.log(`Generated API client for ${Object.keys(document.paths).length} paths in ${OUT_DIR}`);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error('API client generation failed:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,85 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { ShippingError, type Parcel, type RateRequest } from "./base";
+import { FakeCarrierAdapter } from "./fake";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const london = { address1: "1 Long Acre", city: "London", state: "", postalCode: "WC2E 9LH", country: "GB" };
+const manchester = { address1: "1 Deansgate", city: "Manchester", state: "", postalCode: "M3 1AZ", country: "gb" };
+const newYork = { address1: "1 Broadway", city: "New York", state: "NY", postalCode: "10004", country: "US" };
+
+function request(parcel: Partial<Parcel> = {}, shipTo = manchester): RateRequest {
+  return {
+    shipFrom: london,
+    shipTo,
+    parcels: [{ length: 10, width: 10, height: 10, weight: 1, units: "cm", weightUnits: "kg", ...parcel }],
+  };
+}
+
+describe("FakeCarrierAdapter.getRates", () => {
+  it("quotes every service from the rounded-up billable weight", async () => {
+    const rates = await new FakeCarrierAdapter().getRates(request({ weight: 1.2 }));
+
+    expect(rates.map(rate => [rate.serviceCode, rate.amount, rate.estimatedDays])).toEqual([
+      ["FAKE_ECONOMY", 640, 7],
+      ["FAKE_STANDARD", 960, 4],
+      ["FAKE_EXPRESS", 2100, 2],
+      ["FAKE_OVERNIGHT", 4000, 1],
+    ]);
+    expect(rates.every(rate => rate.currency === "USD" && rate.provider === "fake")).toBe(true);
+  });
+
+  it("bills bulky parcels by volume and international routes at a premium", async () => {
+    const adapter = new FakeCarrierAdapter();
+
+    const [bulky] = await adapter.getRates(request({ length: 50, width: 40, height: 30, weight: 2 }));
+    const [abroad] = await adapter.getRates(request({}, newYork));
+
+    expect(bulky.amount).toBe(400 + 120 * 12);
+    expect(abroad).toMatchObject({ amount: 1300, estimatedDays: 10 });
+  });
+
+  it("quotes in the configured currency and scales prices by the multiplier", async () => {
+    const [economy] = await new FakeCarrierAdapter({}, { currency: "gbp", priceMultiplier: 2 }).getRates(request());
+
+    expect(economy).toMatchObject({ currency: "GBP", amount: 1040 });
+  });
+
+  it("fails with the configured error code", async () => {
+    const adapter = new FakeCarrierAdapter({}, { failWith: "PROVIDER_ERROR" });
+
+    await expect(adapter.getRates(request())).rejects.toMatchObject({ code: "PROVIDER_ERROR", provider: "fake" });
+    await expect(adapter.getRates(request())).rejects.toBeInstanceOf(ShippingError);
+  });
+});
+
+describe("FakeCarrierAdapter tracking", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("advances a shipment's status with the time since it was created", async () => {
+    vi.useFakeTimers({ toFake: ["Date"], now: new Date("2026-03-02T09:00:00.000Z") });
+    const adapter = new FakeCarrierAdapter();
+    const shipment = await adapter.createShipment({ ...request(), service: "FAKE_STANDARD" });
+
+    expect(shipment).toMatchObject({ status: "label_created", cost: { currency: "USD", amount: 780 }, estimatedDays: 4 });
+
+    vi.setSystemTime(Date.now() + 3 * HOUR_MS);
+    const inTransit = await adapter.getTracking({ trackingNumber: shipment.trackingNumber });
+    expect(inTransit.status).toBe("in_transit");
+    expect(inTransit.events.map(event => event.status)).toEqual(["in_transit", "picked_up", "label_created"]);
+    expect(inTransit.actualDelivery).toBeUndefined();
+
+    vi.setSystemTime(Date.now() + 24 * HOUR_MS);
+    const delivered = await adapter.getTracking({ trackingNumber: shipment.trackingNumber });
+    expect(delivered).toMatchObject({ status: "delivered", actualDelivery: "2026-03-03T09:00:00.000Z" });
+  });
+
+  it("rejects tracking numbers it didn't issue", async () => {
+    const adapter = new FakeCarrierAdapter();
+
+    await expect(adapter.getTracking({ trackingNumber: "1Z999AA10123456784" })).rejects.toMatchObject({ code: "TRACK_ERROR" });
+    expect(await adapter.cancelShipment({ providerShipmentId: "1Z999AA10123456784" })).toEqual({ success: false, error: "Shipment not found" });
+  });
+});
@@ -0,0 +1,192 @@
+import {
+  ShippingAdapter,
+  ShippingRate,
+  ShipmentResult,
+  TrackingResult,
+  TrackingEvent,
+  RateRequest,
+  CreateShipmentRequest,
+  TrackingRequest,
+  CancelShipmentRequest
+} from './base';
+
+// Local fake carrier for offline development and testing
+// Quotes deterministic rates from billable weight and route, and creates shipments whose tracking
+// status advances with the time since they were created. No credentials are required.
+//
+// Config options:
+// - currency: currency to quote in (default USD)
+// - latencyMs: artificial delay before every call, to exercise timeouts
+// - failWith: error code to throw from getRates/createShipment (e.g. PROVIDER_ERROR)
+// - priceMultiplier: scale all quoted prices (default 1)
+
+interface FakeService {
+  code: string;
+  name: string;
+  baseAmount: number; // In cents
+  perKgAmount: number; // In cents
+  days: number;
+}
+
+const FAKE_SERVICES: FakeService[] = [
+  { code: 'FAKE_ECONOMY', name: 'Fake Economy', baseAmount: 400, perKgAmount: 120, days: 7 },
+  { code: 'FAKE_STANDARD', name: 'Fake Standard', baseAmount: 600, perKgAmount: 180, days: 4 },
+  { code: 'FAKE_EXPRESS', name: 'Fake Express', baseAmount: 1400, perKgAmount: 350, days: 2 },
+  { code: 'FAKE_OVERNIGHT', name: 'Fake Overnight', baseAmount: 2800, perKgAmount: 600, days: 1 },
+];
+
+const INTERNATIONAL_MULTIPLIER = 2.5;
+const INTERNATIONAL_EXTRA_DAYS = 3;
+const VOLUMETRIC_DIVISOR = 5000; // cm³ per kg
+
+// Tracking milestones, as minutes after the shipment was created
+const TRACKING_TIMELINE: Array<{ afterMinutes: number; status: TrackingResult['status']; description: string }> = [
+  { afterMinutes: 0, status: 'label_created', description: 'Shipping label created' },
+  { afterMinutes: 30, status: 'picked_up', description: 'Picked up by Fake Carrier' },
+  { afterMinutes: 120, status: 'in_transit', description: 'In transit to destination facility' },
+  { afterMinutes: 24 * 60, status: 'delivered', description: 'Delivered' },
+];
+
+export class FakeCarrierAdapter extends ShippingAdapter {
+  constructor(credentials: Record<string, any> = {}, config: Record<string, any> = {}) {
+    super('fake', credentials, config);
+  }
+
+  async testConnection(): Promise<{ success: boolean; error?: string }> {
+    await this.simulateLatency();
+    return { success: true };
+  }
+
+  async getRates(request: RateRequest): Promise<ShippingRate[]> {
+    await this.simulateLatency();
+    this.simulateFailure();
+
+    if (request.parcels.length === 0) {
+      this.throwError('VALIDATION_ERROR', 'At least one parcel is required');
+    }
+
+    const weightKg = this.getBillableWeight(request);
+    const international = this.isInternational(request);
+    const multiplier = (international ? INTERNATIONAL_MULTIPLIER : 1) * (this.config.priceMultiplier || 1);
+
+    return FAKE_SERVICES.map(service => ({
+      service: service.name,
+      serviceCode: service.code,
+      currency: this.getCurrency(),
+      amount: Math.round((service.baseAmount + service.perKgAmount * Math.ceil(weightKg)) * multiplier),
+      estimatedDays: service.days + (international ? INTERNATIONAL_EXTRA_DAYS : 0),
+      provider: this.provider
+    }));
+  }
+
+  async createShipment(request: CreateShipmentRequest): Promise<ShipmentResult> {
+    await this.simulateLatency();
+    this.simulateFailure();
+
+    const rates = await this.getRates(request);
+    const rate = rates.find(r => r.serviceCode === request.service);
+    if (!rate) {
+      this.throwError('VALIDATION_ERROR', `Unknown Fake Carrier service: ${request.service}`);
+    }
+
+    // Tracking number carries the creation time so tracking can advance without any stored state
+    const createdAt = Date.now();
+    const trackingNumber = `FK${createdAt.toString(36).toUpperCase()}${Math.random().toString(36).substring(2, 6).padEnd(4, '0').toUpperCase()}`;
+
+    return {
+      id: `fake-${trackingNumber}`,
+      providerShipmentId: trackingNumber,
+      trackingNumber,
+      trackingUrl: `https://fake-carrier.local/track/${trackingNumber}`,
+      labelUrl: `https://fake-carrier.local/labels/${trackingNumber}.pdf`,
+      cost: {
+        currency: rate.currency,
+        amount: rate.amount
+      },
+      estimatedDays: rate.estimatedDays,
+      status: 'label_created'
+    };
+  }
+
+  async getTracking(request: TrackingRequest): Promise<TrackingResult> {
+    await this.simulateLatency();
+
+    const createdAt = this.parseTrackingNumber(request.trackingNumber);
+    if (createdAt === null) {
+      this.throwError('TRACK_ERROR', `Unknown Fake Carrier tracking number: ${request.trackingNumber}`);
+    }
+
+    const elapsedMinutes = (Date.now() - createdAt) / 60000;
+    const reached = TRACKING_TIMELINE.filter(step => elapsedMinutes >= step.afterMinutes);
+    const events: TrackingEvent[] = reached
+      .map(step => ({
+        timestamp: new Date(createdAt + step.afterMinutes * 60000).toISOString(),
+        status: step.status,
+        location: step.status === 'delivered' ? 'Destination' : 'Fake Carrier Hub',
+        description: step.description,
+        code: step.status.toUpperCase()
+      }))
+      .reverse(); // Most recent first
+
+    const current = reached[reached.length - 1];
+    const delivery = TRACKING_TIMELINE[TRACKING_TIMELINE.length - 1];
+
+    return {
+      trackingNumber: request.trackingNumber,
+      status: current.status,
+      events,
+      estimatedDelivery: new Date(createdAt + delivery.afterMinutes * 60000).toISOString(),
+      actualDelivery: current.status === 'delivered' ? events[0].timestamp : undefined
+    };
+  }
+
+  async cancelShipment(request: CancelShipmentRequest): Promise<{ success: boolean; error?: string }> {
+    await this.simulateLatency();
+
+    if (this.parseTrackingNumber(request.providerShipmentId) === null) {
+      return { success: false, error: 'Shipment not found' };
+    }
+    return { success: true };
+  }
+
+  // Private helper methods
+  private getCurrency(): string {
+    return (this.config.currency || 'USD').toUpperCase();
+  }
+
+  // Sum of each parcel's greater of actual and volumetric weight, in kg
+  private getBillableWeight(request: RateRequest): number {
+    return request.parcels.reduce((sum, parcel) => {
+      const weight = this.convertWeight(parcel.weight, parcel.weightUnits, 'kg');
+      const volumeCm = this.convertDimensions(parcel.length, parcel.units, 'cm') *
+        this.convertDimensions(parcel.width, parcel.units, 'cm') *
+        this.convertDimensions(parcel.height, parcel.units, 'cm');
+      return sum + Math.max(weight, volumeCm / VOLUMETRIC_DIVISOR);
+    }, 0);
+  }
+
+  private isInternational(request: RateRequest): boolean {
+    return request.shipFrom.country.toUpperCase() !== request.shipTo.country.toUpperCase();
+  }
+
+  private parseTrackingNumber(trackingNumber: string): number | null {
+    const match = /^FK([0-9A-Z]+)[0-9A-Z]{4}$/.exec(trackingNumber);
+    if (!match) return null;
+
+    const createdAt = parseInt(match[1], 36);
+    return isNaN(createdAt) ? null : createdAt;
+  }
+
+  private async simulateLatency(): Promise<void> {
+    const latencyMs = Number(this.config.latencyMs) || 0;
+    if (latencyMs > 0) {
+      await new Promise(resolve => setTimeout(resolve, latencyMs));
+    }
+  }
+
+  private simulateFailure(): void {
+    if (this.config.failWith) {
+      this.throwError(this.config.failWith, `Simulated Fake Carrier failure (${this.config.failWith})`);
+    }
+  }
+}
@@ -0,0 +1,74 @@
+// Base FX rate provider interface
+// Normalizes different rate sources to a consistent USD-based rate table
+
+export interface FxRateTable {
+  base: string;                 // Currency the rates are quoted against (always USD)
+  date: string;                 // YYYY-MM-DD the provider published these rates for
+  rates: Record<string, number>; // 1 base = rate units of currency
+  provider: string;             // Provider name for identification
+}
+
+// Error types for consistent error handling
+export class FxRateError extends Error {
+  public readonly code: string;
+  public readonly provider: string;
+  public readonly details?: any;
+
+  constructor(code: string, message: string, provider: string, details?: any) {
+    super(message);
+    this.name = 'FxRateError';
+    this.code = code;
+    this.provider = provider;
+    this.details = details;
+  }
+}
+
+// Base provider class that all rate sources extend
+export abstract class FxRateProvider {
+  protected provider: string;
+  protected config: Record<string, any>;
+
+  constructor(provider: string, config: Record<string, any> = {}) {
+    this.provider = provider;
+    this.config = config;
+  }
+
+  getName(): string {
+    return this.provider;
+  }
+
+  /**
+   * Get the rate table in effect on the given date (YYYY-MM-DD)
+   */
+  abstract getRates(date: string): Promise<FxRateTable>;
+
+  // Helper methods for consistent error handling
+  protected throwError(code: string, message: string, details?: any): never {
+    throw new FxRateError(code, message, this.provider, details);
+  }
+
+  // Rebase a rate table onto USD and uppercase currency codes
+  protected normalizeRates(base: string, rates: Record<string, number>): Record<string, number> {
+    const upperBase = base.toUpperCase();
+    const normalized: Record<string, number> = {};
+    for (const [currency, rate] of Object.entries(rates)) {
+      if (typeof rate === 'number' && rate > 0) {
+        normalized[currency.toUpperCase()] = rate;
+      }
+    }
+    normalized[upperBase] = 1.0;
+
+    if (upperBase === 'USD') return normalized;
+
+    const usdRate = normalized.USD;
+    if (!usdRate) {
+      this.throwError('INVALID_RATES', `Rate table quoted in ${upperBase} has no USD rate`);
+    }
+
+    const rebased: Record<string, number> = {};
+    for (const [currency, rate] of Object.entries(normalized)) {
+      rebased[currency] = rate / usdRate;
+    }
+    return rebased;
+  }
+}
@@ -0,0 +1,46 @@
+import { FxRateProvider, type FxRateTable } from './base';
+
+// Live FX provider for JSON rate APIs
+// Expects `config.url` with a `{date}` placeholder, e.g. https://api.frankfurter.app/{date}?from=USD,
+// returning `{ base, date, rates }`.
+
+export class HttpFxProvider extends FxRateProvider {
+  constructor(config: Record<string, any> = {}) {
+    super('http', config);
+  }
+
+  async getRates(date: string): Promise<FxRateTable> {
+    if (!this.config.url) {
+      this.throwError('CONFIG_ERROR', 'Missing FX provider URL');
+    }
+
+    const url = String(this.config.url).replace('{date}', date);
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.config.timeoutMs || 10000);
+
+    try {
+      const response = await fetch(url, { signal: controller.signal });
+      if (!response.ok) {
+        this.throwError('PROVIDER_ERROR', `FX provider responded with ${response.status}`);
+      }
+
+      const body = await response.json();
+      if (!body || typeof body.rates !== 'object') {
+        this.throwError('INVALID_RATES', 'FX provider response has no rates');
+      }
+
+      const base = String(body.base || 'USD');
+      return {
+        base: 'USD',
+        date: typeof body.date === 'string' ? body.date : date,
+        rates: this.normalizeRates(base, body.rates),
+        provider: this.provider,
+      };
+    } catch (error: any) {
+      if (error?.name === 'FxRateError') throw error;
+      this.throwError('PROVIDER_ERROR', error?.message || 'FX provider request failed', error);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
@@ -0,0 +1,92 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { FxRateProvider, type FxRateTable } from './base';
+
+// File-backed FX provider for offline use
+// Reads a CSV of `date,currency,rate` rows (rates quoted per 1 USD) and
+// returns, per currency, the most recent rate published on or before the requested date.
+
+interface RateRow {
+  date: string;
+  currency: string;
+  rate: number;
+}
+
+export class LocalFxProvider extends FxRateProvider {
+  private rows: RateRow[] | null = null;
+
+  constructor(config: Record<string, any> = {}) {
+    super('local', config);
+  }
+
+  async getRates(date: string): Promise<FxRateTable> {
+    const rows = await this.loadRows();
+
+    const latest = new Map<string, RateRow>();
+    for (const row of rows) {
+      if (row.date > date) continue;
+      const current = latest.get(row.currency);
+      if (!current || row.date > current.date) {
+        latest.set(row.currency, row);
+      }
+    }
+
+    if (latest.size === 0) {
+      this.throwError('NO_RATES', `No FX rates on or before ${date} in ${this.getFilePath()}`);
+    }
+
+    const rates: Record<string, number> = {};
+    let sourceDate = '';
+    latest.forEach(row => {
+      rates[row.currency] = row.rate;
+      if (row.date > sourceDate) sourceDate = row.date;
+    });
+
+    return {
+      base: 'USD',
+      date: sourceDate,
+      rates: this.normalizeRates('USD', rates),
+      provider: this.provider,
+    };
+  }
+
+  private getFilePath(): string {
+    return this.config.filePath || path.join(process.cwd(), 'server', 'mock', 'fx', 'usd_rates.csv');
+  }
+
+  private async loadRows(): Promise<RateRow[]> {
+    if (this.rows) return this.rows;
+
+    let csvText: string;
+    try {
+      csvText = await fs.readFile(this.getFilePath(), 'utf8');
+    } catch (error) {
+      this.throwError('CONFIG_ERROR', `Unable to read FX rates file ${this.getFilePath()}`, error);
+    }
+
+    const lines = csvText.split('\n').map(line => line.trim()).filter(Boolean);
+    const headers = (lines.shift() || '').split(',').map(h => h.trim().toLowerCase());
+    const dateIdx = headers.indexOf('date');
+    const currencyIdx = headers.indexOf('currency');
+    const rateIdx = headers.indexOf('rate');
+
+    if (dateIdx < 0 || currencyIdx < 0 || rateIdx < 0) {
+      this.throwError('CONFIG_ERROR', 'FX rates file must have date, currency and rate columns');
+    }
+
+    const rows: RateRow[] = [];
+    for (const line of lines) {
+      const values = line.split(',').map(v => v.trim());
+      const rate = parseFloat(values[rateIdx]);
+      if (!values[dateIdx] || !values[currencyIdx] || isNaN(rate) || rate <= 0) continue;
+      rows.push({
+        date: values[dateIdx],
+        currency: values[currencyIdx].toUpperCase(),
+        rate,
+      });
+    }
+
+    this.rows = rows;
+    return rows;
+  }
+}
@@ -0,0 +1,124 @@
+import { describe, expect, it } from "vitest";
+import { createSupplierBillSchema, type PurchaseOrder, type SupplierBill } from "@shared/schema";
+import { BillMatchService, type BillMatchTolerances } from "./billMatchService";
+
+const tolerances: BillMatchTolerances = BillMatchService.defaultTolerances;
+
+// 10 units at 5.00 ordered, `receivedQty` of them received so far
+function purchaseOrder(receivedQty: number): PurchaseOrder {
+  const now = new Date();
+  return {
+    id: "po-1",
+    workspaceId: "ws-1",
+    supplierId: "supplier-1",
+    supplierName: "Northwind",
+    supplierEmail: null,
+    currency: "GBP",
+    status: receivedQty > 0 ? "PARTIALLY_RECEIVED" : "SENT",
+    items: [{ sku: "SKU-1", qty: 10, unitCost: 5, subtotal: 50, taxAmount: 10, total: 60, receivedQty }],
+    totals: { subtotal: 50, tax: 10, grandTotal: 60 },
+    notes: null,
+    linkedTaskId: null,
+    sentAt: now,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+function bill(id: string, lines: { sku: string; qty: number; unitCost: number }[], subtotal?: number): SupplierBill {
+  const now = new Date();
+  const billLines = lines.map(line => ({ ...line, total: line.qty * line.unitCost }));
+  const total = subtotal ?? billLines.reduce((sum, line) => sum + line.total, 0);
+  return {
+    id,
+    workspaceId: "ws-1",
+    purchaseOrderId: "po-1",
+    supplierId: "supplier-1",
+    billNumber: `INV-${id}`,
+    billDate: now,
+    dueDate: null,
+    currency: "GBP",
+    lines: billLines,
+    totals: { subtotal: total, tax: 0, grandTotal: total },
+    matchStatus: "PENDING",
+    matchResult: null,
+    eventId: null,
+    taskId: null,
+    notes: null,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+describe("BillMatchService.compare", () => {
+  it("matches a bill for the received quantity at the PO price", () => {
+    const result = BillMatchService.compare(purchaseOrder(10), bill("b1", [{ sku: "SKU-1", qty: 10, unitCost: 5 }]), [], tolerances);
+
+    expect(result.status).toBe("MATCHED");
+    expect(result).toMatchObject({ expectedTotal: 50, billedTotal: 50, amountVariance: 0 });
+    expect(result.lines[0]).toMatchObject({ receivedQty: 10, billedQty: 10, qtyVariance: 0, priceVariancePct: 0, issues: [] });
+  });
+
+  it("accepts a partial bill for less than was received", () => {
+    const result = BillMatchService.compare(purchaseOrder(10), bill("b1", [{ sku: "SKU-1", qty: 4, unitCost: 5 }]), [], tolerances);
+
+    expect(result.status).toBe("MATCHED");
+    expect(result.expectedTotal).toBe(20);
+  });
+
+  it("flags billing more than was received, counting the PO's other bills", () => {
+    const earlier = bill("b1", [{ sku: "SKU-1", qty: 4, unitCost: 5 }]);
+    const result = BillMatchService.compare(purchaseOrder(6), bill("b2", [{ sku: "SKU-1", qty: 4, unitCost: 5 }]), [earlier], tolerances);
+
+    expect(result.status).toBe("MISMATCH");
+    expect(result.lines[0]).toMatchObject({ billedQty: 8, qtyVariance: 2, issues: ["Billed 8 but only 6 received"] });
+    // Only the 2 received but not yet billed units are expected on this bill
+    expect(result.expectedTotal).toBe(10);
+  });
+
+  it("flags a bill raised before any goods were received", () => {
+    const result = BillMatchService.compare(purchaseOrder(0), bill("b1", [{ sku: "SKU-1", qty: 10, unitCost: 5 }]), [], tolerances);
+
+    expect(result.status).toBe("MISMATCH");
+    expect(result.lines[0].issues).toEqual(["Billed before any goods were received"]);
+  });
+
+  it("flags a SKU that isn't on the purchase order", () => {
+    const result = BillMatchService.compare(purchaseOrder(10), bill("b1", [{ sku: "SKU-9", qty: 1, unitCost: 5 }]), [], tolerances);
+
+    expect(result.status).toBe("MISMATCH");
+    expect(result.lines[0]).toMatchObject({ orderedQty: 0, poUnitCost: null, issues: ["Not on the purchase order"] });
+  });
+
+  it("allows unit cost variances within the price tolerance", () => {
+    const result = BillMatchService.compare(purchaseOrder(10), bill("b1", [{ sku: "SKU-1", qty: 10, unitCost: 5.1 }]), [], tolerances);
+
+    expect(result.status).toBe("MATCHED");
+    expect(result.lines[0].priceVariancePct).toBe(2);
+  });
+
+  it("flags unit cost variances beyond the price tolerance", () => {
+    const result = BillMatchService.compare(purchaseOrder(10), bill("b1", [{ sku: "SKU-1", qty: 10, unitCost: 5.5 }]), [], tolerances);
+
+    expect(result.status).toBe("MISMATCH");
+    expect(result.lines[0].issues).toEqual(["Unit cost 5.5 vs PO 5 (+10%)"]);
+  });
+
+  it("flags a bill total beyond the amount tolerance even when every line matches", () => {
+    const result = BillMatchService.compare(purchaseOrder(10), bill("b1", [{ sku: "SKU-1", qty: 10, unitCost: 5 }], 55), [], tolerances);
+
+    expect(result.status).toBe("MISMATCH");
+    expect(result).toMatchObject({ amountVariance: 5, allowedAmountVariance: 2 });
+    expect(result.lines[0].issues).toEqual([]);
+  });
+});
+
+describe("createSupplierBillSchema", () => {
+  it("rejects bill and due dates it can't read", () => {
+    const data = { billNumber: "INV-1", lines: [{ sku: "SKU-1", qty: 10, unitCost: 5 }] };
+
+    expect(createSupplierBillSchema.safeParse({ ...data, billDate: "2026-03-02", dueDate: "2026-04-01" }).success).toBe(true);
+    expect(createSupplierBillSchema.safeParse({ ...data, billDate: "02/31/nope" }).success).toBe(false);
+    expect(createSupplierBillSchema.safeParse({ ...data, dueDate: "end of month" }).success).toBe(false);
+  });
+});
@@ -0,0 +1,188 @@
+import { type BillMatchLine, type BillMatchResult, type CreateSupplierBillData, type PurchaseOrder, type SupplierBill } from "@shared/schema";
+import { type IStorage } from "./storage";
+import { triggerWebhookEvent } from "./services/webhooks";
+import { TaskService } from "./taskService";
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export interface BillMatchTolerances {
+  qtyPct: number;
+  pricePct: number;
+  amount: number;
+}
+
+// Three-way match of supplier bills against the purchase order (price) and its goods receipts (quantity).
+// Mismatches raise a PAYMENT_MISMATCH event with a RECONCILE task in the Action Center.
+export class BillMatchService {
+  static readonly defaultTolerances: BillMatchTolerances = { qtyPct: 0, pricePct: 2, amount: 1 };
+
+  private storage: IStorage;
+  private taskService: TaskService;
+
+  constructor(storage: IStorage) {
+    this.storage = storage;
+    this.taskService = new TaskService(storage);
+  }
+
+  async getTolerances(workspaceId: string): Promise<BillMatchTolerances> {
+    const settings = await this.storage.getWorkspaceSettings(workspaceId);
+    if (!settings) return BillMatchService.defaultTolerances;
+
+    return {
+      qtyPct: settings.billQtyTolerancePct,
+      pricePct: settings.billPriceTolerancePct,
+      amount: settings.billAmountTolerance,
+    };
+  }
+
+  async createBill(po: PurchaseOrder, data: CreateSupplierBillData): Promise<SupplierBill> {
+    const lines = data.lines.map(line => ({
+      ...line,
+      total: roundMoney(line.qty * line.unitCost),
+    }));
+    const subtotal = roundMoney(lines.reduce((sum, line) => sum + line.total, 0));
+
+    const bill = await this.storage.createSupplierBill({
+      workspaceId: po.workspaceId,
+      purchaseOrderId: po.id,
+      supplierId: po.supplierId,
+      billNumber: data.billNumber,
+      billDate: data.billDate ? new Date(data.billDate) : undefined,
+      dueDate: data.dueDate ? new Date(data.dueDate) : undefined,
+      currency: po.currency,
+      lines,
+      totals: {
+        subtotal,
+        tax: roundMoney(data.tax),
+        grandTotal: roundMoney(subtotal + data.tax),
+      },
+      notes: data.notes,
+    });
+
+    return this.matchBill(bill, po);
+  }
+
+  // Run (or re-run, e.g. after more goods arrive) the match and record the outcome on the bill
+  async matchBill(bill: SupplierBill, po: PurchaseOrder): Promise<SupplierBill> {
+    const tolerances = await this.getTolerances(po.workspaceId);
+    const otherBills = (await this.storage.getSupplierBills(po.id)).filter(b => b.id !== bill.id);
+    const result = BillMatchService.compare(po, bill, otherBills, tolerances);
+
+    let updates: Partial<SupplierBill> = { matchStatus: result.status, matchResult: result };
+
+    // A bill that matched since its last event was handled has regressed and gets a new event
+    if (result.status === "MISMATCH" && (!bill.eventId || bill.matchStatus === "MATCHED")) {
+      updates = { ...updates, ...(await this.raiseMismatch(po, bill, result)) };
+    } else if (result.status === "MATCHED" && bill.eventId) {
+      // Variance cleared since the last match (e.g. the rest of the goods were received)
+      await this.storage.updateEvent(bill.eventId, { status: "HANDLED" });
+    }
+
+    const updatedBill = await this.storage.updateSupplierBill(bill.id, updates);
+    return updatedBill || bill;
+  }
+
+  static compare(po: PurchaseOrder, bill: SupplierBill, otherBills: SupplierBill[], tolerances: BillMatchTolerances): BillMatchResult {
+    const lines: BillMatchLine[] = [];
+    let expectedTotal = 0;
+
+    for (const billLine of bill.lines) {
+      const poItem = po.items.find(item => item.sku === billLine.sku);
+      const receivedQty = poItem?.receivedQty || 0;
+      const previouslyBilledQty = otherBills
+        .flatMap(b => b.lines)
+        .filter(line => line.sku === billLine.sku)
+        .reduce((sum, line) => sum + line.qty, 0);
+      const billedQty = previouslyBilledQty + billLine.qty;
+      const qtyVariance = billedQty - receivedQty;
+      const issues: string[] = [];
+
+      if (!poItem) {
+        issues.push("Not on the purchase order");
+      } else if (receivedQty === 0) {
+        issues.push("Billed before any goods were received");
+      } else if (qtyVariance > receivedQty * tolerances.qtyPct / 100) {
+        // Billing less than received is a partial bill, not a variance
+        issues.push(`Billed ${billedQty} but only ${receivedQty} received`);
+      }
+
+      let priceVariancePct: number | null = null;
+      if (poItem && poItem.unitCost > 0) {
+        priceVariancePct = roundMoney((billLine.unitCost - poItem.unitCost) / poItem.unitCost * 100);
+        if (Math.abs(priceVariancePct) > tolerances.pricePct) {
+          issues.push(`Unit cost ${billLine.unitCost} vs PO ${poItem.unitCost} (${priceVariancePct > 0 ? "+" : ""}${priceVariancePct}%)`);
+        }
+      }
+
+      // Expected: the received-but-not-yet-billed quantity at the PO price
+      if (poItem) {
+        const billableQty = Math.min(billLine.qty, Math.max(0, receivedQty - previouslyBilledQty));
+        expectedTotal += billableQty * poItem.unitCost;
+      }
+
+      lines.push({
+        sku: billLine.sku,
+        orderedQty: poItem?.qty || 0,
+        receivedQty,
+        billedQty,
+        qtyVariance,
+        poUnitCost: poItem ? poItem.unitCost : null,
+        billedUnitCost: billLine.unitCost,
+        priceVariancePct,
+        issues,
+      });
+    }
+
+    expectedTotal = roundMoney(expectedTotal);
+    const billedTotal = bill.totals.subtotal;
+    const amountVariance = roundMoney(billedTotal - expectedTotal);
+    // Price variances within tolerance are allowed to flow through to the total, plus the fixed amount
+    const allowedAmountVariance = roundMoney(tolerances.amount + expectedTotal * tolerances.pricePct / 100);
+    const mismatch = lines.some(line => line.issues.length > 0) || Math.abs(amountVariance) > allowedAmountVariance;
+
+    return {
+      status: mismatch ? "MISMATCH" : "MATCHED",
+      lines,
+      expectedTotal,
+      billedTotal,
+      amountVariance,
+      allowedAmountVariance,
+      tolerances,
+      matchedAt: new Date().toISOString(),
+    };
+  }
+
+  private async raiseMismatch(po: PurchaseOrder, bill: SupplierBill, result: BillMatchResult): Promise<Partial<SupplierBill>> {
+    const flagged = result.lines.filter(line => line.issues.length > 0);
+
+    const { event, taskCreated } = await this.taskService.createEvent({
+      type: "PAYMENT_MISMATCH",
+      sku: flagged.length === 1 ? flagged[0].sku : undefined,
+      channel: "supplier_bill",
+      payload: {
+        billId: bill.id,
+        billNumber: bill.billNumber,
+        purchaseOrderId: po.id,
+        supplierId: po.supplierId,
+        supplierName: po.supplierName,
+        currency: bill.currency,
+        expectedTotal: result.expectedTotal,
+        billedTotal: result.billedTotal,
+        diff: result.amountVariance,
+        issues: flagged.flatMap(line => line.issues.map(issue => `${line.sku}: ${issue}`)),
+      },
+      // Overcharges need attention before payment; anything else can wait
+      severity: result.amountVariance > result.allowedAmountVariance ? "HIGH" : "MEDIUM",
+    });
+
+    // createEvent only opens tasks for HIGH severity events
+    const task = taskCreated || await this.taskService.createTaskFromEvent(event.id);
+    if (task) {
+      triggerWebhookEvent("task.created", { task }, po.workspaceId).catch(console.error);
+    }
+
+    return { eventId: event.id, taskId: task?.id || null };
+  }
+}
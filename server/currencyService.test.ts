@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { FxRateProvider, type FxRateTable } from "./adapters/fx/base";
+import { CurrencyService, InvalidRateDateError } from "./currencyService";
+import { storage } from "./storage";
+
+// Quotes GBP at `gbp` per USD, or fails when `gbp` is null
+class StubFxProvider extends FxRateProvider {
+  constructor(private gbp: number | null) {
+    super("stub");
+  }
+
+  async getRates(date: string): Promise<FxRateTable> {
+    if (this.gbp === null) this.throwError("UNAVAILABLE", "Rate source is down");
+    return { base: "USD", date, rates: { USD: 1, GBP: this.gbp }, provider: this.provider };
+  }
+}
+
+describe("CurrencyService.getSnapshot", () => {
+  it("stores the provider's rates for the day", async () => {
+    CurrencyService.setProvider(new StubFxProvider(0.8));
+
+    const snapshot = await CurrencyService.getSnapshot("2026-03-02");
+
+    expect(snapshot).toMatchObject({ date: "2026-03-02", provider: "stub", rates: { GBP: 0.8 } });
+    expect(await storage.getFxRateSnapshot("2026-03-02")).toEqual(snapshot);
+  });
+
+  it("falls back to the closest earlier snapshot when the provider fails", async () => {
+    CurrencyService.setProvider(new StubFxProvider(null));
+
+    const snapshot = await CurrencyService.getSnapshot("2026-03-09");
+
+    expect(snapshot).toMatchObject({ date: "2026-03-02", rates: { GBP: 0.8 } });
+    expect(await storage.getFxRateSnapshot("2026-03-09")).toBeUndefined();
+  });
+
+  it("uses the static rates when there is no earlier snapshot, without storing them", async () => {
+    CurrencyService.setProvider(new StubFxProvider(null));
+
+    const snapshot = await CurrencyService.getSnapshot("2025-06-30");
+
+    expect(snapshot).toMatchObject({ date: "2025-06-30", provider: "static", rates: { GBP: 0.79 } });
+    expect(CurrencyService.isStaticFallback(snapshot)).toBe(true);
+    expect(await storage.getFxRateSnapshot("2025-06-30")).toBeUndefined();
+    expect((await CurrencyService.getRate("USD", "GBP", "2025-06-30")).rate).toBe(0.79);
+  });
+});
+
+describe("CurrencyService.toDateKey", () => {
+  it("keys a timestamp by its UTC day", () => {
+    expect(CurrencyService.toDateKey("2026-03-02")).toBe("2026-03-02");
+    expect(CurrencyService.toDateKey(new Date("2026-03-02T23:30:00.000-02:00"))).toBe("2026-03-03");
+  });
+
+  it("rejects a date it can't read instead of using today's rates", () => {
+    expect(() => CurrencyService.toDateKey("next Tuesday")).toThrow(InvalidRateDateError);
+    expect(() => CurrencyService.toDateKey(new Date("nope"))).toThrow(InvalidRateDateError);
+  });
+});
@@ -1,7 +1,34 @@
-// In-memory currency conversion service with static rates
+import { storage } from './storage';
+import { FxRateProvider } from './adapters/fx/base';
+import { LocalFxProvider } from './adapters/fx/local';
+import { HttpFxProvider } from './adapters/fx/http';
+import type { FxRateSnapshot } from '@shared/schema';
+
+export class CurrencyConversionError extends Error {
+  constructor(public fromCurrency: string, public toCurrency: string, public snapshotDate: string) {
+    super(`Currency conversion not supported: ${fromCurrency} -> ${toCurrency} (rates as of ${snapshotDate})`);
+    this.name = 'CurrencyConversionError';
+  }
+}
+
+export class InvalidRateDateError extends Error {
+  constructor(public asOf: Date | string) {
+    super(`Invalid date for FX rates: ${asOf}`);
+    this.name = 'InvalidRateDateError';
+  }
+}
+
+function createDefaultProvider(): FxRateProvider {
+  if (process.env.FX_PROVIDER === 'http' && process.env.FX_API_URL) {
+    return new HttpFxProvider({ url: process.env.FX_API_URL });
+  }
+  return new LocalFxProvider({ filePath: process.env.FX_RATES_FILE });
+}
+
+// Currency conversion service backed by dated FX rate snapshots
 export class CurrencyService {
-  // Static exchange rates (base: USD)
-  private static readonly rates: Record<string, number> = {
+  // Last-resort rates (base: USD) when neither the provider nor a stored snapshot can answer
+  private static readonly fallbackRates: Record<string, number> = {
     USD: 1.0,
     GBP: 0.79,    // 1 USD = 0.79 GBP
     EUR: 0.85,    // 1 USD = 0.85 EUR
@@ -10,30 +37,102 @@ export class CurrencyService {
     SGD: 1.34,    // 1 USD = 1.34 SGD
   };
 
-  // Convert amount from source currency to target currency
-  static convert(amount: number, fromCurrency: string, toCurrency: string): number {
-    if (fromCurrency === toCurrency) return amount;
-    
-    const fromRate = this.rates[fromCurrency.toUpperCase()];
-    const toRate = this.rates[toCurrency.toUpperCase()];
-    
+  private static provider: FxRateProvider = createDefaultProvider();
+
+  // Swap the rate source (e.g. a live provider in production, a file in tests)
+  static setProvider(provider: FxRateProvider): void {
+    this.provider = provider;
+  }
+
+  static getProviderName(): string {
+    return this.provider.getName();
+  }
+
+  // Normalize a Date or ISO string to the YYYY-MM-DD snapshot key (UTC). Throws for an unparseable date
+  static toDateKey(asOf?: Date | string): string {
+    if (!asOf) return new Date().toISOString().split('T')[0];
+    if (typeof asOf === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(asOf)) return asOf;
+    const date = new Date(asOf);
+    if (isNaN(date.getTime())) throw new InvalidRateDateError(asOf);
+    return date.toISOString().split('T')[0];
+  }
+
+  // The static rates stand in when no snapshot is available; they are never stored as one
+  static isStaticFallback(snapshot: FxRateSnapshot): boolean {
+    return snapshot.provider === 'static';
+  }
+
+  // Get the snapshot for a day, fetching and storing it from the provider on first use
+  static async getSnapshot(asOf?: Date | string): Promise<FxRateSnapshot> {
+    const dateKey = this.toDateKey(asOf);
+
+    const existing = await storage.getFxRateSnapshot(dateKey);
+    if (existing) return existing;
+
+    try {
+      const table = await this.provider.getRates(dateKey);
+      return await storage.createFxRateSnapshot({
+        date: dateKey,
+        sourceDate: table.date,
+        base: table.base,
+        rates: table.rates,
+        provider: table.provider,
+      });
+    } catch (error) {
+      console.warn(`FX provider ${this.provider.getName()} failed for ${dateKey}:`, error instanceof Error ? error.message : error);
+    }
+
+    // Fall back to the closest earlier snapshot we already hold
+    const [previous] = await storage.getFxRateSnapshots({ to: dateKey, limit: 1 });
+    if (previous) return previous;
+
+    console.warn(`No FX snapshot available for ${dateKey}, using static fallback rates`);
+    return {
+      id: 'static',
+      date: dateKey,
+      sourceDate: dateKey,
+      base: 'USD',
+      rates: { ...this.fallbackRates },
+      provider: 'static',
+      fetchedAt: new Date(),
+    };
+  }
+
+  // Get the conversion rate between two currencies as of a date, with the snapshot it came from
+  static async getRate(fromCurrency: string, toCurrency: string, asOf?: Date | string): Promise<{ rate: number, snapshot: FxRateSnapshot }> {
+    const snapshot = await this.getSnapshot(asOf);
+    const from = fromCurrency.toUpperCase();
+    const to = toCurrency.toUpperCase();
+
+    if (from === to) return { rate: 1, snapshot };
+
+    const fromRate = snapshot.rates[from];
+    const toRate = snapshot.rates[to];
+
     if (!fromRate || !toRate) {
-      console.warn(`Currency conversion not supported: ${fromCurrency} -> ${toCurrency}, using 1:1 rate`);
-      return amount;
+      throw new CurrencyConversionError(from, to, snapshot.date);
     }
-    
+
     // Convert to USD first, then to target currency
-    const usdAmount = amount / fromRate;
-    return usdAmount * toRate;
+    return { rate: toRate / fromRate, snapshot };
+  }
+
+  // Convert amount from source currency to target currency at the rate on `asOf` (default: today)
+  static async convert(amount: number, fromCurrency: string, toCurrency: string, asOf?: Date | string): Promise<number> {
+    if (fromCurrency.toUpperCase() === toCurrency.toUpperCase()) return amount;
+
+    const { rate } = await this.getRate(fromCurrency, toCurrency, asOf);
+    return amount * rate;
   }
 
-  // Get supported currencies
-  static getSupportedCurrencies(): string[] {
-    return Object.keys(this.rates);
+  // Currencies the snapshot for a day (default: today) has rates for
+  static async getSupportedCurrencies(asOf?: Date | string): Promise<string[]> {
+    const snapshot = await this.getSnapshot(asOf);
+    return Object.keys(snapshot.rates).filter(currency => snapshot.rates[currency] > 0);
   }
 
-  // Check if currency is supported
-  static isSupported(currency: string): boolean {
-    return currency.toUpperCase() in this.rates;
+  static async isSupported(currency: string, asOf?: Date | string): Promise<boolean> {
+    const currencies = await this.getSupportedCurrencies(asOf);
+    return currencies.includes(currency.toUpperCase());
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,2555 @@
+import { and, asc, avg, count, countDistinct, desc, eq, gt, gte, ilike, inArray, isNotNull, isNull, lt, lte, notInArray, or, sql, type SQL, type SQLWrapper } from "drizzle-orm";
+import type { PgColumn } from "drizzle-orm/pg-core";
+import { randomUUID } from "crypto";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import createMemoryStore from "memorystore";
+import {
+  users, organizations, teamInvitations, notifications, onboardingData, events, tasks, purchaseOrders, goodsReceipts,
+  supplierBills, comments, activities, rules, escalationPolicies, reconBatches, reconRows, fxRateSnapshots,
+  simplePurchaseOrders, suppliers, supplierDeliveries, reorderPolicies, inventoryLevels, inventoryMoves, reorderRuns,
+  workspaceSettings, regions, notificationSettings, customers, returns, salesOrders, forecasts, shippingConnectors, shipments,
+  shippingRules, productDimensions, shippingBoxes, products, invoices, apiKeys, rateLimitBuckets, auditLogs, idempotencyKeys, webhooks, webhookEvents, webhookDeliveries, webhookDeliveryAttempts,
+  type User, type InsertUser, type OnboardingData, type InsertOnboardingData, type PlatformConnections, type Organization,
+  type TeamInvitation, type InviteTeamMemberData, type UpdateTeamMemberData, type Notification, type CreateNotificationData,
+  type Event, type Task, type InsertTask, type CreateEventData, type UpdateTaskData, type PurchaseOrder,
+  type InsertPurchaseOrder, type Comment, type Activity, type InsertActivity, type Rule, type CreateCommentData,
+  type CreateRuleData, type UpdateRuleData, type EscalationPolicy, type EscalationActivityMeta, type CreateEscalationPolicyData,
+  type UpdateEscalationPolicyData, type ReconBatch, type InsertReconBatch, type ReconRow, type InsertReconRow,
+  type UpdateReconRowData, type Supplier, type InsertSupplier, type SupplierDelivery, type InsertSupplierDelivery,
+  type ReorderPolicy, type InsertReorderPolicy, type SimplePurchaseOrder, type InsertSimplePurchaseOrder,
+  type WorkspaceSettings, type InsertWorkspaceSettings, type Region, type NotificationSettings, type Customer, type Return, type InsertReturn, type UpdateReturn,
+  type InsertCustomer, type UpdateCustomer, type SalesOrder, type InsertSalesOrder, type UpdateSalesOrder,
+  type FxRateSnapshot, type InsertFxRateSnapshot, type ForecastRecord, type InsertForecastRecord, type InventoryLevel,
+  type InsertInventoryLevel, type ReorderRun, type InsertReorderRun, type GoodsReceipt, type InsertGoodsReceipt,
+  type InventoryMove, type InsertInventoryMove, type SupplierBill, type InsertSupplierBill, type ApiKey, type InsertApiKey,
+  type RateLimitBucket, type AuditLog, type InsertAuditLog, type IdempotencyKey, type InsertIdempotencyKey, type Webhook, type InsertWebhook, type WebhookEvent,
+  type InsertWebhookEvent, type WebhookDelivery, type InsertWebhookDelivery, type WebhookDeliveryAttempt, type InsertWebhookDeliveryAttempt, type ShippingRule, type CreateShippingRuleData,
+  type UpdateShippingRuleData, type ProductDimensions, type UpsertProductDimensionsData, type ShippingBox,
+  type CreateShippingBoxData, type UpdateShippingBoxData, type Product, type InsertProduct, type Invoice,
+  type InsertInvoice, inFlightShipmentStatuses,
+} from "@shared/schema";
+import { createDb, type Database } from "./db";
+import {
+  type IStorage, type ShippingConnector, type InsertShippingConnector, type Shipment, type InsertShipment, type AuditLogFilters,
+  type AuditStats, type WebhookDeliveryRetry, type WebhookDeliveryAttemptQuery, type ListPageQuery, type SalesOrderListQuery, type ProductListQuery,
+  type InventoryLevelListQuery, type InvoiceListQuery, type CustomerListQuery, type SupplierListQuery, type ForecastListQuery,
+} from "./storage";
+import { takeToken, type RateLimitConfig, type TokenBucketResult } from "./tokenBucket";
+import { TaskService } from "./taskService";
+
+const PostgresSessionStore = connectPg(session);
+const MemoryStore = createMemoryStore(session);
+
+type ShippingConnectorRow = typeof shippingConnectors.$inferSelect;
+type ShipmentRow = typeof shipments.$inferSelect;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function sortTasks(list: Task[]): Task[] {
+  const priorityOrder = { P1: 3, P2: 2, P3: 1 };
+  return list.sort((a, b) =>
+    priorityOrder[b.priority] - priorityOrder[a.priority] ||
+    (b.createdAt?.getTime() || 0) - (a.createdAt?.getTime() || 0)
+  );
+}
+
+// Derive breach type and status from the actual delivery date and defect flag
+function withBreach<T extends Pick<SupplierDelivery, "actualDate" | "expectedDate" | "isDefective" | "breachType" | "status">>(delivery: T): T {
+  if (!delivery.actualDate) return delivery;
+
+  const isLate = delivery.actualDate > delivery.expectedDate;
+  if (isLate && delivery.isDefective) return { ...delivery, breachType: "BOTH", status: "DEFECTIVE" };
+  if (isLate) return { ...delivery, breachType: "LATE_DELIVERY", status: "LATE" };
+  if (delivery.isDefective) return { ...delivery, breachType: "QUALITY_ISSUE", status: "DEFECTIVE" };
+  return { ...delivery, breachType: "NONE", status: "ON_TIME" };
+}
+
+// Shipping connectors and shipments are still typed by the placeholders in storage.ts; map them onto the table rows
+function toShippingConnector(row: ShippingConnectorRow): ShippingConnector {
+  return {
+    id: row.id,
+    organizationId: row.organizationId,
+    provider: row.provider,
+    name: row.name,
+    status: row.status,
+    encryptedCredentials: row.encryptedCredentials as unknown as string,
+    config: row.config || {},
+    lastTestAt: row.lastTestAt,
+    lastTestStatus: row.lastTestStatus,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
+
+function shippingConnectorValues(data: Partial<ShippingConnector>): Partial<typeof shippingConnectors.$inferInsert> {
+  const { id, createdAt, provider, encryptedCredentials, lastTestStatus, ...rest } = data;
+  return {
+    ...rest,
+    ...(provider !== undefined && { provider: provider as ShippingConnectorRow["provider"] }),
+    ...(encryptedCredentials !== undefined && { encryptedCredentials: encryptedCredentials as unknown as ShippingConnectorRow["encryptedCredentials"] }),
+    ...(lastTestStatus !== undefined && { lastTestStatus: lastTestStatus as ShippingConnectorRow["lastTestStatus"] }),
+  };
+}
+
+function toShipment(row: ShipmentRow): Shipment {
+  return {
+    id: row.id,
+    organizationId: row.organizationId,
+    connectorId: row.connectorId || "",
+    salesOrderId: row.salesOrderId,
+    shippingRuleId: row.shippingRuleId,
+    provider: row.provider,
+    providerShipmentId: row.providerShipmentId || "",
+    trackingNumber: row.trackingNumber,
+    status: row.status as Shipment["status"],
+    fromAddress: row.shipFrom,
+    toAddress: row.shipTo,
+    packageInfo: row.parcels as unknown as Record<string, any>,
+    cost: { currency: row.currency, amount: row.cost, service: row.service, serviceCode: row.serviceCode },
+    trackingEvents: row.trackingEvents,
+    lastSyncAt: row.lastSyncAt,
+    statusChangedAt: row.statusChangedAt,
+    nextTrackingPollAt: row.nextTrackingPollAt,
+    trackingPollAttempts: row.trackingPollAttempts,
+    delayAlertedAt: row.delayAlertedAt,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
+
+function shipmentValues(data: Partial<Shipment>): Partial<typeof shipments.$inferInsert> {
+  const values: Partial<typeof shipments.$inferInsert> = {};
+  if (data.organizationId !== undefined) values.organizationId = data.organizationId;
+  if (data.connectorId !== undefined) values.connectorId = data.connectorId || null;
+  if (data.salesOrderId !== undefined) values.salesOrderId = data.salesOrderId;
+  if (data.shippingRuleId !== undefined) values.shippingRuleId = data.shippingRuleId;
+  if (data.provider !== undefined) values.provider = data.provider;
+  if (data.providerShipmentId !== undefined) values.providerShipmentId = data.providerShipmentId;
+  if (data.trackingNumber !== undefined) values.trackingNumber = data.trackingNumber;
+  if (data.status !== undefined) values.status = data.status;
+  if (data.fromAddress !== undefined) values.shipFrom = data.fromAddress as ShipmentRow["shipFrom"];
+  if (data.toAddress !== undefined) values.shipTo = data.toAddress as ShipmentRow["shipTo"];
+  if (data.packageInfo !== undefined) values.parcels = data.packageInfo as unknown as ShipmentRow["parcels"];
+  if (data.cost !== undefined) {
+    values.cost = Math.round(Number(data.cost.amount) || 0);
+    values.currency = (data.cost.currency || "USD") as ShipmentRow["currency"];
+    values.service = data.cost.service || "Standard";
+    if (data.cost.serviceCode !== undefined) values.serviceCode = data.cost.serviceCode;
+  }
+  if (data.trackingEvents !== undefined) values.trackingEvents = data.trackingEvents;
+  if (data.lastSyncAt !== undefined) values.lastSyncAt = data.lastSyncAt;
+  if (data.statusChangedAt !== undefined) values.statusChangedAt = data.statusChangedAt;
+  if (data.nextTrackingPollAt !== undefined) values.nextTrackingPollAt = data.nextTrackingPollAt;
+  if (data.trackingPollAttempts !== undefined) values.trackingPollAttempts = data.trackingPollAttempts;
+  if (data.delayAlertedAt !== undefined) values.delayAlertedAt = data.delayAlertedAt;
+  return values;
+}
+
+// List filters: a case-insensitive match on any of the values
+function anyOf(value: SQLWrapper, selected?: string[]): SQL | undefined {
+  return selected ? inArray(sql`lower(${value})`, selected.map(item => item.toLowerCase())) : undefined;
+}
+
+function within(column: PgColumn, range?: { since?: Date; before?: Date }): SQL | undefined {
+  return range && and(range.since ? gte(column, range.since) : undefined, range.before ? lt(column, range.before) : undefined);
+}
+
+// Keyset pagination on (updatedAt, id): the rows after the cursor and updated within the range, and their order.
+// The (workspace_id, updated_at, id) indexes serve both
+function keyset(updatedAt: PgColumn, id: SQLWrapper, query: ListPageQuery<string, string>): { where: SQL | undefined; orderBy: SQL[] } {
+  const after = query.after && sql`(${updatedAt}, ${id}) ${sql.raw(query.order === "asc" ? ">" : "<")} (${sql.param(query.after.updatedAt, updatedAt)}, ${query.after.id})`;
+  const direction = query.order === "asc" ? asc : desc;
+  return {
+    where: and(after, within(updatedAt, query.ranges?.updatedAt)),
+    orderBy: [direction(updatedAt), direction(id)],
+  };
+}
+
+// Postgres-backed storage with the same behaviour as MemStorage. Selected when DATABASE_URL is set;
+// the schema is created from the drizzle migrations in /migrations.
+export class DatabaseStorage implements IStorage {
+  private db: Database;
+  public sessionStore: session.Store;
+  private taskService = new TaskService(this);
+
+  // Connects to DATABASE_URL (or the given connection string), or uses an already open database,
+  // in which case sessions are kept in the given store or in memory
+  constructor(connection?: string | Database, sessionStore?: session.Store) {
+    if (connection && typeof connection !== "string") {
+      this.db = connection;
+      this.sessionStore = sessionStore ?? new MemoryStore({ checkPeriod: 86400000 });
+      return;
+    }
+
+    const { pool, db } = createDb(connection);
+    this.db = db;
+    this.sessionStore = new PostgresSessionStore({
+      pool: pool as any,
+      createTableIfMissing: true,
+    });
+  }
+
+  // Add test alerts for a specific user on login/registration
+  async addTestAlertsForUser(userId: string, organizationId: string = "sample-org-123"): Promise<void> {
+    const testAlerts: Notification[] = [
+      {
+        id: `test-alert-1-${userId}`,
+        organizationId,
+        userId: null,
+        type: "inventory_low",
+        title: "Low Stock Alert",
+        message: "3 SKUs have stock below reorder level",
+        icon: "AlertTriangle",
+        priority: "high",
+        isRead: "false",
+        readBy: {},
+        metadata: { productCount: 3, products: ["SKU-001", "SKU-007", "SKU-012"], skus: ["Widget Pro", "Phone Case", "USB Cable"] },
+        createdAt: new Date(),
+        expiresAt: null,
+      },
+      {
+        id: `test-alert-2-${userId}`,
+        organizationId,
+        userId: null,
+        type: "api_connection_failed",
+        title: "Sync Failed",
+        message: "Amazon sync failed – API key missing",
+        icon: "WifiOff",
+        priority: "critical",
+        isRead: "false",
+        readBy: {},
+        metadata: { platform: "Amazon", error: "Invalid API credentials", lastSync: new Date(Date.now() - 2 * HOUR_MS) },
+        createdAt: new Date(),
+        expiresAt: null,
+      },
+      {
+        id: `test-alert-3-${userId}`,
+        organizationId,
+        userId: null,
+        type: "no_upload",
+        title: "Data Upload Missing",
+        message: "No CSV uploaded in 7 days",
+        icon: "Upload",
+        priority: "medium",
+        isRead: "false",
+        readBy: {},
+        metadata: { lastUpload: new Date(Date.now() - 7 * 24 * HOUR_MS), daysSinceUpload: 7, expectedFrequency: "daily" },
+        createdAt: new Date(),
+        expiresAt: null,
+      },
+    ];
+
+    // Replace any test alerts left from a previous login
+    for (const alert of testAlerts) {
+      await this.db.delete(notifications).where(eq(notifications.id, alert.id));
+    }
+    await this.db.insert(notifications).values(testAlerts);
+  }
+
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.email, email));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    // Create organization for admin users
+    let organizationId: string | null = null;
+    if (insertUser.role === "admin") {
+      const org = await this.createOrganization(insertUser.companyName, insertUser.email);
+      organizationId = org.id;
+    }
+
+    const [user] = await this.db.insert(users).values({
+      ...insertUser,
+      id: randomUUID(),
+      username: insertUser.email, // Use email as username
+      role: insertUser.role || "viewer",
+      organizationId,
+      onboardingComplete: "false",
+      platformConnections: {},
+      baseCurrency: "USD",
+      invitedBy: null,
+    }).returning();
+    return user;
+  }
+
+  async updateUserOnboarding(userId: string, complete: boolean): Promise<void> {
+    await this.db.update(users).set({ onboardingComplete: complete ? "true" : "false" }).where(eq(users.id, userId));
+  }
+
+  async updateUserPlatformConnections(userId: string, connections: PlatformConnections): Promise<void> {
+    await this.db.update(users).set({ platformConnections: connections }).where(eq(users.id, userId));
+  }
+
+  // One onboarding record per user; saving again replaces it
+  async saveOnboardingData(userId: string, data: InsertOnboardingData): Promise<OnboardingData> {
+    await this.db.delete(onboardingData).where(eq(onboardingData.userId, userId));
+    const [onboarding] = await this.db.insert(onboardingData).values({ ...data, id: randomUUID(), userId }).returning();
+    return onboarding;
+  }
+
+  async getOnboardingData(userId: string): Promise<OnboardingData | undefined> {
+    const [onboarding] = await this.db.select().from(onboardingData).where(eq(onboardingData.userId, userId));
+    return onboarding;
+  }
+
+  // Team management methods
+  async createOrganization(name: string, createdBy: string): Promise<Organization> {
+    const [organization] = await this.db.insert(organizations).values({ id: randomUUID(), name, createdBy }).returning();
+    return organization;
+  }
+
+  async getOrganization(id: string): Promise<Organization | undefined> {
+    const [organization] = await this.db.select().from(organizations).where(eq(organizations.id, id));
+    return organization;
+  }
+
+  async getTeamMembers(organizationId: string): Promise<User[]> {
+    return this.db.select().from(users).where(eq(users.organizationId, organizationId));
+  }
+
+  async inviteTeamMember(organizationId: string, invitedBy: string, memberData: InviteTeamMemberData): Promise<TeamInvitation> {
+    let [invitation] = await this.db.insert(teamInvitations).values({
+      id: randomUUID(),
+      email: memberData.email,
+      role: memberData.role,
+      organizationId,
+      invitedBy,
+      status: "pending",
+    }).returning();
+
+    // Simulate auto-accepting invitation by creating user
+    const existingUser = await this.getUserByEmail(memberData.email);
+    if (!existingUser) {
+      await this.db.insert(users).values({
+        id: randomUUID(),
+        username: memberData.email,
+        password: "temp-password-123", // In real app, would send email with setup link
+        fullName: memberData.email.split('@')[0],
+        email: memberData.email,
+        companyName: "",
+        role: memberData.role,
+        organizationId,
+        onboardingComplete: "false",
+        platformConnections: {},
+        baseCurrency: "USD",
+        invitedBy,
+      });
+
+      [invitation] = await this.db.update(teamInvitations)
+        .set({ status: "accepted" })
+        .where(eq(teamInvitations.id, invitation.id))
+        .returning();
+    }
+
+    return invitation;
+  }
+
+  async updateTeamMemberRole(organizationId: string, memberData: UpdateTeamMemberData): Promise<User | undefined> {
+    const [user] = await this.db.update(users)
+      .set({ role: memberData.role })
+      .where(and(eq(users.id, memberData.userId), eq(users.organizationId, organizationId)))
+      .returning();
+    return user;
+  }
+
+  async removeTeamMember(organizationId: string, userId: string): Promise<void> {
+    await this.db.delete(users).where(and(eq(users.id, userId), eq(users.organizationId, organizationId)));
+  }
+
+  async getTeamInvitations(organizationId: string): Promise<TeamInvitation[]> {
+    return this.db.select().from(teamInvitations).where(eq(teamInvitations.organizationId, organizationId));
+  }
+
+  // Notification methods
+  async createNotification(organizationId: string, notificationData: CreateNotificationData): Promise<Notification> {
+    const [notification] = await this.db.insert(notifications).values({
+      id: randomUUID(),
+      organizationId,
+      userId: notificationData.userId || null,
+      type: notificationData.type,
+      title: notificationData.title,
+      message: notificationData.message,
+      icon: notificationData.icon,
+      priority: notificationData.priority,
+      isRead: "false",
+      readBy: {},
+      metadata: notificationData.metadata,
+      expiresAt: notificationData.expiresAt ? new Date(notificationData.expiresAt) : null,
+    }).returning();
+    return notification;
+  }
+
+  async getNotifications(organizationId: string, userId?: string): Promise<Notification[]> {
+    const rows = await this.db.select().from(notifications)
+      .where(and(
+        eq(notifications.organizationId, organizationId),
+        or(isNull(notifications.expiresAt), gte(notifications.expiresAt, new Date())),
+        userId ? or(isNull(notifications.userId), eq(notifications.userId, userId)) : isNull(notifications.userId),
+      ))
+      .orderBy(desc(notifications.createdAt));
+
+    // Hide notifications this user has already read
+    if (!userId) return rows;
+    return rows.filter(notification => {
+      const readBy = notification.readBy as Record<string, boolean> | null;
+      return !readBy || !readBy[userId];
+    });
+  }
+
+  async markNotificationAsRead(notificationId: string, userId: string): Promise<void> {
+    const [notification] = await this.db.select().from(notifications).where(eq(notifications.id, notificationId));
+    if (!notification) return;
+
+    const readBy = { ...(notification.readBy as Record<string, boolean> | null), [userId]: true };
+    await this.db.update(notifications).set({ readBy }).where(eq(notifications.id, notificationId));
+  }
+
+  async deleteExpiredNotifications(): Promise<void> {
+    await this.db.delete(notifications).where(lt(notifications.expiresAt, new Date()));
+  }
+
+  // Action Center Event methods
+  async createEvent(eventData: CreateEventData): Promise<Event> {
+    const [event] = await this.db.insert(events).values({
+      id: randomUUID(),
+      type: eventData.type,
+      sku: eventData.sku || null,
+      channel: eventData.channel || null,
+      payload: eventData.payload,
+      severity: eventData.severity,
+      occurredAt: new Date(),
+      status: "OPEN",
+    }).returning();
+    return event;
+  }
+
+  async getEvents(filters?: { status?: string, type?: string, severity?: string, summary?: boolean }): Promise<Event[] | { events: Event[], summary: any }> {
+    const list = await this.db.select().from(events)
+      .where(and(
+        filters?.status ? eq(events.status, filters.status as Event["status"] & string) : undefined,
+        filters?.type ? eq(events.type, filters.type as Event["type"]) : undefined,
+        filters?.severity ? eq(events.severity, filters.severity as Event["severity"]) : undefined,
+      ))
+      .orderBy(desc(events.occurredAt));
+
+    if (filters?.summary) {
+      const summary = {
+        total: list.length,
+        open: list.filter(e => e.status === "OPEN").length,
+        handled: list.filter(e => e.status === "HANDLED").length,
+        bySeverity: {
+          LOW: list.filter(e => e.severity === "LOW").length,
+          MEDIUM: list.filter(e => e.severity === "MEDIUM").length,
+          HIGH: list.filter(e => e.severity === "HIGH").length,
+        },
+      };
+      return { events: list, summary };
+    }
+
+    return list;
+  }
+
+  async getEvent(id: string): Promise<Event | undefined> {
+    const [event] = await this.db.select().from(events).where(eq(events.id, id));
+    return event;
+  }
+
+  async updateEvent(id: string, updates: Partial<Event>): Promise<Event | undefined> {
+    const { id: _id, ...values } = updates;
+    const [event] = await this.db.update(events).set(values).where(eq(events.id, id)).returning();
+    return event;
+  }
+
+  // Action Center Task methods
+  async createTask(taskData: Omit<InsertTask, "id">): Promise<Task> {
+    const now = new Date();
+    const [task] = await this.db.insert(tasks).values({
+      ...taskData,
+      id: randomUUID(),
+      status: taskData.status || "OPEN",
+      escalationLevel: taskData.escalationLevel || 0,
+      createdAt: now,
+      updatedAt: now,
+    }).returning();
+    return task;
+  }
+
+  async getTasks(filters?: { status?: string, assigneeId?: string, type?: string, priority?: string, overdue?: boolean }): Promise<Task[]> {
+    const list = await this.db.select().from(tasks).where(and(
+      filters?.status ? eq(tasks.status, filters.status as Task["status"] & string) : undefined,
+      filters?.assigneeId ? eq(tasks.assigneeId, filters.assigneeId) : undefined,
+      filters?.type ? eq(tasks.type, filters.type as Task["type"]) : undefined,
+      filters?.priority ? eq(tasks.priority, filters.priority as Task["priority"]) : undefined,
+    ));
+
+    const now = new Date();
+    return sortTasks(filters?.overdue ? list.filter(t => t.dueAt && t.dueAt < now && t.status !== "DONE") : list);
+  }
+
+  async getTask(id: string): Promise<Task | undefined> {
+    const [task] = await this.db.select().from(tasks).where(eq(tasks.id, id));
+    return task;
+  }
+
+  async updateTask(id: string, updates: UpdateTaskData): Promise<Task | undefined> {
+    const task = await this.getTask(id);
+    if (!task) return undefined;
+
+    const now = new Date();
+    const [updatedTask] = await this.db.update(tasks)
+      .set({ ...updates, updatedAt: now, dueAt: updates.dueAt ? new Date(updates.dueAt) : task.dueAt })
+      .where(eq(tasks.id, id))
+      .returning();
+
+    // Log activity for changes
+    if (updates.status && updates.status !== task.status) {
+      await this.createActivity({
+        id: randomUUID(),
+        taskId: id,
+        type: "STATUS_CHANGE",
+        meta: { oldStatus: task.status, newStatus: updates.status },
+        createdAt: now,
+      });
+    }
+
+    if (updates.assigneeId !== undefined && updates.assigneeId !== task.assigneeId) {
+      await this.createActivity({
+        id: randomUUID(),
+        taskId: id,
+        type: "ASSIGN",
+        meta: { oldAssigneeId: task.assigneeId, newAssigneeId: updates.assigneeId },
+        createdAt: now,
+      });
+    }
+
+    if (updates.dueAt && updates.dueAt !== task.dueAt?.toISOString()) {
+      await this.createActivity({
+        id: randomUUID(),
+        taskId: id,
+        type: "DUE_CHANGE",
+        meta: { oldDueAt: task.dueAt, newDueAt: updates.dueAt },
+        createdAt: now,
+      });
+    }
+
+    return updatedTask;
+  }
+
+  async resolveTask(id: string): Promise<{ task: Task, event: Event }> {
+    const task = await this.updateTask(id, { status: "DONE" });
+    if (!task) throw new Error("Task not found");
+
+    if (task.sourceEventId) {
+      const event = await this.updateEvent(task.sourceEventId, { status: "HANDLED" });
+      if (event) {
+        return { task, event };
+      }
+    }
+
+    throw new Error("Unable to resolve task - event not found");
+  }
+
+  async getTaskByEventId(eventId: string): Promise<Task | undefined> {
+    const [task] = await this.db.select().from(tasks).where(eq(tasks.sourceEventId, eventId));
+    return task;
+  }
+
+  // Purchase Order methods
+  async createPurchaseOrder(poData: InsertPurchaseOrder): Promise<PurchaseOrder> {
+    const now = new Date();
+    const [po] = await this.db.insert(purchaseOrders).values({
+      id: randomUUID(),
+      ...poData,
+      notes: poData.notes || null,
+      linkedTaskId: poData.linkedTaskId || null,
+      supplierEmail: poData.supplierEmail || null,
+      status: "DRAFT",
+      sentAt: null,
+      createdAt: now,
+      updatedAt: now,
+    }).returning();
+    return po;
+  }
+
+  async getPurchaseOrders(organizationId: string, filters?: { status?: string }): Promise<PurchaseOrder[]> {
+    return this.db.select().from(purchaseOrders).where(and(
+      eq(purchaseOrders.workspaceId, organizationId),
+      filters?.status ? eq(purchaseOrders.status, filters.status as PurchaseOrder["status"]) : undefined,
+    ));
+  }
+
+  async getPurchaseOrder(id: string): Promise<PurchaseOrder | undefined> {
+    const [po] = await this.db.select().from(purchaseOrders).where(eq(purchaseOrders.id, id));
+    return po;
+  }
+
+  async lockPurchaseOrder(id: string): Promise<PurchaseOrder | undefined> {
+    const [po] = await this.db.select().from(purchaseOrders).where(eq(purchaseOrders.id, id)).for("update");
+    return po;
+  }
+
+  async updatePurchaseOrder(id: string, updates: Partial<PurchaseOrder>): Promise<PurchaseOrder | undefined> {
+    const { id: _id, ...values } = updates;
+    const [po] = await this.db.update(purchaseOrders)
+      .set({ ...values, updatedAt: new Date() })
+      .where(eq(purchaseOrders.id, id))
+      .returning();
+    return po;
+  }
+
+  async deletePurchaseOrder(id: string): Promise<void> {
+    await this.db.delete(purchaseOrders).where(eq(purchaseOrders.id, id));
+  }
+
+  // Goods receipt methods
+  async createGoodsReceipt(receiptData: InsertGoodsReceipt): Promise<GoodsReceipt> {
+    const now = new Date();
+    const [receipt] = await this.db.insert(goodsReceipts).values({
+      ...receiptData,
+      id: randomUUID(),
+      lines: receiptData.lines || [],
+      hasVariance: receiptData.hasVariance || false,
+      closedShort: receiptData.closedShort || false,
+      supplierDeliveryId: receiptData.supplierDeliveryId || null,
+      notes: receiptData.notes || null,
+      receivedBy: receiptData.receivedBy || null,
+      receivedAt: receiptData.receivedAt || now,
+      createdAt: now,
+    }).returning();
+    return receipt;
+  }
+
+  async getGoodsReceipts(purchaseOrderId: string): Promise<GoodsReceipt[]> {
+    return this.db.select().from(goodsReceipts)
+      .where(eq(goodsReceipts.purchaseOrderId, purchaseOrderId))
+      .orderBy(asc(goodsReceipts.receivedAt));
+  }
+
+  // Supplier bill methods
+  async createSupplierBill(billData: InsertSupplierBill): Promise<SupplierBill> {
+    const now = new Date();
+    const [bill] = await this.db.insert(supplierBills).values({
+      ...billData,
+      id: randomUUID(),
+      billDate: billData.billDate || now,
+      dueDate: billData.dueDate || null,
+      lines: billData.lines || [],
+      totals: billData.totals || { subtotal: 0, tax: 0, grandTotal: 0 },
+      matchStatus: billData.matchStatus || "PENDING",
+      matchResult: billData.matchResult || null,
+      eventId: billData.eventId || null,
+      taskId: billData.taskId || null,
+      notes: billData.notes || null,
+      createdAt: now,
+      updatedAt: now,
+    }).returning();
+    return bill;
+  }
+
+  async getSupplierBills(purchaseOrderId: string): Promise<SupplierBill[]> {
+    return this.db.select().from(supplierBills)
+      .where(eq(supplierBills.purchaseOrderId, purchaseOrderId))
+      .orderBy(asc(supplierBills.createdAt));
+  }
+
+  async getWorkspaceSupplierBills(workspaceId: string): Promise<SupplierBill[]> {
+    return this.db.select().from(supplierBills)
+      .where(eq(supplierBills.workspaceId, workspaceId))
+      .orderBy(asc(supplierBills.createdAt));
+  }
+
+  async getSupplierBill(id: string): Promise<SupplierBill | undefined> {
+    const [bill] = await this.db.select().from(supplierBills).where(eq(supplierBills.id, id));
+    return bill;
+  }
+
+  async updateSupplierBill(id: string, updates: Partial<SupplierBill>): Promise<SupplierBill | undefined> {
+    const { id: _id, ...values } = updates;
+    const [bill] = await this.db.update(supplierBills)
+      .set({ ...values, updatedAt: new Date() })
+      .where(eq(supplierBills.id, id))
+      .returning();
+    return bill;
+  }
+
+  // Task Collaboration methods
+  async createComment(taskId: string, authorId: string, commentData: CreateCommentData): Promise<Comment> {
+    const now = new Date();
+    const [comment] = await this.db.insert(comments).values({
+      id: randomUUID(),
+      taskId,
+      authorId,
+      message: commentData.message,
+      createdAt: now,
+    }).returning();
+
+    await this.createActivity({
+      id: randomUUID(),
+      taskId,
+      type: "COMMENT",
+      meta: { commentId: comment.id, authorId },
+      createdAt: now,
+    });
+
+    return comment;
+  }
+
+  async getTaskComments(taskId: string): Promise<Comment[]> {
+    return this.db.select().from(comments).where(eq(comments.taskId, taskId)).orderBy(asc(comments.createdAt));
+  }
+
+  async getTaskActivity(taskId: string): Promise<Activity[]> {
+    return this.db.select().from(activities).where(eq(activities.taskId, taskId)).orderBy(desc(activities.createdAt));
+  }
+
+  async createActivity(activityData: InsertActivity): Promise<Activity> {
+    const [activity] = await this.db.insert(activities).values({
+      ...activityData,
+      meta: activityData.meta || {},
+      createdAt: activityData.createdAt || new Date(),
+    }).returning();
+    return activity;
+  }
+
+  // Rules methods
+  async getRules(): Promise<Rule[]> {
+    return this.db.select().from(rules).orderBy(asc(rules.position), asc(rules.createdAt));
+  }
+
+  async getRule(id: string): Promise<Rule | undefined> {
+    const [rule] = await this.db.select().from(rules).where(eq(rules.id, id));
+    return rule;
+  }
+
+  async createRule(ruleData: CreateRuleData): Promise<Rule> {
+    // New rules are evaluated last unless a position is given
+    const existing = await this.getRules();
+    const lastPosition = Math.max(-1, ...existing.map(rule => rule.position));
+
+    const [rule] = await this.db.insert(rules).values({
+      id: randomUUID(),
+      name: ruleData.name,
+      position: ruleData.position ?? lastPosition + 1,
+      enabled: ruleData.enabled,
+      stopProcessing: ruleData.stopProcessing,
+      conditions: ruleData.conditions,
+      actions: ruleData.actions,
+    }).returning();
+    return rule;
+  }
+
+  async updateRule(id: string, updates: UpdateRuleData): Promise<Rule | undefined> {
+    const [rule] = await this.db.update(rules).set({ ...updates, updatedAt: new Date() }).where(eq(rules.id, id)).returning();
+    return rule;
+  }
+
+  // Renumber rules in the given order; rules not listed keep their relative order after them
+  async reorderRules(ruleIds: string[]): Promise<Rule[]> {
+    const current = await this.getRules();
+    const listed = ruleIds
+      .map(id => current.find(rule => rule.id === id))
+      .filter((rule): rule is Rule => !!rule);
+    const rest = current.filter(rule => !ruleIds.includes(rule.id));
+    const now = new Date();
+
+    await this.db.transaction(async tx => {
+      const ordered = [...listed, ...rest];
+      for (let position = 0; position < ordered.length; position++) {
+        await tx.update(rules).set({ position, updatedAt: now }).where(eq(rules.id, ordered[position].id));
+      }
+    });
+
+    return this.getRules();
+  }
+
+  async deleteRule(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(rules).where(eq(rules.id, id)).returning({ id: rules.id });
+    return deleted.length > 0;
+  }
+
+  // SLA escalation methods
+  async getEscalationPolicies(): Promise<EscalationPolicy[]> {
+    return this.db.select().from(escalationPolicies).orderBy(asc(escalationPolicies.createdAt));
+  }
+
+  async createEscalationPolicy(policyData: CreateEscalationPolicyData): Promise<EscalationPolicy> {
+    const [policy] = await this.db.insert(escalationPolicies).values({
+      id: randomUUID(),
+      ...policyData,
+      taskType: policyData.taskType || null,
+      priority: policyData.priority || null,
+      reassignTo: policyData.reassignTo || null,
+    }).returning();
+    return policy;
+  }
+
+  async updateEscalationPolicy(id: string, updates: UpdateEscalationPolicyData): Promise<EscalationPolicy | undefined> {
+    const [policy] = await this.db.update(escalationPolicies)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(escalationPolicies.id, id))
+      .returning();
+    return policy;
+  }
+
+  async deleteEscalationPolicy(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(escalationPolicies).where(eq(escalationPolicies.id, id)).returning({ id: escalationPolicies.id });
+    return deleted.length > 0;
+  }
+
+  // Applied by the sweeper; updatedAt is left alone so it keeps tracking when someone last worked the task
+  async escalateTask(id: string, escalation: { priority?: Task["priority"], assigneeId?: string, escalatedAt: Date, meta: Pick<EscalationActivityMeta, "policyId" | "policyName" | "trigger" | "hours" | "reason"> }): Promise<Task | undefined> {
+    const task = await this.getTask(id);
+    if (!task) return undefined;
+
+    const now = escalation.escalatedAt;
+    const [updatedTask] = await this.db.update(tasks)
+      .set({
+        priority: escalation.priority || task.priority,
+        assigneeId: escalation.assigneeId || task.assigneeId,
+        escalationLevel: task.escalationLevel + 1,
+        lastEscalatedAt: now,
+      })
+      .where(eq(tasks.id, id))
+      .returning();
+
+    const meta: EscalationActivityMeta = {
+      ...escalation.meta,
+      level: updatedTask.escalationLevel,
+      oldPriority: task.priority,
+      newPriority: updatedTask.priority,
+      oldAssigneeId: task.assigneeId,
+      newAssigneeId: updatedTask.assigneeId,
+    };
+    await this.createActivity({ id: randomUUID(), taskId: id, type: "ESCALATION", meta, createdAt: now });
+
+    return updatedTask;
+  }
+
+  // Reconciliation Methods
+  async createReconBatch(batchData: InsertReconBatch): Promise<ReconBatch> {
+    const [batch] = await this.db.insert(reconBatches).values({
+      ...batchData,
+      id: batchData.id || randomUUID(),
+      notes: batchData.notes || null,
+      periodFrom: batchData.periodFrom || null,
+      periodTo: batchData.periodTo || null,
+      updatedAt: null,
+      mismatchedCount: batchData.mismatchedCount || 0,
+      expectedBaseTotal: batchData.expectedBaseTotal || 0,
+      paidBaseTotal: batchData.paidBaseTotal || 0,
+      diffBaseTotal: batchData.diffBaseTotal || 0,
+      ordersTotal: batchData.ordersTotal || 0,
+      fxSnapshots: batchData.fxSnapshots || [],
+      createdAt: new Date(),
+    }).returning();
+    return batch;
+  }
+
+  async createReconRow(rowData: InsertReconRow): Promise<ReconRow> {
+    const now = new Date();
+    const [row] = await this.db.insert(reconRows).values({
+      ...rowData,
+      id: rowData.id || randomUUID(),
+      status: rowData.status || "PENDING",
+      notes: rowData.notes || null,
+      taskId: rowData.taskId || null,
+      eventId: rowData.eventId || null,
+      orderDate: rowData.orderDate || null,
+      fxRateDate: rowData.fxRateDate || null,
+      createdAt: now,
+      updatedAt: now,
+    }).returning();
+    return row;
+  }
+
+  async getReconBatches(filters?: { region?: string, source?: string, limit?: number, offset?: number }): Promise<ReconBatch[]> {
+    const query = this.db.select().from(reconBatches)
+      .where(and(
+        filters?.region ? eq(reconBatches.region, filters.region as ReconBatch["region"]) : undefined,
+        filters?.source ? eq(reconBatches.source, filters.source as ReconBatch["source"]) : undefined,
+      ))
+      .orderBy(desc(reconBatches.createdAt))
+      .$dynamic();
+
+    if (filters?.offset) query.offset(filters.offset);
+    if (filters?.limit) query.limit(filters.limit);
+    return query;
+  }
+
+  async getReconBatch(id: string): Promise<ReconBatch | undefined> {
+    const [batch] = await this.db.select().from(reconBatches).where(eq(reconBatches.id, id));
+    return batch;
+  }
+
+  async getReconRows(batchId: string, filters?: { status?: string, hasDiff?: boolean, limit?: number, offset?: number }): Promise<ReconRow[]> {
+    const query = this.db.select().from(reconRows)
+      .where(and(
+        eq(reconRows.batchId, batchId),
+        filters?.status ? eq(reconRows.status, filters.status as ReconRow["status"]) : undefined,
+        // More than 1 cent difference
+        filters?.hasDiff ? or(gt(reconRows.diffBase, 1), lt(reconRows.diffBase, -1)) : undefined,
+      ))
+      .orderBy(asc(reconRows.createdAt))
+      .$dynamic();
+
+    if (filters?.offset) query.offset(filters.offset);
+    if (filters?.limit) query.limit(filters.limit);
+    return query;
+  }
+
+  async getReconRow(id: string): Promise<ReconRow | undefined> {
+    const [row] = await this.db.select().from(reconRows).where(eq(reconRows.id, id));
+    return row;
+  }
+
+  async updateReconRow(id: string, updates: UpdateReconRowData): Promise<ReconRow | undefined> {
+    const [row] = await this.db.update(reconRows).set({ ...updates, updatedAt: new Date() }).where(eq(reconRows.id, id)).returning();
+    return row;
+  }
+
+  async updateReconBatch(id: string, updates: Partial<ReconBatch>): Promise<ReconBatch | undefined> {
+    const { id: _id, ...values } = updates;
+    const [batch] = await this.db.update(reconBatches)
+      .set({ ...values, updatedAt: new Date() })
+      .where(eq(reconBatches.id, id))
+      .returning();
+    return batch;
+  }
+
+  async updateReconBatchTotals(batchId: string, totals: { expectedBaseTotal: number, paidBaseTotal: number, diffBaseTotal: number, ordersTotal: number, mismatchedCount: number }): Promise<void> {
+    await this.db.update(reconBatches).set(totals).where(eq(reconBatches.id, batchId));
+  }
+
+  // FX rate snapshot methods
+  async createFxRateSnapshot(snapshotData: InsertFxRateSnapshot): Promise<FxRateSnapshot> {
+    // One snapshot per day - replace any existing snapshot for the same date
+    const values = {
+      ...snapshotData,
+      base: snapshotData.base || "USD",
+      fetchedAt: snapshotData.fetchedAt || new Date(),
+    };
+    const [snapshot] = await this.db.insert(fxRateSnapshots)
+      .values({ ...values, id: snapshotData.id || randomUUID() })
+      .onConflictDoUpdate({
+        target: fxRateSnapshots.date,
+        set: { sourceDate: values.sourceDate, base: values.base, rates: values.rates, provider: values.provider, fetchedAt: values.fetchedAt },
+      })
+      .returning();
+    return snapshot;
+  }
+
+  async getFxRateSnapshot(date: string): Promise<FxRateSnapshot | undefined> {
+    const [snapshot] = await this.db.select().from(fxRateSnapshots).where(eq(fxRateSnapshots.date, date));
+    return snapshot;
+  }
+
+  async getFxRateSnapshots(filters?: { from?: string, to?: string, limit?: number }): Promise<FxRateSnapshot[]> {
+    const query = this.db.select().from(fxRateSnapshots)
+      .where(and(
+        filters?.from ? gte(fxRateSnapshots.date, filters.from) : undefined,
+        filters?.to ? lte(fxRateSnapshots.date, filters.to) : undefined,
+      ))
+      .orderBy(desc(fxRateSnapshots.date))
+      .$dynamic();
+
+    if (filters?.limit) query.limit(filters.limit);
+    return query;
+  }
+
+  // Simple Purchase Orders for manual restock feature
+  async createSimplePurchaseOrder(poData: InsertSimplePurchaseOrder): Promise<SimplePurchaseOrder> {
+    const now = new Date();
+    const [po] = await this.db.insert(simplePurchaseOrders).values({
+      id: randomUUID(),
+      ...poData,
+      date: now,
+      status: "DRAFT",
+      createdAt: now,
+    }).returning();
+    return po;
+  }
+
+  async getSimplePurchaseOrders(): Promise<SimplePurchaseOrder[]> {
+    return this.db.select().from(simplePurchaseOrders).orderBy(desc(simplePurchaseOrders.createdAt));
+  }
+
+  async updateSimplePurchaseOrderStatus(id: string, status: string): Promise<SimplePurchaseOrder | undefined> {
+    const [po] = await this.db.update(simplePurchaseOrders)
+      .set({ status: status as SimplePurchaseOrder["status"] })
+      .where(eq(simplePurchaseOrders.id, id))
+      .returning();
+    return po;
+  }
+
+  // Restock Autopilot - Supplier methods
+  async createSupplier(supplierData: InsertSupplier): Promise<Supplier> {
+    const now = new Date();
+    const [supplier] = await this.db.insert(suppliers).values({
+      id: randomUUID(),
+      ...supplierData,
+      address: supplierData.address || null,
+      email: supplierData.email || null,
+      phone: supplierData.phone || null,
+      notes: supplierData.notes || null,
+      minOrderQty: supplierData.minOrderQty || null,
+      minOrderValue: supplierData.minOrderValue || null,
+      // SLA metrics fields with defaults
+      onTimeTargetPct: 95,
+      defectTargetPct: 5,
+      onTimeRatePct: 100,
+      defectRatePct: 0,
+      avgLeadTimeDays: 0,
+      breachCount: 0,
+      totalDeliveries: 0,
+      lastBreachDate: null,
+      createdAt: now,
+      updatedAt: now,
+    }).returning();
+    return supplier;
+  }
+
+  async getSuppliers(workspaceId: string, filters?: { sku?: string }): Promise<Supplier[]> {
+    const list = await this.db.select().from(suppliers)
+      .where(eq(suppliers.workspaceId, workspaceId))
+      .orderBy(desc(suppliers.updatedAt));
+
+    if (filters?.sku) {
+      return list.filter(s => s.skus.some(skuData => skuData.sku === filters.sku));
+    }
+    return list;
+  }
+
+  async listSuppliers(workspaceId: string, query: SupplierListQuery): Promise<Supplier[]> {
+    const filters = query.filters || {};
+    const search = query.search ? `%${query.search}%` : undefined;
+    const page = keyset(suppliers.updatedAt, suppliers.id, query);
+    return this.db.select().from(suppliers)
+      .where(and(
+        eq(suppliers.workspaceId, workspaceId),
+        search ? or(ilike(suppliers.name, search), ilike(suppliers.email, search)) : undefined,
+        anyOf(suppliers.status, filters.status),
+        anyOf(suppliers.region, filters.region),
+        anyOf(suppliers.currency, filters.currency),
+        filters.sku
+          ? sql`exists (select 1 from jsonb_array_elements(${suppliers.skus}) as item where ${anyOf(sql`item->>'sku'`, filters.sku)})`
+          : undefined,
+        within(suppliers.createdAt, query.ranges?.createdAt),
+        page.where,
+      ))
+      .orderBy(...page.orderBy)
+      .limit(query.limit);
+  }
+
+  async getSupplier(id: string): Promise<Supplier | undefined> {
+    const [supplier] = await this.db.select().from(suppliers).where(eq(suppliers.id, id));
+    return supplier;
+  }
+
+  async updateSupplier(id: string, updates: Partial<Supplier>): Promise<Supplier | undefined> {
+    const { id: _id, ...values } = updates;
+    const [supplier] = await this.db.update(suppliers)
+      .set({ ...values, updatedAt: new Date() })
+      .where(eq(suppliers.id, id))
+      .returning();
+    return supplier;
+  }
+
+  // Delivery history references the supplier, so it goes with it
+  async deleteSupplier(id: string): Promise<void> {
+    await this.db.transaction(async tx => {
+      await tx.delete(supplierDeliveries).where(eq(supplierDeliveries.supplierId, id));
+      await tx.delete(suppliers).where(eq(suppliers.id, id));
+    });
+  }
+
+  // Restock Autopilot - Reorder Policy methods
+  async createReorderPolicy(policyData: InsertReorderPolicy): Promise<ReorderPolicy> {
+    const now = new Date();
+    // Replaces any existing policy for this SKU
+    return this.db.transaction(async tx => {
+      await tx.delete(reorderPolicies).where(and(
+        eq(reorderPolicies.workspaceId, policyData.workspaceId),
+        eq(reorderPolicies.sku, policyData.sku),
+      ));
+
+      const [policy] = await tx.insert(reorderPolicies).values({
+        id: randomUUID(),
+        ...policyData,
+        maxDaysCover: policyData.maxDaysCover || null,
+        createdAt: now,
+        updatedAt: now,
+      }).returning();
+      return policy;
+    });
+  }
+
+  async getReorderPolicy(workspaceId: string, sku: string): Promise<ReorderPolicy | undefined> {
+    const [policy] = await this.db.select().from(reorderPolicies)
+      .where(and(eq(reorderPolicies.workspaceId, workspaceId), eq(reorderPolicies.sku, sku)));
+    return policy;
+  }
+
+  async updateReorderPolicy(workspaceId: string, sku: string, updates: Partial<ReorderPolicy>): Promise<ReorderPolicy | undefined> {
+    const { id: _id, ...values } = updates;
+    const [policy] = await this.db.update(reorderPolicies)
+      .set({ ...values, updatedAt: new Date() })
+      .where(and(eq(reorderPolicies.workspaceId, workspaceId), eq(reorderPolicies.sku, sku)))
+      .returning();
+    return policy;
+  }
+
+  async getReorderPolicies(workspaceId: string): Promise<ReorderPolicy[]> {
+    return this.db.select().from(reorderPolicies)
+      .where(eq(reorderPolicies.workspaceId, workspaceId))
+      .orderBy(asc(reorderPolicies.sku));
+  }
+
+  // Inventory level methods - one row per workspace/product/location
+  async getInventoryLevels(workspaceId: string, filters?: { productId?: string, productIds?: string[], locationId?: string }): Promise<InventoryLevel[]> {
+    return this.db.select().from(inventoryLevels).where(and(
+      eq(inventoryLevels.workspaceId, workspaceId),
+      filters?.productId ? eq(inventoryLevels.productId, filters.productId) : undefined,
+      filters?.productIds ? inArray(inventoryLevels.productId, filters.productIds) : undefined,
+      filters?.locationId ? eq(inventoryLevels.locationId, filters.locationId) : undefined,
+    ));
+  }
+
+  async listInventoryLevels(workspaceId: string, query: InventoryLevelListQuery): Promise<InventoryLevel[]> {
+    const filters = query.filters || {};
+    // The catalogue product stocked under the level's SKU
+    const catalogue = (column: PgColumn) => sql`(
+      select ${column} from ${products}
+      where ${products.workspaceId} = ${inventoryLevels.workspaceId} and ${products.sku} = ${inventoryLevels.productId}
+      limit 1
+    )`;
+    const page = keyset(inventoryLevels.updatedAt, inventoryLevels.id, query);
+    return this.db.select().from(inventoryLevels)
+      .where(and(
+        eq(inventoryLevels.workspaceId, workspaceId),
+        query.lowStock ? lte(inventoryLevels.onHand, inventoryLevels.reorderPoint) : undefined,
+        anyOf(inventoryLevels.productId, filters.sku),
+        anyOf(catalogue(products.id), filters.catalogueId),
+        anyOf(inventoryLevels.locationId, filters.locationId),
+        anyOf(sql`coalesce(nullif(${catalogue(products.category)}, ''), 'Uncategorized')`, filters.category),
+        page.where,
+      ))
+      .orderBy(...page.orderBy)
+      .limit(query.limit);
+  }
+
+  async upsertInventoryLevel(levelData: InsertInventoryLevel): Promise<InventoryLevel> {
+    const [existing] = await this.getInventoryLevels(levelData.workspaceId, {
+      productId: levelData.productId,
+      locationId: levelData.locationId,
+    });
+
+    const values = {
+      workspaceId: levelData.workspaceId,
+      productId: levelData.productId,
+      locationId: levelData.locationId,
+      onHand: levelData.onHand ?? existing?.onHand ?? 0,
+      onOrder: levelData.onOrder ?? existing?.onOrder ?? 0,
+      reorderPoint: levelData.reorderPoint ?? existing?.reorderPoint ?? 0,
+      safetyStock: levelData.safetyStock ?? existing?.safetyStock ?? 0,
+      reorderQty: levelData.reorderQty ?? existing?.reorderQty ?? 0,
+      cost: levelData.cost ?? existing?.cost ?? null,
+      updatedAt: new Date(),
+    };
+
+    if (existing) {
+      const [level] = await this.db.update(inventoryLevels).set(values).where(eq(inventoryLevels.id, existing.id)).returning();
+      return level;
+    }
+
+    const [level] = await this.db.insert(inventoryLevels).values({ ...values, id: randomUUID() }).returning();
+    return level;
+  }
+
+  async adjustInventoryLevel(workspaceId: string, productId: string, locationId: string, change: { onHand?: number, onOrder?: number }): Promise<InventoryLevel> {
+    const onHand = change.onHand ?? 0;
+    const onOrder = change.onOrder ?? 0;
+    const [level] = await this.db.insert(inventoryLevels)
+      .values({ id: randomUUID(), workspaceId, productId, locationId, onHand, onOrder: Math.max(0, onOrder) })
+      .onConflictDoUpdate({
+        target: [inventoryLevels.workspaceId, inventoryLevels.productId, inventoryLevels.locationId],
+        set: {
+          onHand: sql`${inventoryLevels.onHand} + ${onHand}`,
+          onOrder: sql`greatest(0, ${inventoryLevels.onOrder} + ${onOrder})`,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return level;
+  }
+
+  async lockInventoryLevel(workspaceId: string, productId: string, locationId: string, defaults: { reorderPoint?: number } = {}): Promise<InventoryLevel> {
+    // A concurrent insert of the same level waits for the other transaction, then finds its row
+    await this.db.insert(inventoryLevels)
+      .values({ id: randomUUID(), workspaceId, productId, locationId, reorderPoint: defaults.reorderPoint ?? 0 })
+      .onConflictDoNothing({ target: [inventoryLevels.workspaceId, inventoryLevels.productId, inventoryLevels.locationId] });
+    const [level] = await this.db.select().from(inventoryLevels)
+      .where(and(eq(inventoryLevels.workspaceId, workspaceId), eq(inventoryLevels.productId, productId), eq(inventoryLevels.locationId, locationId)))
+      .for("update");
+    return level;
+  }
+
+  async createInventoryMove(moveData: InsertInventoryMove): Promise<InventoryMove> {
+    const [move] = await this.db.insert(inventoryMoves).values({
+      ...moveData,
+      id: randomUUID(),
+      fromLocationId: moveData.fromLocationId || null,
+      toLocationId: moveData.toLocationId || null,
+      refType: moveData.refType || null,
+      refId: moveData.refId || null,
+      note: moveData.note || null,
+      userId: moveData.userId || null,
+      cost: moveData.cost ?? null,
+      createdAt: new Date(),
+    }).returning();
+    return move;
+  }
+
+  async getInventoryMoves(workspaceId: string, filters?: { productId?: string, refId?: string }): Promise<InventoryMove[]> {
+    return this.db.select().from(inventoryMoves)
+      .where(and(
+        eq(inventoryMoves.workspaceId, workspaceId),
+        filters?.productId ? eq(inventoryMoves.productId, filters.productId) : undefined,
+        filters?.refId ? eq(inventoryMoves.refId, filters.refId) : undefined,
+      ))
+      .orderBy(desc(inventoryMoves.createdAt));
+  }
+
+  // Reorder run methods
+  async createReorderRun(runData: InsertReorderRun): Promise<ReorderRun> {
+    const [run] = await this.db.insert(reorderRuns).values({
+      id: randomUUID(),
+      workspaceId: runData.workspaceId,
+      status: runData.status || "COMPLETED",
+      lines: runData.lines || [],
+      supplierGroups: runData.supplierGroups || [],
+      skipped: runData.skipped || [],
+      totals: runData.totals || { skusEvaluated: 0, linesProposed: 0, purchaseOrders: 0 },
+      createdBy: runData.createdBy || null,
+      createdAt: new Date(),
+    }).returning();
+    return run;
+  }
+
+  async getReorderRuns(workspaceId: string): Promise<ReorderRun[]> {
+    return this.db.select().from(reorderRuns)
+      .where(eq(reorderRuns.workspaceId, workspaceId))
+      .orderBy(desc(reorderRuns.createdAt));
+  }
+
+  async getReorderRun(id: string): Promise<ReorderRun | undefined> {
+    const [run] = await this.db.select().from(reorderRuns).where(eq(reorderRuns.id, id));
+    return run;
+  }
+
+  async updateReorderRun(id: string, updates: Partial<ReorderRun>): Promise<ReorderRun | undefined> {
+    const { id: _id, ...values } = updates;
+    const [run] = await this.db.update(reorderRuns).set(values).where(eq(reorderRuns.id, id)).returning();
+    return run;
+  }
+
+  // Workspace Settings methods
+  async getWorkspaceSettings(organizationId: string): Promise<WorkspaceSettings | undefined> {
+    const [settings] = await this.db.select().from(workspaceSettings).where(eq(workspaceSettings.organizationId, organizationId));
+    return settings;
+  }
+
+  async createWorkspaceSettings(organizationId: string, settings: InsertWorkspaceSettings): Promise<WorkspaceSettings> {
+    const [newSettings] = await this.db.insert(workspaceSettings).values({
+      id: randomUUID(),
+      organizationId,
+      orgName: settings.orgName || "Default Organization",
+      logoUrl: settings.logoUrl || null,
+      defaultCurrency: settings.defaultCurrency || "USD",
+      defaultTimezone: settings.defaultTimezone || "UTC",
+      dateFormat: settings.dateFormat || "MM/DD/YYYY",
+      numberFormat: settings.numberFormat || "US",
+      billQtyTolerancePct: settings.billQtyTolerancePct ?? 0,
+      billPriceTolerancePct: settings.billPriceTolerancePct ?? 2,
+      billAmountTolerance: settings.billAmountTolerance ?? 1,
+      financeSettings: settings.financeSettings ?? null,
+    }).returning();
+    return newSettings;
+  }
+
+  async updateWorkspaceSettings(organizationId: string, settings: Partial<WorkspaceSettings>): Promise<WorkspaceSettings> {
+    let existingSettings = await this.getWorkspaceSettings(organizationId);
+
+    if (!existingSettings) {
+      // Create default settings if none exist
+      existingSettings = await this.createWorkspaceSettings(organizationId, { organizationId });
+    }
+
+    const { id: _id, organizationId: _organizationId, ...values } = settings;
+    const [updatedSettings] = await this.db.update(workspaceSettings)
+      .set({ ...values, updatedAt: new Date() })
+      .where(eq(workspaceSettings.id, existingSettings.id))
+      .returning();
+    return updatedSettings;
+  }
+
+  // Regions methods
+  async getRegions(organizationId: string): Promise<Region[]> {
+    return this.db.select().from(regions).where(eq(regions.organizationId, organizationId));
+  }
+
+  async createRegion(organizationId: string, regionData: any): Promise<Region> {
+    const [newRegion] = await this.db.insert(regions).values({
+      id: randomUUID(),
+      organizationId,
+      name: regionData.name,
+      currency: regionData.currency || null,
+      timezone: regionData.timezone || null,
+      slaDays: regionData.slaDays || 1,
+      restockBufferPct: regionData.restockBufferPct || 20,
+      isActive: regionData.isActive !== false ? "true" : "false",
+    }).returning();
+    return newRegion;
+  }
+
+  async updateRegion(regionId: string, updates: any): Promise<Region> {
+    const { id: _id, ...values } = updates;
+    const [updatedRegion] = await this.db.update(regions)
+      .set({ ...values, updatedAt: new Date() })
+      .where(eq(regions.id, regionId))
+      .returning();
+    if (!updatedRegion) {
+      throw new Error(`Region ${regionId} not found`);
+    }
+    return updatedRegion;
+  }
+
+  async deleteRegion(regionId: string): Promise<void> {
+    await this.db.delete(regions).where(eq(regions.id, regionId));
+  }
+
+  // Notification Settings methods
+  async getNotificationSettings(organizationId: string): Promise<NotificationSettings | undefined> {
+    const [settings] = await this.db.select().from(notificationSettings).where(eq(notificationSettings.organizationId, organizationId));
+    return settings;
+  }
+
+  async createNotificationSettings(organizationId: string, settings: any): Promise<NotificationSettings> {
+    const [newSettings] = await this.db.insert(notificationSettings).values({
+      id: randomUUID(),
+      organizationId,
+      dailyDigestEnabled: settings.dailyDigestEnabled || "true",
+      digestTime: settings.digestTime || "09:00",
+      alertsEnabled: settings.alertsEnabled || "true",
+      smtpHost: settings.smtpHost || null,
+      smtpPort: settings.smtpPort || null,
+      smtpUsername: settings.smtpUsername || null,
+      smtpFromEmail: settings.smtpFromEmail || null,
+      smtpPassword: settings.smtpPassword || null,
+    }).returning();
+    return newSettings;
+  }
+
+  async updateNotificationSettings(organizationId: string, updates: any): Promise<NotificationSettings> {
+    const existing = await this.getNotificationSettings(organizationId);
+    if (!existing) {
+      return this.createNotificationSettings(organizationId, updates);
+    }
+
+    const { id: _id, organizationId: _organizationId, ...values } = updates;
+    const [updatedSettings] = await this.db.update(notificationSettings)
+      .set({ ...values, updatedAt: new Date() })
+      .where(eq(notificationSettings.id, existing.id))
+      .returning();
+    return updatedSettings;
+  }
+
+  // SLA Tracking implementation
+  async createSupplierDelivery(deliveryData: InsertSupplierDelivery): Promise<SupplierDelivery> {
+    const now = new Date();
+    const values = withBreach({
+      id: randomUUID(),
+      ...deliveryData,
+      purchaseOrderId: deliveryData.purchaseOrderId || null,
+      expectedDate: new Date(deliveryData.expectedDate),
+      actualDate: deliveryData.actualDate ? new Date(deliveryData.actualDate) : null,
+      actualLeadTimeDays: deliveryData.actualLeadTimeDays || null,
+      isDefective: deliveryData.isDefective || false,
+      defectNotes: deliveryData.defectNotes || null,
+      breachType: "NONE" as SupplierDelivery["breachType"],
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    const [delivery] = await this.db.insert(supplierDeliveries).values(values).returning();
+
+    // Update supplier SLA metrics after creating delivery
+    await this.updateSupplierSLAMetrics(delivery.supplierId);
+
+    return delivery;
+  }
+
+  async updateSupplierDelivery(id: string, updates: Partial<SupplierDelivery>): Promise<SupplierDelivery | undefined> {
+    const [delivery] = await this.db.select().from(supplierDeliveries).where(eq(supplierDeliveries.id, id));
+    if (!delivery) return undefined;
+
+    let values: SupplierDelivery = { ...delivery, ...updates, id, updatedAt: new Date() };
+    // Recalculate breach type if actualDate or defect status changed
+    if (updates.actualDate || updates.isDefective !== undefined) {
+      values = withBreach(values);
+    }
+
+    const { id: _id, ...set } = values;
+    const [updatedDelivery] = await this.db.update(supplierDeliveries).set(set).where(eq(supplierDeliveries.id, id)).returning();
+
+    await this.updateSupplierSLAMetrics(delivery.supplierId);
+
+    return updatedDelivery;
+  }
+
+  async getSupplierDelivery(id: string): Promise<SupplierDelivery | undefined> {
+    const [delivery] = await this.db.select().from(supplierDeliveries).where(eq(supplierDeliveries.id, id));
+    return delivery;
+  }
+
+  async getSupplierDeliveries(supplierId: string): Promise<SupplierDelivery[]> {
+    return this.db.select().from(supplierDeliveries)
+      .where(eq(supplierDeliveries.supplierId, supplierId))
+      .orderBy(desc(supplierDeliveries.createdAt));
+  }
+
+  async calculateSupplierSLAMetrics(supplierId: string): Promise<{ onTimeRatePct: number, defectRatePct: number, avgLeadTimeDays: number, breachCount: number, totalDeliveries: number }> {
+    const deliveries = await this.getSupplierDeliveries(supplierId);
+    const completedDeliveries = deliveries.filter(d => d.actualDate !== null);
+
+    if (completedDeliveries.length === 0) {
+      return { onTimeRatePct: 100, defectRatePct: 0, avgLeadTimeDays: 0, breachCount: 0, totalDeliveries: 0 };
+    }
+
+    const onTimeDeliveries = completedDeliveries.filter(d => d.status === "ON_TIME");
+    const defectiveDeliveries = completedDeliveries.filter(d => d.isDefective);
+    const breachedDeliveries = completedDeliveries.filter(d => d.breachType !== "NONE");
+    const totalLeadTime = completedDeliveries.reduce((sum, d) => sum + (d.actualLeadTimeDays || 0), 0);
+
+    return {
+      onTimeRatePct: (onTimeDeliveries.length / completedDeliveries.length) * 100,
+      defectRatePct: (defectiveDeliveries.length / completedDeliveries.length) * 100,
+      avgLeadTimeDays: totalLeadTime / completedDeliveries.length,
+      breachCount: breachedDeliveries.length,
+      totalDeliveries: completedDeliveries.length
+    };
+  }
+
+  async updateSupplierSLAMetrics(supplierId: string): Promise<void> {
+    const supplier = await this.getSupplier(supplierId);
+    if (!supplier) return;
+
+    const metrics = await this.calculateSupplierSLAMetrics(supplierId);
+    const hasNewBreach = metrics.breachCount > (supplier.breachCount || 0);
+
+    await this.updateSupplier(supplierId, {
+      ...metrics,
+      lastBreachDate: hasNewBreach ? new Date() : supplier.lastBreachDate,
+    });
+
+    // Generate SLA breach alert if there's a new breach
+    if (hasNewBreach) {
+      await this.taskService.createEvent({
+        type: "SYNC_ERROR", // SLA breaches are operational sync issues
+        sku: undefined,
+        channel: undefined,
+        payload: {
+          supplierId,
+          supplierName: supplier.name,
+          breachType: "SLA_VIOLATION",
+          onTimeRate: metrics.onTimeRatePct,
+          defectRate: metrics.defectRatePct,
+          targetOnTime: supplier.onTimeTargetPct || 95,
+          targetDefect: supplier.defectTargetPct || 2
+        },
+        severity: "HIGH"
+      });
+    }
+  }
+
+  async getSuppliersWithSLABreaches(workspaceId: string): Promise<Supplier[]> {
+    const list = await this.getSuppliers(workspaceId);
+    return list.filter(supplier => {
+      const onTimeBreach = (supplier.onTimeRatePct || 100) < (supplier.onTimeTargetPct || 95);
+      const defectBreach = (supplier.defectRatePct || 0) > (supplier.defectTargetPct || 2);
+      return onTimeBreach || defectBreach;
+    });
+  }
+
+  async getSupplierSLAMetrics(workspaceId: string): Promise<{ suppliers: any[], global: any }> {
+    const list = await this.getSuppliers(workspaceId);
+
+    const supplierMetrics = list.map(supplier => ({
+      supplierId: supplier.id,
+      supplierName: supplier.name,
+      onTimeRatePct: supplier.onTimeRatePct || 100,
+      defectRatePct: supplier.defectRatePct || 0,
+      avgLeadTimeDays: supplier.avgLeadTimeDays || supplier.leadTimeDays,
+      breachCount: supplier.breachCount || 0,
+      totalPOs: supplier.totalDeliveries || 0,
+      onTimeTargetPct: supplier.onTimeTargetPct || 95,
+      defectTargetPct: supplier.defectTargetPct || 2,
+    }));
+
+    const totalDeliveries = supplierMetrics.reduce((sum, s) => sum + s.totalPOs, 0);
+    const avgLeadTime = totalDeliveries > 0
+      ? supplierMetrics.reduce((sum, s) => sum + (s.avgLeadTimeDays * s.totalPOs), 0) / totalDeliveries
+      : 0;
+    const globalOnTimeRate = totalDeliveries > 0
+      ? supplierMetrics.reduce((sum, s) => sum + (s.onTimeRatePct * s.totalPOs), 0) / totalDeliveries
+      : 100;
+    const totalBreaches = supplierMetrics.reduce((sum, s) => sum + s.breachCount, 0);
+    const suppliersAtRisk = supplierMetrics.filter(s =>
+      s.onTimeRatePct < s.onTimeTargetPct || s.defectRatePct > s.defectTargetPct
+    ).length;
+
+    return {
+      suppliers: supplierMetrics,
+      global: { avgLeadTime, globalOnTimeRate, totalBreaches, suppliersAtRisk },
+    };
+  }
+
+  // Customer methods
+  async createCustomer(customerData: InsertCustomer): Promise<Customer> {
+    const [customer] = await this.db.insert(customers).values({
+      id: randomUUID(),
+      ...customerData,
+      email: customerData.email || null,
+      phone: customerData.phone || null,
+      address: customerData.address || null,
+      company: customerData.company || null,
+    }).returning();
+    return customer;
+  }
+
+  async getCustomers(workspaceId: string, filters?: { ids?: string[], search?: string, company?: string }): Promise<Customer[]> {
+    const search = filters?.search ? `%${filters.search}%` : undefined;
+    return this.db.select().from(customers)
+      .where(and(
+        eq(customers.workspaceId, workspaceId),
+        filters?.ids ? inArray(customers.id, filters.ids) : undefined,
+        search ? or(ilike(customers.name, search), ilike(customers.email, search), ilike(customers.company, search)) : undefined,
+        filters?.company ? eq(customers.company, filters.company) : undefined,
+      ))
+      .orderBy(asc(customers.name));
+  }
+
+  async listCustomers(workspaceId: string, query: CustomerListQuery): Promise<Customer[]> {
+    const filters = query.filters || {};
+    const search = query.search ? `%${query.search}%` : undefined;
+    const page = keyset(customers.updatedAt, customers.id, query);
+    return this.db.select().from(customers)
+      .where(and(
+        eq(customers.workspaceId, workspaceId),
+        search ? or(ilike(customers.name, search), ilike(customers.email, search), ilike(customers.company, search)) : undefined,
+        anyOf(customers.company, filters.company),
+        anyOf(customers.email, filters.email),
+        within(customers.createdAt, query.ranges?.createdAt),
+        page.where,
+      ))
+      .orderBy(...page.orderBy)
+      .limit(query.limit);
+  }
+
+  async getCustomer(id: string): Promise<Customer | undefined> {
+    const [customer] = await this.db.select().from(customers).where(eq(customers.id, id));
+    return customer;
+  }
+
+  async updateCustomer(id: string, updates: UpdateCustomer): Promise<Customer | undefined> {
+    const [customer] = await this.db.update(customers).set({ ...updates, updatedAt: new Date() }).where(eq(customers.id, id)).returning();
+    return customer;
+  }
+
+  // sales_orders.customer_id cascades, so the customer's orders are removed with them
+  async deleteCustomer(id: string): Promise<void> {
+    await this.db.delete(customers).where(eq(customers.id, id));
+  }
+
+  async getCustomerOrders(customerId: string): Promise<SalesOrder[]> {
+    return this.db.select().from(salesOrders)
+      .where(eq(salesOrders.customerId, customerId))
+      .orderBy(desc(salesOrders.createdAt));
+  }
+
+  // Sales Order methods
+  async createSalesOrder(orderData: InsertSalesOrder): Promise<SalesOrder> {
+    const [order] = await this.db.insert(salesOrders).values({
+      id: randomUUID(),
+      ...orderData,
+      notes: orderData.notes || null,
+      customerEmail: orderData.customerEmail || null,
+      shippingAddress: orderData.shippingAddress || null,
+      locationId: orderData.locationId || null,
+      createdAt: orderData.createdAt || new Date(),
+      updatedAt: new Date(),
+    }).returning();
+    return order;
+  }
+
+  async getSalesOrders(workspaceId: string, filters?: { ids?: string[], customerId?: string, customerIds?: string[], status?: string }): Promise<SalesOrder[]> {
+    return this.db.select().from(salesOrders)
+      .where(and(
+        eq(salesOrders.workspaceId, workspaceId),
+        filters?.ids ? inArray(salesOrders.id, filters.ids) : undefined,
+        filters?.customerId ? eq(salesOrders.customerId, filters.customerId) : undefined,
+        filters?.customerIds ? inArray(salesOrders.customerId, filters.customerIds) : undefined,
+        filters?.status ? eq(salesOrders.status, filters.status as SalesOrder["status"]) : undefined,
+      ))
+      .orderBy(desc(salesOrders.createdAt));
+  }
+
+  async listSalesOrders(workspaceId: string, query: SalesOrderListQuery): Promise<SalesOrder[]> {
+    const filters = query.filters || {};
+    const page = keyset(salesOrders.updatedAt, salesOrders.id, query);
+    return this.db.select().from(salesOrders)
+      .where(and(
+        eq(salesOrders.workspaceId, workspaceId),
+        anyOf(salesOrders.status, filters.status),
+        anyOf(salesOrders.customerId, filters.customerId),
+        anyOf(salesOrders.orderNumber, filters.orderNumber),
+        anyOf(salesOrders.currency, filters.currency),
+        anyOf(salesOrders.locationId, filters.locationId),
+        filters.sku
+          ? sql`exists (select 1 from jsonb_array_elements(${salesOrders.items}) as item where ${anyOf(sql`item->>'sku'`, filters.sku)})`
+          : undefined,
+        within(salesOrders.createdAt, query.ranges?.createdAt),
+        page.where,
+      ))
+      .orderBy(...page.orderBy)
+      .limit(query.limit);
+  }
+
+  async getSoldSkus(workspaceId: string): Promise<string[]> {
+    const rows = await this.db.selectDistinct({ sku: sql<string>`jsonb_array_elements(${salesOrders.items})->>'sku'` })
+      .from(salesOrders)
+      .where(and(eq(salesOrders.workspaceId, workspaceId), sql`${salesOrders.status} <> 'CANCELLED'`));
+    return rows.map(row => row.sku);
+  }
+
+  async getSalesOrder(id: string): Promise<SalesOrder | undefined> {
+    const [order] = await this.db.select().from(salesOrders).where(eq(salesOrders.id, id));
+    return order;
+  }
+
+  async updateSalesOrder(id: string, updates: UpdateSalesOrder): Promise<SalesOrder | undefined> {
+    const [order] = await this.db.update(salesOrders).set({ ...updates, updatedAt: new Date() }).where(eq(salesOrders.id, id)).returning();
+    return order;
+  }
+
+  async deleteSalesOrder(id: string): Promise<void> {
+    await this.db.delete(salesOrders).where(eq(salesOrders.id, id));
+  }
+
+  async getSalesOrderWorkspaceIds(): Promise<string[]> {
+    const rows = await this.db.selectDistinct({ workspaceId: salesOrders.workspaceId }).from(salesOrders);
+    return rows.map(row => row.workspaceId);
+  }
+
+  // Return (RMA) methods
+  async createReturn(returnData: InsertReturn & { rmaId: string }): Promise<Return> {
+    const [newReturn] = await this.db.insert(returns).values({ ...returnData, id: randomUUID() }).returning();
+    return newReturn;
+  }
+
+  async getReturns(organizationId: string, filters?: { status?: string }): Promise<Return[]> {
+    return this.db.select().from(returns)
+      .where(and(
+        eq(returns.organizationId, organizationId),
+        filters?.status ? eq(returns.status, filters.status as Return["status"]) : undefined,
+      ))
+      .orderBy(desc(returns.createdAt));
+  }
+
+  async getReturn(id: string): Promise<Return | undefined> {
+    const [found] = await this.db.select().from(returns).where(eq(returns.id, id));
+    return found;
+  }
+
+  async updateReturn(id: string, updates: UpdateReturn): Promise<Return | undefined> {
+    const [updated] = await this.db.update(returns).set({ ...updates, updatedAt: new Date() }).where(eq(returns.id, id)).returning();
+    return updated;
+  }
+
+  // Product catalogue methods
+  async createProduct(productData: InsertProduct): Promise<Product> {
+    const [product] = await this.db.insert(products).values({ ...productData, id: randomUUID() }).returning();
+    return product;
+  }
+
+  async getProducts(workspaceId: string, filters?: { sku?: string, skus?: string[], category?: string, search?: string }): Promise<Product[]> {
+    const search = filters?.search ? `%${filters.search}%` : undefined;
+    return this.db.select().from(products)
+      .where(and(
+        eq(products.workspaceId, workspaceId),
+        filters?.sku ? eq(products.sku, filters.sku) : undefined,
+        filters?.skus ? inArray(products.sku, filters.skus) : undefined,
+        filters?.category ? eq(products.category, filters.category) : undefined,
+        search ? or(ilike(products.name, search), ilike(products.sku, search), ilike(products.category, search)) : undefined,
+      ))
+      .orderBy(asc(products.sku));
+  }
+
+  async listProducts(workspaceId: string, query: ProductListQuery): Promise<Product[]> {
+    const filters = query.filters || {};
+    const search = query.search ? `%${query.search}%` : undefined;
+    const stock = sql`coalesce((
+      select sum(${inventoryLevels.onHand}) from ${inventoryLevels}
+      where ${inventoryLevels.workspaceId} = ${products.workspaceId} and ${inventoryLevels.productId} = ${products.sku}
+    ), 0)`;
+    const page = keyset(products.updatedAt, products.id, query);
+    return this.db.select().from(products)
+      .where(and(
+        eq(products.workspaceId, workspaceId),
+        search ? or(ilike(products.name, search), ilike(products.sku, search), ilike(products.category, search)) : undefined,
+        anyOf(products.sku, filters.sku),
+        anyOf(products.category, filters.category),
+        anyOf(products.supplier, filters.supplier),
+        anyOf(sql`case when ${stock} < ${products.reorderPoint} then 'Low Stock' else 'In Stock' end`, filters.stockStatus),
+        anyOf(products.regionId, filters.regionId),
+        within(products.createdAt, query.ranges?.createdAt),
+        page.where,
+      ))
+      .orderBy(...page.orderBy)
+      .limit(query.limit);
+  }
+
+  async getProduct(id: string): Promise<Product | undefined> {
+    const [product] = await this.db.select().from(products).where(eq(products.id, id));
+    return product;
+  }
+
+  async updateProduct(id: string, updates: Partial<Product>): Promise<Product | undefined> {
+    const { id: _id, ...values } = updates;
+    const [product] = await this.db.update(products).set({ ...values, updatedAt: new Date() }).where(eq(products.id, id)).returning();
+    return product;
+  }
+
+  // Invoice methods
+  async createInvoice(invoiceData: InsertInvoice): Promise<Invoice> {
+    const [invoice] = await this.db.insert(invoices).values({ ...invoiceData, id: randomUUID() }).returning();
+    return invoice;
+  }
+
+  async getInvoices(workspaceId: string, filters?: { customerId?: string, orderIds?: string[], status?: string, currency?: string }): Promise<Invoice[]> {
+    return this.db.select().from(invoices)
+      .where(and(
+        eq(invoices.workspaceId, workspaceId),
+        filters?.customerId ? eq(invoices.customerId, filters.customerId) : undefined,
+        filters?.orderIds ? inArray(invoices.orderId, filters.orderIds) : undefined,
+        filters?.status ? eq(invoices.status, filters.status as Invoice["status"]) : undefined,
+        filters?.currency ? eq(invoices.currency, filters.currency as Invoice["currency"]) : undefined,
+      ))
+      .orderBy(desc(invoices.issueDate));
+  }
+
+  async listInvoices(workspaceId: string, query: InvoiceListQuery): Promise<Invoice[]> {
+    const filters = query.filters || {};
+    const page = keyset(invoices.updatedAt, invoices.id, query);
+    return this.db.select().from(invoices)
+      .where(and(
+        eq(invoices.workspaceId, workspaceId),
+        query.overdue ? and(notInArray(invoices.status, ["PAID", "CANCELLED"]), lt(invoices.dueDate, new Date())) : undefined,
+        anyOf(invoices.status, filters.status),
+        anyOf(invoices.customerId, filters.customerId),
+        anyOf(invoices.orderId, filters.orderId),
+        anyOf(invoices.number, filters.number),
+        anyOf(invoices.currency, filters.currency),
+        within(invoices.createdAt, query.ranges?.createdAt),
+        within(invoices.issueDate, query.ranges?.issueDate),
+        within(invoices.dueDate, query.ranges?.dueDate),
+        within(invoices.paidDate, query.ranges?.paidDate),
+        page.where,
+      ))
+      .orderBy(...page.orderBy)
+      .limit(query.limit);
+  }
+
+  async getInvoice(id: string): Promise<Invoice | undefined> {
+    const [invoice] = await this.db.select().from(invoices).where(eq(invoices.id, id));
+    return invoice;
+  }
+
+  async updateInvoice(id: string, updates: Partial<Invoice>): Promise<Invoice | undefined> {
+    const { id: _id, ...values } = updates;
+    const [invoice] = await this.db.update(invoices).set({ ...values, updatedAt: new Date() }).where(eq(invoices.id, id)).returning();
+    return invoice;
+  }
+
+  // Forecast methods - one row per workspace/product/location/horizon/method
+  async upsertForecast(forecastData: InsertForecastRecord): Promise<ForecastRecord> {
+    const locationId = forecastData.locationId || null;
+    const [existing] = await this.db.select({ id: forecasts.id }).from(forecasts).where(and(
+      eq(forecasts.workspaceId, forecastData.workspaceId),
+      eq(forecasts.productId, forecastData.productId),
+      locationId ? eq(forecasts.locationId, locationId) : isNull(forecasts.locationId),
+      eq(forecasts.horizon, forecastData.horizon),
+      eq(forecasts.method, forecastData.method),
+    ));
+
+    const values = { ...forecastData, locationId, computedAt: forecastData.computedAt || new Date() };
+    if (existing) {
+      const [forecast] = await this.db.update(forecasts).set(values).where(eq(forecasts.id, existing.id)).returning();
+      return forecast;
+    }
+
+    const [forecast] = await this.db.insert(forecasts).values({ ...values, id: randomUUID() }).returning();
+    return forecast;
+  }
+
+  private forecastConditions(workspaceId: string, filters?: { productId?: string, locationId?: string, horizon?: string, method?: string }) {
+    return and(
+      eq(forecasts.workspaceId, workspaceId),
+      filters?.productId ? eq(forecasts.productId, filters.productId) : undefined,
+      // Undefined locationId keeps all rows; "all" selects the all-locations forecasts
+      filters?.locationId
+        ? (filters.locationId === "all" ? isNull(forecasts.locationId) : eq(forecasts.locationId, filters.locationId))
+        : undefined,
+      filters?.horizon ? eq(forecasts.horizon, filters.horizon as ForecastRecord["horizon"]) : undefined,
+      filters?.method ? eq(forecasts.method, filters.method as ForecastRecord["method"]) : undefined,
+    );
+  }
+
+  async getForecasts(workspaceId: string, filters?: { productId?: string, locationId?: string, horizon?: string, method?: string }): Promise<ForecastRecord[]> {
+    return this.db.select().from(forecasts)
+      .where(this.forecastConditions(workspaceId, filters))
+      .orderBy(asc(forecasts.productId));
+  }
+
+  async listForecasts(workspaceId: string, query: ForecastListQuery): Promise<ForecastRecord[]> {
+    const filters = query.filters || {};
+    const locationId = sql`coalesce(${forecasts.locationId}, 'all')`;
+    const id = sql`concat_ws(':', ${forecasts.productId}, ${locationId}, ${forecasts.horizon}, ${forecasts.method})`;
+    const page = keyset(forecasts.computedAt, id, query);
+    return this.db.select().from(forecasts)
+      .where(and(
+        eq(forecasts.workspaceId, workspaceId),
+        anyOf(forecasts.productId, filters.productId),
+        anyOf(locationId, filters.locationId),
+        anyOf(forecasts.horizon, filters.horizon),
+        anyOf(forecasts.method, filters.method),
+        page.where,
+      ))
+      .orderBy(...page.orderBy)
+      .limit(query.limit);
+  }
+
+  async getForecastTimes(workspaceId: string, filters?: { productId?: string, locationId?: string, horizon?: string, method?: string }): Promise<{ productId: string, method: ForecastRecord["method"], computedAt: Date }[]> {
+    return this.db.select({
+      productId: forecasts.productId,
+      method: forecasts.method,
+      computedAt: sql<Date>`max(${forecasts.computedAt})`.mapWith(forecasts.computedAt),
+    })
+      .from(forecasts)
+      .where(this.forecastConditions(workspaceId, filters))
+      .groupBy(forecasts.productId, forecasts.method);
+  }
+
+  // Demo seeding used by the dev server; same data as MemStorage but written through this store
+  async initializeSampleSalesHistory(workspaceId: string, daysBack: number = 90): Promise<void> {
+    const existing = await this.getSalesOrders(workspaceId);
+    if (existing.some(order => order.orderNumber.startsWith("HIST-"))) return;
+
+    const customer = await this.createCustomer({
+      name: "Online Store",
+      email: "orders@store.example.com",
+      workspaceId,
+    });
+
+    const catalogue = [
+      { sku: "SKU-001", productName: "Wireless Bluetooth Headphones", velocity: 2.5, unitPrice: 7999 },
+      { sku: "SKU-002", productName: "Smartphone Case - Clear", velocity: 1.8, unitPrice: 1999 },
+      { sku: "SKU-003", productName: "USB-C Charging Cable", velocity: 0.4, unitPrice: 1299 },
+      { sku: "SKU-004", productName: "Wireless Gaming Mouse", velocity: 3.2, unitPrice: 4999 },
+      { sku: "SKU-005", productName: "Portable Phone Stand", velocity: 2.1, unitPrice: 1599 },
+      { sku: "SKU-006", productName: "Bluetooth Speaker - Compact", velocity: 1.5, unitPrice: 3999 },
+      { sku: "SKU-007", productName: "Screen Protector - Glass", velocity: 2.8, unitPrice: 999 },
+      { sku: "SKU-008", productName: "Power Bank - 10000mAh", velocity: 1.2, unitPrice: 2999 },
+    ];
+    const weekdayFactors = [0.6, 1.2, 1.0, 1.0, 1.0, 1.1, 0.6];
+
+    for (let daysAgo = daysBack; daysAgo >= 1; daysAgo--) {
+      const date = new Date();
+      date.setDate(date.getDate() - daysAgo);
+      date.setHours(12, 0, 0, 0);
+
+      const items = catalogue
+        .map(product => {
+          const expected = product.velocity * weekdayFactors[date.getDay()] * (0.7 + Math.random() * 0.6);
+          const quantity = expected < 1 ? (Math.random() < expected ? 1 : 0) : Math.round(expected);
+          return { sku: product.sku, productName: product.productName, quantity, unitPrice: product.unitPrice, subtotal: quantity * product.unitPrice };
+        })
+        .filter(item => item.quantity > 0);
+
+      if (items.length === 0) continue;
+
+      const subtotal = items.reduce((sum, item) => sum + item.subtotal, 0);
+      await this.createSalesOrder({
+        orderNumber: `HIST-${date.toISOString().split('T')[0]}`,
+        customerId: customer.id,
+        customerName: customer.name,
+        workspaceId,
+        currency: "USD",
+        status: "DELIVERED",
+        items,
+        subtotal,
+        tax: 0,
+        shipping: 0,
+        total: subtotal,
+        createdAt: date,
+      });
+    }
+  }
+
+  async initializeSampleReorderData(workspaceId: string): Promise<void> {
+    const existing = await this.getReorderPolicies(workspaceId);
+    if (existing.length > 0) return;
+
+    const sampleSuppliers: InsertSupplier[] = [
+      {
+        workspaceId,
+        name: "Shenzhen Audio Co.",
+        email: "sales@szaudio.example.com",
+        region: "Other",
+        currency: "USD",
+        leadTimeDays: 21,
+        paymentTerms: "Net 30",
+        status: "active",
+        minOrderValue: 2500,
+        skus: [
+          { sku: "SKU-001", unitCost: 32.00, packSize: 10, moq: 50, leadTimeDays: 21 },
+          { sku: "SKU-006", unitCost: 18.50, packSize: 12, moq: 24, leadTimeDays: 21 },
+          { sku: "SKU-008", unitCost: 11.25, packSize: 20, moq: 40, leadTimeDays: 21 }
+        ]
+      },
+      {
+        workspaceId,
+        name: "Accessory Hub Ltd",
+        email: "orders@accessoryhub.example.com",
+        region: "UK",
+        currency: "USD",
+        leadTimeDays: 10,
+        paymentTerms: "Net 15",
+        status: "active",
+        minOrderQty: 300,
+        skus: [
+          { sku: "SKU-002", unitCost: 3.20, packSize: 25, moq: 100, leadTimeDays: 10 },
+          { sku: "SKU-003", unitCost: 2.10, packSize: 50, moq: 50, leadTimeDays: 10 },
+          { sku: "SKU-005", unitCost: 4.50, packSize: 10, leadTimeDays: 10 },
+          { sku: "SKU-007", unitCost: 1.40, packSize: 50, moq: 100, leadTimeDays: 10 }
+        ]
+      },
+      {
+        workspaceId,
+        name: "Peripherals Direct",
+        email: "trade@peripheralsdirect.example.com",
+        region: "US",
+        currency: "USD",
+        leadTimeDays: 7,
+        paymentTerms: "Net 30",
+        status: "active",
+        skus: [
+          { sku: "SKU-004", unitCost: 19.00, packSize: 5, leadTimeDays: 7 },
+          { sku: "SKU-001", unitCost: 36.00, leadTimeDays: 7 }
+        ]
+      }
+    ];
+
+    for (const supplierData of sampleSuppliers) {
+      await this.createSupplier(supplierData);
+    }
+
+    const stock: Record<string, [number, number]> = {
+      "SKU-001": [40, 25],
+      "SKU-002": [120, 60],
+      "SKU-003": [30, 0],
+      "SKU-004": [35, 20],
+      "SKU-005": [150, 90],
+      "SKU-006": [18, 10],
+      "SKU-007": [60, 45],
+      "SKU-008": [90, 70],
+    };
+    const locationIds = ["london-dc", "ny-hub"];
+
+    for (const [sku, quantities] of Object.entries(stock)) {
+      for (let i = 0; i < locationIds.length; i++) {
+        await this.upsertInventoryLevel({
+          workspaceId,
+          productId: sku,
+          locationId: locationIds[i],
+          onHand: quantities[i],
+          reorderPoint: 20,
+          safetyStock: 10,
+        });
+      }
+
+      await this.createReorderPolicy({ workspaceId, sku, targetDaysCover: 30, safetyDays: 7, maxDaysCover: 90 });
+    }
+  }
+
+  // Shipping Connector methods
+  async createShippingConnector(connectorData: InsertShippingConnector): Promise<ShippingConnector> {
+    const [row] = await this.db.insert(shippingConnectors).values({
+      ...shippingConnectorValues(connectorData),
+      id: randomUUID(),
+      organizationId: connectorData.organizationId,
+      provider: connectorData.provider as ShippingConnectorRow["provider"],
+      name: connectorData.name,
+      lastTestAt: null,
+      lastTestStatus: null,
+    }).returning();
+    return toShippingConnector(row);
+  }
+
+  async getShippingConnectors(organizationId: string): Promise<ShippingConnector[]> {
+    const rows = await this.db.select().from(shippingConnectors)
+      .where(eq(shippingConnectors.organizationId, organizationId))
+      .orderBy(desc(shippingConnectors.updatedAt));
+    return rows.map(toShippingConnector);
+  }
+
+  async getShippingConnector(id: string): Promise<ShippingConnector | undefined> {
+    const [row] = await this.db.select().from(shippingConnectors).where(eq(shippingConnectors.id, id));
+    return row ? toShippingConnector(row) : undefined;
+  }
+
+  async updateShippingConnector(id: string, updates: Partial<ShippingConnector>): Promise<ShippingConnector | undefined> {
+    const [row] = await this.db.update(shippingConnectors)
+      .set({ ...shippingConnectorValues(updates), updatedAt: new Date() })
+      .where(eq(shippingConnectors.id, id))
+      .returning();
+    return row ? toShippingConnector(row) : undefined;
+  }
+
+  async deleteShippingConnector(id: string): Promise<void> {
+    // Also clean up related shipments
+    await this.db.transaction(async tx => {
+      await tx.delete(shipments).where(eq(shipments.connectorId, id));
+      await tx.delete(shippingConnectors).where(eq(shippingConnectors.id, id));
+    });
+  }
+
+  // Shipment methods
+  async createShipment(shipmentData: InsertShipment): Promise<Shipment> {
+    const values = shipmentValues(shipmentData);
+    const [row] = await this.db.insert(shipments).values({
+      ...values,
+      id: randomUUID(),
+      organizationId: shipmentData.organizationId,
+      provider: shipmentData.provider,
+      service: values.service || "Standard",
+      currency: values.currency || "USD",
+      shipFrom: values.shipFrom!,
+      shipTo: values.shipTo!,
+      statusChangedAt: new Date(),
+    }).returning();
+    return toShipment(row);
+  }
+
+  async getShipments(organizationId: string, filters?: { connectorId?: string, orderId?: string, status?: string }): Promise<Shipment[]> {
+    const rows = await this.db.select().from(shipments)
+      .where(and(
+        eq(shipments.organizationId, organizationId),
+        filters?.connectorId ? eq(shipments.connectorId, filters.connectorId) : undefined,
+        filters?.orderId ? eq(shipments.salesOrderId, filters.orderId) : undefined,
+        filters?.status ? eq(shipments.status, filters.status as ShipmentRow["status"]) : undefined,
+      ))
+      .orderBy(desc(shipments.updatedAt));
+    return rows.map(toShipment);
+  }
+
+  async getShipment(id: string): Promise<Shipment | undefined> {
+    const [row] = await this.db.select().from(shipments).where(eq(shipments.id, id));
+    return row ? toShipment(row) : undefined;
+  }
+
+  async findShipmentByProviderRef(provider: string, ref: { providerShipmentId?: string, trackingNumber?: string }): Promise<Shipment | undefined> {
+    if (!ref.providerShipmentId && !ref.trackingNumber) return undefined;
+    const [row] = await this.db.select().from(shipments)
+      .where(and(
+        eq(shipments.provider, provider),
+        or(
+          ref.providerShipmentId ? eq(shipments.providerShipmentId, ref.providerShipmentId) : undefined,
+          ref.trackingNumber ? eq(shipments.trackingNumber, ref.trackingNumber) : undefined,
+        ),
+      ))
+      .limit(1);
+    return row ? toShipment(row) : undefined;
+  }
+
+  async updateShipment(id: string, updates: Partial<Shipment>): Promise<Shipment | undefined> {
+    const [row] = await this.db.update(shipments)
+      .set({ ...shipmentValues(updates), updatedAt: new Date() })
+      .where(eq(shipments.id, id))
+      .returning();
+    return row ? toShipment(row) : undefined;
+  }
+
+  async claimShipmentsForTracking(now: Date, limit: number, leaseMs: number): Promise<Shipment[]> {
+    const due = this.db.select({ id: shipments.id }).from(shipments)
+      .where(and(
+        inArray(shipments.status, [...inFlightShipmentStatuses]),
+        isNotNull(shipments.trackingNumber),
+        or(isNull(shipments.nextTrackingPollAt), lte(shipments.nextTrackingPollAt, now)),
+      ))
+      .orderBy(sql`${shipments.nextTrackingPollAt} asc nulls first`)
+      .limit(limit)
+      .for("update", { skipLocked: true });
+
+    const rows = await this.db.update(shipments)
+      .set({ nextTrackingPollAt: new Date(now.getTime() + leaseMs) })
+      .where(inArray(shipments.id, due))
+      .returning();
+    return rows.map(toShipment);
+  }
+
+  // Shipping rule methods
+  async getShippingRules(organizationId: string): Promise<ShippingRule[]> {
+    return this.db.select().from(shippingRules)
+      .where(eq(shippingRules.organizationId, organizationId))
+      .orderBy(asc(shippingRules.position), asc(shippingRules.createdAt));
+  }
+
+  async getShippingRule(id: string): Promise<ShippingRule | undefined> {
+    const [rule] = await this.db.select().from(shippingRules).where(eq(shippingRules.id, id));
+    return rule;
+  }
+
+  async createShippingRule(organizationId: string, ruleData: CreateShippingRuleData): Promise<ShippingRule> {
+    // New rules are tried last unless a position is given
+    const existing = await this.getShippingRules(organizationId);
+    const lastPosition = Math.max(-1, ...existing.map(rule => rule.position));
+
+    const [rule] = await this.db.insert(shippingRules).values({
+      id: randomUUID(),
+      organizationId,
+      name: ruleData.name,
+      position: ruleData.position ?? lastPosition + 1,
+      enabled: ruleData.enabled,
+      conditions: ruleData.conditions,
+      connectorId: ruleData.connectorId,
+      serviceCode: ruleData.serviceCode ?? null,
+    }).returning();
+    return rule;
+  }
+
+  async updateShippingRule(id: string, updates: UpdateShippingRuleData): Promise<ShippingRule | undefined> {
+    const [rule] = await this.db.update(shippingRules)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(shippingRules.id, id))
+      .returning();
+    return rule;
+  }
+
+  async reorderShippingRules(organizationId: string, ruleIds: string[]): Promise<ShippingRule[]> {
+    const current = await this.getShippingRules(organizationId);
+    const listed = ruleIds
+      .map(id => current.find(rule => rule.id === id))
+      .filter((rule): rule is ShippingRule => !!rule);
+    const rest = current.filter(rule => !ruleIds.includes(rule.id));
+    const now = new Date();
+
+    await this.db.transaction(async tx => {
+      const ordered = [...listed, ...rest];
+      for (let position = 0; position < ordered.length; position++) {
+        await tx.update(shippingRules).set({ position, updatedAt: now }).where(eq(shippingRules.id, ordered[position].id));
+      }
+    });
+
+    return this.getShippingRules(organizationId);
+  }
+
+  async deleteShippingRule(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(shippingRules).where(eq(shippingRules.id, id)).returning({ id: shippingRules.id });
+    return deleted.length > 0;
+  }
+
+  // Packing methods
+  async getProductDimensions(organizationId: string, skus?: string[]): Promise<ProductDimensions[]> {
+    if (skus && skus.length === 0) return [];
+    return this.db.select().from(productDimensions)
+      .where(and(
+        eq(productDimensions.organizationId, organizationId),
+        skus ? inArray(productDimensions.sku, skus) : undefined,
+      ))
+      .orderBy(asc(productDimensions.sku));
+  }
+
+  async upsertProductDimensions(organizationId: string, sku: string, data: UpsertProductDimensionsData): Promise<ProductDimensions> {
+    const [existing] = await this.getProductDimensions(organizationId, [sku]);
+
+    if (existing) {
+      const [dimensions] = await this.db.update(productDimensions)
+        .set({ ...data, updatedAt: new Date() })
+        .where(eq(productDimensions.id, existing.id))
+        .returning();
+      return dimensions;
+    }
+
+    const [dimensions] = await this.db.insert(productDimensions)
+      .values({ ...data, id: randomUUID(), organizationId, sku })
+      .returning();
+    return dimensions;
+  }
+
+  async deleteProductDimensions(organizationId: string, sku: string): Promise<boolean> {
+    const deleted = await this.db.delete(productDimensions)
+      .where(and(eq(productDimensions.organizationId, organizationId), eq(productDimensions.sku, sku)))
+      .returning({ id: productDimensions.id });
+    return deleted.length > 0;
+  }
+
+  async getShippingBoxes(organizationId: string, locationId?: string): Promise<ShippingBox[]> {
+    return this.db.select().from(shippingBoxes)
+      .where(and(
+        eq(shippingBoxes.organizationId, organizationId),
+        locationId ? or(isNull(shippingBoxes.locationId), eq(shippingBoxes.locationId, locationId)) : undefined,
+      ))
+      .orderBy(sql`${shippingBoxes.length} * ${shippingBoxes.width} * ${shippingBoxes.height}`);
+  }
+
+  async getShippingBox(id: string): Promise<ShippingBox | undefined> {
+    const [box] = await this.db.select().from(shippingBoxes).where(eq(shippingBoxes.id, id));
+    return box;
+  }
+
+  async createShippingBox(organizationId: string, boxData: CreateShippingBoxData): Promise<ShippingBox> {
+    const [box] = await this.db.insert(shippingBoxes)
+      .values({ ...boxData, id: randomUUID(), organizationId, locationId: boxData.locationId ?? null })
+      .returning();
+    return box;
+  }
+
+  async updateShippingBox(id: string, updates: UpdateShippingBoxData): Promise<ShippingBox | undefined> {
+    const [box] = await this.db.update(shippingBoxes)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(shippingBoxes.id, id))
+      .returning();
+    return box;
+  }
+
+  async deleteShippingBox(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(shippingBoxes).where(eq(shippingBoxes.id, id)).returning({ id: shippingBoxes.id });
+    return deleted.length > 0;
+  }
+
+  // Public API key methods
+  async createApiKey(keyData: InsertApiKey): Promise<ApiKey> {
+    const [apiKey] = await this.db.insert(apiKeys).values({ ...keyData, id: keyData.id || randomUUID() }).returning();
+    return apiKey;
+  }
+
+  async getActiveApiKeyByHash(hashedKey: string): Promise<ApiKey | undefined> {
+    const [apiKey] = await this.db.select().from(apiKeys)
+      .where(and(eq(apiKeys.hashedKey, hashedKey), isNull(apiKeys.revokedAt)));
+    return apiKey;
+  }
+
+  async listApiKeys(workspaceId?: string): Promise<ApiKey[]> {
+    return this.db.select().from(apiKeys)
+      .where(workspaceId ? eq(apiKeys.workspaceId, workspaceId) : undefined)
+      .orderBy(asc(apiKeys.createdAt));
+  }
+
+  async revokeApiKey(id: string): Promise<boolean> {
+    const [apiKey] = await this.db.update(apiKeys)
+      .set({ revokedAt: sql`coalesce(${apiKeys.revokedAt}, now())` })
+      .where(eq(apiKeys.id, id))
+      .returning({ id: apiKeys.id });
+    return !!apiKey;
+  }
+
+  // Rate limit methods - the bucket row is locked for the read-refill-take so concurrent requests queue up on it
+  async consumeRateLimitToken(keyPrefix: string, config: RateLimitConfig): Promise<TokenBucketResult> {
+    const now = new Date();
+    return this.db.transaction(async tx => {
+      await tx.insert(rateLimitBuckets)
+        .values({ keyPrefix, tokens: config.maxTokens, lastRefill: now, requestCount: 0 })
+        .onConflictDoNothing();
+
+      const [bucket] = await tx.select().from(rateLimitBuckets)
+        .where(eq(rateLimitBuckets.keyPrefix, keyPrefix))
+        .for("update");
+
+      const result = takeToken(bucket, config, now);
+      await tx.update(rateLimitBuckets)
+        .set({ tokens: result.tokens, lastRefill: result.lastRefill, requestCount: result.requestCount })
+        .where(eq(rateLimitBuckets.keyPrefix, keyPrefix));
+      return result;
+    });
+  }
+
+  async getRateLimitBuckets(keyPrefix?: string): Promise<RateLimitBucket[]> {
+    return this.db.select().from(rateLimitBuckets)
+      .where(keyPrefix ? eq(rateLimitBuckets.keyPrefix, keyPrefix) : undefined);
+  }
+
+  async deleteRateLimitBuckets(lastRefillBefore: Date): Promise<number> {
+    const deleted = await this.db.delete(rateLimitBuckets)
+      .where(lt(rateLimitBuckets.lastRefill, lastRefillBefore))
+      .returning({ keyPrefix: rateLimitBuckets.keyPrefix });
+    return deleted.length;
+  }
+
+  // Idempotency key methods - an expired row is cleared first, then the insert either claims the key or loses to the existing row
+  async claimIdempotencyKey(record: InsertIdempotencyKey): Promise<{ record: IdempotencyKey, claimed: boolean }> {
+    return this.db.transaction(async tx => {
+      await tx.delete(idempotencyKeys)
+        .where(and(eq(idempotencyKeys.id, record.id), lt(idempotencyKeys.expiresAt, new Date())));
+
+      const [claimed] = await tx.insert(idempotencyKeys)
+        .values({ ...record, status: "in_progress" })
+        .onConflictDoNothing()
+        .returning();
+      if (claimed) {
+        return { record: claimed, claimed: true };
+      }
+
+      const [existing] = await tx.select().from(idempotencyKeys).where(eq(idempotencyKeys.id, record.id));
+      return { record: existing, claimed: false };
+    });
+  }
+
+  async completeIdempotencyKey(id: string, response: { status: number, body: unknown }): Promise<void> {
+    await this.db.update(idempotencyKeys)
+      .set({ status: "completed", responseStatus: response.status, responseBody: response.body })
+      .where(eq(idempotencyKeys.id, id));
+  }
+
+  async releaseIdempotencyKey(id: string): Promise<void> {
+    await this.db.delete(idempotencyKeys).where(eq(idempotencyKeys.id, id));
+  }
+
+  async deleteExpiredIdempotencyKeys(expiredBefore: Date): Promise<number> {
+    const deleted = await this.db.delete(idempotencyKeys)
+      .where(lt(idempotencyKeys.expiresAt, expiredBefore))
+      .returning({ id: idempotencyKeys.id });
+    return deleted.length;
+  }
+
+  // Audit log methods
+  async appendAuditLog(entry: InsertAuditLog): Promise<void> {
+    await this.db.insert(auditLogs).values(entry);
+  }
+
+  async queryAuditLogs(filters: AuditLogFilters): Promise<{ entries: AuditLog[], total: number }> {
+    const where = and(
+      filters.keyPrefix ? eq(auditLogs.keyPrefix, filters.keyPrefix) : undefined,
+      filters.keyId ? eq(auditLogs.keyId, filters.keyId) : undefined,
+      filters.method ? eq(auditLogs.method, filters.method) : undefined,
+      filters.pathPattern ? sql`${auditLogs.path} ~* ${filters.pathPattern}` : undefined,
+      filters.statusCode ? eq(auditLogs.statusCode, filters.statusCode) : undefined,
+      filters.fromDate ? gte(auditLogs.timestamp, filters.fromDate) : undefined,
+      filters.toDate ? lte(auditLogs.timestamp, filters.toDate) : undefined,
+    );
+
+    const [{ total }] = await this.db.select({ total: count() }).from(auditLogs).where(where);
+    const entries = await this.db.select().from(auditLogs)
+      .where(where)
+      .orderBy(desc(auditLogs.timestamp))
+      .limit(filters.limit || 100)
+      .offset(filters.offset || 0);
+    return { entries, total };
+  }
+
+  async getAuditStats(): Promise<AuditStats> {
+    const [totals] = await this.db.select({
+      totalRequests: count(),
+      uniqueKeys: countDistinct(auditLogs.keyPrefix),
+      errors: count(sql`case when ${auditLogs.statusCode} >= 400 then 1 end`),
+      avgResponseTime: avg(auditLogs.responseTimeMs),
+    }).from(auditLogs);
+
+    const topPaths = await this.db.select({ path: auditLogs.path, count: count() })
+      .from(auditLogs)
+      .groupBy(auditLogs.path)
+      .orderBy(desc(count()))
+      .limit(10);
+
+    const statusRows = await this.db.select({ statusCode: auditLogs.statusCode, count: count() })
+      .from(auditLogs)
+      .where(isNotNull(auditLogs.statusCode))
+      .groupBy(auditLogs.statusCode);
+    const statusCodes: Record<string, number> = {};
+    statusRows.forEach(row => {
+      statusCodes[String(row.statusCode)] = row.count;
+    });
+
+    return {
+      totalRequests: totals.totalRequests,
+      uniqueKeys: totals.uniqueKeys,
+      errorRate: totals.totalRequests > 0 ? (totals.errors / totals.totalRequests) * 100 : 0,
+      avgResponseTime: Number(totals.avgResponseTime || 0),
+      topPaths,
+      statusCodes,
+    };
+  }
+
+  // Webhook methods
+  async createWebhook(webhookData: InsertWebhook): Promise<Webhook> {
+    const [webhook] = await this.db.insert(webhooks).values({ ...webhookData, id: webhookData.id || randomUUID() }).returning();
+    return webhook;
+  }
+
+  async getWebhook(id: string): Promise<Webhook | undefined> {
+    const [webhook] = await this.db.select().from(webhooks).where(eq(webhooks.id, id));
+    return webhook;
+  }
+
+  async listWebhooks(workspaceId?: string): Promise<Webhook[]> {
+    return this.db.select().from(webhooks)
+      .where(workspaceId ? eq(webhooks.workspaceId, workspaceId) : undefined)
+      .orderBy(asc(webhooks.createdAt));
+  }
+
+  async updateWebhook(id: string, updates: Partial<Webhook>): Promise<Webhook | undefined> {
+    const { id: _id, createdAt: _createdAt, ...values } = updates;
+    const [webhook] = await this.db.update(webhooks)
+      .set({ ...values, updatedAt: new Date() })
+      .where(eq(webhooks.id, id))
+      .returning();
+    return webhook;
+  }
+
+  // Pending deliveries and the delivery log cascade with the webhook
+  async deleteWebhook(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(webhooks).where(eq(webhooks.id, id)).returning({ id: webhooks.id });
+    return deleted.length > 0;
+  }
+
+  // Failure count is incremented in SQL so concurrent workers don't lose updates
+  async recordWebhookAttempt(id: string, attempt: { statusCode: number | null, attemptedAt: Date, success: boolean }): Promise<void> {
+    await this.db.update(webhooks)
+      .set({
+        lastStatus: attempt.statusCode,
+        lastAttemptAt: attempt.attemptedAt,
+        ...(attempt.success
+          ? { lastSuccessAt: attempt.attemptedAt, failureCount: 0 }
+          : { failureCount: sql`${webhooks.failureCount} + 1` }),
+        updatedAt: new Date(),
+      })
+      .where(eq(webhooks.id, id));
+  }
+
+  async createWebhookEvent(eventData: InsertWebhookEvent): Promise<WebhookEvent> {
+    const [event] = await this.db.insert(webhookEvents).values({ ...eventData, id: eventData.id || randomUUID() }).returning();
+    return event;
+  }
+
+  async countWebhookEvents(since: Date): Promise<number> {
+    const [{ total }] = await this.db.select({ total: count() }).from(webhookEvents).where(gt(webhookEvents.timestamp, since));
+    return total;
+  }
+
+  // Webhook delivery queue
+  async enqueueWebhookDeliveries(deliveries: InsertWebhookDelivery[]): Promise<WebhookDelivery[]> {
+    if (deliveries.length === 0) return [];
+    return this.db.insert(webhookDeliveries)
+      .values(deliveries.map(delivery => ({ ...delivery, id: delivery.id || randomUUID() })))
+      .returning();
+  }
+
+  // SKIP LOCKED lets several workers claim from the queue at once without handing out the same row twice
+  async claimWebhookDeliveries(workerId: string, limit: number, leaseMs: number): Promise<WebhookDelivery[]> {
+    const now = new Date();
+    const due = this.db.select({ id: webhookDeliveries.id }).from(webhookDeliveries)
+      .where(and(
+        isNull(webhookDeliveries.deadAt),
+        lte(webhookDeliveries.nextAttemptAt, now),
+        or(isNull(webhookDeliveries.lockedUntil), lt(webhookDeliveries.lockedUntil, now)),
+      ))
+      .orderBy(asc(webhookDeliveries.nextAttemptAt))
+      .limit(limit)
+      .for("update", { skipLocked: true });
+
+    return this.db.update(webhookDeliveries)
+      .set({ lockedBy: workerId, lockedUntil: new Date(now.getTime() + leaseMs) })
+      .where(inArray(webhookDeliveries.id, due))
+      .returning();
+  }
+
+  async completeWebhookDelivery(id: string, workerId: string): Promise<void> {
+    await this.db.delete(webhookDeliveries)
+      .where(and(eq(webhookDeliveries.id, id), eq(webhookDeliveries.lockedBy, workerId)));
+  }
+
+  async rescheduleWebhookDelivery(id: string, workerId: string, retry: WebhookDeliveryRetry): Promise<void> {
+    await this.db.update(webhookDeliveries)
+      .set({ ...retry, lockedBy: null, lockedUntil: null })
+      .where(and(eq(webhookDeliveries.id, id), eq(webhookDeliveries.lockedBy, workerId)));
+  }
+
+  async getWebhookQueueLength(): Promise<number> {
+    const [{ total }] = await this.db.select({ total: count() }).from(webhookDeliveries).where(isNull(webhookDeliveries.deadAt));
+    return total;
+  }
+
+  async getWebhookDelivery(id: string): Promise<WebhookDelivery | undefined> {
+    const [delivery] = await this.db.select().from(webhookDeliveries).where(eq(webhookDeliveries.id, id));
+    return delivery;
+  }
+
+  async deadLetterWebhookDelivery(id: string, workerId: string, outcome: Omit<WebhookDeliveryRetry, 'attemptNumber' | 'nextAttemptAt'>): Promise<void> {
+    await this.db.update(webhookDeliveries)
+      .set({ ...outcome, deadAt: new Date(), lockedBy: null, lockedUntil: null })
+      .where(and(eq(webhookDeliveries.id, id), eq(webhookDeliveries.lockedBy, workerId)));
+  }
+
+  async listDeadWebhookDeliveries(webhookId: string): Promise<WebhookDelivery[]> {
+    return this.db.select().from(webhookDeliveries)
+      .where(and(eq(webhookDeliveries.webhookId, webhookId), isNotNull(webhookDeliveries.deadAt)))
+      .orderBy(desc(webhookDeliveries.deadAt));
+  }
+
+  // Dead letters go back to the front of the queue with a fresh set of attempts
+  async requeueDeadWebhookDeliveries(webhookId: string, ids?: string[]): Promise<WebhookDelivery[]> {
+    if (ids?.length === 0) return [];
+    return this.db.update(webhookDeliveries)
+      .set({ attemptNumber: 1, nextAttemptAt: new Date(), deadAt: null })
+      .where(and(
+        eq(webhookDeliveries.webhookId, webhookId),
+        isNotNull(webhookDeliveries.deadAt),
+        ids ? inArray(webhookDeliveries.id, ids) : undefined,
+      ))
+      .returning();
+  }
+
+  // Delivery log
+  async createWebhookDeliveryAttempt(attemptData: InsertWebhookDeliveryAttempt): Promise<WebhookDeliveryAttempt> {
+    const [attempt] = await this.db.insert(webhookDeliveryAttempts).values({ ...attemptData, id: attemptData.id || randomUUID() }).returning();
+    return attempt;
+  }
+
+  async listWebhookDeliveryAttempts(webhookId: string, query: WebhookDeliveryAttemptQuery): Promise<WebhookDeliveryAttempt[]> {
+    return this.db.select().from(webhookDeliveryAttempts)
+      .where(and(
+        eq(webhookDeliveryAttempts.webhookId, webhookId),
+        query.deliveryId ? eq(webhookDeliveryAttempts.deliveryId, query.deliveryId) : undefined,
+        query.success !== undefined ? eq(webhookDeliveryAttempts.success, query.success) : undefined,
+        query.before ? lt(webhookDeliveryAttempts.attemptedAt, query.before) : undefined,
+      ))
+      .orderBy(desc(webhookDeliveryAttempts.attemptedAt))
+      .limit(query.limit);
+  }
+
+  // The transaction's storage shares this one's session store rather than starting another
+  async transaction<T>(fn: (storage: IStorage) => Promise<T>): Promise<T> {
+    return this.db.transaction(tx => fn(new DatabaseStorage(tx, this.sessionStore)));
+  }
+}
@@ -1,15 +1,22 @@
 import { Pool, neonConfig } from '@neondatabase/serverless';
 import { drizzle } from 'drizzle-orm/neon-serverless';
+import type { PgDatabase, PgQueryResultHKT } from 'drizzle-orm/pg-core';
 import ws from "ws";
 import * as schema from "@shared/schema";
 
 neonConfig.webSocketConstructor = ws;
 
-if (!process.env.DATABASE_URL) {
-  throw new Error(
-    "DATABASE_URL must be set. Did you forget to provision a database?",
-  );
+// Connect lazily so the server can still boot on in-memory storage when no database is provisioned
+export function createDb(connectionString: string | undefined = process.env.DATABASE_URL) {
+  if (!connectionString) {
+    throw new Error(
+      "DATABASE_URL must be set. Did you forget to provision a database?",
+    );
+  }
+
+  const pool = new Pool({ connectionString });
+  return { pool, db: drizzle({ client: pool, schema }) };
 }
 
-export const pool = new Pool({ connectionString: process.env.DATABASE_URL });
-export const db = drizzle({ client: pool, schema });
+// Any Postgres driver works, so tests can run DatabaseStorage against an embedded database
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
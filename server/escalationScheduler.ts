@@ -0,0 +1,63 @@
+import { storage } from './storage';
+import { EscalationService, type EscalationSweepResult } from './escalationService';
+
+class EscalationScheduler {
+  private sweepInterval: NodeJS.Timeout | null = null;
+  private intervalMinutes = 15;
+  private running = false;
+  private lastRun: string | null = null;
+  private lastRunEscalations = 0;
+  private service = new EscalationService(storage);
+
+  start(intervalMinutes: number = parseInt(process.env.ESCALATION_SWEEP_MINUTES || '15', 10)) {
+    this.stop();
+    this.intervalMinutes = intervalMinutes;
+
+    this.sweepInterval = setInterval(() => {
+      this.sweep().catch(error => {
+        console.error('Error running escalation sweep:', error);
+      });
+    }, intervalMinutes * 60 * 1000);
+
+    console.log(`Escalation scheduler started - sweeping every ${intervalMinutes} minutes`);
+  }
+
+  // Escalate overdue and stale Action Center tasks. Returns null if a sweep is already running.
+  async sweep(): Promise<EscalationSweepResult | null> {
+    // Skip if the previous sweep is still going
+    if (this.running) return null;
+    this.running = true;
+
+    try {
+      const result = await this.service.sweep();
+      this.lastRun = new Date().toISOString();
+      this.lastRunEscalations = result.escalations.length;
+      if (result.escalations.length > 0) {
+        console.log(`Escalation sweep complete: ${result.escalations.length} of ${result.checkedTasks} open tasks escalated`);
+      }
+      return result;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  stop() {
+    if (this.sweepInterval) {
+      clearInterval(this.sweepInterval);
+      this.sweepInterval = null;
+      console.log('Escalation scheduler stopped');
+    }
+  }
+
+  // Get status for monitoring
+  getStatus() {
+    return {
+      running: this.sweepInterval !== null,
+      intervalMinutes: this.intervalMinutes,
+      lastRun: this.lastRun,
+      lastRunEscalations: this.lastRunEscalations,
+    };
+  }
+}
+
+export const escalationScheduler = new EscalationScheduler();
@@ -0,0 +1,93 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import type { EscalationActivityMeta } from "@shared/schema";
+import { EscalationService } from "./escalationService";
+import { MemStorage } from "./storage";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe("EscalationService.sweep", () => {
+  let storage: MemStorage;
+  let escalationService: EscalationService;
+  const start = new Date();
+  const at = (hours: number) => new Date(start.getTime() + hours * HOUR_MS);
+
+  // The sample Action Center tasks get swept too, so results are narrowed to the test's own tasks
+  async function sweepOwn(now: Date, ...taskIds: string[]) {
+    const { escalations } = await escalationService.sweep(now);
+    return escalations.filter(escalation => taskIds.includes(escalation.taskId));
+  }
+
+  async function escalatedIds(now: Date, ...taskIds: string[]): Promise<string[]> {
+    return (await sweepOwn(now, ...taskIds)).map(escalation => escalation.taskId);
+  }
+
+  beforeEach(async () => {
+    storage = new MemStorage();
+    for (const existing of await storage.getEscalationPolicies()) await storage.deleteEscalationPolicy(existing.id);
+    escalationService = new EscalationService(storage);
+  });
+
+  it("raises and reassigns an overdue task, recording what changed on its activity", async () => {
+    const policy = await storage.createEscalationPolicy({ name: "Overdue restocks", enabled: true, trigger: "OVERDUE", thresholdHours: 4, raisePriority: true, reassignTo: "ops-lead", maxEscalations: 2 });
+    const task = await storage.createTask({ title: "Restock mugs", type: "RESTOCK", priority: "P3", assigneeId: "buyer", dueAt: start });
+
+    const escalations = await sweepOwn(at(5), task.id);
+
+    expect(escalations).toEqual([{ taskId: task.id, policyId: policy.id, policyName: "Overdue restocks", reason: "Overdue by 5h", oldPriority: "P3", newPriority: "P2", assigneeId: "ops-lead" }]);
+    expect(await storage.getTask(task.id)).toMatchObject({ priority: "P2", assigneeId: "ops-lead", escalationLevel: 1, lastEscalatedAt: at(5) });
+
+    const [activity] = (await storage.getTaskActivity(task.id)).filter(entry => entry.type === "ESCALATION");
+    expect(activity.meta as EscalationActivityMeta).toEqual({
+      policyId: policy.id,
+      policyName: "Overdue restocks",
+      trigger: "OVERDUE",
+      hours: 5,
+      reason: "Overdue by 5h",
+      level: 1,
+      oldPriority: "P3",
+      newPriority: "P2",
+      oldAssigneeId: "buyer",
+      newAssigneeId: "ops-lead",
+    });
+  });
+
+  it("waits a full threshold before escalating again, up to the policy's limit", async () => {
+    await storage.createEscalationPolicy({ name: "Overdue", enabled: true, trigger: "OVERDUE", thresholdHours: 4, raisePriority: true, maxEscalations: 2 });
+    const task = await storage.createTask({ title: "Restock mugs", type: "RESTOCK", priority: "P3", dueAt: start });
+
+    expect(await escalatedIds(at(5), task.id)).toEqual([task.id]);
+    expect(await escalatedIds(at(5), task.id)).toEqual([]);
+    expect(await escalatedIds(at(8), task.id)).toEqual([]);
+    expect(await escalatedIds(at(9), task.id)).toEqual([task.id]);
+    expect(await escalatedIds(at(48), task.id)).toEqual([]);
+
+    expect(await storage.getTask(task.id)).toMatchObject({ priority: "P1", escalationLevel: 2 });
+    expect((await storage.getTaskActivity(task.id)).filter(entry => entry.type === "ESCALATION")).toHaveLength(2);
+  });
+
+  it("escalates tasks nobody has touched, scoped to the policy's task type", async () => {
+    await storage.createEscalationPolicy({ name: "Stale reconciliations", enabled: true, trigger: "STALE", thresholdHours: 24, taskType: "RECONCILE", raisePriority: false, maxEscalations: 1 });
+    const reconcile = await storage.createTask({ title: "Match Stripe payouts", type: "RECONCILE", priority: "P2" });
+    const sync = await storage.createTask({ title: "Retry Shopify sync", type: "RETRY_SYNC", priority: "P2" });
+
+    expect(await escalatedIds(at(23), reconcile.id, sync.id)).toEqual([]);
+
+    const escalations = await sweepOwn(at(25), reconcile.id, sync.id);
+
+    expect(escalations).toMatchObject([{ taskId: reconcile.id, reason: "No updates for 25h", oldPriority: "P2", newPriority: "P2" }]);
+  });
+
+  it("leaves tasks alone once they are done, and skips disabled policies", async () => {
+    await storage.createEscalationPolicy({ name: "Paused", enabled: false, trigger: "OVERDUE", thresholdHours: 1, raisePriority: true, maxEscalations: 3 });
+    await storage.createEscalationPolicy({ name: "Overdue", enabled: true, trigger: "OVERDUE", thresholdHours: 4, raisePriority: true, maxEscalations: 3 });
+    const done = await storage.createTask({ title: "Restock cups", type: "RESTOCK", priority: "P3", dueAt: start, status: "DONE" });
+    const open = await storage.createTask({ title: "Restock mugs", type: "RESTOCK", priority: "P3", dueAt: start });
+
+    expect(await escalatedIds(at(2), done.id, open.id)).toEqual([]);
+
+    const escalations = await sweepOwn(at(5), done.id, open.id);
+
+    expect(escalations).toMatchObject([{ taskId: open.id, policyName: "Overdue" }]);
+    expect((await storage.getTask(done.id))?.escalationLevel).toBe(0);
+  });
+});
@@ -0,0 +1,136 @@
+import { type EscalationPolicy, type Task } from "@shared/schema";
+import { type IStorage } from "./storage";
+import { notificationService } from "./notificationService";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface TaskEscalation {
+  taskId: string;
+  policyId: string;
+  policyName: string;
+  reason: string;
+  oldPriority: Task["priority"];
+  newPriority: Task["priority"];
+  assigneeId: string | null;
+}
+
+export interface EscalationSweepResult {
+  checkedTasks: number;
+  escalations: TaskEscalation[];
+}
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+// SLA escalation for Action Center tasks: OPEN and IN_PROGRESS tasks that are overdue or have gone
+// untouched are escalated by the first matching policy, at most once per sweep
+export class EscalationService {
+  private storage: IStorage;
+
+  constructor(storage: IStorage) {
+    this.storage = storage;
+  }
+
+  static raisePriority(priority: Task["priority"]): Task["priority"] {
+    return priority === "P3" ? "P2" : "P1";
+  }
+
+  static policyApplies(policy: EscalationPolicy, task: Task): boolean {
+    if (!policy.enabled) return false;
+    if (policy.taskType && policy.taskType !== task.type) return false;
+    if (policy.priority && policy.priority !== task.priority) return false;
+    return task.escalationLevel < policy.maxEscalations;
+  }
+
+  // Hours past the policy threshold, or null if the task is not due for escalation.
+  // Repeat escalations wait another threshold after the last one.
+  static hoursOverThreshold(policy: EscalationPolicy, task: Task, now: Date): { hours: number, reason: string } | null {
+    let since: Date | null;
+    if (policy.trigger === "OVERDUE") {
+      if (!task.dueAt) return null;
+      since = task.dueAt;
+    } else {
+      since = task.updatedAt || task.createdAt;
+    }
+    if (!since) return null;
+
+    const reference = task.lastEscalatedAt && task.lastEscalatedAt > since ? task.lastEscalatedAt : since;
+    if (now.getTime() - reference.getTime() < policy.thresholdHours * HOUR_MS) return null;
+
+    const hours = round1((now.getTime() - since.getTime()) / HOUR_MS);
+    const reason = policy.trigger === "OVERDUE" ? `Overdue by ${hours}h` : `No updates for ${hours}h`;
+    return { hours, reason };
+  }
+
+  async sweep(now: Date = new Date()): Promise<EscalationSweepResult> {
+    const policies = await this.storage.getEscalationPolicies();
+    const tasks = (await this.storage.getTasks())
+      .filter(task => task.status === "OPEN" || task.status === "IN_PROGRESS");
+    const escalations: TaskEscalation[] = [];
+
+    for (const task of tasks) {
+      for (const policy of policies) {
+        if (!EscalationService.policyApplies(policy, task)) continue;
+
+        const due = EscalationService.hoursOverThreshold(policy, task, now);
+        if (!due) continue;
+
+        const escalated = await this.escalate(task, policy, due.reason, due.hours, now);
+        if (escalated) escalations.push(escalated);
+        break;
+      }
+    }
+
+    return { checkedTasks: tasks.length, escalations };
+  }
+
+  private async escalate(task: Task, policy: EscalationPolicy, reason: string, hours: number, now: Date): Promise<TaskEscalation | null> {
+    const priority = policy.raisePriority ? EscalationService.raisePriority(task.priority) : task.priority;
+    const assigneeId = policy.reassignTo || undefined;
+
+    const updatedTask = await this.storage.escalateTask(task.id, {
+      priority,
+      assigneeId,
+      escalatedAt: now,
+      meta: {
+        policyId: policy.id,
+        policyName: policy.name,
+        trigger: policy.trigger,
+        hours,
+        reason,
+      },
+    });
+    if (!updatedTask) return null;
+
+    await this.notify(updatedTask, policy, reason);
+
+    return {
+      taskId: task.id,
+      policyId: policy.id,
+      policyName: policy.name,
+      reason,
+      oldPriority: task.priority,
+      newPriority: updatedTask.priority,
+      assigneeId: updatedTask.assigneeId,
+    };
+  }
+
+  // Team channel (Teams/email) plus an in-app notification for the assignee
+  private async notify(task: Task, policy: EscalationPolicy, reason: string): Promise<void> {
+    await notificationService.notifyTask(task, `Task Escalated (${reason})`);
+
+    const assignee = task.assigneeId ? await this.storage.getUser(task.assigneeId) : undefined;
+    if (!assignee) return;
+
+    await this.storage.createNotification(assignee.organizationId || assignee.id, {
+      type: "system",
+      title: `Escalated to ${task.priority}: ${task.title}`,
+      message: `${reason}. Escalated by "${policy.name}".`,
+      icon: "AlertTriangle",
+      priority: task.priority === "P1" ? "critical" : "high",
+      userId: assignee.id,
+      metadata: { taskId: task.id, escalationPolicyId: policy.id, escalationLevel: task.escalationLevel },
+    });
+  }
+}
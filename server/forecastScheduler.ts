@@ -0,0 +1,108 @@
+import { storage } from './storage';
+import { ForecastService } from './forecastService';
+import type { ForecastMethod } from '@shared/schema';
+
+interface RefreshJob {
+  workspaceId: string;
+  productId?: string;
+  method?: ForecastMethod;
+}
+
+class ForecastScheduler {
+  private refreshInterval: NodeJS.Timeout | null = null;
+  private intervalMinutes = 60;
+  private running = false;
+  private lastRun: string | null = null;
+  private lastRunCount = 0;
+  private queue = new Map<string, RefreshJob>();
+  private draining = false;
+
+  start(intervalMinutes: number = parseInt(process.env.FORECAST_REFRESH_MINUTES || '60', 10)) {
+    this.stop();
+    this.intervalMinutes = intervalMinutes;
+
+    this.refreshInterval = setInterval(() => {
+      this.refreshAll();
+    }, intervalMinutes * 60 * 1000);
+
+    console.log(`Forecast scheduler started - refreshing every ${intervalMinutes} minutes`);
+    this.refreshAll();
+  }
+
+  // Recompute forecasts for every workspace that has sales orders
+  async refreshAll() {
+    // Skip if the previous run is still going
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      const workspaceIds = await storage.getSalesOrderWorkspaceIds();
+      let count = 0;
+
+      for (const workspaceId of workspaceIds) {
+        try {
+          count += await ForecastService.refreshWorkspace(workspaceId);
+        } catch (error) {
+          console.error(`Error refreshing forecasts for workspace ${workspaceId}:`, error);
+        }
+      }
+
+      this.lastRun = new Date().toISOString();
+      this.lastRunCount = count;
+      console.log(`Forecast refresh complete: ${count} forecasts across ${workspaceIds.length} workspaces`);
+    } catch (error) {
+      console.error('Error running forecast refresh:', error);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  // Refresh part of a workspace in the background, e.g. a method or SKU a GET found nothing stored for.
+  // A job already queued or running isn't queued twice
+  queueRefresh(job: RefreshJob) {
+    const key = `${job.workspaceId}:${job.productId || '*'}:${job.method || ForecastService.defaultMethod}`;
+    if (this.queue.has(key)) return;
+    this.queue.set(key, job);
+    setImmediate(() => this.drainQueue());
+  }
+
+  private async drainQueue() {
+    if (this.draining) return;
+    this.draining = true;
+
+    try {
+      while (this.queue.size > 0) {
+        const [key, job] = Array.from(this.queue.entries())[0];
+        try {
+          await ForecastService.refreshWorkspace(job.workspaceId, { productId: job.productId, method: job.method });
+        } catch (error) {
+          console.error(`Error refreshing forecasts for workspace ${job.workspaceId}:`, error);
+        }
+        this.queue.delete(key);
+      }
+    } finally {
+      this.draining = false;
+    }
+  }
+
+  stop() {
+    if (this.refreshInterval) {
+      clearInterval(this.refreshInterval);
+      this.refreshInterval = null;
+      console.log('Forecast scheduler stopped');
+    }
+  }
+
+  // Get status for monitoring
+  getStatus() {
+    return {
+      running: this.refreshInterval !== null,
+      intervalMinutes: this.intervalMinutes,
+      lastRun: this.lastRun,
+      lastRunCount: this.lastRunCount,
+      queued: this.queue.size,
+    };
+  }
+}
+
+export const forecastScheduler = new ForecastScheduler();
@@ -0,0 +1,181 @@
+import { storage } from './storage';
+import { getForecastForHorizon, groupDailySales, fillMissingDays, getDaysAgo } from '@shared/forecasting';
+import type {
+  DailySales,
+  ForecastData,
+  ForecastHorizon,
+  ForecastMethod,
+  ForecastRecord,
+  SalesOrder,
+  SalesOrderItem
+} from '@shared/schema';
+
+const FORECAST_HORIZONS: ForecastHorizon[] = ["30", "60", "90"];
+
+export interface ForecastFilters {
+  productId?: string;
+  locationId?: string; // "all" for the all-locations forecast
+  horizon?: ForecastHorizon;
+  method?: ForecastMethod;
+}
+
+// Server-side demand forecasting over stored sales orders
+export class ForecastService {
+  // Method computed by the scheduler; other methods are computed on first request
+  static readonly defaultMethod: ForecastMethod = "auto";
+  static readonly minHistoryDays = 30;
+  // Forecasts older than this are recomputed when requested
+  static readonly staleHours = 24;
+
+  // Flatten sales orders into per-SKU line items for the forecasting engine (cancelled orders excluded)
+  static toSalesItems(orders: SalesOrder[]): SalesOrderItem[] {
+    const items: SalesOrderItem[] = [];
+
+    for (const order of orders) {
+      if (order.status === "CANCELLED") continue;
+      const createdAt = (order.createdAt || new Date()).toISOString();
+
+      for (const item of order.items) {
+        items.push({
+          productId: item.sku,
+          qty: item.quantity,
+          createdAt,
+          locationId: order.locationId || undefined,
+        });
+      }
+    }
+
+    return items;
+  }
+
+  static toForecastData(record: ForecastRecord): ForecastData {
+    return {
+      productId: record.productId,
+      locationId: record.locationId || undefined,
+      horizon: record.horizon,
+      method: record.method,
+      ts: record.computedAt.toISOString(),
+      result: record.result,
+    };
+  }
+
+  static isStale(record: Pick<ForecastRecord, "computedAt">): boolean {
+    const ageHours = (Date.now() - record.computedAt.getTime()) / (1000 * 60 * 60);
+    return ageHours > this.staleHours;
+  }
+
+  static async getSalesItems(workspaceId: string): Promise<SalesOrderItem[]> {
+    const orders = await storage.getSalesOrders(workspaceId);
+    return this.toSalesItems(orders);
+  }
+
+  // Compute and persist one forecast
+  static async computeForecast(
+    workspaceId: string,
+    productId: string,
+    locationId: string | undefined,
+    horizon: ForecastHorizon,
+    method: ForecastMethod,
+    salesItems?: SalesOrderItem[]
+  ): Promise<ForecastRecord> {
+    const items = salesItems || await this.getSalesItems(workspaceId);
+    const result = getForecastForHorizon(items, productId, locationId, horizon, method, this.minHistoryDays);
+
+    return storage.upsertForecast({
+      workspaceId,
+      productId,
+      locationId: locationId || null,
+      horizon,
+      method,
+      result,
+      computedAt: new Date(),
+    });
+  }
+
+  // Recompute every SKU (all locations plus each location it sold from) for all horizons
+  static async refreshWorkspace(workspaceId: string, options: { productId?: string, method?: ForecastMethod } = {}): Promise<number> {
+    const method = options.method || this.defaultMethod;
+    const items = await this.getSalesItems(workspaceId);
+
+    const targets = new Map<string, { productId: string, locationId?: string }>();
+    for (const item of items) {
+      if (options.productId && item.productId !== options.productId) continue;
+      targets.set(`${item.productId}:all`, { productId: item.productId });
+      if (item.locationId) {
+        targets.set(`${item.productId}:${item.locationId}`, { productId: item.productId, locationId: item.locationId });
+      }
+    }
+
+    // A SKU asked for by name gets a forecast even without sales, so it isn't requested again
+    if (options.productId && targets.size === 0) {
+      targets.set(`${options.productId}:all`, { productId: options.productId });
+    }
+
+    let refreshed = 0;
+    for (const target of Array.from(targets.values())) {
+      for (const horizon of FORECAST_HORIZONS) {
+        await this.computeForecast(workspaceId, target.productId, target.locationId, horizon, method, items);
+        refreshed++;
+      }
+    }
+
+    return refreshed;
+  }
+
+  // Persisted forecasts matching the filters, with the SKU × method combinations to refresh (see getRefreshJobs).
+  // Nothing is computed here
+  static async getForecasts(workspaceId: string, filters: ForecastFilters = {}): Promise<{
+    forecasts: ForecastData[];
+    refresh: { productId: string; method: ForecastMethod }[];
+  }> {
+    const locationFilter = filters.locationId || (filters.productId ? "all" : undefined);
+    const records = await storage.getForecasts(workspaceId, { ...filters, locationId: locationFilter });
+
+    return {
+      forecasts: records.map(record => this.toForecastData(record)),
+      refresh: await this.getRefreshJobs(workspaceId, filters),
+    };
+  }
+
+  // The SKU × method combinations the filters cover that have nothing stored, or only stale forecasts, for the
+  // forecast scheduler to queue. Without a method filter that's the default method plus any method already stored.
+  static async getRefreshJobs(workspaceId: string, filters: ForecastFilters = {}): Promise<{ productId: string; method: ForecastMethod }[]> {
+    const locationFilter = filters.locationId || (filters.productId ? "all" : undefined);
+    const computed = await storage.getForecastTimes(workspaceId, { ...filters, locationId: locationFilter });
+
+    const productIds = filters.productId ? [filters.productId] : await storage.getSoldSkus(workspaceId);
+    const methods = [filters.method || this.defaultMethod];
+
+    const wanted = new Map<string, { productId: string; method: ForecastMethod }>();
+    for (const productId of productIds) {
+      for (const method of methods) wanted.set(`${productId}:${method}`, { productId, method });
+    }
+    for (const { productId, method } of computed) {
+      wanted.set(`${productId}:${method}`, { productId, method });
+    }
+
+    const fresh = new Set(computed.filter(record => !this.isStale(record)).map(record => `${record.productId}:${record.method}`));
+
+    return Array.from(wanted.entries()).filter(([key]) => !fresh.has(key)).map(([, job]) => job);
+  }
+
+  // One SKU's all-locations forecast for server-side jobs (reorder runs, notifications), computed if it
+  // is missing or stale
+  static async getOrComputeForecast(
+    workspaceId: string,
+    productId: string,
+    horizon: ForecastHorizon,
+    method: ForecastMethod = this.defaultMethod
+  ): Promise<ForecastData> {
+    const [record] = await storage.getForecasts(workspaceId, { productId, locationId: "all", horizon, method });
+    if (record && !this.isStale(record)) return this.toForecastData(record);
+    return this.toForecastData(await this.computeForecast(workspaceId, productId, undefined, horizon, method));
+  }
+
+  // Daily sales for a SKU over the last `days` days (up to yesterday), zero-filled
+  static async getSalesHistory(workspaceId: string, productId: string, locationId: string | undefined, days: number): Promise<DailySales[]> {
+    const items = await this.getSalesItems(workspaceId);
+    const dailySales = groupDailySales(items, { productId, locationId });
+    return fillMissingDays(dailySales, getDaysAgo(days), getDaysAgo(1));
+  }
+}
@@ -7,6 +7,10 @@ import { digestScheduler } from "./digestScheduler";
 import { storage } from "./storage";
 import { hashPassword } from "./auth";
 import { startWebhookProcessor } from "./services/webhooks";
+import { startIdempotencyKeyCleanup } from "./middleware/idempotency";
+import { forecastScheduler } from "./forecastScheduler";
+import { escalationScheduler } from "./escalationScheduler";
+import { trackingScheduler } from "./trackingScheduler";
 
 // Import API routes
 import apiRoutes from "./routes/api";
@@ -42,6 +46,10 @@ async function seedDemoUsers() {
     const organizationId = demoUser.organizationId || "sample-org-123";
     await storage.addTestAlertsForUser(demoUser.id, organizationId);
     
+    // Seed sales history and stock so the demo workspace has forecasts and reorder runs
+    await storage.initializeSampleSalesHistory(organizationId);
+    await storage.initializeSampleReorderData(organizationId);
+    
     console.log("🎉 Demo user created successfully:", demoEmail);
     console.log("   ID:", demoUser.id);
     console.log("   Role:", demoUser.role);
@@ -117,13 +125,13 @@ app.use((req, res, next) => {
     port,
     host: "0.0.0.0",
     reusePort: true,
-  }, () => {
+  }, async () => {
     log(`serving on port ${port}`);
     
     // Start notification generators in development
     if (app.get("env") === "development") {
-      // Seed demo users automatically on startup
-      seedDemoUsers();
+      // Seed demo users automatically on startup, before the schedulers' first run
+      await seedDemoUsers();
       
       // Start periodic checks every 5 minutes for demo purposes
       NotificationGenerators.startPeriodicChecks(5);
@@ -135,6 +143,18 @@ app.use((req, res, next) => {
     // Start webhook processor
     startWebhookProcessor();
 
+    // Expire stored Idempotency-Key responses
+    startIdempotencyKeyCleanup();
+
+    // Recompute demand forecasts on a schedule
+    forecastScheduler.start();
+
+    // Escalate overdue and stale Action Center tasks
+    escalationScheduler.start();
+
+    // Poll carriers for shipment tracking updates
+    trackingScheduler.start();
+
     // Daily digest scheduler is always running (configured via settings)
     console.log("Daily digest scheduler initialized and running");
     console.log("Digest status:", digestScheduler.getStatus());
@@ -0,0 +1,118 @@
+import { type InventoryLevel, type InventoryMove, type InsertInventoryMove } from "@shared/schema";
+import { type IStorage } from "./storage";
+
+// Server-side counterpart of the client warehouse applyMove: validates a stock move,
+// records it and updates the affected inventory levels
+export class InventoryService {
+  private storage: IStorage;
+
+  constructor(storage: IStorage) {
+    this.storage = storage;
+  }
+
+  private async getLevel(workspaceId: string, productId: string, locationId: string): Promise<Pick<InventoryLevel, "onHand" | "onOrder">> {
+    const [level] = await this.storage.getInventoryLevels(workspaceId, { productId, locationId });
+    return level || { onHand: 0, onOrder: 0 };
+  }
+
+  // Manual stock count correction, clamped so stock doesn't go below zero. The level stays locked from read
+  // to write, so adjustments made together each apply on top of the last
+  async adjustOnHand(adjustment: {
+    workspaceId: string;
+    productId: string;
+    locationId: string;
+    delta: number;
+    reason?: string;
+    reorderPoint?: number; // For a level created by this adjustment
+  }): Promise<{ level: InventoryLevel, move: InventoryMove, previousStock: number }> {
+    const { workspaceId, productId, locationId, delta, reason, reorderPoint } = adjustment;
+
+    return this.storage.transaction(async storage => {
+      const existing = await storage.lockInventoryLevel(workspaceId, productId, locationId, { reorderPoint });
+      const previousStock = existing.onHand;
+      const level = await storage.upsertInventoryLevel({ workspaceId, productId, locationId, onHand: Math.max(0, previousStock + delta) });
+
+      // Record the move actually applied
+      const applied = level.onHand - previousStock;
+      const move = await storage.createInventoryMove({
+        workspaceId,
+        type: "ADJUST",
+        productId,
+        fromLocationId: applied < 0 ? locationId : null,
+        toLocationId: applied >= 0 ? locationId : null,
+        qty: applied,
+        refType: "MANUAL",
+        note: reason,
+      });
+
+      return { level, move, previousStock };
+    });
+  }
+
+  async applyMove(move: InsertInventoryMove): Promise<InventoryMove> {
+    const { workspaceId, productId } = move;
+    const qty = Math.abs(move.qty);
+
+    switch (move.type) {
+      case "RECEIPT":
+        if (move.toLocationId) {
+          // Incremented in place so concurrent receipts can't overwrite each other.
+          // Goods received against a PO are no longer on order
+          await this.storage.adjustInventoryLevel(workspaceId, productId, move.toLocationId, {
+            onHand: qty,
+            onOrder: move.refType === "PO" ? -qty : 0,
+          });
+        }
+        break;
+
+      case "ADJUST":
+        if (move.toLocationId) {
+          const inv = await this.getLevel(workspaceId, productId, move.toLocationId);
+          const newOnHand = inv.onHand + move.qty;
+
+          if (newOnHand < 0) {
+            throw new Error(`Adjustment would result in negative stock (${newOnHand}). Current stock: ${inv.onHand}`);
+          }
+
+          await this.storage.upsertInventoryLevel({ workspaceId, productId, locationId: move.toLocationId, onHand: newOnHand });
+        }
+        break;
+
+      case "TRANSFER":
+        if (move.fromLocationId && move.toLocationId) {
+          // Validate source has enough stock
+          const fromInv = await this.getLevel(workspaceId, productId, move.fromLocationId);
+          if (fromInv.onHand < qty) {
+            throw new Error(`Insufficient stock for transfer. Available: ${fromInv.onHand}, Requested: ${qty}`);
+          }
+
+          const toInv = await this.getLevel(workspaceId, productId, move.toLocationId);
+          await this.storage.upsertInventoryLevel({ workspaceId, productId, locationId: move.fromLocationId, onHand: fromInv.onHand - qty });
+          await this.storage.upsertInventoryLevel({ workspaceId, productId, locationId: move.toLocationId, onHand: toInv.onHand + qty });
+        }
+        break;
+
+      case "PICK":
+        if (move.fromLocationId) {
+          const inv = await this.getLevel(workspaceId, productId, move.fromLocationId);
+          const newOnHand = inv.onHand - qty;
+
+          if (newOnHand < 0) {
+            throw new Error(`Pick would result in negative stock (${newOnHand}). Current stock: ${inv.onHand}`);
+          }
+
+          await this.storage.upsertInventoryLevel({ workspaceId, productId, locationId: move.fromLocationId, onHand: newOnHand });
+        }
+        break;
+
+      case "RETURN":
+        if (move.toLocationId) {
+          const inv = await this.getLevel(workspaceId, productId, move.toLocationId);
+          await this.storage.upsertInventoryLevel({ workspaceId, productId, locationId: move.toLocationId, onHand: inv.onHand + qty });
+        }
+        break;
+    }
+
+    return this.storage.createInventoryMove(move);
+  }
+}
@@ -1,57 +1,6 @@
 import { Request, Response, NextFunction } from 'express';
-import fs from 'fs/promises';
-import path from 'path';
-import { fileURLToPath } from 'url';
-
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
-
-interface AuditLogEntry {
-  id: string;
-  timestamp: string;
-  keyPrefix?: string;
-  keyId?: string;
-  ip: string;
-  userAgent?: string;
-  method: string;
-  path: string;
-  query?: string;
-  statusCode?: number;
-  responseTimeMs?: number;
-  error?: string;
-  requestBody?: any;
-  responseSize?: number;
-}
-
-const AUDIT_LOG_FILE = path.join(__dirname, '../db/audit.json');
-const MAX_LOG_ENTRIES = 10000; // Keep last 10k entries
-
-// Initialize audit log file
-async function initializeAuditFile() {
-  try {
-    await fs.access(AUDIT_LOG_FILE);
-  } catch {
-    await fs.writeFile(AUDIT_LOG_FILE, JSON.stringify([], null, 2));
-  }
-}
-
-// Load audit logs
-async function loadAuditLogs(): Promise<AuditLogEntry[]> {
-  await initializeAuditFile();
-  try {
-    const data = await fs.readFile(AUDIT_LOG_FILE, 'utf-8');
-    return JSON.parse(data);
-  } catch {
-    return [];
-  }
-}
-
-// Save audit logs with rotation
-async function saveAuditLogs(logs: AuditLogEntry[]) {
-  // Keep only the most recent entries
-  const trimmedLogs = logs.slice(-MAX_LOG_ENTRIES);
-  await fs.writeFile(AUDIT_LOG_FILE, JSON.stringify(trimmedLogs, null, 2));
-}
+import { type AuditLog, type InsertAuditLog } from '@shared/schema';
+import { storage, type AuditStats } from '../storage';
 
 // Generate unique ID for each request
 function generateRequestId(): string {
@@ -108,9 +57,9 @@ export function auditMiddleware(req: Request & { apiKey?: { keyPrefix: string; i
   const requestId = generateRequestId();
   
   // Initial log entry
-  const logEntry: AuditLogEntry = {
+  const logEntry: InsertAuditLog = {
     id: requestId,
-    timestamp: new Date().toISOString(),
+    timestamp: new Date(),
     keyPrefix: req.apiKey?.keyPrefix,
     keyId: req.apiKey?.id,
     ip: getClientIp(req),
@@ -144,9 +93,7 @@ export function auditMiddleware(req: Request & { apiKey?: { keyPrefix: string; i
       
       // Only log API requests or errors
       if (req.path.startsWith('/api/') || req.path.startsWith('/mgmt/') || res.statusCode >= 400) {
-        const logs = await loadAuditLogs();
-        logs.push(logEntry);
-        await saveAuditLogs(logs);
+        await storage.appendAuditLog(logEntry);
       }
     } catch (error) {
       console.error('Audit logging error:', error);
@@ -160,9 +107,7 @@ export function auditMiddleware(req: Request & { apiKey?: { keyPrefix: string; i
       logEntry.statusCode = res.statusCode || 500;
       logEntry.responseTimeMs = Date.now() - startTime;
       
-      const logs = await loadAuditLogs();
-      logs.push(logEntry);
-      await saveAuditLogs(logs);
+      await storage.appendAuditLog(logEntry);
     } catch (auditError) {
       console.error('Audit logging error:', auditError);
     }
@@ -182,102 +127,15 @@ export async function queryAuditLogs(filters: {
   toDate?: string;
   limit?: number;
   offset?: number;
-}): Promise<{ entries: AuditLogEntry[]; total: number }> {
-  const logs = await loadAuditLogs();
-  
-  let filteredLogs = logs;
-  
-  // Apply filters
-  if (filters.keyPrefix) {
-    filteredLogs = filteredLogs.filter(log => log.keyPrefix === filters.keyPrefix);
-  }
-  
-  if (filters.keyId) {
-    filteredLogs = filteredLogs.filter(log => log.keyId === filters.keyId);
-  }
-  
-  if (filters.method) {
-    filteredLogs = filteredLogs.filter(log => log.method === filters.method);
-  }
-  
-  if (filters.pathPattern) {
-    const pattern = new RegExp(filters.pathPattern, 'i');
-    filteredLogs = filteredLogs.filter(log => pattern.test(log.path));
-  }
-  
-  if (filters.statusCode) {
-    filteredLogs = filteredLogs.filter(log => log.statusCode === filters.statusCode);
-  }
-  
-  if (filters.fromDate) {
-    const fromDate = new Date(filters.fromDate);
-    filteredLogs = filteredLogs.filter(log => new Date(log.timestamp) >= fromDate);
-  }
-  
-  if (filters.toDate) {
-    const toDate = new Date(filters.toDate);
-    filteredLogs = filteredLogs.filter(log => new Date(log.timestamp) <= toDate);
-  }
-  
-  // Sort by timestamp (newest first)
-  filteredLogs.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
-  
-  const total = filteredLogs.length;
-  const offset = filters.offset || 0;
-  const limit = filters.limit || 100;
-  
-  const entries = filteredLogs.slice(offset, offset + limit);
-  
-  return { entries, total };
+}): Promise<{ entries: AuditLog[]; total: number }> {
+  return storage.queryAuditLogs({
+    ...filters,
+    fromDate: filters.fromDate ? new Date(filters.fromDate) : undefined,
+    toDate: filters.toDate ? new Date(filters.toDate) : undefined
+  });
 }
 
 // Get audit statistics
-export async function getAuditStats(): Promise<{
-  totalRequests: number;
-  uniqueKeys: number;
-  errorRate: number;
-  avgResponseTime: number;
-  topPaths: Array<{ path: string; count: number }>;
-  statusCodes: Record<string, number>;
-}> {
-  const logs = await loadAuditLogs();
-  
-  const totalRequests = logs.length;
-  const uniqueKeys = new Set(logs.map(log => log.keyPrefix).filter(Boolean)).size;
-  const errors = logs.filter(log => log.statusCode && log.statusCode >= 400).length;
-  const errorRate = totalRequests > 0 ? (errors / totalRequests) * 100 : 0;
-  
-  const responseTimeLogs = logs.filter(log => log.responseTimeMs !== undefined);
-  const avgResponseTime = responseTimeLogs.length > 0
-    ? responseTimeLogs.reduce((sum, log) => sum + (log.responseTimeMs || 0), 0) / responseTimeLogs.length
-    : 0;
-  
-  // Top paths
-  const pathCounts: Record<string, number> = {};
-  logs.forEach(log => {
-    pathCounts[log.path] = (pathCounts[log.path] || 0) + 1;
-  });
-  
-  const topPaths = Object.entries(pathCounts)
-    .map(([path, count]) => ({ path, count }))
-    .sort((a, b) => b.count - a.count)
-    .slice(0, 10);
-  
-  // Status codes
-  const statusCodes: Record<string, number> = {};
-  logs.forEach(log => {
-    if (log.statusCode) {
-      const code = log.statusCode.toString();
-      statusCodes[code] = (statusCodes[code] || 0) + 1;
-    }
-  });
-  
-  return {
-    totalRequests,
-    uniqueKeys,
-    errorRate,
-    avgResponseTime,
-    topPaths,
-    statusCodes
-  };
+export async function getAuditStats(): Promise<AuditStats> {
+  return storage.getAuditStats();
 }
\ No newline at end of file
@@ -1,51 +1,15 @@
 import { Request, Response, NextFunction } from 'express';
 import crypto from 'crypto';
-import fs from 'fs/promises';
-import path from 'path';
-import { fileURLToPath } from 'url';
-
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
-
-interface ApiKey {
-  id: string;
-  keyPrefix: string;
-  hashedKey: string;
-  scopes: string[];
-  name: string;
-  createdAt: string;
-  revokedAt?: string;
-  workspaceId?: string;
-}
+import { type ApiKey } from '@shared/schema';
+import { storage } from '../storage';
 
 interface AuthenticatedRequest extends Request {
   apiKey?: ApiKey;
   apiKeyId?: string;
 }
 
-const API_KEYS_FILE = path.join(__dirname, '../db/api_keys.json');
 const API_HASH_SECRET = process.env.API_HASH_SECRET || 'change_me_in_production';
 
-// Initialize API keys file if it doesn't exist
-async function initializeApiKeysFile() {
-  try {
-    await fs.access(API_KEYS_FILE);
-  } catch {
-    await fs.writeFile(API_KEYS_FILE, JSON.stringify([], null, 2));
-  }
-}
-
-// Load API keys from file
-async function loadApiKeys(): Promise<ApiKey[]> {
-  await initializeApiKeysFile();
-  try {
-    const data = await fs.readFile(API_KEYS_FILE, 'utf-8');
-    return JSON.parse(data);
-  } catch {
-    return [];
-  }
-}
-
 // Hash API key for storage
 export function hashApiKey(key: string): string {
   return crypto.createHmac('sha256', API_HASH_SECRET).update(key).digest('hex');
@@ -63,7 +27,7 @@ export function generateApiKey(): { fullKey: string; keyPrefix: string; hashedKe
 
 // Validate API key format
 function isValidApiKeyFormat(key: string): boolean {
-  return /^fv_[a-f0-9]{8}_[a-f0-9]{48}$/.test(key);
+  return /^fv_[a-f0-9]{8}_[a-f0-9]{56}$/.test(key);
 }
 
 // API Key authentication middleware
@@ -82,15 +46,16 @@ export async function authenticateApiKey(req: AuthenticatedRequest, res: Respons
     }
     
     const hashedKey = hashApiKey(apiKey);
-    const apiKeys = await loadApiKeys();
-    
-    const matchingKey = apiKeys.find(key => 
-      key.hashedKey === hashedKey && !key.revokedAt
-    );
+    const matchingKey = await storage.getActiveApiKeyByHash(hashedKey);
     
     if (!matchingKey) {
       return res.status(401).json({ error: 'Invalid or revoked API key' });
     }
+
+    // Every request is scoped to the key's workspace, so a key without one can't be used
+    if (!matchingKey.workspaceId) {
+      return res.status(403).json({ error: 'API key is not linked to a workspace' });
+    }
     
     req.apiKey = matchingKey;
     req.apiKeyId = matchingKey.id;
@@ -101,6 +66,15 @@ export async function authenticateApiKey(req: AuthenticatedRequest, res: Respons
   }
 }
 
+// Workspace the API key acts on; authenticateApiKey turns away keys without one
+export function getWorkspaceId(req: AuthenticatedRequest): string {
+  const workspaceId = req.apiKey?.workspaceId;
+  if (!workspaceId) {
+    throw new Error('API key is not linked to a workspace');
+  }
+  return workspaceId;
+}
+
 // Scope enforcement middleware
 export function requireScopes(...requiredScopes: string[]) {
   return (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
@@ -137,7 +111,8 @@ export const AVAILABLE_SCOPES = [
   'read:customers',
   'write:customers',
   'read:invoices',
-  'write:invoices'
+  'write:invoices',
+  'read:forecasts'
 ] as const;
 
 export type ApiScope = typeof AVAILABLE_SCOPES[number];
@@ -146,23 +121,17 @@ export type ApiScope = typeof AVAILABLE_SCOPES[number];
 export async function createApiKey(data: {
   name: string;
   scopes: string[];
-  workspaceId?: string;
+  workspaceId: string;
 }): Promise<{ id: string; fullKey: string; keyPrefix: string }> {
   const { fullKey, keyPrefix, hashedKey } = generateApiKey();
-  const apiKeys = await loadApiKeys();
   
-  const newKey: ApiKey = {
-    id: crypto.randomUUID(),
+  const newKey = await storage.createApiKey({
     keyPrefix,
     hashedKey,
     scopes: data.scopes,
     name: data.name,
-    createdAt: new Date().toISOString(),
     workspaceId: data.workspaceId
-  };
-  
-  apiKeys.push(newKey);
-  await fs.writeFile(API_KEYS_FILE, JSON.stringify(apiKeys, null, 2));
+  });
   
   return {
     id: newKey.id,
@@ -172,24 +141,12 @@ export async function createApiKey(data: {
 }
 
 export async function listApiKeys(workspaceId?: string): Promise<Omit<ApiKey, 'hashedKey'>[]> {
-  const apiKeys = await loadApiKeys();
-  return apiKeys
-    .filter(key => !workspaceId || key.workspaceId === workspaceId)
-    .map(({ hashedKey, ...key }) => key);
+  const apiKeys = await storage.listApiKeys(workspaceId);
+  return apiKeys.map(({ hashedKey, ...key }) => key);
 }
 
 export async function revokeApiKey(keyId: string): Promise<boolean> {
-  const apiKeys = await loadApiKeys();
-  const keyIndex = apiKeys.findIndex(key => key.id === keyId);
-  
-  if (keyIndex === -1) {
-    return false;
-  }
-  
-  apiKeys[keyIndex].revokedAt = new Date().toISOString();
-  await fs.writeFile(API_KEYS_FILE, JSON.stringify(apiKeys, null, 2));
-  
-  return true;
+  return storage.revokeApiKey(keyId);
 }
 
 export { AuthenticatedRequest };
\ No newline at end of file
@@ -0,0 +1,132 @@
+import { Request, Response, NextFunction } from 'express';
+import { createHash } from 'crypto';
+import { storage } from '../storage';
+
+const DEFAULT_RETENTION_MS = 24 * 60 * 60 * 1000; // 24 hours
+const MAX_KEY_LENGTH = 255;
+const MUTATING_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE'];
+
+// JSON with object keys sorted, so the same body always fingerprints the same
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+function fingerprint(method: string, path: string, body: unknown): string {
+  return createHash('sha256').update(`${method} ${path}\n${canonicalJson(body ?? null)}`).digest('hex');
+}
+
+// Idempotency-Key middleware for mutating routes. Runs after authentication: keys are scoped to the API key or user.
+export function idempotencyMiddleware(options: { retentionMs?: number } = {}) {
+  const retentionMs = options.retentionMs ?? DEFAULT_RETENTION_MS;
+
+  return async (req: Request & { apiKey?: { keyPrefix: string } }, res: Response, next: NextFunction) => {
+    const key = req.get('Idempotency-Key');
+    if (!key || !MUTATING_METHODS.includes(req.method)) {
+      return next();
+    }
+
+    if (key.length > MAX_KEY_LENGTH) {
+      return res.status(400).json({
+        error: 'invalid_idempotency_key',
+        message: `Idempotency-Key must be at most ${MAX_KEY_LENGTH} characters`
+      });
+    }
+
+    const scope = req.apiKey?.keyPrefix || (req.user ? `user:${req.user.id}` : undefined);
+    if (!scope) {
+      return next();
+    }
+
+    const path = req.baseUrl + req.path;
+    let claim;
+    try {
+      claim = await storage.claimIdempotencyKey({
+        id: `${scope}:${key}`,
+        scope,
+        key,
+        method: req.method,
+        path,
+        fingerprint: fingerprint(req.method, path, req.body),
+        expiresAt: new Date(Date.now() + retentionMs),
+      });
+    } catch (error) {
+      console.error('Idempotency error:', error);
+      // Don't block requests when the key store is unavailable, just log and continue
+      return next();
+    }
+
+    const { record, claimed } = claim;
+
+    if (!claimed) {
+      if (record.fingerprint !== fingerprint(req.method, path, req.body)) {
+        return res.status(409).json({
+          error: 'idempotency_key_reused',
+          message: 'This Idempotency-Key was already used with a different request'
+        });
+      }
+
+      if (record.status === 'in_progress') {
+        res.set('Retry-After', '1');
+        return res.status(409).json({
+          error: 'idempotency_key_in_progress',
+          message: 'A request with this Idempotency-Key is still being processed'
+        });
+      }
+
+      res.set('Idempotent-Replayed', 'true');
+      return res.status(record.responseStatus!).json(record.responseBody);
+    }
+
+    // Capture the response so retries get exactly what the first request got
+    const originalJson = res.json;
+    let responseBody: unknown = null;
+    res.json = function(body: any) {
+      responseBody = body;
+      return originalJson.call(this, body);
+    };
+
+    let settled = false;
+    const settle = () => {
+      if (settled) return;
+      settled = true;
+
+      // Server errors and aborted requests release the key, so the client can retry
+      const stored = res.writableFinished && res.statusCode < 500
+        ? storage.completeIdempotencyKey(record.id, { status: res.statusCode, body: responseBody })
+        : storage.releaseIdempotencyKey(record.id);
+      stored.catch(error => console.error('Idempotency store error:', error));
+    };
+    res.on('finish', settle);
+    res.on('close', settle);
+
+    next();
+  };
+}
+
+// Clean up expired idempotency keys (for maintenance)
+export async function cleanupIdempotencyKeys() {
+  // Number of cleaned entries
+  return storage.deleteExpiredIdempotencyKeys(new Date());
+}
+
+// Delete expired keys every hour so the store doesn't grow with every mutating request
+export function startIdempotencyKeyCleanup(): void {
+  setInterval(async () => {
+    try {
+      const deleted = await cleanupIdempotencyKeys();
+      if (deleted > 0) console.log(`Deleted ${deleted} expired idempotency keys`);
+    } catch (error) {
+      console.error('Idempotency key cleanup error:', error);
+    }
+  }, 60 * 60 * 1000); // 1 hour
+}
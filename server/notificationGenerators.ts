@@ -1,8 +1,8 @@
 import { storage } from "./storage";
 import type { CreateNotificationData } from "@shared/schema";
 import { getAllProducts } from "../client/src/data/seedProductData";
-import { getForecastForHorizon, calcSuggestion } from "../client/src/utils/forecasting";
-import { getSalesOrders } from "../client/src/utils/forecastStorage";
+import { calcSuggestion } from "@shared/forecasting";
+import { ForecastService } from "./forecastService";
 
 export class NotificationGenerators {
   private static organizationId = "sample-org-123"; // In real app, this would be dynamic
@@ -11,7 +11,6 @@ export class NotificationGenerators {
   static async checkInventoryLevels() {
     try {
       const products = getAllProducts();
-      const salesOrders = getSalesOrders();
       
       const lowStockProducts = [];
       const predictedStockouts = [];
@@ -20,14 +19,9 @@ export class NotificationGenerators {
       for (const product of products) {
         const currentStock = product.stock || 0;
         
-        // Get forecast data for this product
-        const forecastData = getForecastForHorizon(
-          salesOrders,
-          product.id,
-          undefined, // All locations
-          "30",
-          "moving_avg"
-        );
+        // Get the server-side forecast for this product (all locations)
+        const forecast = await ForecastService.getOrComputeForecast(this.organizationId, product.sku, "30");
+        const forecastData = forecast.result;
 
         // Calculate reorder suggestion
         const suggestion = calcSuggestion({
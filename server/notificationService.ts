@@ -40,24 +40,29 @@ export class NotificationService {
       return; // Only notify for P1 tasks
     }
 
+    await this.notifyTask(task, "Critical Task Created");
+  }
+
+  // Send a task to the team channel (Teams, falling back to email), e.g. from an Action Center rule
+  async notifyTask(task: Task, heading: string = "Task Needs Attention"): Promise<void> {
     try {
       const teamsWebhookUrl = process.env.TEAMS_WEBHOOK_URL;
       
       if (teamsWebhookUrl) {
-        await this.sendTeamsNotification(task, teamsWebhookUrl);
-        console.log(`Teams notification sent for P1 task: ${task.id}`);
+        await this.sendTeamsNotification(task, teamsWebhookUrl, heading);
+        console.log(`Teams notification sent for ${task.priority} task: ${task.id}`);
       } else if (this.hasEmailConfig()) {
-        await this.sendEmailNotification(task);
-        console.log(`Email notification sent for P1 task: ${task.id}`);
+        await this.sendEmailNotification(task, heading);
+        console.log(`Email notification sent for ${task.priority} task: ${task.id}`);
       } else {
         console.log("No notification configuration found (TEAMS_WEBHOOK_URL or SMTP settings)");
       }
     } catch (error) {
-      console.error("Failed to send P1 task notification:", error);
+      console.error(`Failed to send ${task.priority} task notification:`, error);
     }
   }
 
-  private async sendTeamsNotification(task: Task, webhookUrl: string): Promise<void> {
+  private async sendTeamsNotification(task: Task, webhookUrl: string, heading: string): Promise<void> {
     const actionCenterUrl = `${this.baseUrl}/action-center?taskId=${task.id}`;
     const dueAtFormatted = task.dueAt 
       ? new Intl.DateTimeFormat('en-US', {
@@ -69,11 +74,11 @@ export class NotificationService {
     const card: TeamsCard = {
       "@type": "MessageCard",
       "@context": "http://schema.org/extensions",
-      summary: `Critical Task Created: ${task.title}`,
-      themeColor: "FF0000", // Red for P1 priority
+      summary: `${heading}: ${task.title}`,
+      themeColor: task.priority === "P1" ? "FF0000" : "F59E0B", // Red for P1 priority
       sections: [
         {
-          activityTitle: "🚨 Critical Task Created",
+          activityTitle: `🚨 ${heading}`,
           facts: [
             {
               name: "Title",
@@ -125,7 +130,7 @@ export class NotificationService {
     }
   }
 
-  private async sendEmailNotification(task: Task): Promise<void> {
+  private async sendEmailNotification(task: Task, heading: string): Promise<void> {
     const { sendEmail } = await import("./emailService");
     
     const actionCenterUrl = `${this.baseUrl}/action-center?taskId=${task.id}`;
@@ -136,11 +141,11 @@ export class NotificationService {
         }).format(new Date(task.dueAt))
       : 'Not set';
 
-    const subject = `🚨 Critical Task Created: ${task.title}`;
+    const subject = `🚨 ${heading}: ${task.title}`;
     const htmlBody = `
       <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
         <div style="background-color: #dc2626; color: white; padding: 20px; border-radius: 8px 8px 0 0;">
-          <h1 style="margin: 0; font-size: 24px;">🚨 Critical Task Created</h1>
+          <h1 style="margin: 0; font-size: 24px;">🚨 ${heading}</h1>
         </div>
         
         <div style="background-color: #f9fafb; padding: 20px; border: 1px solid #e5e7eb;">
@@ -184,7 +189,7 @@ export class NotificationService {
     `;
 
     const textBody = `
-Critical Task Created
+${heading}
 
 Title: ${task.title}
 Type: ${task.type}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { PackingService, type PackingBox, type PackingUnit } from "./packingService";
+
+const small: PackingBox = { id: "small", name: "Small", dims: [20, 15, 10], maxWeight: 5, tareWeight: 0.2 };
+const large: PackingBox = { id: "large", name: "Large", dims: [40, 30, 20], maxWeight: 20, tareWeight: 0.5 };
+const boxes = [large, small];
+
+function units(count: number, sku: string, dims: [number, number, number], weight: number, shipsAlone = false): PackingUnit[] {
+  return Array.from({ length: count }, () => ({ sku, dims, weight, shipsAlone }));
+}
+
+describe("PackingService.pack", () => {
+  it("packs a single item into the smallest box it fits", () => {
+    const [parcel] = PackingService.pack(units(1, "MUG", [10, 10, 5], 1), boxes);
+
+    expect(parcel).toMatchObject({
+      boxId: "small",
+      length: 20,
+      width: 15,
+      height: 10,
+      weight: 1.2,
+      items: [{ sku: "MUG", quantity: 1 }],
+      fillRatio: 0.17,
+    });
+  });
+
+  it("moves a parcel up to a bigger box rather than starting another", () => {
+    // Three fit the small box's usable volume, the fourth doesn't
+    const parcels = PackingService.pack(units(4, "JAR", [10, 10, 8], 0.5), boxes);
+
+    expect(parcels).toHaveLength(1);
+    expect(parcels[0]).toMatchObject({ boxId: "large", weight: 2.5, items: [{ sku: "JAR", quantity: 4 }] });
+  });
+
+  it("splits parcels to keep each box under its max weight", () => {
+    const parcels = PackingService.pack(units(3, "ANVIL", [10, 10, 5], 8), boxes);
+
+    expect(parcels.map(parcel => parcel.boxId)).toEqual(["large", "large"]);
+    expect(parcels.map(parcel => parcel.items[0].quantity)).toEqual([2, 1]);
+    expect(parcels.map(parcel => parcel.weight)).toEqual([16.5, 8.5]);
+  });
+
+  it("ships items that ship alone or fit no box in their own packaging", () => {
+    const parcels = PackingService.pack([
+      ...units(1, "TV", [120, 80, 15], 12, true),
+      ...units(1, "RUG", [200, 30, 30], 6),
+      ...units(1, "MUG", [10, 10, 5], 1),
+    ], boxes);
+
+    expect(parcels.map(parcel => parcel.boxId)).toEqual(["small", null, null]);
+    expect(parcels.slice(1)).toEqual([
+      expect.objectContaining({ boxName: null, length: 200, width: 30, height: 30, weight: 6, items: [{ sku: "RUG", quantity: 1 }], fillRatio: 1 }),
+      expect.objectContaining({ boxName: null, length: 120, width: 80, height: 15, weight: 12, items: [{ sku: "TV", quantity: 1 }], fillRatio: 1 }),
+    ]);
+  });
+
+  it("packs the largest items first and mixes SKUs in a parcel", () => {
+    const parcels = PackingService.pack([...units(2, "MUG", [10, 10, 5], 1), ...units(1, "KETTLE", [25, 20, 20], 2)], boxes);
+
+    expect(parcels).toHaveLength(1);
+    expect(parcels[0].boxId).toBe("large");
+    expect(parcels[0].items).toEqual([{ sku: "KETTLE", quantity: 1 }, { sku: "MUG", quantity: 2 }]);
+  });
+});
@@ -0,0 +1,241 @@
+import { MAX_PACKING_UNITS, type CreateShipment, type PackItemsData, type ProductDimensions, type ShipmentParcel, type ShippingBox } from '@shared/schema';
+import { type IStorage } from './storage';
+
+const IN_TO_CM = 2.54;
+const LB_TO_KG = 0.453592;
+
+// Share of a box's volume we expect to fill; the rest is lost to awkward shapes and dunnage
+const FILL_FACTOR = 0.9;
+
+export class PackingError extends Error {
+  constructor(message: string, public statusCode: number = 400, public details?: Record<string, unknown>) {
+    super(message);
+    this.name = 'PackingError';
+  }
+}
+
+export interface PackedParcel {
+  boxId: string | null;   // null when the item ships in its own packaging or fits no box
+  boxName: string | null;
+  length: number;         // cm
+  width: number;
+  height: number;
+  units: 'cm';
+  weight: number;         // kg, including the box
+  weightUnits: 'kg';
+  items: Array<{ sku: string, quantity: number }>;
+  fillRatio: number;      // Item volume over box volume
+}
+
+export interface PackingSuggestion {
+  locationId: string | null;
+  parcels: PackedParcel[];
+  missingSkus: string[]; // SKUs without dimensions, left out of the parcels
+}
+
+// One physical unit to pack, in cm and kg
+export interface PackingUnit {
+  sku: string;
+  dims: [number, number, number]; // Largest first
+  weight: number;
+  shipsAlone: boolean;
+}
+
+// A box in cm and kg
+export interface PackingBox {
+  id: string;
+  name: string;
+  dims: [number, number, number]; // Largest first
+  maxWeight: number;
+  tareWeight: number;
+}
+
+interface OpenParcel {
+  box: PackingBox;
+  units: PackingUnit[];
+}
+
+function sortedDims(length: number, width: number, height: number, toCm: number): [number, number, number] {
+  return [length * toCm, width * toCm, height * toCm].sort((a, b) => b - a) as [number, number, number];
+}
+
+function volume(dims: [number, number, number]): number {
+  return dims[0] * dims[1] * dims[2];
+}
+
+function round(value: number, places: number): number {
+  const factor = Math.pow(10, places);
+  return Math.round(value * factor) / factor;
+}
+
+// Packing suggestions: splits an order's items into parcels from the location's box catalogue,
+// keeping each box under its max weight. The parcels feed straight into rate shopping and shipment creation.
+export class PackingService {
+  private storage: IStorage;
+
+  constructor(storage: IStorage) {
+    this.storage = storage;
+  }
+
+  static toUnit(dimensions: ProductDimensions): PackingUnit {
+    return {
+      sku: dimensions.sku,
+      dims: sortedDims(dimensions.length, dimensions.width, dimensions.height, dimensions.units === 'in' ? IN_TO_CM : 1),
+      weight: dimensions.weight * (dimensions.weightUnits === 'lb' ? LB_TO_KG : 1),
+      shipsAlone: dimensions.shipsAlone,
+    };
+  }
+
+  static toBox(box: ShippingBox): PackingBox {
+    const toKg = box.weightUnits === 'lb' ? LB_TO_KG : 1;
+    return {
+      id: box.id,
+      name: box.name,
+      dims: sortedDims(box.length, box.width, box.height, box.units === 'in' ? IN_TO_CM : 1),
+      maxWeight: box.maxWeight * toKg,
+      tareWeight: box.tareWeight * toKg,
+    };
+  }
+
+  // Whether the units fit the box together: each one fits its inner dimensions, and together they stay
+  // within the fill factor and the max weight
+  static fits(box: PackingBox, units: PackingUnit[]): boolean {
+    const fitsEach = units.every(unit => unit.dims.every((dim, i) => dim <= box.dims[i]));
+    const itemVolume = units.reduce((sum, unit) => sum + volume(unit.dims), 0);
+    const weight = box.tareWeight + units.reduce((sum, unit) => sum + unit.weight, 0);
+    return fitsEach && itemVolume <= volume(box.dims) * FILL_FACTOR && weight <= box.maxWeight;
+  }
+
+  // First fit decreasing: largest units first into the first open box they fit, else an open parcel moved
+  // up to a bigger box, else the smallest box that takes them. Each box is then swapped for the smallest
+  // one that still holds its contents.
+  static pack(units: PackingUnit[], boxes: PackingBox[]): PackedParcel[] {
+    const catalogue = [...boxes].sort((a, b) => volume(a.dims) - volume(b.dims));
+    const ordered = [...units].sort((a, b) => volume(b.dims) - volume(a.dims) || b.weight - a.weight);
+    const open: OpenParcel[] = [];
+    const loose: PackingUnit[] = [];
+
+    for (const unit of ordered) {
+      if (unit.shipsAlone) {
+        loose.push(unit);
+        continue;
+      }
+
+      const parcel = open.find(candidate => this.fits(candidate.box, [...candidate.units, unit]));
+      if (parcel) {
+        parcel.units.push(unit);
+        continue;
+      }
+
+      // Fewer parcels ship cheaper, so move an open parcel up to a bigger box before starting another
+      const grown = open
+        .map(candidate => ({ candidate, box: catalogue.find(box => this.fits(box, [...candidate.units, unit])) }))
+        .find(({ box }) => box);
+      if (grown) {
+        grown.candidate.box = grown.box!;
+        grown.candidate.units.push(unit);
+        continue;
+      }
+
+      const box = catalogue.find(candidate => this.fits(candidate, [unit]));
+      if (box) {
+        open.push({ box, units: [unit] });
+      } else {
+        loose.push(unit);
+      }
+    }
+
+    const boxed = open.map(parcel => {
+      const box = catalogue.find(candidate => this.fits(candidate, parcel.units)) || parcel.box;
+      const itemVolume = parcel.units.reduce((sum, unit) => sum + volume(unit.dims), 0);
+      return this.toParcel(box, parcel.units, itemVolume / volume(box.dims));
+    });
+
+    return [...boxed, ...loose.map(unit => this.toParcel(null, [unit], 1))];
+  }
+
+  private static toParcel(box: PackingBox | null, units: PackingUnit[], fillRatio: number): PackedParcel {
+    const dims = box ? box.dims : units[0].dims;
+    const quantities = new Map<string, number>();
+    units.forEach(unit => quantities.set(unit.sku, (quantities.get(unit.sku) || 0) + 1));
+
+    return {
+      boxId: box?.id || null,
+      boxName: box?.name || null,
+      length: round(dims[0], 2),
+      width: round(dims[1], 2),
+      height: round(dims[2], 2),
+      units: 'cm',
+      weight: round((box?.tareWeight || 0) + units.reduce((sum, unit) => sum + unit.weight, 0), 3),
+      weightUnits: 'kg',
+      items: Array.from(quantities, ([sku, quantity]) => ({ sku, quantity })),
+      fillRatio: round(fillRatio, 2),
+    };
+  }
+
+  // Suggest parcels for the given items, or the sales order's, from the location's active boxes
+  async suggest(organizationId: string, data: PackItemsData): Promise<PackingSuggestion> {
+    let items = data.items;
+    let locationId = data.locationId;
+
+    if (data.salesOrderId) {
+      const order = await this.storage.getSalesOrder(data.salesOrderId);
+      if (!order || order.workspaceId !== organizationId) {
+        throw new PackingError('Sales order not found', 404);
+      }
+      items = items || order.items.map(line => ({ sku: line.sku, quantity: line.quantity }));
+      locationId = locationId || order.locationId || undefined;
+    }
+
+    if (!items || items.length === 0) {
+      throw new PackingError('There are no items to pack', 400);
+    }
+    // Sales order lines aren't capped by the request schema
+    const unitCount = items.reduce((sum, item) => sum + item.quantity, 0);
+    if (unitCount > MAX_PACKING_UNITS) {
+      throw new PackingError(`At most ${MAX_PACKING_UNITS} units can be packed at once`, 422, { units: unitCount, maxUnits: MAX_PACKING_UNITS });
+    }
+
+    const skus = Array.from(new Set(items.map(item => item.sku)));
+    const dimensions = new Map((await this.storage.getProductDimensions(organizationId, skus)).map(d => [d.sku, d]));
+    const boxes = (await this.storage.getShippingBoxes(organizationId, locationId)).filter(box => box.active);
+
+    const units: PackingUnit[] = [];
+    for (const item of items) {
+      const product = dimensions.get(item.sku);
+      if (!product) continue;
+      const unit = PackingService.toUnit(product);
+      for (let i = 0; i < item.quantity; i++) units.push(unit);
+    }
+
+    return {
+      locationId: locationId || null,
+      parcels: PackingService.pack(units, boxes.map(PackingService.toBox)),
+      missingSkus: skus.filter(sku => !dimensions.has(sku)),
+    };
+  }
+
+  // Parcels for a rate or shipment request: as given, or packed from its items (or sales order).
+  // Every SKU needs dimensions, otherwise the parcels would understate the shipment.
+  async resolveParcels(
+    organizationId: string,
+    request: Pick<CreateShipment, 'parcels' | 'items' | 'salesOrderId' | 'locationId'>
+  ): Promise<{ parcels: ShipmentParcel[], packing: PackingSuggestion | null }> {
+    if (request.parcels) {
+      return { parcels: request.parcels, packing: null };
+    }
+
+    const packing = await this.suggest(organizationId, {
+      salesOrderId: request.salesOrderId,
+      locationId: request.locationId,
+      items: request.items?.map(item => ({ sku: item.sku, quantity: item.quantity })),
+    });
+
+    if (packing.missingSkus.length > 0) {
+      throw new PackingError('Some items have no shipping dimensions, so parcels are required', 422, { missingSkus: packing.missingSkus });
+    }
+
+    const parcels = packing.parcels.map(({ length, width, height, units, weight, weightUnits }) => ({ length, width, height, units, weight, weightUnits }));
+    return { parcels, packing };
+  }
+}
@@ -0,0 +1,158 @@
+import { randomUUID } from "crypto";
+import { beforeAll, describe, expect, it } from "vitest";
+import { FxRateProvider, type FxRateTable } from "./adapters/fx/base";
+import type { RateRequest } from "./adapters/base";
+import { CurrencyService } from "./currencyService";
+import { RateShoppingService } from "./rateShoppingService";
+import { storage } from "./storage";
+
+class StubFxProvider extends FxRateProvider {
+  constructor() {
+    super("stub");
+  }
+
+  async getRates(date: string): Promise<FxRateTable> {
+    return { base: "USD", date, rates: { USD: 1, GBP: 0.8 }, provider: this.provider };
+  }
+}
+
+const rateShoppingService = new RateShoppingService(storage);
+
+// 1kg domestic parcel: the fake carrier quotes Economy 520 (7 days), Standard 780 (4),
+// Express 1750 (2) and Overnight 3400 (1)
+const request: RateRequest = {
+  shipFrom: { address1: "1 Long Acre", city: "London", state: "", postalCode: "WC2E 9LH", country: "GB" },
+  shipTo: { address1: "1 Deansgate", city: "Manchester", state: "", postalCode: "M3 1AZ", country: "GB" },
+  parcels: [{ length: 10, width: 10, height: 10, weight: 1, units: "cm", weightUnits: "kg" }],
+};
+
+async function workspaceWith(...configs: Array<{ name: string, config?: Record<string, any>, status?: "active" | "inactive" }>): Promise<{ organizationId: string, connectorIds: string[] }> {
+  const organizationId = randomUUID();
+  const connectorIds: string[] = [];
+  for (const { name, config = {}, status = "active" } of configs) {
+    const connector = await storage.createShippingConnector({
+      organizationId,
+      provider: "fake",
+      name,
+      status,
+      encryptedCredentials: "",
+      config,
+      lastTestAt: null,
+      lastTestStatus: null,
+    });
+    connectorIds.push(connector.id);
+  }
+  return { organizationId, connectorIds };
+}
+
+describe("RateShoppingService.shop", () => {
+  beforeAll(() => {
+    CurrencyService.setProvider(new StubFxProvider());
+  });
+
+  it("ranks quotes by price, speed and blended value", async () => {
+    const { organizationId } = await workspaceWith({ name: "Fake" });
+
+    const comparison = await rateShoppingService.shop(organizationId, request);
+
+    expect(comparison.rates.map(rate => [rate.serviceCode, rate.amount, rate.valueScore])).toEqual([
+      ["FAKE_ECONOMY", 520, 0.3],
+      ["FAKE_STANDARD", 780, 0.213],
+      ["FAKE_EXPRESS", 1750, 0.349],
+      ["FAKE_OVERNIGHT", 3400, 0.7],
+    ]);
+    expect(comparison.cheapest?.serviceCode).toBe("FAKE_ECONOMY");
+    expect(comparison.fastest?.serviceCode).toBe("FAKE_OVERNIGHT");
+    expect(comparison.bestValue?.serviceCode).toBe("FAKE_STANDARD");
+    expect(comparison.errors).toEqual([]);
+  });
+
+  it("prefers the cheaper of equally fast quotes, and skips inactive or unselected connectors", async () => {
+    const { organizationId, connectorIds: [budget, premium] } = await workspaceWith(
+      { name: "Budget" },
+      { name: "Premium", config: { priceMultiplier: 1.5 } },
+      { name: "Disabled", config: { priceMultiplier: 0.1 }, status: "inactive" },
+    );
+
+    const comparison = await rateShoppingService.shop(organizationId, request);
+
+    expect(comparison.rates).toHaveLength(8);
+    expect(comparison.fastest).toMatchObject({ connectorId: budget, amount: 3400 });
+
+    const premiumOnly = await rateShoppingService.shop(organizationId, request, { connectorIds: [premium] });
+    expect(premiumOnly.cheapest).toMatchObject({ connectorName: "Premium", amount: 780 });
+  });
+
+  it("reports a provider that doesn't answer in time without losing the other quotes", async () => {
+    const { organizationId, connectorIds: [, slow] } = await workspaceWith(
+      { name: "Quick" },
+      { name: "Slow", config: { latencyMs: 200 } },
+    );
+
+    const comparison = await rateShoppingService.shop(organizationId, request, { timeoutMs: 20 });
+
+    expect(comparison.rates.every(rate => rate.connectorName === "Quick")).toBe(true);
+    expect(comparison.errors).toEqual([{
+      connectorId: slow,
+      connectorName: "Slow",
+      provider: "fake",
+      code: "TIMEOUT",
+      message: "No response from fake within 20ms",
+    }]);
+  });
+
+  it("reports a failing provider without failing the whole quote", async () => {
+    const { organizationId } = await workspaceWith(
+      { name: "Working" },
+      { name: "Broken", config: { failWith: "PROVIDER_ERROR" } },
+    );
+
+    const comparison = await rateShoppingService.shop(organizationId, request);
+
+    expect(comparison.cheapest).toMatchObject({ connectorName: "Working", amount: 520 });
+    expect(comparison.errors).toMatchObject([{ connectorName: "Broken", code: "PROVIDER_ERROR" }]);
+  });
+
+  it("converts every quote into the requested currency, keeping the provider's amount", async () => {
+    const { organizationId } = await workspaceWith(
+      { name: "Sterling", config: { currency: "GBP" } },
+      { name: "Dollar" },
+    );
+
+    const comparison = await rateShoppingService.shop(organizationId, request, { currency: "gbp" });
+
+    expect(comparison.currency).toBe("GBP");
+    expect(comparison.rates.every(rate => rate.currency === "GBP")).toBe(true);
+    expect(comparison.rates.slice(0, 2).map(rate => [rate.connectorName, rate.amount, rate.originalAmount, rate.originalCurrency])).toEqual([
+      ["Dollar", 416, 520, "USD"],
+      ["Sterling", 520, 520, "GBP"],
+    ]);
+  });
+
+  it("drops quotes in a currency it can't convert, with one error per connector", async () => {
+    const { organizationId } = await workspaceWith(
+      { name: "Rupee", config: { currency: "INR" } },
+      { name: "Dollar" },
+    );
+
+    const comparison = await rateShoppingService.shop(organizationId, request);
+
+    expect(comparison.rates.every(rate => rate.connectorName === "Dollar")).toBe(true);
+    expect(comparison.errors).toMatchObject([{ connectorName: "Rupee", code: "CURRENCY_ERROR" }]);
+  });
+});
+
+describe("RateShoppingService.rank", () => {
+  it("treats a quote without an estimate as the slowest on offer", () => {
+    const quote = (serviceCode: string, amount: number, estimatedDays?: number) => ({
+      service: serviceCode, serviceCode, amount, estimatedDays, currency: "USD", provider: "fake",
+      connectorId: "c1", connectorName: "Fake", originalAmount: amount, originalCurrency: "USD",
+    });
+
+    const comparison = RateShoppingService.rank([quote("UNKNOWN", 500), quote("SLOW", 600, 5), quote("FAST", 900, 1)], "USD");
+
+    expect(comparison.fastest?.serviceCode).toBe("FAST");
+    expect(comparison.rates.map(rate => rate.valueScore)).toEqual([0.3, 0.475, 0.7]);
+    expect(RateShoppingService.rank([], "USD")).toEqual({ currency: "USD", rates: [], cheapest: null, fastest: null, bestValue: null, errors: [] });
+  });
+});
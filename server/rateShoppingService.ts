@@ -0,0 +1,164 @@
+import { type IStorage, type ShippingConnector } from './storage';
+import { ShippingError, type RateRequest, type ShippingRate } from './adapters/base';
+import { createAdapterForConnector } from './shippingAdapters';
+import { CurrencyService } from './currencyService';
+
+const DEFAULT_TIMEOUT_MS = 10000;
+
+// Weights for the best value score; lower score is better
+const VALUE_PRICE_WEIGHT = 0.7;
+const VALUE_SPEED_WEIGHT = 0.3;
+
+export interface RateShoppingOptions {
+  connectorIds?: string[]; // Limit to these connectors (default: every active connector)
+  currency?: string;       // Currency to normalise quotes into (default USD)
+  timeoutMs?: number;      // Per-provider timeout; a connector's config.rateTimeoutMs takes precedence
+}
+
+export interface QuotedRate extends ShippingRate {
+  connectorId: string;
+  connectorName: string;
+  originalAmount: number;   // As quoted by the provider, in cents
+  originalCurrency: string;
+  valueScore: number;       // 0 (best) to 1 (worst), blending price and speed
+}
+
+export interface RateShoppingError {
+  connectorId: string;
+  connectorName: string;
+  provider: string;
+  code: string;
+  message: string;
+}
+
+export interface RateComparison {
+  currency: string;
+  rates: QuotedRate[]; // Cheapest first
+  cheapest: QuotedRate | null;
+  fastest: QuotedRate | null;
+  bestValue: QuotedRate | null;
+  errors: RateShoppingError[];
+}
+
+// Reject with a TIMEOUT ShippingError if the provider doesn't answer in time
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number, provider: string): Promise<T> {
+  let timer: NodeJS.Timeout;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      reject(new ShippingError('TIMEOUT', `No response from ${provider} within ${timeoutMs}ms`, provider));
+    }, timeoutMs);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+// Rate shopping: quote a shipment against every active shipping connector in parallel and rank the results
+export class RateShoppingService {
+  private storage: IStorage;
+
+  constructor(storage: IStorage) {
+    this.storage = storage;
+  }
+
+  async shop(organizationId: string, request: RateRequest, options: RateShoppingOptions = {}): Promise<RateComparison> {
+    const currency = (options.currency || 'USD').toUpperCase();
+    const connectors = (await this.storage.getShippingConnectors(organizationId))
+      .filter(connector => connector.status === 'active')
+      .filter(connector => !options.connectorIds || options.connectorIds.includes(connector.id));
+
+    const results = await Promise.all(connectors.map(connector => this.quote(connector, request, currency, options.timeoutMs)));
+
+    const rates = results.flatMap(result => result.rates);
+    const errors = results.flatMap(result => result.errors);
+    return RateShoppingService.rank(rates, currency, errors);
+  }
+
+  // Rank converted quotes: cheapest, fastest (cheaper wins ties) and best value by blended score
+  static rank(quotes: Omit<QuotedRate, 'valueScore'>[], currency: string, errors: RateShoppingError[] = []): RateComparison {
+    if (quotes.length === 0) {
+      return { currency, rates: [], cheapest: null, fastest: null, bestValue: null, errors };
+    }
+
+    const amounts = quotes.map(quote => quote.amount);
+    // Quotes without an estimate are treated as the slowest on offer
+    const knownDays = quotes.map(quote => quote.estimatedDays).filter((days): days is number => days !== undefined);
+    const slowest = knownDays.length > 0 ? Math.max(...knownDays) : 0;
+    const days = quotes.map(quote => quote.estimatedDays ?? slowest);
+
+    const normalise = (value: number, min: number, max: number) => max === min ? 0 : (value - min) / (max - min);
+    const minAmount = Math.min(...amounts);
+    const maxAmount = Math.max(...amounts);
+    const minDays = Math.min(...days);
+    const maxDays = Math.max(...days);
+
+    const rates: QuotedRate[] = quotes
+      .map((quote, index) => ({
+        ...quote,
+        valueScore: Math.round((
+          VALUE_PRICE_WEIGHT * normalise(quote.amount, minAmount, maxAmount) +
+          VALUE_SPEED_WEIGHT * normalise(days[index], minDays, maxDays)
+        ) * 1000) / 1000,
+      }))
+      .sort((a, b) => a.amount - b.amount);
+
+    const daysOf = (rate: QuotedRate) => rate.estimatedDays ?? slowest;
+    const fastest = rates.reduce((best, rate) => daysOf(rate) < daysOf(best) ? rate : best);
+    const bestValue = rates.reduce((best, rate) => rate.valueScore < best.valueScore ? rate : best);
+
+    return { currency, rates, cheapest: rates[0], fastest, bestValue, errors };
+  }
+
+  private async quote(
+    connector: ShippingConnector,
+    request: RateRequest,
+    currency: string,
+    timeoutMs?: number
+  ): Promise<{ rates: Omit<QuotedRate, 'valueScore'>[], errors: RateShoppingError[] }> {
+    const toError = (error: unknown): RateShoppingError => ({
+      connectorId: connector.id,
+      connectorName: connector.name,
+      provider: connector.provider,
+      code: error instanceof ShippingError ? error.code : 'UNKNOWN_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+
+    let providerRates: ShippingRate[];
+    try {
+      const adapter = createAdapterForConnector(connector);
+      const limit = Number(connector.config?.rateTimeoutMs) || timeoutMs || DEFAULT_TIMEOUT_MS;
+      providerRates = await withTimeout(adapter.getRates(request), limit, connector.provider);
+    } catch (error) {
+      return { rates: [], errors: [toError(error)] };
+    }
+
+    // Look up each quoted currency once; a currency we can't convert drops its quotes with one error
+    const fxRates = new Map<string, number | null>();
+    const rates: Omit<QuotedRate, 'valueScore'>[] = [];
+    const errors: RateShoppingError[] = [];
+    for (const rate of providerRates) {
+      const from = rate.currency.toUpperCase();
+      if (!fxRates.has(from)) {
+        try {
+          fxRates.set(from, (await CurrencyService.getRate(from, currency)).rate);
+        } catch (error) {
+          fxRates.set(from, null);
+          errors.push({ ...toError(error), code: 'CURRENCY_ERROR' });
+        }
+      }
+
+      const fxRate = fxRates.get(from);
+      if (!fxRate) continue;
+
+      rates.push({
+        ...rate,
+        amount: Math.round(rate.amount * fxRate),
+        currency,
+        connectorId: connector.id,
+        connectorName: connector.name,
+        originalAmount: rate.amount,
+        originalCurrency: from,
+      });
+    }
+
+    return { rates, errors };
+  }
+}
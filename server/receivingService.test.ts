@@ -0,0 +1,46 @@
+import { randomUUID } from "crypto";
+import { describe, expect, it } from "vitest";
+import { receivePurchaseOrderSchema } from "@shared/schema";
+import { storage } from "./storage";
+import { ReceivingError, ReceivingService } from "./receivingService";
+
+const receivingService = new ReceivingService(storage);
+
+async function sentPurchaseOrder(workspaceId: string) {
+  const po = await storage.createPurchaseOrder({
+    workspaceId,
+    supplierId: "supplier-1",
+    supplierName: "Northwind",
+    currency: "GBP",
+    status: "DRAFT",
+    items: [{ sku: "SKU-1", qty: 10, unitCost: 5, subtotal: 50, taxAmount: 10, total: 60 }],
+    totals: { subtotal: 50, tax: 10, grandTotal: 60 },
+  });
+  return (await storage.updatePurchaseOrder(po.id, { status: "SENT", sentAt: new Date("2026-02-20T09:00:00.000Z") }))!;
+}
+
+describe("ReceivingService.receive", () => {
+  it("records a partial receipt at the given date", async () => {
+    const po = await sentPurchaseOrder(randomUUID());
+
+    const { receipt, purchaseOrder } = await receivingService.receive(po, receivePurchaseOrderSchema.parse({
+      locationId: "main",
+      lines: [{ sku: "SKU-1", receivedQty: 4 }],
+      receivedAt: "2026-03-02T10:00:00.000Z",
+    }));
+
+    expect(receipt.receivedAt).toEqual(new Date("2026-03-02T10:00:00.000Z"));
+    expect(purchaseOrder.status).toBe("PARTIALLY_RECEIVED");
+  });
+
+  it("rejects a receivedAt it can't read, before anything is recorded", async () => {
+    const po = await sentPurchaseOrder(randomUUID());
+    const data = { locationId: "main", lines: [{ sku: "SKU-1", receivedQty: 4 }], receivedAt: "yesterday-ish" };
+
+    expect(receivePurchaseOrderSchema.safeParse(data).success).toBe(false);
+    await expect(receivingService.receive(po, { ...data, closeShort: false, isDefective: false }))
+      .rejects.toThrow(new ReceivingError("Invalid receivedAt date"));
+    expect(await storage.getGoodsReceipts(po.id)).toEqual([]);
+    expect((await storage.getPurchaseOrder(po.id))?.status).toBe("SENT");
+  });
+});
@@ -0,0 +1,183 @@
+import { type GoodsReceipt, type GoodsReceiptLine, type InventoryMove, type PurchaseOrder, type ReceivePurchaseOrderData, type SupplierDelivery } from "@shared/schema";
+import { type IStorage } from "./storage";
+import { InventoryService } from "./inventoryService";
+import { BillMatchService } from "./billMatchService";
+import { triggerSlaBreachEvent, triggerWebhookEvent } from "./services/webhooks";
+
+export class ReceivingError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = 'ReceivingError';
+  }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Goods receiving against purchase orders: records a GRN, posts RECEIPT stock moves
+// and logs a supplier delivery so SLA metrics come from real receipts
+export class ReceivingService {
+  private storage: IStorage;
+  private billMatch: BillMatchService;
+
+  constructor(storage: IStorage) {
+    this.storage = storage;
+    this.billMatch = new BillMatchService(storage);
+  }
+
+  // The whole receipt is one transaction on the locked purchase order, so concurrent receipts
+  // queue up behind each other and a failure part way leaves nothing behind
+  async receive(po: PurchaseOrder, data: ReceivePurchaseOrderData, userId?: string): Promise<{ receipt: GoodsReceipt, purchaseOrder: PurchaseOrder, moves: InventoryMove[] }> {
+    const { delivery, ...result } = await this.storage.transaction(async storage => {
+      const current = await storage.lockPurchaseOrder(po.id);
+      if (!current) {
+        throw new ReceivingError("Purchase order not found", 404);
+      }
+      return this.receiveLocked(storage, current, data, userId);
+    });
+
+    if (delivery) triggerSlaBreachEvent(delivery).catch(console.error);
+    triggerWebhookEvent("purchase_order.received", { purchaseOrder: result.purchaseOrder, receipt: result.receipt }, po.workspaceId).catch(console.error);
+    await this.rematchBills(result.purchaseOrder).catch(console.error);
+
+    return result;
+  }
+
+  // Bills entered before these goods arrived are matched again against the new received quantities
+  private async rematchBills(po: PurchaseOrder): Promise<void> {
+    for (const bill of await this.storage.getSupplierBills(po.id)) {
+      await this.billMatch.matchBill(bill, po);
+    }
+  }
+
+  private async receiveLocked(storage: IStorage, po: PurchaseOrder, data: ReceivePurchaseOrderData, userId?: string): Promise<{ receipt: GoodsReceipt, purchaseOrder: PurchaseOrder, moves: InventoryMove[], delivery: SupplierDelivery | null }> {
+    if (po.status !== "SENT" && po.status !== "PARTIALLY_RECEIVED") {
+      throw new ReceivingError(`Cannot receive a purchase order with status ${po.status}`, 409);
+    }
+
+    const received = new Map<string, number>();
+    for (const line of data.lines) {
+      if (!po.items.some(item => item.sku === line.sku)) {
+        throw new ReceivingError(`SKU ${line.sku} is not on this purchase order`);
+      }
+      if (received.has(line.sku)) {
+        throw new ReceivingError(`SKU ${line.sku} is listed more than once`);
+      }
+      received.set(line.sku, line.receivedQty);
+    }
+
+    const totalReceived = Array.from(received.values()).reduce((sum, qty) => sum + qty, 0);
+    if (totalReceived === 0 && !data.closeShort) {
+      throw new ReceivingError("Nothing received: enter a quantity or close the order short");
+    }
+
+    const receivedAt = data.receivedAt ? new Date(data.receivedAt) : new Date();
+    if (isNaN(receivedAt.getTime())) {
+      throw new ReceivingError("Invalid receivedAt date");
+    }
+    const previousReceipts = await storage.getGoodsReceipts(po.id);
+    const grnNumber = `GRN-${po.id.slice(0, 8).toUpperCase()}-${previousReceipts.length + 1}`;
+
+    const inventory = new InventoryService(storage);
+    const lines: GoodsReceiptLine[] = [];
+    const moves: InventoryMove[] = [];
+    const items = po.items.map(item => ({ ...item }));
+
+    for (const item of items) {
+      const receivedQty = received.get(item.sku) ?? 0;
+      const previouslyReceivedQty = item.receivedQty || 0;
+      // Lines not on this receipt are only reported when closing the order short
+      if (!received.has(item.sku) && !(data.closeShort && previouslyReceivedQty < item.qty)) continue;
+
+      const totalReceivedQty = previouslyReceivedQty + receivedQty;
+      let variance = 0;
+      let varianceType: GoodsReceiptLine["varianceType"] = "NONE";
+      if (totalReceivedQty > item.qty) {
+        variance = totalReceivedQty - item.qty;
+        varianceType = "OVER";
+      } else if (data.closeShort && totalReceivedQty < item.qty) {
+        variance = totalReceivedQty - item.qty;
+        varianceType = "SHORT";
+      }
+
+      let stockMoveId: string | null = null;
+      if (receivedQty > 0) {
+        const move = await inventory.applyMove({
+          workspaceId: po.workspaceId,
+          type: "RECEIPT",
+          productId: item.sku,
+          toLocationId: data.locationId,
+          qty: receivedQty,
+          refType: "PO",
+          refId: po.id,
+          note: `${grnNumber} against PO ${po.id}`,
+          userId,
+          cost: item.unitCost,
+        });
+        moves.push(move);
+        stockMoveId = move.id;
+      }
+
+      item.receivedQty = totalReceivedQty;
+      lines.push({
+        sku: item.sku,
+        orderedQty: item.qty,
+        previouslyReceivedQty,
+        receivedQty,
+        totalReceivedQty,
+        outstandingQty: data.closeShort ? 0 : Math.max(0, item.qty - totalReceivedQty),
+        variance,
+        varianceType,
+        stockMoveId,
+      });
+    }
+
+    const fullyReceived = items.every(item => (item.receivedQty || 0) >= item.qty);
+    const status = fullyReceived || data.closeShort ? "RECEIVED" as const : "PARTIALLY_RECEIVED" as const;
+
+    const delivery = await this.recordDelivery(storage, po, receivedAt, data);
+
+    const receipt = await storage.createGoodsReceipt({
+      workspaceId: po.workspaceId,
+      purchaseOrderId: po.id,
+      grnNumber,
+      locationId: data.locationId,
+      lines,
+      hasVariance: lines.some(line => line.varianceType !== "NONE"),
+      closedShort: data.closeShort && !fullyReceived,
+      supplierDeliveryId: delivery?.id ?? null,
+      notes: data.notes,
+      receivedBy: userId,
+      receivedAt,
+    });
+
+    const purchaseOrder = (await storage.updatePurchaseOrder(po.id, { items, status }))!;
+
+    return { receipt, purchaseOrder, moves, delivery };
+  }
+
+  // Each receipt counts as a delivery for supplier SLA tracking, due one lead time after the PO was sent
+  private async recordDelivery(storage: IStorage, po: PurchaseOrder, receivedAt: Date, data: ReceivePurchaseOrderData): Promise<SupplierDelivery | null> {
+    const supplier = await storage.getSupplier(po.supplierId);
+    if (!supplier) return null;
+
+    const skuLeadTimes = po.items
+      .map(item => supplier.skus.find(s => s.sku === item.sku)?.leadTimeDays)
+      .filter((days): days is number => days !== undefined);
+    const leadTimeDays = skuLeadTimes.length > 0 ? Math.max(...skuLeadTimes) : supplier.leadTimeDays;
+
+    const sentAt = po.sentAt || po.createdAt;
+    const expectedDate = new Date(sentAt.getTime() + leadTimeDays * DAY_MS);
+
+    return storage.createSupplierDelivery({
+      supplierId: supplier.id,
+      purchaseOrderId: po.id,
+      expectedDate: expectedDate.toISOString(),
+      actualDate: receivedAt.toISOString(),
+      status: "PENDING",
+      leadTimeDays,
+      actualLeadTimeDays: Math.max(0, Math.round((receivedAt.getTime() - sentAt.getTime()) / DAY_MS)),
+      isDefective: data.isDefective,
+      defectNotes: data.defectNotes,
+    });
+  }
+}
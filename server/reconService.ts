@@ -1,12 +1,17 @@
 import { parse } from 'fast-csv';
 import { storage } from './storage';
-import { CurrencyService } from './currencyService';
+import { CurrencyService, CurrencyConversionError, InvalidRateDateError } from './currencyService';
 import { randomUUID } from 'crypto';
-import type { ReconIngestData } from '@shared/schema';
+import { triggerWebhookEvent } from './services/webhooks';
+import { TaskService } from './taskService';
+import type { ReconIngestData, ReconBatch, ReconRow } from '@shared/schema';
+
+const taskService = new TaskService(storage);
 
 interface OrderRow {
   orderId: string;
   currency: string;
+  orderDate?: Date;
   gross?: number;
   fees?: number;
   tax?: number;
@@ -51,6 +56,15 @@ export class ReconciliationService {
         ...payouts.map(p => p.currency)
       ]));
       
+      // Resolve every order's FX rate before storing anything, so an unsupported currency rejects the
+      // whole file instead of leaving a half-filled batch behind
+      const fallbackOrderDate = ingestData.periodTo ? new Date(ingestData.periodTo) : new Date();
+      const orderRates = [];
+      for (const order of orders) {
+        const orderDate = order.orderDate || fallbackOrderDate;
+        orderRates.push({ orderDate, ...await CurrencyService.getRate(order.currency, baseCurrency, orderDate) });
+      }
+      
       // Create batch
       console.log('💾 Creating reconciliation batch...');
       const batch = await storage.createReconBatch({
@@ -73,6 +87,7 @@ export class ReconciliationService {
       // Process each order
       console.log('🔍 Processing reconciliation rows...');
       const rows = [];
+      const fxSnapshots = new Map<string, ReconBatch['fxSnapshots'][number]>();
       let totalExpectedBase = 0;
       let totalPaidBase = 0;
       let mismatchedCount = 0;
@@ -86,9 +101,13 @@ export class ReconciliationService {
         const expectedNet = order.netExpected || (order.gross! - order.fees! - order.tax!);
         const diff = paid - expectedNet;
         
-        // Convert to base currency (amounts in cents)
-        const expectedNetBase = Math.round(CurrencyService.convert(expectedNet, order.currency, baseCurrency) * 100);
-        const paidBase = Math.round(CurrencyService.convert(paid, order.currency, baseCurrency) * 100);
+        // Convert to base currency at the rate on the order date (amounts in cents)
+        const { orderDate, rate, snapshot } = orderRates[i];
+        if (!CurrencyService.isStaticFallback(snapshot)) {
+          fxSnapshots.set(snapshot.id, { snapshotId: snapshot.id, date: snapshot.date, provider: snapshot.provider });
+        }
+        const expectedNetBase = Math.round(expectedNet * rate * 100);
+        const paidBase = Math.round(paid * rate * 100);
         const diffBase = paidBase - expectedNetBase;
         
         try {
@@ -106,6 +125,8 @@ export class ReconciliationService {
             expectedNetBase,
             paidBase,
             diffBase,
+            orderDate,
+            fxRateDate: snapshot.date,
             status: Math.abs(diffBase) > 1 ? 'PENDING' : 'RESOLVED',
           });
           
@@ -117,7 +138,15 @@ export class ReconciliationService {
           if (Math.abs(diffBase) > 1) { // More than 1 cent difference
             mismatchedCount++;
             try {
-              await this.createPaymentMismatchEvent(row, ingestData);
+              const { eventId, taskId } = await this.createPaymentMismatchEvent(row, ingestData, workspaceId);
+              triggerWebhookEvent('recon.mismatch_detected', {
+                batchId: batch.id,
+                row,
+                source: ingestData.source,
+                region: ingestData.region,
+                eventId,
+                taskId,
+              }, workspaceId).catch(console.error);
             } catch (eventError) {
               console.warn(`⚠️ Failed to create event/task for order ${order.orderId}:`, eventError);
               // Continue processing other rows even if event creation fails
@@ -145,6 +174,10 @@ export class ReconciliationService {
         ordersTotal: orders.length,
         mismatchedCount,
       });
+      const completedBatch = await storage.updateReconBatch(batch.id, {
+        fxSnapshots: Array.from(fxSnapshots.values()).sort((a, b) => a.date.localeCompare(b.date)),
+      });
+      triggerWebhookEvent('recon.batch_completed', { batch: completedBatch || batch }, workspaceId).catch(console.error);
       
       console.log(`🎉 Reconciliation completed: ${mismatchedCount}/${orders.length} mismatches found`);
       
@@ -158,11 +191,13 @@ export class ReconciliationService {
           expectedBase: totalExpectedBase / 100,
           paidBase: totalPaidBase / 100,
           diffBase: (totalPaidBase - totalExpectedBase) / 100,
-        }
+        },
+        fxSnapshots: Array.from(fxSnapshots.values()),
       };
       
     } catch (error) {
       console.error('❌ Reconciliation ingestion error:', error);
+      if (error instanceof CurrencyConversionError || error instanceof InvalidRateDateError) throw error;
       throw new Error(`Failed to process reconciliation data: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
@@ -246,6 +281,7 @@ export class ReconciliationService {
         const fees = this.parseNumber(row.fees);
         const tax = this.parseNumber(row.tax);
         const netExpected = this.parseNumber(row.netexpected || row.net_expected);
+        const orderDate = this.parseDate(row.orderdate || row.order_date || row.purchasedate || row.date);
         
         if (!orderId) {
           console.error(`❌ Missing orderId in orders row ${index + 1}:`, row);
@@ -261,6 +297,7 @@ export class ReconciliationService {
           fees,
           tax,
           netExpected,
+          orderDate,
         };
       } catch (error) {
         console.error(`❌ Error normalizing orders row ${index + 1}:`, error, row);
@@ -319,7 +356,19 @@ export class ReconciliationService {
     }
   }
   
-  private static async createPaymentMismatchEvent(row: any, ingestData: ReconIngestData) {
+  private static parseDate(value: any): Date | undefined {
+    if (!value || String(value).trim() === '') return undefined;
+    
+    const parsed = new Date(String(value).trim());
+    if (isNaN(parsed.getTime())) {
+      console.warn(`⚠️ Unparseable order date "${value}", falling back to batch period`);
+      return undefined;
+    }
+    return parsed;
+  }
+  
+  // Raises an Action Center event (and a task for large differences); returns their ids
+  private static async createPaymentMismatchEvent(row: ReconRow, ingestData: ReconIngestData, workspaceId: string): Promise<{ eventId: string | null, taskId: string | null }> {
     try {
       console.log(`🚨 Creating mismatch event for order ${row.orderId} with difference ${row.diffBase/100}`);
       
@@ -344,14 +393,19 @@ export class ReconciliationService {
       };
       
       try {
-        const { event, taskCreated } = await storage.createEvent(eventData);
+        const { event, taskCreated } = await taskService.createEvent(eventData);
         console.log(`✅ Created event ${event.id} and task ${taskCreated?.id || 'none'}`);
         
         // Link the event to the recon row (update notes with event/task reference)
         await storage.updateReconRow(row.id, { 
           notes: `Event: ${event.id}, Task: ${taskCreated?.id || 'none'}` 
         });
-        
+
+        if (taskCreated) {
+          triggerWebhookEvent('task.created', { task: taskCreated }, workspaceId).catch(console.error);
+        }
+
+        return { eventId: event.id, taskId: taskCreated?.id || null };
       } catch (duplicateError: any) {
         // Handle duplicate key errors (E11000) gracefully
         if (duplicateError.message?.includes('E11000') || duplicateError.code === 11000) {
@@ -365,5 +419,6 @@ export class ReconciliationService {
       console.error(`❌ Error creating payment mismatch event for order ${row.orderId}:`, error);
       // Don't throw - let the reconciliation continue even if event creation fails
     }
+    return { eventId: null, taskId: null };
   }
 }
\ No newline at end of file
@@ -0,0 +1,56 @@
+import { randomUUID } from "crypto";
+import { describe, expect, it } from "vitest";
+import { storage } from "./storage";
+import { ReorderService } from "./reorderService";
+
+// ForecastService reads the shared storage, so the run does too
+const reorderService = new ReorderService(storage);
+
+// Two units a day for the last 60 days
+async function recordDailySales(workspaceId: string, sku: string) {
+  for (let daysAgo = 1; daysAgo <= 60; daysAgo++) {
+    await storage.createSalesOrder({
+      workspaceId,
+      orderNumber: `ORD-${randomUUID()}`,
+      customerId: "customer-1",
+      customerName: "Asha Rao",
+      currency: "GBP",
+      status: "DELIVERED",
+      items: [{ sku, productName: sku, quantity: 2, unitPrice: 500, subtotal: 1000 }],
+      subtotal: 1000,
+      tax: 0,
+      shipping: 0,
+      total: 1000,
+      createdAt: new Date(Date.now() - daysAgo * 24 * 60 * 60 * 1000),
+    });
+  }
+}
+
+describe("ReorderService.runReorder", () => {
+  it("drafts a PO for a SKU whose forecast demand outruns its stock", async () => {
+    const workspaceId = randomUUID();
+    await recordDailySales(workspaceId, "MUG-1");
+    const supplier = await storage.createSupplier({
+      workspaceId,
+      name: "Northwind",
+      region: "UK",
+      currency: "GBP",
+      leadTimeDays: 7,
+      paymentTerms: "Net 30",
+      status: "active",
+      skus: [{ sku: "MUG-1", unitCost: 3, leadTimeDays: 7 }],
+    });
+    await storage.createReorderPolicy({ workspaceId, sku: "MUG-1", targetDaysCover: 14, safetyDays: 3 });
+
+    const run = await reorderService.runReorder(workspaceId);
+
+    expect(run.skipped).toEqual([]);
+    expect(run.lines).toEqual([expect.objectContaining({ sku: "MUG-1", supplierId: supplier.id, onHand: 0, dailySales: 2 })]);
+    expect(run.lines[0].qty).toBeGreaterThan(0);
+    expect(run.totals.purchaseOrders).toBe(1);
+
+    const [po] = await storage.getPurchaseOrders(workspaceId);
+    expect(po).toMatchObject({ id: run.supplierGroups[0].purchaseOrderId, supplierId: supplier.id, status: "DRAFT" });
+    expect(po.items).toEqual([expect.objectContaining({ sku: "MUG-1", qty: run.lines[0].qty })]);
+  });
+});
@@ -1,5 +1,16 @@
-import { type ReorderSuggestion, type ReorderSuggestData } from "@shared/schema";
+import { type ReorderSuggestion, type ReorderSuggestData, type ReorderPolicy, type ReorderRun, type ReorderRunLine, type ReorderRunSupplierGroup, type ReorderRunSkippedSku, type Supplier } from "@shared/schema";
+import { FORECAST_METHOD_LABELS } from "@shared/forecasting";
 import { type IStorage } from "./storage";
+import { ForecastService } from "./forecastService";
+import { triggerWebhookEvent } from "./services/webhooks";
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
 
 export class ReorderService {
   private storage: IStorage;
@@ -77,4 +88,254 @@ export class ReorderService {
       calculation,
     };
   }
-}
\ No newline at end of file
+
+  // Reorder run: evaluate every SKU with a reorder policy, consolidate the suggestions per supplier,
+  // enforce supplier minimums and (unless dryRun) raise one draft purchase order per supplier
+  async runReorder(workspaceId: string, options: { dryRun?: boolean, userId?: string } = {}): Promise<ReorderRun> {
+    const policies = await this.storage.getReorderPolicies(workspaceId);
+    const suppliers = (await this.storage.getSuppliers(workspaceId)).filter(s => s.status === "active");
+
+    const onOrder = await this.getOpenOrderQuantities(workspaceId);
+
+    const lines: ReorderRunLine[] = [];
+    const skipped: ReorderRunSkippedSku[] = [];
+
+    for (const policy of policies) {
+      const result = await this.evaluateSku(workspaceId, policy, suppliers, onOrder.get(policy.sku) || 0);
+      if ("qty" in result) {
+        lines.push(result);
+      } else {
+        skipped.push(result);
+      }
+    }
+
+    const supplierGroups: ReorderRunSupplierGroup[] = [];
+    for (const supplier of suppliers) {
+      const supplierLines = lines.filter(line => line.supplierId === supplier.id);
+      if (supplierLines.length === 0) continue;
+      supplierGroups.push(this.consolidateSupplier(supplier, supplierLines));
+    }
+
+    const run = await this.storage.createReorderRun({
+      workspaceId,
+      status: options.dryRun ? "PREVIEW" : "COMPLETED",
+      lines,
+      supplierGroups,
+      skipped,
+      totals: {
+        skusEvaluated: policies.length,
+        linesProposed: lines.length,
+        purchaseOrders: 0,
+      },
+      createdBy: options.userId,
+    });
+
+    if (options.dryRun) return run;
+
+    // One draft PO per supplier, left for a buyer to review and send
+    for (const group of supplierGroups) {
+      const items = lines
+        .filter(line => line.supplierId === group.supplierId)
+        .map(line => ({
+          sku: line.sku,
+          qty: line.qty,
+          unitCost: line.unitCost,
+          subtotal: line.lineTotal,
+          taxAmount: 0,
+          total: line.lineTotal,
+        }));
+      const supplier = suppliers.find(s => s.id === group.supplierId)!;
+
+      const po = await this.storage.createPurchaseOrder({
+        workspaceId,
+        supplierId: supplier.id,
+        supplierName: supplier.name,
+        supplierEmail: supplier.email || undefined,
+        currency: supplier.currency,
+        status: "DRAFT",
+        items,
+        totals: {
+          subtotal: group.subtotal,
+          tax: 0,
+          grandTotal: group.subtotal,
+        },
+        notes: `Generated by reorder run ${run.id}`,
+      });
+      group.purchaseOrderId = po.id;
+      triggerWebhookEvent("purchase_order.created", { purchaseOrder: po }, workspaceId).catch(console.error);
+    }
+
+    const updatedRun = await this.storage.updateReorderRun(run.id, {
+      supplierGroups,
+      totals: { ...run.totals, purchaseOrders: supplierGroups.length },
+    });
+    return updatedRun || run;
+  }
+
+  // Units still to arrive per SKU on open purchase orders. Drafts count too, so a run doesn't propose
+  // the shortfall an earlier run's draft already covers
+  private async getOpenOrderQuantities(workspaceId: string): Promise<Map<string, number>> {
+    const purchaseOrders = await this.storage.getPurchaseOrders(workspaceId);
+    const onOrder = new Map<string, number>();
+
+    for (const po of purchaseOrders) {
+      if (po.status === "RECEIVED" || po.status === "CANCELLED") continue;
+      for (const item of po.items) {
+        const outstanding = Math.max(0, item.qty - (item.receivedQty || 0));
+        onOrder.set(item.sku, (onOrder.get(item.sku) || 0) + outstanding);
+      }
+    }
+
+    return onOrder;
+  }
+
+  // Work out the proposed quantity for one SKU from inventory levels, open purchase orders and the server forecast
+  private async evaluateSku(workspaceId: string, policy: ReorderPolicy, suppliers: Supplier[], onOrder: number): Promise<ReorderRunLine | ReorderRunSkippedSku> {
+    const { sku } = policy;
+
+    // Cheapest active supplier carrying the SKU, shorter lead time breaking ties
+    const candidates = suppliers
+      .map(supplier => ({ supplier, skuData: supplier.skus.find(s => s.sku === sku) }))
+      .filter(c => c.skuData)
+      .sort((a, b) => a.skuData!.unitCost - b.skuData!.unitCost || a.skuData!.leadTimeDays - b.skuData!.leadTimeDays);
+    if (candidates.length === 0) {
+      return { sku, reason: "No active supplier carries this SKU" };
+    }
+    const { supplier } = candidates[0];
+    const skuData = candidates[0].skuData!;
+
+    const forecast = await ForecastService.getOrComputeForecast(workspaceId, sku, "30", ForecastService.defaultMethod);
+    const dailySales = round1(forecast.result.avgDaily);
+    if (dailySales <= 0) {
+      return { sku, reason: "No forecast demand" };
+    }
+    const forecastMethod = forecast.result.selectedMethod || forecast.method;
+
+    const levels = await this.storage.getInventoryLevels(workspaceId, { productId: sku });
+    const onHand = levels.reduce((sum, level) => sum + level.onHand, 0);
+    const available = onHand + onOrder;
+
+    const leadTimeDays = skuData.leadTimeDays || supplier.leadTimeDays;
+    const daysNeeded = leadTimeDays + policy.targetDaysCover + policy.safetyDays;
+    const daysCover = round1(available / dailySales);
+    const shortfall = round1(Math.max(0, daysNeeded * dailySales - available));
+
+    if (shortfall <= 0) {
+      return { sku, reason: `Covered for ${daysCover} days (needs ${daysNeeded})` };
+    }
+
+    const reasons = [
+      `${onHand} on hand + ${onOrder} on order covers ${daysCover} days at ${dailySales}/day (${FORECAST_METHOD_LABELS[forecastMethod]} forecast)`,
+      `Needs ${daysNeeded} days (${leadTimeDays} lead time + ${policy.targetDaysCover} target + ${policy.safetyDays} safety): short ${shortfall} units`,
+    ];
+    if (levels.length === 0) {
+      reasons.push("No inventory levels recorded; assuming zero stock");
+    }
+
+    let qty = Math.ceil(shortfall);
+    const packSize = skuData.packSize || 1;
+    const moq = skuData.moq || 0;
+
+    if (packSize > 1 && qty % packSize !== 0) {
+      qty = Math.ceil(qty / packSize) * packSize;
+      reasons.push(`Rounded up to ${qty} (pack size ${packSize})`);
+    }
+
+    if (moq && qty < moq) {
+      qty = Math.ceil(moq / packSize) * packSize;
+      reasons.push(`Raised to ${qty} to meet SKU MOQ of ${moq}`);
+    }
+
+    const line: ReorderRunLine = {
+      sku,
+      supplierId: supplier.id,
+      supplierName: supplier.name,
+      onHand,
+      onOrder,
+      dailySales,
+      forecastMethod,
+      leadTimeDays,
+      targetDaysCover: policy.targetDaysCover,
+      safetyDays: policy.safetyDays,
+      maxDaysCover: policy.maxDaysCover,
+      daysCover,
+      shortfall,
+      packSize,
+      moq,
+      qty,
+      unitCost: skuData.unitCost,
+      lineTotal: roundMoney(qty * skuData.unitCost),
+      reasons,
+    };
+    this.checkMaxCover(line);
+    return line;
+  }
+
+  // Top up a supplier's lines in pack increments until its order minimums are met,
+  // always adding to the SKU with the lowest projected cover
+  private consolidateSupplier(supplier: Supplier, lines: ReorderRunLine[]): ReorderRunSupplierGroup {
+    const minOrderQty = supplier.minOrderQty || null;
+    const minOrderValue = supplier.minOrderValue || null;
+    const totalQty = () => lines.reduce((sum, line) => sum + line.qty, 0);
+    const subtotal = () => roundMoney(lines.reduce((sum, line) => sum + line.lineTotal, 0));
+    const meetsMinimums = () =>
+      (!minOrderQty || totalQty() >= minOrderQty) && (!minOrderValue || subtotal() >= minOrderValue);
+
+    const notes: string[] = [];
+    if (minOrderQty && totalQty() < minOrderQty) {
+      notes.push(`${totalQty()} units is below the supplier minimum of ${minOrderQty}`);
+    }
+    if (minOrderValue && subtotal() < minOrderValue) {
+      notes.push(`${subtotal()} ${supplier.currency} is below the supplier minimum order value of ${minOrderValue} ${supplier.currency}`);
+    }
+
+    const added = new Map<string, number>();
+    // Guard against minimums that can never be reached (e.g. zero-cost lines)
+    for (let i = 0; i < 1000 && !meetsMinimums(); i++) {
+      const line = lines.reduce((lowest, candidate) =>
+        (candidate.onHand + candidate.onOrder + candidate.qty) / candidate.dailySales <
+        (lowest.onHand + lowest.onOrder + lowest.qty) / lowest.dailySales ? candidate : lowest
+      );
+      line.qty += line.packSize;
+      line.lineTotal = roundMoney(line.qty * line.unitCost);
+      added.set(line.sku, (added.get(line.sku) || 0) + line.packSize);
+    }
+
+    for (const line of lines) {
+      const units = added.get(line.sku);
+      if (!units) continue;
+      line.reasons.push(`Topped up by ${units} to ${line.qty} to meet supplier order minimums`);
+      this.checkMaxCover(line);
+    }
+
+    const minimumsMet = meetsMinimums();
+    if (added.size > 0) {
+      notes.push(minimumsMet
+        ? `Topped up ${added.size} SKU(s) to meet supplier minimums`
+        : "Supplier minimums could not be met");
+    }
+
+    return {
+      supplierId: supplier.id,
+      supplierName: supplier.name,
+      currency: supplier.currency,
+      skus: lines.map(line => line.sku),
+      totalQty: totalQty(),
+      subtotal: subtotal(),
+      minOrderQty,
+      minOrderValue,
+      minimumsMet,
+      purchaseOrderId: null,
+      notes,
+    };
+  }
+
+  // Flag lines whose quantity would push cover past the policy maximum
+  private checkMaxCover(line: ReorderRunLine) {
+    if (!line.maxDaysCover) return;
+    const projectedCover = round1((line.onHand + line.onOrder + line.qty) / line.dailySales);
+    if (projectedCover > line.maxDaysCover) {
+      line.reasons.push(`Projected cover of ${projectedCover} days exceeds the ${line.maxDaysCover}-day maximum`);
+    }
+  }
+}
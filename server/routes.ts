@@ -1,17 +1,36 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
+import { randomUUID } from "crypto";
 import { setupAuth } from "./auth";
 import { storage } from "./storage";
 import { syncManager } from "./syncAdapters";
 import { encryptCredentials, decryptCredentials } from "./crypto";
-import { onboardingSchema, platformConnectionSchema, createNotificationSchema, markNotificationReadSchema, reconIngestSchema, updateReconRowSchema, insertSupplierSchema, insertReorderPolicySchema, reorderSuggestRequestSchema, updatePurchaseOrderStatusSchema, simplePurchaseOrderSchema, supplierSchema, reorderPolicySchema, type PlatformConnections } from "@shared/schema";
+import { onboardingSchema, platformConnectionSchema, createNotificationSchema, markNotificationReadSchema, reconIngestSchema, updateReconRowSchema, insertSupplierSchema, insertReorderPolicySchema, reorderSuggestRequestSchema, updatePurchaseOrderStatusSchema, simplePurchaseOrderSchema, supplierSchema, reorderPolicySchema, fxRatesQuerySchema, fxRatesHistoryQuerySchema, forecastsQuerySchema, forecastHistoryQuerySchema, refreshForecastsSchema, reorderRunRequestSchema, receivePurchaseOrderSchema, createSupplierBillSchema, billMatchTolerancesSchema, financeSettingsSchema, taxCalculationRequestSchema, documentDateSchema, vatPurchasesQuerySchema, createRuleSchema, updateRuleSchema, reorderRulesSchema, testRulesSchema, insertReturnSchema, updateReturnSchema, createEscalationPolicySchema, updateEscalationPolicySchema, getRatesSchema, createShipmentSchema, createShippingRuleSchema, updateShippingRuleSchema, testShippingRulesSchema, upsertProductDimensionsSchema, createShippingBoxSchema, updateShippingBoxSchema, packItemsSchema, insertShippingConnectorSchema, resolvedTaskStatuses, type PlatformConnections } from "@shared/schema";
+import { toTaxDate } from "@shared/taxation";
+import { vatPurchasesFrom } from "@shared/vat";
 import { PaymentAdapter } from "./adapters/payments/base";
 import { StripeAdapter } from "./adapters/payments/stripe";
 import { RazorpayAdapter } from "./adapters/payments/razorpay";
 import fs from "fs/promises";
 import path from "path";
 import { ReconciliationService } from "./reconService";
+import { CurrencyService, CurrencyConversionError, InvalidRateDateError } from "./currencyService";
 import { ReorderService } from "./reorderService";
+import { ReceivingService, ReceivingError } from "./receivingService";
+import { TaxService, TaxError } from "./taxService";
+import { BillMatchService } from "./billMatchService";
+import { RateShoppingService } from "./rateShoppingService";
+import { ShipmentService, ShipmentError } from "./shipmentService";
+import { PackingService, PackingError } from "./packingService";
+import { createAdapterForConnector } from "./shippingAdapters";
+import { ForecastService } from "./forecastService";
+import { TaskService } from "./taskService";
+import { RuleEngine } from "./ruleEngine";
+import { escalationScheduler } from "./escalationScheduler";
+import { forecastScheduler } from "./forecastScheduler";
+import { trackingScheduler } from "./trackingScheduler";
+import { idempotencyMiddleware } from "./middleware/idempotency";
+import { triggerWebhookEvent, triggerSlaBreachEvent } from "./services/webhooks";
 import multer from "multer";
 
 // Authentication middleware
@@ -26,6 +45,8 @@ export function registerRoutes(app: Express): Server {
   // sets up /api/register, /api/login, /api/logout, /api/user
   setupAuth(app);
 
+  const taskService = new TaskService(storage);
+
   // Onboarding routes
   app.post("/api/onboarding/save", async (req, res) => {
     console.log("Onboarding save attempt:");
@@ -428,6 +449,9 @@ export function registerRoutes(app: Express): Server {
     next();
   };
 
+  // Tasks aren't stored per workspace, so their webhooks go to the acting user's workspace
+  const taskWorkspaceId = (req: any): string => req.user.organizationId || req.user.id;
+
   // Action Center Events API routes
   app.get("/api/events", requiresActionCenterAccess, async (req, res) => {
     try {
@@ -450,7 +474,10 @@ export function registerRoutes(app: Express): Server {
   app.post("/api/events", requiresActionCenterAccess, async (req, res) => {
     try {
       const eventData = req.body;
-      const result = await storage.createEvent(eventData);
+      const result = await taskService.createEvent(eventData);
+      if (result.taskCreated) {
+        triggerWebhookEvent("task.created", { task: result.taskCreated }, taskWorkspaceId(req)).catch(console.error);
+      }
       res.status(201).json(result);
     } catch (error) {
       console.error("Error creating event:", error);
@@ -508,7 +535,8 @@ export function registerRoutes(app: Express): Server {
   app.post("/api/tasks", requiresActionCenterAccess, async (req, res) => {
     try {
       const taskData = req.body;
-      const task = await storage.createTask(taskData);
+      const task = await taskService.createTask(taskData);
+      triggerWebhookEvent("task.created", { task }, taskWorkspaceId(req)).catch(console.error);
       res.status(201).json(task);
     } catch (error) {
       console.error("Error creating task:", error);
@@ -531,10 +559,16 @@ export function registerRoutes(app: Express): Server {
 
   app.patch("/api/tasks/:id", requiresActionCenterAccess, async (req, res) => {
     try {
+      const existing = await storage.getTask(req.params.id);
       const updatedTask = await storage.updateTask(req.params.id, req.body);
-      if (!updatedTask) {
+      if (!existing || !updatedTask) {
         return res.status(404).json({ error: "Task not found" });
       }
+
+      const isResolved = (status: string | null) => resolvedTaskStatuses.some(resolved => resolved === status);
+      if (isResolved(updatedTask.status) && !isResolved(existing.status)) {
+        triggerWebhookEvent("task.resolved", { task: updatedTask }, taskWorkspaceId(req)).catch(console.error);
+      }
       res.json(updatedTask);
     } catch (error) {
       console.error("Error updating task:", error);
@@ -545,6 +579,7 @@ export function registerRoutes(app: Express): Server {
   app.post("/api/tasks/:id/resolve", requiresActionCenterAccess, async (req, res) => {
     try {
       const result = await storage.resolveTask(req.params.id);
+      triggerWebhookEvent("task.resolved", { task: result.task }, taskWorkspaceId(req)).catch(console.error);
       res.json(result);
     } catch (error) {
       console.error("Error resolving task:", error);
@@ -554,10 +589,11 @@ export function registerRoutes(app: Express): Server {
 
   app.post("/api/events/:id/create-task", requiresActionCenterAccess, async (req, res) => {
     try {
-      const task = await storage.createTaskFromEvent(req.params.id);
+      const task = await taskService.createTaskFromEvent(req.params.id);
       if (!task) {
         return res.status(404).json({ error: "Event not found" });
       }
+      triggerWebhookEvent("task.created", { task }, taskWorkspaceId(req)).catch(console.error);
       res.status(201).json(task);
     } catch (error) {
       console.error("Error creating task from event:", error);
@@ -673,8 +709,12 @@ export function registerRoutes(app: Express): Server {
 
   app.post("/api/rules", requiresAdminAccess, async (req, res) => {
     try {
-      const ruleData = req.body;
-      const rule = await storage.createRule(ruleData);
+      const result = createRuleSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: "Invalid rule data", details: result.error.errors });
+      }
+
+      const rule = await storage.createRule(result.data);
       res.status(201).json(rule);
     } catch (error) {
       console.error("Error creating rule:", error);
@@ -682,6 +722,61 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
+  // Dry run: show which rules would route a task raised from the given event
+  app.post("/api/rules/test", requiresAdminAccess, async (req, res) => {
+    try {
+      const result = testRulesSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: "Invalid test data", details: result.error.errors });
+      }
+
+      const { event, rule } = result.data;
+      const taskType = result.data.taskType || RuleEngine.taskTypeForEvent(event.type);
+      const now = new Date();
+      const rules = rule
+        ? [{ ...rule, id: "draft", position: 0, createdAt: now, updatedAt: now }]
+        : await storage.getRules();
+
+      res.json(RuleEngine.evaluate(rules, RuleEngine.contextFor(taskType, event)));
+    } catch (error) {
+      console.error("Error testing rules:", error);
+      res.status(500).json({ error: "Failed to test rules" });
+    }
+  });
+
+  app.post("/api/rules/reorder", requiresAdminAccess, async (req, res) => {
+    try {
+      const result = reorderRulesSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: "Invalid rule order", details: result.error.errors });
+      }
+
+      const rules = await storage.reorderRules(result.data.ruleIds);
+      res.json(rules);
+    } catch (error) {
+      console.error("Error reordering rules:", error);
+      res.status(500).json({ error: "Failed to reorder rules" });
+    }
+  });
+
+  app.put("/api/rules/:id", requiresAdminAccess, async (req, res) => {
+    try {
+      const result = updateRuleSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: "Invalid rule data", details: result.error.errors });
+      }
+
+      const rule = await storage.updateRule(req.params.id, result.data);
+      if (!rule) {
+        return res.status(404).json({ error: "Rule not found" });
+      }
+      res.json(rule);
+    } catch (error) {
+      console.error("Error updating rule:", error);
+      res.status(500).json({ error: "Failed to update rule" });
+    }
+  });
+
   app.delete("/api/rules/:id", requiresAdminAccess, async (req, res) => {
     try {
       const success = await storage.deleteRule(req.params.id);
@@ -695,6 +790,77 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
+  // SLA escalation policies - Admin only
+  app.get("/api/escalation-policies", requiresAdminAccess, async (req, res) => {
+    try {
+      const policies = await storage.getEscalationPolicies();
+      res.json({ policies, scheduler: escalationScheduler.getStatus() });
+    } catch (error) {
+      console.error("Error fetching escalation policies:", error);
+      res.status(500).json({ error: "Failed to fetch escalation policies" });
+    }
+  });
+
+  app.post("/api/escalation-policies", requiresAdminAccess, async (req, res) => {
+    try {
+      const result = createEscalationPolicySchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: "Invalid escalation policy", details: result.error.errors });
+      }
+
+      const policy = await storage.createEscalationPolicy(result.data);
+      res.status(201).json(policy);
+    } catch (error) {
+      console.error("Error creating escalation policy:", error);
+      res.status(500).json({ error: "Failed to create escalation policy" });
+    }
+  });
+
+  app.put("/api/escalation-policies/:id", requiresAdminAccess, async (req, res) => {
+    try {
+      const result = updateEscalationPolicySchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: "Invalid escalation policy", details: result.error.errors });
+      }
+
+      const policy = await storage.updateEscalationPolicy(req.params.id, result.data);
+      if (!policy) {
+        return res.status(404).json({ error: "Escalation policy not found" });
+      }
+      res.json(policy);
+    } catch (error) {
+      console.error("Error updating escalation policy:", error);
+      res.status(500).json({ error: "Failed to update escalation policy" });
+    }
+  });
+
+  app.delete("/api/escalation-policies/:id", requiresAdminAccess, async (req, res) => {
+    try {
+      const success = await storage.deleteEscalationPolicy(req.params.id);
+      if (!success) {
+        return res.status(404).json({ error: "Escalation policy not found" });
+      }
+      res.json({ message: "Escalation policy deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting escalation policy:", error);
+      res.status(500).json({ error: "Failed to delete escalation policy" });
+    }
+  });
+
+  // Run the escalation sweep now instead of waiting for the scheduler
+  app.post("/api/escalations/sweep", requiresAdminAccess, async (req, res) => {
+    try {
+      const result = await escalationScheduler.sweep();
+      if (!result) {
+        return res.status(409).json({ error: "An escalation sweep is already running" });
+      }
+      res.json(result);
+    } catch (error) {
+      console.error("Error running escalation sweep:", error);
+      res.status(500).json({ error: "Failed to run escalation sweep" });
+    }
+  });
+
   // Purchase Orders API routes - Admin and Manager only
   app.post("/api/purchase-orders", requiresActionCenterAccess, async (req, res) => {
     try {
@@ -709,6 +875,7 @@ export function registerRoutes(app: Express): Server {
       };
 
       const po = await storage.createPurchaseOrder(poData);
+      triggerWebhookEvent("purchase_order.created", { purchaseOrder: po }, po.workspaceId).catch(console.error);
       res.status(201).json(po);
     } catch (error) {
       console.error("Error creating purchase order:", error);
@@ -740,7 +907,7 @@ export function registerRoutes(app: Express): Server {
 
     try {
       // Create a test P1 task to trigger notification
-      const testTask = await storage.createTask({
+      const testTask = await taskService.createTask({
         title: "Test Critical Task - " + new Date().toLocaleTimeString(),
         type: "RESTOCK",
         priority: "P1",
@@ -839,6 +1006,12 @@ export function registerRoutes(app: Express): Server {
       console.error("❌ Reconciliation ingest error:", error);
       
       // Ensure we always send a response
+      if (!res.headersSent && error instanceof CurrencyConversionError) {
+        return res.status(400).json({ error: "Unsupported currency", details: error.message });
+      }
+      if (!res.headersSent && error instanceof InvalidRateDateError) {
+        return res.status(400).json({ error: "Invalid date", details: error.message });
+      }
       if (!res.headersSent) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
         res.status(500).json({ 
@@ -904,12 +1077,13 @@ export function registerRoutes(app: Express): Server {
       }
       
       // Create RECONCILE task
-      const task = await storage.createTask({
+      const task = await taskService.createTask({
         title: `Reconcile payment mismatch for order ${row.orderId}`,
         type: "RECONCILE",
         priority: Math.abs(row.diffBase) > 1000 ? "P1" : "P2", // > $10 = P1
         notes: `Payment mismatch: Expected ${row.expectedNet/100} ${row.currency}, Paid ${row.paid/100} ${row.currency}`,
       });
+      triggerWebhookEvent("task.created", { task }, taskWorkspaceId(req)).catch(console.error);
       
       // Update row with task reference
       const updatedRow = await storage.updateReconRow(row.id, {
@@ -1109,6 +1283,7 @@ export function registerRoutes(app: Express): Server {
       };
       
       const delivery = await storage.createSupplierDelivery(deliveryData);
+      triggerSlaBreachEvent(delivery).catch(console.error);
       res.status(201).json(delivery);
     } catch (error) {
       console.error("Error creating supplier delivery:", error);
@@ -1121,11 +1296,13 @@ export function registerRoutes(app: Express): Server {
       const { id } = req.params;
       const updates = req.body;
       
+      const previous = await storage.getSupplierDelivery(id);
       const delivery = await storage.updateSupplierDelivery(id, updates);
-      if (!delivery) {
+      if (!previous || !delivery) {
         return res.status(404).json({ error: "Delivery not found" });
       }
-      
+
+      triggerSlaBreachEvent(delivery, previous).catch(console.error);
       res.json(delivery);
     } catch (error) {
       console.error("Error updating supplier delivery:", error);
@@ -1229,6 +1406,8 @@ export function registerRoutes(app: Express): Server {
   });
 
   // Sales Order API routes
+  const taxService = new TaxService(storage);
+
   app.get("/api/sales-orders", requireAuth, async (req, res) => {
     try {
       const user = req.user!;
@@ -1253,11 +1432,33 @@ export function registerRoutes(app: Express): Server {
       const user = req.user!;
       const workspaceId = user.organizationId || user.id;
       
+      const { customerState, ...body } = req.body;
+      // Orders are taxed at the rates in force on this date
+      const createdAt = documentDateSchema.optional().safeParse(body.createdAt);
+      if (!createdAt.success) {
+        return res.status(400).json({ error: "Invalid sales order", details: createdAt.error.errors });
+      }
       const orderData = {
-        ...req.body,
+        ...body,
         workspaceId
       };
 
+      // Imported orders that don't carry their own tax are taxed like the app's orders
+      if (orderData.tax === undefined && Array.isArray(orderData.items)) {
+        const items: { sku: string; quantity: number; unitPrice: number }[] = orderData.items;
+        const products = await storage.getProducts(workspaceId, { skus: items.map(item => item.sku) });
+        const { tax, taxIncluded } = await taxService.taxOrderLines(workspaceId, {
+          currency: orderData.currency || "USD",
+          customerState,
+          date: orderData.createdAt,
+          lines: items.map(item => ({ productId: item.sku, quantity: item.quantity, unitPrice: item.unitPrice })),
+          productTaxCategories: Object.fromEntries(products.map(product => [product.sku, product.taxCategory])),
+        });
+        orderData.subtotal = (orderData.subtotal ?? 0) - taxIncluded;
+        orderData.tax = tax;
+        orderData.total = orderData.subtotal + tax + (orderData.shipping ?? 0);
+      }
+
       const order = await storage.createSalesOrder(orderData);
       res.status(201).json(order);
     } catch (error) {
@@ -1302,6 +1503,66 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
+  // Demand forecasts - computed server-side from sales orders and refreshed by the forecast scheduler
+  app.get("/api/forecasts", requireAuth, async (req, res) => {
+    try {
+      const user = req.user!;
+      const workspaceId = user.organizationId || user.id;
+      
+      const query = forecastsQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ error: "Invalid query", details: query.error.errors });
+      }
+      
+      // Missing forecasts are computed by the scheduler, not in the request; clients poll while `refreshing`
+      const { forecasts, refresh } = await ForecastService.getForecasts(workspaceId, query.data);
+      for (const job of refresh) {
+        forecastScheduler.queueRefresh({ workspaceId, ...job });
+      }
+      res.json({ forecasts, refreshing: refresh.length > 0, scheduler: forecastScheduler.getStatus() });
+    } catch (error) {
+      console.error("Error fetching forecasts:", error);
+      res.status(500).json({ error: "Failed to fetch forecasts" });
+    }
+  });
+
+  app.get("/api/forecasts/:productId/history", requireAuth, async (req, res) => {
+    try {
+      const user = req.user!;
+      const workspaceId = user.organizationId || user.id;
+      
+      const query = forecastHistoryQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ error: "Invalid query", details: query.error.errors });
+      }
+      
+      const locationId = query.data.locationId === "all" ? undefined : query.data.locationId;
+      const history = await ForecastService.getSalesHistory(workspaceId, req.params.productId, locationId, query.data.days);
+      res.json(history);
+    } catch (error) {
+      console.error("Error fetching sales history:", error);
+      res.status(500).json({ error: "Failed to fetch sales history" });
+    }
+  });
+
+  app.post("/api/forecasts/refresh", requireAuth, async (req, res) => {
+    try {
+      const user = req.user!;
+      const workspaceId = user.organizationId || user.id;
+      
+      const body = refreshForecastsSchema.safeParse(req.body || {});
+      if (!body.success) {
+        return res.status(400).json({ error: "Invalid request", details: body.error.errors });
+      }
+      
+      const refreshed = await ForecastService.refreshWorkspace(workspaceId, { productId: body.data.productId });
+      res.json({ refreshed, refreshedAt: new Date().toISOString() });
+    } catch (error) {
+      console.error("Error refreshing forecasts:", error);
+      res.status(500).json({ error: "Failed to refresh forecasts" });
+    }
+  });
+
   // Restock Autopilot - Reorder Policy API routes
   app.get("/api/reorder/policy", requireAuth, async (req, res) => {
     try {
@@ -1512,11 +1773,14 @@ export function registerRoutes(app: Express): Server {
         dueAt: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString() // 24 hours from now
       };
 
-      const task = await storage.createTask(taskData);
+      const task = await taskService.createTask(taskData);
 
       // Link task to PO
       const updatedPO = await storage.updatePurchaseOrder(po.id, { linkedTaskId: task.id });
 
+      triggerWebhookEvent("purchase_order.created", { purchaseOrder: updatedPO || po }, workspaceId).catch(console.error);
+      triggerWebhookEvent("task.created", { task }, workspaceId).catch(console.error);
+
       res.status(201).json({
         po: updatedPO,
         task
@@ -1560,15 +1824,40 @@ export function registerRoutes(app: Express): Server {
     try {
       const { status } = req.body;
       
-      if (!["DRAFT", "SENT", "RECEIVED", "CANCELLED"].includes(status)) {
+      if (!["DRAFT", "SENT", "CANCELLED"].includes(status)) {
+        if (["PARTIALLY_RECEIVED", "RECEIVED"].includes(status)) {
+          return res.status(400).json({ error: "Record a goods receipt via POST /api/po/:id/receipts to receive a purchase order" });
+        }
         return res.status(400).json({ error: "Invalid status" });
       }
 
-      const po = await storage.updatePurchaseOrder(req.params.id, { status });
+      const user = req.user!;
+      const previous = await storage.getPurchaseOrder(req.params.id);
+      if (!previous || previous.workspaceId !== (user.organizationId || user.id)) {
+        return res.status(404).json({ error: "Purchase order not found" });
+      }
+      if (previous.status === status) {
+        return res.json(previous);
+      }
+
+      // Received stock and goods receipts can't be undone, so only unreceived POs change status by hand
+      const allowedChanges: Record<string, string[]> = { DRAFT: ["SENT", "CANCELLED"], SENT: ["DRAFT", "CANCELLED"] };
+      if (!allowedChanges[previous.status]?.includes(status)) {
+        return res.status(409).json({ error: `Cannot change a ${previous.status} purchase order to ${status}` });
+      }
+
+      // The supplier lead time runs from when the PO is sent
+      const updates = status === "SENT" ? { status, sentAt: new Date() } : { status };
+
+      const po = await storage.updatePurchaseOrder(req.params.id, updates);
       if (!po) {
         return res.status(404).json({ error: "Purchase order not found" });
       }
 
+      if (status === "SENT") {
+        triggerWebhookEvent("purchase_order.sent", { purchaseOrder: po }, po.workspaceId).catch(console.error);
+      }
+
       // TODO: If status is SENT and email config exists, send email notification
 
       res.json(po);
@@ -1578,145 +1867,403 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
-  // Simple Purchase Orders for manual restock feature (public endpoints)
-  app.get("/api/simple-po/health", (req, res) => {
-    res.json({ ok: true });
-  });
+  // Initialize receiving service
+  const receivingService = new ReceivingService(storage);
 
-  app.post("/api/simple-po", async (req, res) => {
+  // Goods receiving - record a GRN with per-line quantities and post stock moves
+  app.post("/api/po/:id/receipts", requireAuth, async (req, res) => {
     try {
-      const { sku, qty, supplierName } = req.body || {};
-      
-      if (!sku || !qty || !supplierName) {
-        return res.status(400).json({ error: "Missing sku/qty/supplierName" });
+      const user = req.user!;
+      const workspaceId = user.organizationId || user.id;
+
+      const validation = receivePurchaseOrderSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: "Invalid goods receipt", details: validation.error.errors });
       }
 
-      const poData = {
-        sku,
-        qty: Number(qty),
-        supplierName,
-      };
+      const po = await storage.getPurchaseOrder(req.params.id);
+      if (!po || po.workspaceId !== workspaceId) {
+        return res.status(404).json({ error: "Purchase order not found" });
+      }
 
-      const po = await storage.createSimplePurchaseOrder(poData);
-      console.log("[PO] created", po.id, sku, qty, supplierName);
-      
-      res.status(201).json(po);
+      const result = await receivingService.receive(po, validation.data, user.id);
+      res.status(201).json(result);
     } catch (error) {
-      console.error("[PO] create error", error);
-      res.status(500).json({ error: "PO create failed", detail: String((error as any)?.message || error) });
+      if (error instanceof ReceivingError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      console.error("Error receiving purchase order:", error);
+      res.status(500).json({ error: "Failed to receive purchase order" });
     }
   });
 
-  app.get("/api/simple-po", async (req, res) => {
+  app.get("/api/po/:id/receipts", requireAuth, async (req, res) => {
     try {
-      const pos = await storage.getSimplePurchaseOrders();
-      res.json(pos);
+      const user = req.user!;
+      const workspaceId = user.organizationId || user.id;
+
+      const po = await storage.getPurchaseOrder(req.params.id);
+      if (!po || po.workspaceId !== workspaceId) {
+        return res.status(404).json({ error: "Purchase order not found" });
+      }
+
+      const receipts = await storage.getGoodsReceipts(po.id);
+      res.json(receipts);
     } catch (error) {
-      console.error("Error fetching simple purchase orders:", error);
-      res.status(500).json({ error: "Failed to fetch purchase orders" });
+      console.error("Error fetching goods receipts:", error);
+      res.status(500).json({ error: "Failed to fetch goods receipts" });
     }
   });
 
-  // PATCH /api/simple-po/:id for status updates
-  app.patch("/api/simple-po/:id", async (req, res) => {
+  // Initialize bill match service
+  const billMatchService = new BillMatchService(storage);
+
+  // Supplier bills - three-way matched against the PO and its goods receipts
+  app.post("/api/po/:id/bills", requireAuth, async (req, res) => {
     try {
-      const { id } = req.params;
-      const { status } = req.body;
+      const user = req.user!;
+      const workspaceId = user.organizationId || user.id;
 
-      if (!status || !["DRAFT", "SENT", "RECEIVED", "CANCELLED"].includes(status)) {
-        return res.status(400).json({ error: "Invalid status. Must be DRAFT, SENT, RECEIVED, or CANCELLED" });
+      const validation = createSupplierBillSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: "Invalid supplier bill", details: validation.error.errors });
       }
 
-      const updatedPo = await storage.updateSimplePurchaseOrderStatus(id, status);
-      console.log("[PO] status updated", id, "->", status);
-      
-      res.json(updatedPo);
-    } catch (error) {
-      console.error("[PO] status update error", error);
-      res.status(500).json({ error: "Failed to update PO status", detail: String((error as any)?.message || error) });
-    }
-  });
+      const po = await storage.getPurchaseOrder(req.params.id);
+      if (!po || po.workspaceId !== workspaceId) {
+        return res.status(404).json({ error: "Purchase order not found" });
+      }
 
-  // Comprehensive Settings API Routes
-  // GET /api/settings - Fetch full settings (workspace + regions + notifications)
-  app.get("/api/settings", requireAuth, async (req, res) => {
-    try {
-      const user = req.user as any;
-      const organizationId = user?.organizationId || "test-org-id";
-      
-      // Get or create workspace settings
-      let workspace = await storage.getWorkspaceSettings(organizationId);
-      if (!workspace) {
-        workspace = await storage.createWorkspaceSettings(organizationId, {
-          organizationId,
-          orgName: "My Organization",
-          defaultCurrency: "USD", 
-          defaultTimezone: "UTC",
-          dateFormat: "MM/DD/YYYY",
-          numberFormat: "US"
-        });
+      if (po.status === "DRAFT" || po.status === "CANCELLED") {
+        return res.status(409).json({ error: `Cannot bill a purchase order with status ${po.status}` });
       }
 
-      // Get regions and notifications
-      const regions = await storage.getRegions(organizationId);
-      let notifications = await storage.getNotificationSettings(organizationId);
-      if (!notifications) {
-        notifications = await storage.createNotificationSettings(organizationId, {
-          organizationId,
-          dailyDigestEnabled: "true",
-          digestTime: "09:00",
-          alertsEnabled: "true"
-        });
+      const existingBills = await storage.getSupplierBills(po.id);
+      if (existingBills.some(bill => bill.billNumber === validation.data.billNumber)) {
+        return res.status(409).json({ error: "A bill with this number already exists for this purchase order" });
       }
 
-      res.json({
-        workspace,
-        regions,
-        notifications
-      });
+      const bill = await billMatchService.createBill(po, validation.data);
+      res.status(201).json(bill);
     } catch (error) {
-      console.error("Error fetching settings:", error);
-      res.status(500).json({ error: "Failed to fetch settings" });
+      console.error("Error creating supplier bill:", error);
+      res.status(500).json({ error: "Failed to create supplier bill" });
     }
   });
 
-  // PUT /api/settings - Update workspace settings
-  app.put("/api/settings", requireAuth, async (req, res) => {
+  app.get("/api/po/:id/bills", requireAuth, async (req, res) => {
     try {
-      const user = req.user as any;
-      const organizationId = user?.organizationId || "test-org-id";
-      const updates = req.body;
-      
-      const updatedSettings = await storage.updateWorkspaceSettings(organizationId, updates);
-      res.json(updatedSettings);
+      const user = req.user!;
+      const workspaceId = user.organizationId || user.id;
+
+      const po = await storage.getPurchaseOrder(req.params.id);
+      if (!po || po.workspaceId !== workspaceId) {
+        return res.status(404).json({ error: "Purchase order not found" });
+      }
+
+      const bills = await storage.getSupplierBills(po.id);
+      res.json(bills);
     } catch (error) {
-      console.error("Error updating settings:", error);
-      res.status(500).json({ error: "Failed to update settings" });
+      console.error("Error fetching supplier bills:", error);
+      res.status(500).json({ error: "Failed to fetch supplier bills" });
     }
   });
 
-  // Regions API
-  app.get("/api/regions", requireAuth, async (req, res) => {
+  app.get("/api/bills/:id", requireAuth, async (req, res) => {
     try {
-      const user = req.user as any;
-      const organizationId = user?.organizationId || "test-org-id";
-      
-      const regions = await storage.getRegions(organizationId);
-      res.json(regions);
+      const user = req.user!;
+      const workspaceId = user.organizationId || user.id;
+
+      const bill = await storage.getSupplierBill(req.params.id);
+      if (!bill || bill.workspaceId !== workspaceId) {
+        return res.status(404).json({ error: "Supplier bill not found" });
+      }
+
+      res.json(bill);
     } catch (error) {
-      console.error("Error fetching regions:", error);
-      res.status(500).json({ error: "Failed to fetch regions" });
+      console.error("Error fetching supplier bill:", error);
+      res.status(500).json({ error: "Failed to fetch supplier bill" });
     }
   });
 
-  app.post("/api/regions", requireAuth, async (req, res) => {
+  // Re-run the match, e.g. after further goods receipts
+  app.post("/api/bills/:id/match", requireAuth, async (req, res) => {
     try {
-      const user = req.user as any;
-      const organizationId = user?.organizationId || "test-org-id";
-      
-      const regionData = { ...req.body, organizationId };
-      const newRegion = await storage.createRegion(organizationId, regionData);
-      res.status(201).json(newRegion);
+      const user = req.user!;
+      const workspaceId = user.organizationId || user.id;
+
+      const bill = await storage.getSupplierBill(req.params.id);
+      if (!bill || bill.workspaceId !== workspaceId) {
+        return res.status(404).json({ error: "Supplier bill not found" });
+      }
+
+      const po = await storage.getPurchaseOrder(bill.purchaseOrderId);
+      if (!po) {
+        return res.status(404).json({ error: "Purchase order not found" });
+      }
+
+      const matched = await billMatchService.matchBill(bill, po);
+      res.json(matched);
+    } catch (error) {
+      console.error("Error matching supplier bill:", error);
+      res.status(500).json({ error: "Failed to match supplier bill" });
+    }
+  });
+
+  // Three-way match tolerances
+  app.get("/api/settings/bill-matching", requireAuth, async (req, res) => {
+    try {
+      const user = req.user!;
+      const workspaceId = user.organizationId || user.id;
+
+      const tolerances = await billMatchService.getTolerances(workspaceId);
+      res.json({
+        billQtyTolerancePct: tolerances.qtyPct,
+        billPriceTolerancePct: tolerances.pricePct,
+        billAmountTolerance: tolerances.amount,
+      });
+    } catch (error) {
+      console.error("Error fetching bill matching tolerances:", error);
+      res.status(500).json({ error: "Failed to fetch bill matching tolerances" });
+    }
+  });
+
+  app.put("/api/settings/bill-matching", requireAuth, async (req, res) => {
+    try {
+      const user = req.user!;
+      const workspaceId = user.organizationId || user.id;
+
+      const validation = billMatchTolerancesSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: "Invalid tolerances", details: validation.error.errors });
+      }
+
+      const settings = await storage.updateWorkspaceSettings(workspaceId, validation.data);
+      res.json({
+        billQtyTolerancePct: settings.billQtyTolerancePct,
+        billPriceTolerancePct: settings.billPriceTolerancePct,
+        billAmountTolerance: settings.billAmountTolerance,
+      });
+    } catch (error) {
+      console.error("Error updating bill matching tolerances:", error);
+      res.status(500).json({ error: "Failed to update bill matching tolerances" });
+    }
+  });
+
+  // Tax engine, shared with the app and the public API
+  app.post("/api/tax/calculate", requireAuth, async (req, res) => {
+    try {
+      const user = req.user!;
+      const workspaceId = user.organizationId || user.id;
+
+      const validation = taxCalculationRequestSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: "Invalid tax calculation", details: validation.error.errors });
+      }
+
+      res.json(await taxService.calculate(workspaceId, validation.data));
+    } catch (error) {
+      if (error instanceof TaxError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      console.error("Error calculating tax:", error);
+      res.status(500).json({ error: "Failed to calculate tax" });
+    }
+  });
+
+  // Purchases that VAT returns reclaim input VAT on, in every currency
+  app.get("/api/vat/purchases", requireAuth, async (req, res) => {
+    try {
+      const user = req.user!;
+      const workspaceId = user.organizationId || user.id;
+
+      const query = vatPurchasesQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ error: "Invalid query", details: query.error.errors });
+      }
+
+      const purchaseOrders = await storage.getPurchaseOrders(workspaceId);
+      const bills = await storage.getWorkspaceSupplierBills(workspaceId);
+      const { from, to } = query.data;
+      res.json(vatPurchasesFrom(purchaseOrders, bills).filter(purchase => {
+        const day = toTaxDate(purchase.date);
+        return from <= day && day <= to;
+      }));
+    } catch (error) {
+      console.error("Error fetching VAT purchases:", error);
+      res.status(500).json({ error: "Failed to fetch VAT purchases" });
+    }
+  });
+
+  app.get("/api/settings/finance", requireAuth, async (req, res) => {
+    try {
+      const user = req.user!;
+      const workspaceId = user.organizationId || user.id;
+
+      res.json(await taxService.getFinanceSettings(workspaceId));
+    } catch (error) {
+      console.error("Error fetching finance settings:", error);
+      res.status(500).json({ error: "Failed to fetch finance settings" });
+    }
+  });
+
+  app.put("/api/settings/finance", requireAuth, async (req, res) => {
+    try {
+      const user = req.user!;
+      const workspaceId = user.organizationId || user.id;
+
+      const validation = financeSettingsSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: "Invalid finance settings", details: validation.error.errors });
+      }
+
+      const settings = await storage.updateWorkspaceSettings(workspaceId, { financeSettings: validation.data });
+      res.json(settings.financeSettings);
+    } catch (error) {
+      console.error("Error updating finance settings:", error);
+      res.status(500).json({ error: "Failed to update finance settings" });
+    }
+  });
+
+  // Simple Purchase Orders for manual restock feature (public endpoints)
+  app.get("/api/simple-po/health", (req, res) => {
+    res.json({ ok: true });
+  });
+
+  app.post("/api/simple-po", async (req, res) => {
+    try {
+      const { sku, qty, supplierName } = req.body || {};
+      
+      if (!sku || !qty || !supplierName) {
+        return res.status(400).json({ error: "Missing sku/qty/supplierName" });
+      }
+
+      const poData = {
+        sku,
+        qty: Number(qty),
+        supplierName,
+      };
+
+      const po = await storage.createSimplePurchaseOrder(poData);
+      console.log("[PO] created", po.id, sku, qty, supplierName);
+      
+      res.status(201).json(po);
+    } catch (error) {
+      console.error("[PO] create error", error);
+      res.status(500).json({ error: "PO create failed", detail: String((error as any)?.message || error) });
+    }
+  });
+
+  app.get("/api/simple-po", async (req, res) => {
+    try {
+      const pos = await storage.getSimplePurchaseOrders();
+      res.json(pos);
+    } catch (error) {
+      console.error("Error fetching simple purchase orders:", error);
+      res.status(500).json({ error: "Failed to fetch purchase orders" });
+    }
+  });
+
+  // PATCH /api/simple-po/:id for status updates
+  app.patch("/api/simple-po/:id", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { status } = req.body;
+
+      if (!status || !["DRAFT", "SENT", "RECEIVED", "CANCELLED"].includes(status)) {
+        return res.status(400).json({ error: "Invalid status. Must be DRAFT, SENT, RECEIVED, or CANCELLED" });
+      }
+
+      const updatedPo = await storage.updateSimplePurchaseOrderStatus(id, status);
+      console.log("[PO] status updated", id, "->", status);
+      
+      res.json(updatedPo);
+    } catch (error) {
+      console.error("[PO] status update error", error);
+      res.status(500).json({ error: "Failed to update PO status", detail: String((error as any)?.message || error) });
+    }
+  });
+
+  // Comprehensive Settings API Routes
+  // GET /api/settings - Fetch full settings (workspace + regions + notifications)
+  app.get("/api/settings", requireAuth, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const organizationId = user?.organizationId || "test-org-id";
+      
+      // Get or create workspace settings
+      let workspace = await storage.getWorkspaceSettings(organizationId);
+      if (!workspace) {
+        workspace = await storage.createWorkspaceSettings(organizationId, {
+          organizationId,
+          orgName: "My Organization",
+          defaultCurrency: "USD", 
+          defaultTimezone: "UTC",
+          dateFormat: "MM/DD/YYYY",
+          numberFormat: "US"
+        });
+      }
+
+      // Get regions and notifications
+      const regions = await storage.getRegions(organizationId);
+      let notifications = await storage.getNotificationSettings(organizationId);
+      if (!notifications) {
+        notifications = await storage.createNotificationSettings(organizationId, {
+          organizationId,
+          dailyDigestEnabled: "true",
+          digestTime: "09:00",
+          alertsEnabled: "true"
+        });
+      }
+
+      res.json({
+        workspace,
+        regions,
+        notifications
+      });
+    } catch (error) {
+      console.error("Error fetching settings:", error);
+      res.status(500).json({ error: "Failed to fetch settings" });
+    }
+  });
+
+  // PUT /api/settings - Update workspace settings
+  app.put("/api/settings", requireAuth, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const organizationId = user?.organizationId || "test-org-id";
+      const updates = req.body;
+      
+      const updatedSettings = await storage.updateWorkspaceSettings(organizationId, updates);
+      res.json(updatedSettings);
+    } catch (error) {
+      console.error("Error updating settings:", error);
+      res.status(500).json({ error: "Failed to update settings" });
+    }
+  });
+
+  // Regions API
+  app.get("/api/regions", requireAuth, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const organizationId = user?.organizationId || "test-org-id";
+      
+      const regions = await storage.getRegions(organizationId);
+      res.json(regions);
+    } catch (error) {
+      console.error("Error fetching regions:", error);
+      res.status(500).json({ error: "Failed to fetch regions" });
+    }
+  });
+
+  app.post("/api/regions", requireAuth, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const organizationId = user?.organizationId || "test-org-id";
+      
+      const regionData = { ...req.body, organizationId };
+      const newRegion = await storage.createRegion(organizationId, regionData);
+      res.status(201).json(newRegion);
     } catch (error) {
       console.error("Error creating region:", error);
       res.status(500).json({ error: "Failed to create region" });
@@ -1763,22 +2310,24 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
-  // Mock FX Helper for testing (exposed but not implemented)
+  // FX rates - dated snapshots from the configured rate provider
   app.get("/api/fx/rates", requireAuth, async (req, res) => {
     try {
-      // Mock FX rates for testing
+      const query = fxRatesQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ error: "Invalid query", details: query.error.errors });
+      }
+      
+      const snapshot = await CurrencyService.getSnapshot(query.data.date);
+      
       res.json({
-        base: "USD",
-        rates: {
-          "USD": 1.0,
-          "EUR": 0.85,
-          "GBP": 0.73,
-          "INR": 83.12,
-          "AED": 3.67,
-          "SGD": 1.35
-        },
-        lastUpdated: new Date().toISOString(),
-        source: "mock"
+        snapshotId: snapshot.id,
+        date: snapshot.date,
+        sourceDate: snapshot.sourceDate,
+        base: snapshot.base,
+        rates: snapshot.rates,
+        lastUpdated: snapshot.fetchedAt.toISOString(),
+        source: snapshot.provider
       });
     } catch (error) {
       console.error("Error fetching FX rates:", error);
@@ -1786,6 +2335,51 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
+  app.get("/api/fx/rates/history", requireAuth, async (req, res) => {
+    try {
+      const query = fxRatesHistoryQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ error: "Invalid query", details: query.error.errors });
+      }
+      
+      const snapshots = await storage.getFxRateSnapshots(query.data);
+      
+      res.json({
+        provider: CurrencyService.getProviderName(),
+        snapshots
+      });
+    } catch (error) {
+      console.error("Error fetching FX rate history:", error);
+      res.status(500).json({ error: "Failed to fetch FX rate history" });
+    }
+  });
+
+  // Which snapshots a reconciliation batch was converted with
+  app.get("/api/fx/rates/batches/:batchId", requireAuth, async (req, res) => {
+    try {
+      const batch = await storage.getReconBatch(req.params.batchId);
+      if (!batch) {
+        return res.status(404).json({ error: "Batch not found" });
+      }
+      
+      const snapshots = await Promise.all(
+        batch.fxSnapshots.map(async (used) => ({
+          ...used,
+          snapshot: (await storage.getFxRateSnapshot(used.date)) || null
+        }))
+      );
+      
+      res.json({
+        batchId: batch.id,
+        baseCurrency: batch.baseCurrency,
+        snapshots
+      });
+    } catch (error) {
+      console.error("Error fetching batch FX snapshots:", error);
+      res.status(500).json({ error: "Failed to fetch batch FX snapshots" });
+    }
+  });
+
   const httpServer = createServer(app);
 
   // Analytics V1 API
@@ -2072,6 +2666,59 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
+  // Reorder runs - plan every SKU with a reorder policy and raise draft POs per supplier
+  app.post("/api/reorder/runs", requireAuth, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const workspaceId = user?.organizationId || "sample-org-123";
+
+      const validation = reorderRunRequestSchema.safeParse(req.body || {});
+      if (!validation.success) {
+        return res.status(400).json({ error: "Invalid reorder run request", details: validation.error.errors });
+      }
+
+      const run = await reorderService.runReorder(workspaceId, {
+        dryRun: validation.data.dryRun,
+        userId: user?.id,
+      });
+
+      res.status(201).json(run);
+    } catch (error) {
+      console.error("Error running reorder plan:", error);
+      res.status(500).json({ error: "Failed to run reorder plan" });
+    }
+  });
+
+  app.get("/api/reorder/runs", requireAuth, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const workspaceId = user?.organizationId || "sample-org-123";
+
+      const runs = await storage.getReorderRuns(workspaceId);
+      res.json(runs);
+    } catch (error) {
+      console.error("Error fetching reorder runs:", error);
+      res.status(500).json({ error: "Failed to fetch reorder runs" });
+    }
+  });
+
+  app.get("/api/reorder/runs/:id", requireAuth, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const workspaceId = user?.organizationId || "sample-org-123";
+
+      const run = await storage.getReorderRun(req.params.id);
+      if (!run || run.workspaceId !== workspaceId) {
+        return res.status(404).json({ error: "Reorder run not found" });
+      }
+
+      res.json(run);
+    } catch (error) {
+      console.error("Error fetching reorder run:", error);
+      res.status(500).json({ error: "Failed to fetch reorder run" });
+    }
+  });
+
   // Daily digest preview endpoint
   app.get("/api/digest/preview", requireAuth, (req, res) => {
     try {
@@ -2192,73 +2839,11 @@ export function registerRoutes(app: Express): Server {
   app.get("/api/returns", requireAuth, async (req, res) => {
     try {
       const user = req.user as any;
-      const organizationId = user.organizationId;
-      
-      // Mock data for now - replace with actual database query
-      const mockReturns = [
-        {
-          id: "ret_001",
-          rmaId: "RMA-2024-001",
-          customerName: "Sarah Johnson",
-          customerEmail: "sarah.johnson@email.com",
-          orderReference: "ORD-2024-0847",
-          items: [
-            { sku: "ELEC-TAB-001", productName: "Samsung Galaxy Tab A8", quantity: 1, unitPrice: 25000 }
-          ],
-          reason: "damaged",
-          reasonDescription: "Screen cracked during shipping",
-          status: "in_transit",
-          totalValue: 25000,
-          currency: "USD",
-          resolution: "none",
-          inspectionNotes: null,
-          inspectionPhotos: [],
-          createdAt: "2024-01-15T10:30:00Z",
-          updatedAt: "2024-01-16T14:20:00Z"
-        },
-        {
-          id: "ret_002",
-          rmaId: "RMA-2024-002",
-          customerName: "Mike Chen",
-          customerEmail: "mike.chen@email.com",
-          orderReference: "ORD-2024-0823",
-          items: [
-            { sku: "FASH-TEE-001", productName: "Organic Cotton T-Shirt", quantity: 2, unitPrice: 2500 }
-          ],
-          reason: "wrong_item",
-          reasonDescription: "Received size Large instead of Medium",
-          status: "resolved",
-          totalValue: 5000,
-          currency: "USD",
-          resolution: "replace",
-          inspectionNotes: "Items in perfect condition, wrong size shipped",
-          inspectionPhotos: [],
-          createdAt: "2024-01-10T16:45:00Z",
-          updatedAt: "2024-01-18T11:30:00Z"
-        },
-        {
-          id: "ret_003",
-          rmaId: "RMA-2024-003",
-          customerName: "Emma Wilson",
-          customerEmail: "emma.wilson@email.com",
-          orderReference: "ORD-2024-0956",
-          items: [
-            { sku: "HOME-CAN-002", productName: "Scented Candle Set", quantity: 1, unitPrice: 4500 }
-          ],
-          reason: "customer_remorse",
-          reasonDescription: "Changed mind about fragrance",
-          status: "requested",
-          totalValue: 4500,
-          currency: "USD",
-          resolution: "none",
-          inspectionNotes: null,
-          inspectionPhotos: [],
-          createdAt: "2024-01-18T09:15:00Z",
-          updatedAt: "2024-01-18T09:15:00Z"
-        }
-      ];
-      
-      res.json(mockReturns);
+      if (!user.organizationId) {
+        return res.status(403).json({ error: "Returns need an organization" });
+      }
+
+      res.json(await storage.getReturns(user.organizationId));
     } catch (error) {
       console.error("Error fetching returns:", error);
       res.status(500).json({ error: "Failed to fetch returns" });
@@ -2270,44 +2855,25 @@ export function registerRoutes(app: Express): Server {
     try {
       const user = req.user as any;
       const organizationId = user.organizationId;
-      
-      const {
-        customerName,
-        customerEmail,
-        orderReference,
-        items,
-        reason,
-        reasonDescription,
-        totalValue,
-        currency = "USD"
-      } = req.body;
+      // Return webhooks are scoped to the organization; without one they would go to every workspace
+      if (!organizationId) {
+        return res.status(403).json({ error: "Returns need an organization" });
+      }
 
-      // Generate RMA ID
-      const rmaId = `RMA-${new Date().getFullYear()}-${String(Math.floor(Math.random() * 9999) + 1).padStart(3, '0')}`;
-      
-      const newReturn = {
-        id: `ret_${Date.now()}`,
+      const validation = insertReturnSchema.omit({ organizationId: true, createdBy: true }).safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: "Invalid return", details: validation.error.errors });
+      }
+
+      const rmaId = `RMA-${new Date().getFullYear()}-${randomUUID().slice(0, 8).toUpperCase()}`;
+      const newReturn = await storage.createReturn({
+        ...validation.data,
         rmaId,
         organizationId,
-        customerName,
-        customerEmail,
-        orderReference,
-        items,
-        reason,
-        reasonDescription,
-        status: "requested",
-        totalValue,
-        currency,
-        resolution: "none",
-        inspectionNotes: null,
-        inspectionPhotos: [],
         createdBy: user.id,
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString()
-      };
+      });
 
-      // In production, save to database
-      // const savedReturn = await storage.createReturn(newReturn);
+      triggerWebhookEvent("return.created", { return: newReturn }, organizationId).catch(console.error);
       
       res.status(201).json(newReturn);
     } catch (error) {
@@ -2316,19 +2882,36 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
-  // Update return status and details
-  app.put("/api/returns/:id", requireAuth, async (req, res) => {
-    try {
-      const user = req.user as any;
-      const returnId = req.params.id;
-      const updates = req.body;
+  // Update return status and details
+  app.put("/api/returns/:id", requireAuth, async (req, res) => {
+    try {
+      const user = req.user as any;
+      if (!user.organizationId) {
+        return res.status(403).json({ error: "Returns need an organization" });
+      }
+
+      const validation = updateReturnSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: "Invalid return update", details: validation.error.errors });
+      }
+
+      const existing = await storage.getReturn(req.params.id);
+      if (!existing || existing.organizationId !== user.organizationId) {
+        return res.status(404).json({ error: "Return not found" });
+      }
+
+      const updatedReturn = await storage.updateReturn(existing.id, validation.data);
+      if (!updatedReturn) {
+        return res.status(404).json({ error: "Return not found" });
+      }
 
-      // In production, update in database with validation
-      const updatedReturn = {
-        id: returnId,
-        ...updates,
-        updatedAt: new Date().toISOString()
-      };
+      if (updatedReturn.status !== existing.status) {
+        triggerWebhookEvent("return.status_changed", {
+          return: updatedReturn,
+          previousStatus: existing.status,
+          newStatus: updatedReturn.status,
+        }, existing.organizationId).catch(console.error);
+      }
 
       res.json(updatedReturn);
     } catch (error) {
@@ -2485,11 +3068,19 @@ export function registerRoutes(app: Express): Server {
         return res.status(400).json({ error: "No organization found for user" });
       }
 
-      const { provider, name, credentials, config } = req.body;
-      
-      // Validate required fields
-      if (!provider || !name || !credentials) {
-        return res.status(400).json({ error: "Provider, name, and credentials are required" });
+      const validation = insertShippingConnectorSchema.omit({ organizationId: true }).safeParse({
+        ...req.body,
+        provider: typeof req.body?.provider === 'string' ? req.body.provider.toLowerCase() : req.body?.provider,
+      });
+      if (!validation.success) {
+        return res.status(400).json({ error: "Invalid shipping connector", details: validation.error.errors });
+      }
+
+      const { provider, name, credentials, config } = validation.data;
+
+      // The fake carrier books nothing, so it's only offered outside production
+      if (provider === 'fake' && process.env.NODE_ENV === 'production') {
+        return res.status(400).json({ error: "The fake carrier is not available in production" });
       }
 
       // Encrypt credentials securely using AES-256-GCM
@@ -2497,7 +3088,7 @@ export function registerRoutes(app: Express): Server {
 
       const connectorData = {
         organizationId,
-        provider: provider.toLowerCase(),
+        provider,
         name,
         status: 'inactive' as const,
         encryptedCredentials,
@@ -2648,8 +3239,21 @@ export function registerRoutes(app: Express): Server {
         return res.status(403).json({ error: "Access denied" });
       }
 
-      const testResult = await storage.testShippingConnector(id);
-      
+      // Check the credentials with the carrier. Only active connectors are rate shopped and picked by
+      // shipping rules, so a failed test takes the connector out of both until it passes again
+      let testResult: { success: boolean; error?: string };
+      try {
+        testResult = await createAdapterForConnector(connector).testConnection();
+      } catch (error) {
+        testResult = { success: false, error: error instanceof Error ? error.message : "Connection test failed" };
+      }
+
+      await storage.updateShippingConnector(id, {
+        lastTestAt: new Date(),
+        lastTestStatus: testResult.success ? 'success' : 'failed',
+        status: testResult.success ? 'active' : 'error',
+      });
+
       res.json(testResult);
     } catch (error) {
       console.error("Error testing shipping connector:", error);
@@ -2657,108 +3261,376 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
-  // Get shipping rates (proxy to adapter)
+  // Initialize rate shopping service
+  const rateShoppingService = new RateShoppingService(storage);
+  const packingService = new PackingService(storage);
+
+  // Rate shopping - quote every active connector in parallel and rank the results
   app.post("/api/shipping/rates", requireAuth, async (req, res) => {
     try {
       const user = req.user as any;
       const organizationId = user.organizationId;
-      
-      const { connectorId, from, to, packages } = req.body;
-      
-      if (!connectorId || !from || !to || !packages) {
-        return res.status(400).json({ error: "Connector ID, from, to, and packages are required" });
-      }
 
-      const connector = await storage.getShippingConnector(connectorId);
-      
-      if (!connector) {
-        return res.status(404).json({ error: "Shipping connector not found" });
+      if (!organizationId) {
+        return res.status(400).json({ error: "No organization found for user" });
       }
 
-      if (connector.organizationId !== organizationId) {
-        return res.status(403).json({ error: "Access denied" });
+      const validation = getRatesSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: "Invalid rate request", details: validation.error.errors });
       }
 
-      if (connector.status !== 'active') {
-        return res.status(400).json({ error: "Shipping connector is not active" });
-      }
+      const { connectorIds, currency, timeoutMs, ...request } = validation.data;
 
-      // TODO: Integrate with shipping adapters to get real rates
-      // For now, return mock rates
-      const mockRates = [
-        {
-          service: "Standard Shipping",
-          serviceCode: "STD",
-          currency: "USD",
-          amount: 899, // $8.99 in cents
-          estimatedDays: 5,
-          provider: connector.provider
-        },
-        {
-          service: "Express Shipping",
-          serviceCode: "EXP",
-          currency: "USD", 
-          amount: 1599, // $15.99 in cents
-          estimatedDays: 2,
-          provider: connector.provider
+      if (connectorIds) {
+        const connectors = await storage.getShippingConnectors(organizationId);
+        const unknownIds = connectorIds.filter(id => !connectors.some(connector => connector.id === id));
+        if (unknownIds.length > 0) {
+          return res.status(404).json({ error: "Shipping connector not found", connectorIds: unknownIds });
         }
-      ];
+      }
 
-      res.json(mockRates);
+      const { parcels, packing } = await packingService.resolveParcels(organizationId, request);
+      const comparison = await rateShoppingService.shop(organizationId, { ...request, parcels }, { connectorIds, currency, timeoutMs });
+      res.json({ ...comparison, ...(packing && { packing }) });
     } catch (error) {
+      if (error instanceof PackingError) {
+        return res.status(error.statusCode).json({ error: error.message, ...error.details });
+      }
       console.error("Error fetching shipping rates:", error);
       res.status(500).json({ error: "Failed to fetch shipping rates" });
     }
   });
 
-  // Create a shipment
-  app.post("/api/shipping/shipments", requireAuth, async (req, res) => {
+  // Initialize shipment service
+  const shipmentService = new ShipmentService(storage);
+
+  // Shipping rules - pick the carrier and service for shipments created without a connector
+  app.get("/api/shipping/rules", requireAuth, async (req, res) => {
     try {
       const user = req.user as any;
       const organizationId = user.organizationId;
-      
-      const { connectorId, orderId, serviceCode, from, to, packages } = req.body;
-      
-      if (!connectorId || !serviceCode || !from || !to || !packages) {
-        return res.status(400).json({ error: "Connector ID, service code, from, to, and packages are required" });
+
+      if (!organizationId) {
+        return res.status(400).json({ error: "No organization found for user" });
       }
 
-      const connector = await storage.getShippingConnector(connectorId);
-      
-      if (!connector) {
+      const rules = await storage.getShippingRules(organizationId);
+      res.json(rules);
+    } catch (error) {
+      console.error("Error fetching shipping rules:", error);
+      res.status(500).json({ error: "Failed to fetch shipping rules" });
+    }
+  });
+
+  app.post("/api/shipping/rules", requireAuth, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const organizationId = user.organizationId;
+
+      if (!organizationId) {
+        return res.status(400).json({ error: "No organization found for user" });
+      }
+
+      const result = createShippingRuleSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: "Invalid shipping rule", details: result.error.errors });
+      }
+
+      const connector = await storage.getShippingConnector(result.data.connectorId);
+      if (!connector || connector.organizationId !== organizationId) {
         return res.status(404).json({ error: "Shipping connector not found" });
       }
 
-      if (connector.organizationId !== organizationId) {
-        return res.status(403).json({ error: "Access denied" });
+      const rule = await storage.createShippingRule(organizationId, result.data);
+      res.status(201).json(rule);
+    } catch (error) {
+      console.error("Error creating shipping rule:", error);
+      res.status(500).json({ error: "Failed to create shipping rule" });
+    }
+  });
+
+  // Dry run the rules (or a draft rule) against a shipment's properties
+  app.post("/api/shipping/rules/test", requireAuth, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const organizationId = user.organizationId;
+
+      if (!organizationId) {
+        return res.status(400).json({ error: "No organization found for user" });
       }
 
-      if (connector.status !== 'active') {
-        return res.status(400).json({ error: "Shipping connector is not active" });
+      const result = testShippingRulesSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: "Invalid test data", details: result.error.errors });
       }
 
-      // TODO: Integrate with shipping adapters to create real shipment
-      const shipmentData = {
-        organizationId,
-        connectorId,
-        salesOrderId: orderId || null,
-        provider: connector.provider,
-        providerShipmentId: `SHIP-${Date.now()}`, // Mock provider ID
-        trackingNumber: `1Z${Math.random().toString(36).substr(2, 9).toUpperCase()}`, // Mock tracking number
-        status: 'created' as const,
-        fromAddress: from,
-        toAddress: to,
-        packageInfo: packages,
-        cost: {
-          currency: 'USD',
-          amount: 899 // Mock cost
+      const evaluation = await shipmentService.testRules(organizationId, result.data);
+      res.json(evaluation);
+    } catch (error) {
+      console.error("Error testing shipping rules:", error);
+      res.status(500).json({ error: "Failed to test shipping rules" });
+    }
+  });
+
+  app.post("/api/shipping/rules/reorder", requireAuth, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const organizationId = user.organizationId;
+
+      if (!organizationId) {
+        return res.status(400).json({ error: "No organization found for user" });
+      }
+
+      const result = reorderRulesSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: "Invalid rule order", details: result.error.errors });
+      }
+
+      const rules = await storage.reorderShippingRules(organizationId, result.data.ruleIds);
+      res.json(rules);
+    } catch (error) {
+      console.error("Error reordering shipping rules:", error);
+      res.status(500).json({ error: "Failed to reorder shipping rules" });
+    }
+  });
+
+  app.put("/api/shipping/rules/:id", requireAuth, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const organizationId = user.organizationId;
+
+      const result = updateShippingRuleSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: "Invalid shipping rule", details: result.error.errors });
+      }
+
+      const existing = await storage.getShippingRule(req.params.id);
+      if (!existing || existing.organizationId !== organizationId) {
+        return res.status(404).json({ error: "Shipping rule not found" });
+      }
+
+      if (result.data.connectorId) {
+        const connector = await storage.getShippingConnector(result.data.connectorId);
+        if (!connector || connector.organizationId !== organizationId) {
+          return res.status(404).json({ error: "Shipping connector not found" });
         }
-      };
+      }
 
-      const shipment = await storage.createShipment(shipmentData);
-      
-      res.status(201).json(shipment);
+      const rule = await storage.updateShippingRule(req.params.id, result.data);
+      res.json(rule);
+    } catch (error) {
+      console.error("Error updating shipping rule:", error);
+      res.status(500).json({ error: "Failed to update shipping rule" });
+    }
+  });
+
+  app.delete("/api/shipping/rules/:id", requireAuth, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const organizationId = user.organizationId;
+
+      const existing = await storage.getShippingRule(req.params.id);
+      if (!existing || existing.organizationId !== organizationId) {
+        return res.status(404).json({ error: "Shipping rule not found" });
+      }
+
+      await storage.deleteShippingRule(req.params.id);
+      res.json({ message: "Shipping rule deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting shipping rule:", error);
+      res.status(500).json({ error: "Failed to delete shipping rule" });
+    }
+  });
+
+  // Product shipping dimensions - weight and size by SKU, used to pack orders into parcels
+  app.get("/api/shipping/product-dimensions", requireAuth, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const organizationId = user.organizationId;
+
+      if (!organizationId) {
+        return res.status(400).json({ error: "No organization found for user" });
+      }
+
+      const { sku } = req.query as { sku?: string };
+      const dimensions = await storage.getProductDimensions(organizationId, sku ? sku.split(",") : undefined);
+      res.json(dimensions);
+    } catch (error) {
+      console.error("Error fetching product dimensions:", error);
+      res.status(500).json({ error: "Failed to fetch product dimensions" });
+    }
+  });
+
+  app.put("/api/shipping/product-dimensions/:sku", requireAuth, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const organizationId = user.organizationId;
+
+      if (!organizationId) {
+        return res.status(400).json({ error: "No organization found for user" });
+      }
+
+      const result = upsertProductDimensionsSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: "Invalid product dimensions", details: result.error.errors });
+      }
+
+      const dimensions = await storage.upsertProductDimensions(organizationId, req.params.sku, result.data);
+      res.json(dimensions);
+    } catch (error) {
+      console.error("Error saving product dimensions:", error);
+      res.status(500).json({ error: "Failed to save product dimensions" });
+    }
+  });
+
+  app.delete("/api/shipping/product-dimensions/:sku", requireAuth, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const organizationId = user.organizationId;
+
+      const deleted = await storage.deleteProductDimensions(organizationId, req.params.sku);
+      if (!deleted) {
+        return res.status(404).json({ error: "Product dimensions not found" });
+      }
+
+      res.json({ message: "Product dimensions deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting product dimensions:", error);
+      res.status(500).json({ error: "Failed to delete product dimensions" });
+    }
+  });
+
+  // Box catalogue - boxes without a location can be used at every location
+  app.get("/api/shipping/boxes", requireAuth, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const organizationId = user.organizationId;
+
+      if (!organizationId) {
+        return res.status(400).json({ error: "No organization found for user" });
+      }
+
+      const { locationId } = req.query as { locationId?: string };
+      const boxes = await storage.getShippingBoxes(organizationId, locationId);
+      res.json(boxes);
+    } catch (error) {
+      console.error("Error fetching shipping boxes:", error);
+      res.status(500).json({ error: "Failed to fetch shipping boxes" });
+    }
+  });
+
+  app.post("/api/shipping/boxes", requireAuth, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const organizationId = user.organizationId;
+
+      if (!organizationId) {
+        return res.status(400).json({ error: "No organization found for user" });
+      }
+
+      const result = createShippingBoxSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: "Invalid shipping box", details: result.error.errors });
+      }
+
+      const box = await storage.createShippingBox(organizationId, result.data);
+      res.status(201).json(box);
+    } catch (error) {
+      console.error("Error creating shipping box:", error);
+      res.status(500).json({ error: "Failed to create shipping box" });
+    }
+  });
+
+  app.put("/api/shipping/boxes/:id", requireAuth, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const organizationId = user.organizationId;
+
+      const result = updateShippingBoxSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: "Invalid shipping box", details: result.error.errors });
+      }
+
+      const existing = await storage.getShippingBox(req.params.id);
+      if (!existing || existing.organizationId !== organizationId) {
+        return res.status(404).json({ error: "Shipping box not found" });
+      }
+
+      const box = await storage.updateShippingBox(req.params.id, result.data);
+      res.json(box);
+    } catch (error) {
+      console.error("Error updating shipping box:", error);
+      res.status(500).json({ error: "Failed to update shipping box" });
+    }
+  });
+
+  app.delete("/api/shipping/boxes/:id", requireAuth, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const organizationId = user.organizationId;
+
+      const existing = await storage.getShippingBox(req.params.id);
+      if (!existing || existing.organizationId !== organizationId) {
+        return res.status(404).json({ error: "Shipping box not found" });
+      }
+
+      await storage.deleteShippingBox(req.params.id);
+      res.json({ message: "Shipping box deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting shipping box:", error);
+      res.status(500).json({ error: "Failed to delete shipping box" });
+    }
+  });
+
+  // Suggest a parcel breakdown for an order's items; the parcels can be passed straight to rates or shipments
+  app.post("/api/shipping/packing", requireAuth, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const organizationId = user.organizationId;
+
+      if (!organizationId) {
+        return res.status(400).json({ error: "No organization found for user" });
+      }
+
+      const result = packItemsSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: "Invalid packing request", details: result.error.errors });
+      }
+
+      const suggestion = await packingService.suggest(organizationId, result.data);
+      res.json(suggestion);
+    } catch (error) {
+      if (error instanceof PackingError) {
+        return res.status(error.statusCode).json({ error: error.message, ...error.details });
+      }
+      console.error("Error suggesting packing:", error);
+      res.status(500).json({ error: "Failed to suggest packing" });
+    }
+  });
+
+  // Create a shipment with the given connector, or the carrier picked by the shipping rules
+  app.post("/api/shipping/shipments", requireAuth, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const organizationId = user.organizationId;
+
+      if (!organizationId) {
+        return res.status(400).json({ error: "No organization found for user" });
+      }
+
+      const validation = createShipmentSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: "Invalid shipment", details: validation.error.errors });
+      }
+
+      const { parcels, packing } = await packingService.resolveParcels(organizationId, validation.data);
+      const { shipment, selection } = await shipmentService.createShipment(organizationId, { ...validation.data, parcels });
+      res.status(201).json({ ...shipment, selection, ...(packing && { packing }) });
     } catch (error) {
+      if (error instanceof ShipmentError || error instanceof PackingError) {
+        return res.status(error.statusCode).json({ error: error.message, ...error.details });
+      }
       console.error("Error creating shipment:", error);
       res.status(500).json({ error: "Failed to create shipment" });
     }
@@ -2814,6 +3686,25 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
+  // Tracking poller status
+  app.get("/api/shipping/tracking/status", requireAuth, async (req, res) => {
+    res.json(trackingScheduler.getStatus());
+  });
+
+  // Poll carriers for due shipments now instead of waiting for the scheduler
+  app.post("/api/shipping/tracking/poll", requiresAdminAccess, async (req, res) => {
+    try {
+      const result = await trackingScheduler.poll();
+      if (!result) {
+        return res.status(409).json({ error: "A tracking poll is already running" });
+      }
+      res.json(result);
+    } catch (error) {
+      console.error("Error polling shipment tracking:", error);
+      res.status(500).json({ error: "Failed to poll shipment tracking" });
+    }
+  });
+
   // =============================================================================
   // SHIPPING WEBHOOK ENDPOINTS (for provider status updates)
   // =============================================================================
@@ -2823,14 +3714,13 @@ export function registerRoutes(app: Express): Server {
     try {
       console.log("Received Shiprocket webhook:", JSON.stringify(req.body, null, 2));
       
-      const { order_id, awb, current_status, status, shipped_date, delivered_date } = req.body;
+      const { order_id, awb, current_status, status } = req.body;
       
-      // Find the shipment by provider shipment ID (awb in Shiprocket's case)
-      const allShipments = Array.from((storage as any).shipments.values());
-      const shipment = allShipments.find(s => 
-        s.provider === 'shiprocket' && 
-        (s.providerShipmentId === order_id || s.trackingNumber === awb)
-      );
+      // Find the shipment by Shiprocket's order ID or the AWB (tracking number)
+      const shipment = await storage.findShipmentByProviderRef('shiprocket', {
+        providerShipmentId: order_id ? String(order_id) : undefined,
+        trackingNumber: awb ? String(awb) : undefined,
+      });
       
       if (!shipment) {
         console.warn("Webhook received for unknown shipment:", { order_id, awb });
@@ -2853,13 +3743,8 @@ export function registerRoutes(app: Express): Server {
         normalizedStatus = 'exception';
       }
 
-      // Update shipment status
-      await storage.updateShipment(shipment.id, {
-        status: normalizedStatus,
-        // Add webhook data to tracking info
-        ...(shipped_date && { shippedAt: new Date(shipped_date) }),
-        ...(delivered_date && { deliveredAt: new Date(delivered_date) })
-      });
+      // Same update as a tracking poll: stamps the status change, resets the poll backoff and fires shipment.status_changed
+      await trackingScheduler.applyCarrierUpdate(shipment, { status: normalizedStatus, events: [] });
 
       console.log(`Updated shipment ${shipment.id} status to ${normalizedStatus}`);
       
@@ -3027,7 +3912,17 @@ export function registerRoutes(app: Express): Server {
             { key: 'apiKey', label: 'API Key', type: 'text', required: true },
             { key: 'secretKey', label: 'Secret Key', type: 'password', required: true }
           ]
-        }
+        },
+        // Offline carrier for development and testing
+        ...(process.env.NODE_ENV !== 'production' ? [{
+          id: 'fake',
+          name: 'Fake Carrier',
+          description: 'Local test carrier with deterministic rates and tracking',
+          logo: '/icons/fake-carrier.png',
+          supported: true,
+          countries: ['*'],
+          credentialFields: []
+        }] : [])
       ];
       
       res.json(providers);
@@ -3080,8 +3975,11 @@ export function registerRoutes(app: Express): Server {
     }
   }
 
+  // Retried payment calls with the same Idempotency-Key get the original response instead of charging twice
+  const paymentIdempotency = idempotencyMiddleware();
+
   // Payment Connector Routes
-  app.post("/api/pay/connectors", requireAuth, async (req, res) => {
+  app.post("/api/pay/connectors", requireAuth, paymentIdempotency, async (req, res) => {
     try {
       const { provider, name, credentials } = req.body;
 
@@ -3149,7 +4047,7 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
-  app.delete("/api/pay/connectors/:id", requireAuth, async (req, res) => {
+  app.delete("/api/pay/connectors/:id", requireAuth, paymentIdempotency, async (req, res) => {
     try {
       const { id } = req.params;
       const connectors = await loadConnectors();
@@ -3169,7 +4067,7 @@ export function registerRoutes(app: Express): Server {
   });
 
   // Test connector endpoint
-  app.post("/api/pay/connectors/:id/test", requireAuth, async (req, res) => {
+  app.post("/api/pay/connectors/:id/test", requireAuth, paymentIdempotency, async (req, res) => {
     try {
       const { id } = req.params;
       const connectors = await loadConnectors();
@@ -3196,7 +4094,7 @@ export function registerRoutes(app: Express): Server {
   });
 
   // Payment Link Routes
-  app.post("/api/pay/:connectorId/payment-link", requireAuth, async (req, res) => {
+  app.post("/api/pay/:connectorId/payment-link", requireAuth, paymentIdempotency, async (req, res) => {
     try {
       const { connectorId } = req.params;
       const { invoiceId, successUrl, cancelUrl } = req.body;
@@ -3243,7 +4141,7 @@ export function registerRoutes(app: Express): Server {
   });
 
   // Payment Intent Routes
-  app.post("/api/pay/:connectorId/intent", requireAuth, async (req, res) => {
+  app.post("/api/pay/:connectorId/intent", requireAuth, paymentIdempotency, async (req, res) => {
     try {
       const { connectorId } = req.params;
       const { invoiceId, amount, currency } = req.body;
@@ -3290,7 +4188,7 @@ export function registerRoutes(app: Express): Server {
   });
 
   // Payment Capture Routes
-  app.post("/api/pay/:connectorId/capture", requireAuth, async (req, res) => {
+  app.post("/api/pay/:connectorId/capture", requireAuth, paymentIdempotency, async (req, res) => {
     try {
       const { connectorId } = req.params;
       const { paymentId, amount } = req.body;
@@ -3327,7 +4225,7 @@ export function registerRoutes(app: Express): Server {
   });
 
   // Payment Reconciliation
-  app.post("/api/pay/reconcile", requireAuth, async (req, res) => {
+  app.post("/api/pay/reconcile", requireAuth, paymentIdempotency, async (req, res) => {
     try {
       const { invoiceId } = req.body;
 
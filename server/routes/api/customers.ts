@@ -1,7 +1,11 @@
 import { Router } from 'express';
-import { authenticateApiKey, requireScopes } from '../../middleware/auth';
+import { authenticateApiKey, getWorkspaceId, AuthenticatedRequest } from '../../middleware/auth';
 import { rateLimitMiddleware } from '../../middleware/ratelimit';
 import { auditMiddleware } from '../../middleware/audit';
+import { storage, type CustomerListQuery } from '../../storage';
+import { apiCustomerSchema, apiErrorSchema, type Customer } from '@shared/schema';
+import { listPage, listQuerySchema, presentRecord, recordQuerySchema, type Listing } from './listing';
+import { apiResource, apiData, apiPage } from './openapi';
 
 const router = Router();
 
@@ -10,91 +14,43 @@ router.use(auditMiddleware);
 router.use(authenticateApiKey);
 router.use(rateLimitMiddleware());
 
-// Mock customers data
-function getCustomersFromStorage() {
-  if (typeof localStorage !== 'undefined') {
-    try {
-      return JSON.parse(localStorage.getItem('flowventory:customers') || '[]');
-    } catch {
-      return [];
-    }
-  }
-  return [
-    {
-      id: 'cust-001',
-      name: 'Tech Solutions Inc',
-      email: 'billing@techsolutions.com',
-      phone: '+1-555-0100',
-      address: '456 Business Blvd, Tech City, CA 90210',
-      contactPerson: 'Jane Doe',
-      customerType: 'Business',
-      status: 'Active',
-      regionId: 'US',
-      state: 'CA',
-      taxId: 'US-987654321',
-      paymentTerms: 'Net 30',
-      creditLimit: 50000,
-      currency: 'USD',
-      notes: 'Premium customer with excellent payment history',
-      createdAt: '2024-01-10T09:00:00Z',
-      updatedAt: '2024-09-20T15:45:00Z'
-    }
-  ];
-}
+const api = apiResource(router, {
+  tag: 'Customers',
+  path: '/customers',
+  description: 'Manage customer information',
+});
+
+const customerListing: Listing<Customer, CustomerListQuery> = {
+  fields: Object.keys(apiCustomerSchema.shape),
+  updatedAt: customer => customer.updatedAt,
+  dates: { created: 'createdAt' },
+  filters: {
+    company: 'company',
+    email: 'email',
+  },
+  params: ['q'],
+  expand: {
+    orders: async (records, workspaceId) => {
+      const orders = await storage.getSalesOrders(workspaceId, { customerIds: records.map(customer => customer.id) });
+      return customer => orders.filter(order => order.customerId === customer.id);
+    },
+  },
+};
 
 // GET /api/v1/customers - List customers with filtering
-router.get('/', requireScopes('read:customers'), (req, res) => {
+api.get('/', {
+  operationId: 'listCustomers',
+  summary: 'List customers with filtering',
+  scope: 'read:customers',
+  query: listQuerySchema(customerListing),
+  responses: { 200: { description: 'A page of customers', schema: apiPage(apiCustomerSchema) } },
+}, async (req, res, { query }) => {
   try {
-    let customers = getCustomersFromStorage();
-    
-    // Apply filters
-    const { 
-      status, 
-      customerType, 
-      regionId,
-      q,
-      limit = 50, 
-      offset = 0 
-    } = req.query;
-    
-    if (status) {
-      customers = customers.filter((customer: any) => customer.status === status);
-    }
-    
-    if (customerType) {
-      customers = customers.filter((customer: any) => customer.customerType === customerType);
-    }
-    
-    if (regionId) {
-      customers = customers.filter((customer: any) => customer.regionId === regionId);
-    }
-    
-    if (q) {
-      const searchTerm = (q as string).toLowerCase();
-      customers = customers.filter((customer: any) => 
-        customer.name.toLowerCase().includes(searchTerm) ||
-        customer.email.toLowerCase().includes(searchTerm) ||
-        (customer.contactPerson && customer.contactPerson.toLowerCase().includes(searchTerm))
-      );
-    }
-    
-    // Sort by name
-    customers.sort((a: any, b: any) => a.name.localeCompare(b.name));
-    
-    // Pagination
-    const limitNum = parseInt(limit as string, 10);
-    const offsetNum = parseInt(offset as string, 10);
-    const paginatedCustomers = customers.slice(offsetNum, offsetNum + limitNum);
-    
-    res.json({
-      data: paginatedCustomers,
-      pagination: {
-        total: customers.length,
-        limit: limitNum,
-        offset: offsetNum,
-        hasMore: offsetNum + limitNum < customers.length
-      }
-    });
+    const workspaceId = getWorkspaceId(req);
+
+    res.json(await listPage(customerListing, query, workspaceId, page =>
+      storage.listCustomers(workspaceId, { ...page, search: query.params.q })
+    ));
   } catch (error) {
     console.error('Customers API error:', error);
     res.status(500).json({ error: 'Internal server error' });
@@ -102,20 +58,28 @@ router.get('/', requireScopes('read:customers'), (req, res) => {
 });
 
 // GET /api/v1/customers/:id - Get single customer
-router.get('/:id', requireScopes('read:customers'), (req, res) => {
+api.get('/:id', {
+  operationId: 'getCustomer',
+  summary: 'Get single customer',
+  scope: 'read:customers',
+  query: recordQuerySchema(customerListing),
+  responses: {
+    200: { description: 'The customer', schema: apiData(apiCustomerSchema) },
+    404: { description: 'Customer not found', schema: apiErrorSchema },
+  },
+}, async (req, res, { query }) => {
   try {
-    const customers = getCustomersFromStorage();
-    const customer = customers.find((c: any) => c.id === req.params.id);
-    
-    if (!customer) {
+    const customer = await storage.getCustomer(req.params.id);
+
+    if (!customer || customer.workspaceId !== getWorkspaceId(req)) {
       return res.status(404).json({ error: 'Customer not found' });
     }
-    
-    res.json({ data: customer });
+
+    res.json({ data: await presentRecord(customerListing, customer, query, customer.workspaceId) });
   } catch (error) {
     console.error('Customer get error:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
-export default router;
\ No newline at end of file
+export default router;
@@ -0,0 +1,130 @@
+import { Router } from 'express';
+import { authenticateApiKey, getWorkspaceId } from '../../middleware/auth';
+import { rateLimitMiddleware } from '../../middleware/ratelimit';
+import { auditMiddleware } from '../../middleware/audit';
+import { storage, type ForecastListQuery } from '../../storage';
+import { ForecastService, type ForecastFilters } from '../../forecastService';
+import { forecastScheduler } from '../../forecastScheduler';
+import { forecastsQuerySchema, apiErrorSchema, apiForecastSchema, type ForecastData } from '@shared/schema';
+import { listPage, listQuerySchema, type ListQuery, type Listing } from './listing';
+import { apiResource, apiPage } from './openapi';
+
+const router = Router();
+
+// Apply middleware to all routes
+router.use(auditMiddleware);
+router.use(authenticateApiKey);
+router.use(rateLimitMiddleware());
+
+const api = apiResource(router, {
+  tag: 'Forecasts',
+  path: '/forecasts',
+  description: 'Read server-computed demand forecasts',
+});
+
+// Forecasts are stored one per SKU, location, horizon and method, which identifies them
+type ForecastEntry = ForecastData & { id: string };
+
+function withId(forecast: ForecastData): ForecastEntry {
+  return {
+    id: [forecast.productId, forecast.locationId || 'all', forecast.horizon, forecast.method].join(':'),
+    ...forecast
+  };
+}
+
+const forecastListing: Listing<ForecastEntry, ForecastListQuery> = {
+  fields: Object.keys(apiForecastSchema.shape),
+  updatedAt: forecast => new Date(forecast.ts),
+  filters: {
+    sku: 'productId',
+    location_id: 'locationId',
+    horizon: 'horizon',
+    method: 'method',
+  },
+};
+
+// A single SKU, location, horizon and method lets the service compute a missing or stale forecast
+function serviceFilters(query: ListQuery, sku?: string) {
+  const only = (values?: string[]) => values?.length === 1 ? values[0] : undefined;
+  return forecastsQuerySchema.safeParse({
+    productId: sku || only(query.filters.sku),
+    locationId: only(query.filters.location_id),
+    horizon: only(query.filters.horizon),
+    method: only(query.filters.method),
+  });
+}
+
+// Queue the forecasts the filters find missing or stale, then list a page of the stored ones. As in the
+// service, a single SKU lists its all-locations forecasts unless location_id is given
+async function listForecasts(workspaceId: string, query: ListQuery, filters: ForecastFilters) {
+  for (const job of await ForecastService.getRefreshJobs(workspaceId, filters)) {
+    forecastScheduler.queueRefresh({ workspaceId, ...job });
+  }
+
+  return listPage(forecastListing, query, workspaceId, async page => {
+    const records = await storage.listForecasts(workspaceId, {
+      ...page,
+      filters: {
+        ...page.filters,
+        productId: filters.productId ? [filters.productId] : page.filters?.productId,
+        locationId: page.filters?.locationId || (filters.productId ? ['all'] : undefined),
+      },
+    });
+    return records.map(record => withId(ForecastService.toForecastData(record)));
+  });
+}
+
+// GET /api/v1/forecasts - List persisted forecasts with filtering
+api.get('/', {
+  operationId: 'listForecasts',
+  summary: 'List forecasts with filtering',
+  description: 'Forecasts the filters find missing or stale are queued for recomputation; list again shortly to get them',
+  scope: 'read:forecasts',
+  query: listQuerySchema(forecastListing),
+  responses: { 200: { description: 'A page of forecasts', schema: apiPage(apiForecastSchema) } },
+}, async (req, res, { query }) => {
+  try {
+    const filters = serviceFilters(query);
+    if (!filters.success) {
+      return res.status(400).json({ error: 'Invalid query', details: filters.error.errors });
+    }
+
+    res.json(await listForecasts(getWorkspaceId(req), query, filters.data));
+  } catch (error) {
+    console.error('Forecasts API error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// GET /api/v1/forecasts/:sku - Forecasts for a single SKU (all locations unless location_id is given)
+api.get('/:sku', {
+  operationId: 'getSkuForecasts',
+  summary: 'Get forecasts for a single SKU',
+  scope: 'read:forecasts',
+  query: listQuerySchema(forecastListing),
+  responses: {
+    200: { description: 'A page of forecasts for the SKU', schema: apiPage(apiForecastSchema) },
+    404: { description: 'No forecasts for this SKU', schema: apiErrorSchema },
+  },
+}, async (req, res, { query }) => {
+  try {
+    const filters = serviceFilters(query, req.params.sku);
+    if (!filters.success) {
+      return res.status(400).json({ error: 'Invalid query', details: filters.error.errors });
+    }
+
+    const page = await listForecasts(getWorkspaceId(req), query, filters.data);
+
+    // Past the last page is an empty page, not a missing SKU
+    if (page.data.length === 0 && !query.after) {
+      return res.status(404).json({ error: 'Forecast not found' });
+    }
+
+    res.json(page);
+  } catch (error) {
+    console.error('Forecast get error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
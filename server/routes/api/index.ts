@@ -5,6 +5,8 @@ import ordersRouter from './orders';
 import suppliersRouter from './suppliers';
 import customersRouter from './customers';
 import invoicesRouter from './invoices';
+import forecastsRouter from './forecasts';
+import { buildOpenApiDocument } from './openapi';
 
 const router = Router();
 
@@ -15,6 +17,12 @@ router.use('/v1/orders', ordersRouter);
 router.use('/v1/suppliers', suppliersRouter);
 router.use('/v1/customers', customersRouter);
 router.use('/v1/invoices', invoicesRouter);
+router.use('/v1/forecasts', forecastsRouter);
+
+// OpenAPI document, generated from the route definitions above
+router.get('/v1/openapi.json', (req, res) => {
+  res.json(buildOpenApiDocument());
+});
 
 // API health check
 router.get('/health', (req, res) => {
@@ -32,13 +40,15 @@ router.get('/info', (req, res) => {
     version: '1.0.0',
     description: 'REST API for Flowventory inventory management system',
     documentation: '/settings/developers',
+    openapi: '/api/v1/openapi.json',
     endpoints: {
       products: '/api/v1/products',
       inventory: '/api/v1/inventory',
       orders: '/api/v1/orders',
       suppliers: '/api/v1/suppliers',
       customers: '/api/v1/customers',
-      invoices: '/api/v1/invoices'
+      invoices: '/api/v1/invoices',
+      forecasts: '/api/v1/forecasts'
     },
     authentication: 'Bearer token',
     rateLimit: '60 requests per minute'
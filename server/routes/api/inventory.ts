@@ -1,106 +1,78 @@
 import { Router } from 'express';
-import { authenticateApiKey, requireScopes, AuthenticatedRequest } from '../../middleware/auth';
+import { authenticateApiKey, getWorkspaceId, AuthenticatedRequest } from '../../middleware/auth';
 import { rateLimitMiddleware } from '../../middleware/ratelimit';
 import { auditMiddleware } from '../../middleware/audit';
+import { idempotencyMiddleware } from '../../middleware/idempotency';
+import { storage, type InventoryLevelListQuery } from '../../storage';
+import { triggerWebhookEvent } from '../../services/webhooks';
+import { InventoryService } from '../../inventoryService';
+import { apiAdjustInventorySchema, apiErrorSchema, apiInventoryAdjustmentSchema, apiInventoryLevelSchema, type InventoryLevel, type Product } from '@shared/schema';
+import { listPage, listQuerySchema, type Listing } from './listing';
+import { apiResource, apiData, apiPage } from './openapi';
 
 const router = Router();
+const inventoryService = new InventoryService(storage);
 
 // Apply middleware to all routes
 router.use(auditMiddleware);
 router.use(authenticateApiKey);
 router.use(rateLimitMiddleware());
+router.use(idempotencyMiddleware());
 
-// Mock inventory data
-function getInventoryFromStorage() {
-  if (typeof localStorage !== 'undefined') {
-    try {
-      return JSON.parse(localStorage.getItem('flowventory:inventory') || '[]');
-    } catch {
-      return [];
-    }
-  }
-  return [
-    {
-      id: 'inv-001',
-      productId: 'prod-001',
-      locationId: 'loc-001',
-      sku: 'SKU-001',
-      stock: 5,
-      reserved: 2,
-      available: 3,
-      reorderPoint: 20,
-      maxStock: 100,
-      lastUpdated: '2024-09-25T14:30:00Z'
-    }
-  ];
-}
+const api = apiResource(router, {
+  tag: 'Inventory',
+  path: '/inventory',
+  description: 'Track stock levels and locations',
+});
 
-function saveInventoryToStorage(inventory: any[]) {
-  if (typeof localStorage !== 'undefined') {
-    localStorage.setItem('flowventory:inventory', JSON.stringify(inventory));
-  }
+// Inventory levels are keyed by SKU; enrich them with the catalogue entry when there is one
+function withProduct(level: InventoryLevel, products: Product[]) {
+  const product = products.find(p => p.sku === level.productId);
+  return {
+    ...level,
+    sku: level.productId,
+    productId: product?.id || null,
+    productName: product?.name || 'Unknown Product',
+    category: product?.category || 'Uncategorized',
+    available: level.onHand
+  };
 }
 
-function getProductsFromStorage() {
-  if (typeof localStorage !== 'undefined') {
-    try {
-      return JSON.parse(localStorage.getItem('flowventory:products') || '[]');
-    } catch {
-      return [];
-    }
-  }
-  return [];
-}
+const inventoryListing: Listing<ReturnType<typeof withProduct>, InventoryLevelListQuery> = {
+  fields: Object.keys(apiInventoryLevelSchema.shape),
+  updatedAt: level => level.updatedAt,
+  filters: {
+    sku: 'sku',
+    product_id: 'catalogueId',
+    location_id: 'locationId',
+    category: 'category',
+  },
+  params: ['low_stock'],
+  expand: {
+    product: async (records, workspaceId) => {
+      const products = await storage.getProducts(workspaceId, { skus: records.map(level => level.sku) });
+      return level => products.find(p => p.sku === level.sku) || null;
+    },
+  },
+};
 
 // GET /api/v1/inventory - List inventory with filtering
-router.get('/', requireScopes('read:inventory'), (req, res) => {
+api.get('/', {
+  operationId: 'listInventory',
+  summary: 'List inventory with filtering',
+  scope: 'read:inventory',
+  query: listQuerySchema(inventoryListing),
+  responses: { 200: { description: 'A page of inventory levels', schema: apiPage(apiInventoryLevelSchema) } },
+}, async (req, res, { query }) => {
   try {
-    let inventory = getInventoryFromStorage();
-    const products = getProductsFromStorage();
-    
-    // Apply filters
-    const { productId, locationId, sku, lowStock, limit = 50, offset = 0 } = req.query;
-    
-    if (productId) {
-      inventory = inventory.filter((inv: any) => inv.productId === productId);
-    }
-    
-    if (locationId) {
-      inventory = inventory.filter((inv: any) => inv.locationId === locationId);
-    }
-    
-    if (sku) {
-      inventory = inventory.filter((inv: any) => inv.sku === sku);
-    }
-    
-    if (lowStock === 'true') {
-      inventory = inventory.filter((inv: any) => inv.available <= inv.reorderPoint);
-    }
-    
-    // Enrich with product data
-    const enrichedInventory = inventory.map((inv: any) => {
-      const product = products.find((p: any) => p.id === inv.productId);
-      return {
-        ...inv,
-        productName: product?.name || 'Unknown Product',
-        category: product?.category || 'Uncategorized'
-      };
-    });
-    
-    // Pagination
-    const limitNum = parseInt(limit as string, 10);
-    const offsetNum = parseInt(offset as string, 10);
-    const paginatedInventory = enrichedInventory.slice(offsetNum, offsetNum + limitNum);
-    
-    res.json({
-      data: paginatedInventory,
-      pagination: {
-        total: enrichedInventory.length,
-        limit: limitNum,
-        offset: offsetNum,
-        hasMore: offsetNum + limitNum < enrichedInventory.length
-      }
-    });
+    const workspaceId = getWorkspaceId(req);
+    const lowStock = query.params.low_stock === 'true';
+
+    res.json(await listPage(inventoryListing, query, workspaceId, async page => {
+      const levels = await storage.listInventoryLevels(workspaceId, { ...page, lowStock });
+      const products = await storage.getProducts(workspaceId, { skus: levels.map(level => level.productId) });
+      return levels.map(level => withProduct(level, products));
+    }));
   } catch (error) {
     console.error('Inventory API error:', error);
     res.status(500).json({ error: 'Internal server error' });
@@ -108,93 +80,72 @@ router.get('/', requireScopes('read:inventory'), (req, res) => {
 });
 
 // PATCH /api/v1/inventory/adjust - Adjust inventory levels
-router.patch('/adjust', requireScopes('write:inventory'), (req: AuthenticatedRequest, res) => {
+api.patch('/adjust', {
+  operationId: 'adjustInventory',
+  summary: 'Adjust inventory levels',
+  scope: 'write:inventory',
+  body: apiAdjustInventorySchema,
+  responses: {
+    200: { description: 'The adjusted level and the adjustment applied', schema: apiData(apiInventoryAdjustmentSchema) },
+    404: { description: 'Product not found', schema: apiErrorSchema },
+  },
+}, async (req, res, { body }) => {
   try {
-    const { productId, locationId, delta, reason } = req.body;
-    
-    // Validation
-    if (!productId || !locationId || delta === undefined || !reason) {
-      return res.status(400).json({ 
-        error: 'productId, locationId, delta, and reason are required' 
-      });
-    }
-    
-    if (typeof delta !== 'number') {
-      return res.status(400).json({ error: 'delta must be a number' });
-    }
-    
-    const inventory = getInventoryFromStorage();
-    const products = getProductsFromStorage();
-    
-    // Find or create inventory record
-    let invRecord = inventory.find((inv: any) => 
-      inv.productId === productId && inv.locationId === locationId
-    );
-    
-    const product = products.find((p: any) => p.id === productId);
-    if (!product) {
+    const workspaceId = getWorkspaceId(req);
+    const { productId, sku, locationId, delta, reason } = body;
+
+    // A SKU can be adjusted without a catalogue entry; a product id has to exist
+    const products = await storage.getProducts(workspaceId);
+    const product = productId
+      ? products.find(p => p.id === productId) || products.find(p => p.sku === productId)
+      : products.find(p => p.sku === sku);
+    if (productId && !product) {
       return res.status(404).json({ error: 'Product not found' });
     }
-    
-    if (!invRecord) {
-      // Create new inventory record
-      invRecord = {
-        id: `inv-${Date.now()}`,
-        productId,
-        locationId,
-        sku: product.sku,
-        stock: 0,
-        reserved: 0,
-        available: 0,
-        reorderPoint: product.reorderPoint || 10,
-        maxStock: product.maxStock || 100,
-        lastUpdated: new Date().toISOString()
-      };
-      inventory.push(invRecord);
-    }
-    
-    // Apply adjustment
-    const previousStock = invRecord.stock;
-    invRecord.stock = Math.max(0, invRecord.stock + delta);
-    invRecord.available = Math.max(0, invRecord.stock - (invRecord.reserved || 0));
-    invRecord.lastUpdated = new Date().toISOString();
-    
-    saveInventoryToStorage(inventory);
-    
-    // Create adjustment record
+    const productSku = product?.sku || sku!;
+
+    const { level, move, previousStock } = await inventoryService.adjustOnHand({
+      workspaceId,
+      productId: productSku,
+      locationId,
+      delta,
+      reason,
+      reorderPoint: product?.reorderPoint,
+    });
+    const newStock = level.onHand;
+    const applied = newStock - previousStock;
+
+    const inventory = withProduct(level, products);
     const adjustment = {
-      id: `adj-${Date.now()}`,
-      productId,
+      id: move.id,
+      productId: product?.id || null,
       locationId,
-      sku: product.sku,
+      sku: productSku,
       previousStock,
-      newStock: invRecord.stock,
-      delta,
+      newStock,
+      delta: applied,
       reason,
       adjustedBy: req.apiKey?.keyPrefix || 'api',
-      adjustedAt: new Date().toISOString()
+      adjustedAt: move.createdAt.toISOString()
     };
-    
-    // Trigger webhook events
-    const { triggerWebhookEvent } = require('../../services/webhooks');
-    
+
     // Inventory adjusted event
     triggerWebhookEvent('inventory.adjusted', {
-      inventory: invRecord,
+      inventory,
       adjustment
-    }).catch(console.error);
-    
+    }, workspaceId).catch(console.error);
+
     // Low stock alert if applicable
-    if (invRecord.available <= invRecord.reorderPoint) {
+    if (level.onHand <= level.reorderPoint) {
       triggerWebhookEvent('inventory.low_stock', {
-        inventory: invRecord,
-        product: product
-      }).catch(console.error);
+        inventory,
+        product: product || null
+      }, workspaceId).catch(console.error);
     }
-    
-    res.json({ 
+
+    res.json({
       data: {
-        inventory: invRecord,
+        inventory,
         adjustment
       }
     });
@@ -204,4 +155,4 @@ router.patch('/adjust', requireScopes('write:inventory'), (req: AuthenticatedReq
   }
 });
 
-export default router;
\ No newline at end of file
+export default router;
@@ -1,7 +1,13 @@
 import { Router } from 'express';
-import { authenticateApiKey, requireScopes } from '../../middleware/auth';
+import { authenticateApiKey, getWorkspaceId, AuthenticatedRequest } from '../../middleware/auth';
 import { rateLimitMiddleware } from '../../middleware/ratelimit';
 import { auditMiddleware } from '../../middleware/audit';
+import { idempotencyMiddleware } from '../../middleware/idempotency';
+import { storage, type InvoiceListQuery } from '../../storage';
+import { triggerWebhookEvent } from '../../services/webhooks';
+import { apiUpdateInvoiceStatusSchema, apiErrorSchema, apiInvoiceSchema, type Invoice } from '@shared/schema';
+import { listPage, listQuerySchema, presentRecord, recordQuerySchema, type Listing } from './listing';
+import { apiResource, apiData, apiPage } from './openapi';
 
 const router = Router();
 
@@ -9,122 +15,62 @@ const router = Router();
 router.use(auditMiddleware);
 router.use(authenticateApiKey);
 router.use(rateLimitMiddleware());
+router.use(idempotencyMiddleware());
 
-// Mock invoices data
-function getInvoicesFromStorage() {
-  if (typeof localStorage !== 'undefined') {
-    try {
-      return JSON.parse(localStorage.getItem('flowventory:invoices') || '[]');
-    } catch {
-      return [];
-    }
-  }
-  return [
-    {
-      id: 'inv-001',
-      number: 'INV-2024-001',
-      customerId: 'cust-001',
-      customerName: 'Tech Solutions Inc',
-      issueDate: '2024-09-20T00:00:00Z',
-      dueDate: '2024-10-20T00:00:00Z',
-      paidDate: null,
-      status: 'UNPAID',
-      regionId: 'US',
-      currency: 'USD',
-      locale: 'en-US',
-      lineItems: [
-        {
-          skuId: 'prod-001',
-          name: 'Wireless Bluetooth Headphones',
-          quantity: 2,
-          price: 79.99
-        }
-      ],
-      subtotal: 159.98,
-      tax: 12.80,
-      grandTotal: 172.78,
-      taxBreakdown: [
-        { name: 'Sales Tax', rate: 8, amount: 12.80 }
-      ],
-      notes: 'Payment due within 30 days',
-      createdAt: '2024-09-20T10:00:00Z',
-      updatedAt: '2024-09-20T10:00:00Z'
-    }
-  ];
-}
+const api = apiResource(router, {
+  tag: 'Invoices',
+  path: '/invoices',
+  description: 'Handle billing and payments',
+});
 
-function saveInvoicesToStorage(invoices: any[]) {
-  if (typeof localStorage !== 'undefined') {
-    localStorage.setItem('flowventory:invoices', JSON.stringify(invoices));
-  }
+const invoiceListing: Listing<Invoice, InvoiceListQuery> = {
+  fields: Object.keys(apiInvoiceSchema.shape),
+  updatedAt: invoice => invoice.updatedAt,
+  dates: {
+    created: 'createdAt',
+    issue: 'issueDate',
+    due: 'dueDate',
+    paid: 'paidDate',
+  },
+  filters: {
+    status: 'status',
+    customer_id: 'customerId',
+    order_id: 'orderId',
+    number: 'number',
+    currency: 'currency',
+  },
+  params: ['overdue'],
+  expand: {
+    customer: async (records, workspaceId) => {
+      const customers = await storage.getCustomers(workspaceId, { ids: records.map(invoice => invoice.customerId) });
+      return invoice => customers.find(c => c.id === invoice.customerId) || null;
+    },
+    order: async (records, workspaceId) => {
+      const orderIds = records.flatMap(invoice => invoice.orderId ? [invoice.orderId] : []);
+      const orders = await storage.getSalesOrders(workspaceId, { ids: orderIds });
+      return invoice => orders.find(o => o.id === invoice.orderId) || null;
+    },
+  },
+};
+
+async function getInvoiceForWorkspace(req: AuthenticatedRequest): Promise<Invoice | undefined> {
+  const invoice = await storage.getInvoice(req.params.id);
+  return invoice && invoice.workspaceId === getWorkspaceId(req) ? invoice : undefined;
 }
 
 // GET /api/v1/invoices - List invoices with filtering
-router.get('/', requireScopes('read:invoices'), (req, res) => {
+api.get('/', {
+  operationId: 'listInvoices',
+  summary: 'List invoices with filtering',
+  scope: 'read:invoices',
+  query: listQuerySchema(invoiceListing),
+  responses: { 200: { description: 'A page of invoices', schema: apiPage(apiInvoiceSchema) } },
+}, async (req, res, { query }) => {
   try {
-    let invoices = getInvoicesFromStorage();
-    
-    // Apply filters
-    const { 
-      status, 
-      customerId, 
-      dueBefore,
-      issueDate,
-      currency,
-      overdue,
-      limit = 50, 
-      offset = 0 
-    } = req.query;
-    
-    if (status) {
-      invoices = invoices.filter((invoice: any) => invoice.status === status);
-    }
-    
-    if (customerId) {
-      invoices = invoices.filter((invoice: any) => invoice.customerId === customerId);
-    }
-    
-    if (currency) {
-      invoices = invoices.filter((invoice: any) => invoice.currency === currency);
-    }
-    
-    if (dueBefore) {
-      const beforeDate = new Date(dueBefore as string);
-      invoices = invoices.filter((invoice: any) => new Date(invoice.dueDate) <= beforeDate);
-    }
-    
-    if (issueDate) {
-      const filterDate = new Date(issueDate as string);
-      invoices = invoices.filter((invoice: any) => {
-        const invDate = new Date(invoice.issueDate);
-        return invDate.toDateString() === filterDate.toDateString();
-      });
-    }
-    
-    if (overdue === 'true') {
-      const now = new Date();
-      invoices = invoices.filter((invoice: any) => 
-        invoice.status !== 'PAID' && new Date(invoice.dueDate) < now
-      );
-    }
-    
-    // Sort by issue date (newest first)
-    invoices.sort((a: any, b: any) => new Date(b.issueDate).getTime() - new Date(a.issueDate).getTime());
-    
-    // Pagination
-    const limitNum = parseInt(limit as string, 10);
-    const offsetNum = parseInt(offset as string, 10);
-    const paginatedInvoices = invoices.slice(offsetNum, offsetNum + limitNum);
-    
-    res.json({
-      data: paginatedInvoices,
-      pagination: {
-        total: invoices.length,
-        limit: limitNum,
-        offset: offsetNum,
-        hasMore: offsetNum + limitNum < invoices.length
-      }
-    });
+    const workspaceId = getWorkspaceId(req);
+    const overdue = query.params.overdue === 'true';
+
+    res.json(await listPage(invoiceListing, query, workspaceId, page => storage.listInvoices(workspaceId, { ...page, overdue })));
   } catch (error) {
     console.error('Invoices API error:', error);
     res.status(500).json({ error: 'Internal server error' });
@@ -132,16 +78,24 @@ router.get('/', requireScopes('read:invoices'), (req, res) => {
 });
 
 // GET /api/v1/invoices/:id - Get single invoice
-router.get('/:id', requireScopes('read:invoices'), (req, res) => {
+api.get('/:id', {
+  operationId: 'getInvoice',
+  summary: 'Get single invoice',
+  scope: 'read:invoices',
+  query: recordQuerySchema(invoiceListing),
+  responses: {
+    200: { description: 'The invoice', schema: apiData(apiInvoiceSchema) },
+    404: { description: 'Invoice not found', schema: apiErrorSchema },
+  },
+}, async (req, res, { query }) => {
   try {
-    const invoices = getInvoicesFromStorage();
-    const invoice = invoices.find((inv: any) => inv.id === req.params.id);
-    
+    const invoice = await getInvoiceForWorkspace(req);
+
     if (!invoice) {
       return res.status(404).json({ error: 'Invoice not found' });
     }
-    
-    res.json({ data: invoice });
+
+    res.json({ data: await presentRecord(invoiceListing, invoice, query, invoice.workspaceId) });
   } catch (error) {
     console.error('Invoice get error:', error);
     res.status(500).json({ error: 'Internal server error' });
@@ -149,57 +103,46 @@ router.get('/:id', requireScopes('read:invoices'), (req, res) => {
 });
 
 // PATCH /api/v1/invoices/:id/status - Update invoice status
-router.patch('/:id/status', requireScopes('write:invoices'), (req, res) => {
+api.patch('/:id/status', {
+  operationId: 'updateInvoiceStatus',
+  summary: 'Update invoice status',
+  scope: 'write:invoices',
+  body: apiUpdateInvoiceStatusSchema,
+  responses: {
+    200: { description: 'The updated invoice', schema: apiData(apiInvoiceSchema) },
+    404: { description: 'Invoice not found', schema: apiErrorSchema },
+  },
+}, async (req, res, { body }) => {
   try {
-    const { status, paidDate, paymentMethod, paymentReference } = req.body;
-    
-    const validStatuses = ['UNPAID', 'PARTIAL', 'PAID', 'OVERDUE', 'CANCELLED'];
-    
-    if (!status || !validStatuses.includes(status)) {
-      return res.status(400).json({ 
-        error: `Status must be one of: ${validStatuses.join(', ')}` 
-      });
-    }
-    
-    const invoices = getInvoicesFromStorage();
-    const invoiceIndex = invoices.findIndex((inv: any) => inv.id === req.params.id);
-    
-    if (invoiceIndex === -1) {
+    const existing = await getInvoiceForWorkspace(req);
+    if (!existing) {
       return res.status(404).json({ error: 'Invoice not found' });
     }
-    
-    const invoice = invoices[invoiceIndex];
-    const previousStatus = invoice.status;
-    
-    // Update status and related fields
-    invoice.status = status;
-    invoice.updatedAt = new Date().toISOString();
-    
+
+    const { status, paidDate, paymentMethod, paymentReference } = body;
+    const previousStatus = existing.status;
+    const updates: Partial<Invoice> = { status };
+
     if (status === 'PAID') {
-      invoice.paidDate = paidDate || new Date().toISOString();
-      if (paymentMethod) invoice.paymentMethod = paymentMethod;
-      if (paymentReference) invoice.paymentReference = paymentReference;
-    } else if (status === 'UNPAID' || status === 'PARTIAL') {
+      updates.paidDate = paidDate || new Date();
+      if (paymentMethod) updates.paymentMethod = paymentMethod;
+      if (paymentReference) updates.paymentReference = paymentReference;
+    } else if ((status === 'UNPAID' || status === 'PARTIAL') && previousStatus === 'PAID') {
       // Clear payment fields if moving back to unpaid
-      if (previousStatus === 'PAID') {
-        delete invoice.paidDate;
-        delete invoice.paymentMethod;
-        delete invoice.paymentReference;
-      }
+      updates.paidDate = null;
+      updates.paymentMethod = null;
+      updates.paymentReference = null;
     }
-    
-    saveInvoicesToStorage(invoices);
-    
-    // Trigger webhook events
-    const { triggerWebhookEvent } = require('../../services/webhooks');
-    
+
+    const invoice = (await storage.updateInvoice(existing.id, updates))!;
+
     // General status change event
     triggerWebhookEvent('invoice.status_changed', {
       invoice,
       previousStatus,
       newStatus: status
-    }).catch(console.error);
-    
+    }, invoice.workspaceId).catch(console.error);
+
     // Specific paid event
     if (status === 'PAID' && previousStatus !== 'PAID') {
       triggerWebhookEvent('invoice.paid', {
@@ -207,9 +150,9 @@ router.patch('/:id/status', requireScopes('write:invoices'), (req, res) => {
         paymentDate: invoice.paidDate,
         paymentMethod: invoice.paymentMethod,
         amount: invoice.grandTotal
-      }).catch(console.error);
+      }, invoice.workspaceId).catch(console.error);
     }
-    
+
     res.json({ data: invoice });
   } catch (error) {
     console.error('Invoice status update error:', error);
@@ -217,4 +160,4 @@ router.patch('/:id/status', requireScopes('write:invoices'), (req, res) => {
   }
 });
 
-export default router;
\ No newline at end of file
+export default router;
@@ -0,0 +1,173 @@
+import { z } from 'zod';
+
+// The subset of OpenAPI 3.0 schema objects the v1 API needs
+export interface JsonSchema {
+  type?: 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object';
+  format?: string;
+  enum?: unknown[];
+  nullable?: boolean;
+  description?: string;
+  default?: unknown;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  minItems?: number;
+  items?: JsonSchema;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  anyOf?: JsonSchema[];
+  allOf?: JsonSchema[];
+  $ref?: string;
+}
+
+/**
+ * Requests are described by what the client sends (before transforms and
+ * defaults), responses by what the server produces.
+ */
+export type SchemaMode = 'input' | 'output';
+
+// Schemas published under components/schemas, referenced by name
+export type SchemaRefs = Map<z.ZodTypeAny, string>;
+
+// Whether a property may be left out of an object in this mode
+export function isOptional(schema: z.ZodTypeAny, mode: SchemaMode): boolean {
+  const def = schema._def;
+  switch (def.typeName) {
+    case z.ZodFirstPartyTypeKind.ZodOptional:
+      return true;
+    case z.ZodFirstPartyTypeKind.ZodDefault:
+      return mode === 'input';
+    case z.ZodFirstPartyTypeKind.ZodEffects:
+      return isOptional(def.schema, mode);
+    case z.ZodFirstPartyTypeKind.ZodPipeline:
+      return isOptional(mode === 'input' ? def.in : def.out, mode);
+    default:
+      return false;
+  }
+}
+
+// The object schema behind refinements and transforms, if there is one
+export function unwrapObject(schema: z.ZodTypeAny): z.AnyZodObject | undefined {
+  if (schema instanceof z.ZodObject) return schema;
+  if (schema instanceof z.ZodEffects) return unwrapObject(schema._def.schema);
+  return undefined;
+}
+
+function convert(schema: z.ZodTypeAny, mode: SchemaMode, refs: SchemaRefs): JsonSchema {
+  const def = schema._def;
+
+  switch (def.typeName) {
+    case z.ZodFirstPartyTypeKind.ZodString: {
+      const result: JsonSchema = { type: 'string' };
+      for (const check of (def as z.ZodStringDef).checks) {
+        if (check.kind === 'min') result.minLength = check.value;
+        if (check.kind === 'max') result.maxLength = check.value;
+        if (check.kind === 'email' || check.kind === 'url' || check.kind === 'uuid') {
+          result.format = check.kind === 'url' ? 'uri' : check.kind;
+        }
+        if (check.kind === 'datetime') result.format = 'date-time';
+      }
+      return result;
+    }
+
+    case z.ZodFirstPartyTypeKind.ZodNumber: {
+      const result: JsonSchema = { type: 'number' };
+      for (const check of (def as z.ZodNumberDef).checks) {
+        if (check.kind === 'int') result.type = 'integer';
+        if (check.kind === 'min') result.minimum = check.value;
+        if (check.kind === 'max') result.maximum = check.value;
+      }
+      return result;
+    }
+
+    case z.ZodFirstPartyTypeKind.ZodBigInt:
+      return { type: 'integer' };
+
+    case z.ZodFirstPartyTypeKind.ZodBoolean:
+      return { type: 'boolean' };
+
+    // Dates travel as ISO 8601 strings
+    case z.ZodFirstPartyTypeKind.ZodDate:
+      return { type: 'string', format: 'date-time' };
+
+    case z.ZodFirstPartyTypeKind.ZodLiteral:
+      return { type: typeof def.value as JsonSchema['type'], enum: [def.value] };
+
+    case z.ZodFirstPartyTypeKind.ZodEnum:
+      return { type: 'string', enum: [...def.values] };
+
+    case z.ZodFirstPartyTypeKind.ZodNativeEnum:
+      return { enum: Object.values(def.values) };
+
+    case z.ZodFirstPartyTypeKind.ZodArray: {
+      const result: JsonSchema = { type: 'array', items: toJsonSchema(def.type, mode, refs) };
+      if (def.minLength) result.minItems = def.minLength.value;
+      return result;
+    }
+
+    case z.ZodFirstPartyTypeKind.ZodObject: {
+      const shape = (schema as z.AnyZodObject).shape as Record<string, z.ZodTypeAny>;
+      const properties: Record<string, JsonSchema> = {};
+      const required: string[] = [];
+      for (const [key, value] of Object.entries(shape)) {
+        properties[key] = toJsonSchema(value, mode, refs);
+        if (!isOptional(value, mode)) required.push(key);
+      }
+      const result: JsonSchema = { type: 'object', properties };
+      if (required.length > 0) result.required = required;
+      if (def.unknownKeys === 'strict') result.additionalProperties = false;
+      return result;
+    }
+
+    case z.ZodFirstPartyTypeKind.ZodRecord:
+      return { type: 'object', additionalProperties: toJsonSchema(def.valueType, mode, refs) };
+
+    case z.ZodFirstPartyTypeKind.ZodOptional:
+      return toJsonSchema(def.innerType, mode, refs);
+
+    case z.ZodFirstPartyTypeKind.ZodNullable:
+      return { ...toJsonSchema(def.innerType, mode, refs), nullable: true };
+
+    case z.ZodFirstPartyTypeKind.ZodDefault: {
+      const inner = toJsonSchema(def.innerType, mode, refs);
+      return mode === 'input' ? { ...inner, default: def.defaultValue() } : inner;
+    }
+
+    // Refinements, transforms and preprocessing: describe the schema underneath
+    case z.ZodFirstPartyTypeKind.ZodEffects:
+      return toJsonSchema(def.schema, mode, refs);
+
+    case z.ZodFirstPartyTypeKind.ZodPipeline:
+      return toJsonSchema(mode === 'input' ? def.in : def.out, mode, refs);
+
+    case z.ZodFirstPartyTypeKind.ZodUnion:
+    case z.ZodFirstPartyTypeKind.ZodDiscriminatedUnion: {
+      const options = (def.options as z.ZodTypeAny[]).map(option => toJsonSchema(option, mode, refs));
+      // Free-form JSON columns (a union with recursive members) are left open
+      return options.some(option => Object.keys(option).length === 0) ? {} : { anyOf: options };
+    }
+
+    case z.ZodFirstPartyTypeKind.ZodIntersection:
+      return { allOf: [toJsonSchema(def.left, mode, refs), toJsonSchema(def.right, mode, refs)] };
+
+    // Anything else (any, unknown, lazy) accepts any JSON value
+    default:
+      return {};
+  }
+}
+
+/**
+ * JSON Schema (OpenAPI 3.0 flavour) for a zod schema. Schemas listed in refs
+ * become $refs to components/schemas, except the one being defined.
+ */
+export function toJsonSchema(schema: z.ZodTypeAny, mode: SchemaMode, refs: SchemaRefs = new Map(), defining?: z.ZodTypeAny): JsonSchema {
+  const name = refs.get(schema);
+  if (name && schema !== defining) {
+    return { $ref: `#/components/schemas/${name}` };
+  }
+
+  const result = convert(schema, mode, refs);
+  return schema.description ? { ...result, description: schema.description } : result;
+}
@@ -0,0 +1,226 @@
+import { z } from 'zod';
+import { apiListQuerySchema, apiRecordQuerySchema, type ApiListQuery, type ApiRecordQuery } from '@shared/schema';
+import type { ListPageQuery } from '../../storage';
+
+// The part of a storage list query a list endpoint fills in from its query string
+type PageQuery<Q extends ListPageQuery<string, string>> = Pick<Q, 'filters' | 'ranges' | 'after' | 'order' | 'limit'>;
+
+/**
+ * How a v1 resource is listed: which fields it exposes, what it can be filtered
+ * on and which related records can be embedded with expand=. Filtering and
+ * paging happen in storage, through the list query Q.
+ */
+export interface Listing<T extends { id: string }, Q extends ListPageQuery<string, string>> {
+  // Top-level fields that can be picked with fields= (id is always returned)
+  fields: string[];
+  // When the record last changed, as storage orders the list by it; backs the cursor
+  updatedAt: (record: T) => Date;
+  // Date ranges exposed as <name>_since (inclusive) and <name>_before (exclusive), by the storage range they select
+  dates?: Record<string, Exclude<keyof NonNullable<Q['ranges']> & string, 'updatedAt'>>;
+  // Exact-match filters (case-insensitive), by the storage filter they select; a comma-separated value matches any
+  filters?: Record<string, keyof NonNullable<Q['filters']> & string>;
+  // Free-form parameters the endpoint handles itself (search terms, flags)
+  params?: string[];
+  // Related records for expand=, loaded once per page
+  expand?: Record<string, (records: T[], workspaceId: string) => Promise<(record: T) => unknown>>;
+}
+
+export interface ListQuery extends ApiListQuery {
+  after?: { updatedAt: number; id: string };
+  filters: Record<string, string[]>;
+  ranges: Record<string, { since?: Date; before?: Date }>;
+  params: Record<string, string | undefined>;
+}
+
+export interface ListPage<R> {
+  data: R[];
+  pagination: { limit: number; hasMore: boolean; nextCursor: string | null };
+}
+
+// Cursors are opaque to clients: the sort key of the last record returned
+function encodeCursor(updatedAt: Date, id: string): string {
+  return Buffer.from(`${updatedAt.getTime()}:${id}`).toString('base64url');
+}
+
+function decodeCursor(cursor: string): { updatedAt: number; id: string } | undefined {
+  const decoded = Buffer.from(cursor, 'base64url').toString('utf8');
+  const separator = decoded.indexOf(':');
+  const updatedAt = Number(decoded.slice(0, separator));
+  const id = decoded.slice(separator + 1);
+  return separator > 0 && Number.isFinite(updatedAt) && id ? { updatedAt, id } : undefined;
+}
+
+const filterValueSchema = z.union([z.string(), z.array(z.string())]).optional().transform(value =>
+  (Array.isArray(value) ? value : value ? [value] : [])
+    .flatMap(item => item.split(','))
+    .map(item => item.trim())
+    .filter(Boolean)
+);
+
+function checkNames(names: string[], allowed: string[], param: string, ctx: z.RefinementCtx) {
+  const unknown = names.filter(name => !allowed.includes(name));
+  if (unknown.length > 0) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: [param],
+      message: `Unknown ${param}: ${unknown.join(', ')}. Allowed: ${allowed.join(', ') || 'none'}`,
+    });
+  }
+}
+
+// fields= and expand=, described with what this resource offers
+function recordQueryShape<T extends { id: string }, Q extends ListPageQuery<string, string>>(listing: Listing<T, Q>) {
+  const relations = Object.keys(listing.expand || {});
+  return {
+    fields: apiRecordQuerySchema.shape.fields.describe('Comma-separated top-level fields to return'),
+    expand: apiRecordQuerySchema.shape.expand.describe(
+      relations.length > 0 ? `Comma-separated related records to embed: ${relations.join(', ')}` : 'Nothing can be expanded'
+    ),
+  };
+}
+
+/**
+ * Query schema for a list endpoint. Unknown parameters are rejected so a
+ * misspelt filter can't silently return the whole collection.
+ */
+export function listQuerySchema<T extends { id: string }, Q extends ListPageQuery<string, string>>(listing: Listing<T, Q>) {
+  const dateNames = Object.keys(listing.dates || {});
+  const filterNames = Object.keys(listing.filters || {});
+  const paramNames = listing.params || [];
+
+  const shape: z.ZodRawShape = {};
+  for (const name of ['updated', ...dateNames]) {
+    shape[`${name}_since`] = z.coerce.date().optional();
+    shape[`${name}_before`] = z.coerce.date().optional();
+  }
+  for (const name of filterNames) {
+    shape[name] = filterValueSchema.describe('Exact match; comma-separated values match any');
+  }
+  for (const name of paramNames) {
+    shape[name] = z.string().optional();
+  }
+
+  return apiListQuerySchema.extend(recordQueryShape(listing)).extend(shape).strict().transform((query, ctx): ListQuery => {
+    const { fields, expand, limit, cursor, order } = query as ApiListQuery;
+    const values = query as Record<string, unknown>;
+
+    checkNames(fields, listing.fields, 'fields', ctx);
+    checkNames(expand, Object.keys(listing.expand || {}), 'expand', ctx);
+
+    const after = cursor ? decodeCursor(cursor) : undefined;
+    if (cursor && !after) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['cursor'], message: 'Invalid cursor' });
+    }
+
+    const ranges: ListQuery['ranges'] = {};
+    for (const name of ['updated', ...dateNames]) {
+      const since = values[`${name}_since`] as Date | undefined;
+      const before = values[`${name}_before`] as Date | undefined;
+      if (since || before) ranges[name] = { since, before };
+    }
+
+    const filters: ListQuery['filters'] = {};
+    for (const name of filterNames) {
+      const selected = values[name] as string[];
+      if (selected.length > 0) filters[name] = selected;
+    }
+
+    const params: ListQuery['params'] = {};
+    for (const name of paramNames) {
+      params[name] = values[name] as string | undefined;
+    }
+
+    return { fields, expand, limit, cursor, order, after, filters, ranges, params };
+  });
+}
+
+// Query schema for a single-record endpoint: only fields= and expand=
+export function recordQuerySchema<T extends { id: string }, Q extends ListPageQuery<string, string>>(listing: Listing<T, Q>) {
+  return apiRecordQuerySchema.extend(recordQueryShape(listing)).strict().superRefine((query, ctx) => {
+    checkNames(query.fields, listing.fields, 'fields', ctx);
+    checkNames(query.expand, Object.keys(listing.expand || {}), 'expand', ctx);
+  });
+}
+
+// The storage list query for one page, asking for one record more than the limit to tell whether there are more
+function pageQuery<T extends { id: string }, Q extends ListPageQuery<string, string>>(listing: Listing<T, Q>, query: ListQuery): PageQuery<Q> {
+  const filters: Record<string, string[]> = {};
+  for (const [name, values] of Object.entries(query.filters)) {
+    filters[listing.filters![name]] = values;
+  }
+
+  const ranges: Record<string, { since?: Date; before?: Date }> = {};
+  for (const [name, range] of Object.entries(query.ranges)) {
+    ranges[name === 'updated' ? 'updatedAt' : listing.dates![name]] = range;
+  }
+
+  return {
+    filters,
+    ranges,
+    after: query.after && { updatedAt: new Date(query.after.updatedAt), id: query.after.id },
+    order: query.order,
+    limit: query.limit + 1,
+  } as PageQuery<Q>;
+}
+
+// Embed expanded relations, then reduce the record to the requested fields
+async function present<T extends { id: string }, Q extends ListPageQuery<string, string>>(
+  listing: Listing<T, Q>,
+  records: T[],
+  query: ApiRecordQuery,
+  workspaceId: string
+): Promise<Record<string, unknown>[]> {
+  const loaded = await Promise.all(query.expand.map(async name => ({
+    name,
+    lookup: await listing.expand![name](records, workspaceId),
+  })));
+
+  return records.map(record => {
+    const source = record as unknown as Record<string, unknown>;
+    const output: Record<string, unknown> = query.fields.length > 0
+      ? Object.fromEntries(['id', ...query.fields].map(field => [field, source[field]]))
+      : { ...source };
+    for (const { name, lookup } of loaded) {
+      output[name] = lookup(record);
+    }
+    return output;
+  });
+}
+
+/**
+ * One page of a list endpoint, loaded from storage with the filters, ranges
+ * and cursor applied. Records are ordered by (updatedAt, id) so the cursor
+ * stays stable while records are added; syncing with order=asc and
+ * updated_since picks up records that change mid-sync on a later page.
+ */
+export async function listPage<T extends { id: string }, Q extends ListPageQuery<string, string>>(
+  listing: Listing<T, Q>,
+  query: ListQuery,
+  workspaceId: string,
+  load: (page: PageQuery<Q>) => Promise<T[]>
+): Promise<ListPage<Record<string, unknown>>> {
+  const records = await load(pageQuery(listing, query));
+  const page = records.slice(0, query.limit);
+  const hasMore = records.length > query.limit;
+  const last = page[page.length - 1];
+
+  return {
+    data: await present(listing, page, query, workspaceId),
+    pagination: {
+      limit: query.limit,
+      hasMore,
+      nextCursor: hasMore && last ? encodeCursor(listing.updatedAt(last), last.id) : null,
+    },
+  };
+}
+
+// A single record with fields= and expand= applied
+export async function presentRecord<T extends { id: string }, Q extends ListPageQuery<string, string>>(
+  listing: Listing<T, Q>,
+  record: T,
+  query: ApiRecordQuery,
+  workspaceId: string
+): Promise<Record<string, unknown>> {
+  const [presented] = await present(listing, [record], query, workspaceId);
+  return presented;
+}
@@ -0,0 +1,240 @@
+import { Router, Response } from 'express';
+import { z } from 'zod';
+import { requireScopes, AuthenticatedRequest } from '../../middleware/auth';
+import {
+  apiErrorSchema,
+  apiPaginationSchema,
+  apiProductSchema,
+  apiInventoryLevelSchema,
+  apiInventoryAdjustmentSchema,
+  apiOrderSchema,
+  apiInvoiceSchema,
+  apiCustomerSchema,
+  apiSupplierSchema,
+  apiForecastSchema,
+} from '@shared/schema';
+import { toJsonSchema, unwrapObject, isOptional, type JsonSchema, type SchemaRefs } from './jsonSchema';
+
+type HttpMethod = 'get' | 'post' | 'put' | 'patch' | 'delete';
+
+/**
+ * One v1 endpoint. The same definition registers the Express route, checks
+ * the scope, validates the request and describes it in the OpenAPI document.
+ */
+export interface ApiOperation<TQuery extends z.ZodTypeAny = z.ZodTypeAny, TBody extends z.ZodTypeAny = z.ZodTypeAny> {
+  operationId: string;
+  summary: string;
+  description?: string;
+  scope: string;
+  query?: TQuery;
+  body?: TBody;
+  responses: Record<number, { description: string; schema?: z.ZodTypeAny }>;
+}
+
+export type ApiHandler<TQuery extends z.ZodTypeAny, TBody extends z.ZodTypeAny> = (
+  req: AuthenticatedRequest,
+  res: Response,
+  input: { query: z.output<TQuery>; body: z.output<TBody> }
+) => Promise<unknown>;
+
+interface RegisteredOperation extends ApiOperation {
+  method: HttpMethod;
+  path: string; // OpenAPI path relative to /api/v1, e.g. /products/{id}
+  tag: string;
+  pathParams: string[];
+}
+
+const operations: RegisteredOperation[] = [];
+const tags: { name: string; description: string }[] = [];
+
+// Published under components/schemas and referenced by name
+const components: SchemaRefs = new Map<z.ZodTypeAny, string>([
+  [apiErrorSchema, 'Error'],
+  [apiPaginationSchema, 'Pagination'],
+  [apiProductSchema, 'Product'],
+  [apiInventoryLevelSchema, 'InventoryLevel'],
+  [apiInventoryAdjustmentSchema, 'InventoryAdjustment'],
+  [apiOrderSchema, 'Order'],
+  [apiInvoiceSchema, 'Invoice'],
+  [apiCustomerSchema, 'Customer'],
+  [apiSupplierSchema, 'Supplier'],
+  [apiForecastSchema, 'Forecast'],
+]);
+
+// Response envelopes
+export function apiData<T extends z.ZodTypeAny>(schema: T) {
+  return z.object({ data: schema });
+}
+
+export function apiPage<T extends z.ZodTypeAny>(schema: T) {
+  return z.object({ data: z.array(schema), pagination: apiPaginationSchema });
+}
+
+// Express paths (/:id/status) in OpenAPI form (/{id}/status)
+function toOpenApiPath(path: string): string {
+  return path.replace(/:(\w+)/g, '{$1}');
+}
+
+// In development, log responses that drift from the documented schema
+function checkResponses(operation: RegisteredOperation, req: AuthenticatedRequest, res: Response) {
+  const originalJson = res.json;
+  res.json = function(body: any) {
+    const expected = operation.responses[res.statusCode]?.schema;
+    // Sparse fieldsets deliberately leave fields out
+    if (expected && !req.query.fields) {
+      const result = expected.safeParse(body);
+      if (!result.success) {
+        console.warn(`Response from ${operation.operationId} doesn't match the API spec:`, result.error.errors);
+      }
+    }
+    return originalJson.call(this, body);
+  };
+}
+
+/**
+ * Registers a resource's endpoints on its router (mounted at /api/v1<path>)
+ * and in the OpenAPI document.
+ */
+export function apiResource(router: Router, resource: { tag: string; path: string; description: string }) {
+  tags.push({ name: resource.tag, description: resource.description });
+
+  const route = (method: HttpMethod) =>
+    <TQuery extends z.ZodTypeAny = z.ZodUndefined, TBody extends z.ZodTypeAny = z.ZodUndefined>(
+      path: string,
+      operation: ApiOperation<TQuery, TBody>,
+      handler: ApiHandler<TQuery, TBody>
+    ) => {
+      const registered: RegisteredOperation = {
+        ...operation,
+        method,
+        path: toOpenApiPath(resource.path + (path === '/' ? '' : path)),
+        tag: resource.tag,
+        pathParams: Array.from(path.matchAll(/:(\w+)/g), match => match[1]),
+      };
+      operations.push(registered);
+
+      router[method](path, requireScopes(operation.scope), async (req: AuthenticatedRequest, res: Response) => {
+        const query = operation.query?.safeParse(req.query);
+        if (query && !query.success) {
+          return res.status(400).json({ error: 'Invalid query', details: query.error.errors });
+        }
+
+        const body = operation.body?.safeParse(req.body);
+        if (body && !body.success) {
+          return res.status(400).json({ error: 'Invalid request body', details: body.error.errors });
+        }
+
+        if (process.env.NODE_ENV !== 'production') {
+          checkResponses(registered, req, res);
+        }
+
+        await handler(req, res, { query: query?.data, body: body?.data });
+      });
+    };
+
+  return {
+    get: route('get'),
+    post: route('post'),
+    put: route('put'),
+    patch: route('patch'),
+    delete: route('delete'),
+  };
+}
+
+const errorResponse = (description: string) => ({
+  description,
+  content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } },
+});
+
+function describeOperation(operation: RegisteredOperation) {
+  const parameters: Record<string, unknown>[] = operation.pathParams.map(name => ({
+    name,
+    in: 'path',
+    required: true,
+    schema: { type: 'string' },
+  }));
+
+  const query = operation.query && unwrapObject(operation.query);
+  if (query) {
+    for (const [name, schema] of Object.entries(query.shape as Record<string, z.ZodTypeAny>)) {
+      const { description, ...parameterSchema } = toJsonSchema(schema, 'input', components);
+      parameters.push({
+        name,
+        in: 'query',
+        required: !isOptional(schema, 'input'),
+        ...(description ? { description } : {}),
+        schema: parameterSchema,
+      });
+    }
+  }
+
+  if (operation.method !== 'get') {
+    parameters.push({
+      name: 'Idempotency-Key',
+      in: 'header',
+      required: false,
+      description: 'Retries with the same key within 24 hours return the original response',
+      schema: { type: 'string', maxLength: 255 },
+    });
+  }
+
+  const responses: Record<string, unknown> = {};
+  for (const [status, response] of Object.entries(operation.responses)) {
+    responses[status] = response.schema
+      ? { description: response.description, content: { 'application/json': { schema: toJsonSchema(response.schema, 'output', components) } } }
+      : { description: response.description };
+  }
+  responses['400'] ??= errorResponse('Invalid request');
+  responses['401'] = errorResponse('Missing or invalid API key');
+  responses['403'] = errorResponse(`API key lacks the ${operation.scope} scope`);
+  responses['429'] = errorResponse('Rate limit exceeded');
+
+  return {
+    operationId: operation.operationId,
+    summary: operation.summary,
+    ...(operation.description ? { description: operation.description } : {}),
+    tags: [operation.tag],
+    'x-scope': operation.scope,
+    parameters,
+    ...(operation.body ? {
+      requestBody: {
+        required: true,
+        content: { 'application/json': { schema: toJsonSchema(operation.body, 'input', components) } },
+      },
+    } : {}),
+    responses,
+  };
+}
+
+// The OpenAPI 3 document for every registered v1 endpoint
+export function buildOpenApiDocument() {
+  const paths: Record<string, Record<string, unknown>> = {};
+  for (const operation of operations) {
+    paths[operation.path] ??= {};
+    paths[operation.path][operation.method] = describeOperation(operation);
+  }
+
+  const schemas: Record<string, JsonSchema> = {};
+  components.forEach((name, schema) => {
+    schemas[name] = toJsonSchema(schema, 'output', components, schema);
+  });
+
+  return {
+    openapi: '3.0.3',
+    info: {
+      title: 'Flowventory API',
+      version: '1.0.0',
+      description: 'REST API for Flowventory inventory management system',
+    },
+    servers: [{ url: '/api/v1' }],
+    security: [{ bearerAuth: [] }],
+    tags,
+    paths,
+    components: {
+      securitySchemes: {
+        bearerAuth: { type: 'http', scheme: 'bearer', description: 'API key created under Settings → Developers' },
+      },
+      schemas,
+    },
+  };
+}
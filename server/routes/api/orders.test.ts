@@ -0,0 +1,65 @@
+import { randomUUID } from "crypto";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import express from "express";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { storage } from "../../storage";
+import { generateApiKey } from "../../middleware/auth";
+import ordersRouter from "./orders";
+
+const workspaceId = randomUUID();
+const { fullKey, keyPrefix, hashedKey } = generateApiKey();
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  await storage.createApiKey({ keyPrefix, hashedKey, name: "Orders test", scopes: ["write:orders"], workspaceId });
+
+  const app = express();
+  app.use(express.json());
+  app.use("/api/v1/orders", ordersRouter);
+  server = app.listen(0);
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/v1/orders`;
+});
+
+afterAll(() => {
+  server.close();
+});
+
+describe("POST /api/v1/orders", () => {
+  it("taxes each line at its product's tax category", async () => {
+    const customer = await storage.createCustomer({ workspaceId, name: "British Electronics Ltd" });
+    const headphones = await storage.createProduct({ workspaceId, sku: "UK-HP-1", name: "Headphones", price: 120 });
+    await storage.createProduct({ workspaceId, sku: "UK-BREAD-1", name: "Bread", price: 5, taxCategory: "zero" });
+
+    const res = await fetch(baseUrl, {
+      method: "POST",
+      headers: { "Authorization": `Bearer ${fullKey}`, "Content-Type": "application/json" },
+      body: JSON.stringify({
+        customerId: customer.id,
+        currency: "GBP",
+        items: [
+          { productId: headphones.id, quantity: 1, unitPrice: 120 },
+          { sku: "UK-BREAD-1", quantity: 2, unitPrice: 5 },
+        ],
+      }),
+    });
+
+    expect(res.status).toBe(201);
+    const { data: order } = await res.json();
+    // Prices are net of tax: VAT at 20% on the headphones only, as the bread is zero-rated
+    expect(order).toMatchObject({ subtotal: 13000, tax: 2400 });
+  });
+});
+
+describe("API key workspace", () => {
+  it("turns away a key that isn't linked to a workspace", async () => {
+    const unscoped = generateApiKey();
+    await storage.createApiKey({ keyPrefix: unscoped.keyPrefix, hashedKey: unscoped.hashedKey, name: "Unscoped", scopes: ["read:orders"] });
+
+    const res = await fetch(baseUrl, { headers: { "Authorization": `Bearer ${unscoped.fullKey}` } });
+
+    expect(res.status).toBe(403);
+    expect(await res.json()).toEqual({ error: "API key is not linked to a workspace" });
+  });
+});
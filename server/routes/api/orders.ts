@@ -1,7 +1,15 @@
 import { Router } from 'express';
-import { authenticateApiKey, requireScopes } from '../../middleware/auth';
+import { randomUUID } from 'crypto';
+import { authenticateApiKey, getWorkspaceId, AuthenticatedRequest } from '../../middleware/auth';
 import { rateLimitMiddleware } from '../../middleware/ratelimit';
 import { auditMiddleware } from '../../middleware/audit';
+import { idempotencyMiddleware } from '../../middleware/idempotency';
+import { storage, type SalesOrderListQuery } from '../../storage';
+import { triggerWebhookEvent } from '../../services/webhooks';
+import { TaxService, TaxError } from '../../taxService';
+import { apiCreateOrderSchema, apiUpdateOrderStatusSchema, apiErrorSchema, apiOrderSchema, type Product, type SalesOrder } from '@shared/schema';
+import { listPage, listQuerySchema, presentRecord, recordQuerySchema, type Listing } from './listing';
+import { apiResource, apiData, apiPage } from './openapi';
 
 const router = Router();
 
@@ -9,140 +17,62 @@ const router = Router();
 router.use(auditMiddleware);
 router.use(authenticateApiKey);
 router.use(rateLimitMiddleware());
+router.use(idempotencyMiddleware());
 
-// Mock orders data
-function getOrdersFromStorage() {
-  if (typeof localStorage !== 'undefined') {
-    try {
-      return JSON.parse(localStorage.getItem('flowventory:orders') || '[]');
-    } catch {
-      return [];
-    }
-  }
-  return [
-    {
-      id: 'order-001',
-      orderNumber: 'ORD-2024-001',
-      customerId: 'cust-001',
-      customerName: 'Tech Solutions Inc',
-      status: 'processing',
-      orderDate: '2024-09-20T10:00:00Z',
-      requiredDate: '2024-09-25T10:00:00Z',
-      shippedDate: null,
-      deliveredDate: null,
-      items: [
-        {
-          productId: 'prod-001',
-          sku: 'SKU-001',
-          name: 'Wireless Bluetooth Headphones',
-          quantity: 2,
-          unitPrice: 79.99,
-          totalPrice: 159.98
-        }
-      ],
-      subtotal: 159.98,
-      tax: 32.00,
-      shipping: 9.99,
-      total: 201.97,
-      currency: 'USD',
-      shippingAddress: {
-        street: '123 Business Ave',
-        city: 'Tech City',
-        state: 'CA',
-        zip: '90210',
-        country: 'US'
-      },
-      createdAt: '2024-09-20T10:00:00Z',
-      updatedAt: '2024-09-20T10:00:00Z'
-    }
-  ];
-}
+const api = apiResource(router, {
+  tag: 'Orders',
+  path: '/orders',
+  description: 'Manage customer orders and fulfillment',
+});
 
-function saveOrdersToStorage(orders: any[]) {
-  if (typeof localStorage !== 'undefined') {
-    localStorage.setItem('flowventory:orders', JSON.stringify(orders));
-  }
-}
+const taxService = new TaxService(storage);
 
-function getCustomersFromStorage() {
-  if (typeof localStorage !== 'undefined') {
-    try {
-      return JSON.parse(localStorage.getItem('flowventory:customers') || '[]');
-    } catch {
-      return [];
-    }
-  }
-  return [];
-}
+// Simplified shipping for API orders, in cents
+const FREE_SHIPPING_OVER = 10000;
+const FLAT_SHIPPING = 999;
 
-function getProductsFromStorage() {
-  if (typeof localStorage !== 'undefined') {
-    try {
-      return JSON.parse(localStorage.getItem('flowventory:products') || '[]');
-    } catch {
-      return [];
-    }
-  }
-  return [];
+const orderListing: Listing<SalesOrder, SalesOrderListQuery> = {
+  fields: Object.keys(apiOrderSchema.shape),
+  updatedAt: order => order.updatedAt,
+  dates: { created: 'createdAt' },
+  filters: {
+    status: 'status',
+    customer_id: 'customerId',
+    order_number: 'orderNumber',
+    currency: 'currency',
+    location_id: 'locationId',
+    sku: 'sku',
+  },
+  expand: {
+    customer: async (records, workspaceId) => {
+      const customers = await storage.getCustomers(workspaceId, { ids: records.map(order => order.customerId) });
+      return order => customers.find(c => c.id === order.customerId) || null;
+    },
+    invoices: async (records, workspaceId) => {
+      const invoices = await storage.getInvoices(workspaceId, { orderIds: records.map(order => order.id) });
+      return order => invoices.filter(invoice => invoice.orderId === order.id);
+    },
+  },
+};
+
+// Orders from another workspace are reported as missing
+async function getOrderForWorkspace(req: AuthenticatedRequest): Promise<SalesOrder | undefined> {
+  const order = await storage.getSalesOrder(req.params.id);
+  return order && order.workspaceId === getWorkspaceId(req) ? order : undefined;
 }
 
 // GET /api/v1/orders - List orders with filtering
-router.get('/', requireScopes('read:orders'), (req, res) => {
+api.get('/', {
+  operationId: 'listOrders',
+  summary: 'List orders with filtering',
+  scope: 'read:orders',
+  query: listQuerySchema(orderListing),
+  responses: { 200: { description: 'A page of orders', schema: apiPage(apiOrderSchema) } },
+}, async (req, res, { query }) => {
   try {
-    let orders = getOrdersFromStorage();
-    
-    // Apply filters
-    const { 
-      status, 
-      customerId, 
-      dateFrom, 
-      dateTo, 
-      orderNumber,
-      limit = 50, 
-      offset = 0 
-    } = req.query;
-    
-    if (status) {
-      orders = orders.filter((order: any) => order.status === status);
-    }
-    
-    if (customerId) {
-      orders = orders.filter((order: any) => order.customerId === customerId);
-    }
-    
-    if (orderNumber) {
-      orders = orders.filter((order: any) => 
-        order.orderNumber.toLowerCase().includes((orderNumber as string).toLowerCase())
-      );
-    }
-    
-    if (dateFrom) {
-      const fromDate = new Date(dateFrom as string);
-      orders = orders.filter((order: any) => new Date(order.orderDate) >= fromDate);
-    }
-    
-    if (dateTo) {
-      const toDate = new Date(dateTo as string);
-      orders = orders.filter((order: any) => new Date(order.orderDate) <= toDate);
-    }
-    
-    // Sort by order date (newest first)
-    orders.sort((a: any, b: any) => new Date(b.orderDate).getTime() - new Date(a.orderDate).getTime());
-    
-    // Pagination
-    const limitNum = parseInt(limit as string, 10);
-    const offsetNum = parseInt(offset as string, 10);
-    const paginatedOrders = orders.slice(offsetNum, offsetNum + limitNum);
-    
-    res.json({
-      data: paginatedOrders,
-      pagination: {
-        total: orders.length,
-        limit: limitNum,
-        offset: offsetNum,
-        hasMore: offsetNum + limitNum < orders.length
-      }
-    });
+    const workspaceId = getWorkspaceId(req);
+
+    res.json(await listPage(orderListing, query, workspaceId, page => storage.listSalesOrders(workspaceId, page)));
   } catch (error) {
     console.error('Orders API error:', error);
     res.status(500).json({ error: 'Internal server error' });
@@ -150,16 +80,24 @@ router.get('/', requireScopes('read:orders'), (req, res) => {
 });
 
 // GET /api/v1/orders/:id - Get single order
-router.get('/:id', requireScopes('read:orders'), (req, res) => {
+api.get('/:id', {
+  operationId: 'getOrder',
+  summary: 'Get single order',
+  scope: 'read:orders',
+  query: recordQuerySchema(orderListing),
+  responses: {
+    200: { description: 'The order', schema: apiData(apiOrderSchema) },
+    404: { description: 'Order not found', schema: apiErrorSchema },
+  },
+}, async (req, res, { query }) => {
   try {
-    const orders = getOrdersFromStorage();
-    const order = orders.find((o: any) => o.id === req.params.id);
-    
+    const order = await getOrderForWorkspace(req);
+
     if (!order) {
       return res.status(404).json({ error: 'Order not found' });
     }
-    
-    res.json({ data: order });
+
+    res.json({ data: await presentRecord(orderListing, order, query, order.workspaceId) });
   } catch (error) {
     console.error('Order get error:', error);
     res.status(500).json({ error: 'Internal server error' });
@@ -167,159 +105,125 @@ router.get('/:id', requireScopes('read:orders'), (req, res) => {
 });
 
 // POST /api/v1/orders - Create order
-router.post('/', requireScopes('write:orders'), (req, res) => {
+api.post('/', {
+  operationId: 'createOrder',
+  summary: 'Create new order',
+  description: 'Each line is taxed at its product\'s tax category in the tax region. Prices are net of tax unless the workspace has set that region to tax-inclusive pricing in its finance settings; the tax they include is then backed out of the subtotal',
+  scope: 'write:orders',
+  body: apiCreateOrderSchema,
+  responses: {
+    201: { description: 'The created order, priced in cents', schema: apiData(apiOrderSchema) },
+    404: { description: 'Customer or product not found', schema: apiErrorSchema },
+  },
+}, async (req, res, { body }) => {
   try {
-    const { 
-      customerId, 
-      items, 
-      shippingAddress, 
-      requiredDate,
-      notes 
-    } = req.body;
-    
-    // Validation
-    if (!customerId || !items || !Array.isArray(items) || items.length === 0) {
-      return res.status(400).json({ 
-        error: 'customerId and items array are required' 
-      });
-    }
-    
-    const customers = getCustomersFromStorage();
-    const products = getProductsFromStorage();
-    const orders = getOrdersFromStorage();
-    
+    const workspaceId = getWorkspaceId(req);
+    const { customerId, items, currency = 'USD', taxRegionId, customerState, locationId, shippingAddress, notes } = body;
+
     // Validate customer exists
-    const customer = customers.find((c: any) => c.id === customerId);
-    if (!customer) {
+    const customer = await storage.getCustomer(customerId);
+    if (!customer || customer.workspaceId !== workspaceId) {
       return res.status(404).json({ error: 'Customer not found' });
     }
-    
-    // Validate and enrich items
-    const enrichedItems = [];
-    let subtotal = 0;
-    
+
+    // Items name a product by id or SKU
+    const products = await storage.getProducts(workspaceId);
+    const findProduct = (ref: string): Product | undefined =>
+      products.find(p => p.id === ref) || products.find(p => p.sku === ref);
+
+    const orderItems: SalesOrder['items'] = [];
+    const taxLines: { productId: string; quantity: number; unitPrice: number }[] = [];
+    const productTaxCategories: Record<string, Product["taxCategory"]> = {};
     for (const item of items) {
-      if (!item.productId || !item.quantity || item.quantity <= 0) {
-        return res.status(400).json({ 
-          error: 'Each item must have productId and positive quantity' 
-        });
-      }
-      
-      const product = products.find((p: any) => p.id === item.productId);
+      const ref = (item.productId || item.sku)!;
+      const product = findProduct(ref);
       if (!product) {
-        return res.status(404).json({ 
-          error: `Product not found: ${item.productId}` 
-        });
+        return res.status(404).json({ error: `Product not found: ${ref}` });
       }
-      
-      const unitPrice = item.unitPrice || product.price || 0;
-      const totalPrice = unitPrice * item.quantity;
-      
-      enrichedItems.push({
-        productId: product.id,
+
+      const unitPrice = Math.round((item.unitPrice ?? product.price) * 100);
+      orderItems.push({
         sku: product.sku,
-        name: product.name,
+        productName: product.name,
         quantity: item.quantity,
         unitPrice,
-        totalPrice
+        subtotal: unitPrice * item.quantity
       });
-      
-      subtotal += totalPrice;
+      taxLines.push({ productId: product.id, quantity: item.quantity, unitPrice });
+      productTaxCategories[product.id] = product.taxCategory;
     }
-    
-    // Calculate totals (simplified tax calculation)
-    const taxRate = 0.08; // 8% default tax rate
-    const tax = Math.round(subtotal * taxRate * 100) / 100;
-    const shipping = subtotal > 100 ? 0 : 9.99; // Free shipping over $100
-    const total = Math.round((subtotal + tax + shipping) * 100) / 100;
-    
-    // Generate order number
-    const orderNumber = `ORD-${new Date().getFullYear()}-${String(orders.length + 1).padStart(3, '0')}`;
-    
-    const newOrder = {
-      id: `order-${Date.now()}`,
-      orderNumber,
+
+    const itemsTotal = orderItems.reduce((sum, item) => sum + item.subtotal, 0);
+    const { tax, taxIncluded } = await taxService.taxOrderLines(workspaceId, {
+      regionId: taxRegionId,
+      currency,
+      customerState,
+      lines: taxLines,
+      productTaxCategories,
+    });
+    // The subtotal is always net of tax, so regions quoting tax-inclusive prices have it backed out
+    const subtotal = itemsTotal - taxIncluded;
+    const shipping = itemsTotal > FREE_SHIPPING_OVER ? 0 : FLAT_SHIPPING;
+
+    const order = await storage.createSalesOrder({
+      orderNumber: `ORD-${new Date().getFullYear()}-${randomUUID().slice(0, 8).toUpperCase()}`,
       customerId,
       customerName: customer.name,
-      status: 'pending',
-      orderDate: new Date().toISOString(),
-      requiredDate: requiredDate || new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(), // 7 days from now
-      shippedDate: null,
-      deliveredDate: null,
-      items: enrichedItems,
+      customerEmail: customer.email || undefined,
+      workspaceId,
+      locationId,
+      currency,
+      status: 'PENDING',
+      items: orderItems,
       subtotal,
       tax,
       shipping,
-      total,
-      currency: 'USD',
-      shippingAddress: shippingAddress || customer.address,
-      notes: notes || '',
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString()
-    };
-    
-    orders.push(newOrder);
-    saveOrdersToStorage(orders);
-    
-    // Trigger webhook event
-    const { triggerWebhookEvent } = require('../../services/webhooks');
-    triggerWebhookEvent('order.created', newOrder).catch(console.error);
-    
-    res.status(201).json({ data: newOrder });
+      total: subtotal + tax + shipping,
+      shippingAddress: shippingAddress || customer.address || undefined,
+      notes
+    });
+
+    triggerWebhookEvent('order.created', order, workspaceId).catch(console.error);
+
+    res.status(201).json({ data: order });
   } catch (error) {
+    if (error instanceof TaxError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
     console.error('Order creation error:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
 // PATCH /api/v1/orders/:id/status - Update order status
-router.patch('/:id/status', requireScopes('write:orders'), (req, res) => {
+api.patch('/:id/status', {
+  operationId: 'updateOrderStatus',
+  summary: 'Update order status',
+  scope: 'write:orders',
+  body: apiUpdateOrderStatusSchema,
+  responses: {
+    200: { description: 'The updated order', schema: apiData(apiOrderSchema) },
+    404: { description: 'Order not found', schema: apiErrorSchema },
+  },
+}, async (req, res, { body }) => {
   try {
-    const { status } = req.body;
-    
-    const validStatuses = ['pending', 'confirmed', 'processing', 'shipped', 'delivered', 'cancelled'];
-    
-    if (!status || !validStatuses.includes(status)) {
-      return res.status(400).json({ 
-        error: `Status must be one of: ${validStatuses.join(', ')}` 
-      });
-    }
-    
-    const orders = getOrdersFromStorage();
-    const orderIndex = orders.findIndex((o: any) => o.id === req.params.id);
-    
-    if (orderIndex === -1) {
+    const existing = await getOrderForWorkspace(req);
+    if (!existing) {
       return res.status(404).json({ error: 'Order not found' });
     }
-    
-    const order = orders[orderIndex];
-    const previousStatus = order.status;
-    
-    // Update status and related fields
-    order.status = status;
-    order.updatedAt = new Date().toISOString();
-    
-    if (status === 'shipped' && !order.shippedDate) {
-      order.shippedDate = new Date().toISOString();
-    }
-    
-    if (status === 'delivered') {
-      order.deliveredDate = new Date().toISOString();
-      if (!order.shippedDate) {
-        order.shippedDate = new Date().toISOString();
-      }
+
+    const { status } = body;
+    const previousStatus = existing.status;
+    const order = (await storage.updateSalesOrder(existing.id, { status }))!;
+
+    if (status !== previousStatus) {
+      triggerWebhookEvent('order.status_changed', {
+        order,
+        previousStatus,
+        newStatus: status
+      }, existing.workspaceId).catch(console.error);
     }
-    
-    saveOrdersToStorage(orders);
-    
-    // Trigger webhook event
-    const { triggerWebhookEvent } = require('../../services/webhooks');
-    triggerWebhookEvent('order.status_changed', {
-      order,
-      previousStatus,
-      newStatus: status
-    }).catch(console.error);
-    
+
     res.json({ data: order });
   } catch (error) {
     console.error('Order status update error:', error);
@@ -327,4 +231,4 @@ router.patch('/:id/status', requireScopes('write:orders'), (req, res) => {
   }
 });
 
-export default router;
\ No newline at end of file
+export default router;
@@ -1,7 +1,13 @@
 import { Router } from 'express';
-import { authenticateApiKey, requireScopes } from '../../middleware/auth';
+import { authenticateApiKey, getWorkspaceId, AuthenticatedRequest } from '../../middleware/auth';
 import { rateLimitMiddleware } from '../../middleware/ratelimit';
 import { auditMiddleware } from '../../middleware/audit';
+import { idempotencyMiddleware } from '../../middleware/idempotency';
+import { storage, type ProductListQuery } from '../../storage';
+import { triggerWebhookEvent } from '../../services/webhooks';
+import { apiCreateProductSchema, apiUpdateProductSchema, apiErrorSchema, apiProductSchema, type InventoryLevel, type Product } from '@shared/schema';
+import { listPage, listQuerySchema, presentRecord, recordQuerySchema, type Listing } from './listing';
+import { apiResource, apiData, apiPage } from './openapi';
 
 const router = Router();
 
@@ -9,98 +15,71 @@ const router = Router();
 router.use(auditMiddleware);
 router.use(authenticateApiKey);
 router.use(rateLimitMiddleware());
+router.use(idempotencyMiddleware());
 
-// Mock data for demonstration (in real app, would connect to database)
-function getProductsFromStorage() {
-  if (typeof localStorage !== 'undefined') {
-    try {
-      return JSON.parse(localStorage.getItem('flowventory:products') || '[]');
-    } catch {
-      return [];
-    }
-  }
-  return [
-    {
-      id: 'prod-001',
-      sku: 'SKU-001',
-      name: 'Wireless Bluetooth Headphones',
-      category: 'Electronics',
-      cost: 25.50,
-      price: 79.99,
-      stock: 5,
-      reserved: 2,
-      available: 3,
-      supplier: 'TechSupply Global',
-      location: 'Warehouse A-1',
-      status: 'Low Stock',
-      velocity: 2.5,
-      daysLeft: 2,
-      reorderPoint: 20,
-      maxStock: 100,
-      channels: ['Shopify', 'Amazon'],
-      daysCover: 2.0,
-      regionId: 'UK',
-      taxCategory: 'standard',
-      createdAt: '2024-01-15T10:00:00Z',
-      updatedAt: '2024-09-25T14:30:00Z'
-    }
-  ];
+const api = apiResource(router, {
+  tag: 'Products',
+  path: '/products',
+  description: 'Manage product catalog and information',
+});
+
+// Products with their stock summed across locations
+function withStock(product: Product, levels: InventoryLevel[]) {
+  const stock = levels
+    .filter(level => level.productId === product.sku)
+    .reduce((sum, level) => sum + level.onHand, 0);
+
+  return {
+    ...product,
+    stock,
+    available: stock,
+    status: stock < product.reorderPoint ? 'Low Stock' as const : 'In Stock' as const
+  };
 }
 
-function saveProductsToStorage(products: any[]) {
-  if (typeof localStorage !== 'undefined') {
-    localStorage.setItem('flowventory:products', JSON.stringify(products));
-  }
+type ProductWithStock = ReturnType<typeof withStock>;
+
+const productListing: Listing<ProductWithStock, ProductListQuery> = {
+  fields: Object.keys(apiProductSchema.shape),
+  updatedAt: product => product.updatedAt,
+  dates: { created: 'createdAt' },
+  filters: {
+    sku: 'sku',
+    category: 'category',
+    supplier: 'supplier',
+    status: 'stockStatus',
+    region_id: 'regionId',
+  },
+  params: ['q'],
+  expand: {
+    inventory: async (records, workspaceId) => {
+      const levels = await storage.getInventoryLevels(workspaceId, { productIds: records.map(product => product.sku) });
+      return product => levels.filter(level => level.productId === product.sku);
+    },
+  },
+};
+
+async function getProductForWorkspace(req: AuthenticatedRequest): Promise<Product | undefined> {
+  const product = await storage.getProduct(req.params.id);
+  return product && product.workspaceId === getWorkspaceId(req) ? product : undefined;
 }
 
 // GET /api/v1/products - List products with filtering
-router.get('/', requireScopes('read:products'), (req, res) => {
+api.get('/', {
+  operationId: 'listProducts',
+  summary: 'List products with filtering',
+  scope: 'read:products',
+  query: listQuerySchema(productListing),
+  responses: { 200: { description: 'A page of products', schema: apiPage(apiProductSchema) } },
+}, async (req, res, { query }) => {
   try {
-    let products = getProductsFromStorage();
-    
-    // Apply filters
-    const { q, category, sku, status, updatedSince, limit = 50, offset = 0 } = req.query;
-    
-    if (q) {
-      const searchTerm = (q as string).toLowerCase();
-      products = products.filter((p: any) => 
-        p.name.toLowerCase().includes(searchTerm) ||
-        p.sku.toLowerCase().includes(searchTerm) ||
-        (p.category && p.category.toLowerCase().includes(searchTerm))
-      );
-    }
-    
-    if (category) {
-      products = products.filter((p: any) => p.category === category);
-    }
-    
-    if (sku) {
-      products = products.filter((p: any) => p.sku === sku);
-    }
-    
-    if (status) {
-      products = products.filter((p: any) => p.status === status);
-    }
-    
-    if (updatedSince) {
-      const since = new Date(updatedSince as string);
-      products = products.filter((p: any) => new Date(p.updatedAt) > since);
-    }
-    
-    // Pagination
-    const limitNum = parseInt(limit as string, 10);
-    const offsetNum = parseInt(offset as string, 10);
-    const paginatedProducts = products.slice(offsetNum, offsetNum + limitNum);
-    
-    res.json({
-      data: paginatedProducts,
-      pagination: {
-        total: products.length,
-        limit: limitNum,
-        offset: offsetNum,
-        hasMore: offsetNum + limitNum < products.length
-      }
-    });
+    const workspaceId = getWorkspaceId(req);
+
+    res.json(await listPage(productListing, query, workspaceId, async page => {
+      const products = await storage.listProducts(workspaceId, { ...page, search: query.params.q });
+      const levels = await storage.getInventoryLevels(workspaceId, { productIds: products.map(product => product.sku) });
+      return products.map(product => withStock(product, levels));
+    }));
   } catch (error) {
     console.error('Products API error:', error);
     res.status(500).json({ error: 'Internal server error' });
@@ -108,16 +87,25 @@ router.get('/', requireScopes('read:products'), (req, res) => {
 });
 
 // GET /api/v1/products/:id - Get single product
-router.get('/:id', requireScopes('read:products'), (req, res) => {
+api.get('/:id', {
+  operationId: 'getProduct',
+  summary: 'Get single product',
+  scope: 'read:products',
+  query: recordQuerySchema(productListing),
+  responses: {
+    200: { description: 'The product', schema: apiData(apiProductSchema) },
+    404: { description: 'Product not found', schema: apiErrorSchema },
+  },
+}, async (req, res, { query }) => {
   try {
-    const products = getProductsFromStorage();
-    const product = products.find((p: any) => p.id === req.params.id);
-    
+    const product = await getProductForWorkspace(req);
+
     if (!product) {
       return res.status(404).json({ error: 'Product not found' });
     }
-    
-    res.json({ data: product });
+
+    const levels = await storage.getInventoryLevels(product.workspaceId, { productId: product.sku });
+    res.json({ data: await presentRecord(productListing, withStock(product, levels), query, product.workspaceId) });
   } catch (error) {
     console.error('Product get error:', error);
     res.status(500).json({ error: 'Internal server error' });
@@ -125,55 +113,54 @@ router.get('/:id', requireScopes('read:products'), (req, res) => {
 });
 
 // POST /api/v1/products - Create product
-router.post('/', requireScopes('write:products'), (req, res) => {
+api.post('/', {
+  operationId: 'createProduct',
+  summary: 'Create new product',
+  scope: 'write:products',
+  body: apiCreateProductSchema,
+  responses: {
+    201: { description: 'The created product', schema: apiData(apiProductSchema) },
+    409: { description: 'A product with this SKU already exists', schema: apiErrorSchema },
+  },
+}, async (req, res, { body }) => {
   try {
-    const { sku, name, category, cost, price, stock, supplier, location, reorderPoint, maxStock } = req.body;
-    
-    // Validation
-    if (!sku || !name) {
-      return res.status(400).json({ error: 'SKU and name are required' });
-    }
-    
-    const products = getProductsFromStorage();
-    
+    const workspaceId = getWorkspaceId(req);
+    const { stock, locationId, ...productData } = body;
+
     // Check for duplicate SKU
-    if (products.some((p: any) => p.sku === sku)) {
+    const [duplicate] = await storage.getProducts(workspaceId, { sku: productData.sku });
+    if (duplicate) {
       return res.status(409).json({ error: 'Product with this SKU already exists' });
     }
-    
-    const newProduct = {
-      id: `prod-${Date.now()}`,
-      sku,
-      name,
-      category: category || 'Uncategorized',
-      cost: cost || 0,
-      price: price || 0,
-      stock: stock || 0,
-      reserved: 0,
-      available: stock || 0,
-      supplier: supplier || '',
-      location: location || '',
-      status: (stock || 0) < (reorderPoint || 0) ? 'Low Stock' : 'In Stock',
-      velocity: 0,
-      daysLeft: 0,
-      reorderPoint: reorderPoint || 10,
-      maxStock: maxStock || 100,
-      channels: [],
-      daysCover: 0,
-      regionId: 'UK',
-      taxCategory: 'standard',
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString()
-    };
-    
-    products.push(newProduct);
-    saveProductsToStorage(products);
-    
-    // Trigger webhook event
-    const { triggerWebhookEvent } = require('../../services/webhooks');
-    triggerWebhookEvent('product.created', newProduct).catch(console.error);
-    
-    res.status(201).json({ data: newProduct });
+
+    const product = await storage.createProduct({ ...productData, workspaceId });
+
+    // Opening stock is booked as an adjustment so it shows in the stock move history
+    if (stock && locationId) {
+      await storage.upsertInventoryLevel({
+        workspaceId,
+        productId: product.sku,
+        locationId,
+        onHand: stock,
+        reorderPoint: product.reorderPoint,
+      });
+      await storage.createInventoryMove({
+        workspaceId,
+        type: 'ADJUST',
+        productId: product.sku,
+        toLocationId: locationId,
+        qty: stock,
+        refType: 'MANUAL',
+        note: 'Opening stock',
+      });
+    }
+
+    const levels = await storage.getInventoryLevels(workspaceId, { productId: product.sku });
+    const created = withStock(product, levels);
+
+    triggerWebhookEvent('product.created', created, workspaceId).catch(console.error);
+
+    res.status(201).json({ data: created });
   } catch (error) {
     console.error('Product creation error:', error);
     res.status(500).json({ error: 'Internal server error' });
@@ -181,53 +168,34 @@ router.post('/', requireScopes('write:products'), (req, res) => {
 });
 
 // PATCH /api/v1/products/:id - Update product
-router.patch('/:id', requireScopes('write:products'), (req, res) => {
+api.patch('/:id', {
+  operationId: 'updateProduct',
+  summary: 'Update product',
+  scope: 'write:products',
+  body: apiUpdateProductSchema,
+  responses: {
+    200: { description: 'The updated product', schema: apiData(apiProductSchema) },
+    404: { description: 'Product not found', schema: apiErrorSchema },
+  },
+}, async (req, res, { body }) => {
   try {
-    const products = getProductsFromStorage();
-    const productIndex = products.findIndex((p: any) => p.id === req.params.id);
-    
-    if (productIndex === -1) {
+    const existing = await getProductForWorkspace(req);
+    if (!existing) {
       return res.status(404).json({ error: 'Product not found' });
     }
-    
-    const allowedFields = ['name', 'category', 'cost', 'price', 'stock', 'supplier', 'location', 'reorderPoint', 'maxStock'];
-    const updates: any = {};
-    
-    for (const field of allowedFields) {
-      if (req.body[field] !== undefined) {
-        updates[field] = req.body[field];
-      }
-    }
-    
-    if (Object.keys(updates).length === 0) {
-      return res.status(400).json({ error: 'No valid fields to update' });
-    }
-    
-    const originalProduct = { ...products[productIndex] };
-    
-    // Apply updates
-    products[productIndex] = {
-      ...products[productIndex],
-      ...updates,
-      available: updates.stock !== undefined ? (updates.stock - (products[productIndex].reserved || 0)) : products[productIndex].available,
-      status: updates.stock !== undefined && updates.stock < (products[productIndex].reorderPoint || 0) ? 'Low Stock' : 'In Stock',
-      updatedAt: new Date().toISOString()
-    };
-    
-    saveProductsToStorage(products);
-    
-    // Trigger webhook event
-    const { triggerWebhookEvent } = require('../../services/webhooks');
-    triggerWebhookEvent('product.updated', {
-      before: originalProduct,
-      after: products[productIndex]
-    }).catch(console.error);
-    
-    res.json({ data: products[productIndex] });
+
+    const updated = await storage.updateProduct(existing.id, body);
+    const levels = await storage.getInventoryLevels(existing.workspaceId, { productId: existing.sku });
+    const before = withStock(existing, levels);
+    const after = withStock(updated!, levels);
+
+    triggerWebhookEvent('product.updated', { before, after }, existing.workspaceId).catch(console.error);
+
+    res.json({ data: after });
   } catch (error) {
     console.error('Product update error:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
-export default router;
\ No newline at end of file
+export default router;
@@ -1,7 +1,11 @@
 import { Router } from 'express';
-import { authenticateApiKey, requireScopes } from '../../middleware/auth';
+import { authenticateApiKey, getWorkspaceId, AuthenticatedRequest } from '../../middleware/auth';
 import { rateLimitMiddleware } from '../../middleware/ratelimit';
 import { auditMiddleware } from '../../middleware/audit';
+import { storage, type SupplierListQuery } from '../../storage';
+import { apiErrorSchema, apiSupplierSchema, type Supplier } from '@shared/schema';
+import { listPage, listQuerySchema, presentRecord, recordQuerySchema, type Listing } from './listing';
+import { apiResource, apiData, apiPage } from './openapi';
 
 const router = Router();
 
@@ -10,94 +14,46 @@ router.use(auditMiddleware);
 router.use(authenticateApiKey);
 router.use(rateLimitMiddleware());
 
-// Mock suppliers data
-function getSuppliersFromStorage() {
-  if (typeof localStorage !== 'undefined') {
-    try {
-      return JSON.parse(localStorage.getItem('flowventory:suppliers') || '[]');
-    } catch {
-      return [];
-    }
-  }
-  return [
-    {
-      id: 'supplier-001',
-      name: 'TechSupply Global',
-      email: 'orders@techsupplyglobal.com',
-      phone: '+1-555-0123',
-      region: 'US',
-      currency: 'USD',
-      leadTimeDays: 12,
-      paymentTerms: 'Net 30',
-      address: '123 Tech Avenue, San Francisco, CA 94105',
-      status: 'active',
-      contactPerson: 'John Smith',
-      website: 'https://techsupplyglobal.com',
-      taxId: 'US-123456789',
-      skus: [
-        { sku: 'SKU-001', unitCost: 25.50, packSize: 1, moq: 25, leadTimeDays: 12 },
-        { sku: 'SKU-006', unitCost: 45.00, packSize: 1, moq: 20, leadTimeDays: 10 }
-      ],
-      notes: 'Reliable supplier with good quality products',
-      createdAt: '2024-01-15T10:00:00Z',
-      updatedAt: '2024-09-25T14:30:00Z'
-    }
-  ];
-}
+const api = apiResource(router, {
+  tag: 'Suppliers',
+  path: '/suppliers',
+  description: 'Manage supplier information',
+});
+
+const supplierListing: Listing<Supplier, SupplierListQuery> = {
+  fields: Object.keys(apiSupplierSchema.shape),
+  updatedAt: supplier => supplier.updatedAt,
+  dates: { created: 'createdAt' },
+  filters: {
+    status: 'status',
+    region: 'region',
+    currency: 'currency',
+    sku: 'sku',
+  },
+  params: ['q'],
+  expand: {
+    products: async (records, workspaceId) => {
+      const skus = records.flatMap(supplier => supplier.skus.map(item => item.sku));
+      const products = await storage.getProducts(workspaceId, { skus });
+      return supplier => products.filter(product => supplier.skus.some(item => item.sku === product.sku));
+    },
+  },
+};
 
 // GET /api/v1/suppliers - List suppliers with filtering
-router.get('/', requireScopes('read:suppliers'), (req, res) => {
+api.get('/', {
+  operationId: 'listSuppliers',
+  summary: 'List suppliers with filtering',
+  scope: 'read:suppliers',
+  query: listQuerySchema(supplierListing),
+  responses: { 200: { description: 'A page of suppliers', schema: apiPage(apiSupplierSchema) } },
+}, async (req, res, { query }) => {
   try {
-    let suppliers = getSuppliersFromStorage();
-    
-    // Apply filters
-    const { 
-      status, 
-      region, 
-      currency,
-      q,
-      limit = 50, 
-      offset = 0 
-    } = req.query;
-    
-    if (status) {
-      suppliers = suppliers.filter((supplier: any) => supplier.status === status);
-    }
-    
-    if (region) {
-      suppliers = suppliers.filter((supplier: any) => supplier.region === region);
-    }
-    
-    if (currency) {
-      suppliers = suppliers.filter((supplier: any) => supplier.currency === currency);
-    }
-    
-    if (q) {
-      const searchTerm = (q as string).toLowerCase();
-      suppliers = suppliers.filter((supplier: any) => 
-        supplier.name.toLowerCase().includes(searchTerm) ||
-        supplier.email.toLowerCase().includes(searchTerm) ||
-        (supplier.contactPerson && supplier.contactPerson.toLowerCase().includes(searchTerm))
-      );
-    }
-    
-    // Sort by name
-    suppliers.sort((a: any, b: any) => a.name.localeCompare(b.name));
-    
-    // Pagination
-    const limitNum = parseInt(limit as string, 10);
-    const offsetNum = parseInt(offset as string, 10);
-    const paginatedSuppliers = suppliers.slice(offsetNum, offsetNum + limitNum);
-    
-    res.json({
-      data: paginatedSuppliers,
-      pagination: {
-        total: suppliers.length,
-        limit: limitNum,
-        offset: offsetNum,
-        hasMore: offsetNum + limitNum < suppliers.length
-      }
-    });
+    const workspaceId = getWorkspaceId(req);
+
+    res.json(await listPage(supplierListing, query, workspaceId, page =>
+      storage.listSuppliers(workspaceId, { ...page, search: query.params.q })
+    ));
   } catch (error) {
     console.error('Suppliers API error:', error);
     res.status(500).json({ error: 'Internal server error' });
@@ -105,20 +61,28 @@ router.get('/', requireScopes('read:suppliers'), (req, res) => {
 });
 
 // GET /api/v1/suppliers/:id - Get single supplier
-router.get('/:id', requireScopes('read:suppliers'), (req, res) => {
+api.get('/:id', {
+  operationId: 'getSupplier',
+  summary: 'Get single supplier',
+  scope: 'read:suppliers',
+  query: recordQuerySchema(supplierListing),
+  responses: {
+    200: { description: 'The supplier', schema: apiData(apiSupplierSchema) },
+    404: { description: 'Supplier not found', schema: apiErrorSchema },
+  },
+}, async (req, res, { query }) => {
   try {
-    const suppliers = getSuppliersFromStorage();
-    const supplier = suppliers.find((s: any) => s.id === req.params.id);
-    
-    if (!supplier) {
+    const supplier = await storage.getSupplier(req.params.id);
+
+    if (!supplier || supplier.workspaceId !== getWorkspaceId(req)) {
       return res.status(404).json({ error: 'Supplier not found' });
     }
-    
-    res.json({ data: supplier });
+
+    res.json({ data: await presentRecord(supplierListing, supplier, query, supplier.workspaceId) });
   } catch (error) {
     console.error('Supplier get error:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
-export default router;
\ No newline at end of file
+export default router;
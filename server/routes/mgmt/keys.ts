@@ -28,6 +28,10 @@ router.post('/', async (req, res) => {
     if (!scopes || !Array.isArray(scopes) || scopes.length === 0) {
       return res.status(400).json({ error: 'At least one scope is required' });
     }
+
+    if (!workspaceId || typeof workspaceId !== 'string') {
+      return res.status(400).json({ error: 'Workspace is required' });
+    }
     
     // Validate scopes
     const invalidScopes = scopes.filter(scope => !AVAILABLE_SCOPES.includes(scope as ApiScope));
@@ -127,7 +131,8 @@ router.get('/scopes', (req, res) => {
       orders: ['read:orders', 'write:orders'],
       suppliers: ['read:suppliers', 'write:suppliers'],
       customers: ['read:customers', 'write:customers'],
-      invoices: ['read:invoices', 'write:invoices']
+      invoices: ['read:invoices', 'write:invoices'],
+      forecasts: ['read:forecasts']
     };
     
     res.json({
@@ -146,7 +151,8 @@ router.get('/scopes', (req, res) => {
           'read:customers': 'View customer information',
           'write:customers': 'Create and update customers',
           'read:invoices': 'View invoices and payment status',
-          'write:invoices': 'Create invoices and update payment status'
+          'write:invoices': 'Create invoices and update payment status',
+          'read:forecasts': 'View demand forecasts and forecast accuracy'
         }
       }
     });
@@ -164,7 +170,7 @@ router.post('/demo', async (req, res) => {
       return res.status(403).json({ error: 'Demo keys are not available in production' });
     }
     
-    const demoScopes = ['read:products', 'read:inventory', 'read:orders', 'read:suppliers', 'read:customers', 'read:invoices'];
+    const demoScopes = ['read:products', 'read:inventory', 'read:orders', 'read:suppliers', 'read:customers', 'read:invoices', 'read:forecasts'];
     
     const result = await createApiKey({
       name: 'Demo API Key (Read Only)',
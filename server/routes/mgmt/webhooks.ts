@@ -4,10 +4,18 @@ import {
   updateWebhook, 
   deleteWebhook, 
   listWebhooks,
-  testWebhook
+  getWebhook,
+  testWebhook,
+  listDeliveryAttempts,
+  listDeadLetters,
+  replayDelivery,
+  replayDeadLetters,
+  WebhookReplayError
 } from '../../services/webhooks';
 import { rateLimitMiddleware } from '../../middleware/ratelimit';
 import { auditMiddleware } from '../../middleware/audit';
+import { webhookEventCatalog, webhookEventTypes } from '@shared/schema';
+import { toJsonSchema } from '../api/jsonSchema';
 
 const router = Router();
 
@@ -16,19 +24,17 @@ router.use(auditMiddleware);
 router.use(rateLimitMiddleware({ maxTokens: 30, refillRate: 30 })); // Lower limits for management API
 
 // Available webhook events
-const AVAILABLE_EVENTS = [
-  'product.created',
-  'product.updated',
-  'inventory.adjusted',
-  'inventory.low_stock',
-  'order.created',
-  'order.status_changed',
-  'shipment.created',
-  'shipment.status_changed',
-  'invoice.created',
-  'invoice.paid',
-  'invoice.status_changed'
-] as const;
+const AVAILABLE_EVENTS: readonly string[] = webhookEventTypes;
+
+// GET /mgmt/webhooks/events - Event catalogue with the current payload version and schema
+router.get('/events', (req, res) => {
+  res.json({
+    data: webhookEventTypes.map(event => {
+      const { version, description, payload } = webhookEventCatalog[event];
+      return { event, version, description, schema: toJsonSchema(payload, 'output') };
+    })
+  });
+});
 
 // POST /mgmt/webhooks - Register new webhook
 router.post('/', async (req, res) => {
@@ -195,6 +201,13 @@ router.patch('/:id', async (req, res) => {
     
     if (active !== undefined) {
       updates.active = Boolean(active);
+      
+      // Switching a webhook back on gives it a clean slate, so it isn't disabled again on its next failure
+      if (updates.active) {
+        updates.failureCount = 0;
+        updates.disabledAt = null;
+        updates.disabledReason = null;
+      }
     }
     
     if (name !== undefined) {
@@ -278,6 +291,121 @@ router.post('/:id/test', async (req, res) => {
   }
 });
 
+// GET /mgmt/webhooks/:id/deliveries - Delivery log, newest attempt first
+router.get('/:id/deliveries', async (req, res) => {
+  try {
+    const webhook = await getWebhook(req.params.id);
+    if (!webhook) {
+      return res.status(404).json({ error: 'Webhook not found' });
+    }
+    
+    const { deliveryId, status, before } = req.query;
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 50, 1), 200);
+    
+    if (status !== undefined && status !== 'succeeded' && status !== 'failed') {
+      return res.status(400).json({ error: 'status must be succeeded or failed' });
+    }
+    
+    const beforeDate = before ? new Date(before as string) : undefined;
+    if (beforeDate && isNaN(beforeDate.getTime())) {
+      return res.status(400).json({ error: 'before must be an ISO date' });
+    }
+    
+    // One extra row tells us whether there is another page
+    const attempts = await listDeliveryAttempts(webhook.id, {
+      deliveryId: deliveryId as string | undefined,
+      success: status === undefined ? undefined : status === 'succeeded',
+      before: beforeDate,
+      limit: limit + 1
+    });
+    const page = attempts.slice(0, limit);
+    
+    res.json({
+      data: page,
+      hasMore: attempts.length > limit,
+      nextBefore: attempts.length > limit ? page[page.length - 1].attemptedAt : null
+    });
+  } catch (error) {
+    console.error('Webhook deliveries error:', error);
+    res.status(500).json({ error: 'Failed to list webhook deliveries' });
+  }
+});
+
+// POST /mgmt/webhooks/:id/deliveries/:deliveryId/replay - Send one delivery again
+router.post('/:id/deliveries/:deliveryId/replay', async (req, res) => {
+  try {
+    const webhook = await getWebhook(req.params.id);
+    if (!webhook) {
+      return res.status(404).json({ error: 'Webhook not found' });
+    }
+    
+    const delivery = await replayDelivery(webhook, req.params.deliveryId);
+    if (!delivery) {
+      return res.status(404).json({ error: 'Delivery not found' });
+    }
+    
+    res.status(202).json({
+      data: delivery,
+      message: 'Delivery queued for replay'
+    });
+  } catch (error) {
+    if (error instanceof WebhookReplayError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Webhook replay error:', error);
+    res.status(500).json({ error: 'Failed to replay delivery' });
+  }
+});
+
+// GET /mgmt/webhooks/:id/dead-letters - Deliveries that ran out of attempts
+router.get('/:id/dead-letters', async (req, res) => {
+  try {
+    const webhook = await getWebhook(req.params.id);
+    if (!webhook) {
+      return res.status(404).json({ error: 'Webhook not found' });
+    }
+    
+    const deadLetters = await listDeadLetters(webhook.id);
+    
+    res.json({
+      data: deadLetters,
+      total: deadLetters.length
+    });
+  } catch (error) {
+    console.error('Webhook dead letters error:', error);
+    res.status(500).json({ error: 'Failed to list dead letters' });
+  }
+});
+
+// POST /mgmt/webhooks/:id/dead-letters/replay - Replay every dead letter, or those in deliveryIds
+router.post('/:id/dead-letters/replay', async (req, res) => {
+  try {
+    const webhook = await getWebhook(req.params.id);
+    if (!webhook) {
+      return res.status(404).json({ error: 'Webhook not found' });
+    }
+    
+    const { deliveryIds } = req.body ?? {};
+    if (deliveryIds !== undefined && (!Array.isArray(deliveryIds) || deliveryIds.some(id => typeof id !== 'string'))) {
+      return res.status(400).json({ error: 'deliveryIds must be an array of delivery IDs' });
+    }
+    
+    const requeued = await replayDeadLetters(webhook, deliveryIds);
+    
+    res.status(202).json({
+      data: requeued,
+      total: requeued.length,
+      message: `${requeued.length} dead letters queued for replay`
+    });
+  } catch (error) {
+    if (error instanceof WebhookReplayError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Webhook bulk replay error:', error);
+    res.status(500).json({ error: 'Failed to replay dead letters' });
+  }
+});
+
 // GET /mgmt/webhooks/events/available - List available events
 router.get('/events/available', (req, res) => {
   try {
@@ -0,0 +1,133 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import type { Rule, RuleAction, RuleCondition } from "@shared/schema";
+import { RuleEngine } from "./ruleEngine";
+import { MemStorage } from "./storage";
+import { TaskService } from "./taskService";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function rule(id: string, position: number, conditions: RuleCondition[], actions: RuleAction[], overrides: Partial<Rule> = {}): Rule {
+  const created = new Date("2026-01-01T00:00:00.000Z");
+  return {
+    id,
+    name: `Rule ${id}`,
+    position,
+    enabled: true,
+    stopProcessing: false,
+    conditions,
+    actions,
+    createdAt: created,
+    updatedAt: created,
+    ...overrides,
+  };
+}
+
+const stockout = RuleEngine.contextFor("RESTOCK", {
+  type: "INVENTORY_LOW",
+  severity: "HIGH",
+  channel: "shopify",
+  sku: "MUG-RED-1",
+  payload: { currentStock: 2, reorderLevel: 10, delta: -8 },
+});
+
+describe("RuleEngine.testCondition", () => {
+  it("compares numbers, optionally by magnitude", () => {
+    expect(RuleEngine.testCondition({ field: "payload.currentStock", operator: "lt", value: 5 }, 2)).toBe(true);
+    expect(RuleEngine.testCondition({ field: "payload.currentStock", operator: "gte", value: 5 }, 2)).toBe(false);
+    expect(RuleEngine.testCondition({ field: "payload.delta", operator: "gt", value: 5, abs: true }, -8)).toBe(true);
+    expect(RuleEngine.testCondition({ field: "payload.delta", operator: "gt", value: 5 }, "not a number")).toBe(false);
+  });
+
+  it("compares text case-insensitively, against lists and globs", () => {
+    expect(RuleEngine.testCondition({ field: "channel", operator: "eq", value: "Shopify" }, "shopify")).toBe(true);
+    expect(RuleEngine.testCondition({ field: "channel", operator: "in", value: "amazon, shopify" }, "shopify")).toBe(true);
+    expect(RuleEngine.testCondition({ field: "channel", operator: "not_in", value: ["amazon"] }, "shopify")).toBe(true);
+    expect(RuleEngine.testCondition({ field: "sku", operator: "matches", value: "MUG-*-?" }, "MUG-RED-1")).toBe(true);
+    expect(RuleEngine.testCondition({ field: "sku", operator: "contains", value: "red" }, "MUG-RED-1")).toBe(true);
+  });
+
+  it("only lets a missing field pass exists-style negations", () => {
+    expect(RuleEngine.testCondition({ field: "sku", operator: "exists" }, undefined)).toBe(false);
+    expect(RuleEngine.testCondition({ field: "sku", operator: "eq", value: "" }, "")).toBe(false);
+    expect(RuleEngine.testCondition({ field: "sku", operator: "neq", value: "MUG-RED-1" }, undefined)).toBe(true);
+    expect(RuleEngine.testCondition({ field: "sku", operator: "not_in", value: ["MUG-RED-1"] }, null)).toBe(true);
+  });
+});
+
+describe("RuleEngine.evaluate", () => {
+  it("matches a rule only when every condition passes, reading nested payload fields", () => {
+    const rules = [
+      rule("a", 0, [{ field: "eventType", operator: "eq", value: "INVENTORY_LOW" }, { field: "payload.currentStock", operator: "lt", value: 1 }], [{ type: "assign", assigneeId: "ops" }]),
+      rule("b", 1, [{ field: "eventType", operator: "eq", value: "INVENTORY_LOW" }, { field: "payload.currentStock", operator: "lt", value: 5 }], [{ type: "assign", assigneeId: "buyer" }]),
+    ];
+
+    const { matchedRuleIds, outcome, trace } = RuleEngine.evaluate(rules, stockout);
+
+    expect(matchedRuleIds).toEqual(["b"]);
+    expect(outcome.assigneeId).toBe("buyer");
+    expect(trace[0]).toMatchObject({ status: "NOT_MATCHED", conditions: [{ passed: true }, { passed: false, actual: 2 }] });
+  });
+
+  it("applies rules in position order, the first to set a field winning and watchers accumulating", () => {
+    const rules = [
+      rule("late", 5, [], [{ type: "set_priority", priority: "P3" }, { type: "add_watcher", userId: "u2" }]),
+      rule("early", 1, [], [{ type: "set_priority", priority: "P1" }, { type: "add_watcher", userId: "u1" }]),
+    ];
+
+    const { matchedRuleIds, outcome } = RuleEngine.evaluate(rules, stockout);
+
+    expect(matchedRuleIds).toEqual(["early", "late"]);
+    expect(outcome).toMatchObject({ priority: "P1", watcherIds: ["u1", "u2"] });
+  });
+
+  it("stops at a matching rule that stops processing, skipping disabled rules", () => {
+    const rules = [
+      rule("off", 0, [], [{ type: "assign", assigneeId: "nobody" }], { enabled: false }),
+      rule("stop", 1, [{ field: "severity", operator: "eq", value: "HIGH" }], [{ type: "set_due", dueOffsetHours: 4 }], { stopProcessing: true }),
+      rule("after", 2, [], [{ type: "set_due", dueOffsetHours: 24 }]),
+    ];
+
+    const { matchedRuleIds, outcome, trace } = RuleEngine.evaluate(rules, stockout);
+
+    expect(matchedRuleIds).toEqual(["stop"]);
+    expect(outcome.dueOffsetHours).toBe(4);
+    expect(trace.map(entry => entry.status)).toEqual(["DISABLED", "MATCHED", "NOT_EVALUATED"]);
+  });
+});
+
+describe("routing tasks raised from events", () => {
+  let storage: MemStorage;
+  let taskService: TaskService;
+
+  beforeEach(async () => {
+    storage = new MemStorage();
+    for (const existing of await storage.getRules()) await storage.deleteRule(existing.id);
+    taskService = new TaskService(storage);
+  });
+
+  it("lets a rule override the priority defaulted from the event's severity, and set the due time", async () => {
+    await storage.createRule({
+      name: "Low stock is routine",
+      enabled: true,
+      stopProcessing: true,
+      conditions: [{ field: "eventType", operator: "eq", value: "INVENTORY_LOW" }],
+      actions: [{ type: "set_priority", priority: "P3" }, { type: "set_due", dueOffsetHours: 72 }],
+    });
+    const event = await storage.createEvent({ type: "INVENTORY_LOW", sku: "MUG-RED-1", severity: "MEDIUM", payload: { currentStock: 2 } });
+
+    const before = Date.now();
+    const task = await taskService.createTaskFromEvent(event.id);
+
+    expect(task?.priority).toBe("P3");
+    expect(task!.dueAt!.getTime() - before).toBeGreaterThanOrEqual(72 * HOUR_MS);
+    expect(task!.dueAt!.getTime() - before).toBeLessThan(73 * HOUR_MS);
+  });
+
+  it("keeps a priority the caller set on a task without a source event", async () => {
+    await storage.createRule({ name: "Everything is P3", enabled: true, stopProcessing: true, conditions: [], actions: [{ type: "set_priority", priority: "P3" }] });
+
+    const task = await taskService.createTask({ title: "Count the stockroom", type: "RESTOCK", priority: "P1" });
+
+    expect(task.priority).toBe("P1");
+  });
+});
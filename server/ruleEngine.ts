@@ -0,0 +1,173 @@
+import { type Event, type Rule, type RuleCondition, type RuleContext, type RuleEvaluation, type RuleTrace } from "@shared/schema";
+
+type TaskType = "RESTOCK" | "RETRY_SYNC" | "RECONCILE" | "ADJUST_BUDGET";
+
+function normalize(value: unknown): string {
+  return String(value).trim().toLowerCase();
+}
+
+function toList(value: RuleCondition["value"]): string[] {
+  if (Array.isArray(value)) return value.map(normalize);
+  return String(value ?? "").split(",").map(normalize).filter(Boolean);
+}
+
+// Glob match where * is any run of characters and ? a single character
+function globMatch(pattern: string, text: string): boolean {
+  const escaped = pattern.replace(/[.+^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*").replace(/\?/g, ".");
+  return new RegExp(`^${escaped}$`, "i").test(text);
+}
+
+// Action Center routing: rules are evaluated in position order against the event a task is raised from
+export class RuleEngine {
+  static taskTypeForEvent(eventType: string): TaskType {
+    switch (eventType) {
+      case "INVENTORY_LOW":
+        return "RESTOCK";
+      case "SYNC_ERROR":
+        return "RETRY_SYNC";
+      case "PAYMENT_MISMATCH":
+        return "RECONCILE";
+      case "ROAS_DROP":
+        return "ADJUST_BUDGET";
+      case "SHIPMENT_DELAYED":
+        return "RETRY_SYNC"; // Chase the carrier, like a failed sync
+      default:
+        return "RETRY_SYNC";
+    }
+  }
+
+  static contextFor(taskType: string, event?: Partial<Pick<Event, "type" | "severity" | "channel" | "sku" | "payload">>): RuleContext {
+    return {
+      taskType,
+      eventType: event?.type,
+      severity: event?.severity,
+      channel: event?.channel || undefined,
+      sku: event?.sku || undefined,
+      payload: event?.payload && typeof event.payload === "object" ? event.payload as Record<string, unknown> : undefined,
+    };
+  }
+
+  static sortRules(rules: Rule[]): Rule[] {
+    return [...rules].sort((a, b) => a.position - b.position || a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  static resolveField(field: string, context: RuleContext): unknown {
+    if (!field.startsWith("payload.")) {
+      return context[field as keyof Omit<RuleContext, "payload">];
+    }
+
+    let value: unknown = context.payload;
+    for (const key of field.slice("payload.".length).split(".")) {
+      if (value === null || typeof value !== "object") return undefined;
+      value = (value as Record<string, unknown>)[key];
+    }
+    return value;
+  }
+
+  static testCondition(condition: RuleCondition, actual: unknown): boolean {
+    const missing = actual === undefined || actual === null || actual === "";
+    const { operator, value } = condition;
+
+    if (operator === "exists") return !missing;
+    // A missing field is never equal to / in anything
+    if (missing) return operator === "neq" || operator === "not_in";
+
+    switch (operator) {
+      case "gt":
+      case "gte":
+      case "lt":
+      case "lte": {
+        let num = Number(actual);
+        if (isNaN(num)) return false;
+        if (condition.abs) num = Math.abs(num);
+        const target = Number(value);
+        if (operator === "gt") return num > target;
+        if (operator === "gte") return num >= target;
+        if (operator === "lt") return num < target;
+        return num <= target;
+      }
+      case "eq":
+      case "neq": {
+        let equal: boolean;
+        if (typeof value === "number") {
+          const num = condition.abs ? Math.abs(Number(actual)) : Number(actual);
+          equal = num === value;
+        } else {
+          equal = normalize(actual) === normalize(value);
+        }
+        return operator === "eq" ? equal : !equal;
+      }
+      case "in":
+      case "not_in": {
+        const found = toList(value).includes(normalize(actual));
+        return operator === "in" ? found : !found;
+      }
+      case "matches":
+        return globMatch(String(value), String(actual));
+      case "contains":
+        if (Array.isArray(actual)) return actual.some(item => normalize(item) === normalize(value));
+        return normalize(actual).includes(normalize(value));
+      default:
+        return false;
+    }
+  }
+
+  static evaluate(rules: Rule[], context: RuleContext): RuleEvaluation {
+    const evaluation: RuleEvaluation = {
+      context,
+      trace: [],
+      matchedRuleIds: [],
+      outcome: { watcherIds: [], notify: [] },
+    };
+    const { outcome } = evaluation;
+    let stopped = false;
+
+    for (const rule of this.sortRules(rules)) {
+      const trace: RuleTrace = { ruleId: rule.id, name: rule.name, status: "NOT_EVALUATED", conditions: [], actions: rule.actions };
+      evaluation.trace.push(trace);
+
+      if (!rule.enabled) {
+        trace.status = "DISABLED";
+        continue;
+      }
+      if (stopped) continue;
+
+      trace.conditions = rule.conditions.map(condition => {
+        const actual = this.resolveField(condition.field, context);
+        return { ...condition, actual, passed: this.testCondition(condition, actual) };
+      });
+
+      if (!trace.conditions.every(condition => condition.passed)) {
+        trace.status = "NOT_MATCHED";
+        continue;
+      }
+
+      trace.status = "MATCHED";
+      evaluation.matchedRuleIds.push(rule.id);
+
+      for (const action of rule.actions) {
+        switch (action.type) {
+          case "assign":
+            if (outcome.assigneeId === undefined) outcome.assigneeId = action.assigneeId;
+            break;
+          case "set_priority":
+            if (outcome.priority === undefined) outcome.priority = action.priority;
+            break;
+          case "set_due":
+            if (outcome.dueOffsetHours === undefined) outcome.dueOffsetHours = action.dueOffsetHours;
+            break;
+          case "add_watcher":
+            if (!outcome.watcherIds.includes(action.userId)) outcome.watcherIds.push(action.userId);
+            break;
+          case "notify":
+            outcome.notify.push(action);
+            break;
+        }
+      }
+
+      if (rule.stopProcessing) stopped = true;
+    }
+
+    return evaluation;
+  }
+}
@@ -1,102 +1,37 @@
-import fs from 'fs/promises';
-import path from 'path';
 import crypto from 'crypto';
-import { fileURLToPath } from 'url';
+import os from 'os';
+import { webhookEventCatalog, type Webhook, type WebhookDelivery, type InsertWebhookDelivery, type WebhookDeliveryAttempt, type WebhookEventType, type WebhookEventPayload, type SupplierDelivery } from '@shared/schema';
+import { storage, type WebhookDeliveryRetry, type WebhookDeliveryAttemptQuery } from '../storage';
 import { signPayload, generateWebhookSecret } from './signing';
 
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
-
-export interface Webhook {
-  id: string;
-  url: string;
-  secret: string;
-  events: string[];
-  active: boolean;
-  name?: string;
-  description?: string;
-  createdAt: string;
-  updatedAt: string;
-  lastStatus?: number;
-  lastAttemptAt?: string;
-  lastSuccessAt?: string;
-  failureCount: number;
-  workspaceId?: string;
-}
-
-export interface WebhookDeliveryAttempt {
-  id: string;
-  webhookId: string;
-  eventType: string;
-  payload: any;
-  url: string;
-  attemptNumber: number;
-  maxAttempts: number;
-  scheduledAt: string;
-  attemptedAt?: string;
-  statusCode?: number;
-  responseBody?: string;
-  error?: string;
-  nextRetryAt?: string;
-}
-
-export interface WebhookEvent {
-  id: string;
-  event: string;
-  timestamp: string;
-  data: any;
-  workspaceId?: string;
-}
-
-const WEBHOOKS_FILE = path.join(__dirname, '../db/webhooks.json');
-const WEBHOOK_QUEUE_FILE = path.join(__dirname, '../db/webhook_queue.json');
-const WEBHOOK_EVENTS_FILE = path.join(__dirname, '../db/webhook_events.json');
+export { type Webhook, type WebhookDelivery, type WebhookDeliveryAttempt, type WebhookEvent, type WebhookEventType } from '@shared/schema';
 
 const WEBHOOK_USER_AGENT = process.env.WEBHOOK_USER_AGENT || 'Flowventory-Hook/1.0';
 const MAX_RETRY_ATTEMPTS = 5;
 const RETRY_INTERVALS = [60000, 300000, 900000, 3600000, 21600000]; // 1m, 5m, 15m, 1h, 6h
+const MAX_RESPONSE_BODY_LENGTH = 1000;
 
-// Initialize webhook files
-async function initializeWebhookFiles() {
-  for (const file of [WEBHOOKS_FILE, WEBHOOK_QUEUE_FILE, WEBHOOK_EVENTS_FILE]) {
-    try {
-      await fs.access(file);
-    } catch {
-      await fs.writeFile(file, JSON.stringify([], null, 2));
-    }
-  }
-}
+// An endpoint is disabled once this many attempts in a row have failed and it hasn't had a
+// successful delivery for a day
+const AUTO_DISABLE_FAILURE_COUNT = 20;
+const AUTO_DISABLE_FAILING_FOR_MS = 24 * 60 * 60 * 1000;
 
-// Load webhooks
-export async function loadWebhooks(): Promise<Webhook[]> {
-  await initializeWebhookFiles();
-  try {
-    const data = await fs.readFile(WEBHOOKS_FILE, 'utf-8');
-    return JSON.parse(data);
-  } catch {
-    return [];
-  }
-}
-
-// Save webhooks
-async function saveWebhooks(webhooks: Webhook[]) {
-  await fs.writeFile(WEBHOOKS_FILE, JSON.stringify(webhooks, null, 2));
-}
+// Deliveries are claimed in batches under a lease. The lease outlasts a batch of 30s delivery timeouts,
+// and a worker that dies mid-batch leaves its deliveries to be reclaimed once the lease expires.
+const CLAIM_BATCH_SIZE = 10;
+const CLAIM_LEASE_MS = 10 * 60 * 1000;
+const WORKER_ID = `${os.hostname()}:${process.pid}:${crypto.randomBytes(4).toString('hex')}`;
 
-// Load webhook queue
-async function loadWebhookQueue(): Promise<WebhookDeliveryAttempt[]> {
-  await initializeWebhookFiles();
-  try {
-    const data = await fs.readFile(WEBHOOK_QUEUE_FILE, 'utf-8');
-    return JSON.parse(data);
-  } catch {
-    return [];
+export class WebhookReplayError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = 'WebhookReplayError';
   }
 }
 
-// Save webhook queue
-async function saveWebhookQueue(queue: WebhookDeliveryAttempt[]) {
-  await fs.writeFile(WEBHOOK_QUEUE_FILE, JSON.stringify(queue, null, 2));
+// Load webhooks
+export async function loadWebhooks(): Promise<Webhook[]> {
+  return storage.listWebhooks();
 }
 
 // Create webhook
@@ -108,82 +43,44 @@ export async function createWebhook(data: {
   description?: string;
   workspaceId?: string;
 }): Promise<Webhook> {
-  const webhooks = await loadWebhooks();
-  
-  const webhook: Webhook = {
-    id: crypto.randomUUID(),
+  return storage.createWebhook({
     url: data.url,
     secret: data.secret || generateWebhookSecret(),
     events: data.events,
     active: true,
     name: data.name,
     description: data.description,
-    createdAt: new Date().toISOString(),
-    updatedAt: new Date().toISOString(),
-    failureCount: 0,
     workspaceId: data.workspaceId
-  };
-  
-  webhooks.push(webhook);
-  await saveWebhooks(webhooks);
-  
-  return webhook;
+  });
 }
 
 // Update webhook
 export async function updateWebhook(id: string, updates: Partial<Webhook>): Promise<Webhook | null> {
-  const webhooks = await loadWebhooks();
-  const index = webhooks.findIndex(w => w.id === id);
-  
-  if (index === -1) return null;
-  
-  webhooks[index] = {
-    ...webhooks[index],
-    ...updates,
-    updatedAt: new Date().toISOString()
-  };
-  
-  await saveWebhooks(webhooks);
-  return webhooks[index];
+  return (await storage.updateWebhook(id, updates)) || null;
 }
 
 // Delete webhook
 export async function deleteWebhook(id: string): Promise<boolean> {
-  const webhooks = await loadWebhooks();
-  const index = webhooks.findIndex(w => w.id === id);
-  
-  if (index === -1) return false;
-  
-  webhooks.splice(index, 1);
-  await saveWebhooks(webhooks);
-  
-  return true;
+  return storage.deleteWebhook(id);
 }
 
 // Get webhook by ID
 export async function getWebhook(id: string): Promise<Webhook | null> {
-  const webhooks = await loadWebhooks();
-  return webhooks.find(w => w.id === id) || null;
+  return (await storage.getWebhook(id)) || null;
 }
 
 // List webhooks
 export async function listWebhooks(workspaceId?: string): Promise<Webhook[]> {
-  const webhooks = await loadWebhooks();
-  
-  if (workspaceId) {
-    return webhooks.filter(w => w.workspaceId === workspaceId);
-  }
-  
-  return webhooks;
+  return storage.listWebhooks(workspaceId);
 }
 
-// Trigger webhook event
-export async function triggerWebhookEvent(
-  eventType: string,
-  data: any,
+// Trigger webhook event. The payload must match the event's schema in the catalogue.
+export async function triggerWebhookEvent<E extends WebhookEventType>(
+  eventType: E,
+  data: WebhookEventPayload<E>,
   workspaceId?: string
 ): Promise<void> {
-  const webhooks = await loadWebhooks();
+  const webhooks = await storage.listWebhooks();
   const activeWebhooks = webhooks.filter(w => 
     w.active && 
     w.events.includes(eventType) &&
@@ -195,199 +92,277 @@ export async function triggerWebhookEvent(
     return;
   }
   
-  const event: WebhookEvent = {
-    id: crypto.randomUUID(),
+  // Store event
+  const event = await storage.createWebhookEvent({
     event: eventType,
-    timestamp: new Date().toISOString(),
     data,
     workspaceId
-  };
-  
-  // Store event
-  const events = await loadWebhookEvents();
-  events.push(event);
-  await saveWebhookEvents(events.slice(-1000)); // Keep last 1000 events
+  });
   
   // Queue delivery attempts
-  const queue = await loadWebhookQueue();
-  
-  for (const webhook of activeWebhooks) {
-    const attempt: WebhookDeliveryAttempt = {
-      id: crypto.randomUUID(),
-      webhookId: webhook.id,
-      eventType,
-      payload: {
-        id: event.id,
-        event: eventType,
-        timestamp: event.timestamp,
-        data: event.data
-      },
-      url: webhook.url,
-      attemptNumber: 1,
-      maxAttempts: MAX_RETRY_ATTEMPTS,
-      scheduledAt: new Date().toISOString()
-    };
-    
-    queue.push(attempt);
-  }
+  const deliveries: InsertWebhookDelivery[] = activeWebhooks.map(webhook => ({
+    webhookId: webhook.id,
+    eventType,
+    payload: {
+      id: event.id,
+      event: eventType,
+      version: webhookEventCatalog[eventType].version,
+      timestamp: event.timestamp.toISOString(),
+      data: event.data
+    },
+    url: webhook.url,
+    attemptNumber: 1,
+    maxAttempts: MAX_RETRY_ATTEMPTS
+  }));
   
-  await saveWebhookQueue(queue);
+  await storage.enqueueWebhookDeliveries(deliveries);
   
   // Start processing queue (don't await)
-  processWebhookQueue().catch(error => {
-    console.error('Webhook queue processing error:', error);
-  });
+  kickWebhookQueue();
 }
 
-// Process webhook delivery queue
-export async function processWebhookQueue(): Promise<void> {
-  const queue = await loadWebhookQueue();
-  const now = new Date();
-  
-  const readyAttempts = queue.filter(attempt => {
-    if (attempt.attemptedAt && attempt.nextRetryAt) {
-      return new Date(attempt.nextRetryAt) <= now;
-    }
-    return !attempt.attemptedAt;
-  });
-  
-  if (readyAttempts.length === 0) {
+// Raise supplier.sla_breached when a delivery is recorded, or corrected, as late or defective
+export async function triggerSlaBreachEvent(delivery: SupplierDelivery, previous?: SupplierDelivery): Promise<void> {
+  const { breachType } = delivery;
+  if (!breachType || breachType === 'NONE' || (previous?.breachType && previous.breachType !== 'NONE')) {
     return;
   }
-  
-  console.log(`Processing ${readyAttempts.length} webhook deliveries`);
-  
-  for (const attempt of readyAttempts) {
-    await deliverWebhook(attempt);
-  }
+
+  const supplier = await storage.getSupplier(delivery.supplierId);
+  if (!supplier) return;
+
+  await triggerWebhookEvent('supplier.sla_breached', { supplier, delivery, breachType }, supplier.workspaceId);
 }
 
-// Deliver individual webhook
-async function deliverWebhook(attempt: WebhookDeliveryAttempt): Promise<void> {
-  try {
-    const webhook = await getWebhook(attempt.webhookId);
-    if (!webhook || !webhook.active) {
-      console.log(`Webhook ${attempt.webhookId} is inactive, skipping delivery`);
-      await removeFromQueue(attempt.id);
+// Process webhook delivery queue
+export async function processWebhookQueue(): Promise<void> {
+  // Keep claiming until nothing is due; other workers may be draining the same queue
+  for (;;) {
+    const claimed = await storage.claimWebhookDeliveries(WORKER_ID, CLAIM_BATCH_SIZE, CLAIM_LEASE_MS);
+    if (claimed.length === 0) {
       return;
     }
     
-    const payload = JSON.stringify(attempt.payload);
-    const signature = signPayload(payload, webhook.secret);
-    
-    console.log(`Delivering webhook ${attempt.id} to ${attempt.url} (attempt ${attempt.attemptNumber})`);
+    console.log(`Processing ${claimed.length} webhook deliveries`);
     
-    const response = await fetch(attempt.url, {
+    for (const delivery of claimed) {
+      await deliverWebhook(delivery);
+    }
+  }
+}
+
+// Deliver individual webhook
+async function deliverWebhook(delivery: WebhookDelivery): Promise<void> {
+  const webhook = await storage.getWebhook(delivery.webhookId);
+  if (!webhook || !webhook.active) {
+    // Held as a dead letter so it can be replayed once the webhook is switched back on
+    console.log(`Webhook ${delivery.webhookId} is inactive, dead-lettering delivery ${delivery.id}`);
+    await storage.deadLetterWebhookDelivery(delivery.id, WORKER_ID, {
+      attemptedAt: new Date(),
+      statusCode: null,
+      responseBody: null,
+      error: 'Webhook is disabled'
+    });
+    return;
+  }
+  
+  const payload = JSON.stringify(delivery.payload);
+  const signature = signPayload(payload, webhook.secret);
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    'User-Agent': WEBHOOK_USER_AGENT,
+    'X-Flowventory-Event': delivery.eventType,
+    'X-Flowventory-Event-Version': String(delivery.payload.version ?? 1),
+    'X-Flowventory-Id': delivery.payload.id,
+    'X-Flowventory-Delivery': delivery.id,
+    'X-Flowventory-Signature': `sha256=${signature}`
+  };
+  
+  console.log(`Delivering webhook ${delivery.id} to ${delivery.url} (attempt ${delivery.attemptNumber})`);
+  
+  const startTime = Date.now();
+  let outcome: Omit<WebhookDeliveryRetry, 'attemptNumber' | 'nextAttemptAt'>;
+  let success = false;
+  
+  try {
+    const response = await fetch(delivery.url, {
       method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'User-Agent': WEBHOOK_USER_AGENT,
-        'X-Flowventory-Event': attempt.eventType,
-        'X-Flowventory-Id': attempt.payload.id,
-        'X-Flowventory-Signature': `sha256=${signature}`
-      },
+      headers,
       body: payload,
       signal: AbortSignal.timeout(30000) // 30 second timeout
     });
     
     const responseText = await response.text();
-    
-    // Update attempt
-    attempt.attemptedAt = new Date().toISOString();
-    attempt.statusCode = response.status;
-    attempt.responseBody = responseText.substring(0, 1000); // Limit response body size
-    
-    if (response.ok) {
-      // Success - remove from queue and update webhook
-      console.log(`Webhook delivered successfully: ${attempt.id}`);
-      await removeFromQueue(attempt.id);
-      await updateWebhook(webhook.id, {
-        lastStatus: response.status,
-        lastAttemptAt: attempt.attemptedAt,
-        lastSuccessAt: attempt.attemptedAt,
-        failureCount: 0
-      });
-    } else {
-      // Failure - schedule retry or remove if max attempts reached
-      console.log(`Webhook delivery failed: ${attempt.id}, status: ${response.status}`);
-      await handleWebhookFailure(attempt, webhook);
-    }
-    
+    success = response.ok;
+    outcome = {
+      attemptedAt: new Date(),
+      statusCode: response.status,
+      responseBody: responseText.substring(0, MAX_RESPONSE_BODY_LENGTH),
+      error: null
+    };
   } catch (error) {
-    console.error(`Webhook delivery error for ${attempt.id}:`, error);
-    
-    const webhook = await getWebhook(attempt.webhookId);
-    if (webhook) {
-      attempt.attemptedAt = new Date().toISOString();
-      attempt.error = error instanceof Error ? error.message : 'Unknown error';
-      await handleWebhookFailure(attempt, webhook);
-    }
+    console.error(`Webhook delivery error for ${delivery.id}:`, error);
+    outcome = {
+      attemptedAt: new Date(),
+      statusCode: null,
+      responseBody: null,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+  
+  await storage.createWebhookDeliveryAttempt({
+    webhookId: webhook.id,
+    deliveryId: delivery.id,
+    eventId: delivery.payload.id,
+    eventType: delivery.eventType,
+    attemptNumber: delivery.attemptNumber,
+    url: delivery.url,
+    requestHeaders: { ...headers, 'X-Flowventory-Signature': 'sha256=…' }, // The log shouldn't let anyone forge signed requests
+    requestBody: delivery.payload,
+    ...outcome,
+    durationMs: Date.now() - startTime,
+    success
+  });
+  
+  if (success) {
+    // Success - remove from queue and update webhook
+    console.log(`Webhook delivered successfully: ${delivery.id}`);
+    await storage.completeWebhookDelivery(delivery.id, WORKER_ID);
+    await storage.recordWebhookAttempt(webhook.id, { statusCode: outcome.statusCode, attemptedAt: outcome.attemptedAt, success: true });
+  } else {
+    // Failure - schedule retry or dead-letter if max attempts reached
+    console.log(`Webhook delivery failed: ${delivery.id}, status: ${outcome.statusCode ?? outcome.error}`);
+    await handleWebhookFailure(delivery, outcome);
   }
 }
 
 // Handle webhook delivery failure
-async function handleWebhookFailure(attempt: WebhookDeliveryAttempt, webhook: Webhook): Promise<void> {
-  if (attempt.attemptNumber >= attempt.maxAttempts) {
-    // Max attempts reached, remove from queue
-    console.log(`Max attempts reached for webhook ${attempt.id}, removing from queue`);
-    await removeFromQueue(attempt.id);
-    
-    await updateWebhook(webhook.id, {
-      lastStatus: attempt.statusCode,
-      lastAttemptAt: attempt.attemptedAt,
-      failureCount: webhook.failureCount + 1
-    });
+async function handleWebhookFailure(
+  delivery: WebhookDelivery,
+  outcome: Omit<WebhookDeliveryRetry, 'attemptNumber' | 'nextAttemptAt'>
+): Promise<void> {
+  if (delivery.attemptNumber >= delivery.maxAttempts) {
+    // Max attempts reached, keep it as a dead letter
+    console.log(`Max attempts reached for webhook ${delivery.id}, moving to dead letters`);
+    await storage.deadLetterWebhookDelivery(delivery.id, WORKER_ID, outcome);
   } else {
     // Schedule retry
-    const retryDelay = RETRY_INTERVALS[Math.min(attempt.attemptNumber - 1, RETRY_INTERVALS.length - 1)];
-    const nextRetryAt = new Date(Date.now() + retryDelay);
+    const retryDelay = RETRY_INTERVALS[Math.min(delivery.attemptNumber - 1, RETRY_INTERVALS.length - 1)];
+    const nextAttemptAt = new Date(Date.now() + retryDelay);
     
-    attempt.attemptNumber++;
-    attempt.nextRetryAt = nextRetryAt.toISOString();
+    console.log(`Scheduling retry for webhook ${delivery.id} at ${nextAttemptAt.toISOString()}`);
     
-    console.log(`Scheduling retry for webhook ${attempt.id} at ${nextRetryAt.toISOString()}`);
-    
-    await updateQueueAttempt(attempt);
-    await updateWebhook(webhook.id, {
-      lastStatus: attempt.statusCode,
-      lastAttemptAt: attempt.attemptedAt,
-      failureCount: webhook.failureCount + 1
+    await storage.rescheduleWebhookDelivery(delivery.id, WORKER_ID, {
+      ...outcome,
+      attemptNumber: delivery.attemptNumber + 1,
+      nextAttemptAt
     });
   }
+  
+  await storage.recordWebhookAttempt(delivery.webhookId, {
+    statusCode: outcome.statusCode,
+    attemptedAt: outcome.attemptedAt,
+    success: false
+  });
+  
+  await disableIfFailing(delivery.webhookId, outcome.attemptedAt);
+}
+
+// Switch off an endpoint that keeps failing and tell its workspace; its pending deliveries become
+// dead letters as they come due
+async function disableIfFailing(webhookId: string, now: Date): Promise<void> {
+  const webhook = await storage.getWebhook(webhookId);
+  if (!webhook || !webhook.active || webhook.failureCount < AUTO_DISABLE_FAILURE_COUNT) {
+    return;
+  }
+  
+  const healthySince = webhook.lastSuccessAt ?? webhook.createdAt;
+  if (now.getTime() - healthySince.getTime() < AUTO_DISABLE_FAILING_FOR_MS) {
+    return;
+  }
+  
+  const reason = `${webhook.failureCount} consecutive failed deliveries since ${healthySince.toISOString()}`;
+  console.log(`Disabling webhook ${webhook.id}: ${reason}`);
+  await storage.updateWebhook(webhook.id, { active: false, disabledAt: now, disabledReason: reason });
+  
+  const organization = webhook.workspaceId ? await storage.getOrganization(webhook.workspaceId) : undefined;
+  if (!organization) return;
+  
+  await storage.createNotification(organization.id, {
+    type: 'api_connection_failed',
+    title: `Webhook disabled: ${webhook.name || webhook.url}`,
+    message: `Deliveries to ${webhook.url} kept failing (${reason}). Fix the endpoint, switch the webhook back on and replay its dead letters.`,
+    icon: 'AlertTriangle',
+    priority: 'high',
+    metadata: { webhookId: webhook.id, lastStatus: webhook.lastStatus }
+  });
 }
 
-// Remove attempt from queue
-async function removeFromQueue(attemptId: string): Promise<void> {
-  const queue = await loadWebhookQueue();
-  const filteredQueue = queue.filter(a => a.id !== attemptId);
-  await saveWebhookQueue(filteredQueue);
+// Attempts logged for a webhook, newest first
+export async function listDeliveryAttempts(webhookId: string, query: WebhookDeliveryAttemptQuery): Promise<WebhookDeliveryAttempt[]> {
+  return storage.listWebhookDeliveryAttempts(webhookId, query);
+}
+
+// Deliveries that ran out of attempts
+export async function listDeadLetters(webhookId: string): Promise<WebhookDelivery[]> {
+  return storage.listDeadWebhookDeliveries(webhookId);
+}
+
+// Send a delivery again. A dead letter goes back on the queue as it is; a delivery that already left
+// the queue is sent as a new delivery of the same payload, to the webhook's current URL.
+export async function replayDelivery(webhook: Webhook, deliveryId: string): Promise<WebhookDelivery | null> {
+  assertReplayable(webhook);
+  
+  const [requeued] = await storage.requeueDeadWebhookDeliveries(webhook.id, [deliveryId]);
+  if (requeued) {
+    kickWebhookQueue();
+    return requeued;
+  }
+  
+  const pending = await storage.getWebhookDelivery(deliveryId);
+  if (pending) {
+    throw new WebhookReplayError('Delivery is still queued', 409);
+  }
+  
+  const [lastAttempt] = await storage.listWebhookDeliveryAttempts(webhook.id, { deliveryId, limit: 1 });
+  if (!lastAttempt) {
+    return null;
+  }
+  
+  const [replayed] = await storage.enqueueWebhookDeliveries([{
+    webhookId: webhook.id,
+    eventType: lastAttempt.eventType,
+    payload: lastAttempt.requestBody,
+    url: webhook.url,
+    attemptNumber: 1,
+    maxAttempts: MAX_RETRY_ATTEMPTS
+  }]);
+  kickWebhookQueue();
+  return replayed;
 }
 
-// Update queue attempt
-async function updateQueueAttempt(updatedAttempt: WebhookDeliveryAttempt): Promise<void> {
-  const queue = await loadWebhookQueue();
-  const index = queue.findIndex(a => a.id === updatedAttempt.id);
+// Put a webhook's dead letters, or the chosen ones, back on the queue
+export async function replayDeadLetters(webhook: Webhook, deliveryIds?: string[]): Promise<WebhookDelivery[]> {
+  assertReplayable(webhook);
   
-  if (index !== -1) {
-    queue[index] = updatedAttempt;
-    await saveWebhookQueue(queue);
+  const requeued = await storage.requeueDeadWebhookDeliveries(webhook.id, deliveryIds);
+  if (requeued.length > 0) {
+    kickWebhookQueue();
   }
+  return requeued;
 }
 
-// Load webhook events
-async function loadWebhookEvents(): Promise<WebhookEvent[]> {
-  await initializeWebhookFiles();
-  try {
-    const data = await fs.readFile(WEBHOOK_EVENTS_FILE, 'utf-8');
-    return JSON.parse(data);
-  } catch {
-    return [];
+// A disabled webhook would dead-letter the replay straight away
+function assertReplayable(webhook: Webhook): void {
+  if (!webhook.active) {
+    throw new WebhookReplayError('Webhook is disabled; switch it back on before replaying', 409);
   }
 }
 
-// Save webhook events
-async function saveWebhookEvents(events: WebhookEvent[]) {
-  await fs.writeFile(WEBHOOK_EVENTS_FILE, JSON.stringify(events, null, 2));
+function kickWebhookQueue(): void {
+  processWebhookQueue().catch(error => {
+    console.error('Webhook queue processing error:', error);
+  });
 }
 
 // Test webhook delivery
@@ -459,7 +434,7 @@ export function startWebhookProcessor(): void {
     }
   }, 60000); // 1 minute
   
-  console.log('Webhook processor started');
+  console.log(`Webhook processor started (worker ${WORKER_ID})`);
 }
 
 // Get webhook statistics
@@ -470,18 +445,13 @@ export async function getWebhookStats(): Promise<{
   recentEvents: number;
   avgResponseTime?: number;
 }> {
-  const webhooks = await loadWebhooks();
-  const queue = await loadWebhookQueue();
-  const events = await loadWebhookEvents();
-  
-  const now = new Date();
-  const oneHourAgo = new Date(now.getTime() - 60 * 60 * 1000);
-  const recentEvents = events.filter(e => new Date(e.timestamp) > oneHourAgo).length;
+  const webhooks = await storage.listWebhooks();
+  const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000);
   
   return {
     totalWebhooks: webhooks.length,
     activeWebhooks: webhooks.filter(w => w.active).length,
-    queueLength: queue.length,
-    recentEvents
+    queueLength: await storage.getWebhookQueueLength(),
+    recentEvents: await storage.countWebhookEvents(oneHourAgo)
   };
 }
\ No newline at end of file
@@ -0,0 +1,150 @@
+import { randomUUID } from "crypto";
+import { describe, expect, it } from "vitest";
+import type { PackedCreateShipment, ShippingRuleCondition } from "@shared/schema";
+import { ShipmentError, ShipmentService } from "./shipmentService";
+import { storage } from "./storage";
+
+const shipmentService = new ShipmentService(storage);
+
+// 1kg domestic parcel, which the fake carrier books on Economy for 520 when no service is named
+const request: PackedCreateShipment = {
+  shipFrom: { address1: "1 Long Acre", city: "London", state: "", postalCode: "WC2E 9LH", country: "GB" },
+  shipTo: { name: "Ada", address1: "1 Deansgate", city: "Manchester", state: "", postalCode: "M3 1AZ", country: "GB" },
+  parcels: [{ length: 10, width: 10, height: 10, weight: 1, units: "cm", weightUnits: "kg" }],
+  cod: false,
+};
+
+async function fakeConnector(organizationId: string, name: string, config: Record<string, any> = {}, status: "active" | "inactive" = "active") {
+  return storage.createShippingConnector({
+    organizationId,
+    provider: "fake",
+    name,
+    status,
+    encryptedCredentials: "",
+    config,
+    lastTestAt: null,
+    lastTestStatus: null,
+  });
+}
+
+async function shippingRule(organizationId: string, name: string, connectorId: string, conditions: ShippingRuleCondition[] = [], serviceCode: string | null = null) {
+  return storage.createShippingRule(organizationId, { name, enabled: true, conditions, connectorId, serviceCode });
+}
+
+describe("ShipmentService.createShipment", () => {
+  it("books with the first matching rule's carrier and service", async () => {
+    const organizationId = randomUUID();
+    const carrier = await fakeConnector(organizationId, "Fake");
+    await shippingRule(organizationId, "Abroad", carrier.id, [{ field: "destinationCountry", operator: "neq", value: "GB" }], "FAKE_EXPRESS");
+    const domestic = await shippingRule(organizationId, "Domestic", carrier.id, [], "FAKE_STANDARD");
+
+    const { shipment, selection } = await shipmentService.createShipment(organizationId, request);
+
+    expect(shipment).toMatchObject({ connectorId: carrier.id, shippingRuleId: domestic.id, status: "label_created" });
+    expect(shipment.cost).toMatchObject({ amount: 780, serviceCode: "FAKE_STANDARD" });
+    expect(selection).toMatchObject({ ruleId: domestic.id, attempts: [], evaluation: { matchedRuleIds: [domestic.id] } });
+  });
+
+  it("falls through to the next rule when the first matched carrier errors", async () => {
+    const organizationId = randomUUID();
+    const broken = await fakeConnector(organizationId, "Broken", { failWith: "PROVIDER_ERROR" });
+    const backup = await fakeConnector(organizationId, "Backup");
+    const primaryRule = await shippingRule(organizationId, "Primary", broken.id);
+    const backupRule = await shippingRule(organizationId, "Backup", backup.id);
+
+    const { shipment, selection } = await shipmentService.createShipment(organizationId, request);
+
+    expect(shipment).toMatchObject({ connectorId: backup.id, shippingRuleId: backupRule.id });
+    expect(shipment.cost).toMatchObject({ amount: 520, serviceCode: "FAKE_ECONOMY" });
+    expect(selection.attempts).toEqual([{
+      ruleId: primaryRule.id,
+      connectorId: broken.id,
+      serviceCode: null,
+      code: "PROVIDER_ERROR",
+      message: "Simulated Fake Carrier failure (PROVIDER_ERROR)",
+    }]);
+  });
+
+  it("falls through to another service when the carrier rejects the one a rule names", async () => {
+    const organizationId = randomUUID();
+    const carrier = await fakeConnector(organizationId, "Fake");
+    const retired = await shippingRule(organizationId, "Retired service", carrier.id, [], "FAKE_SAME_DAY");
+    const cheapest = await shippingRule(organizationId, "Cheapest", carrier.id);
+
+    const { shipment, selection } = await shipmentService.createShipment(organizationId, request);
+
+    expect(shipment).toMatchObject({ shippingRuleId: cheapest.id, cost: { serviceCode: "FAKE_ECONOMY" } });
+    expect(selection.attempts).toMatchObject([{ ruleId: retired.id, serviceCode: "FAKE_SAME_DAY", code: "VALIDATION_ERROR" }]);
+  });
+
+  it("skips rules whose connector is no longer active", async () => {
+    const organizationId = randomUUID();
+    const paused = await fakeConnector(organizationId, "Paused", {}, "inactive");
+    const carrier = await fakeConnector(organizationId, "Fake");
+    await shippingRule(organizationId, "Paused", paused.id);
+    await shippingRule(organizationId, "Fake", carrier.id);
+
+    const { shipment, selection } = await shipmentService.createShipment(organizationId, request);
+
+    expect(shipment.connectorId).toBe(carrier.id);
+    expect(selection.attempts).toMatchObject([{ connectorId: paused.id, code: "CONNECTOR_INACTIVE" }]);
+  });
+
+  it("rejects a shipment no rule matches, and one no carrier can book", async () => {
+    const organizationId = randomUUID();
+    const broken = await fakeConnector(organizationId, "Broken", { failWith: "PROVIDER_ERROR" });
+    await shippingRule(organizationId, "Heavy only", broken.id, [{ field: "weightKg", operator: "gt", value: 30 }]);
+
+    await expect(shipmentService.createShipment(organizationId, request)).rejects.toMatchObject({
+      statusCode: 422,
+      message: "No shipping rule matches this shipment",
+    });
+
+    await shippingRule(organizationId, "Everything", broken.id);
+    const failure = await shipmentService.createShipment(organizationId, request).catch(error => error);
+
+    expect(failure).toBeInstanceOf(ShipmentError);
+    expect(failure).toMatchObject({ statusCode: 502, details: { attempts: [{ code: "PROVIDER_ERROR" }] } });
+    expect(await storage.getShipments(organizationId)).toEqual([]);
+  });
+
+  it("uses the connector named in the request without consulting the rules", async () => {
+    const organizationId = randomUUID();
+    const carrier = await fakeConnector(organizationId, "Fake");
+    await shippingRule(organizationId, "Never", carrier.id, [{ field: "weightKg", operator: "gt", value: 30 }]);
+
+    const { shipment, selection } = await shipmentService.createShipment(organizationId, { ...request, connectorId: carrier.id, serviceCode: "FAKE_OVERNIGHT" });
+
+    expect(shipment).toMatchObject({ shippingRuleId: null, cost: { serviceCode: "FAKE_OVERNIGHT" } });
+    expect(selection).toEqual({ ruleId: null, attempts: [], evaluation: undefined });
+    await expect(shipmentService.createShipment(randomUUID(), { ...request, connectorId: carrier.id })).rejects.toMatchObject({ statusCode: 403 });
+  });
+});
+
+describe("ShipmentService.testRules", () => {
+  it("dry runs the organization's rules against the given context", async () => {
+    const organizationId = randomUUID();
+    const carrier = await fakeConnector(organizationId, "Fake");
+    const eu = await shippingRule(organizationId, "EU", carrier.id, [{ field: "destinationCountry", operator: "in", value: ["FR", "DE"] }]);
+    const heavy = await shippingRule(organizationId, "Heavy", carrier.id, [{ field: "weightKg", operator: "gt", value: 10 }]);
+
+    const evaluation = await shipmentService.testRules(organizationId, { context: { destinationCountry: "fr", weightKg: 4 } });
+
+    expect(evaluation.context.destinationCountry).toBe("FR");
+    expect(evaluation.matchedRuleIds).toEqual([eu.id]);
+    expect(evaluation.trace.map(entry => [entry.ruleId, entry.status])).toEqual([[eu.id, "MATCHED"], [heavy.id, "NOT_MATCHED"]]);
+    expect(await storage.getShipments(organizationId)).toEqual([]);
+  });
+
+  it("dry runs a draft rule on its own", async () => {
+    const organizationId = randomUUID();
+
+    const evaluation = await shipmentService.testRules(organizationId, {
+      context: { skuTags: ["hazmat"] },
+      rule: { name: "Hazmat", enabled: true, conditions: [{ field: "skuTags", operator: "eq", value: "hazmat" }], connectorId: "connector-1" },
+    });
+
+    expect(evaluation.matchedRuleIds).toEqual(["draft"]);
+    expect(evaluation.trace).toMatchObject([{ name: "Hazmat", connectorId: "connector-1", serviceCode: null }]);
+  });
+});
@@ -0,0 +1,197 @@
+import { type PackedCreateShipment, type SalesOrder, type ShippingRule, type ShippingRuleEvaluation, type TestShippingRulesData } from '@shared/schema';
+import { type IStorage, type Shipment, type ShippingConnector } from './storage';
+import { ShippingError, type ShipmentResult } from './adapters/base';
+import { createAdapterForConnector } from './shippingAdapters';
+import { triggerWebhookEvent } from './services/webhooks';
+import { ShippingRuleEngine } from './shippingRuleEngine';
+
+export class ShipmentError extends Error {
+  constructor(message: string, public statusCode: number = 400, public details?: Record<string, unknown>) {
+    super(message);
+    this.name = 'ShipmentError';
+  }
+}
+
+// A carrier that was tried and failed before the shipment was created (or gave up)
+export interface ShipmentAttempt {
+  ruleId: string | null;
+  connectorId: string;
+  serviceCode: string | null;
+  code: string;
+  message: string;
+}
+
+export interface ShipmentSelection {
+  ruleId: string | null; // Rule that chose the carrier; null when the request named the connector
+  attempts: ShipmentAttempt[];
+  evaluation?: ShippingRuleEvaluation;
+}
+
+interface Candidate {
+  ruleId: string | null;
+  connectorId: string;
+  serviceCode: string | null;
+}
+
+// What the carrier booked, with the service it was booked under
+interface Booking {
+  result: ShipmentResult;
+  service: string;
+  serviceCode: string;
+}
+
+// Creates shipments with the carrier and service named in the request, or picked by the organization's shipping rules.
+// Matched rules are tried in order until a carrier accepts the shipment.
+export class ShipmentService {
+  private storage: IStorage;
+
+  constructor(storage: IStorage) {
+    this.storage = storage;
+  }
+
+  async createShipment(organizationId: string, request: PackedCreateShipment): Promise<{ shipment: Shipment, selection: ShipmentSelection }> {
+    let order: SalesOrder | undefined;
+    if (request.salesOrderId) {
+      order = await this.storage.getSalesOrder(request.salesOrderId);
+      if (!order || order.workspaceId !== organizationId) {
+        throw new ShipmentError('Sales order not found', 404);
+      }
+    }
+
+    let candidates: Candidate[];
+    let evaluation: ShippingRuleEvaluation | undefined;
+
+    if (request.connectorId) {
+      const connector = await this.storage.getShippingConnector(request.connectorId);
+      if (!connector) {
+        throw new ShipmentError('Shipping connector not found', 404);
+      }
+      if (connector.organizationId !== organizationId) {
+        throw new ShipmentError('Access denied', 403);
+      }
+      if (connector.status !== 'active') {
+        throw new ShipmentError('Shipping connector is not active', 400);
+      }
+      candidates = [{ ruleId: null, connectorId: connector.id, serviceCode: request.serviceCode || null }];
+    } else {
+      const rules = await this.storage.getShippingRules(organizationId);
+      evaluation = ShippingRuleEngine.evaluate(rules, ShippingRuleEngine.contextFor(request, order));
+      candidates = evaluation.matchedRuleIds
+        .map(id => rules.find(rule => rule.id === id) as ShippingRule)
+        .map(rule => ({ ruleId: rule.id, connectorId: rule.connectorId, serviceCode: rule.serviceCode }));
+
+      if (candidates.length === 0) {
+        throw new ShipmentError('No shipping rule matches this shipment', 422, { evaluation });
+      }
+    }
+
+    const attempts: ShipmentAttempt[] = [];
+    for (const candidate of candidates) {
+      const toAttempt = (code: string, message: string): ShipmentAttempt => ({ ...candidate, code, message });
+
+      const connector = await this.storage.getShippingConnector(candidate.connectorId);
+      if (!connector || connector.organizationId !== organizationId || connector.status !== 'active') {
+        attempts.push(toAttempt('CONNECTOR_INACTIVE', 'Shipping connector is missing or not active'));
+        continue;
+      }
+
+      // Only a failed booking falls through to the next carrier. Once a carrier has booked the shipment,
+      // trying another would ship it twice
+      let booked: Booking;
+      try {
+        booked = await this.book(connector, request, candidate.serviceCode);
+      } catch (error) {
+        attempts.push(toAttempt(
+          error instanceof ShippingError ? error.code : 'UNKNOWN_ERROR',
+          error instanceof Error ? error.message : 'Unknown error'
+        ));
+        continue;
+      }
+
+      const { result, service, serviceCode } = booked;
+      let shipment: Shipment;
+      try {
+        shipment = await this.storage.createShipment({
+          organizationId,
+          connectorId: connector.id,
+          salesOrderId: request.salesOrderId || null,
+          shippingRuleId: candidate.ruleId,
+          provider: connector.provider,
+          providerShipmentId: result.providerShipmentId,
+          trackingNumber: result.trackingNumber || null,
+          status: result.status,
+          fromAddress: request.shipFrom,
+          toAddress: request.shipTo,
+          packageInfo: request.parcels as unknown as Record<string, any>,
+          cost: { ...result.cost, service, serviceCode },
+        });
+      } catch (error) {
+        console.error(`Shipment ${result.providerShipmentId} was booked with ${connector.provider} but could not be saved:`, error);
+        throw new ShipmentError(`${connector.name} booked the shipment but it could not be saved`, 500, {
+          provider: connector.provider,
+          providerShipmentId: result.providerShipmentId,
+          trackingNumber: result.trackingNumber || null,
+        });
+      }
+
+      triggerWebhookEvent('shipment.created', {
+        shipmentId: shipment.id,
+        salesOrderId: shipment.salesOrderId,
+        provider: shipment.provider,
+        trackingNumber: shipment.trackingNumber,
+        status: shipment.status,
+      }, organizationId).catch(error => console.error('Error triggering shipment webhook:', error));
+      return { shipment, selection: { ruleId: candidate.ruleId, attempts, evaluation } };
+    }
+
+    throw new ShipmentError('No carrier could create the shipment', 502, { attempts, evaluation });
+  }
+
+  // Dry run the organization's rules, or a draft rule on its own
+  async testRules(organizationId: string, data: TestShippingRulesData): Promise<ShippingRuleEvaluation> {
+    const rules: ShippingRule[] = data.rule
+      ? [{
+          ...data.rule,
+          id: 'draft',
+          organizationId,
+          position: 0,
+          serviceCode: data.rule.serviceCode ?? null,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        }]
+      : await this.storage.getShippingRules(organizationId);
+
+    return ShippingRuleEngine.evaluate(rules, {
+      ...data.context,
+      destinationCountry: data.context.destinationCountry?.toUpperCase(),
+      currency: data.context.currency?.toUpperCase(),
+    });
+  }
+
+  // Create the shipment with the carrier; without a service code, book the cheapest service it quotes
+  private async book(
+    connector: ShippingConnector,
+    request: PackedCreateShipment,
+    serviceCode: string | null
+  ): Promise<Booking> {
+    const adapter = createAdapterForConnector(connector);
+    let service = serviceCode;
+
+    if (!serviceCode) {
+      const rates = await adapter.getRates(request);
+      if (rates.length === 0) {
+        throw new ShippingError('NO_RATES', `${connector.name} has no service for this shipment`, connector.provider);
+      }
+      const cheapest = rates.reduce((best, rate) => rate.amount < best.amount ? rate : best);
+      serviceCode = cheapest.serviceCode;
+      service = cheapest.service;
+    }
+
+    const result = await adapter.createShipment({
+      ...request,
+      service: serviceCode,
+      reference: request.salesOrderId,
+    });
+    return { result, service: service || serviceCode, serviceCode };
+  }
+}
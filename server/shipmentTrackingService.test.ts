@@ -0,0 +1,198 @@
+import { randomUUID } from "crypto";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { MemStorage, type Shipment, type ShipmentTrackingEvent } from "./storage";
+import { ShipmentTrackingService, type TrackingPollConfig } from "./shipmentTrackingService";
+import { triggerWebhookEvent } from "./services/webhooks";
+
+// Outbound webhooks go through the app-wide queue; only what the poller raises matters here
+vi.mock("./services/webhooks", () => ({ triggerWebhookEvent: vi.fn(async () => {}) }));
+
+const HOUR_MS = 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+const config: TrackingPollConfig = { stallHours: 72, exceptionHours: 4 };
+const start = new Date("2026-03-02T09:00:00.000Z");
+const at = (hours: number) => new Date(start.getTime() + hours * HOUR_MS);
+
+function scan(hours: number, status: string, description = status): ShipmentTrackingEvent {
+  return { timestamp: at(hours).toISOString(), status, description };
+}
+
+function shipment(overrides: Partial<Shipment> = {}): Shipment {
+  return {
+    id: "shipment-1",
+    organizationId: "org-1",
+    connectorId: "connector-1",
+    salesOrderId: null,
+    shippingRuleId: null,
+    provider: "fake",
+    providerShipmentId: "FK1",
+    trackingNumber: "FK1",
+    status: "in_transit",
+    fromAddress: {},
+    toAddress: {},
+    packageInfo: {},
+    cost: {},
+    trackingEvents: [],
+    lastSyncAt: null,
+    statusChangedAt: start,
+    nextTrackingPollAt: null,
+    trackingPollAttempts: 0,
+    delayAlertedAt: null,
+    createdAt: start,
+    updatedAt: start,
+    ...overrides,
+  };
+}
+
+describe("ShipmentTrackingService.nextPollDelayMs", () => {
+  it("backs off with each poll that finds nothing new, up to twelve hours", () => {
+    expect(ShipmentTrackingService.nextPollDelayMs(0)).toBe(15 * MINUTE_MS);
+    expect(ShipmentTrackingService.nextPollDelayMs(3)).toBe(120 * MINUTE_MS);
+    expect(ShipmentTrackingService.nextPollDelayMs(6)).toBe(720 * MINUTE_MS);
+    expect(ShipmentTrackingService.nextPollDelayMs(40)).toBe(720 * MINUTE_MS);
+  });
+});
+
+describe("ShipmentTrackingService.newEvents", () => {
+  it("skips scans already recorded and orders the rest oldest first", () => {
+    const existing = [scan(0, "label_created"), scan(1, "picked_up")];
+    const incoming = [scan(5, "in_transit", "Arrived at hub"), scan(1, "picked_up"), scan(3, "in_transit", "Departed facility"), scan(0, "label_created")];
+
+    expect(ShipmentTrackingService.newEvents(existing, incoming)).toEqual([
+      scan(3, "in_transit", "Departed facility"),
+      scan(5, "in_transit", "Arrived at hub"),
+    ]);
+  });
+});
+
+describe("ShipmentTrackingService.delayFor", () => {
+  it("flags a shipment in transit without tracking activity past the stall threshold", () => {
+    expect(ShipmentTrackingService.delayFor(shipment(), config, at(71))).toBeNull();
+    expect(ShipmentTrackingService.delayFor(shipment(), config, at(72.25))).toEqual({ reason: "STALLED", hours: 72.3 });
+  });
+
+  it("counts the stall from the latest carrier scan", () => {
+    const scanned = shipment({ trackingEvents: [scan(10, "in_transit")] });
+
+    expect(ShipmentTrackingService.delayFor(scanned, config, at(75))).toBeNull();
+    expect(ShipmentTrackingService.delayFor(scanned, config, at(82))).toEqual({ reason: "STALLED", hours: 72 });
+  });
+
+  it("flags exceptions sooner, and ignores shipments that aren't moving", () => {
+    expect(ShipmentTrackingService.delayFor(shipment({ status: "exception" }), config, at(5))).toEqual({ reason: "EXCEPTION", hours: 5 });
+    expect(ShipmentTrackingService.delayFor(shipment({ status: "label_created" }), config, at(500))).toBeNull();
+    expect(ShipmentTrackingService.delayFor(shipment({ status: "delivered" }), config, at(500))).toBeNull();
+  });
+
+  it("alerts once per stall, until new activity starts another", () => {
+    const alerted = shipment({ delayAlertedAt: at(73) });
+
+    expect(ShipmentTrackingService.delayFor(alerted, config, at(200))).toBeNull();
+    expect(ShipmentTrackingService.delayFor({ ...alerted, trackingEvents: [scan(100, "in_transit")] }, config, at(200))).toEqual({ reason: "STALLED", hours: 100 });
+  });
+});
+
+describe("ShipmentTrackingService polling", () => {
+  let storage: MemStorage;
+  let service: ShipmentTrackingService;
+  let organizationId: string;
+
+  beforeEach(async () => {
+    vi.mocked(triggerWebhookEvent).mockClear();
+    storage = new MemStorage();
+    for (const existing of await storage.getRules()) await storage.deleteRule(existing.id);
+    service = new ShipmentTrackingService(storage, config);
+    organizationId = randomUUID();
+  });
+
+  async function trackedShipment(status: Shipment["status"], trackingNumber: string) {
+    const connector = await storage.createShippingConnector({
+      organizationId,
+      provider: "fake",
+      name: "Fake",
+      status: "active",
+      encryptedCredentials: "",
+      config: {},
+      lastTestAt: null,
+      lastTestStatus: null,
+    });
+    const created = await storage.createShipment({
+      organizationId,
+      connectorId: connector.id,
+      salesOrderId: "order-1",
+      shippingRuleId: null,
+      provider: "fake",
+      providerShipmentId: trackingNumber,
+      trackingNumber,
+      status,
+      fromAddress: {},
+      toAddress: {},
+      packageInfo: {},
+      cost: {},
+    });
+    return (await storage.updateShipment(created.id, { statusChangedAt: start }))!;
+  }
+
+  it("moves the status on, firing status_changed, and resets the backoff", async () => {
+    const tracked = await trackedShipment("label_created", "FK1");
+
+    const { shipment: updated, changed, added } = await service.applyTracking(tracked, { status: "in_transit", events: [scan(2, "in_transit")] }, at(3));
+
+    expect(changed).toBe(true);
+    expect(added).toEqual([scan(2, "in_transit")]);
+    expect(updated).toMatchObject({ status: "in_transit", statusChangedAt: at(3), trackingPollAttempts: 0, nextTrackingPollAt: new Date(at(3).getTime() + 15 * MINUTE_MS) });
+    expect(triggerWebhookEvent).toHaveBeenCalledTimes(1);
+    expect(triggerWebhookEvent).toHaveBeenCalledWith("shipment.status_changed", expect.objectContaining({
+      shipmentId: tracked.id,
+      previousStatus: "label_created",
+      status: "in_transit",
+      events: [scan(2, "in_transit")],
+      changedAt: at(3).toISOString(),
+    }), organizationId);
+  });
+
+  it("backs off when nothing changed, and stops polling once delivered", async () => {
+    const tracked = await trackedShipment("in_transit", "FK1");
+    await storage.updateShipment(tracked.id, { trackingEvents: [scan(2, "in_transit")], trackingPollAttempts: 2 });
+
+    const quiet = await service.applyTracking((await storage.getShipment(tracked.id))!, { status: "in_transit", events: [scan(2, "in_transit")] }, at(4));
+
+    expect(quiet).toMatchObject({ changed: false, added: [] });
+    expect(quiet.shipment).toMatchObject({ trackingPollAttempts: 3, nextTrackingPollAt: new Date(at(4).getTime() + 120 * MINUTE_MS) });
+    expect(triggerWebhookEvent).not.toHaveBeenCalled();
+
+    const delivered = await service.applyTracking(quiet.shipment, { status: "delivered", events: [scan(2, "in_transit"), scan(20, "delivered")] }, at(21));
+
+    expect(delivered.shipment).toMatchObject({ status: "delivered", nextTrackingPollAt: null });
+    expect(delivered.shipment.trackingEvents).toHaveLength(2);
+  });
+
+  it("raises one SHIPMENT_DELAYED event for a stalled shipment, even when the carrier can't be reached", async () => {
+    const tracked = await trackedShipment("in_transit", "AWB-UNKNOWN");
+
+    const first = await service.poll(at(80));
+
+    expect(first).toMatchObject({ checked: 1, statusChanges: [], errors: [{ shipmentId: tracked.id, code: "TRACK_ERROR" }] });
+    expect(first.alerts).toEqual([{ shipmentId: tracked.id, eventId: expect.any(String), reason: "STALLED", hours: 80 }]);
+
+    const event = await storage.getEvent(first.alerts[0].eventId);
+    expect(event).toMatchObject({ type: "SHIPMENT_DELAYED", severity: "MEDIUM", channel: "fake" });
+    expect(event?.payload).toEqual({ shipmentId: tracked.id, salesOrderId: "order-1", trackingNumber: "AWB-UNKNOWN", status: "in_transit", reason: "STALLED", hoursSinceUpdate: 80 });
+    expect(await storage.getShipment(tracked.id)).toMatchObject({ delayAlertedAt: at(80), trackingPollAttempts: 1 });
+
+    const second = await service.poll(at(81));
+
+    expect(second).toMatchObject({ checked: 1, alerts: [] });
+  });
+
+  it("opens a task straight away for a shipment stuck in exception", async () => {
+    const tracked = await trackedShipment("exception", "AWB-UNKNOWN");
+
+    const { alerts } = await service.poll(at(5));
+
+    expect(alerts).toMatchObject([{ shipmentId: tracked.id, reason: "EXCEPTION", hours: 5 }]);
+    const [task] = (await storage.getTasks()).filter(task => task.sourceEventId === alerts[0].eventId);
+    expect(task).toMatchObject({ title: "Follow up shipment exception AWB-UNKNOWN", priority: "P1" });
+    expect(triggerWebhookEvent).toHaveBeenCalledWith("task.created", { task }, organizationId);
+  });
+});
@@ -0,0 +1,211 @@
+import { type IStorage, type Shipment, type ShipmentTrackingEvent, type ShippingConnector } from './storage';
+import { ShippingError } from './adapters/base';
+import { createAdapterForConnector } from './shippingAdapters';
+import { triggerWebhookEvent } from './services/webhooks';
+import { TaskService } from './taskService';
+
+const HOUR_MS = 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+
+// Minutes until the next poll, by polls since the shipment last changed
+const POLL_BACKOFF_MINUTES = [15, 30, 60, 120, 240, 480, 720];
+
+const CLAIM_BATCH_SIZE = 25;
+const CLAIM_LEASE_MS = 10 * MINUTE_MS;
+
+export interface TrackingPollConfig {
+  stallHours: number;     // in_transit without any tracking activity for this long raises an event
+  exceptionHours: number; // exception for this long raises an event
+}
+
+export interface TrackingPollResult {
+  checked: number;
+  statusChanges: Array<{ shipmentId: string, from: Shipment['status'], to: Shipment['status'] }>;
+  alerts: Array<{ shipmentId: string, eventId: string, reason: 'STALLED' | 'EXCEPTION', hours: number }>;
+  errors: Array<{ shipmentId: string, code: string, message: string }>;
+}
+
+// Payload of the SHIPMENT_DELAYED Action Center event
+export interface ShipmentDelayedPayload {
+  shipmentId: string;
+  salesOrderId: string | null;
+  trackingNumber: string | null;
+  status: Shipment['status'];
+  reason: 'STALLED' | 'EXCEPTION';
+  hoursSinceUpdate: number;
+  lastEvent?: ShipmentTrackingEvent; // Latest carrier scan, if there has been one
+}
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function eventKey(event: ShipmentTrackingEvent): string {
+  return `${event.timestamp}|${event.status}|${event.description}`;
+}
+
+// Tracking poller: asks the carrier for in-flight shipments on a backoff schedule, appends new tracking
+// events, moves the status on (firing shipment.status_changed) and raises an Action Center event for
+// shipments stuck in transit or in exception
+export class ShipmentTrackingService {
+  private storage: IStorage;
+  private taskService: TaskService;
+  private config: TrackingPollConfig;
+
+  constructor(storage: IStorage, config: TrackingPollConfig) {
+    this.storage = storage;
+    this.taskService = new TaskService(storage);
+    this.config = config;
+  }
+
+  static nextPollDelayMs(attempts: number): number {
+    return POLL_BACKOFF_MINUTES[Math.min(attempts, POLL_BACKOFF_MINUTES.length - 1)] * MINUTE_MS;
+  }
+
+  // New events from the carrier, oldest first, skipping any we already have
+  static newEvents(existing: ShipmentTrackingEvent[], incoming: ShipmentTrackingEvent[]): ShipmentTrackingEvent[] {
+    const seen = new Set(existing.map(eventKey));
+    return incoming
+      .filter(event => !seen.has(eventKey(event)))
+      .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+  }
+
+  // Hours a stalled or exception shipment has gone without progress, or null if it isn't due an alert.
+  // Each stall alerts once; new tracking activity or a status change starts a new one.
+  static delayFor(shipment: Shipment, config: TrackingPollConfig, now: Date): { reason: 'STALLED' | 'EXCEPTION', hours: number } | null {
+    if (shipment.status !== 'in_transit' && shipment.status !== 'exception') return null;
+
+    let since = (shipment.statusChangedAt || shipment.createdAt).getTime();
+    if (shipment.status === 'in_transit') {
+      const lastEvent = Math.max(0, ...shipment.trackingEvents.map(event => new Date(event.timestamp).getTime() || 0));
+      since = Math.max(since, lastEvent);
+    }
+
+    const thresholdHours = shipment.status === 'exception' ? config.exceptionHours : config.stallHours;
+    if (now.getTime() - since < thresholdHours * HOUR_MS) return null;
+    if (shipment.delayAlertedAt && shipment.delayAlertedAt.getTime() >= since) return null;
+
+    return {
+      reason: shipment.status === 'exception' ? 'EXCEPTION' : 'STALLED',
+      hours: round1((now.getTime() - since) / HOUR_MS),
+    };
+  }
+
+  async poll(now: Date = new Date()): Promise<TrackingPollResult> {
+    const result: TrackingPollResult = { checked: 0, statusChanges: [], alerts: [], errors: [] };
+    const connectors = new Map<string, ShippingConnector | undefined>();
+
+    // Claimed shipments are leased or rescheduled into the future, so this drains the due ones
+    for (;;) {
+      const batch = await this.storage.claimShipmentsForTracking(now, CLAIM_BATCH_SIZE, CLAIM_LEASE_MS);
+      if (batch.length === 0) break;
+
+      for (const shipment of batch) {
+        if (!connectors.has(shipment.connectorId)) {
+          connectors.set(shipment.connectorId, await this.storage.getShippingConnector(shipment.connectorId));
+        }
+        result.checked++;
+        await this.track(shipment, connectors.get(shipment.connectorId), now, result);
+      }
+    }
+
+    return result;
+  }
+
+  // Record what the carrier reports, from a poll or a carrier webhook: appends new tracking events, moves the
+  // status on (firing shipment.status_changed) and resets the poll backoff when anything changed
+  async applyTracking(
+    shipment: Shipment,
+    tracking: { status: Shipment['status'], events: ShipmentTrackingEvent[] },
+    now: Date = new Date()
+  ): Promise<{ shipment: Shipment, changed: boolean, added: ShipmentTrackingEvent[] }> {
+    const added = ShipmentTrackingService.newEvents(shipment.trackingEvents, tracking.events);
+    const changed = tracking.status !== shipment.status;
+    const attempts = changed || added.length > 0 ? 0 : shipment.trackingPollAttempts + 1;
+    const final = tracking.status === 'delivered' || tracking.status === 'cancelled';
+
+    const updated = await this.storage.updateShipment(shipment.id, {
+      status: tracking.status,
+      trackingEvents: [...shipment.trackingEvents, ...added],
+      lastSyncAt: now,
+      trackingPollAttempts: attempts,
+      nextTrackingPollAt: final ? null : new Date(now.getTime() + ShipmentTrackingService.nextPollDelayMs(attempts)),
+      ...(changed && { statusChangedAt: now }),
+    }) || shipment;
+
+    if (changed) {
+      // Outbound webhooks are scoped to the shipment's organization
+      triggerWebhookEvent('shipment.status_changed', {
+        shipmentId: shipment.id,
+        salesOrderId: shipment.salesOrderId,
+        provider: shipment.provider,
+        trackingNumber: shipment.trackingNumber,
+        previousStatus: shipment.status,
+        status: tracking.status,
+        events: added,
+        changedAt: now.toISOString(),
+      }, shipment.organizationId).catch(error => console.error('Error triggering shipment webhook:', error));
+    }
+
+    return { shipment: updated, changed, added };
+  }
+
+  private async track(shipment: Shipment, connector: ShippingConnector | undefined, now: Date, result: TrackingPollResult): Promise<void> {
+    let updated: Shipment = shipment;
+
+    try {
+      if (!connector) {
+        throw new ShippingError('NO_CONNECTOR', 'Shipping connector no longer exists', shipment.provider);
+      }
+
+      const tracking = await createAdapterForConnector(connector).getTracking({ trackingNumber: shipment.trackingNumber! });
+      const applied = await this.applyTracking(shipment, tracking, now);
+      updated = applied.shipment;
+      if (applied.changed) {
+        result.statusChanges.push({ shipmentId: shipment.id, from: shipment.status, to: tracking.status });
+      }
+    } catch (error) {
+      result.errors.push({
+        shipmentId: shipment.id,
+        code: error instanceof ShippingError ? error.code : 'UNKNOWN_ERROR',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+      const attempts = shipment.trackingPollAttempts + 1;
+      updated = await this.storage.updateShipment(shipment.id, {
+        trackingPollAttempts: attempts,
+        nextTrackingPollAt: new Date(now.getTime() + ShipmentTrackingService.nextPollDelayMs(attempts)),
+      }) || shipment;
+    }
+
+    // A carrier we can't reach doesn't stop us noticing the shipment has stalled
+    await this.raiseDelay(updated, now, result);
+  }
+
+  private async raiseDelay(shipment: Shipment, now: Date, result: TrackingPollResult): Promise<void> {
+    const delay = ShipmentTrackingService.delayFor(shipment, this.config, now);
+    if (!delay) return;
+
+    const payload: ShipmentDelayedPayload = {
+      shipmentId: shipment.id,
+      salesOrderId: shipment.salesOrderId,
+      trackingNumber: shipment.trackingNumber,
+      status: shipment.status,
+      reason: delay.reason,
+      hoursSinceUpdate: delay.hours,
+      lastEvent: shipment.trackingEvents[shipment.trackingEvents.length - 1],
+    };
+    const { event, taskCreated } = await this.taskService.createEvent({
+      type: 'SHIPMENT_DELAYED',
+      channel: shipment.provider,
+      severity: delay.reason === 'EXCEPTION' ? 'HIGH' : 'MEDIUM',
+      payload,
+    });
+
+    if (taskCreated) {
+      triggerWebhookEvent('task.created', { task: taskCreated }, shipment.organizationId).catch(error => console.error('Error triggering task webhook:', error));
+    }
+
+    await this.storage.updateShipment(shipment.id, { delayAlertedAt: now });
+    result.alerts.push({ shipmentId: shipment.id, eventId: event.id, reason: delay.reason, hours: delay.hours });
+  }
+}
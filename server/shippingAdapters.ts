@@ -0,0 +1,37 @@
+import { ShippingAdapter } from './adapters/base';
+import { ShiprocketAdapter } from './adapters/shiprocket';
+import { DHLAdapter } from './adapters/dhl';
+import { UPSAdapter } from './adapters/ups';
+import { FedExAdapter } from './adapters/fedex';
+import { FakeCarrierAdapter } from './adapters/fake';
+import { decryptCredentials } from './crypto';
+import { type ShippingConnector } from './storage';
+
+export function createShippingAdapter(provider: string, credentials: Record<string, any>, config: Record<string, any> = {}): ShippingAdapter {
+  switch (provider) {
+    case 'shiprocket':
+      return new ShiprocketAdapter(credentials, config);
+    case 'dhl':
+      return new DHLAdapter(credentials, config);
+    case 'ups':
+      return new UPSAdapter(credentials, config);
+    case 'fedex':
+      return new FedExAdapter(credentials, config);
+    case 'fake':
+      // Stored fake connectors can't book phantom shipments in production
+      if (process.env.NODE_ENV === 'production') {
+        throw new Error('The fake carrier is not available in production');
+      }
+      return new FakeCarrierAdapter(credentials, config);
+    default:
+      throw new Error(`Unsupported shipping provider: ${provider}`);
+  }
+}
+
+// Build the adapter for a stored connector, decrypting its credentials
+export function createAdapterForConnector(connector: ShippingConnector): ShippingAdapter {
+  const credentials = connector.encryptedCredentials
+    ? decryptCredentials(connector.encryptedCredentials as any)
+    : {};
+  return createShippingAdapter(connector.provider, credentials, connector.config || {});
+}
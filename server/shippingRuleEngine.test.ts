@@ -0,0 +1,122 @@
+import { describe, expect, it } from "vitest";
+import type { PackedCreateShipment, SalesOrder, ShippingRule, ShippingRuleCondition, ShippingRuleContext } from "@shared/schema";
+import { ShippingRuleEngine } from "./shippingRuleEngine";
+
+function rule(id: string, position: number, conditions: ShippingRuleCondition[], overrides: Partial<ShippingRule> = {}): ShippingRule {
+  const created = new Date("2026-01-01T00:00:00.000Z");
+  return {
+    id,
+    organizationId: "org-1",
+    name: `Rule ${id}`,
+    position,
+    enabled: true,
+    conditions,
+    connectorId: `connector-${id}`,
+    serviceCode: null,
+    createdAt: created,
+    updatedAt: created,
+    ...overrides,
+  };
+}
+
+function matched(rules: ShippingRule[], context: ShippingRuleContext): string[] {
+  return ShippingRuleEngine.evaluate(rules, context).matchedRuleIds;
+}
+
+const shipment: PackedCreateShipment = {
+  shipFrom: { address1: "1 Long Acre", city: "London", state: "", postalCode: "WC2E 9LH", country: "GB" },
+  shipTo: { name: "Ada", address1: "1 Rue de Rivoli", city: "Paris", state: "IDF", postalCode: "75001", country: "fr" },
+  parcels: [
+    { length: 20, width: 20, height: 10, weight: 2, units: "cm", weightUnits: "lb" },
+    { length: 20, width: 20, height: 10, weight: 1.5, units: "cm", weightUnits: "kg" },
+  ],
+  items: [
+    { sku: "MUG-RED", name: "Red mug", quantity: 2, value: 1200, weight: 0.4, tags: ["fragile"] },
+    { sku: "CANDLE", name: "Candle", quantity: 1, value: 2500, weight: 0.3, tags: ["hazmat", "fragile"] },
+  ],
+  cod: true,
+};
+
+describe("ShippingRuleEngine.contextFor", () => {
+  it("totals the parcels in kg and reads value, SKUs and tags from the items", () => {
+    expect(ShippingRuleEngine.contextFor(shipment)).toEqual({
+      destinationCountry: "FR",
+      destinationRegion: "IDF",
+      destinationPostalCode: "75001",
+      weightKg: 2.407,
+      parcelCount: 2,
+      orderValue: 49,
+      currency: undefined,
+      skus: ["MUG-RED", "CANDLE"],
+      skuTags: ["fragile", "hazmat"],
+      cod: true,
+    });
+  });
+
+  it("falls back to the sales order for the value, currency and SKUs", () => {
+    const order = { total: 8000, currency: "eur", items: [{ sku: "MUG-RED" }, { sku: "PLATE" }] } as SalesOrder;
+
+    const context = ShippingRuleEngine.contextFor({ ...shipment, items: undefined }, order);
+
+    expect(context).toMatchObject({ orderValue: 80, currency: "EUR", skus: ["MUG-RED", "PLATE"], skuTags: [] });
+  });
+});
+
+describe("ShippingRuleEngine.evaluate", () => {
+  it("matches weight bands", () => {
+    const rules = [
+      rule("light", 0, [{ field: "weightKg", operator: "lte", value: 2 }]),
+      rule("medium", 1, [{ field: "weightKg", operator: "gt", value: 2 }, { field: "weightKg", operator: "lte", value: 10 }]),
+      rule("heavy", 2, [{ field: "weightKg", operator: "gt", value: 10 }]),
+    ];
+
+    expect(matched(rules, { weightKg: 2 })).toEqual(["light"]);
+    expect(matched(rules, { weightKg: 2.407 })).toEqual(["medium"]);
+    expect(matched(rules, { weightKg: 31 })).toEqual(["heavy"]);
+    expect(matched(rules, {})).toEqual([]);
+  });
+
+  it("matches SKU tags when any tag does, and excludes them when none may", () => {
+    const rules = [
+      rule("hazmat", 0, [{ field: "skuTags", operator: "in", value: ["hazmat", "lithium"] }]),
+      rule("safe", 1, [{ field: "skuTags", operator: "not_in", value: ["hazmat", "lithium"] }]),
+      rule("tagged", 2, [{ field: "skuTags", operator: "exists" }]),
+    ];
+
+    expect(matched(rules, { skuTags: ["fragile", "hazmat"] })).toEqual(["hazmat", "tagged"]);
+    expect(matched(rules, { skuTags: ["fragile"] })).toEqual(["safe", "tagged"]);
+    expect(matched(rules, { skuTags: [] })).toEqual(["safe"]);
+  });
+
+  it("matches cash on delivery and destinations", () => {
+    const rules = [
+      rule("cod", 0, [{ field: "cod", operator: "eq", value: "true" }]),
+      rule("eu", 1, [{ field: "destinationCountry", operator: "in", value: "FR, DE, NL" }]),
+      rule("paris", 2, [{ field: "destinationPostalCode", operator: "matches", value: "75*" }]),
+    ];
+
+    expect(matched(rules, { cod: true, destinationCountry: "FR", destinationPostalCode: "75001" })).toEqual(["cod", "eu", "paris"]);
+    expect(matched(rules, { cod: false, destinationCountry: "US", destinationPostalCode: "10004" })).toEqual([]);
+  });
+
+  it("lists every match in position order, then creation order, tracing disabled rules", () => {
+    const later = new Date("2026-02-01T00:00:00.000Z");
+    const rules = [
+      rule("second", 1, [], { createdAt: later }),
+      rule("third", 1, [], { createdAt: new Date("2026-03-01T00:00:00.000Z") }),
+      rule("off", 0, [], { enabled: false }),
+      rule("first", 0, [{ field: "destinationCountry", operator: "eq", value: "fr" }]),
+    ];
+
+    const { matchedRuleIds, trace } = ShippingRuleEngine.evaluate(rules, { destinationCountry: "FR" });
+
+    expect(matchedRuleIds).toEqual(["first", "second", "third"]);
+    expect(trace.map(entry => [entry.ruleId, entry.status])).toEqual([
+      ["off", "DISABLED"],
+      ["first", "MATCHED"],
+      ["second", "MATCHED"],
+      ["third", "MATCHED"],
+    ]);
+    expect(trace[1]).toMatchObject({ connectorId: "connector-first", conditions: [{ actual: "FR", passed: true }] });
+  });
+});
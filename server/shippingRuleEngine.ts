@@ -0,0 +1,84 @@
+import { type PackedCreateShipment, type SalesOrder, type ShippingRule, type ShippingRuleCondition, type ShippingRuleContext, type ShippingRuleEvaluation, type ShippingRuleTrace } from "@shared/schema";
+import { RuleEngine } from "./ruleEngine";
+
+const LB_TO_KG = 0.453592;
+
+// Shipping rules: every enabled rule whose conditions all match is a candidate, tried in position order
+export class ShippingRuleEngine {
+  // Build the context from the shipment request; the sales order fills in the value, currency and SKUs when given
+  static contextFor(shipment: PackedCreateShipment, order?: SalesOrder): ShippingRuleContext {
+    const weightKg = shipment.parcels.reduce((sum, parcel) =>
+      sum + (parcel.weightUnits === 'lb' ? parcel.weight * LB_TO_KG : parcel.weight), 0);
+
+    const items = shipment.items || [];
+    const itemValue = items.reduce((sum, item) => sum + item.value * item.quantity, 0);
+    const orderValueCents = shipment.orderValue ?? order?.total ?? (items.length > 0 ? itemValue : undefined);
+
+    const skus = new Set(items.map(item => item.sku));
+    order?.items.forEach(line => skus.add(line.sku));
+
+    return {
+      destinationCountry: shipment.shipTo.country.toUpperCase(),
+      destinationRegion: shipment.shipTo.state,
+      destinationPostalCode: shipment.shipTo.postalCode,
+      weightKg: Math.round(weightKg * 1000) / 1000,
+      parcelCount: shipment.parcels.length,
+      orderValue: orderValueCents !== undefined ? orderValueCents / 100 : undefined,
+      currency: (shipment.currency || order?.currency)?.toUpperCase(),
+      skus: Array.from(skus),
+      skuTags: Array.from(new Set(items.flatMap(item => item.tags || []))),
+      cod: shipment.cod,
+    };
+  }
+
+  static sortRules(rules: ShippingRule[]): ShippingRule[] {
+    return [...rules].sort((a, b) => a.position - b.position || a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  // List fields match eq / in when any entry does, and neq / not_in when none does
+  static testCondition(condition: ShippingRuleCondition, actual: unknown): boolean {
+    if (Array.isArray(actual) && ["eq", "neq", "in", "not_in"].includes(condition.operator)) {
+      const negated = condition.operator === "neq" || condition.operator === "not_in";
+      const positive = { ...condition, operator: condition.operator === "neq" ? "eq" as const : condition.operator === "not_in" ? "in" as const : condition.operator };
+      const anyMatch = actual.some(item => RuleEngine.testCondition(positive, item));
+      return negated ? !anyMatch : anyMatch;
+    }
+    if (Array.isArray(actual) && condition.operator === "exists") {
+      return actual.length > 0;
+    }
+    return RuleEngine.testCondition(condition, actual);
+  }
+
+  static evaluate(rules: ShippingRule[], context: ShippingRuleContext): ShippingRuleEvaluation {
+    const evaluation: ShippingRuleEvaluation = { context, trace: [], matchedRuleIds: [] };
+
+    for (const rule of this.sortRules(rules)) {
+      const trace: ShippingRuleTrace = {
+        ruleId: rule.id,
+        name: rule.name,
+        status: "NOT_MATCHED",
+        conditions: [],
+        connectorId: rule.connectorId,
+        serviceCode: rule.serviceCode,
+      };
+      evaluation.trace.push(trace);
+
+      if (!rule.enabled) {
+        trace.status = "DISABLED";
+        continue;
+      }
+
+      trace.conditions = rule.conditions.map(condition => {
+        const actual = context[condition.field];
+        return { ...condition, actual, passed: this.testCondition(condition, actual) };
+      });
+
+      if (trace.conditions.every(condition => condition.passed)) {
+        trace.status = "MATCHED";
+        evaluation.matchedRuleIds.push(rule.id);
+      }
+    }
+
+    return evaluation;
+  }
+}
@@ -0,0 +1,555 @@
+import { randomUUID } from "crypto";
+import { beforeAll, describe, expect, it } from "vitest";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import { migrate } from "drizzle-orm/pglite/migrator";
+import * as schema from "@shared/schema";
+import { getForecastForHorizon } from "@shared/forecasting";
+import { MemStorage, type IStorage, type InsertShipment } from "./storage";
+import { DatabaseStorage } from "./databaseStorage";
+import { TaskService } from "./taskService";
+import { ReceivingService } from "./receivingService";
+import { BillMatchService } from "./billMatchService";
+import { InventoryService } from "./inventoryService";
+
+// Both storage backends must behave the same, so every case here runs against MemStorage and
+// against DatabaseStorage on an embedded Postgres migrated from /migrations
+const backends: [string, () => Promise<IStorage>][] = [
+  ["MemStorage", async () => new MemStorage()],
+  ["DatabaseStorage", async () => {
+    const db = drizzle(new PGlite(), { schema });
+    await migrate(db, { migrationsFolder: "migrations" });
+    return new DatabaseStorage(db);
+  }],
+];
+
+const address = { name: "Asha Rao", address1: "12 MG Road", city: "Bengaluru", state: "KA", postalCode: "560001", country: "IN" };
+
+describe.each(backends)("%s", (_name, createStorage) => {
+  let storage: IStorage;
+  let taskService: TaskService;
+
+  beforeAll(async () => {
+    storage = await createStorage();
+    taskService = new TaskService(storage);
+
+    // MemStorage starts with sample routing rules; route tasks on the defaults in both
+    for (const rule of await storage.getRules()) {
+      await storage.deleteRule(rule.id);
+    }
+  });
+
+  async function createAdmin() {
+    const email = `admin-${randomUUID()}@example.com`;
+    return storage.createUser({
+      username: email,
+      password: "correct-horse",
+      fullName: "Admin User",
+      email,
+      companyName: "Acme Retail",
+      role: "admin",
+    });
+  }
+
+  describe("users", () => {
+    it("finds a user by id, username and email", async () => {
+      const user = await createAdmin();
+
+      expect(user.organizationId).toBeTruthy();
+      expect((await storage.getUser(user.id))?.email).toBe(user.email);
+      expect((await storage.getUserByUsername(user.email))?.id).toBe(user.id);
+      expect((await storage.getUserByEmail(user.email))?.id).toBe(user.id);
+      expect(await storage.getUser(randomUUID())).toBeUndefined();
+    });
+
+    it("creates the admin's organization", async () => {
+      const user = await createAdmin();
+      const organization = await storage.getOrganization(user.organizationId!);
+
+      expect(organization?.name).toBe("Acme Retail");
+      expect(organization?.createdBy).toBe(user.email);
+    });
+  });
+
+  describe("events and tasks", () => {
+    it("opens a P1 task for a high severity event", async () => {
+      const { event, taskCreated } = await taskService.createEvent({
+        type: "INVENTORY_LOW",
+        sku: "SKU-CONTRACT-1",
+        payload: { stock: 2 },
+        severity: "HIGH",
+      });
+
+      expect(event.status).toBe("OPEN");
+      expect(taskCreated).toMatchObject({ sourceEventId: event.id, type: "RESTOCK", priority: "P1", status: "OPEN" });
+      expect((await storage.getTaskByEventId(event.id))?.id).toBe(taskCreated!.id);
+    });
+
+    it("stores low severity events without a task", async () => {
+      const { event, taskCreated } = await taskService.createEvent({
+        type: "ROAS_DROP",
+        sku: "SKU-CONTRACT-2",
+        payload: { roas: 0.8 },
+        severity: "LOW",
+      });
+
+      expect(taskCreated).toBeUndefined();
+      expect(await storage.getTaskByEventId(event.id)).toBeUndefined();
+      expect((await storage.getEvent(event.id))?.sku).toBe("SKU-CONTRACT-2");
+    });
+
+    it("logs the routed task's creation and gives it a due date", async () => {
+      const task = await taskService.createTask({ title: "Count the back room", type: "RECONCILE", priority: "P3" });
+
+      expect(task.dueAt).toBeInstanceOf(Date);
+      expect(task.escalationLevel).toBe(0);
+      const activity = await storage.getTaskActivity(task.id);
+      expect(activity).toHaveLength(1);
+      expect(activity[0].meta).toMatchObject({ action: "created", status: "OPEN" });
+    });
+
+    it("resolving a task handles its source event", async () => {
+      const { event } = await taskService.createEvent({ type: "SYNC_ERROR", channel: "shopify", payload: {}, severity: "MEDIUM" });
+      const task = await taskService.createTaskFromEvent(event.id);
+
+      expect(task?.priority).toBe("P2");
+      const resolved = await storage.resolveTask(task!.id);
+      expect(resolved.task.status).toBe("DONE");
+      expect(resolved.event.status).toBe("HANDLED");
+    });
+  });
+
+  describe("purchase orders and supplier bills", () => {
+    it("keeps bills against their purchase order", async () => {
+      const workspaceId = randomUUID();
+      const po = await storage.createPurchaseOrder({
+        workspaceId,
+        supplierId: "supplier-1",
+        supplierName: "Northwind",
+        currency: "GBP",
+        status: "DRAFT",
+        items: [{ sku: "SKU-1", qty: 10, unitCost: 5, subtotal: 50, taxAmount: 10, total: 60 }],
+        totals: { subtotal: 50, tax: 10, grandTotal: 60 },
+      });
+
+      expect((await storage.getPurchaseOrders(workspaceId)).map(p => p.id)).toEqual([po.id]);
+      expect((await storage.updatePurchaseOrder(po.id, { status: "SENT" }))?.status).toBe("SENT");
+
+      const bill = await storage.createSupplierBill({
+        workspaceId,
+        purchaseOrderId: po.id,
+        supplierId: "supplier-1",
+        billNumber: "INV-100",
+        currency: "GBP",
+        lines: [{ sku: "SKU-1", qty: 10, unitCost: 5, total: 50 }],
+        totals: { subtotal: 50, tax: 10, grandTotal: 60 },
+      });
+
+      expect(bill.matchStatus).toBe("PENDING");
+      expect((await storage.getSupplierBills(po.id)).map(b => b.id)).toEqual([bill.id]);
+      expect((await storage.getWorkspaceSupplierBills(workspaceId)).map(b => b.id)).toEqual([bill.id]);
+      expect((await storage.updateSupplierBill(bill.id, { matchStatus: "MATCHED" }))?.matchStatus).toBe("MATCHED");
+      expect((await storage.getSupplierBill(bill.id))?.matchStatus).toBe("MATCHED");
+    });
+  });
+
+  describe("inventory levels", () => {
+    it("adds to a level's quantities, creating it on first use", async () => {
+      const workspaceId = randomUUID();
+
+      await storage.adjustInventoryLevel(workspaceId, "SKU-1", "loc-1", { onHand: 5, onOrder: 10 });
+      await Promise.all([
+        storage.adjustInventoryLevel(workspaceId, "SKU-1", "loc-1", { onHand: 3, onOrder: -3 }),
+        storage.adjustInventoryLevel(workspaceId, "SKU-1", "loc-1", { onHand: 4, onOrder: -4 }),
+      ]);
+      const level = await storage.adjustInventoryLevel(workspaceId, "SKU-1", "loc-1", { onOrder: -10 });
+
+      expect(level).toMatchObject({ onHand: 12, onOrder: 0 });
+      expect(await storage.getInventoryLevels(workspaceId)).toHaveLength(1);
+    });
+
+    it("applies stock adjustments made together on top of each other, never below zero", async () => {
+      const workspaceId = randomUUID();
+      const inventoryService = new InventoryService(storage);
+      const adjust = (delta: number) => inventoryService.adjustOnHand({ workspaceId, productId: "SKU-1", locationId: "loc-1", delta, reorderPoint: 5 });
+
+      const added = await Promise.all([adjust(10), adjust(6)]);
+      expect(added.map(result => result.level.onHand)).toContain(16);
+      expect(added.map(result => result.previousStock)).toContain(0);
+
+      // Whichever runs second is clamped: -4 then -12, or -16 then 0
+      const removed = await Promise.all([adjust(-4), adjust(-20)]);
+      expect(removed.map(result => result.level.onHand)).toContain(0);
+      expect(removed.reduce((sum, result) => sum + result.move.qty, 0)).toBe(-16);
+
+      const [level] = await storage.getInventoryLevels(workspaceId);
+      expect(level).toMatchObject({ onHand: 0, reorderPoint: 5 });
+      const moves = await storage.getInventoryMoves(workspaceId, { productId: "SKU-1" });
+      expect(moves).toHaveLength(4);
+      expect(moves.reduce((sum, move) => sum + move.qty, 0)).toBe(0);
+    });
+  });
+
+  describe("goods receiving", () => {
+    it("keeps every quantity and numbers each GRN once when receipts arrive together", async () => {
+      const workspaceId = randomUUID();
+      const created = await storage.createPurchaseOrder({
+        workspaceId,
+        supplierId: "supplier-1",
+        supplierName: "Northwind",
+        currency: "GBP",
+        status: "DRAFT",
+        items: [{ sku: "SKU-1", qty: 10, unitCost: 5, subtotal: 50, taxAmount: 10, total: 60 }],
+        totals: { subtotal: 50, tax: 10, grandTotal: 60 },
+      });
+      const po = (await storage.updatePurchaseOrder(created.id, { status: "SENT" }))!;
+      const receiving = new ReceivingService(storage);
+      const receipt = (receivedQty: number) => ({ locationId: "loc-1", lines: [{ sku: "SKU-1", receivedQty }], closeShort: false, isDefective: false });
+
+      const results = await Promise.all([receiving.receive(po, receipt(4)), receiving.receive(po, receipt(6))]);
+
+      expect(results.map(r => r.receipt.grnNumber).sort()).toEqual([1, 2].map(n => `GRN-${po.id.slice(0, 8).toUpperCase()}-${n}`));
+      const received = await storage.getPurchaseOrder(po.id);
+      expect(received?.status).toBe("RECEIVED");
+      expect(received?.items[0].receivedQty).toBe(10);
+      expect((await storage.getInventoryLevels(workspaceId, { productId: "SKU-1" }))[0].onHand).toBe(10);
+    });
+
+    it("matches bills entered before the goods arrived again", async () => {
+      const workspaceId = randomUUID();
+      const created = await storage.createPurchaseOrder({
+        workspaceId,
+        supplierId: "supplier-1",
+        supplierName: "Northwind",
+        currency: "GBP",
+        status: "DRAFT",
+        items: [{ sku: "SKU-1", qty: 10, unitCost: 5, subtotal: 50, taxAmount: 10, total: 60 }],
+        totals: { subtotal: 50, tax: 10, grandTotal: 60 },
+      });
+      const po = (await storage.updatePurchaseOrder(created.id, { status: "SENT" }))!;
+      const bill = await new BillMatchService(storage).createBill(po, {
+        billNumber: "INV-200",
+        lines: [{ sku: "SKU-1", qty: 10, unitCost: 5 }],
+        tax: 10,
+      });
+      expect(bill.matchStatus).toBe("MISMATCH");
+
+      await new ReceivingService(storage).receive(po, { locationId: "loc-1", lines: [{ sku: "SKU-1", receivedQty: 10 }], closeShort: false, isDefective: false });
+
+      expect((await storage.getSupplierBill(bill.id))?.matchStatus).toBe("MATCHED");
+      expect((await storage.getEvent(bill.eventId!))?.status).toBe("HANDLED");
+    });
+  });
+
+  describe("paged lists", () => {
+    async function createOrders(workspaceId: string, skus: string[]) {
+      const customer = await storage.createCustomer({ workspaceId, name: "Northwind" });
+      const orders = [];
+      for (const sku of skus) {
+        orders.push(await storage.createSalesOrder({
+          workspaceId,
+          orderNumber: `ORD-${randomUUID()}`,
+          customerId: customer.id,
+          customerName: customer.name,
+          currency: "USD",
+          status: "PENDING",
+          items: [{ sku, productName: sku, quantity: 1, unitPrice: 500, subtotal: 500 }],
+          subtotal: 500,
+          tax: 0,
+          shipping: 0,
+          total: 500,
+        }));
+      }
+      return orders;
+    }
+
+    it("pages in (updatedAt, id) order, resuming after the last record of the page before", async () => {
+      const workspaceId = randomUUID();
+      const orders = await createOrders(workspaceId, ["SKU-1", "SKU-2", "SKU-3", "SKU-4", "SKU-5"]);
+      const sorted = [...orders]
+        .sort((a, b) => a.updatedAt.getTime() - b.updatedAt.getTime() || (a.id < b.id ? -1 : 1))
+        .map(order => order.id);
+
+      const seen: string[] = [];
+      let after: { updatedAt: Date; id: string } | undefined;
+      for (let pages = 0; pages < 3; pages++) {
+        const page = await storage.listSalesOrders(workspaceId, { order: "asc", limit: 2, after });
+        seen.push(...page.map(order => order.id));
+        const last = page[page.length - 1];
+        after = { updatedAt: last.updatedAt, id: last.id };
+      }
+
+      expect(seen).toEqual(sorted);
+      expect((await storage.listSalesOrders(workspaceId, { order: "desc", limit: 10 })).map(order => order.id)).toEqual([...sorted].reverse());
+      expect(await storage.listSalesOrders(workspaceId, { order: "desc", limit: 10, after: { updatedAt: new Date(0), id: "" } })).toEqual([]);
+    });
+
+    it("filters case-insensitively on any of the values, and on the SKUs of an order's lines", async () => {
+      const workspaceId = randomUUID();
+      const [first, second] = await createOrders(workspaceId, ["SKU-A", "SKU-B", "SKU-C"]);
+      await storage.updateSalesOrder(second.id, { status: "SHIPPED" });
+
+      const list = (filters: Record<string, string[]>) =>
+        storage.listSalesOrders(workspaceId, { order: "asc", limit: 10, filters }).then(orders => orders.map(order => order.id).sort());
+
+      expect(await list({ sku: ["sku-a", "sku-b"] })).toEqual([first.id, second.id].sort());
+      expect(await list({ status: ["shipped"] })).toEqual([second.id]);
+      expect(await list({ status: ["pending"], sku: ["SKU-B"] })).toEqual([]);
+    });
+
+    it("selects on ranges, with updatedAt among them", async () => {
+      const workspaceId = randomUUID();
+      const [first] = await createOrders(workspaceId, ["SKU-1"]);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      const since = new Date();
+      const [second] = await createOrders(workspaceId, ["SKU-2"]);
+
+      const updatedSince = await storage.listSalesOrders(workspaceId, { order: "asc", limit: 10, ranges: { updatedAt: { since } } });
+      const createdBefore = await storage.listSalesOrders(workspaceId, { order: "asc", limit: 10, ranges: { createdAt: { before: since } } });
+
+      expect(updatedSince.map(order => order.id)).toEqual([second.id]);
+      expect(createdBefore.map(order => order.id)).toEqual([first.id]);
+    });
+
+    it("filters products on their stock across locations and inventory on the catalogue product", async () => {
+      const workspaceId = randomUUID();
+      const low = await storage.createProduct({ workspaceId, sku: "LOW-1", name: "Low", category: "Mugs", reorderPoint: 10 });
+      const stocked = await storage.createProduct({ workspaceId, sku: "OK-1", name: "Stocked", reorderPoint: 10 });
+      await storage.adjustInventoryLevel(workspaceId, "LOW-1", "loc-1", { onHand: 4 });
+      await storage.adjustInventoryLevel(workspaceId, "LOW-1", "loc-2", { onHand: 4 });
+      await storage.adjustInventoryLevel(workspaceId, "OK-1", "loc-1", { onHand: 20 });
+      const loose = await storage.upsertInventoryLevel({ workspaceId, productId: "LOOSE-1", locationId: "loc-1", onHand: 1, reorderPoint: 5 });
+
+      const products = await storage.listProducts(workspaceId, { order: "asc", limit: 10, filters: { stockStatus: ["low stock"] } });
+      expect(products.map(product => product.id)).toEqual([low.id]);
+      expect((await storage.listProducts(workspaceId, { order: "asc", limit: 10, search: "stock" })).map(product => product.id)).toEqual([stocked.id]);
+
+      const levels = (filters: Record<string, string[]>) =>
+        storage.listInventoryLevels(workspaceId, { order: "asc", limit: 10, filters }).then(found => found.map(level => level.productId).sort());
+      expect(await levels({ category: ["mugs"] })).toEqual(["LOW-1", "LOW-1"]);
+      expect(await levels({ category: ["Uncategorized"] })).toEqual(["LOOSE-1", "OK-1"]);
+      expect(await levels({ catalogueId: [stocked.id] })).toEqual(["OK-1"]);
+      expect((await storage.listInventoryLevels(workspaceId, { order: "asc", limit: 10, lowStock: true })).map(level => level.id)).toEqual([loose.id]);
+    });
+
+    it("pages forecasts by their API id and lists all-locations forecasts under 'all'", async () => {
+      const workspaceId = randomUUID();
+      const result = getForecastForHorizon([], "SKU-1", undefined, "30", "moving_avg");
+      const computedAt = new Date();
+      for (const locationId of [null, "loc-1"]) {
+        for (const horizon of ["30", "60"] as const) {
+          await storage.upsertForecast({ workspaceId, productId: "SKU-1", locationId, horizon, method: "moving_avg", result, computedAt });
+        }
+      }
+
+      const first = await storage.listForecasts(workspaceId, { order: "asc", limit: 2, filters: { locationId: ["all", "loc-1"] } });
+      const rest = await storage.listForecasts(workspaceId, {
+        order: "asc",
+        limit: 10,
+        after: { updatedAt: computedAt, id: `SKU-1:${first[1].locationId || "all"}:${first[1].horizon}:moving_avg` },
+      });
+
+      expect([...first, ...rest].map(f => `${f.locationId || "all"}:${f.horizon}`)).toEqual(["all:30", "all:60", "loc-1:30", "loc-1:60"]);
+      expect(await storage.getForecastTimes(workspaceId)).toEqual([{ productId: "SKU-1", method: "moving_avg", computedAt }]);
+    });
+
+    it("looks up the related records an expansion asks for", async () => {
+      const workspaceId = randomUUID();
+      const [first, second] = await createOrders(workspaceId, ["SKU-1", "SKU-2"]);
+
+      expect((await storage.getSalesOrders(workspaceId, { ids: [second.id] })).map(order => order.id)).toEqual([second.id]);
+      expect((await storage.getCustomers(workspaceId, { ids: [first.customerId] })).map(customer => customer.id)).toEqual([first.customerId]);
+      expect(await storage.getCustomers(workspaceId, { ids: [] })).toEqual([]);
+      expect(await storage.getSoldSkus(workspaceId).then(skus => skus.sort())).toEqual(["SKU-1", "SKU-2"]);
+    });
+  });
+
+  describe("shipments", () => {
+    let organizationId: string;
+    let shipmentData: InsertShipment;
+
+    beforeAll(async () => {
+      organizationId = (await createAdmin()).organizationId!;
+      const connector = await storage.createShippingConnector({
+        organizationId,
+        provider: "shiprocket",
+        name: "Shiprocket Main Account",
+        status: "active",
+        encryptedCredentials: "",
+        config: {},
+        lastTestAt: null,
+        lastTestStatus: null,
+      });
+
+      shipmentData = {
+        organizationId,
+        connectorId: connector.id,
+        salesOrderId: null,
+        shippingRuleId: null,
+        provider: "shiprocket",
+        providerShipmentId: "",
+        trackingNumber: null,
+        status: "created",
+        fromAddress: address,
+        toAddress: address,
+        packageInfo: [],
+        cost: { currency: "INR", amount: 9900, service: "Standard", serviceCode: null },
+      };
+    });
+
+    it("finds a carrier's shipment by its shipment ID or tracking number", async () => {
+      const shipment = await storage.createShipment({ ...shipmentData, providerShipmentId: "SR-1001", trackingNumber: "AWB-1001" });
+
+      expect((await storage.findShipmentByProviderRef("shiprocket", { providerShipmentId: "SR-1001" }))?.id).toBe(shipment.id);
+      expect((await storage.findShipmentByProviderRef("shiprocket", { trackingNumber: "AWB-1001" }))?.id).toBe(shipment.id);
+      expect((await storage.findShipmentByProviderRef("shiprocket", { providerShipmentId: "SR-missing", trackingNumber: "AWB-1001" }))?.id).toBe(shipment.id);
+    });
+
+    it("doesn't match another carrier's shipment or an empty reference", async () => {
+      await storage.createShipment({ ...shipmentData, providerShipmentId: "SR-2002", trackingNumber: "AWB-2002" });
+
+      expect(await storage.findShipmentByProviderRef("dhl", { providerShipmentId: "SR-2002" })).toBeUndefined();
+      expect(await storage.findShipmentByProviderRef("shiprocket", {})).toBeUndefined();
+    });
+
+    it("claims in-flight shipments due a tracking poll once per lease", async () => {
+      const shipment = await storage.createShipment({ ...shipmentData, providerShipmentId: "SR-3003", trackingNumber: "AWB-3003" });
+      const now = new Date();
+
+      const claimed = await storage.claimShipmentsForTracking(now, 100, 60000);
+      expect(claimed.map(s => s.id)).toContain(shipment.id);
+
+      const reclaimed = await storage.claimShipmentsForTracking(now, 100, 60000);
+      expect(reclaimed.map(s => s.id)).not.toContain(shipment.id);
+    });
+  });
+
+  describe("returns", () => {
+    it("keeps returns per organization and applies updates", async () => {
+      const { organizationId, id: userId } = await createAdmin();
+      const created = await storage.createReturn({
+        rmaId: `RMA-${randomUUID()}`,
+        organizationId: organizationId!,
+        customerName: "Sarah Johnson",
+        customerEmail: "sarah@example.com",
+        orderReference: "ORD-1001",
+        items: [{ sku: "SKU-1", productName: "Headphones", quantity: 1, unitPrice: 12999 }],
+        reason: "damaged",
+        totalValue: 12999,
+        createdBy: userId,
+      });
+
+      expect(created).toMatchObject({ status: "requested", resolution: "none", currency: "USD", assignedTo: null });
+      expect((await storage.getReturns(organizationId!)).map(r => r.id)).toEqual([created.id]);
+      expect(await storage.getReturns(randomUUID())).toEqual([]);
+
+      const updated = await storage.updateReturn(created.id, { status: "approved", inspectionNotes: "Box crushed" });
+      expect(updated).toMatchObject({ status: "approved", inspectionNotes: "Box crushed", items: created.items });
+      expect((await storage.getReturn(created.id))?.status).toBe("approved");
+      expect(await storage.getReturns(organizationId!, { status: "requested" })).toEqual([]);
+      expect(await storage.updateReturn(randomUUID(), { status: "approved" })).toBeUndefined();
+    });
+  });
+
+  describe("webhook deliveries", () => {
+    async function claimDelivery() {
+      const webhook = await storage.createWebhook({ url: "https://example.com/hooks", secret: "whsec_test", events: ["order.created"] });
+      const [queued] = await storage.enqueueWebhookDeliveries([{
+        webhookId: webhook.id,
+        eventType: "order.created",
+        payload: { id: randomUUID(), event: "order.created", version: 1, timestamp: new Date().toISOString(), data: {} },
+        url: webhook.url,
+        maxAttempts: 1,
+      }]);
+      const claimed = await storage.claimWebhookDeliveries("worker-1", 100, 60000);
+      expect(claimed.map(d => d.id)).toContain(queued.id);
+      return { webhook, delivery: queued };
+    }
+
+    it("keeps exhausted deliveries as dead letters out of the queue until they are requeued", async () => {
+      const { webhook, delivery } = await claimDelivery();
+      const queueLength = await storage.getWebhookQueueLength();
+
+      await storage.deadLetterWebhookDelivery(delivery.id, "worker-1", { attemptedAt: new Date(), statusCode: 503, responseBody: "down", error: null });
+
+      const [dead] = await storage.listDeadWebhookDeliveries(webhook.id);
+      expect(dead).toMatchObject({ id: delivery.id, statusCode: 503, responseBody: "down", lockedBy: null });
+      expect(dead.deadAt).toBeInstanceOf(Date);
+      expect(await storage.getWebhookQueueLength()).toBe(queueLength - 1);
+      expect(await storage.claimWebhookDeliveries("worker-2", 100, 60000)).toEqual([]);
+
+      expect(await storage.requeueDeadWebhookDeliveries(webhook.id, [randomUUID()])).toEqual([]);
+      const [requeued] = await storage.requeueDeadWebhookDeliveries(webhook.id);
+      expect(requeued).toMatchObject({ id: delivery.id, attemptNumber: 1, deadAt: null });
+      expect(await storage.listDeadWebhookDeliveries(webhook.id)).toEqual([]);
+      expect((await storage.claimWebhookDeliveries("worker-2", 100, 60000)).map(d => d.id)).toEqual([delivery.id]);
+    });
+
+    it("logs attempts per webhook, newest first, and drops them with the webhook", async () => {
+      const { webhook, delivery } = await claimDelivery();
+      const attempt = (attemptNumber: number, success: boolean, attemptedAt: Date) => storage.createWebhookDeliveryAttempt({
+        webhookId: webhook.id,
+        deliveryId: delivery.id,
+        eventId: delivery.payload.id,
+        eventType: delivery.eventType,
+        attemptNumber,
+        url: delivery.url,
+        requestHeaders: { "X-Flowventory-Event": delivery.eventType },
+        requestBody: delivery.payload,
+        statusCode: success ? 200 : 500,
+        durationMs: 42,
+        success,
+        attemptedAt,
+      });
+      const first = await attempt(1, false, new Date("2026-03-01T10:00:00Z"));
+      const second = await attempt(2, true, new Date("2026-03-01T10:01:00Z"));
+
+      expect((await storage.listWebhookDeliveryAttempts(webhook.id, { limit: 10 })).map(a => a.id)).toEqual([second.id, first.id]);
+      expect((await storage.listWebhookDeliveryAttempts(webhook.id, { success: false, limit: 10 })).map(a => a.id)).toEqual([first.id]);
+      expect((await storage.listWebhookDeliveryAttempts(webhook.id, { before: second.attemptedAt, limit: 10 })).map(a => a.id)).toEqual([first.id]);
+      expect(await storage.listWebhookDeliveryAttempts(webhook.id, { deliveryId: randomUUID(), limit: 10 })).toEqual([]);
+      expect(first.requestBody).toEqual(delivery.payload);
+
+      await storage.deleteWebhook(webhook.id);
+      expect(await storage.listWebhookDeliveryAttempts(webhook.id, { limit: 10 })).toEqual([]);
+    });
+  });
+
+  describe("idempotency keys", () => {
+    it("lets only the first request claim a key", async () => {
+      const id = `contract:${randomUUID()}`;
+      const record = {
+        id,
+        scope: "contract",
+        key: id,
+        method: "POST",
+        path: "/api/v1/orders",
+        fingerprint: "abc123",
+        expiresAt: new Date(Date.now() + 60000),
+      };
+
+      expect((await storage.claimIdempotencyKey(record)).claimed).toBe(true);
+      const second = await storage.claimIdempotencyKey(record);
+      expect(second.claimed).toBe(false);
+      expect(second.record.status).toBe("in_progress");
+
+      await storage.releaseIdempotencyKey(id);
+      expect((await storage.claimIdempotencyKey(record)).claimed).toBe(true);
+    });
+
+    it("deletes only keys that have expired", async () => {
+      const key = (expiresAt: Date) => {
+        const id = `contract:${randomUUID()}`;
+        return { id, scope: "contract", key: id, method: "POST", path: "/api/v1/orders", fingerprint: "abc123", expiresAt };
+      };
+      const expired = key(new Date(Date.now() - 1000));
+      const live = key(new Date(Date.now() + 60000));
+      await storage.claimIdempotencyKey(expired);
+      await storage.claimIdempotencyKey(live);
+
+      expect(await storage.deleteExpiredIdempotencyKeys(new Date())).toBeGreaterThanOrEqual(1);
+      expect((await storage.claimIdempotencyKey(expired)).claimed).toBe(true);
+      expect((await storage.claimIdempotencyKey(live)).claimed).toBe(false);
+    });
+  });
+});
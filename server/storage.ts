@@ -1,7 +1,7 @@
-import { type User, type InsertUser, type OnboardingData, type InsertOnboardingData, type PlatformConnections, type Organization, type TeamInvitation, type InviteTeamMemberData, type UpdateTeamMemberData, type Notification, type CreateNotificationData, type Event, type InsertEvent, type Task, type InsertTask, type CreateEventData, type CreateTaskData, type UpdateTaskData, type PurchaseOrder, type InsertPurchaseOrder, type Comment, type InsertComment, type Activity, type InsertActivity, type Rule, type InsertRule, type CreateCommentData, type CreateRuleData, type ReconBatch, type InsertReconBatch, type ReconRow, type InsertReconRow, type ReconIngestData, type UpdateReconRowData, type Supplier, type InsertSupplier, type SupplierDelivery, type InsertSupplierDelivery, type ReorderPolicy, type InsertReorderPolicy, type ReorderSuggestData, type UpdatePurchaseOrderStatusData, type SimplePurchaseOrder, type InsertSimplePurchaseOrder, type WorkspaceSettings, type InsertWorkspaceSettings, type Region, type InsertRegion, type NotificationSettings, type InsertNotificationSettings, type Customer, type InsertCustomer, type UpdateCustomer, type SalesOrder, type InsertSalesOrder, type UpdateSalesOrder } from "@shared/schema";
+import { type User, type InsertUser, type OnboardingData, type InsertOnboardingData, type PlatformConnections, type Organization, type TeamInvitation, type InviteTeamMemberData, type UpdateTeamMemberData, type Notification, type CreateNotificationData, type Event, type InsertEvent, type Task, type InsertTask, type CreateEventData, type CreateTaskData, type UpdateTaskData, type PurchaseOrder, type InsertPurchaseOrder, type Comment, type InsertComment, type Activity, type InsertActivity, type Rule, type InsertRule, type CreateCommentData, type CreateRuleData, type UpdateRuleData, type RuleEvaluation, type EscalationPolicy, type EscalationActivityMeta, type CreateEscalationPolicyData, type UpdateEscalationPolicyData, type ReconBatch, type InsertReconBatch, type ReconRow, type InsertReconRow, type ReconIngestData, type UpdateReconRowData, type Supplier, type InsertSupplier, type SupplierDelivery, type InsertSupplierDelivery, type ReorderPolicy, type InsertReorderPolicy, type ReorderSuggestData, type UpdatePurchaseOrderStatusData, type SimplePurchaseOrder, type InsertSimplePurchaseOrder, type WorkspaceSettings, type InsertWorkspaceSettings, type Region, type InsertRegion, type NotificationSettings, type InsertNotificationSettings, type Customer, type InsertCustomer, type UpdateCustomer, type Return, type InsertReturn, type UpdateReturn, type SalesOrder, type InsertSalesOrder, type UpdateSalesOrder, type FxRateSnapshot, type InsertFxRateSnapshot, type ForecastRecord, type InsertForecastRecord, type InventoryLevel, type InsertInventoryLevel, type ReorderRun, type InsertReorderRun, type GoodsReceipt, type InsertGoodsReceipt, type InventoryMove, type InsertInventoryMove, type SupplierBill, type InsertSupplierBill, type ApiKey, type InsertApiKey, type RateLimitBucket, type AuditLog, type InsertAuditLog, type IdempotencyKey, type InsertIdempotencyKey, type Webhook, type InsertWebhook, type WebhookEvent, type InsertWebhookEvent, type WebhookDelivery, type InsertWebhookDelivery, type WebhookDeliveryAttempt, type InsertWebhookDeliveryAttempt, type ShippingRule, type CreateShippingRuleData, type UpdateShippingRuleData, type ProductDimensions, type UpsertProductDimensionsData, type ShippingBox, type CreateShippingBoxData, type UpdateShippingBoxData, type Product, type InsertProduct, type Invoice, type InsertInvoice, inFlightShipmentStatuses } from "@shared/schema";
 
 // Temporary placeholder types until schema is updated
-type ShippingConnector = {
+export type ShippingConnector = {
   id: string;
   organizationId: string;
   provider: string;
@@ -15,33 +15,195 @@ type ShippingConnector = {
   updatedAt: Date;
 };
 
-type InsertShippingConnector = Omit<ShippingConnector, 'id' | 'createdAt' | 'updatedAt'>;
+export type InsertShippingConnector = Omit<ShippingConnector, 'id' | 'createdAt' | 'updatedAt'>;
 
-type Shipment = {
+export type Shipment = {
   id: string;
   organizationId: string;
   connectorId: string;
   salesOrderId: string | null;
+  shippingRuleId: string | null; // Shipping rule that chose the carrier
   provider: string;
   providerShipmentId: string;
   trackingNumber: string | null;
-  status: 'created' | 'in_transit' | 'delivered' | 'exception' | 'cancelled';
+  status: 'created' | 'label_created' | 'picked_up' | 'in_transit' | 'delivered' | 'exception' | 'cancelled';
   fromAddress: Record<string, any>;
   toAddress: Record<string, any>;
   packageInfo: Record<string, any>;
   cost: Record<string, any>;
+  trackingEvents: ShipmentTrackingEvent[]; // Oldest first
+  lastSyncAt: Date | null;
+  statusChangedAt: Date | null;
+  nextTrackingPollAt: Date | null;
+  trackingPollAttempts: number;
+  delayAlertedAt: Date | null;
   createdAt: Date;
   updatedAt: Date;
 };
 
-type InsertShipment = Omit<Shipment, 'id' | 'createdAt' | 'updatedAt'>;
+export type ShipmentTrackingEvent = {
+  timestamp: string;
+  status: string;
+  location?: string;
+  description: string;
+  code?: string;
+};
+
+// Tracking state starts empty for new shipments
+export type InsertShipment = Omit<Shipment, 'id' | 'createdAt' | 'updatedAt' | 'trackingEvents' | 'lastSyncAt' | 'statusChangedAt' | 'nextTrackingPollAt' | 'trackingPollAttempts' | 'delayAlertedAt'>;
+
+export interface AuditLogFilters {
+  keyPrefix?: string;
+  keyId?: string;
+  method?: string;
+  pathPattern?: string; // case-insensitive regex
+  statusCode?: number;
+  fromDate?: Date;
+  toDate?: Date;
+  limit?: number;
+  offset?: number;
+}
+
+export interface AuditStats {
+  totalRequests: number;
+  uniqueKeys: number;
+  errorRate: number;
+  avgResponseTime: number;
+  topPaths: Array<{ path: string; count: number }>;
+  statusCodes: Record<string, number>;
+}
+
+// Outcome of a failed delivery attempt; the lease is released so the row can be claimed again when due
+export interface WebhookDeliveryRetry {
+  attemptNumber: number;
+  nextAttemptAt: Date;
+  attemptedAt: Date;
+  statusCode: number | null;
+  responseBody: string | null;
+  error: string | null;
+}
+
+// Newest first, resuming before the attemptedAt of the last attempt seen
+export interface WebhookDeliveryAttemptQuery {
+  deliveryId?: string;
+  success?: boolean;
+  before?: Date;
+  limit: number;
+}
+
+// One page of a list in (updatedAt, id) order, resuming after the last record of the page before.
+// Filters match any of their values, case-insensitively. Ranges are since (inclusive) to before
+// (exclusive); records without the date fall outside them
+export interface ListPageQuery<F extends string, D extends string = never> {
+  filters?: Partial<Record<F, string[]>>;
+  ranges?: Partial<Record<D | 'updatedAt', { since?: Date; before?: Date }>>;
+  after?: { updatedAt: Date; id: string };
+  order: 'asc' | 'desc';
+  limit: number;
+}
+
+// sku matches any line on the order
+export type SalesOrderListQuery = ListPageQuery<'status' | 'customerId' | 'orderNumber' | 'currency' | 'locationId' | 'sku', 'createdAt'>;
+
+// stockStatus is 'Low Stock' or 'In Stock', by the stock summed across locations against the reorder point
+export interface ProductListQuery extends ListPageQuery<'sku' | 'category' | 'supplier' | 'stockStatus' | 'regionId', 'createdAt'> {
+  search?: string;
+}
+
+// Levels are keyed by SKU; catalogueId and category are those of the SKU's catalogue product, with
+// levels of uncatalogued SKUs in 'Uncategorized'
+export interface InventoryLevelListQuery extends ListPageQuery<'sku' | 'catalogueId' | 'locationId' | 'category'> {
+  lowStock?: boolean; // on hand at or below the reorder point
+}
+
+export interface InvoiceListQuery extends ListPageQuery<
+  'status' | 'customerId' | 'orderId' | 'number' | 'currency',
+  'createdAt' | 'issueDate' | 'dueDate' | 'paidDate'
+> {
+  overdue?: boolean; // past due and neither paid nor cancelled
+}
+
+export interface CustomerListQuery extends ListPageQuery<'company' | 'email', 'createdAt'> {
+  search?: string;
+}
+
+// sku matches any SKU the supplier offers; search looks in the name and email
+export interface SupplierListQuery extends ListPageQuery<'status' | 'region' | 'currency' | 'sku', 'createdAt'> {
+  search?: string;
+}
+
+// Forecasts are listed by computedAt, and by the v1 API's id for them (productId:locationId:horizon:method)
+// rather than the row id. locationId 'all' selects the all-locations forecasts
+export type ForecastListQuery = ListPageQuery<'productId' | 'locationId' | 'horizon' | 'method'>;
 import { randomUUID } from "crypto";
 import session from "express-session";
 import createMemoryStore from "memorystore";
-import { notificationService } from "./notificationService";
+import { RuleEngine } from "./ruleEngine";
+import { TaskService } from "./taskService";
+import { ShippingRuleEngine } from "./shippingRuleEngine";
+import { DatabaseStorage } from "./databaseStorage";
+import { takeToken, type RateLimitConfig, type TokenBucketResult } from "./tokenBucket";
 
 const MemoryStore = createMemoryStore(session);
 
+// In-memory trails are bounded; the database backend keeps everything
+const MAX_MEM_AUDIT_LOGS = 10000;
+const MAX_MEM_WEBHOOK_EVENTS = 1000;
+const MAX_MEM_WEBHOOK_DELIVERY_ATTEMPTS = 5000;
+
+type ListValue = string | number | boolean | null | undefined;
+
+// How a list query reads a record kept in memory: its sort key and the values its filters and ranges select on
+interface MemListing<T, Q extends ListPageQuery<string, string>> {
+  updatedAt: (record: T) => Date;
+  id?: (record: T) => string;
+  filters: Record<keyof NonNullable<Q['filters']>, (record: T) => ListValue | ListValue[]>;
+  ranges?: Record<Exclude<keyof NonNullable<Q['ranges']>, 'updatedAt'>, (record: T) => Date | null | undefined>;
+}
+
+// The in-memory counterpart of DatabaseStorage's list queries
+function listRecords<T extends { id: string }, Q extends ListPageQuery<string, string>>(
+  records: T[],
+  listing: MemListing<T, Q>,
+  query: Q
+): T[] {
+  const idOf = listing.id || (record => record.id);
+  const direction = query.order === 'asc' ? 1 : -1;
+  const compare = (a: { updatedAt: Date; id: string }, b: { updatedAt: Date; id: string }) =>
+    direction * (a.updatedAt.getTime() - b.updatedAt.getTime() || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+
+  const filters = listing.filters as Record<string, (record: T) => ListValue | ListValue[]>;
+  const ranges = listing.ranges as Record<string, (record: T) => Date | null | undefined> | undefined;
+
+  return records
+    .filter(record => {
+      for (const [name, values] of Object.entries(query.filters || {}) as [string, string[] | undefined][]) {
+        if (!values) continue;
+        const selected = values.map(value => value.toLowerCase());
+        const value = filters[name](record);
+        const candidates = (Array.isArray(value) ? value : [value])
+          .filter(candidate => candidate !== null && candidate !== undefined)
+          .map(candidate => String(candidate).toLowerCase());
+        if (!candidates.some(candidate => selected.includes(candidate))) return false;
+      }
+
+      for (const [name, range] of Object.entries(query.ranges || {}) as [string, { since?: Date; before?: Date } | undefined][]) {
+        if (!range) continue;
+        const date = name === 'updatedAt' ? listing.updatedAt(record) : ranges![name](record);
+        if (!date) return false;
+        if (range.since && date < range.since) return false;
+        if (range.before && date >= range.before) return false;
+      }
+
+      return true;
+    })
+    .map(record => ({ record, updatedAt: listing.updatedAt(record), id: idOf(record) }))
+    .filter(entry => !query.after || compare(entry, query.after) > 0)
+    .sort(compare)
+    .slice(0, query.limit)
+    .map(({ record }) => record);
+}
+
 // modify the interface with any CRUD methods
 // you might need
 
@@ -71,14 +233,14 @@ export interface IStorage {
   deleteExpiredNotifications(): Promise<void>;
   
   // Action Center Event methods
-  createEvent(eventData: CreateEventData): Promise<{ event: Event, taskCreated?: Task }>;
+  createEvent(eventData: CreateEventData): Promise<Event>;
   getEvents(filters?: { status?: string, type?: string, severity?: string, summary?: boolean }): Promise<Event[] | { events: Event[], summary: any }>;
   getEvent(id: string): Promise<Event | undefined>;
   updateEvent(id: string, updates: Partial<Event>): Promise<Event | undefined>;
   
   // Action Center Task methods  
-  createTask(taskData: CreateTaskData): Promise<Task>;
-  createTaskFromEvent(eventId: string): Promise<Task | undefined>;
+  // Persists a task as TaskService routed it; create tasks through TaskService
+  createTask(taskData: Omit<InsertTask, "id">): Promise<Task>;
   getTasks(filters?: { status?: string, assigneeId?: string, type?: string, priority?: string, overdue?: boolean }): Promise<Task[]>;
   getTask(id: string): Promise<Task | undefined>;
   updateTask(id: string, updates: UpdateTaskData): Promise<Task | undefined>;
@@ -97,13 +259,35 @@ export interface IStorage {
 
   // Rules methods
   getRules(): Promise<Rule[]>;
+  getRule(id: string): Promise<Rule | undefined>;
   createRule(ruleData: CreateRuleData): Promise<Rule>;
+  updateRule(id: string, updates: UpdateRuleData): Promise<Rule | undefined>;
+  reorderRules(ruleIds: string[]): Promise<Rule[]>;
   deleteRule(id: string): Promise<boolean>;
-  findMatchingRule(taskType: string): Promise<Rule | undefined>;
+
+  // SLA escalation methods
+  getEscalationPolicies(): Promise<EscalationPolicy[]>;
+  createEscalationPolicy(policyData: CreateEscalationPolicyData): Promise<EscalationPolicy>;
+  updateEscalationPolicy(id: string, updates: UpdateEscalationPolicyData): Promise<EscalationPolicy | undefined>;
+  deleteEscalationPolicy(id: string): Promise<boolean>;
+  escalateTask(id: string, escalation: { priority?: Task["priority"], assigneeId?: string, escalatedAt: Date, meta: Pick<EscalationActivityMeta, "policyId" | "policyName" | "trigger" | "hours" | "reason"> }): Promise<Task | undefined>;
   getPurchaseOrder(id: string): Promise<PurchaseOrder | undefined>;
+  // Reads a purchase order for update; inside a transaction the row stays locked until it ends
+  lockPurchaseOrder(id: string): Promise<PurchaseOrder | undefined>;
   updatePurchaseOrder(id: string, updates: Partial<PurchaseOrder>): Promise<PurchaseOrder | undefined>;
   deletePurchaseOrder(id: string): Promise<void>;
 
+  // Goods receipt methods
+  createGoodsReceipt(receiptData: InsertGoodsReceipt): Promise<GoodsReceipt>;
+  getGoodsReceipts(purchaseOrderId: string): Promise<GoodsReceipt[]>;
+
+  // Supplier bill methods
+  createSupplierBill(billData: InsertSupplierBill): Promise<SupplierBill>;
+  getSupplierBills(purchaseOrderId: string): Promise<SupplierBill[]>;
+  getWorkspaceSupplierBills(workspaceId: string): Promise<SupplierBill[]>;
+  getSupplierBill(id: string): Promise<SupplierBill | undefined>;
+  updateSupplierBill(id: string, updates: Partial<SupplierBill>): Promise<SupplierBill | undefined>;
+
   // Reconciliation methods
   createReconBatch(batchData: InsertReconBatch): Promise<ReconBatch>;
   createReconRow(rowData: InsertReconRow): Promise<ReconRow>;
@@ -113,6 +297,7 @@ export interface IStorage {
   // Restock Autopilot - Supplier methods
   createSupplier(supplierData: InsertSupplier): Promise<Supplier>;
   getSuppliers(workspaceId: string, filters?: { sku?: string }): Promise<Supplier[]>;
+  listSuppliers(workspaceId: string, query: SupplierListQuery): Promise<Supplier[]>;
   getSupplier(id: string): Promise<Supplier | undefined>;
   updateSupplier(id: string, updates: Partial<Supplier>): Promise<Supplier | undefined>;
   deleteSupplier(id: string): Promise<void>;
@@ -121,11 +306,34 @@ export interface IStorage {
   createReorderPolicy(policyData: InsertReorderPolicy): Promise<ReorderPolicy>;
   getReorderPolicy(workspaceId: string, sku: string): Promise<ReorderPolicy | undefined>;
   updateReorderPolicy(workspaceId: string, sku: string, updates: Partial<ReorderPolicy>): Promise<ReorderPolicy | undefined>;
+  getReorderPolicies(workspaceId: string): Promise<ReorderPolicy[]>;
+
+  // Inventory level methods
+  getInventoryLevels(workspaceId: string, filters?: { productId?: string, productIds?: string[], locationId?: string }): Promise<InventoryLevel[]>;
+  listInventoryLevels(workspaceId: string, query: InventoryLevelListQuery): Promise<InventoryLevel[]>;
+  upsertInventoryLevel(levelData: InsertInventoryLevel): Promise<InventoryLevel>;
+  // Adds to a level's quantities in one step, creating the level if needed. On order never drops below zero
+  adjustInventoryLevel(workspaceId: string, productId: string, locationId: string, change: { onHand?: number, onOrder?: number }): Promise<InventoryLevel>;
+  // Reads a level for update, creating an empty one if there is none; inside a transaction the row stays locked until it ends
+  lockInventoryLevel(workspaceId: string, productId: string, locationId: string, defaults?: { reorderPoint?: number }): Promise<InventoryLevel>;
+  createInventoryMove(moveData: InsertInventoryMove): Promise<InventoryMove>;
+  getInventoryMoves(workspaceId: string, filters?: { productId?: string, refId?: string }): Promise<InventoryMove[]>;
+
+  // Reorder run methods
+  createReorderRun(runData: InsertReorderRun): Promise<ReorderRun>;
+  getReorderRuns(workspaceId: string): Promise<ReorderRun[]>;
+  getReorderRun(id: string): Promise<ReorderRun | undefined>;
+  updateReorderRun(id: string, updates: Partial<ReorderRun>): Promise<ReorderRun | undefined>;
   getReconRows(batchId: string, filters?: { status?: string, hasDiff?: boolean, limit?: number, offset?: number }): Promise<ReconRow[]>;
   getReconRow(id: string): Promise<ReconRow | undefined>;
   updateReconRow(id: string, updates: UpdateReconRowData): Promise<ReconRow | undefined>;
   updateReconBatch(id: string, updates: Partial<ReconBatch>): Promise<ReconBatch | undefined>;
   updateReconBatchTotals(batchId: string, totals: { expectedBaseTotal: number, paidBaseTotal: number, diffBaseTotal: number, ordersTotal: number, mismatchedCount: number }): Promise<void>;
+
+  // FX rate snapshot methods
+  createFxRateSnapshot(snapshotData: InsertFxRateSnapshot): Promise<FxRateSnapshot>;
+  getFxRateSnapshot(date: string): Promise<FxRateSnapshot | undefined>;
+  getFxRateSnapshots(filters?: { from?: string, to?: string, limit?: number }): Promise<FxRateSnapshot[]>;
   
   // Simple Purchase Order methods
   createSimplePurchaseOrder(poData: InsertSimplePurchaseOrder): Promise<SimplePurchaseOrder>;
@@ -151,6 +359,7 @@ export interface IStorage {
   // SLA Tracking methods
   createSupplierDelivery(deliveryData: InsertSupplierDelivery): Promise<SupplierDelivery>;
   updateSupplierDelivery(id: string, updates: Partial<SupplierDelivery>): Promise<SupplierDelivery | undefined>;
+  getSupplierDelivery(id: string): Promise<SupplierDelivery | undefined>;
   getSupplierDeliveries(supplierId: string): Promise<SupplierDelivery[]>;
   calculateSupplierSLAMetrics(supplierId: string): Promise<{ onTimeRatePct: number, defectRatePct: number, avgLeadTimeDays: number, breachCount: number, totalDeliveries: number }>;
   updateSupplierSLAMetrics(supplierId: string): Promise<void>;
@@ -159,7 +368,8 @@ export interface IStorage {
   
   // Customer methods
   createCustomer(customerData: InsertCustomer): Promise<Customer>;
-  getCustomers(workspaceId: string, filters?: { search?: string, company?: string }): Promise<Customer[]>;
+  getCustomers(workspaceId: string, filters?: { ids?: string[], search?: string, company?: string }): Promise<Customer[]>;
+  listCustomers(workspaceId: string, query: CustomerListQuery): Promise<Customer[]>;
   getCustomer(id: string): Promise<Customer | undefined>;
   updateCustomer(id: string, updates: UpdateCustomer): Promise<Customer | undefined>;
   deleteCustomer(id: string): Promise<void>;
@@ -167,10 +377,41 @@ export interface IStorage {
   
   // Sales Order methods
   createSalesOrder(orderData: InsertSalesOrder): Promise<SalesOrder>;
-  getSalesOrders(workspaceId: string, filters?: { customerId?: string, status?: string }): Promise<SalesOrder[]>;
+  getSalesOrders(workspaceId: string, filters?: { ids?: string[], customerId?: string, customerIds?: string[], status?: string }): Promise<SalesOrder[]>;
+  listSalesOrders(workspaceId: string, query: SalesOrderListQuery): Promise<SalesOrder[]>;
+  // SKUs on the workspace's orders that weren't cancelled
+  getSoldSkus(workspaceId: string): Promise<string[]>;
   getSalesOrder(id: string): Promise<SalesOrder | undefined>;
   updateSalesOrder(id: string, updates: UpdateSalesOrder): Promise<SalesOrder | undefined>;
   deleteSalesOrder(id: string): Promise<void>;
+  getSalesOrderWorkspaceIds(): Promise<string[]>;
+  
+  // Return (RMA) methods
+  createReturn(returnData: InsertReturn & { rmaId: string }): Promise<Return>;
+  getReturns(organizationId: string, filters?: { status?: string }): Promise<Return[]>;
+  getReturn(id: string): Promise<Return | undefined>;
+  updateReturn(id: string, updates: UpdateReturn): Promise<Return | undefined>;
+  
+  // Product catalogue methods
+  createProduct(productData: InsertProduct): Promise<Product>;
+  getProducts(workspaceId: string, filters?: { sku?: string, skus?: string[], category?: string, search?: string }): Promise<Product[]>;
+  listProducts(workspaceId: string, query: ProductListQuery): Promise<Product[]>;
+  getProduct(id: string): Promise<Product | undefined>;
+  updateProduct(id: string, updates: Partial<Product>): Promise<Product | undefined>;
+  
+  // Invoice methods
+  createInvoice(invoiceData: InsertInvoice): Promise<Invoice>;
+  getInvoices(workspaceId: string, filters?: { customerId?: string, orderIds?: string[], status?: string, currency?: string }): Promise<Invoice[]>;
+  listInvoices(workspaceId: string, query: InvoiceListQuery): Promise<Invoice[]>;
+  getInvoice(id: string): Promise<Invoice | undefined>;
+  updateInvoice(id: string, updates: Partial<Invoice>): Promise<Invoice | undefined>;
+  
+  // Forecast methods
+  upsertForecast(forecastData: InsertForecastRecord): Promise<ForecastRecord>;
+  getForecasts(workspaceId: string, filters?: { productId?: string, locationId?: string, horizon?: string, method?: string }): Promise<ForecastRecord[]>;
+  listForecasts(workspaceId: string, query: ForecastListQuery): Promise<ForecastRecord[]>;
+  // When each SKU and method's forecasts matching the filters were last computed, without the forecasts
+  getForecastTimes(workspaceId: string, filters?: { productId?: string, locationId?: string, horizon?: string, method?: string }): Promise<{ productId: string, method: ForecastRecord["method"], computedAt: Date }[]>;
   
   // Shipping Connector methods
   createShippingConnector(connectorData: InsertShippingConnector): Promise<ShippingConnector>;
@@ -178,14 +419,89 @@ export interface IStorage {
   getShippingConnector(id: string): Promise<ShippingConnector | undefined>;
   updateShippingConnector(id: string, updates: Partial<ShippingConnector>): Promise<ShippingConnector | undefined>;
   deleteShippingConnector(id: string): Promise<void>;
-  testShippingConnector(id: string): Promise<{ success: boolean; error?: string }>;
   
   // Shipment methods
   createShipment(shipmentData: InsertShipment): Promise<Shipment>;
   getShipments(organizationId: string, filters?: { connectorId?: string, orderId?: string, status?: string }): Promise<Shipment[]>;
   getShipment(id: string): Promise<Shipment | undefined>;
+  // A carrier's shipment by the carrier's own shipment ID or tracking number, for carrier webhooks
+  findShipmentByProviderRef(provider: string, ref: { providerShipmentId?: string, trackingNumber?: string }): Promise<Shipment | undefined>;
   updateShipment(id: string, updates: Partial<Shipment>): Promise<Shipment | undefined>;
+  // Claim in-flight shipments whose tracking poll is due, pushing their next poll out by leaseMs so
+  // concurrent pollers skip them; the poller sets the real next poll time when it is done
+  claimShipmentsForTracking(now: Date, limit: number, leaseMs: number): Promise<Shipment[]>;
+  
+  // Shipping rule methods
+  getShippingRules(organizationId: string): Promise<ShippingRule[]>;
+  getShippingRule(id: string): Promise<ShippingRule | undefined>;
+  createShippingRule(organizationId: string, ruleData: CreateShippingRuleData): Promise<ShippingRule>;
+  updateShippingRule(id: string, updates: UpdateShippingRuleData): Promise<ShippingRule | undefined>;
+  reorderShippingRules(organizationId: string, ruleIds: string[]): Promise<ShippingRule[]>;
+  deleteShippingRule(id: string): Promise<boolean>;
+  
+  // Packing methods - product dimensions by SKU and the box catalogue
+  getProductDimensions(organizationId: string, skus?: string[]): Promise<ProductDimensions[]>;
+  upsertProductDimensions(organizationId: string, sku: string, data: UpsertProductDimensionsData): Promise<ProductDimensions>;
+  deleteProductDimensions(organizationId: string, sku: string): Promise<boolean>;
+  getShippingBoxes(organizationId: string, locationId?: string): Promise<ShippingBox[]>; // With a location: its boxes plus the shared ones
+  getShippingBox(id: string): Promise<ShippingBox | undefined>;
+  createShippingBox(organizationId: string, boxData: CreateShippingBoxData): Promise<ShippingBox>;
+  updateShippingBox(id: string, updates: UpdateShippingBoxData): Promise<ShippingBox | undefined>;
+  deleteShippingBox(id: string): Promise<boolean>;
+  
+  // Public API key methods
+  createApiKey(keyData: InsertApiKey): Promise<ApiKey>;
+  getActiveApiKeyByHash(hashedKey: string): Promise<ApiKey | undefined>;
+  listApiKeys(workspaceId?: string): Promise<ApiKey[]>;
+  revokeApiKey(id: string): Promise<boolean>;
+  
+  // Rate limit methods - consuming a token is a single atomic read-refill-take on the key's bucket
+  consumeRateLimitToken(keyPrefix: string, config: RateLimitConfig): Promise<TokenBucketResult>;
+  getRateLimitBuckets(keyPrefix?: string): Promise<RateLimitBucket[]>;
+  deleteRateLimitBuckets(lastRefillBefore: Date): Promise<number>;
+  
+  // Audit log methods - entries are only ever appended
+  appendAuditLog(entry: InsertAuditLog): Promise<void>;
+  queryAuditLogs(filters: AuditLogFilters): Promise<{ entries: AuditLog[], total: number }>;
+  getAuditStats(): Promise<AuditStats>;
+  
+  // Idempotency key methods - a key is claimed atomically, so only one request per key runs; expired keys can be claimed again
+  claimIdempotencyKey(record: InsertIdempotencyKey): Promise<{ record: IdempotencyKey, claimed: boolean }>;
+  completeIdempotencyKey(id: string, response: { status: number, body: unknown }): Promise<void>;
+  releaseIdempotencyKey(id: string): Promise<void>;
+  deleteExpiredIdempotencyKeys(expiredBefore: Date): Promise<number>;
+  
+  // Webhook methods
+  createWebhook(webhookData: InsertWebhook): Promise<Webhook>;
+  getWebhook(id: string): Promise<Webhook | undefined>;
+  listWebhooks(workspaceId?: string): Promise<Webhook[]>;
+  updateWebhook(id: string, updates: Partial<Webhook>): Promise<Webhook | undefined>;
+  deleteWebhook(id: string): Promise<boolean>;
+  recordWebhookAttempt(id: string, attempt: { statusCode: number | null, attemptedAt: Date, success: boolean }): Promise<void>;
+  createWebhookEvent(eventData: InsertWebhookEvent): Promise<WebhookEvent>;
+  countWebhookEvents(since: Date): Promise<number>;
   
+  // Webhook delivery queue - workers claim due deliveries under a lease, then complete or reschedule them
+  enqueueWebhookDeliveries(deliveries: InsertWebhookDelivery[]): Promise<WebhookDelivery[]>;
+  claimWebhookDeliveries(workerId: string, limit: number, leaseMs: number): Promise<WebhookDelivery[]>;
+  completeWebhookDelivery(id: string, workerId: string): Promise<void>;
+  rescheduleWebhookDelivery(id: string, workerId: string, retry: WebhookDeliveryRetry): Promise<void>;
+  getWebhookQueueLength(): Promise<number>;
+  getWebhookDelivery(id: string): Promise<WebhookDelivery | undefined>;
+
+  // Dead letters - deliveries that ran out of attempts, kept until they are replayed
+  deadLetterWebhookDelivery(id: string, workerId: string, outcome: Omit<WebhookDeliveryRetry, 'attemptNumber' | 'nextAttemptAt'>): Promise<void>;
+  listDeadWebhookDeliveries(webhookId: string): Promise<WebhookDelivery[]>;
+  requeueDeadWebhookDeliveries(webhookId: string, ids?: string[]): Promise<WebhookDelivery[]>;
+
+  // Delivery log
+  createWebhookDeliveryAttempt(attempt: InsertWebhookDeliveryAttempt): Promise<WebhookDeliveryAttempt>;
+  listWebhookDeliveryAttempts(webhookId: string, query: WebhookDeliveryAttemptQuery): Promise<WebhookDeliveryAttempt[]>;
+  
+  // Runs fn against a storage isolated from other transactions. The database backend commits its writes
+  // together and rolls them back if fn throws; the in-memory one keeps whatever was written before the throw
+  transaction<T>(fn: (storage: IStorage) => Promise<T>): Promise<T>;
+
   sessionStore: session.Store;
 }
 
@@ -198,23 +514,47 @@ export class MemStorage implements IStorage {
   private events: Map<string, Event>;
   private tasks: Map<string, Task>;
   private purchaseOrders: Map<string, PurchaseOrder>;
+  private goodsReceipts: Map<string, GoodsReceipt>;
+  private supplierBills: Map<string, SupplierBill>;
   private comments: Map<string, Comment>;
   private activities: Map<string, Activity>;
   private rules: Map<string, Rule>;
+  private escalationPolicies: Map<string, EscalationPolicy>;
   private reconBatches: Map<string, ReconBatch>;
   private reconRows: Map<string, ReconRow>;
+  private fxRateSnapshots: Map<string, FxRateSnapshot>;
+  private forecasts: Map<string, ForecastRecord>;
   private suppliers: Map<string, Supplier>;
   private supplierDeliveries: Map<string, SupplierDelivery>;
   private reorderPolicies: Map<string, ReorderPolicy>;
+  private inventoryLevels: Map<string, InventoryLevel>;
+  private inventoryMoves: Map<string, InventoryMove>;
+  private reorderRuns: Map<string, ReorderRun>;
   private simplePurchaseOrders: Map<string, SimplePurchaseOrder>;
   private workspaceSettings: Map<string, WorkspaceSettings>;
   private regions: Map<string, Region>;
   private notificationSettings: Map<string, NotificationSettings>;
   private customers: Map<string, Customer>;
+  private returns: Map<string, Return>;
   private salesOrders: Map<string, SalesOrder>;
+  private products: Map<string, Product>;
+  private invoices: Map<string, Invoice>;
   private shippingConnectors: Map<string, ShippingConnector>;
   private shipments: Map<string, Shipment>;
+  private shippingRules: Map<string, ShippingRule>;
+  private productDimensions: Map<string, ProductDimensions>;
+  private shippingBoxes: Map<string, ShippingBox>;
+  private apiKeys: Map<string, ApiKey>;
+  private rateLimitBuckets: Map<string, RateLimitBucket>;
+  private auditLogs: AuditLog[];
+  private idempotencyKeys: Map<string, IdempotencyKey>;
+  private webhooks: Map<string, Webhook>;
+  private webhookEvents: WebhookEvent[];
+  private webhookDeliveries: Map<string, WebhookDelivery>;
+  private webhookDeliveryAttempts: WebhookDeliveryAttempt[];
   public sessionStore: session.Store;
+  private taskService = new TaskService(this);
+  private transactionQueue: Promise<unknown> = Promise.resolve();
 
   constructor() {
     this.users = new Map();
@@ -225,22 +565,44 @@ export class MemStorage implements IStorage {
     this.events = new Map();
     this.tasks = new Map();
     this.purchaseOrders = new Map();
+    this.goodsReceipts = new Map();
+    this.supplierBills = new Map();
     this.comments = new Map();
     this.activities = new Map();
     this.rules = new Map();
+    this.escalationPolicies = new Map();
     this.reconBatches = new Map();
     this.reconRows = new Map();
+    this.fxRateSnapshots = new Map();
+    this.forecasts = new Map();
     this.suppliers = new Map();
     this.supplierDeliveries = new Map();
     this.reorderPolicies = new Map();
+    this.inventoryLevels = new Map();
+    this.inventoryMoves = new Map();
+    this.reorderRuns = new Map();
     this.simplePurchaseOrders = new Map();
     this.workspaceSettings = new Map();
     this.regions = new Map();
     this.notificationSettings = new Map();
     this.customers = new Map();
+    this.returns = new Map();
     this.salesOrders = new Map();
+    this.products = new Map();
+    this.invoices = new Map();
     this.shippingConnectors = new Map();
     this.shipments = new Map();
+    this.shippingRules = new Map();
+    this.productDimensions = new Map();
+    this.shippingBoxes = new Map();
+    this.apiKeys = new Map();
+    this.rateLimitBuckets = new Map();
+    this.auditLogs = [];
+    this.idempotencyKeys = new Map();
+    this.webhooks = new Map();
+    this.webhookEvents = [];
+    this.webhookDeliveries = new Map();
+    this.webhookDeliveryAttempts = [];
     this.sessionStore = new MemoryStore({
       checkPeriod: 86400000,
     });
@@ -253,6 +615,7 @@ export class MemStorage implements IStorage {
     
     // Initialize sample rules
     this.initializeSampleRules();
+    this.initializeSampleEscalationPolicies();
     
     // Initialize test regions with UAE fixture
     this.initializeTestRegions();
@@ -631,7 +994,7 @@ export class MemStorage implements IStorage {
   }
 
   // Action Center Event methods
-  async createEvent(eventData: CreateEventData): Promise<{ event: Event, taskCreated?: Task }> {
+  async createEvent(eventData: CreateEventData): Promise<Event> {
     const id = randomUUID();
     const event: Event = {
       id,
@@ -645,22 +1008,7 @@ export class MemStorage implements IStorage {
     };
     
     this.events.set(id, event);
-    
-    // Create a task for high severity events
-    let taskCreated: Task | undefined;
-    if (event.severity === "HIGH") {
-      const taskTitle = this.generateTaskTitle(event);
-      const taskType = this.getTaskTypeFromEvent(event.type);
-      const taskData: CreateTaskData = {
-        title: taskTitle,
-        sourceEventId: event.id,
-        type: taskType,
-        priority: "P1",
-      };
-      taskCreated = await this.createTask(taskData);
-    }
-    
-    return { event, taskCreated };
+    return event;
   }
 
   async getEvents(filters?: { status?: string, type?: string, severity?: string, summary?: boolean }): Promise<Event[] | { events: Event[], summary: any }> {
@@ -712,107 +1060,29 @@ export class MemStorage implements IStorage {
   }
 
   // Action Center Task methods
-  async createTask(taskData: CreateTaskData): Promise<Task> {
-    const id = randomUUID();
+  async createTask(taskData: Omit<InsertTask, "id">): Promise<Task> {
     const now = new Date();
-    
-    // Apply matching rule if exists
-    const matchingRule = await this.findMatchingRule(taskData.type);
-    let finalAssigneeId = taskData.assigneeId;
-    let finalPriority = taskData.priority;
-    let finalDueAt = taskData.dueAt ? new Date(taskData.dueAt) : null;
-
-    if (matchingRule) {
-      // Apply rule overrides
-      if (!finalAssigneeId && matchingRule.assigneeId) {
-        finalAssigneeId = matchingRule.assigneeId;
-      }
-      if (!taskData.priority && matchingRule.priority) {
-        finalPriority = matchingRule.priority;
-      }
-      if (!finalDueAt && matchingRule.dueOffsetHours) {
-        finalDueAt = new Date(now.getTime() + matchingRule.dueOffsetHours * 60 * 60 * 1000);
-      }
-    }
-    
-    // Calculate default due dates if no rule applied and no dueAt provided
-    if (!finalDueAt) {
-      switch (taskData.type) {
-        case "RESTOCK":
-          finalDueAt = new Date(now.getTime() + 24 * 60 * 60 * 1000); // +24 hours
-          break;
-        case "RETRY_SYNC":
-          finalDueAt = new Date(now.getTime() + 2 * 60 * 60 * 1000); // +2 hours
-          break;
-        case "RECONCILE":
-          finalDueAt = new Date(now.getTime() + 48 * 60 * 60 * 1000); // +48 hours
-          break;
-        case "ADJUST_BUDGET":
-          finalDueAt = new Date(now.getTime() + 72 * 60 * 60 * 1000); // +72 hours
-          break;
-      }
-    }
-    
     const task: Task = {
-      id,
+      id: randomUUID(),
       title: taskData.title,
       sourceEventId: taskData.sourceEventId || null,
       type: taskData.type,
-      assigneeId: finalAssigneeId || null,
-      priority: finalPriority || "P3",
-      dueAt: finalDueAt,
-      status: "OPEN",
+      assigneeId: taskData.assigneeId || null,
+      priority: taskData.priority,
+      dueAt: taskData.dueAt || null,
+      status: taskData.status || "OPEN",
       notes: taskData.notes || null,
+      watcherIds: taskData.watcherIds || [],
+      escalationLevel: taskData.escalationLevel || 0,
+      lastEscalatedAt: taskData.lastEscalatedAt || null,
       createdAt: now,
       updatedAt: now,
     };
     
-    this.tasks.set(id, task);
-
-    // Create activity log for task creation
-    await this.createActivity({
-      id: randomUUID(),
-      taskId: id,
-      type: "STATUS_CHANGE",
-      meta: { 
-        action: "created",
-        status: "OPEN",
-        rule: matchingRule ? {
-          type: matchingRule.type,
-          assigneeId: matchingRule.assigneeId,
-          priority: matchingRule.priority,
-          dueOffsetHours: matchingRule.dueOffsetHours
-        } : null
-      },
-      createdAt: now,
-    });
-    
-    // Send notification for P1 tasks
-    if (task.priority === "P1") {
-      // Don't await to avoid blocking task creation
-      notificationService.notifyP1Task(task).catch(error => {
-        console.error("Failed to send P1 task notification:", error);
-      });
-    }
-    
+    this.tasks.set(task.id, task);
     return task;
   }
 
-  async createTaskFromEvent(eventId: string): Promise<Task | undefined> {
-    const event = await this.getEvent(eventId);
-    if (!event) return undefined;
-    
-    const taskTitle = this.generateTaskTitle(event);
-    const taskType = this.getTaskTypeFromEvent(event.type);
-    
-    return await this.createTask({
-      title: taskTitle,
-      sourceEventId: eventId,
-      type: taskType,
-      priority: event.severity === "HIGH" ? "P1" : "P2",
-    });
-  }
-
   async getTasks(filters?: { 
     status?: string; 
     assigneeId?: string; 
@@ -935,37 +1205,6 @@ export class MemStorage implements IStorage {
     return Array.from(this.tasks.values()).find(task => task.sourceEventId === eventId);
   }
 
-  // Helper methods for task generation
-  private generateTaskTitle(event: Event): string {
-    switch (event.type) {
-      case "INVENTORY_LOW":
-        return `Restock ${event.sku || "inventory"}`;
-      case "SYNC_ERROR":
-        return `Fix sync error for ${event.channel || "platform"}`;
-      case "PAYMENT_MISMATCH":
-        return `Reconcile payment discrepancy`;
-      case "ROAS_DROP":
-        return `Investigate ROAS drop for ${event.sku || "product"}`;
-      default:
-        return "Investigate issue";
-    }
-  }
-
-  private getTaskTypeFromEvent(eventType: string): "RESTOCK" | "RETRY_SYNC" | "RECONCILE" | "ADJUST_BUDGET" {
-    switch (eventType) {
-      case "INVENTORY_LOW":
-        return "RESTOCK";
-      case "SYNC_ERROR":
-        return "RETRY_SYNC";
-      case "PAYMENT_MISMATCH":
-        return "RECONCILE";
-      case "ROAS_DROP":
-        return "ADJUST_BUDGET";
-      default:
-        return "RETRY_SYNC";
-    }
-  }
-
   // Initialize sample events and tasks for testing
   private async initializeSampleActionCenterData() {
     // Sample events
@@ -995,7 +1234,7 @@ export class MemStorage implements IStorage {
 
     // Create events and auto-create tasks for high severity ones
     for (const eventData of sampleEvents) {
-      await this.createEvent(eventData);
+      await this.taskService.createEvent(eventData);
     }
   }
 
@@ -1009,6 +1248,7 @@ export class MemStorage implements IStorage {
       linkedTaskId: poData.linkedTaskId || null,
       supplierEmail: poData.supplierEmail || null,
       status: "DRAFT",
+      sentAt: null,
       createdAt: now,
       updatedAt: now,
     };
@@ -1032,6 +1272,11 @@ export class MemStorage implements IStorage {
     return this.purchaseOrders.get(id);
   }
 
+  // Transactions already run one at a time, so there's nothing more to lock
+  async lockPurchaseOrder(id: string): Promise<PurchaseOrder | undefined> {
+    return this.getPurchaseOrder(id);
+  }
+
   async updatePurchaseOrder(id: string, updates: Partial<PurchaseOrder>): Promise<PurchaseOrder | undefined> {
     const po = this.purchaseOrders.get(id);
     if (!po) return undefined;
@@ -1050,32 +1295,159 @@ export class MemStorage implements IStorage {
     this.purchaseOrders.delete(id);
   }
 
-  // Initialize sample rules for auto-assignment
+  // Goods receipt methods
+  async createGoodsReceipt(receiptData: InsertGoodsReceipt): Promise<GoodsReceipt> {
+    const now = new Date();
+    const receipt: GoodsReceipt = {
+      id: randomUUID(),
+      workspaceId: receiptData.workspaceId,
+      purchaseOrderId: receiptData.purchaseOrderId,
+      grnNumber: receiptData.grnNumber,
+      locationId: receiptData.locationId,
+      lines: receiptData.lines || [],
+      hasVariance: receiptData.hasVariance || false,
+      closedShort: receiptData.closedShort || false,
+      supplierDeliveryId: receiptData.supplierDeliveryId || null,
+      notes: receiptData.notes || null,
+      receivedBy: receiptData.receivedBy || null,
+      receivedAt: receiptData.receivedAt || now,
+      createdAt: now,
+    };
+
+    this.goodsReceipts.set(receipt.id, receipt);
+    return receipt;
+  }
+
+  async getGoodsReceipts(purchaseOrderId: string): Promise<GoodsReceipt[]> {
+    return Array.from(this.goodsReceipts.values())
+      .filter(r => r.purchaseOrderId === purchaseOrderId)
+      .sort((a, b) => a.receivedAt.getTime() - b.receivedAt.getTime());
+  }
+
+  // Supplier bill methods
+  async createSupplierBill(billData: InsertSupplierBill): Promise<SupplierBill> {
+    const now = new Date();
+    const bill: SupplierBill = {
+      id: randomUUID(),
+      workspaceId: billData.workspaceId,
+      purchaseOrderId: billData.purchaseOrderId,
+      supplierId: billData.supplierId,
+      billNumber: billData.billNumber,
+      billDate: billData.billDate || now,
+      dueDate: billData.dueDate || null,
+      currency: billData.currency,
+      lines: billData.lines || [],
+      totals: billData.totals || { subtotal: 0, tax: 0, grandTotal: 0 },
+      matchStatus: billData.matchStatus || "PENDING",
+      matchResult: billData.matchResult || null,
+      eventId: billData.eventId || null,
+      taskId: billData.taskId || null,
+      notes: billData.notes || null,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.supplierBills.set(bill.id, bill);
+    return bill;
+  }
+
+  async getSupplierBills(purchaseOrderId: string): Promise<SupplierBill[]> {
+    return Array.from(this.supplierBills.values())
+      .filter(b => b.purchaseOrderId === purchaseOrderId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async getWorkspaceSupplierBills(workspaceId: string): Promise<SupplierBill[]> {
+    return Array.from(this.supplierBills.values())
+      .filter(b => b.workspaceId === workspaceId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async getSupplierBill(id: string): Promise<SupplierBill | undefined> {
+    return this.supplierBills.get(id);
+  }
+
+  async updateSupplierBill(id: string, updates: Partial<SupplierBill>): Promise<SupplierBill | undefined> {
+    const bill = this.supplierBills.get(id);
+    if (!bill) return undefined;
+
+    const updatedBill = {
+      ...bill,
+      ...updates,
+      updatedAt: new Date(),
+    };
+
+    this.supplierBills.set(id, updatedBill);
+    return updatedBill;
+  }
+
+  // Initialize sample routing rules for the Action Center
   private async initializeSampleRules(): Promise<void> {
-    const sampleRules = [
+    const now = new Date();
+    const sampleRules: Rule[] = [
+      {
+        id: "rule-large-recon",
+        name: "Large payment mismatches to finance lead",
+        position: 0,
+        enabled: true,
+        stopProcessing: true,
+        conditions: [
+          { field: "taskType", operator: "eq", value: "RECONCILE" },
+          { field: "payload.diffBase", operator: "gt", value: 100, abs: true },
+        ],
+        actions: [
+          { type: "assign", assigneeId: "finance_user" },
+          { type: "set_priority", priority: "P1" },
+          { type: "set_due", dueOffsetHours: 24 },
+          { type: "add_watcher", userId: "ops_user" },
+          { type: "notify", channel: "in_app" },
+        ],
+        createdAt: now,
+        updatedAt: now,
+      },
       {
         id: "rule-restock",
-        type: "RESTOCK" as const,
-        assigneeId: "ops_user",
-        priority: "P2" as const,
-        dueOffsetHours: 24,
-        createdAt: new Date(),
+        name: "Restocks to operations",
+        position: 1,
+        enabled: true,
+        stopProcessing: true,
+        conditions: [{ field: "taskType", operator: "eq", value: "RESTOCK" }],
+        actions: [
+          { type: "assign", assigneeId: "ops_user" },
+          { type: "set_priority", priority: "P2" },
+          { type: "set_due", dueOffsetHours: 24 },
+        ],
+        createdAt: now,
+        updatedAt: now,
       },
       {
-        id: "rule-reconcile", 
-        type: "RECONCILE" as const,
-        assigneeId: "finance_user",
-        priority: "P3" as const,
-        dueOffsetHours: 48,
-        createdAt: new Date(),
+        id: "rule-reconcile",
+        name: "Reconciliations to finance",
+        position: 2,
+        enabled: true,
+        stopProcessing: true,
+        conditions: [{ field: "taskType", operator: "eq", value: "RECONCILE" }],
+        actions: [
+          { type: "assign", assigneeId: "finance_user" },
+          { type: "set_due", dueOffsetHours: 48 },
+        ],
+        createdAt: now,
+        updatedAt: now,
       },
       {
         id: "rule-retry-sync",
-        type: "RETRY_SYNC" as const,
-        assigneeId: "tech_user", 
-        priority: "P1" as const,
-        dueOffsetHours: 2,
-        createdAt: new Date(),
+        name: "Sync errors to tech",
+        position: 3,
+        enabled: true,
+        stopProcessing: true,
+        conditions: [{ field: "taskType", operator: "eq", value: "RETRY_SYNC" }],
+        actions: [
+          { type: "assign", assigneeId: "tech_user" },
+          { type: "set_priority", priority: "P1" },
+          { type: "set_due", dueOffsetHours: 2 },
+        ],
+        createdAt: now,
+        updatedAt: now,
       }
     ];
 
@@ -1136,34 +1508,177 @@ export class MemStorage implements IStorage {
 
   // Rules methods
   async getRules(): Promise<Rule[]> {
-    return Array.from(this.rules.values())
-      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+    return RuleEngine.sortRules(Array.from(this.rules.values()));
+  }
+
+  async getRule(id: string): Promise<Rule | undefined> {
+    return this.rules.get(id);
   }
 
   async createRule(ruleData: CreateRuleData): Promise<Rule> {
     const id = randomUUID();
     const now = new Date();
+    // New rules are evaluated last unless a position is given
+    const lastPosition = Math.max(-1, ...Array.from(this.rules.values()).map(rule => rule.position));
     
     const rule: Rule = {
       id,
-      ...ruleData,
-      priority: ruleData.priority || null,
-      assigneeId: ruleData.assigneeId || null,
-      dueOffsetHours: ruleData.dueOffsetHours || null,
+      name: ruleData.name,
+      position: ruleData.position ?? lastPosition + 1,
+      enabled: ruleData.enabled,
+      stopProcessing: ruleData.stopProcessing,
+      conditions: ruleData.conditions,
+      actions: ruleData.actions,
       createdAt: now,
+      updatedAt: now,
     };
     
     this.rules.set(id, rule);
     return rule;
   }
 
+  async updateRule(id: string, updates: UpdateRuleData): Promise<Rule | undefined> {
+    const rule = this.rules.get(id);
+    if (!rule) return undefined;
+
+    const updatedRule: Rule = { ...rule, ...updates, updatedAt: new Date() };
+    this.rules.set(id, updatedRule);
+    return updatedRule;
+  }
+
+  // Renumber rules in the given order; rules not listed keep their relative order after them
+  async reorderRules(ruleIds: string[]): Promise<Rule[]> {
+    const listed = ruleIds.map(id => this.rules.get(id)).filter((rule): rule is Rule => !!rule);
+    const rest = (await this.getRules()).filter(rule => !ruleIds.includes(rule.id));
+    const now = new Date();
+
+    [...listed, ...rest].forEach((rule, position) => {
+      this.rules.set(rule.id, { ...rule, position, updatedAt: now });
+    });
+
+    return this.getRules();
+  }
+
   async deleteRule(id: string): Promise<boolean> {
     return this.rules.delete(id);
   }
 
-  async findMatchingRule(taskType: string): Promise<Rule | undefined> {
-    return Array.from(this.rules.values())
-      .find(rule => rule.type === taskType);
+  // SLA escalation methods
+  async getEscalationPolicies(): Promise<EscalationPolicy[]> {
+    return Array.from(this.escalationPolicies.values())
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async createEscalationPolicy(policyData: CreateEscalationPolicyData): Promise<EscalationPolicy> {
+    const id = randomUUID();
+    const now = new Date();
+
+    const policy: EscalationPolicy = {
+      id,
+      ...policyData,
+      taskType: policyData.taskType || null,
+      priority: policyData.priority || null,
+      reassignTo: policyData.reassignTo || null,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.escalationPolicies.set(id, policy);
+    return policy;
+  }
+
+  async updateEscalationPolicy(id: string, updates: UpdateEscalationPolicyData): Promise<EscalationPolicy | undefined> {
+    const policy = this.escalationPolicies.get(id);
+    if (!policy) return undefined;
+
+    const updatedPolicy: EscalationPolicy = { ...policy, ...updates, updatedAt: new Date() };
+    this.escalationPolicies.set(id, updatedPolicy);
+    return updatedPolicy;
+  }
+
+  async deleteEscalationPolicy(id: string): Promise<boolean> {
+    return this.escalationPolicies.delete(id);
+  }
+
+  // Applied by the sweeper; updatedAt is left alone so it keeps tracking when someone last worked the task
+  async escalateTask(id: string, escalation: { priority?: Task["priority"], assigneeId?: string, escalatedAt: Date, meta: Pick<EscalationActivityMeta, "policyId" | "policyName" | "trigger" | "hours" | "reason"> }): Promise<Task | undefined> {
+    const task = this.tasks.get(id);
+    if (!task) return undefined;
+
+    const now = escalation.escalatedAt;
+    const updatedTask: Task = {
+      ...task,
+      priority: escalation.priority || task.priority,
+      assigneeId: escalation.assigneeId || task.assigneeId,
+      escalationLevel: task.escalationLevel + 1,
+      lastEscalatedAt: now,
+    };
+    this.tasks.set(id, updatedTask);
+
+    const meta: EscalationActivityMeta = {
+      ...escalation.meta,
+      level: updatedTask.escalationLevel,
+      oldPriority: task.priority,
+      newPriority: updatedTask.priority,
+      oldAssigneeId: task.assigneeId,
+      newAssigneeId: updatedTask.assigneeId,
+    };
+    await this.createActivity({ id: randomUUID(), taskId: id, type: "ESCALATION", meta, createdAt: now });
+
+    return updatedTask;
+  }
+
+  // Initialize sample SLA escalation policies
+  private initializeSampleEscalationPolicies(): void {
+    const now = Date.now();
+    const samplePolicies: EscalationPolicy[] = [
+      {
+        id: "escalation-overdue-p1",
+        name: "Overdue P1 tasks to ops lead",
+        enabled: true,
+        trigger: "OVERDUE",
+        thresholdHours: 2,
+        taskType: null,
+        priority: "P1",
+        raisePriority: false,
+        reassignTo: "ops_lead",
+        maxEscalations: 2,
+        createdAt: new Date(now),
+        updatedAt: new Date(now),
+      },
+      {
+        id: "escalation-overdue",
+        name: "Raise priority of overdue tasks",
+        enabled: true,
+        trigger: "OVERDUE",
+        thresholdHours: 4,
+        taskType: null,
+        priority: null,
+        raisePriority: true,
+        reassignTo: null,
+        maxEscalations: 2,
+        createdAt: new Date(now + 1),
+        updatedAt: new Date(now + 1),
+      },
+      {
+        id: "escalation-stale",
+        name: "Raise priority of untouched tasks",
+        enabled: true,
+        trigger: "STALE",
+        thresholdHours: 72,
+        taskType: null,
+        priority: null,
+        raisePriority: true,
+        reassignTo: null,
+        maxEscalations: 1,
+        createdAt: new Date(now + 2),
+        updatedAt: new Date(now + 2),
+      },
+    ];
+
+    samplePolicies.forEach(policy => {
+      this.escalationPolicies.set(policy.id, policy);
+    });
   }
 
   // Reconciliation Methods
@@ -1180,6 +1695,7 @@ export class MemStorage implements IStorage {
       paidBaseTotal: batchData.paidBaseTotal || 0,
       diffBaseTotal: batchData.diffBaseTotal || 0,
       ordersTotal: batchData.ordersTotal || 0,
+      fxSnapshots: batchData.fxSnapshots || [],
       createdAt: new Date(),
     };
     this.reconBatches.set(batch.id, batch);
@@ -1194,6 +1710,8 @@ export class MemStorage implements IStorage {
       notes: rowData.notes || null,
       taskId: rowData.taskId || null,
       eventId: rowData.eventId || null,
+      orderDate: rowData.orderDate || null,
+      fxRateDate: rowData.fxRateDate || null,
       createdAt: new Date(),
       updatedAt: new Date(),
     };
@@ -1293,6 +1811,44 @@ export class MemStorage implements IStorage {
     this.reconBatches.set(batchId, updatedBatch);
   }
 
+  // FX rate snapshot methods
+  async createFxRateSnapshot(snapshotData: InsertFxRateSnapshot): Promise<FxRateSnapshot> {
+    // One snapshot per day - replace any existing snapshot for the same date
+    const existing = await this.getFxRateSnapshot(snapshotData.date);
+    const snapshot: FxRateSnapshot = {
+      ...snapshotData,
+      id: existing?.id || snapshotData.id || randomUUID(),
+      base: snapshotData.base || "USD",
+      fetchedAt: snapshotData.fetchedAt || new Date(),
+    };
+    this.fxRateSnapshots.set(snapshot.id, snapshot);
+    return snapshot;
+  }
+
+  async getFxRateSnapshot(date: string): Promise<FxRateSnapshot | undefined> {
+    return Array.from(this.fxRateSnapshots.values()).find(s => s.date === date);
+  }
+
+  async getFxRateSnapshots(filters?: { from?: string, to?: string, limit?: number }): Promise<FxRateSnapshot[]> {
+    let snapshots = Array.from(this.fxRateSnapshots.values());
+
+    if (filters?.from) {
+      snapshots = snapshots.filter(s => s.date >= filters.from!);
+    }
+    if (filters?.to) {
+      snapshots = snapshots.filter(s => s.date <= filters.to!);
+    }
+
+    // Sort by date desc
+    snapshots.sort((a, b) => b.date.localeCompare(a.date));
+
+    if (filters?.limit) {
+      snapshots = snapshots.slice(0, filters.limit);
+    }
+
+    return snapshots;
+  }
+
   // Simple Purchase Orders for manual restock feature
   async createSimplePurchaseOrder(poData: InsertSimplePurchaseOrder): Promise<SimplePurchaseOrder> {
     const id = randomUUID();
@@ -1336,6 +1892,8 @@ export class MemStorage implements IStorage {
       email: supplierData.email || null,
       phone: supplierData.phone || null,
       notes: supplierData.notes || null,
+      minOrderQty: supplierData.minOrderQty || null,
+      minOrderValue: supplierData.minOrderValue || null,
       // SLA metrics fields with defaults
       onTimeTargetPct: 95,
       defectTargetPct: 5,
@@ -1364,6 +1922,25 @@ export class MemStorage implements IStorage {
     return suppliers.sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
   }
 
+  async listSuppliers(workspaceId: string, query: SupplierListQuery): Promise<Supplier[]> {
+    const search = query.search?.toLowerCase();
+    const suppliers = Array.from(this.suppliers.values()).filter(s =>
+      s.workspaceId === workspaceId &&
+      (!search || s.name.toLowerCase().includes(search) || (s.email && s.email.toLowerCase().includes(search)))
+    );
+
+    return listRecords(suppliers, {
+      updatedAt: s => s.updatedAt,
+      filters: {
+        status: s => s.status,
+        region: s => s.region,
+        currency: s => s.currency,
+        sku: s => s.skus.map(item => item.sku),
+      },
+      ranges: { createdAt: s => s.createdAt },
+    }, query);
+  }
+
   async getSupplier(id: string): Promise<Supplier | undefined> {
     return this.suppliers.get(id);
   }
@@ -1429,57 +2006,220 @@ export class MemStorage implements IStorage {
     return updatedPolicy;
   }
 
-  // Workspace Settings methods
-  async getWorkspaceSettings(organizationId: string): Promise<WorkspaceSettings | undefined> {
-    return Array.from(this.workspaceSettings.values()).find(
-      settings => settings.organizationId === organizationId
-    );
+  async getReorderPolicies(workspaceId: string): Promise<ReorderPolicy[]> {
+    return Array.from(this.reorderPolicies.values())
+      .filter(p => p.workspaceId === workspaceId)
+      .sort((a, b) => a.sku.localeCompare(b.sku));
   }
 
-  async createWorkspaceSettings(organizationId: string, settings: InsertWorkspaceSettings): Promise<WorkspaceSettings> {
-    const newSettings: WorkspaceSettings = {
-      id: randomUUID(),
-      organizationId,
-      orgName: settings.orgName || "Default Organization",
-      logoUrl: settings.logoUrl || null,
-      defaultCurrency: settings.defaultCurrency || "USD",
-      defaultTimezone: settings.defaultTimezone || "UTC",
-      dateFormat: settings.dateFormat || "MM/DD/YYYY",
-      numberFormat: settings.numberFormat || "US",
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    };
+  // Inventory level methods - one row per workspace/product/location
+  async getInventoryLevels(workspaceId: string, filters?: { productId?: string, productIds?: string[], locationId?: string }): Promise<InventoryLevel[]> {
+    let levels = Array.from(this.inventoryLevels.values()).filter(l => l.workspaceId === workspaceId);
 
-    this.workspaceSettings.set(newSettings.id, newSettings);
-    return newSettings;
-  }
+    if (filters?.productId) {
+      levels = levels.filter(l => l.productId === filters.productId);
+    }
 
-  async updateWorkspaceSettings(organizationId: string, settings: Partial<WorkspaceSettings>): Promise<WorkspaceSettings> {
-    let existingSettings = await this.getWorkspaceSettings(organizationId);
-    
-    if (!existingSettings) {
-      // Create default settings if none exist
-      existingSettings = await this.createWorkspaceSettings(organizationId, {
-        organizationId,
-        orgName: "Default Organization",
-        defaultCurrency: "USD",
-        defaultTimezone: "UTC",
-        dateFormat: "MM/DD/YYYY",
-        numberFormat: "US"
-      });
+    if (filters?.productIds) {
+      levels = levels.filter(l => filters.productIds!.includes(l.productId));
     }
 
-    const updatedSettings: WorkspaceSettings = {
-      ...existingSettings,
-      ...settings,
-      updatedAt: new Date(),
-    };
+    if (filters?.locationId) {
+      levels = levels.filter(l => l.locationId === filters.locationId);
+    }
 
-    this.workspaceSettings.set(existingSettings.id, updatedSettings);
-    return updatedSettings;
+    return levels;
   }
 
-  // Regions methods
+  async listInventoryLevels(workspaceId: string, query: InventoryLevelListQuery): Promise<InventoryLevel[]> {
+    const products = Array.from(this.products.values()).filter(p => p.workspaceId === workspaceId);
+    const productOf = (level: InventoryLevel) => products.find(p => p.sku === level.productId);
+    const levels = Array.from(this.inventoryLevels.values()).filter(l =>
+      l.workspaceId === workspaceId && (!query.lowStock || l.onHand <= l.reorderPoint)
+    );
+
+    return listRecords(levels, {
+      updatedAt: l => l.updatedAt,
+      filters: {
+        sku: l => l.productId,
+        catalogueId: l => productOf(l)?.id,
+        locationId: l => l.locationId,
+        category: l => productOf(l)?.category || 'Uncategorized',
+      },
+    }, query);
+  }
+
+  async upsertInventoryLevel(levelData: InsertInventoryLevel): Promise<InventoryLevel> {
+    const existing = Array.from(this.inventoryLevels.values()).find(l =>
+      l.workspaceId === levelData.workspaceId &&
+      l.productId === levelData.productId &&
+      l.locationId === levelData.locationId
+    );
+
+    const level: InventoryLevel = {
+      id: existing?.id || randomUUID(),
+      workspaceId: levelData.workspaceId,
+      productId: levelData.productId,
+      locationId: levelData.locationId,
+      onHand: levelData.onHand ?? existing?.onHand ?? 0,
+      onOrder: levelData.onOrder ?? existing?.onOrder ?? 0,
+      reorderPoint: levelData.reorderPoint ?? existing?.reorderPoint ?? 0,
+      safetyStock: levelData.safetyStock ?? existing?.safetyStock ?? 0,
+      reorderQty: levelData.reorderQty ?? existing?.reorderQty ?? 0,
+      cost: levelData.cost ?? existing?.cost ?? null,
+      updatedAt: new Date(),
+    };
+    this.inventoryLevels.set(level.id, level);
+    return level;
+  }
+
+  async adjustInventoryLevel(workspaceId: string, productId: string, locationId: string, change: { onHand?: number, onOrder?: number }): Promise<InventoryLevel> {
+    // Read and written without yielding, so concurrent adjustments each see the last one's result
+    const existing = Array.from(this.inventoryLevels.values()).find(l =>
+      l.workspaceId === workspaceId && l.productId === productId && l.locationId === locationId
+    );
+    return this.upsertInventoryLevel({
+      workspaceId,
+      productId,
+      locationId,
+      onHand: (existing?.onHand ?? 0) + (change.onHand ?? 0),
+      onOrder: Math.max(0, (existing?.onOrder ?? 0) + (change.onOrder ?? 0)),
+    });
+  }
+
+  // Transactions already run one at a time, so there's nothing more to lock
+  async lockInventoryLevel(workspaceId: string, productId: string, locationId: string, defaults: { reorderPoint?: number } = {}): Promise<InventoryLevel> {
+    const existing = Array.from(this.inventoryLevels.values()).find(l =>
+      l.workspaceId === workspaceId && l.productId === productId && l.locationId === locationId
+    );
+    return existing || this.upsertInventoryLevel({ workspaceId, productId, locationId, reorderPoint: defaults.reorderPoint });
+  }
+
+  async createInventoryMove(moveData: InsertInventoryMove): Promise<InventoryMove> {
+    const move: InventoryMove = {
+      id: randomUUID(),
+      workspaceId: moveData.workspaceId,
+      type: moveData.type,
+      productId: moveData.productId,
+      fromLocationId: moveData.fromLocationId || null,
+      toLocationId: moveData.toLocationId || null,
+      qty: moveData.qty,
+      refType: moveData.refType || null,
+      refId: moveData.refId || null,
+      note: moveData.note || null,
+      userId: moveData.userId || null,
+      cost: moveData.cost ?? null,
+      createdAt: new Date(),
+    };
+    this.inventoryMoves.set(move.id, move);
+    return move;
+  }
+
+  async getInventoryMoves(workspaceId: string, filters?: { productId?: string, refId?: string }): Promise<InventoryMove[]> {
+    let moves = Array.from(this.inventoryMoves.values()).filter(m => m.workspaceId === workspaceId);
+
+    if (filters?.productId) {
+      moves = moves.filter(m => m.productId === filters.productId);
+    }
+
+    if (filters?.refId) {
+      moves = moves.filter(m => m.refId === filters.refId);
+    }
+
+    return moves.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  // Reorder run methods
+  async createReorderRun(runData: InsertReorderRun): Promise<ReorderRun> {
+    const run: ReorderRun = {
+      id: randomUUID(),
+      workspaceId: runData.workspaceId,
+      status: runData.status || "COMPLETED",
+      lines: runData.lines || [],
+      supplierGroups: runData.supplierGroups || [],
+      skipped: runData.skipped || [],
+      totals: runData.totals || { skusEvaluated: 0, linesProposed: 0, purchaseOrders: 0 },
+      createdBy: runData.createdBy || null,
+      createdAt: new Date(),
+    };
+    this.reorderRuns.set(run.id, run);
+    return run;
+  }
+
+  async getReorderRuns(workspaceId: string): Promise<ReorderRun[]> {
+    return Array.from(this.reorderRuns.values())
+      .filter(r => r.workspaceId === workspaceId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getReorderRun(id: string): Promise<ReorderRun | undefined> {
+    return this.reorderRuns.get(id);
+  }
+
+  async updateReorderRun(id: string, updates: Partial<ReorderRun>): Promise<ReorderRun | undefined> {
+    const run = this.reorderRuns.get(id);
+    if (!run) return undefined;
+
+    const updatedRun = { ...run, ...updates };
+    this.reorderRuns.set(id, updatedRun);
+    return updatedRun;
+  }
+
+  // Workspace Settings methods
+  async getWorkspaceSettings(organizationId: string): Promise<WorkspaceSettings | undefined> {
+    return Array.from(this.workspaceSettings.values()).find(
+      settings => settings.organizationId === organizationId
+    );
+  }
+
+  async createWorkspaceSettings(organizationId: string, settings: InsertWorkspaceSettings): Promise<WorkspaceSettings> {
+    const newSettings: WorkspaceSettings = {
+      id: randomUUID(),
+      organizationId,
+      orgName: settings.orgName || "Default Organization",
+      logoUrl: settings.logoUrl || null,
+      defaultCurrency: settings.defaultCurrency || "USD",
+      defaultTimezone: settings.defaultTimezone || "UTC",
+      dateFormat: settings.dateFormat || "MM/DD/YYYY",
+      numberFormat: settings.numberFormat || "US",
+      billQtyTolerancePct: settings.billQtyTolerancePct ?? 0,
+      billPriceTolerancePct: settings.billPriceTolerancePct ?? 2,
+      billAmountTolerance: settings.billAmountTolerance ?? 1,
+      financeSettings: settings.financeSettings ?? null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    this.workspaceSettings.set(newSettings.id, newSettings);
+    return newSettings;
+  }
+
+  async updateWorkspaceSettings(organizationId: string, settings: Partial<WorkspaceSettings>): Promise<WorkspaceSettings> {
+    let existingSettings = await this.getWorkspaceSettings(organizationId);
+    
+    if (!existingSettings) {
+      // Create default settings if none exist
+      existingSettings = await this.createWorkspaceSettings(organizationId, {
+        organizationId,
+        orgName: "Default Organization",
+        defaultCurrency: "USD",
+        defaultTimezone: "UTC",
+        dateFormat: "MM/DD/YYYY",
+        numberFormat: "US"
+      });
+    }
+
+    const updatedSettings: WorkspaceSettings = {
+      ...existingSettings,
+      ...settings,
+      updatedAt: new Date(),
+    };
+
+    this.workspaceSettings.set(existingSettings.id, updatedSettings);
+    return updatedSettings;
+  }
+
+  // Regions methods
   async getRegions(organizationId: string): Promise<Region[]> {
     return Array.from(this.regions.values()).filter(
       region => region.organizationId === organizationId
@@ -1698,6 +2438,10 @@ export class MemStorage implements IStorage {
     return updatedDelivery;
   }
 
+  async getSupplierDelivery(id: string): Promise<SupplierDelivery | undefined> {
+    return this.supplierDeliveries.get(id);
+  }
+
   async getSupplierDeliveries(supplierId: string): Promise<SupplierDelivery[]> {
     return Array.from(this.supplierDeliveries.values())
       .filter(delivery => delivery.supplierId === supplierId)
@@ -1755,7 +2499,7 @@ export class MemStorage implements IStorage {
     
     // Generate SLA breach alert if there's a new breach
     if (hasNewBreach) {
-      await this.createEvent({
+      await this.taskService.createEvent({
         type: "SYNC_ERROR", // SLA breaches are operational sync issues
         sku: undefined,
         channel: undefined,
@@ -1878,8 +2622,12 @@ export class MemStorage implements IStorage {
     return customer;
   }
 
-  async getCustomers(workspaceId: string, filters?: { search?: string, company?: string }): Promise<Customer[]> {
+  async getCustomers(workspaceId: string, filters?: { ids?: string[], search?: string, company?: string }): Promise<Customer[]> {
     let customers = Array.from(this.customers.values()).filter(c => c.workspaceId === workspaceId);
+
+    if (filters?.ids) {
+      customers = customers.filter(c => filters.ids!.includes(c.id));
+    }
     
     if (filters?.search) {
       const search = filters.search.toLowerCase();
@@ -1897,6 +2645,16 @@ export class MemStorage implements IStorage {
     return customers.sort((a, b) => a.name.localeCompare(b.name));
   }
 
+  async listCustomers(workspaceId: string, query: CustomerListQuery): Promise<Customer[]> {
+    const customers = await this.getCustomers(workspaceId, { search: query.search });
+
+    return listRecords(customers, {
+      updatedAt: c => c.updatedAt,
+      filters: { company: c => c.company, email: c => c.email },
+      ranges: { createdAt: c => c.createdAt },
+    }, query);
+  }
+
   async getCustomer(id: string): Promise<Customer | undefined> {
     return this.customers.get(id);
   }
@@ -1943,19 +2701,28 @@ export class MemStorage implements IStorage {
       notes: orderData.notes || null,
       customerEmail: orderData.customerEmail || null,
       shippingAddress: orderData.shippingAddress || null,
-      createdAt: new Date(),
+      locationId: orderData.locationId || null,
+      createdAt: orderData.createdAt || new Date(),
       updatedAt: new Date(),
     };
     this.salesOrders.set(order.id, order);
     return order;
   }
 
-  async getSalesOrders(workspaceId: string, filters?: { customerId?: string, status?: string }): Promise<SalesOrder[]> {
+  async getSalesOrders(workspaceId: string, filters?: { ids?: string[], customerId?: string, customerIds?: string[], status?: string }): Promise<SalesOrder[]> {
     let orders = Array.from(this.salesOrders.values()).filter(o => o.workspaceId === workspaceId);
+
+    if (filters?.ids) {
+      orders = orders.filter(o => filters.ids!.includes(o.id));
+    }
     
     if (filters?.customerId) {
       orders = orders.filter(o => o.customerId === filters.customerId);
     }
+
+    if (filters?.customerIds) {
+      orders = orders.filter(o => filters.customerIds!.includes(o.customerId));
+    }
     
     if (filters?.status) {
       orders = orders.filter(o => o.status === filters.status);
@@ -1964,6 +2731,30 @@ export class MemStorage implements IStorage {
     return orders.sort((a, b) => new Date(b.createdAt!).getTime() - new Date(a.createdAt!).getTime());
   }
 
+  async listSalesOrders(workspaceId: string, query: SalesOrderListQuery): Promise<SalesOrder[]> {
+    const orders = Array.from(this.salesOrders.values()).filter(o => o.workspaceId === workspaceId);
+
+    return listRecords(orders, {
+      updatedAt: o => o.updatedAt,
+      filters: {
+        status: o => o.status,
+        customerId: o => o.customerId,
+        orderNumber: o => o.orderNumber,
+        currency: o => o.currency,
+        locationId: o => o.locationId,
+        sku: o => o.items.map(item => item.sku),
+      },
+      ranges: { createdAt: o => o.createdAt },
+    }, query);
+  }
+
+  async getSoldSkus(workspaceId: string): Promise<string[]> {
+    const skus = Array.from(this.salesOrders.values())
+      .filter(o => o.workspaceId === workspaceId && o.status !== "CANCELLED")
+      .flatMap(o => o.items.map(item => item.sku));
+    return Array.from(new Set(skus));
+  }
+
   async getSalesOrder(id: string): Promise<SalesOrder | undefined> {
     return this.salesOrders.get(id);
   }
@@ -1986,6 +2777,440 @@ export class MemStorage implements IStorage {
     this.salesOrders.delete(id);
   }
 
+  async getSalesOrderWorkspaceIds(): Promise<string[]> {
+    return Array.from(new Set(Array.from(this.salesOrders.values()).map(o => o.workspaceId)));
+  }
+
+  // Return (RMA) methods
+  async createReturn(returnData: InsertReturn & { rmaId: string }): Promise<Return> {
+    const now = new Date();
+    const newReturn: Return = {
+      ...returnData,
+      id: randomUUID(),
+      customerId: returnData.customerId || null,
+      reasonDescription: returnData.reasonDescription || null,
+      status: returnData.status || "requested",
+      currency: returnData.currency || "USD",
+      resolution: returnData.resolution || "none",
+      inspectionNotes: returnData.inspectionNotes || null,
+      inspectionPhotos: returnData.inspectionPhotos || [],
+      createdBy: returnData.createdBy || null,
+      assignedTo: returnData.assignedTo || null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.returns.set(newReturn.id, newReturn);
+    return newReturn;
+  }
+
+  async getReturns(organizationId: string, filters?: { status?: string }): Promise<Return[]> {
+    return Array.from(this.returns.values())
+      .filter(r => r.organizationId === organizationId && (!filters?.status || r.status === filters.status))
+      .sort((a, b) => (b.createdAt?.getTime() || 0) - (a.createdAt?.getTime() || 0));
+  }
+
+  async getReturn(id: string): Promise<Return | undefined> {
+    return this.returns.get(id);
+  }
+
+  async updateReturn(id: string, updates: UpdateReturn): Promise<Return | undefined> {
+    const existing = this.returns.get(id);
+    if (!existing) return undefined;
+
+    const updated: Return = { ...existing, ...updates, updatedAt: new Date() };
+    this.returns.set(id, updated);
+    return updated;
+  }
+
+  // Product catalogue methods
+  async createProduct(productData: InsertProduct): Promise<Product> {
+    const product: Product = {
+      id: randomUUID(),
+      ...productData,
+      category: productData.category || "Uncategorized",
+      cost: productData.cost ?? 0,
+      price: productData.price ?? 0,
+      supplier: productData.supplier || null,
+      reorderPoint: productData.reorderPoint ?? 10,
+      maxStock: productData.maxStock ?? 100,
+      regionId: productData.regionId || null,
+      taxCategory: productData.taxCategory || "standard",
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.products.set(product.id, product);
+    return product;
+  }
+
+  async getProducts(workspaceId: string, filters?: { sku?: string, skus?: string[], category?: string, search?: string }): Promise<Product[]> {
+    let products = Array.from(this.products.values()).filter(p => p.workspaceId === workspaceId);
+
+    if (filters?.sku) {
+      products = products.filter(p => p.sku === filters.sku);
+    }
+
+    if (filters?.skus) {
+      products = products.filter(p => filters.skus!.includes(p.sku));
+    }
+
+    if (filters?.category) {
+      products = products.filter(p => p.category === filters.category);
+    }
+
+    if (filters?.search) {
+      const search = filters.search.toLowerCase();
+      products = products.filter(p =>
+        p.name.toLowerCase().includes(search) ||
+        p.sku.toLowerCase().includes(search) ||
+        p.category.toLowerCase().includes(search)
+      );
+    }
+
+    return products.sort((a, b) => a.sku.localeCompare(b.sku));
+  }
+
+  async listProducts(workspaceId: string, query: ProductListQuery): Promise<Product[]> {
+    const products = await this.getProducts(workspaceId, { search: query.search });
+    const stock = new Map<string, number>();
+    for (const level of Array.from(this.inventoryLevels.values())) {
+      if (level.workspaceId === workspaceId) stock.set(level.productId, (stock.get(level.productId) || 0) + level.onHand);
+    }
+
+    return listRecords(products, {
+      updatedAt: p => p.updatedAt,
+      filters: {
+        sku: p => p.sku,
+        category: p => p.category,
+        supplier: p => p.supplier,
+        stockStatus: p => (stock.get(p.sku) || 0) < p.reorderPoint ? 'Low Stock' : 'In Stock',
+        regionId: p => p.regionId,
+      },
+      ranges: { createdAt: p => p.createdAt },
+    }, query);
+  }
+
+  async getProduct(id: string): Promise<Product | undefined> {
+    return this.products.get(id);
+  }
+
+  async updateProduct(id: string, updates: Partial<Product>): Promise<Product | undefined> {
+    const product = this.products.get(id);
+    if (!product) return undefined;
+
+    const updatedProduct: Product = { ...product, ...updates, id, updatedAt: new Date() };
+    this.products.set(id, updatedProduct);
+    return updatedProduct;
+  }
+
+  // Invoice methods
+  async createInvoice(invoiceData: InsertInvoice): Promise<Invoice> {
+    const invoice: Invoice = {
+      id: randomUUID(),
+      ...invoiceData,
+      orderId: invoiceData.orderId || null,
+      status: invoiceData.status || "UNPAID",
+      currency: invoiceData.currency || "USD",
+      locale: invoiceData.locale || "en-US",
+      regionId: invoiceData.regionId || null,
+      lineItems: invoiceData.lineItems || [],
+      subtotal: invoiceData.subtotal ?? 0,
+      tax: invoiceData.tax ?? 0,
+      grandTotal: invoiceData.grandTotal ?? 0,
+      taxBreakdown: invoiceData.taxBreakdown || [],
+      issueDate: invoiceData.issueDate || new Date(),
+      paidDate: invoiceData.paidDate || null,
+      paymentMethod: invoiceData.paymentMethod || null,
+      paymentReference: invoiceData.paymentReference || null,
+      notes: invoiceData.notes || null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.invoices.set(invoice.id, invoice);
+    return invoice;
+  }
+
+  async getInvoices(workspaceId: string, filters?: { customerId?: string, orderIds?: string[], status?: string, currency?: string }): Promise<Invoice[]> {
+    let invoices = Array.from(this.invoices.values()).filter(i => i.workspaceId === workspaceId);
+
+    if (filters?.customerId) {
+      invoices = invoices.filter(i => i.customerId === filters.customerId);
+    }
+
+    if (filters?.orderIds) {
+      invoices = invoices.filter(i => i.orderId !== null && filters.orderIds!.includes(i.orderId));
+    }
+
+    if (filters?.status) {
+      invoices = invoices.filter(i => i.status === filters.status);
+    }
+
+    if (filters?.currency) {
+      invoices = invoices.filter(i => i.currency === filters.currency);
+    }
+
+    return invoices.sort((a, b) => b.issueDate.getTime() - a.issueDate.getTime());
+  }
+
+  async listInvoices(workspaceId: string, query: InvoiceListQuery): Promise<Invoice[]> {
+    const now = new Date();
+    const invoices = Array.from(this.invoices.values()).filter(i =>
+      i.workspaceId === workspaceId &&
+      (!query.overdue || (i.status !== "PAID" && i.status !== "CANCELLED" && i.dueDate < now))
+    );
+
+    return listRecords(invoices, {
+      updatedAt: i => i.updatedAt,
+      filters: {
+        status: i => i.status,
+        customerId: i => i.customerId,
+        orderId: i => i.orderId,
+        number: i => i.number,
+        currency: i => i.currency,
+      },
+      ranges: {
+        createdAt: i => i.createdAt,
+        issueDate: i => i.issueDate,
+        dueDate: i => i.dueDate,
+        paidDate: i => i.paidDate,
+      },
+    }, query);
+  }
+
+  async getInvoice(id: string): Promise<Invoice | undefined> {
+    return this.invoices.get(id);
+  }
+
+  async updateInvoice(id: string, updates: Partial<Invoice>): Promise<Invoice | undefined> {
+    const invoice = this.invoices.get(id);
+    if (!invoice) return undefined;
+
+    const updatedInvoice: Invoice = { ...invoice, ...updates, id, updatedAt: new Date() };
+    this.invoices.set(id, updatedInvoice);
+    return updatedInvoice;
+  }
+
+  // Forecast methods - one row per workspace/product/location/horizon/method
+  async upsertForecast(forecastData: InsertForecastRecord): Promise<ForecastRecord> {
+    const existing = Array.from(this.forecasts.values()).find(f =>
+      f.workspaceId === forecastData.workspaceId &&
+      f.productId === forecastData.productId &&
+      f.locationId === (forecastData.locationId || null) &&
+      f.horizon === forecastData.horizon &&
+      f.method === forecastData.method
+    );
+
+    const forecast: ForecastRecord = {
+      id: existing?.id || randomUUID(),
+      ...forecastData,
+      locationId: forecastData.locationId || null,
+      computedAt: forecastData.computedAt || new Date(),
+    };
+    this.forecasts.set(forecast.id, forecast);
+    return forecast;
+  }
+
+  async getForecasts(workspaceId: string, filters?: { productId?: string, locationId?: string, horizon?: string, method?: string }): Promise<ForecastRecord[]> {
+    let forecasts = Array.from(this.forecasts.values()).filter(f => f.workspaceId === workspaceId);
+
+    if (filters?.productId) {
+      forecasts = forecasts.filter(f => f.productId === filters.productId);
+    }
+
+    // Undefined locationId keeps all rows; "all" selects the all-locations forecasts
+    if (filters?.locationId) {
+      forecasts = forecasts.filter(f => filters.locationId === "all" ? f.locationId === null : f.locationId === filters.locationId);
+    }
+
+    if (filters?.horizon) {
+      forecasts = forecasts.filter(f => f.horizon === filters.horizon);
+    }
+
+    if (filters?.method) {
+      forecasts = forecasts.filter(f => f.method === filters.method);
+    }
+
+    return forecasts.sort((a, b) => a.productId.localeCompare(b.productId));
+  }
+
+  async listForecasts(workspaceId: string, query: ForecastListQuery): Promise<ForecastRecord[]> {
+    const forecasts = Array.from(this.forecasts.values()).filter(f => f.workspaceId === workspaceId);
+
+    return listRecords(forecasts, {
+      updatedAt: f => f.computedAt,
+      id: f => [f.productId, f.locationId || 'all', f.horizon, f.method].join(':'),
+      filters: {
+        productId: f => f.productId,
+        locationId: f => f.locationId || 'all',
+        horizon: f => f.horizon,
+        method: f => f.method,
+      },
+    }, query);
+  }
+
+  async getForecastTimes(workspaceId: string, filters?: { productId?: string, locationId?: string, horizon?: string, method?: string }): Promise<{ productId: string, method: ForecastRecord["method"], computedAt: Date }[]> {
+    const latest = new Map<string, { productId: string, method: ForecastRecord["method"], computedAt: Date }>();
+    for (const forecast of await this.getForecasts(workspaceId, filters)) {
+      const key = `${forecast.productId}:${forecast.method}`;
+      const seen = latest.get(key);
+      if (!seen || forecast.computedAt > seen.computedAt) {
+        latest.set(key, { productId: forecast.productId, method: forecast.method, computedAt: forecast.computedAt });
+      }
+    }
+    return Array.from(latest.values());
+  }
+
+  // Seed daily sales history for the demo catalogue so server-side forecasts have data to work with
+  async initializeSampleSalesHistory(workspaceId: string, daysBack: number = 90): Promise<void> {
+    const existing = await this.getSalesOrders(workspaceId);
+    if (existing.some(order => order.orderNumber.startsWith("HIST-"))) return;
+
+    const customer = await this.createCustomer({
+      name: "Online Store",
+      email: "orders@store.example.com",
+      workspaceId,
+    });
+
+    // Base daily velocity per SKU; SKU-003 sells intermittently
+    const catalogue = [
+      { sku: "SKU-001", productName: "Wireless Bluetooth Headphones", velocity: 2.5, unitPrice: 7999 },
+      { sku: "SKU-002", productName: "Smartphone Case - Clear", velocity: 1.8, unitPrice: 1999 },
+      { sku: "SKU-003", productName: "USB-C Charging Cable", velocity: 0.4, unitPrice: 1299 },
+      { sku: "SKU-004", productName: "Wireless Gaming Mouse", velocity: 3.2, unitPrice: 4999 },
+      { sku: "SKU-005", productName: "Portable Phone Stand", velocity: 2.1, unitPrice: 1599 },
+      { sku: "SKU-006", productName: "Bluetooth Speaker - Compact", velocity: 1.5, unitPrice: 3999 },
+      { sku: "SKU-007", productName: "Screen Protector - Glass", velocity: 2.8, unitPrice: 999 },
+      { sku: "SKU-008", productName: "Power Bank - 10000mAh", velocity: 1.2, unitPrice: 2999 },
+    ];
+    // Weekly pattern, Sunday first: quieter weekends, busier Mondays and Fridays
+    const weekdayFactors = [0.6, 1.2, 1.0, 1.0, 1.0, 1.1, 0.6];
+
+    for (let daysAgo = daysBack; daysAgo >= 1; daysAgo--) {
+      const date = new Date();
+      date.setDate(date.getDate() - daysAgo);
+      date.setHours(12, 0, 0, 0);
+
+      const items = catalogue
+        .map(product => {
+          const expected = product.velocity * weekdayFactors[date.getDay()] * (0.7 + Math.random() * 0.6);
+          const quantity = expected < 1 ? (Math.random() < expected ? 1 : 0) : Math.round(expected);
+          return { sku: product.sku, productName: product.productName, quantity, unitPrice: product.unitPrice, subtotal: quantity * product.unitPrice };
+        })
+        .filter(item => item.quantity > 0);
+
+      if (items.length === 0) continue;
+
+      const subtotal = items.reduce((sum, item) => sum + item.subtotal, 0);
+      await this.createSalesOrder({
+        orderNumber: `HIST-${date.toISOString().split('T')[0]}`,
+        customerId: customer.id,
+        customerName: customer.name,
+        workspaceId,
+        currency: "USD",
+        status: "DELIVERED",
+        items,
+        subtotal,
+        tax: 0,
+        shipping: 0,
+        total: subtotal,
+        createdAt: date,
+      });
+    }
+  }
+
+  // Seed suppliers, stock levels and reorder policies so the demo workspace can run a reorder plan
+  async initializeSampleReorderData(workspaceId: string): Promise<void> {
+    const existing = await this.getReorderPolicies(workspaceId);
+    if (existing.length > 0) return;
+
+    const sampleSuppliers: InsertSupplier[] = [
+      {
+        workspaceId,
+        name: "Shenzhen Audio Co.",
+        email: "sales@szaudio.example.com",
+        region: "Other",
+        currency: "USD",
+        leadTimeDays: 21,
+        paymentTerms: "Net 30",
+        status: "active",
+        minOrderValue: 2500,
+        skus: [
+          { sku: "SKU-001", unitCost: 32.00, packSize: 10, moq: 50, leadTimeDays: 21 },
+          { sku: "SKU-006", unitCost: 18.50, packSize: 12, moq: 24, leadTimeDays: 21 },
+          { sku: "SKU-008", unitCost: 11.25, packSize: 20, moq: 40, leadTimeDays: 21 }
+        ]
+      },
+      {
+        workspaceId,
+        name: "Accessory Hub Ltd",
+        email: "orders@accessoryhub.example.com",
+        region: "UK",
+        currency: "USD",
+        leadTimeDays: 10,
+        paymentTerms: "Net 15",
+        status: "active",
+        minOrderQty: 300,
+        skus: [
+          { sku: "SKU-002", unitCost: 3.20, packSize: 25, moq: 100, leadTimeDays: 10 },
+          { sku: "SKU-003", unitCost: 2.10, packSize: 50, moq: 50, leadTimeDays: 10 },
+          { sku: "SKU-005", unitCost: 4.50, packSize: 10, leadTimeDays: 10 },
+          { sku: "SKU-007", unitCost: 1.40, packSize: 50, moq: 100, leadTimeDays: 10 }
+        ]
+      },
+      {
+        workspaceId,
+        name: "Peripherals Direct",
+        email: "trade@peripheralsdirect.example.com",
+        region: "US",
+        currency: "USD",
+        leadTimeDays: 7,
+        paymentTerms: "Net 30",
+        status: "active",
+        skus: [
+          { sku: "SKU-004", unitCost: 19.00, packSize: 5, leadTimeDays: 7 },
+          { sku: "SKU-001", unitCost: 36.00, leadTimeDays: 7 }
+        ]
+      }
+    ];
+
+    for (const supplierData of sampleSuppliers) {
+      await this.createSupplier(supplierData);
+    }
+
+    // On-hand stock split across two warehouses
+    const stock: Record<string, [number, number]> = {
+      "SKU-001": [40, 25],
+      "SKU-002": [120, 60],
+      "SKU-003": [30, 0],
+      "SKU-004": [35, 20],
+      "SKU-005": [150, 90],
+      "SKU-006": [18, 10],
+      "SKU-007": [60, 45],
+      "SKU-008": [90, 70],
+    };
+    const locationIds = ["london-dc", "ny-hub"];
+
+    for (const [sku, quantities] of Object.entries(stock)) {
+      for (let i = 0; i < locationIds.length; i++) {
+        await this.upsertInventoryLevel({
+          workspaceId,
+          productId: sku,
+          locationId: locationIds[i],
+          onHand: quantities[i],
+          reorderPoint: 20,
+          safetyStock: 10,
+        });
+      }
+
+      await this.createReorderPolicy({
+        workspaceId,
+        sku,
+        targetDaysCover: 30,
+        safetyDays: 7,
+        maxDaysCover: 90,
+      });
+    }
+  }
+
   async initializeSampleCustomers(): Promise<void> {
     // Use the current user's workspace ID
     const workspaceId = "1607cbd7-2c11-414b-a9ec-79083eecbee5";
@@ -2132,28 +3357,10 @@ export class MemStorage implements IStorage {
         this.shipments.delete(shipmentId);
       }
     });
-  }
-
-  async testShippingConnector(id: string): Promise<{ success: boolean; error?: string }> {
-    // TODO: This would integrate with the actual shipping adapter in a real implementation
-    const connector = this.shippingConnectors.get(id);
-    if (!connector) {
-      return { success: false, error: 'Connector not found' };
-    }
-
-    // Simulate test result
-    const success = Math.random() > 0.05; // 95% success rate for demo
-    const now = new Date();
-    
-    await this.updateShippingConnector(id, {
-      lastTestAt: now,
-      lastTestStatus: success ? 'success' : 'failed',
-      status: success ? 'active' : 'error',
-    });
-
-    return success ? 
-      { success: true } : 
-      { success: false, error: 'Connection test failed - please check credentials' };
+    // Rules for the connector go with it
+    Array.from(this.shippingRules.values())
+      .filter(rule => rule.connectorId === id)
+      .forEach(rule => this.shippingRules.delete(rule.id));
   }
 
   // Shipment methods
@@ -2163,6 +3370,12 @@ export class MemStorage implements IStorage {
     const shipment: Shipment = {
       id,
       ...shipmentData,
+      trackingEvents: [],
+      lastSyncAt: null,
+      statusChangedAt: now,
+      nextTrackingPollAt: null,
+      trackingPollAttempts: 0,
+      delayAlertedAt: null,
       createdAt: now,
       updatedAt: now,
     };
@@ -2193,6 +3406,15 @@ export class MemStorage implements IStorage {
     return this.shipments.get(id);
   }
 
+  async findShipmentByProviderRef(provider: string, ref: { providerShipmentId?: string, trackingNumber?: string }): Promise<Shipment | undefined> {
+    if (!ref.providerShipmentId && !ref.trackingNumber) return undefined;
+    return Array.from(this.shipments.values()).find(s =>
+      s.provider === provider &&
+      ((!!ref.providerShipmentId && s.providerShipmentId === ref.providerShipmentId) ||
+        (!!ref.trackingNumber && s.trackingNumber === ref.trackingNumber))
+    );
+  }
+
   async updateShipment(id: string, updates: Partial<Shipment>): Promise<Shipment | undefined> {
     const shipment = this.shipments.get(id);
     if (!shipment) return undefined;
@@ -2206,6 +3428,580 @@ export class MemStorage implements IStorage {
     this.shipments.set(id, updatedShipment);
     return updatedShipment;
   }
+
+  async claimShipmentsForTracking(now: Date, limit: number, leaseMs: number): Promise<Shipment[]> {
+    const claimed = Array.from(this.shipments.values())
+      .filter(s => (inFlightShipmentStatuses as readonly string[]).includes(s.status) && s.trackingNumber)
+      .filter(s => !s.nextTrackingPollAt || s.nextTrackingPollAt <= now)
+      .sort((a, b) => (a.nextTrackingPollAt?.getTime() || 0) - (b.nextTrackingPollAt?.getTime() || 0))
+      .slice(0, limit)
+      .map(s => ({ ...s, nextTrackingPollAt: new Date(now.getTime() + leaseMs) }));
+
+    claimed.forEach(s => this.shipments.set(s.id, s));
+    return claimed;
+  }
+
+  // Shipping rule methods
+  async getShippingRules(organizationId: string): Promise<ShippingRule[]> {
+    return ShippingRuleEngine.sortRules(Array.from(this.shippingRules.values()).filter(rule => rule.organizationId === organizationId));
+  }
+
+  async getShippingRule(id: string): Promise<ShippingRule | undefined> {
+    return this.shippingRules.get(id);
+  }
+
+  async createShippingRule(organizationId: string, ruleData: CreateShippingRuleData): Promise<ShippingRule> {
+    const id = randomUUID();
+    const now = new Date();
+    // New rules are tried last unless a position is given
+    const existing = await this.getShippingRules(organizationId);
+    const lastPosition = Math.max(-1, ...existing.map(rule => rule.position));
+
+    const rule: ShippingRule = {
+      id,
+      organizationId,
+      name: ruleData.name,
+      position: ruleData.position ?? lastPosition + 1,
+      enabled: ruleData.enabled,
+      conditions: ruleData.conditions,
+      connectorId: ruleData.connectorId,
+      serviceCode: ruleData.serviceCode ?? null,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.shippingRules.set(id, rule);
+    return rule;
+  }
+
+  async updateShippingRule(id: string, updates: UpdateShippingRuleData): Promise<ShippingRule | undefined> {
+    const rule = this.shippingRules.get(id);
+    if (!rule) return undefined;
+
+    const updatedRule: ShippingRule = { ...rule, ...updates, updatedAt: new Date() };
+    this.shippingRules.set(id, updatedRule);
+    return updatedRule;
+  }
+
+  // Renumber the organization's rules in the given order; rules not listed keep their relative order after them
+  async reorderShippingRules(organizationId: string, ruleIds: string[]): Promise<ShippingRule[]> {
+    const current = await this.getShippingRules(organizationId);
+    const listed = ruleIds
+      .map(id => current.find(rule => rule.id === id))
+      .filter((rule): rule is ShippingRule => !!rule);
+    const rest = current.filter(rule => !ruleIds.includes(rule.id));
+    const now = new Date();
+
+    [...listed, ...rest].forEach((rule, position) => {
+      this.shippingRules.set(rule.id, { ...rule, position, updatedAt: now });
+    });
+
+    return this.getShippingRules(organizationId);
+  }
+
+  async deleteShippingRule(id: string): Promise<boolean> {
+    return this.shippingRules.delete(id);
+  }
+
+  // Packing methods
+  async getProductDimensions(organizationId: string, skus?: string[]): Promise<ProductDimensions[]> {
+    return Array.from(this.productDimensions.values())
+      .filter(d => d.organizationId === organizationId)
+      .filter(d => !skus || skus.includes(d.sku))
+      .sort((a, b) => a.sku.localeCompare(b.sku));
+  }
+
+  async upsertProductDimensions(organizationId: string, sku: string, data: UpsertProductDimensionsData): Promise<ProductDimensions> {
+    const [existing] = await this.getProductDimensions(organizationId, [sku]);
+    const now = new Date();
+
+    const dimensions: ProductDimensions = {
+      id: existing?.id || randomUUID(),
+      organizationId,
+      sku,
+      ...data,
+      createdAt: existing?.createdAt || now,
+      updatedAt: now,
+    };
+
+    this.productDimensions.set(dimensions.id, dimensions);
+    return dimensions;
+  }
+
+  async deleteProductDimensions(organizationId: string, sku: string): Promise<boolean> {
+    const [existing] = await this.getProductDimensions(organizationId, [sku]);
+    return existing ? this.productDimensions.delete(existing.id) : false;
+  }
+
+  async getShippingBoxes(organizationId: string, locationId?: string): Promise<ShippingBox[]> {
+    return Array.from(this.shippingBoxes.values())
+      .filter(box => box.organizationId === organizationId)
+      .filter(box => !locationId || !box.locationId || box.locationId === locationId)
+      .sort((a, b) => a.length * a.width * a.height - b.length * b.width * b.height);
+  }
+
+  async getShippingBox(id: string): Promise<ShippingBox | undefined> {
+    return this.shippingBoxes.get(id);
+  }
+
+  async createShippingBox(organizationId: string, boxData: CreateShippingBoxData): Promise<ShippingBox> {
+    const now = new Date();
+    const box: ShippingBox = {
+      id: randomUUID(),
+      organizationId,
+      ...boxData,
+      locationId: boxData.locationId ?? null,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.shippingBoxes.set(box.id, box);
+    return box;
+  }
+
+  async updateShippingBox(id: string, updates: UpdateShippingBoxData): Promise<ShippingBox | undefined> {
+    const box = this.shippingBoxes.get(id);
+    if (!box) return undefined;
+
+    const updatedBox: ShippingBox = { ...box, ...updates, locationId: updates.locationId === undefined ? box.locationId : updates.locationId, updatedAt: new Date() };
+    this.shippingBoxes.set(id, updatedBox);
+    return updatedBox;
+  }
+
+  async deleteShippingBox(id: string): Promise<boolean> {
+    return this.shippingBoxes.delete(id);
+  }
+
+  // Public API key methods
+  async createApiKey(keyData: InsertApiKey): Promise<ApiKey> {
+    const apiKey: ApiKey = {
+      id: keyData.id || randomUUID(),
+      keyPrefix: keyData.keyPrefix,
+      hashedKey: keyData.hashedKey,
+      name: keyData.name,
+      scopes: keyData.scopes || [],
+      workspaceId: keyData.workspaceId || null,
+      createdAt: new Date(),
+      revokedAt: null,
+    };
+    this.apiKeys.set(apiKey.id, apiKey);
+    return apiKey;
+  }
+
+  async getActiveApiKeyByHash(hashedKey: string): Promise<ApiKey | undefined> {
+    return Array.from(this.apiKeys.values()).find(key => key.hashedKey === hashedKey && !key.revokedAt);
+  }
+
+  async listApiKeys(workspaceId?: string): Promise<ApiKey[]> {
+    return Array.from(this.apiKeys.values())
+      .filter(key => !workspaceId || key.workspaceId === workspaceId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async revokeApiKey(id: string): Promise<boolean> {
+    const apiKey = this.apiKeys.get(id);
+    if (!apiKey) return false;
+
+    this.apiKeys.set(id, { ...apiKey, revokedAt: apiKey.revokedAt || new Date() });
+    return true;
+  }
+
+  // Rate limit methods - no await between read and write, so the update is atomic within the process
+  async consumeRateLimitToken(keyPrefix: string, config: RateLimitConfig): Promise<TokenBucketResult> {
+    const result = takeToken(this.rateLimitBuckets.get(keyPrefix), config, new Date());
+    this.rateLimitBuckets.set(keyPrefix, {
+      keyPrefix,
+      tokens: result.tokens,
+      lastRefill: result.lastRefill,
+      requestCount: result.requestCount,
+    });
+    return result;
+  }
+
+  async getRateLimitBuckets(keyPrefix?: string): Promise<RateLimitBucket[]> {
+    return Array.from(this.rateLimitBuckets.values())
+      .filter(bucket => !keyPrefix || bucket.keyPrefix === keyPrefix);
+  }
+
+  async deleteRateLimitBuckets(lastRefillBefore: Date): Promise<number> {
+    let deleted = 0;
+    Array.from(this.rateLimitBuckets.values()).forEach(bucket => {
+      if (bucket.lastRefill < lastRefillBefore) {
+        this.rateLimitBuckets.delete(bucket.keyPrefix);
+        deleted++;
+      }
+    });
+    return deleted;
+  }
+
+  // Idempotency key methods - no await between the check and the claim, so it is atomic within the process
+  async claimIdempotencyKey(record: InsertIdempotencyKey): Promise<{ record: IdempotencyKey, claimed: boolean }> {
+    const existing = this.idempotencyKeys.get(record.id);
+    if (existing && existing.expiresAt > new Date()) {
+      return { record: existing, claimed: false };
+    }
+
+    const claimed: IdempotencyKey = {
+      id: record.id,
+      scope: record.scope,
+      key: record.key,
+      method: record.method,
+      path: record.path,
+      fingerprint: record.fingerprint,
+      status: "in_progress",
+      responseStatus: null,
+      responseBody: null,
+      createdAt: new Date(),
+      expiresAt: record.expiresAt,
+    };
+    this.idempotencyKeys.set(record.id, claimed);
+    return { record: claimed, claimed: true };
+  }
+
+  async completeIdempotencyKey(id: string, response: { status: number, body: unknown }): Promise<void> {
+    const record = this.idempotencyKeys.get(id);
+    if (record) {
+      this.idempotencyKeys.set(id, { ...record, status: "completed", responseStatus: response.status, responseBody: response.body });
+    }
+  }
+
+  async releaseIdempotencyKey(id: string): Promise<void> {
+    this.idempotencyKeys.delete(id);
+  }
+
+  async deleteExpiredIdempotencyKeys(expiredBefore: Date): Promise<number> {
+    let deleted = 0;
+    Array.from(this.idempotencyKeys.values()).forEach(record => {
+      if (record.expiresAt < expiredBefore) {
+        this.idempotencyKeys.delete(record.id);
+        deleted++;
+      }
+    });
+    return deleted;
+  }
+
+  // Audit log methods - the in-memory trail keeps only the most recent entries
+  async appendAuditLog(entry: InsertAuditLog): Promise<void> {
+    this.auditLogs.push({
+      id: entry.id,
+      timestamp: entry.timestamp || new Date(),
+      keyPrefix: entry.keyPrefix ?? null,
+      keyId: entry.keyId ?? null,
+      ip: entry.ip,
+      userAgent: entry.userAgent ?? null,
+      method: entry.method,
+      path: entry.path,
+      query: entry.query ?? null,
+      statusCode: entry.statusCode ?? null,
+      responseTimeMs: entry.responseTimeMs ?? null,
+      error: entry.error ?? null,
+      requestBody: entry.requestBody ?? null,
+      responseSize: entry.responseSize ?? null,
+    });
+
+    if (this.auditLogs.length > MAX_MEM_AUDIT_LOGS) {
+      this.auditLogs.splice(0, this.auditLogs.length - MAX_MEM_AUDIT_LOGS);
+    }
+  }
+
+  async queryAuditLogs(filters: AuditLogFilters): Promise<{ entries: AuditLog[], total: number }> {
+    const pattern = filters.pathPattern ? new RegExp(filters.pathPattern, 'i') : undefined;
+
+    const matching = this.auditLogs
+      .filter(log => {
+        if (filters.keyPrefix && log.keyPrefix !== filters.keyPrefix) return false;
+        if (filters.keyId && log.keyId !== filters.keyId) return false;
+        if (filters.method && log.method !== filters.method) return false;
+        if (pattern && !pattern.test(log.path)) return false;
+        if (filters.statusCode && log.statusCode !== filters.statusCode) return false;
+        if (filters.fromDate && log.timestamp < filters.fromDate) return false;
+        if (filters.toDate && log.timestamp > filters.toDate) return false;
+        return true;
+      })
+      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+
+    const offset = filters.offset || 0;
+    const limit = filters.limit || 100;
+    return { entries: matching.slice(offset, offset + limit), total: matching.length };
+  }
+
+  async getAuditStats(): Promise<AuditStats> {
+    const logs = this.auditLogs;
+    const totalRequests = logs.length;
+    const uniqueKeys = new Set(logs.map(log => log.keyPrefix).filter(Boolean)).size;
+    const errors = logs.filter(log => log.statusCode && log.statusCode >= 400).length;
+
+    const timedLogs = logs.filter(log => log.responseTimeMs !== null);
+    const avgResponseTime = timedLogs.length > 0
+      ? timedLogs.reduce((sum, log) => sum + (log.responseTimeMs || 0), 0) / timedLogs.length
+      : 0;
+
+    const pathCounts: Record<string, number> = {};
+    const statusCodes: Record<string, number> = {};
+    logs.forEach(log => {
+      pathCounts[log.path] = (pathCounts[log.path] || 0) + 1;
+      if (log.statusCode) {
+        const code = log.statusCode.toString();
+        statusCodes[code] = (statusCodes[code] || 0) + 1;
+      }
+    });
+
+    const topPaths = Object.entries(pathCounts)
+      .map(([path, count]) => ({ path, count }))
+      .sort((a, b) => b.count - a.count)
+      .slice(0, 10);
+
+    return {
+      totalRequests,
+      uniqueKeys,
+      errorRate: totalRequests > 0 ? (errors / totalRequests) * 100 : 0,
+      avgResponseTime,
+      topPaths,
+      statusCodes,
+    };
+  }
+
+  // Webhook methods
+  async createWebhook(webhookData: InsertWebhook): Promise<Webhook> {
+    const now = new Date();
+    const webhook: Webhook = {
+      id: webhookData.id || randomUUID(),
+      url: webhookData.url,
+      secret: webhookData.secret,
+      events: webhookData.events,
+      active: webhookData.active ?? true,
+      name: webhookData.name ?? null,
+      description: webhookData.description ?? null,
+      workspaceId: webhookData.workspaceId ?? null,
+      lastStatus: null,
+      lastAttemptAt: null,
+      lastSuccessAt: null,
+      failureCount: 0,
+      disabledAt: null,
+      disabledReason: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.webhooks.set(webhook.id, webhook);
+    return webhook;
+  }
+
+  async getWebhook(id: string): Promise<Webhook | undefined> {
+    return this.webhooks.get(id);
+  }
+
+  async listWebhooks(workspaceId?: string): Promise<Webhook[]> {
+    return Array.from(this.webhooks.values())
+      .filter(webhook => !workspaceId || webhook.workspaceId === workspaceId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async updateWebhook(id: string, updates: Partial<Webhook>): Promise<Webhook | undefined> {
+    const webhook = this.webhooks.get(id);
+    if (!webhook) return undefined;
+
+    const updatedWebhook: Webhook = {
+      ...webhook,
+      ...updates,
+      id,
+      updatedAt: new Date(),
+    };
+    this.webhooks.set(id, updatedWebhook);
+    return updatedWebhook;
+  }
+
+  async deleteWebhook(id: string): Promise<boolean> {
+    if (!this.webhooks.delete(id)) return false;
+
+    // Pending deliveries and the delivery log go with the webhook
+    Array.from(this.webhookDeliveries.values()).forEach(delivery => {
+      if (delivery.webhookId === id) this.webhookDeliveries.delete(delivery.id);
+    });
+    this.webhookDeliveryAttempts = this.webhookDeliveryAttempts.filter(attempt => attempt.webhookId !== id);
+    return true;
+  }
+
+  async recordWebhookAttempt(id: string, attempt: { statusCode: number | null, attemptedAt: Date, success: boolean }): Promise<void> {
+    const webhook = this.webhooks.get(id);
+    if (!webhook) return;
+
+    this.webhooks.set(id, {
+      ...webhook,
+      lastStatus: attempt.statusCode,
+      lastAttemptAt: attempt.attemptedAt,
+      lastSuccessAt: attempt.success ? attempt.attemptedAt : webhook.lastSuccessAt,
+      failureCount: attempt.success ? 0 : webhook.failureCount + 1,
+      updatedAt: new Date(),
+    });
+  }
+
+  async createWebhookEvent(eventData: InsertWebhookEvent): Promise<WebhookEvent> {
+    const event: WebhookEvent = {
+      id: eventData.id || randomUUID(),
+      event: eventData.event,
+      data: eventData.data ?? null,
+      workspaceId: eventData.workspaceId ?? null,
+      timestamp: eventData.timestamp || new Date(),
+    };
+    this.webhookEvents.push(event);
+
+    if (this.webhookEvents.length > MAX_MEM_WEBHOOK_EVENTS) {
+      this.webhookEvents.splice(0, this.webhookEvents.length - MAX_MEM_WEBHOOK_EVENTS);
+    }
+    return event;
+  }
+
+  async countWebhookEvents(since: Date): Promise<number> {
+    return this.webhookEvents.filter(event => event.timestamp > since).length;
+  }
+
+  // Webhook delivery queue
+  async enqueueWebhookDeliveries(deliveries: InsertWebhookDelivery[]): Promise<WebhookDelivery[]> {
+    const now = new Date();
+    return deliveries.map(deliveryData => {
+      const delivery: WebhookDelivery = {
+        id: deliveryData.id || randomUUID(),
+        webhookId: deliveryData.webhookId,
+        eventType: deliveryData.eventType,
+        payload: deliveryData.payload,
+        url: deliveryData.url,
+        attemptNumber: deliveryData.attemptNumber ?? 1,
+        maxAttempts: deliveryData.maxAttempts,
+        scheduledAt: deliveryData.scheduledAt || now,
+        nextAttemptAt: deliveryData.nextAttemptAt || now,
+        attemptedAt: null,
+        statusCode: null,
+        responseBody: null,
+        error: null,
+        lockedBy: null,
+        lockedUntil: null,
+        deadAt: null,
+      };
+      this.webhookDeliveries.set(delivery.id, delivery);
+      return delivery;
+    });
+  }
+
+  async claimWebhookDeliveries(workerId: string, limit: number, leaseMs: number): Promise<WebhookDelivery[]> {
+    const now = new Date();
+    const lockedUntil = new Date(now.getTime() + leaseMs);
+
+    return Array.from(this.webhookDeliveries.values())
+      .filter(delivery => !delivery.deadAt && delivery.nextAttemptAt <= now && (!delivery.lockedUntil || delivery.lockedUntil < now))
+      .sort((a, b) => a.nextAttemptAt.getTime() - b.nextAttemptAt.getTime())
+      .slice(0, limit)
+      .map(delivery => {
+        const claimed: WebhookDelivery = { ...delivery, lockedBy: workerId, lockedUntil };
+        this.webhookDeliveries.set(delivery.id, claimed);
+        return claimed;
+      });
+  }
+
+  async completeWebhookDelivery(id: string, workerId: string): Promise<void> {
+    const delivery = this.webhookDeliveries.get(id);
+    if (delivery && delivery.lockedBy === workerId) {
+      this.webhookDeliveries.delete(id);
+    }
+  }
+
+  async rescheduleWebhookDelivery(id: string, workerId: string, retry: WebhookDeliveryRetry): Promise<void> {
+    const delivery = this.webhookDeliveries.get(id);
+    if (!delivery || delivery.lockedBy !== workerId) return;
+
+    this.webhookDeliveries.set(id, {
+      ...delivery,
+      ...retry,
+      lockedBy: null,
+      lockedUntil: null,
+    });
+  }
+
+  async getWebhookQueueLength(): Promise<number> {
+    return Array.from(this.webhookDeliveries.values()).filter(delivery => !delivery.deadAt).length;
+  }
+
+  async getWebhookDelivery(id: string): Promise<WebhookDelivery | undefined> {
+    return this.webhookDeliveries.get(id);
+  }
+
+  async deadLetterWebhookDelivery(id: string, workerId: string, outcome: Omit<WebhookDeliveryRetry, 'attemptNumber' | 'nextAttemptAt'>): Promise<void> {
+    const delivery = this.webhookDeliveries.get(id);
+    if (!delivery || delivery.lockedBy !== workerId) return;
+
+    this.webhookDeliveries.set(id, {
+      ...delivery,
+      ...outcome,
+      deadAt: new Date(),
+      lockedBy: null,
+      lockedUntil: null,
+    });
+  }
+
+  async listDeadWebhookDeliveries(webhookId: string): Promise<WebhookDelivery[]> {
+    return Array.from(this.webhookDeliveries.values())
+      .filter(delivery => delivery.webhookId === webhookId && delivery.deadAt)
+      .sort((a, b) => b.deadAt!.getTime() - a.deadAt!.getTime());
+  }
+
+  // Dead letters go back to the front of the queue with a fresh set of attempts
+  async requeueDeadWebhookDeliveries(webhookId: string, ids?: string[]): Promise<WebhookDelivery[]> {
+    const now = new Date();
+    return (await this.listDeadWebhookDeliveries(webhookId))
+      .filter(delivery => !ids || ids.includes(delivery.id))
+      .map(delivery => {
+        const requeued: WebhookDelivery = { ...delivery, attemptNumber: 1, nextAttemptAt: now, deadAt: null };
+        this.webhookDeliveries.set(delivery.id, requeued);
+        return requeued;
+      });
+  }
+
+  // Delivery log
+  async createWebhookDeliveryAttempt(attemptData: InsertWebhookDeliveryAttempt): Promise<WebhookDeliveryAttempt> {
+    const attempt: WebhookDeliveryAttempt = {
+      id: attemptData.id || randomUUID(),
+      webhookId: attemptData.webhookId,
+      deliveryId: attemptData.deliveryId,
+      eventId: attemptData.eventId,
+      eventType: attemptData.eventType,
+      attemptNumber: attemptData.attemptNumber,
+      url: attemptData.url,
+      requestHeaders: attemptData.requestHeaders,
+      requestBody: attemptData.requestBody,
+      statusCode: attemptData.statusCode ?? null,
+      responseBody: attemptData.responseBody ?? null,
+      error: attemptData.error ?? null,
+      durationMs: attemptData.durationMs,
+      success: attemptData.success,
+      attemptedAt: attemptData.attemptedAt || new Date(),
+    };
+    this.webhookDeliveryAttempts.push(attempt);
+
+    if (this.webhookDeliveryAttempts.length > MAX_MEM_WEBHOOK_DELIVERY_ATTEMPTS) {
+      this.webhookDeliveryAttempts.splice(0, this.webhookDeliveryAttempts.length - MAX_MEM_WEBHOOK_DELIVERY_ATTEMPTS);
+    }
+    return attempt;
+  }
+
+  async listWebhookDeliveryAttempts(webhookId: string, query: WebhookDeliveryAttemptQuery): Promise<WebhookDeliveryAttempt[]> {
+    return this.webhookDeliveryAttempts
+      .filter(attempt =>
+        attempt.webhookId === webhookId &&
+        (!query.deliveryId || attempt.deliveryId === query.deliveryId) &&
+        (query.success === undefined || attempt.success === query.success) &&
+        (!query.before || attempt.attemptedAt < query.before)
+      )
+      .sort((a, b) => b.attemptedAt.getTime() - a.attemptedAt.getTime())
+      .slice(0, query.limit);
+  }
+
+  // Transactions run one after another so their reads and writes don't interleave. Nothing is rolled
+  // back: writes made before fn throws are kept. A transaction started from inside another would wait forever
+  async transaction<T>(fn: (storage: IStorage) => Promise<T>): Promise<T> {
+    const result = this.transactionQueue.then(() => fn(this));
+    this.transactionQueue = result.catch(() => undefined);
+    return result;
+  }
 }
 
-export const storage = new MemStorage();
+// Persist to Postgres when a database is provisioned; otherwise fall back to the in-memory demo store
+export const storage = process.env.DATABASE_URL ? new DatabaseStorage() : new MemStorage();
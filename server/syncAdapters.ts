@@ -1,4 +1,7 @@
 import { storage } from "./storage";
+import { TaskService } from "./taskService";
+
+const taskService = new TaskService(storage);
 
 // Mock data for sync adapters
 const MOCK_INVENTORY = [
@@ -61,7 +64,7 @@ class SyncManager {
         
         if (item.stock <= item.threshold) {
           // Create INVENTORY_LOW event
-          await storage.createEvent({
+          await taskService.createEvent({
             type: "INVENTORY_LOW",
             sku: item.sku,
             channel: "Shopify",
@@ -109,7 +112,7 @@ class SyncManager {
       for (const mismatch of mismatches) {
         const delta = mismatch.actualAmount - mismatch.expectedAmount;
         
-        await storage.createEvent({
+        await taskService.createEvent({
           type: "PAYMENT_MISMATCH",
           sku: undefined,
           channel: "Amazon",
@@ -154,7 +157,7 @@ class SyncManager {
       const dropPct = ((yesterdayROAS - todayROAS) / yesterdayROAS) * 100;
 
       if (dropPct >= 40) {
-        await storage.createEvent({
+        await taskService.createEvent({
           type: "ROAS_DROP", 
           sku: undefined,
           channel: "Meta",
@@ -0,0 +1,30 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { MemStorage } from "./storage";
+import { TaskService } from "./taskService";
+
+describe("TaskService.createTaskFromEvent", () => {
+  let storage: MemStorage;
+  let taskService: TaskService;
+
+  beforeEach(async () => {
+    storage = new MemStorage();
+    for (const existing of await storage.getRules()) await storage.deleteRule(existing.id);
+    taskService = new TaskService(storage);
+  });
+
+  it("titles a delayed shipment's task from its tracking number", async () => {
+    const event = await storage.createEvent({ type: "SHIPMENT_DELAYED", severity: "MEDIUM", payload: { reason: "EXCEPTION", trackingNumber: "AWB-1001" } });
+
+    const task = await taskService.createTaskFromEvent(event.id);
+
+    expect(task).toMatchObject({ title: "Follow up shipment exception AWB-1001", type: "RETRY_SYNC", priority: "P2" });
+  });
+
+  it("opens a task for a delayed shipment event that has no payload", async () => {
+    const event = await storage.createEvent({ type: "SHIPMENT_DELAYED", severity: "HIGH", payload: null });
+
+    const task = await taskService.createTaskFromEvent(event.id);
+
+    expect(task).toMatchObject({ title: "Follow up stalled shipment", sourceEventId: event.id, priority: "P1" });
+  });
+});
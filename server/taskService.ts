@@ -0,0 +1,156 @@
+import { randomUUID } from "crypto";
+import type { CreateEventData, CreateTaskData, Event, RuleEvaluation, Task } from "@shared/schema";
+import type { IStorage } from "./storage";
+import type { ShipmentDelayedPayload } from "./shipmentTrackingService";
+import { notificationService } from "./notificationService";
+import { RuleEngine } from "./ruleEngine";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Default due dates when no routing rule sets one
+const DEFAULT_DUE_HOURS: Record<Task["type"], number> = {
+  RESTOCK: 24,
+  RETRY_SYNC: 2,
+  RECONCILE: 48,
+  ADJUST_BUDGET: 72,
+};
+
+// Action Center events and tasks: new tasks are routed through the rules, logged and notified here,
+// and storage only persists the result
+export class TaskService {
+  private storage: IStorage;
+
+  constructor(storage: IStorage) {
+    this.storage = storage;
+  }
+
+  static taskTitleFor(event: Event): string {
+    switch (event.type) {
+      case "INVENTORY_LOW":
+        return `Restock ${event.sku || "inventory"}`;
+      case "SYNC_ERROR":
+        return `Fix sync error for ${event.channel || "platform"}`;
+      case "PAYMENT_MISMATCH":
+        return event.channel === "supplier_bill" ? `Reconcile supplier bill against PO` : `Reconcile payment discrepancy`;
+      case "ROAS_DROP":
+        return `Investigate ROAS drop for ${event.sku || "product"}`;
+      case "SHIPMENT_DELAYED": {
+        const { reason, trackingNumber } = (event.payload ?? {}) as Partial<ShipmentDelayedPayload>;
+        return `Follow up ${reason === "EXCEPTION" ? "shipment exception" : "stalled shipment"} ${trackingNumber || ""}`.trim();
+      }
+      default:
+        return "Investigate issue";
+    }
+  }
+
+  // Record an event, opening a P1 task straight away for high severity ones
+  async createEvent(eventData: CreateEventData): Promise<{ event: Event, taskCreated?: Task }> {
+    const event = await this.storage.createEvent(eventData);
+
+    let taskCreated: Task | undefined;
+    if (event.severity === "HIGH") {
+      taskCreated = await this.createTask({
+        title: TaskService.taskTitleFor(event),
+        sourceEventId: event.id,
+        type: RuleEngine.taskTypeForEvent(event.type),
+        priority: "P1",
+      });
+    }
+
+    return { event, taskCreated };
+  }
+
+  async createTaskFromEvent(eventId: string): Promise<Task | undefined> {
+    const event = await this.storage.getEvent(eventId);
+    if (!event) return undefined;
+
+    return this.createTask({
+      title: TaskService.taskTitleFor(event),
+      sourceEventId: eventId,
+      type: RuleEngine.taskTypeForEvent(event.type),
+      priority: event.severity === "HIGH" ? "P1" : "P2",
+    });
+  }
+
+  async createTask(taskData: CreateTaskData): Promise<Task> {
+    const now = new Date();
+
+    // Route the task through the Action Center rules, using the source event when there is one
+    const sourceEvent = taskData.sourceEventId ? await this.storage.getEvent(taskData.sourceEventId) : undefined;
+    const routing = RuleEngine.evaluate(await this.storage.getRules(), RuleEngine.contextFor(taskData.type, sourceEvent));
+    const { outcome } = routing;
+
+    // Rules fill in what the caller left blank. For tasks raised from an event the priority
+    // is only a severity default, so a rule may override it.
+    const assigneeId = taskData.assigneeId || outcome.assigneeId;
+    const priority = (sourceEvent && outcome.priority) || taskData.priority || outcome.priority;
+    let dueAt = taskData.dueAt ? new Date(taskData.dueAt) : null;
+    if (!dueAt) {
+      const dueHours = outcome.dueOffsetHours !== undefined ? outcome.dueOffsetHours : DEFAULT_DUE_HOURS[taskData.type];
+      dueAt = new Date(now.getTime() + dueHours * HOUR_MS);
+    }
+
+    const task = await this.storage.createTask({
+      title: taskData.title,
+      sourceEventId: taskData.sourceEventId || null,
+      type: taskData.type,
+      assigneeId: assigneeId || null,
+      priority: priority || "P3",
+      dueAt,
+      notes: taskData.notes || null,
+      watcherIds: outcome.watcherIds,
+    });
+
+    await this.storage.createActivity({
+      id: randomUUID(),
+      taskId: task.id,
+      type: "STATUS_CHANGE",
+      meta: {
+        action: "created",
+        status: "OPEN",
+        rules: routing.trace
+          .filter(trace => trace.status === "MATCHED")
+          .map(trace => ({ id: trace.ruleId, name: trace.name, actions: trace.actions })),
+      },
+      createdAt: now,
+    });
+
+    if (task.priority === "P1") {
+      // Don't await to avoid blocking task creation
+      notificationService.notifyP1Task(task).catch(error => {
+        console.error("Failed to send P1 task notification:", error);
+      });
+    }
+
+    this.sendRuleNotifications(task, routing).catch(error => {
+      console.error("Failed to send rule notifications:", error);
+    });
+
+    return task;
+  }
+
+  // Notify actions from matched rules: in-app notifications for a user (the assignee by default)
+  // or the Teams/email channel, which P1 tasks already go to
+  private async sendRuleNotifications(task: Task, routing: RuleEvaluation): Promise<void> {
+    for (const action of routing.outcome.notify) {
+      if (action.channel === "teams_email") {
+        if (task.priority !== "P1") await notificationService.notifyTask(task);
+        continue;
+      }
+
+      const userId = action.userId || task.assigneeId;
+      const user = userId ? await this.storage.getUser(userId) : undefined;
+      if (!user) continue;
+
+      await this.storage.createNotification(user.organizationId || user.id, {
+        type: "system",
+        title: `${task.priority} task: ${task.title}`,
+        message: `A ${task.type} task was routed to ${task.assigneeId === user.id ? "you" : "your attention"} by an Action Center rule.`,
+        icon: "ClipboardList",
+        priority: task.priority === "P1" ? "high" : "medium",
+        userId: user.id,
+        metadata: { taskId: task.id, ruleIds: routing.matchedRuleIds },
+      });
+    }
+  }
+}
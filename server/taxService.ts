@@ -0,0 +1,82 @@
+import { type FinanceSettings, type TaxCalculationRequest } from "@shared/schema";
+import {
+  DEFAULT_FINANCE_SETTINGS,
+  calculateRegionTax,
+  findRegionForCurrency,
+  fromMinorUnits,
+  toMinorUnits,
+  type TaxCalculation
+} from "@shared/taxation";
+import { type IStorage } from "./storage";
+
+export class TaxError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = 'TaxError';
+  }
+}
+
+export interface OrderLineTaxInput {
+  regionId?: string; // Defaults to the region for the order's currency
+  currency: string;
+  customerState?: string;
+  date?: string | Date; // Order date; rates in force today if omitted
+  lines: { productId: string; quantity: number; unitPrice: number }[]; // unitPrice in cents
+  productTaxCategories?: TaxCalculationRequest["productTaxCategories"]; // By line productId; standard if missing
+}
+
+// Tax for documents priced on the server (public API orders, imports), computed by the same engine
+// and from the same finance settings as the app
+export class TaxService {
+  private storage: IStorage;
+
+  constructor(storage: IStorage) {
+    this.storage = storage;
+  }
+
+  async getFinanceSettings(workspaceId: string): Promise<FinanceSettings> {
+    const settings = await this.storage.getWorkspaceSettings(workspaceId);
+    return settings?.financeSettings ?? DEFAULT_FINANCE_SETTINGS;
+  }
+
+  async calculate(workspaceId: string, request: TaxCalculationRequest): Promise<TaxCalculation & { regionId: string; businessState?: string }> {
+    const settings = await this.getFinanceSettings(workspaceId);
+    const region = settings.regions.find(r => r.id === request.regionId);
+    if (!region) {
+      throw new TaxError(`Unknown tax region: ${request.regionId}`);
+    }
+
+    const businessState = request.businessState ?? settings.businessState;
+    const calculation = calculateRegionTax(region, {
+      date: request.date,
+      customerState: request.customerState,
+      businessState,
+      lineItems: request.lineItems,
+      productTaxCategories: request.productTaxCategories,
+    });
+    return { regionId: region.id, businessState, ...calculation };
+  }
+
+  // Tax in cents on order lines priced in cents. taxIncluded is the part of it already in the prices,
+  // for regions that quote tax-inclusive prices. Orders in a currency no region uses carry no tax
+  async taxOrderLines(workspaceId: string, input: OrderLineTaxInput): Promise<{ regionId: string | null; tax: number; taxIncluded: number }> {
+    const settings = await this.getFinanceSettings(workspaceId);
+    const region = input.regionId
+      ? settings.regions.find(r => r.id === input.regionId)
+      : findRegionForCurrency(settings, input.currency);
+    if (!region) {
+      if (input.regionId) throw new TaxError(`Unknown tax region: ${input.regionId}`);
+      return { regionId: null, tax: 0, taxIncluded: 0 };
+    }
+
+    const { totals } = calculateRegionTax(region, {
+      date: input.date,
+      customerState: input.customerState,
+      businessState: settings.businessState,
+      lineItems: input.lines.map(line => ({ productId: line.productId, qty: line.quantity, unitPrice: fromMinorUnits(line.unitPrice) })),
+      productTaxCategories: input.productTaxCategories,
+    });
+    const tax = toMinorUnits(totals.tax);
+    return { regionId: region.id, tax, taxIncluded: region.pricing === "inclusive" ? tax : 0 };
+  }
+}
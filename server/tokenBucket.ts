@@ -0,0 +1,44 @@
+export interface RateLimitConfig {
+  maxTokens: number;
+  refillRate: number; // tokens per window
+  windowMs: number; // window in milliseconds
+}
+
+export interface TokenBucketState {
+  tokens: number;
+  lastRefill: Date;
+  requestCount: number;
+}
+
+export interface TokenBucketResult extends TokenBucketState {
+  allowed: boolean;
+}
+
+// Refill the bucket for the time passed since the last refill, then try to take one token.
+// Pure so each storage backend can apply it inside its own atomic update.
+export function takeToken(state: TokenBucketState | undefined, config: RateLimitConfig, now: Date): TokenBucketResult {
+  let tokens = state ? state.tokens : config.maxTokens;
+  let lastRefill = state ? state.lastRefill : now;
+  const timePassed = now.getTime() - lastRefill.getTime();
+
+  if (timePassed >= config.windowMs) {
+    // Refill bucket completely if a full window has passed
+    tokens = config.maxTokens;
+    lastRefill = now;
+  } else {
+    // Partial refill based on time passed
+    const tokensToAdd = Math.floor((timePassed / config.windowMs) * config.refillRate);
+    tokens = Math.min(config.maxTokens, tokens + tokensToAdd);
+    if (tokensToAdd > 0) {
+      lastRefill = now;
+    }
+  }
+
+  const allowed = tokens >= 1;
+  return {
+    allowed,
+    tokens: allowed ? tokens - 1 : tokens,
+    lastRefill,
+    requestCount: (state?.requestCount || 0) + 1,
+  };
+}
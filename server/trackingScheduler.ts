@@ -0,0 +1,74 @@
+import { storage, type Shipment, type ShipmentTrackingEvent } from './storage';
+import { ShipmentTrackingService, type TrackingPollResult } from './shipmentTrackingService';
+
+class TrackingScheduler {
+  private pollInterval: NodeJS.Timeout | null = null;
+  private intervalMinutes = 15;
+  private running = false;
+  private lastRun: string | null = null;
+  private lastRunChecked = 0;
+  private lastRunStatusChanges = 0;
+  private service = new ShipmentTrackingService(storage, {
+    stallHours: parseFloat(process.env.TRACKING_STALL_HOURS || '72'),
+    exceptionHours: parseFloat(process.env.TRACKING_EXCEPTION_HOURS || '4'),
+  });
+
+  start(intervalMinutes: number = parseInt(process.env.TRACKING_POLL_MINUTES || '15', 10)) {
+    this.stop();
+    this.intervalMinutes = intervalMinutes;
+
+    this.pollInterval = setInterval(() => {
+      this.poll().catch(error => {
+        console.error('Error polling shipment tracking:', error);
+      });
+    }, intervalMinutes * 60 * 1000);
+
+    console.log(`Tracking scheduler started - polling every ${intervalMinutes} minutes`);
+  }
+
+  // Poll carriers for in-flight shipments that are due. Returns null if a poll is already running.
+  async poll(): Promise<TrackingPollResult | null> {
+    // Skip if the previous poll is still going
+    if (this.running) return null;
+    this.running = true;
+
+    try {
+      const result = await this.service.poll();
+      this.lastRun = new Date().toISOString();
+      this.lastRunChecked = result.checked;
+      this.lastRunStatusChanges = result.statusChanges.length;
+      if (result.checked > 0) {
+        console.log(`Tracking poll complete: ${result.checked} shipments checked, ${result.statusChanges.length} status changes, ${result.alerts.length} delay alerts`);
+      }
+      return result;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  // Carrier webhooks update the shipment the same way a poll does
+  async applyCarrierUpdate(shipment: Shipment, tracking: { status: Shipment['status'], events: ShipmentTrackingEvent[] }) {
+    return this.service.applyTracking(shipment, tracking);
+  }
+
+  stop() {
+    if (this.pollInterval) {
+      clearInterval(this.pollInterval);
+      this.pollInterval = null;
+      console.log('Tracking scheduler stopped');
+    }
+  }
+
+  // Get status for monitoring
+  getStatus() {
+    return {
+      running: this.pollInterval !== null,
+      intervalMinutes: this.intervalMinutes,
+      lastRun: this.lastRun,
+      lastRunChecked: this.lastRunChecked,
+      lastRunStatusChanges: this.lastRunStatusChanges,
+    };
+  }
+}
+
+export const trackingScheduler = new TrackingScheduler();
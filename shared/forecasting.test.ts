@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import type { DailySales, SalesOrderItem } from "./schema";
+import {
+  backtestForecast,
+  croston,
+  ewma,
+  getCandidateMethods,
+  getDaysAgo,
+  getForecastForHorizon,
+  holtWinters,
+  isIntermittentDemand,
+  selectForecastMethod,
+} from "./forecasting";
+
+// Quiet weekdays and a busy weekend, the weekly seasonality Holt-Winters is for
+const WEEK = [2, 2, 2, 2, 2, 10, 10];
+
+function series(days: number, qty: (day: number) => number): DailySales[] {
+  return Array.from({ length: days }, (_, day) => ({ date: `day-${day}`, qty: qty(day) }));
+}
+
+const weekly = series(84, day => WEEK[day % 7]);
+// A spare part selling 6 every third day
+const intermittent = series(60, day => (day % 3 === 2 ? 6 : 0));
+
+describe("holtWinters", () => {
+  it("carries the weekly pattern into the forecast", () => {
+    const { daily } = holtWinters(weekly, {}, 14);
+
+    expect(daily.map(day => day.qty)).toEqual(daily.map((_, i) => WEEK[(weekly.length + i) % 7]));
+  });
+
+  it("falls back to EWMA without two full seasons of history", () => {
+    const short = weekly.slice(0, 10);
+
+    expect(holtWinters(short, {}, 7).daily).toEqual(ewma(short, 0.35, 7).daily);
+  });
+});
+
+describe("croston", () => {
+  it("forecasts the demand size over the interval between demands", () => {
+    expect(croston(intermittent, {}, 30).avgDaily).toBe(2);
+  });
+
+  it("applies the SBA bias correction", () => {
+    // 6 / 3 × (1 - 0.1 / 2)
+    expect(croston(intermittent, { variant: "sba" }, 30).avgDaily).toBe(1.9);
+  });
+
+  it("forecasts nothing for a SKU that never sold", () => {
+    expect(croston(series(30, () => 0), {}, 7).daily.every(day => day.qty === 0)).toBe(true);
+  });
+});
+
+describe("backtestForecast", () => {
+  it("scores a perfect forecast as zero error over every fold", () => {
+    expect(backtestForecast(series(56, () => 5), "moving_avg")).toEqual({
+      method: "moving_avg",
+      folds: 4,
+      mape: 0,
+      wape: 0,
+      bias: 0,
+    });
+  });
+
+  it("reports under-forecasting as negative bias", () => {
+    const stepUp = series(56, day => (day < 28 ? 2 : 10));
+    // The last week's window averages 7 days at 2 and 21 at 10, forecasting 8 against an actual 10
+    const backtest = backtestForecast(stepUp, "moving_avg", { folds: 1 });
+
+    expect(backtest.folds).toBe(1);
+    expect(backtest.bias).toBe(-20);
+    expect(backtest.wape).toBe(20);
+  });
+
+  it("skips origins without enough training history", () => {
+    expect(backtestForecast(series(30, () => 5), "ewma")).toMatchObject({ folds: 0, mape: null, wape: null, bias: null });
+  });
+});
+
+describe("automatic method selection", () => {
+  it("tries Croston and SBA only for intermittent demand", () => {
+    expect(isIntermittentDemand(intermittent)).toBe(true);
+    expect(getCandidateMethods(intermittent)).toEqual(["moving_avg", "croston", "sba"]);
+    expect(isIntermittentDemand(weekly)).toBe(false);
+    expect(getCandidateMethods(weekly)).toEqual(["moving_avg", "ewma", "holt_winters"]);
+  });
+
+  it("picks the candidate with the lowest backtest error", () => {
+    const { method, backtests } = selectForecastMethod(weekly);
+
+    expect(method).toBe("holt_winters");
+    expect(backtests.map(backtest => backtest.method)).toEqual(["moving_avg", "ewma", "holt_winters"]);
+    expect(backtests.find(backtest => backtest.method === "holt_winters")?.wape).toBe(0);
+  });
+
+  it("falls back to a moving average when no candidate could be backtested", () => {
+    expect(selectForecastMethod(series(20, () => 3)).method).toBe("moving_avg");
+  });
+
+  it("resolves auto for a SKU's sales history", () => {
+    const orders: SalesOrderItem[] = Array.from({ length: 84 }, (_, i) => ({
+      productId: "SKU-1",
+      qty: WEEK[i % 7],
+      createdAt: getDaysAgo(i + 1).toISOString(),
+    }));
+
+    const result = getForecastForHorizon(orders, "SKU-1", undefined, "30", "auto");
+
+    expect(result.selectedMethod).toBe("holt_winters");
+    expect(result.backtests).toHaveLength(3);
+    expect(result.daily).toHaveLength(30);
+  });
+});
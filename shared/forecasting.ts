@@ -0,0 +1,512 @@
+import type { 
+  SalesOrderItem, 
+  DailySales, 
+  ForecastResult, 
+  DemandSuggestion, 
+  ForecastMethod,
+  ForecastModel,
+  ForecastBacktest,
+  ForecastHorizon
+} from "./schema";
+
+// Date utilities
+export function formatDate(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+export function startOfDay(date: Date): Date {
+  const start = new Date(date);
+  start.setHours(0, 0, 0, 0);
+  return start;
+}
+
+export function endOfDay(date: Date): Date {
+  const end = new Date(date);
+  end.setHours(23, 59, 59, 999);
+  return end;
+}
+
+export function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+export function getDaysAgo(days: number): Date {
+  return addDays(new Date(), -days);
+}
+
+// Group orders by date for a specific product and optional location
+export function groupDailySales(
+  orders: SalesOrderItem[], 
+  options: { productId: string; locationId?: string }
+): Map<string, number> {
+  const dailySales = new Map<string, number>();
+  
+  for (const order of orders) {
+    // Filter by product
+    if (order.productId !== options.productId) continue;
+    
+    // Filter by location if specified
+    if (options.locationId && order.locationId !== options.locationId) continue;
+    
+    const orderDate = formatDate(new Date(order.createdAt));
+    const currentQty = dailySales.get(orderDate) || 0;
+    dailySales.set(orderDate, currentQty + order.qty);
+  }
+  
+  return dailySales;
+}
+
+// Convert daily sales map to array and fill missing days with zeros
+export function fillMissingDays(dailySalesMap: Map<string, number>, startDate: Date, endDate: Date): DailySales[] {
+  const result: DailySales[] = [];
+  const current = new Date(startDate);
+  
+  while (current <= endDate) {
+    const dateStr = formatDate(current);
+    const qty = dailySalesMap.get(dateStr) || 0;
+    result.push({ date: dateStr, qty });
+    current.setDate(current.getDate() + 1);
+  }
+  
+  return result;
+}
+
+// Round to 1 decimal, the precision used throughout forecast results
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+// Build a ForecastResult from per-day point forecasts starting tomorrow
+function buildResult(series: DailySales[], points: number[]): ForecastResult {
+  const today = new Date();
+  const daily = points.map((qty, i) => ({
+    date: formatDate(addDays(today, i + 1)),
+    qty: round1(Math.max(0, qty))
+  }));
+  
+  const avgDaily = points.length > 0
+    ? points.reduce((sum, qty) => sum + Math.max(0, qty), 0) / points.length
+    : 0;
+  
+  // Peak daily is the maximum from the last 60 days (or available data)
+  const peakWindow = Math.min(60, series.length);
+  const peakData = series.slice(-peakWindow);
+  const peakDaily = peakData.length > 0 ? Math.max(...peakData.map(day => day.qty)) : 0;
+  
+  return {
+    daily,
+    avgDaily: round1(avgDaily),
+    peakDaily
+  };
+}
+
+export interface HoltWintersOptions {
+  alpha?: number; // level smoothing
+  beta?: number; // trend smoothing
+  gamma?: number; // seasonal smoothing
+  phi?: number; // trend damping, keeps long horizons from running away
+  seasonLength?: number;
+}
+
+export interface CrostonOptions {
+  alpha?: number;
+  variant?: "croston" | "sba";
+}
+
+// Point forecasts for each model over `horizonDays`, from raw daily quantities
+function movingAvgPoints(values: number[], horizonDays: number, window: number = 28): number[] {
+  const recent = values.slice(-window);
+  const avg = recent.reduce((sum, qty) => sum + qty, 0) / window;
+  return new Array(horizonDays).fill(avg);
+}
+
+function ewmaPoints(values: number[], horizonDays: number, alpha: number = 0.35): number[] {
+  if (values.length === 0) return new Array(horizonDays).fill(0);
+  
+  let smoothedValue = values[0];
+  for (let i = 1; i < values.length; i++) {
+    smoothedValue = alpha * values[i] + (1 - alpha) * smoothedValue;
+  }
+  return new Array(horizonDays).fill(smoothedValue);
+}
+
+// Additive Holt-Winters (triple exponential smoothing) with a damped trend
+function holtWintersPoints(values: number[], horizonDays: number, options: HoltWintersOptions = {}): number[] {
+  const { alpha = 0.3, beta = 0.05, gamma = 0.3, phi = 0.9, seasonLength = 7 } = options;
+  const m = seasonLength;
+  
+  // Need two full seasons to initialise level, trend and seasonal indices
+  if (values.length < m * 2) return ewmaPoints(values, horizonDays);
+  
+  const firstSeasonAvg = values.slice(0, m).reduce((sum, qty) => sum + qty, 0) / m;
+  const secondSeasonAvg = values.slice(m, m * 2).reduce((sum, qty) => sum + qty, 0) / m;
+  
+  let level = firstSeasonAvg;
+  let trend = (secondSeasonAvg - firstSeasonAvg) / m;
+  const seasonal = values.slice(0, m).map(qty => qty - firstSeasonAvg);
+  
+  for (let t = m; t < values.length; t++) {
+    const s = t % m;
+    const prevLevel = level;
+    level = alpha * (values[t] - seasonal[s]) + (1 - alpha) * (prevLevel + phi * trend);
+    trend = beta * (level - prevLevel) + (1 - beta) * phi * trend;
+    seasonal[s] = gamma * (values[t] - level) + (1 - gamma) * seasonal[s];
+  }
+  
+  const points: number[] = [];
+  let dampedTrend = 0;
+  for (let h = 1; h <= horizonDays; h++) {
+    dampedTrend += Math.pow(phi, h) * trend;
+    points.push(Math.max(0, level + dampedTrend + seasonal[(values.length - 1 + h) % m]));
+  }
+  return points;
+}
+
+// Croston's method for intermittent demand; SBA applies the Syntetos-Boylan bias correction
+function crostonPoints(values: number[], horizonDays: number, options: CrostonOptions = {}): number[] {
+  const { alpha = 0.1, variant = "croston" } = options;
+  
+  const firstDemand = values.findIndex(qty => qty > 0);
+  if (firstDemand === -1) return new Array(horizonDays).fill(0);
+  
+  // Seed size and interval with their historical averages so a demand on day 0 doesn't skew the interval
+  const demandDays = values.reduce((count, qty) => count + (qty > 0 ? 1 : 0), 0);
+  const lastDemand = values.length - 1 - [...values].reverse().findIndex(qty => qty > 0);
+  let size = values.reduce((sum, qty) => sum + qty, 0) / demandDays; // smoothed non-zero demand size
+  let interval = demandDays > 1 ? (lastDemand - firstDemand) / (demandDays - 1) : firstDemand + 1; // smoothed interval between demands
+  let periodsSinceDemand = 0;
+  
+  for (let t = firstDemand + 1; t < values.length; t++) {
+    periodsSinceDemand++;
+    if (values[t] > 0) {
+      size = size + alpha * (values[t] - size);
+      interval = interval + alpha * (periodsSinceDemand - interval);
+      periodsSinceDemand = 0;
+    }
+  }
+  
+  const correction = variant === "sba" ? 1 - alpha / 2 : 1;
+  return new Array(horizonDays).fill(correction * size / interval);
+}
+
+function modelPoints(values: number[], model: ForecastModel, horizonDays: number): number[] {
+  switch (model) {
+    case "ewma":
+      return ewmaPoints(values, horizonDays);
+    case "holt_winters":
+      return holtWintersPoints(values, horizonDays);
+    case "croston":
+      return crostonPoints(values, horizonDays, { variant: "croston" });
+    case "sba":
+      return crostonPoints(values, horizonDays, { variant: "sba" });
+    case "moving_avg":
+    default:
+      return movingAvgPoints(values, horizonDays);
+  }
+}
+
+// Moving average forecast
+export function movingAvg(series: DailySales[], window: number = 28, horizonDays: number = 30): ForecastResult {
+  if (series.length === 0) {
+    return { daily: [], avgDaily: 0, peakDaily: 0 };
+  }
+  
+  return buildResult(series, movingAvgPoints(series.map(day => day.qty), horizonDays, window));
+}
+
+// Exponential Weighted Moving Average (EWMA) forecast
+export function ewma(series: DailySales[], alpha: number = 0.35, horizonDays: number = 30): ForecastResult {
+  if (series.length === 0) {
+    return { daily: [], avgDaily: 0, peakDaily: 0 };
+  }
+  
+  return buildResult(series, ewmaPoints(series.map(day => day.qty), horizonDays, alpha));
+}
+
+// Holt-Winters forecast for SKUs with weekly seasonality
+export function holtWinters(series: DailySales[], options: HoltWintersOptions = {}, horizonDays: number = 30): ForecastResult {
+  if (series.length === 0) {
+    return { daily: [], avgDaily: 0, peakDaily: 0 };
+  }
+  
+  return buildResult(series, holtWintersPoints(series.map(day => day.qty), horizonDays, options));
+}
+
+// Croston / SBA forecast for intermittent-demand SKUs (e.g. spare parts)
+export function croston(series: DailySales[], options: CrostonOptions = {}, horizonDays: number = 30): ForecastResult {
+  if (series.length === 0) {
+    return { daily: [], avgDaily: 0, peakDaily: 0 };
+  }
+  
+  return buildResult(series, crostonPoints(series.map(day => day.qty), horizonDays, options));
+}
+
+export const FORECAST_MODELS: ForecastModel[] = ["moving_avg", "ewma", "holt_winters", "croston", "sba"];
+
+export interface BacktestOptions {
+  folds?: number; // number of rolling origins
+  horizonDays?: number; // days forecast from each origin
+  minTrainDays?: number; // history required before the first origin
+}
+
+// Rolling-origin backtest: refit at each origin, forecast the next window and score it against actuals
+function runBacktest(series: DailySales[], model: ForecastModel, options: BacktestOptions = {}) {
+  const { folds = 4, horizonDays = 7, minTrainDays = 28 } = options;
+  const values = series.map(day => day.qty);
+  
+  let usedFolds = 0;
+  let absError = 0;
+  let signedError = 0;
+  let totalActual = 0;
+  let percentErrorSum = 0;
+  let percentErrorCount = 0;
+  
+  for (let k = folds; k >= 1; k--) {
+    const origin = values.length - k * horizonDays;
+    if (origin < minTrainDays) continue;
+    
+    const actual = values.slice(origin, origin + horizonDays);
+    const predicted = modelPoints(values.slice(0, origin), model, actual.length);
+    usedFolds++;
+    
+    actual.forEach((qty, i) => {
+      const error = predicted[i] - qty;
+      absError += Math.abs(error);
+      signedError += error;
+      totalActual += qty;
+      if (qty > 0) {
+        percentErrorSum += Math.abs(error) / qty;
+        percentErrorCount++;
+      }
+    });
+  }
+  
+  const metrics: ForecastBacktest = {
+    method: model,
+    folds: usedFolds,
+    mape: percentErrorCount > 0 ? round1((percentErrorSum / percentErrorCount) * 100) : null,
+    wape: totalActual > 0 ? round1((absError / totalActual) * 100) : null,
+    bias: totalActual > 0 ? round1((signedError / totalActual) * 100) : null
+  };
+  
+  return { metrics, absError };
+}
+
+export function backtestForecast(series: DailySales[], model: ForecastModel, options: BacktestOptions = {}): ForecastBacktest {
+  return runBacktest(series, model, options).metrics;
+}
+
+// Average demand interval (ADI) above 1.32 days marks demand as intermittent (Syntetos-Boylan)
+export function isIntermittentDemand(series: DailySales[]): boolean {
+  const demandDays = series.filter(day => day.qty > 0).length;
+  return demandDays === 0 || series.length / demandDays > 1.32;
+}
+
+// Candidate models for a SKU based on its demand pattern
+export function getCandidateMethods(series: DailySales[]): ForecastModel[] {
+  return isIntermittentDemand(series)
+    ? ["moving_avg", "croston", "sba"]
+    : ["moving_avg", "ewma", "holt_winters"];
+}
+
+// Pick the candidate with the lowest backtest WAPE for this SKU. All candidates are scored on the same
+// windows, so ranking by absolute error matches WAPE and still works when the actuals are all zero.
+export function selectForecastMethod(
+  series: DailySales[],
+  candidates: ForecastModel[] = getCandidateMethods(series),
+  options: BacktestOptions = {}
+): { method: ForecastModel; backtests: ForecastBacktest[] } {
+  const runs = candidates.map(model => runBacktest(series, model, options));
+  
+  let best = runs[0];
+  for (const run of runs) {
+    if (run.absError < best.absError) best = run;
+  }
+  
+  return {
+    method: best && best.metrics.folds > 0 ? best.metrics.method : "moving_avg",
+    backtests: runs.map(run => run.metrics)
+  };
+}
+
+export const FORECAST_METHOD_LABELS: Record<ForecastMethod, string> = {
+  moving_avg: "Moving Average",
+  ewma: "EWMA",
+  holt_winters: "Holt-Winters",
+  croston: "Croston",
+  sba: "Croston (SBA)",
+  auto: "Auto (best backtest)"
+};
+
+// Calculate reorder suggestions based on forecast and inventory
+export function calcSuggestion(params: {
+  onHand: number;
+  safetyStock: number;
+  avgDaily: number;
+  leadTimeDays: number;
+  reorderQty?: number;
+}): DemandSuggestion {
+  const { onHand, safetyStock, avgDaily, leadTimeDays, reorderQty } = params;
+  
+  // Ensure minimum daily demand of 1
+  const daily = Math.max(1, avgDaily);
+  
+  // Calculate how many days the current stock will last (excluding safety stock)
+  const coverDays = Math.max(0, (onHand - safetyStock) / daily);
+  
+  // Calculate when to reorder: current cover days minus lead time
+  const daysUntilReorder = Math.max(0, Math.floor(coverDays) - leadTimeDays);
+  const nextReorderDate = formatDate(addDays(new Date(), daysUntilReorder));
+  
+  // Calculate suggested order quantity
+  // Formula: (lead time + buffer period) * daily demand + safety stock - current on hand
+  const bufferDays = 14; // 2 week buffer
+  const totalNeed = (leadTimeDays + bufferDays) * daily + safetyStock;
+  const rawSuggestedQty = totalNeed - onHand;
+  
+  // Use reorder quantity as minimum if specified
+  const minQty = reorderQty || 0;
+  const suggestedQty = Math.max(0, Math.max(minQty, Math.ceil(rawSuggestedQty)));
+  
+  return {
+    onHand,
+    safetyStock,
+    avgDaily: daily,
+    leadTimeDays,
+    reorderQty,
+    coverDays: Math.round(coverDays * 10) / 10,
+    nextReorderDate,
+    suggestedQty
+  };
+}
+
+// Get forecast for a specific horizon (30/60/90 days)
+export function getForecastForHorizon(
+  orders: SalesOrderItem[],
+  productId: string,
+  locationId: string | undefined,
+  horizon: ForecastHorizon,
+  method: ForecastMethod,
+  minHistoryDays: number = 30
+): ForecastResult {
+  // Get historical sales data
+  const dailySalesMap = groupDailySales(orders, { productId, locationId });
+  const horizonDays = parseInt(horizon);
+  
+  // Seasonal models and backtesting need several weeks of history to fit
+  const needsLongHistory = method !== "moving_avg" && method !== "ewma";
+  const historyDays = Math.max(minHistoryDays, horizonDays + 30, needsLongHistory ? 84 : 0);
+  const startDate = getDaysAgo(historyDays);
+  const endDate = getDaysAgo(1); // Up to yesterday
+  
+  // Fill missing days with zeros
+  const series = fillMissingDays(dailySalesMap, startDate, endDate);
+  
+  // Handle sparse history - fall back to 7-day average if insufficient data
+  if (series.length < minHistoryDays) {
+    const recentDays = Math.min(7, series.length);
+    const recentSeries = series.slice(-recentDays);
+    return { ...movingAvg(recentSeries, recentDays, horizonDays), selectedMethod: "moving_avg" };
+  }
+  
+  // Resolve "auto" to the best-scoring model for this SKU
+  let model: ForecastModel;
+  let backtests: ForecastBacktest[];
+  if (method === "auto") {
+    const selection = selectForecastMethod(series);
+    model = selection.method;
+    backtests = selection.backtests;
+  } else {
+    model = method;
+    backtests = [backtestForecast(series, model)];
+  }
+  
+  // Apply the selected forecasting method
+  let result: ForecastResult;
+  switch (model) {
+    case "ewma":
+      result = ewma(series, 0.35, horizonDays);
+      break;
+    case "holt_winters":
+      result = holtWinters(series, {}, horizonDays);
+      break;
+    case "croston":
+    case "sba":
+      result = croston(series, { variant: model }, horizonDays);
+      break;
+    case "moving_avg":
+    default:
+      result = movingAvg(series, 28, horizonDays);
+  }
+  
+  return { ...result, selectedMethod: model, backtests };
+}
+
+// Seasonality factors relative to the overall average (1.0 = average day/month)
+export function seasonalityAdjust(
+  series: DailySales[], 
+  pattern: "weekly" | "monthly" = "weekly"
+): number[] {
+  if (pattern === "weekly") {
+    // Calculate average for each day of week
+    const weeklyFactors = new Array(7).fill(0);
+    const weeklyCounts = new Array(7).fill(0);
+    
+    for (const day of series) {
+      const date = new Date(day.date);
+      const dayOfWeek = date.getUTCDay(); // 0 = Sunday, 1 = Monday, etc.
+      weeklyFactors[dayOfWeek] += day.qty;
+      weeklyCounts[dayOfWeek]++;
+    }
+    
+    // Calculate factors relative to overall average
+    const overallAvg = series.reduce((sum, day) => sum + day.qty, 0) / series.length;
+    
+    return weeklyFactors.map((total, index) => {
+      const count = weeklyCounts[index];
+      if (count === 0) return 1.0;
+      const dayAvg = total / count;
+      return overallAvg > 0 ? dayAvg / overallAvg : 1.0;
+    });
+  }
+  
+  // Monthly seasonality - average daily sales per calendar month vs. overall
+  const monthlyTotals = new Array(12).fill(0);
+  const monthlyCounts = new Array(12).fill(0);
+  
+  for (const day of series) {
+    const month = new Date(day.date).getUTCMonth();
+    monthlyTotals[month] += day.qty;
+    monthlyCounts[month]++;
+  }
+  
+  const overallAvg = series.reduce((sum, day) => sum + day.qty, 0) / series.length;
+  
+  return monthlyTotals.map((total, index) => {
+    const count = monthlyCounts[index];
+    if (count === 0) return 1.0;
+    const monthAvg = total / count;
+    return overallAvg > 0 ? monthAvg / overallAvg : 1.0;
+  });
+}
+
+// Generate forecast cache key
+export function getForecastCacheKey(
+  productId: string, 
+  locationId: string | undefined, 
+  horizon: ForecastHorizon, 
+  method: ForecastMethod
+): string {
+  const location = locationId || "all";
+  return `forecast:${productId}:${location}:${horizon}:${method}`;
+}
+
+// Check if forecast is stale and needs recomputation
+export function isForecastStale(timestamp: string, maxAgeHours: number = 24): boolean {
+  const forecastTime = new Date(timestamp);
+  const now = new Date();
+  const ageHours = (now.getTime() - forecastTime.getTime()) / (1000 * 60 * 60);
+  return ageHours > maxAgeHours;
+}
\ No newline at end of file
@@ -0,0 +1,138 @@
+import { describe, expect, it } from "vitest";
+import type { TaxCustomer, TaxInvoice, TaxProduct } from "./schema";
+import { DEFAULT_FINANCE_SETTINGS } from "./taxation";
+import { buildEInvoice, buildGstr1, gstinCheckCharacter, gstinProblem, gstr1ToCsv, validateEInvoice, type GstContext } from "./gst";
+
+const withCheck = (first14: string) => first14 + gstinCheckCharacter(first14);
+
+const sellerGstin = withCheck("29AAACF1234K1Z");
+const context: GstContext = {
+  settings: {
+    ...DEFAULT_FINANCE_SETTINGS,
+    businessState: "KA",
+    gstRegistration: { gstin: sellerGstin, legalName: "Flowventory Traders Pvt Ltd", address1: "1 MG Road", location: "Bengaluru", pincode: "560001" },
+  },
+  customers: [
+    { id: "ka-registered", name: "Karnataka Software Solutions", email: "a@example.in", regionId: "IN", country: "India", state: "KA", gstinOrVatNo: withCheck("29ABCDE1234F1Z"), address: "14 Residency Road", city: "Bengaluru", postalCode: "560025" },
+    { id: "mh-registered", name: "Mumbai Manufacturing Co", email: "b@example.in", regionId: "IN", country: "India", state: "MH", gstinOrVatNo: withCheck("27ABCDE1234F1Z"), address: "Plot 7, MIDC", city: "Mumbai", postalCode: "400093" },
+    { id: "mh-consumer", name: "Asha Rao", email: "c@example.in", regionId: "IN", country: "India", state: "MH" },
+    { id: "ka-consumer", name: "Ravi Kumar", email: "d@example.in", regionId: "IN", country: "India", state: "KA" },
+  ] satisfies TaxCustomer[],
+  products: [
+    { id: "speaker", sku: "IN-SPK-1", name: "Bluetooth Speaker", regionId: "IN", price: 2000, hsnCode: "85182200" },
+    { id: "book", sku: "IN-BK-1", name: "Printed Book", regionId: "IN", price: 500, taxCategory: "reduced", hsnCode: "4901" },
+    { id: "setup", sku: "IN-SVC-1", name: "Installation", regionId: "IN", price: 1500, hsnCode: "998719" },
+    { id: "cable", sku: "IN-CBL-1", name: "Cable", regionId: "IN", price: 100 },
+  ] satisfies TaxProduct[],
+};
+
+function invoice(number: string, customerId: string, createdAt: string, items: TaxInvoice["items"]): TaxInvoice {
+  const sub = items.reduce((total, item) => total + item.qty * item.unitPrice, 0);
+  return { id: number, number, regionId: "IN", customerId, createdAt, items, totals: { sub, tax: 0, grand: 0, currency: "INR" } };
+}
+
+const speaker = (qty: number) => ({ productId: "speaker", name: "Bluetooth Speaker", qty, unitPrice: 2000 });
+const book = (qty: number) => ({ productId: "book", name: "Printed Book", qty, unitPrice: 500 });
+
+// Grand totals as the app would have stored them (18% on speakers, 12% on books)
+const invoices: TaxInvoice[] = [
+  { ...invoice("INV-IN-001", "ka-registered", "2026-01-05T10:00:00.000Z", [speaker(2), book(4)]), totals: { sub: 6000, tax: 960, grand: 6960, currency: "INR" } },
+  { ...invoice("INV-IN-002", "mh-registered", "2026-01-09T10:00:00.000Z", [speaker(1)]), totals: { sub: 2000, tax: 360, grand: 2360, currency: "INR" } },
+  { ...invoice("INV-IN-003", "mh-consumer", "2026-01-12T10:00:00.000Z", [speaker(50)]), totals: { sub: 100000, tax: 18000, grand: 118000, currency: "INR" } },
+  { ...invoice("INV-IN-004", "mh-consumer", "2026-01-15T10:00:00.000Z", [book(2)]), totals: { sub: 1000, tax: 120, grand: 1120, currency: "INR" } },
+  { ...invoice("INV-IN-005", "ka-consumer", "2026-01-20T10:00:00.000Z", [speaker(1), book(1)]), totals: { sub: 2500, tax: 420, grand: 2920, currency: "INR" } },
+  { ...invoice("INV-IN-006", "ka-consumer", "2026-01-22T10:00:00.000Z", [{ productId: "cable", name: "Cable", qty: 1, unitPrice: 100 }]), totals: { sub: 100, tax: 18, grand: 118, currency: "INR" } },
+  { ...invoice("INV-IN-007", "ka-registered", "2026-02-02T10:00:00.000Z", [speaker(1)]), totals: { sub: 2000, tax: 360, grand: 2360, currency: "INR" } },
+];
+
+describe("gstinProblem", () => {
+  it("accepts GSTINs with the right check character and rejects the rest", () => {
+    expect(gstinProblem("27AAPFU0939F1ZV")).toBeUndefined();
+    expect(gstinProblem("27AAPFU0939F1ZW")).toMatch(/check character/);
+    expect(gstinProblem("99AAPFU0939F1ZV")).toMatch(/unknown state code/);
+    expect(gstinProblem("27AAPFU0939F1")).toMatch(/15-character/);
+  });
+});
+
+describe("buildGstr1", () => {
+  const { gstr1, problems } = buildGstr1(invoices, "2026-01", context);
+
+  // Regenerate with `npx vitest run shared/gst.test.ts -u` after an intended change, and review the diff
+  it("matches the golden return", async () => {
+    await expect(JSON.stringify(gstr1, null, 2) + "\n").toMatchFileSnapshot("./__golden__/gst/gstr1-2026-01.json");
+  });
+
+  it("matches the golden CSV sections", async () => {
+    const sections = gstr1ToCsv(gstr1, context.customers);
+
+    await expect(Object.entries(sections).map(([name, csv]) => `# ${name}\n${csv}\n`).join("\n"))
+      .toMatchFileSnapshot("./__golden__/gst/gstr1-2026-01.csv");
+  });
+
+  it("reports registered buyers as B2B, large inter-state sales as B2CL and the rest as B2CS", () => {
+    expect(gstr1.b2b.flatMap(recipient => recipient.inv.map(inv => inv.inum))).toEqual(["INV-IN-001", "INV-IN-002"]);
+    expect(gstr1.b2cl).toEqual([expect.objectContaining({ pos: "27", inv: [expect.objectContaining({ inum: "INV-IN-003" })] })]);
+    expect(gstr1.b2cs.map(row => [row.sply_ty, row.pos, row.rt])).toEqual([
+      ["INTER", "27", 12],
+      ["INTRA", "29", 18],
+      ["INTRA", "29", 12],
+    ]);
+  });
+
+  it("leaves out and lists invoices that can't be reported", () => {
+    expect(problems).toEqual([{ invoiceNumber: "INV-IN-006", problems: ["Line 1 (Cable) has no HSN code"] }]);
+  });
+});
+
+describe("buildEInvoice", () => {
+  it("matches the golden payload for an intra-state B2B invoice", async () => {
+    const { payload, errors } = buildEInvoice(invoices[0], context);
+
+    expect(errors).toEqual([]);
+    await expect(JSON.stringify(payload, null, 2) + "\n").toMatchFileSnapshot("./__golden__/gst/einvoice-INV-IN-001.json");
+  });
+
+  it("charges IGST across states and marks SAC codes as services", () => {
+    const { payload, errors } = buildEInvoice(
+      invoice("INV-IN-008", "mh-registered", "2026-01-10T10:00:00.000Z", [{ productId: "setup", name: "Installation", qty: 1, unitPrice: 1500 }]),
+      context
+    );
+
+    expect(errors).toEqual([]);
+    expect(payload!.ItemList[0]).toMatchObject({ IsServc: "Y", IgstAmt: 270, CgstAmt: 0, SgstAmt: 0 });
+    expect(payload!.ValDtls).toMatchObject({ AssVal: 1500, IgstVal: 270, TotInvVal: 1770 });
+  });
+
+  it("only builds e-invoices for registered buyers", () => {
+    expect(buildEInvoice(invoices[3], context).errors).toEqual(["E-invoices are only for B2B supplies; the customer has no GSTIN"]);
+  });
+});
+
+describe("validateEInvoice", () => {
+  const { payload } = buildEInvoice(invoices[0], context);
+
+  it("surfaces each rule an invoice breaks", () => {
+    const broken = {
+      ...payload!,
+      DocDtls: { ...payload!.DocDtls, No: "0INV/2026/000000001" },
+      BuyerDtls: { ...payload!.BuyerDtls, Pin: 5600, Addr1: "" },
+      ItemList: [{ ...payload!.ItemList[0], HsnCd: "85", GstRt: 17, IgstAmt: 10 }, ...payload!.ItemList.slice(1)],
+    };
+
+    expect(validateEInvoice(broken, "2026-01-31")).toEqual([
+      "Invoice number 0INV/2026/000000001 must be at most 16 letters, digits, / or -, not starting with 0, / or -",
+      "Buyer address must be 1 to 100 characters",
+      "Buyer PIN code must be 6 digits",
+      "Item 1 HSN code 85 must be 4, 6 or 8 digits",
+      "Item 1 GST rate 17% isn't a GST slab",
+      "Item 1 value 4720 isn't its taxable value plus tax",
+      "Item 1 charges IGST on an intra-state supply",
+      "Item 1 tax doesn't match 17% of 4000",
+      "IGST 0 doesn't match the items' 10",
+    ]);
+  });
+
+  it("rejects invoices dated after today", () => {
+    expect(validateEInvoice(payload!, "2026-01-04")).toEqual(["Invoice date 05/01/2026 is in the future"]);
+  });
+});
@@ -0,0 +1,529 @@
+import type { FinanceSettings, TaxCustomer, TaxInvoice, TaxProduct } from "./schema";
+import { calculateRegionTax, fromMinorUnits, toMinorUnits, toTaxDate } from "./taxation";
+
+// India GST: GSTR-1 returns and NIC e-invoice payloads built from the app's tax invoices. Everything
+// here is checked locally; nothing is filed with the GST portal or the IRP.
+
+// GST state codes (GSTIN prefix and place of supply) for the state abbreviations finance settings use
+export const GST_STATES: Record<string, { code: string; name: string }> = {
+  JK: { code: "01", name: "Jammu and Kashmir" },
+  HP: { code: "02", name: "Himachal Pradesh" },
+  PB: { code: "03", name: "Punjab" },
+  CH: { code: "04", name: "Chandigarh" },
+  UK: { code: "05", name: "Uttarakhand" },
+  HR: { code: "06", name: "Haryana" },
+  DL: { code: "07", name: "Delhi" },
+  RJ: { code: "08", name: "Rajasthan" },
+  UP: { code: "09", name: "Uttar Pradesh" },
+  BR: { code: "10", name: "Bihar" },
+  SK: { code: "11", name: "Sikkim" },
+  AR: { code: "12", name: "Arunachal Pradesh" },
+  NL: { code: "13", name: "Nagaland" },
+  MN: { code: "14", name: "Manipur" },
+  MZ: { code: "15", name: "Mizoram" },
+  TR: { code: "16", name: "Tripura" },
+  ML: { code: "17", name: "Meghalaya" },
+  AS: { code: "18", name: "Assam" },
+  WB: { code: "19", name: "West Bengal" },
+  JH: { code: "20", name: "Jharkhand" },
+  OD: { code: "21", name: "Odisha" },
+  CG: { code: "22", name: "Chhattisgarh" },
+  MP: { code: "23", name: "Madhya Pradesh" },
+  GJ: { code: "24", name: "Gujarat" },
+  DN: { code: "26", name: "Dadra and Nagar Haveli and Daman and Diu" },
+  MH: { code: "27", name: "Maharashtra" },
+  KA: { code: "29", name: "Karnataka" },
+  GA: { code: "30", name: "Goa" },
+  LD: { code: "31", name: "Lakshadweep" },
+  KL: { code: "32", name: "Kerala" },
+  TN: { code: "33", name: "Tamil Nadu" },
+  PY: { code: "34", name: "Puducherry" },
+  AN: { code: "35", name: "Andaman and Nicobar Islands" },
+  TS: { code: "36", name: "Telangana" },
+  AP: { code: "37", name: "Andhra Pradesh" },
+  LA: { code: "38", name: "Ladakh" },
+};
+
+// Inter-state supplies to unregistered buyers above this invoice value are reported invoice by
+// invoice (B2CL); everything else to unregistered buyers is summarised by state and rate (B2CS)
+export const B2CL_INVOICE_VALUE_THRESHOLD = 100000;
+
+// The GST slabs, in percent, that the IRP accepts on an e-invoice line
+const GST_RATES = [0, 0.1, 0.25, 1, 1.5, 3, 5, 6, 7.5, 12, 18, 28];
+
+// Rupee differences the IRP tolerates between a total and the amounts it sums
+const ROUNDING_TOLERANCE = 1;
+
+const GSTIN_PATTERN = /^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+const GSTIN_CHARACTERS = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ";
+
+// The 15th character of a GSTIN: a base-36 Luhn check over the first 14
+export function gstinCheckCharacter(gstin: string): string {
+  let sum = 0;
+  for (let i = 0; i < 14; i++) {
+    const product = GSTIN_CHARACTERS.indexOf(gstin[i]) * (i % 2 === 0 ? 1 : 2);
+    sum += Math.floor(product / 36) + (product % 36);
+  }
+  return GSTIN_CHARACTERS[(36 - (sum % 36)) % 36];
+}
+
+// Why a GSTIN isn't valid, or undefined if it is
+export function gstinProblem(gstin: string): string | undefined {
+  if (!GSTIN_PATTERN.test(gstin)) return `GSTIN ${gstin} is not a 15-character GSTIN`;
+  if (!Object.values(GST_STATES).some(state => state.code === gstin.slice(0, 2))) {
+    return `GSTIN ${gstin} starts with an unknown state code`;
+  }
+  if (gstinCheckCharacter(gstin) !== gstin[14]) return `GSTIN ${gstin} has the wrong check character`;
+  return undefined;
+}
+
+export interface GstContext {
+  settings: FinanceSettings;
+  customers: TaxCustomer[];
+  products: TaxProduct[];
+}
+
+interface GstLine {
+  description: string;
+  hsnCode: string;
+  qty: number;
+  unitPrice: number;
+  rate: number; // Percent
+  taxable: number;
+  igst: number;
+  cgst: number;
+  sgst: number;
+}
+
+interface GstInvoice {
+  invoice: TaxInvoice;
+  customer?: TaxCustomer;
+  buyerGstin?: string;
+  placeOfSupply: string; // State code
+  interState: boolean;
+  date: string; // YYYY-MM-DD
+  value: number;
+  lines: GstLine[];
+}
+
+export interface GstInvoiceProblems {
+  invoiceNumber: string;
+  problems: string[];
+}
+
+const money = (amount: number) => fromMinorUnits(toMinorUnits(amount));
+const sum = <T>(items: T[], amount: (item: T) => number) => money(items.reduce((total, item) => total + amount(item), 0));
+
+// An invoice's GST lines at the rates in force on its date, or what stops it being reported
+function analyseInvoice(invoice: TaxInvoice, context: GstContext): { gst?: GstInvoice; problems: string[] } {
+  const { settings, customers, products } = context;
+  const problems: string[] = [];
+
+  const region = settings.regions.find(r => r.id === invoice.regionId);
+  const customer = customers.find(c => c.id === invoice.customerId);
+  const supplierState = settings.businessState ? GST_STATES[settings.businessState] : undefined;
+  const buyerStateCode = invoice.placeOfSupply?.state ?? customer?.state;
+  const buyerState = buyerStateCode ? GST_STATES[buyerStateCode] : undefined;
+  const buyerGstin = customer?.gstinOrVatNo || undefined;
+
+  if (!region) problems.push(`Region ${invoice.regionId} isn't in finance settings`);
+  if (!supplierState) problems.push("The business state in finance settings isn't an Indian state");
+  if (!buyerState) problems.push(buyerStateCode ? `Place of supply ${buyerStateCode} isn't an Indian state` : "Place of supply has no state");
+  if (buyerGstin) {
+    const problem = gstinProblem(buyerGstin);
+    if (problem) problems.push(`Customer ${problem}`);
+  }
+
+  const productById = new Map(products.map(product => [product.id, product]));
+  invoice.items.forEach((item, index) => {
+    if (!productById.get(item.productId)?.hsnCode) problems.push(`Line ${index + 1} (${item.name}) has no HSN code`);
+  });
+
+  if (problems.length > 0 || !region || !supplierState || !buyerState) {
+    return { problems };
+  }
+
+  const productTaxCategories: Record<string, string> = {};
+  products.forEach(product => {
+    if (product.taxCategory) productTaxCategories[product.id] = product.taxCategory;
+  });
+  const calculation = calculateRegionTax(region, {
+    date: invoice.createdAt,
+    customerState: buyerStateCode,
+    businessState: settings.businessState,
+    lineItems: invoice.items,
+    productTaxCategories,
+  });
+
+  const lines = invoice.items.map((item, index): GstLine => {
+    const detail = calculation.lineItemTaxDetails[index];
+    return {
+      description: item.name,
+      hsnCode: productById.get(item.productId)!.hsnCode!,
+      qty: item.qty,
+      unitPrice: item.unitPrice,
+      rate: money(detail.taxRate * 100),
+      taxable: detail.netAmount,
+      igst: detail.taxBreakup?.igst ?? 0,
+      cgst: detail.taxBreakup?.cgst ?? 0,
+      sgst: detail.taxBreakup?.sgst ?? 0,
+    };
+  });
+
+  return {
+    gst: {
+      invoice,
+      customer,
+      buyerGstin,
+      placeOfSupply: buyerState.code,
+      interState: buyerState.code !== supplierState.code,
+      date: toTaxDate(invoice.createdAt),
+      value: invoice.totals?.grand ?? calculation.totals.grand,
+      lines,
+    },
+    problems,
+  };
+}
+
+// GSTR-1 JSON, in the shape the GST offline tool imports
+interface Gstr1ItemDetail {
+  txval: number;
+  rt: number;
+  iamt?: number;
+  camt?: number;
+  samt?: number;
+  csamt: number;
+}
+
+interface Gstr1Item {
+  num: number;
+  itm_det: Gstr1ItemDetail;
+}
+
+export interface Gstr1Return {
+  gstin: string;
+  fp: string; // Filing period, MMYYYY
+  b2b: { ctin: string; inv: { inum: string; idt: string; val: number; pos: string; rchrg: "N"; inv_typ: "R"; itms: Gstr1Item[] }[] }[];
+  b2cl: { pos: string; inv: { inum: string; idt: string; val: number; itms: Gstr1Item[] }[] }[];
+  b2cs: { sply_ty: "INTRA" | "INTER"; pos: string; typ: "OE"; rt: number; txval: number; iamt?: number; camt?: number; samt?: number; csamt: number }[];
+  hsn: { data: { num: number; hsn_sc: string; desc: string; uqc: string; qty: number; rt: number; txval: number; iamt: number; camt: number; samt: number; csamt: number }[] };
+}
+
+export type Gstr1Section = "b2b" | "b2cl" | "b2cs" | "hsn";
+
+// dd-mm-yyyy, as GSTR-1 JSON dates are written
+function gstr1Date(date: string): string {
+  const [year, month, day] = date.split("-");
+  return `${day}-${month}-${year}`;
+}
+
+// An invoice's lines summed per tax rate, as GSTR-1 reports them
+function itemsByRate(gst: GstInvoice, withStateTaxes: boolean): Gstr1Item[] {
+  const rates = Array.from(new Set(gst.lines.map(line => line.rate))).sort((a, b) => a - b);
+  return rates.map((rate, index) => {
+    const lines = gst.lines.filter(line => line.rate === rate);
+    const detail: Gstr1ItemDetail = { txval: sum(lines, line => line.taxable), rt: rate, csamt: 0 };
+    if (gst.interState) {
+      detail.iamt = sum(lines, line => line.igst);
+    } else if (withStateTaxes) {
+      detail.camt = sum(lines, line => line.cgst);
+      detail.samt = sum(lines, line => line.sgst);
+    }
+    return { num: index + 1, itm_det: detail };
+  });
+}
+
+// GSTR-1 for the India region's invoices raised in a month (YYYY-MM). Invoices that can't be reported
+// as they stand (no HSN code, no place of supply, a malformed GSTIN) are left out and listed
+export function buildGstr1(
+  invoices: TaxInvoice[],
+  period: string,
+  context: GstContext
+): { gstr1: Gstr1Return; problems: GstInvoiceProblems[] } {
+  const [year, month] = period.split("-");
+  const gstr1: Gstr1Return = {
+    gstin: context.settings.gstRegistration?.gstin ?? "",
+    fp: `${month}${year}`,
+    b2b: [],
+    b2cl: [],
+    b2cs: [],
+    hsn: { data: [] },
+  };
+  const problems: GstInvoiceProblems[] = [];
+  const reported: GstInvoice[] = [];
+
+  invoices
+    .filter(invoice => invoice.regionId === "IN" && toTaxDate(invoice.createdAt).startsWith(period))
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+    .forEach(invoice => {
+      const analysis = analyseInvoice(invoice, context);
+      if (analysis.gst) {
+        reported.push(analysis.gst);
+      } else {
+        problems.push({ invoiceNumber: invoice.number, problems: analysis.problems });
+      }
+    });
+
+  for (const gst of reported) {
+    if (gst.buyerGstin) {
+      let recipient = gstr1.b2b.find(entry => entry.ctin === gst.buyerGstin);
+      if (!recipient) {
+        recipient = { ctin: gst.buyerGstin, inv: [] };
+        gstr1.b2b.push(recipient);
+      }
+      recipient.inv.push({
+        inum: gst.invoice.number,
+        idt: gstr1Date(gst.date),
+        val: money(gst.value),
+        pos: gst.placeOfSupply,
+        rchrg: "N",
+        inv_typ: "R",
+        itms: itemsByRate(gst, true),
+      });
+    } else if (gst.interState && gst.value > B2CL_INVOICE_VALUE_THRESHOLD) {
+      let state = gstr1.b2cl.find(entry => entry.pos === gst.placeOfSupply);
+      if (!state) {
+        state = { pos: gst.placeOfSupply, inv: [] };
+        gstr1.b2cl.push(state);
+      }
+      state.inv.push({
+        inum: gst.invoice.number,
+        idt: gstr1Date(gst.date),
+        val: money(gst.value),
+        itms: itemsByRate(gst, false),
+      });
+    } else {
+      for (const line of gst.lines) {
+        const supplyType = gst.interState ? "INTER" : "INTRA";
+        let summary = gstr1.b2cs.find(entry => entry.sply_ty === supplyType && entry.pos === gst.placeOfSupply && entry.rt === line.rate);
+        if (!summary) {
+          summary = gst.interState
+            ? { sply_ty: supplyType, pos: gst.placeOfSupply, typ: "OE", rt: line.rate, txval: 0, iamt: 0, csamt: 0 }
+            : { sply_ty: supplyType, pos: gst.placeOfSupply, typ: "OE", rt: line.rate, txval: 0, camt: 0, samt: 0, csamt: 0 };
+          gstr1.b2cs.push(summary);
+        }
+        summary.txval = money(summary.txval + line.taxable);
+        if (gst.interState) {
+          summary.iamt = money(summary.iamt! + line.igst);
+        } else {
+          summary.camt = money(summary.camt! + line.cgst);
+          summary.samt = money(summary.samt! + line.sgst);
+        }
+      }
+    }
+
+    for (const line of gst.lines) {
+      let row = gstr1.hsn.data.find(entry => entry.hsn_sc === line.hsnCode && entry.rt === line.rate);
+      if (!row) {
+        row = { num: gstr1.hsn.data.length + 1, hsn_sc: line.hsnCode, desc: line.description, uqc: "NOS", qty: 0, rt: line.rate, txval: 0, iamt: 0, camt: 0, samt: 0, csamt: 0 };
+        gstr1.hsn.data.push(row);
+      }
+      row.qty += line.qty;
+      row.txval = money(row.txval + line.taxable);
+      row.iamt = money(row.iamt + line.igst);
+      row.camt = money(row.camt + line.cgst);
+      row.samt = money(row.samt + line.sgst);
+    }
+  }
+
+  return { gstr1, problems };
+}
+
+const CSV_MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+// dd-Mmm-yyyy, as the offline tool's CSV templates write dates
+function csvDate(gstr1Date: string): string {
+  const [day, month, year] = gstr1Date.split("-");
+  return `${day}-${CSV_MONTHS[Number(month) - 1]}-${year}`;
+}
+
+function csvPlaceOfSupply(code: string): string {
+  const state = Object.values(GST_STATES).find(s => s.code === code);
+  return `${code}-${state?.name ?? ""}`;
+}
+
+function csv(headers: string[], rows: (string | number)[][]): string {
+  const cell = (value: string | number) => {
+    const text = String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return [headers, ...rows].map(row => row.map(cell).join(",")).join("\n");
+}
+
+// The return as the offline tool's per-section CSV templates. Recipient names come from the customers
+export function gstr1ToCsv(gstr1: Gstr1Return, customers: TaxCustomer[]): Record<Gstr1Section, string> {
+  const recipientName = (gstin: string) => customers.find(c => c.gstinOrVatNo === gstin)?.name ?? "";
+
+  return {
+    b2b: csv(
+      ["GSTIN/UIN of Recipient", "Receiver Name", "Invoice Number", "Invoice date", "Invoice Value", "Place Of Supply", "Reverse Charge", "Applicable % of Tax Rate", "Invoice Type", "E-Commerce GSTIN", "Rate", "Taxable Value", "Cess Amount"],
+      gstr1.b2b.flatMap(recipient => recipient.inv.flatMap(inv => inv.itms.map(({ itm_det }) => [
+        recipient.ctin, recipientName(recipient.ctin), inv.inum, csvDate(inv.idt), inv.val, csvPlaceOfSupply(inv.pos),
+        inv.rchrg, "", "Regular B2B", "", itm_det.rt, itm_det.txval, itm_det.csamt,
+      ])))
+    ),
+    b2cl: csv(
+      ["Invoice Number", "Invoice date", "Invoice Value", "Place Of Supply", "Applicable % of Tax Rate", "Rate", "Taxable Value", "Cess Amount", "E-Commerce GSTIN"],
+      gstr1.b2cl.flatMap(state => state.inv.flatMap(inv => inv.itms.map(({ itm_det }) => [
+        inv.inum, csvDate(inv.idt), inv.val, csvPlaceOfSupply(state.pos), "", itm_det.rt, itm_det.txval, itm_det.csamt, "",
+      ])))
+    ),
+    b2cs: csv(
+      ["Type", "Place Of Supply", "Applicable % of Tax Rate", "Rate", "Taxable Value", "Cess Amount", "E-Commerce GSTIN"],
+      gstr1.b2cs.map(row => [row.typ, csvPlaceOfSupply(row.pos), "", row.rt, row.txval, row.csamt, ""])
+    ),
+    hsn: csv(
+      ["HSN", "Description", "UQC", "Total Quantity", "Total Value", "Rate", "Taxable Value", "Integrated Tax Amount", "Central Tax Amount", "State/UT Tax Amount", "Cess Amount"],
+      gstr1.hsn.data.map(row => [
+        row.hsn_sc, row.desc, "NOS-NUMBERS", row.qty, money(row.txval + row.iamt + row.camt + row.samt + row.csamt),
+        row.rt, row.txval, row.iamt, row.camt, row.samt, row.csamt,
+      ])
+    ),
+  };
+}
+
+// An e-invoice in the NIC schema (version 1.1), the JSON the IRP signs to issue an IRN
+export interface EInvoicePayload {
+  Version: "1.1";
+  TranDtls: { TaxSch: "GST"; SupTyp: "B2B"; RegRev: "N"; IgstOnIntra: "N" };
+  DocDtls: { Typ: "INV"; No: string; Dt: string };
+  SellerDtls: { Gstin: string; LglNm: string; Addr1: string; Loc: string; Pin: number; Stcd: string };
+  BuyerDtls: { Gstin: string; LglNm: string; Pos: string; Addr1: string; Loc: string; Pin: number; Stcd: string };
+  ItemList: {
+    SlNo: string;
+    PrdDesc: string;
+    IsServc: "Y" | "N";
+    HsnCd: string;
+    Qty: number;
+    Unit: string;
+    UnitPrice: number;
+    TotAmt: number;
+    AssAmt: number;
+    GstRt: number;
+    IgstAmt: number;
+    CgstAmt: number;
+    SgstAmt: number;
+    TotItemVal: number;
+  }[];
+  ValDtls: { AssVal: number; CgstVal: number; SgstVal: number; IgstVal: number; TotInvVal: number };
+}
+
+// dd/mm/yyyy, as e-invoice dates are written
+function eInvoiceDate(date: string): string {
+  const [year, month, day] = date.split("-");
+  return `${day}/${month}/${year}`;
+}
+
+// The e-invoice for a B2B invoice, and every reason the IRP would reject it
+export function buildEInvoice(invoice: TaxInvoice, context: GstContext): { payload?: EInvoicePayload; errors: string[] } {
+  const { gst, problems } = analyseInvoice(invoice, context);
+  if (!gst) return { errors: problems };
+
+  const seller = context.settings.gstRegistration;
+  if (!seller) return { errors: ["Set up the GST registration in finance settings"] };
+  if (!gst.buyerGstin || !gst.customer) return { errors: ["E-invoices are only for B2B supplies; the customer has no GSTIN"] };
+
+  const items = gst.lines.map((line, index) => {
+    const tax = money(line.igst + line.cgst + line.sgst);
+    return {
+      SlNo: String(index + 1),
+      PrdDesc: line.description,
+      IsServc: line.hsnCode.startsWith("99") ? "Y" as const : "N" as const,
+      HsnCd: line.hsnCode,
+      Qty: line.qty,
+      Unit: "NOS",
+      UnitPrice: line.unitPrice,
+      TotAmt: money(line.qty * line.unitPrice),
+      AssAmt: line.taxable,
+      GstRt: line.rate,
+      IgstAmt: line.igst,
+      CgstAmt: line.cgst,
+      SgstAmt: line.sgst,
+      TotItemVal: money(line.taxable + tax),
+    };
+  });
+
+  const payload: EInvoicePayload = {
+    Version: "1.1",
+    TranDtls: { TaxSch: "GST", SupTyp: "B2B", RegRev: "N", IgstOnIntra: "N" },
+    DocDtls: { Typ: "INV", No: invoice.number, Dt: eInvoiceDate(gst.date) },
+    SellerDtls: {
+      Gstin: seller.gstin,
+      LglNm: seller.legalName,
+      Addr1: seller.address1,
+      Loc: seller.location,
+      Pin: Number(seller.pincode),
+      Stcd: GST_STATES[context.settings.businessState!].code,
+    },
+    BuyerDtls: {
+      Gstin: gst.buyerGstin,
+      LglNm: gst.customer.name,
+      Pos: gst.placeOfSupply,
+      Addr1: gst.customer.address ?? "",
+      Loc: gst.customer.city ?? "",
+      Pin: Number(gst.customer.postalCode ?? 0),
+      Stcd: gst.buyerGstin.slice(0, 2),
+    },
+    ItemList: items,
+    ValDtls: {
+      AssVal: sum(items, item => item.AssAmt),
+      CgstVal: sum(items, item => item.CgstAmt),
+      SgstVal: sum(items, item => item.SgstAmt),
+      IgstVal: sum(items, item => item.IgstAmt),
+      TotInvVal: sum(items, item => item.TotItemVal),
+    },
+  };
+
+  return { payload, errors: validateEInvoice(payload) };
+}
+
+// The NIC schema's rules that the IRP checks before issuing an IRN, as messages naming what is wrong
+export function validateEInvoice(payload: EInvoicePayload, today: string = toTaxDate()): string[] {
+  const errors: string[] = [];
+  const { DocDtls, SellerDtls, BuyerDtls, ItemList, ValDtls } = payload;
+  const near = (a: number, b: number) => Math.abs(a - b) <= ROUNDING_TOLERANCE;
+
+  if (!/^[A-Za-z1-9][A-Za-z0-9/-]{0,15}$/.test(DocDtls.No)) {
+    errors.push(`Invoice number ${DocDtls.No} must be at most 16 letters, digits, / or -, not starting with 0, / or -`);
+  }
+  const [day, month, year] = DocDtls.Dt.split("/");
+  if (`${year}-${month}-${day}` > today) errors.push(`Invoice date ${DocDtls.Dt} is in the future`);
+
+  for (const [party, details] of [["Seller", SellerDtls], ["Buyer", BuyerDtls]] as const) {
+    const problem = gstinProblem(details.Gstin);
+    if (problem) errors.push(`${party} ${problem}`);
+    if (details.LglNm.length < 3 || details.LglNm.length > 100) errors.push(`${party} legal name must be 3 to 100 characters`);
+    if (details.Addr1.length < 1 || details.Addr1.length > 100) errors.push(`${party} address must be 1 to 100 characters`);
+    if (details.Loc.length < 3 || details.Loc.length > 50) errors.push(`${party} location must be 3 to 50 characters`);
+    if (!Number.isInteger(details.Pin) || details.Pin < 100000 || details.Pin > 999999) errors.push(`${party} PIN code must be 6 digits`);
+    if (details.Stcd !== details.Gstin.slice(0, 2)) errors.push(`${party} state code ${details.Stcd} doesn't match its GSTIN`);
+  }
+  if (SellerDtls.Gstin === BuyerDtls.Gstin) errors.push("Seller and buyer GSTINs are the same");
+
+  const interState = BuyerDtls.Pos !== SellerDtls.Stcd;
+  if (ItemList.length === 0 || ItemList.length > 1000) errors.push("An e-invoice must have 1 to 1000 items");
+  for (const item of ItemList) {
+    const line = `Item ${item.SlNo}`;
+    if (!/^\d{4}(\d{2}(\d{2})?)?$/.test(item.HsnCd)) errors.push(`${line} HSN code ${item.HsnCd} must be 4, 6 or 8 digits`);
+    if ((item.IsServc === "Y") !== item.HsnCd.startsWith("99")) errors.push(`${line} is marked as ${item.IsServc === "Y" ? "a service" : "goods"} but HSN code ${item.HsnCd} says otherwise`);
+    if (!GST_RATES.includes(item.GstRt)) errors.push(`${line} GST rate ${item.GstRt}% isn't a GST slab`);
+    if (!near(item.TotAmt, item.Qty * item.UnitPrice)) errors.push(`${line} total ${item.TotAmt} isn't quantity × unit price`);
+    if (!near(item.TotItemVal, item.AssAmt + item.IgstAmt + item.CgstAmt + item.SgstAmt)) errors.push(`${line} value ${item.TotItemVal} isn't its taxable value plus tax`);
+    if (interState && (item.CgstAmt || item.SgstAmt)) errors.push(`${line} charges CGST/SGST on an inter-state supply`);
+    if (!interState && item.IgstAmt) errors.push(`${line} charges IGST on an intra-state supply`);
+    if (!near(item.IgstAmt + item.CgstAmt + item.SgstAmt, item.AssAmt * item.GstRt / 100)) errors.push(`${line} tax doesn't match ${item.GstRt}% of ${item.AssAmt}`);
+  }
+
+  const totals: [string, number, number][] = [
+    ["Taxable value", ValDtls.AssVal, sum(ItemList, item => item.AssAmt)],
+    ["CGST", ValDtls.CgstVal, sum(ItemList, item => item.CgstAmt)],
+    ["SGST", ValDtls.SgstVal, sum(ItemList, item => item.SgstAmt)],
+    ["IGST", ValDtls.IgstVal, sum(ItemList, item => item.IgstAmt)],
+    ["Invoice value", ValDtls.TotInvVal, sum(ItemList, item => item.TotItemVal)],
+  ];
+  for (const [name, total, ofItems] of totals) {
+    if (!near(total, ofItems)) errors.push(`${name} ${total} doesn't match the items' ${ofItems}`);
+  }
+
+  return errors;
+}
@@ -1,9 +1,16 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, jsonb, integer, boolean, real } from "drizzle-orm/pg-core";
-import { createInsertSchema } from "drizzle-zod";
+import { pgTable, text, varchar, timestamp, jsonb, integer, boolean, real, unique, index } from "drizzle-orm/pg-core";
+import { createInsertSchema, createSelectSchema } from "drizzle-zod";
 import { z } from "zod";
 import { relations } from "drizzle-orm";
 
+// v1 API lists page on (updated_at, id) and carry the timestamp in their cursor as a JS Date, so the
+// tables they list keep it to the millisecond for a cursor to match the stored value
+const cursorTimestamp = (name: string) => timestamp(name, { precision: 3 });
+
+// A document's date or timestamp, in any format Date.parse reads
+export const documentDateSchema = z.string().refine(date => !isNaN(Date.parse(date)), "Invalid date");
+
 export const organizations = pgTable("organizations", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   name: text("name").notNull(),
@@ -40,6 +47,12 @@ export const workspaceSettings = pgTable("workspace_settings", {
   defaultTimezone: text("default_timezone").default("UTC").notNull(),
   dateFormat: text("date_format", { enum: ["MM/DD/YYYY", "DD/MM/YYYY", "YYYY-MM-DD"] }).default("MM/DD/YYYY").notNull(),
   numberFormat: text("number_format", { enum: ["US", "EU", "IN"] }).default("US").notNull(),
+  // Three-way match tolerances for supplier bills
+  billQtyTolerancePct: real("bill_qty_tolerance_pct").default(0).notNull(),
+  billPriceTolerancePct: real("bill_price_tolerance_pct").default(2).notNull(),
+  billAmountTolerance: real("bill_amount_tolerance").default(1).notNull(), // absolute, in bill currency
+  // Tax regions and rates; null until the workspace saves its own, when the defaults apply
+  financeSettings: jsonb("finance_settings").$type<FinanceSettings>(),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -90,7 +103,7 @@ export const notifications = pgTable("notifications", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   organizationId: varchar("organization_id").references(() => organizations.id).notNull(),
   userId: varchar("user_id").references(() => users.id), // Null for organization-wide notifications
-  type: text("type", { enum: ["inventory_low", "api_connection_failed", "no_upload", "team_update", "system"] }).notNull(),
+  type: text("type", { enum: ["inventory_low", "predicted_stockout", "reorder_recommendation", "api_connection_failed", "no_upload", "team_update", "system"] }).notNull(),
   title: text("title").notNull(),
   message: text("message").notNull(),
   icon: text("icon").notNull(),
@@ -134,7 +147,7 @@ export const returns = pgTable("returns", {
   customerName: text("customer_name").notNull(),
   customerEmail: text("customer_email").notNull(),
   orderReference: text("order_reference").notNull(), // Linked order ID
-  items: jsonb("items").notNull(), // Array of {sku, productName, quantity, unitPrice}
+  items: jsonb("items").$type<{ sku: string; productName: string; quantity: number; unitPrice: number }[]>().notNull(),
   reason: text("reason", { enum: ["damaged", "wrong_item", "customer_remorse", "quality_issue", "other"] }).notNull(),
   reasonDescription: text("reason_description"),
   status: text("status", { enum: ["requested", "approved", "in_transit", "received", "inspected", "resolved"] }).default("requested").notNull(),
@@ -239,7 +252,7 @@ export const purchaseOrders = pgTable("purchase_orders", {
   supplierName: text("supplier_name").notNull(),
   supplierEmail: text("supplier_email"),
   currency: text("currency", { enum: ["INR", "GBP", "USD", "AED", "SGD"] }).notNull(),
-  status: text("status", { enum: ["DRAFT", "SENT", "RECEIVED", "CANCELLED"] }).notNull().default('DRAFT'),
+  status: text("status", { enum: ["DRAFT", "SENT", "PARTIALLY_RECEIVED", "RECEIVED", "CANCELLED"] }).notNull().default('DRAFT'),
   items: jsonb("items").$type<{
     sku: string;
     name?: string;
@@ -249,6 +262,7 @@ export const purchaseOrders = pgTable("purchase_orders", {
     subtotal: number;
     taxAmount: number;
     total: number;
+    receivedQty?: number; // running total across goods receipts
   }[]>().notNull().default([]),
   totals: jsonb("totals").$type<{
     subtotal: number;
@@ -257,6 +271,7 @@ export const purchaseOrders = pgTable("purchase_orders", {
   }>().notNull().default({ subtotal: 0, tax: 0, grandTotal: 0 }),
   notes: text("notes"),
   linkedTaskId: varchar("linked_task_id").references(() => tasks.id),
+  sentAt: timestamp("sent_at"), // start of the supplier lead time
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull()
 });
@@ -267,7 +282,7 @@ export const insertPurchaseOrderSchema = z.object({
   supplierName: z.string(),
   supplierEmail: z.string().optional(),
   currency: z.enum(["INR", "GBP", "USD", "AED", "SGD"]),
-  status: z.enum(["DRAFT", "SENT", "RECEIVED", "CANCELLED"]).default('DRAFT'),
+  status: z.enum(["DRAFT", "SENT", "PARTIALLY_RECEIVED", "RECEIVED", "CANCELLED"]).default('DRAFT'),
   items: z.array(z.object({
     sku: z.string(),
     name: z.string().optional(),
@@ -276,7 +291,8 @@ export const insertPurchaseOrderSchema = z.object({
     taxRate: z.number().min(0).max(100).optional(),
     subtotal: z.number(),
     taxAmount: z.number(),
-    total: z.number()
+    total: z.number(),
+    receivedQty: z.number().int().min(0).optional()
   })),
   totals: z.object({
     subtotal: z.number(),
@@ -290,6 +306,133 @@ export const insertPurchaseOrderSchema = z.object({
 export type PurchaseOrder = typeof purchaseOrders.$inferSelect;
 export type InsertPurchaseOrder = z.infer<typeof insertPurchaseOrderSchema>;
 
+// Goods-received notes - what actually arrived against a purchase order
+export interface GoodsReceiptLine {
+  sku: string;
+  orderedQty: number;
+  previouslyReceivedQty: number;
+  receivedQty: number;
+  totalReceivedQty: number;
+  outstandingQty: number; // still expected from the supplier
+  variance: number; // totalReceivedQty - orderedQty once the line is complete or closed short, otherwise 0
+  varianceType: "NONE" | "OVER" | "SHORT";
+  stockMoveId: string | null;
+}
+
+export const goodsReceipts = pgTable("goods_receipts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  workspaceId: varchar("workspace_id").notNull(),
+  purchaseOrderId: varchar("purchase_order_id").notNull().references(() => purchaseOrders.id),
+  grnNumber: text("grn_number").notNull(),
+  locationId: varchar("location_id").notNull(),
+  lines: jsonb("lines").$type<GoodsReceiptLine[]>().notNull().default([]),
+  hasVariance: boolean("has_variance").notNull().default(false),
+  closedShort: boolean("closed_short").notNull().default(false),
+  supplierDeliveryId: varchar("supplier_delivery_id"),
+  notes: text("notes"),
+  receivedBy: varchar("received_by"),
+  receivedAt: timestamp("received_at").defaultNow().notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull()
+});
+
+export const receivePurchaseOrderSchema = z.object({
+  locationId: z.string().min(1, "Location is required"),
+  lines: z.array(z.object({
+    sku: z.string().min(1),
+    receivedQty: z.number().int().min(0),
+  })).min(1, "At least one line is required"),
+  receivedAt: documentDateSchema.optional(),
+  // Mark the PO received even though some lines are short
+  closeShort: z.boolean().default(false),
+  isDefective: z.boolean().default(false),
+  defectNotes: z.string().optional(),
+  notes: z.string().optional(),
+});
+
+// Supplier bills (invoices) matched against the PO and its goods receipts
+export interface BillMatchLine {
+  sku: string;
+  orderedQty: number;
+  receivedQty: number;
+  billedQty: number; // across all bills for the PO, including this one
+  qtyVariance: number; // billedQty - receivedQty
+  poUnitCost: number | null;
+  billedUnitCost: number;
+  priceVariancePct: number | null;
+  issues: string[];
+}
+
+export interface BillMatchResult {
+  status: "MATCHED" | "MISMATCH";
+  lines: BillMatchLine[];
+  expectedTotal: number; // received quantities at PO prices
+  billedTotal: number;
+  amountVariance: number;
+  allowedAmountVariance: number;
+  tolerances: {
+    qtyPct: number;
+    pricePct: number;
+    amount: number;
+  };
+  matchedAt: string;
+}
+
+export const supplierBills = pgTable("supplier_bills", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  workspaceId: varchar("workspace_id").notNull(),
+  purchaseOrderId: varchar("purchase_order_id").notNull().references(() => purchaseOrders.id),
+  supplierId: varchar("supplier_id").notNull(),
+  billNumber: text("bill_number").notNull(),
+  billDate: timestamp("bill_date").defaultNow().notNull(),
+  dueDate: timestamp("due_date"),
+  currency: text("currency", { enum: ["INR", "GBP", "USD", "AED", "SGD"] }).notNull(),
+  lines: jsonb("lines").$type<{
+    sku: string;
+    qty: number;
+    unitCost: number;
+    total: number;
+  }[]>().notNull().default([]),
+  totals: jsonb("totals").$type<{
+    subtotal: number;
+    tax: number;
+    grandTotal: number;
+  }>().notNull().default({ subtotal: 0, tax: 0, grandTotal: 0 }),
+  matchStatus: text("match_status", { enum: ["PENDING", "MATCHED", "MISMATCH"] }).notNull().default("PENDING"),
+  matchResult: jsonb("match_result").$type<BillMatchResult>(),
+  eventId: text("event_id").references(() => events.id),
+  taskId: text("task_id").references(() => tasks.id),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull()
+});
+
+export const createSupplierBillSchema = z.object({
+  billNumber: z.string().min(1, "Bill number is required"),
+  billDate: documentDateSchema.optional(),
+  dueDate: documentDateSchema.optional(),
+  lines: z.array(z.object({
+    sku: z.string().min(1),
+    qty: z.number().int().min(0),
+    unitCost: z.number().min(0),
+  })).min(1, "At least one line is required"),
+  tax: z.number().min(0).default(0),
+  notes: z.string().optional(),
+});
+
+export const billMatchTolerancesSchema = z.object({
+  billQtyTolerancePct: z.number().min(0).max(100),
+  billPriceTolerancePct: z.number().min(0).max(100),
+  billAmountTolerance: z.number().min(0),
+});
+
+export type SupplierBill = typeof supplierBills.$inferSelect;
+export type InsertSupplierBill = typeof supplierBills.$inferInsert;
+export type CreateSupplierBillData = z.infer<typeof createSupplierBillSchema>;
+
+export type GoodsReceipt = typeof goodsReceipts.$inferSelect;
+export type InsertGoodsReceipt = typeof goodsReceipts.$inferInsert;
+export type ReceivePurchaseOrderData = z.infer<typeof receivePurchaseOrderSchema>;
+
 export const notificationsRelations = relations(notifications, ({ one }) => ({
   organization: one(organizations, {
     fields: [notifications.organizationId],
@@ -400,7 +543,7 @@ export const markNotificationReadSchema = z.object({
 export const events = pgTable("events", {
   id: text("id").primaryKey(),
   type: text("type", { 
-    enum: ["INVENTORY_LOW", "SYNC_ERROR", "PAYMENT_MISMATCH", "ROAS_DROP"] 
+    enum: ["INVENTORY_LOW", "SYNC_ERROR", "PAYMENT_MISMATCH", "ROAS_DROP", "SHIPMENT_DELAYED"] 
   }).notNull(),
   sku: text("sku"),
   channel: text("channel"),
@@ -423,13 +566,19 @@ export const tasks = pgTable("tasks", {
   dueAt: timestamp("due_at"),
   status: text("status", { enum: ["OPEN", "IN_PROGRESS", "DONE", "DISMISSED"] }).default("OPEN"),
   notes: text("notes"),
+  watcherIds: jsonb("watcher_ids").$type<string[]>().default([]), // Users following the task (set by routing rules)
+  escalationLevel: integer("escalation_level").notNull().default(0), // Times the SLA sweeper has escalated this task
+  lastEscalatedAt: timestamp("last_escalated_at"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Tasks that are finished with; moving into one of these resolves the task
+export const resolvedTaskStatuses = ["DONE", "DISMISSED"] as const;
+
 // Action Center schemas
 export const createEventSchema = z.object({
-  type: z.enum(["INVENTORY_LOW", "SYNC_ERROR", "PAYMENT_MISMATCH", "ROAS_DROP"]),
+  type: z.enum(["INVENTORY_LOW", "SYNC_ERROR", "PAYMENT_MISMATCH", "ROAS_DROP", "SHIPMENT_DELAYED"]),
   sku: z.string().optional(),
   channel: z.string().optional(),
   payload: z.any(),
@@ -488,21 +637,86 @@ export const activities = pgTable("activities", {
   id: text("id").primaryKey(),
   taskId: text("task_id").notNull().references(() => tasks.id, { onDelete: "cascade" }),
   type: text("type", { 
-    enum: ["STATUS_CHANGE", "ASSIGN", "COMMENT", "DUE_CHANGE"] 
+    enum: ["STATUS_CHANGE", "ASSIGN", "COMMENT", "DUE_CHANGE", "ESCALATION"] 
   }).notNull(),
   meta: jsonb("meta"), // Additional data like old/new values
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Routing rule conditions test the source event (or, for tasks without one, the task type).
+// Fields are eventType, severity, channel, sku, taskType or a dotted payload path such as payload.diffBase.
+export interface RuleCondition {
+  field: string;
+  operator: "eq" | "neq" | "in" | "not_in" | "matches" | "contains" | "gt" | "gte" | "lt" | "lte" | "exists";
+  value?: string | number | string[];
+  abs?: boolean; // Compare the absolute value (e.g. negative reconciliation differences)
+}
+
+export type RuleAction =
+  | { type: "assign", assigneeId: string }
+  | { type: "set_priority", priority: "P1" | "P2" | "P3" }
+  | { type: "set_due", dueOffsetHours: number }
+  | { type: "add_watcher", userId: string }
+  | { type: "notify", channel: "in_app" | "teams_email", userId?: string }; // in_app defaults to the assignee
+
+// What a rule is evaluated against
+export interface RuleContext {
+  taskType?: string;
+  eventType?: string;
+  severity?: string;
+  channel?: string;
+  sku?: string;
+  payload?: Record<string, unknown>;
+}
+
+export interface RuleTrace {
+  ruleId: string;
+  name: string;
+  status: "MATCHED" | "NOT_MATCHED" | "DISABLED" | "NOT_EVALUATED";
+  conditions: Array<RuleCondition & { actual: unknown, passed: boolean }>;
+  actions: RuleAction[];
+}
+
+export interface RuleEvaluation {
+  context: RuleContext;
+  trace: RuleTrace[];
+  matchedRuleIds: string[];
+  // Combined effect of the matched rules: the first rule to set a field wins, watchers and notifications accumulate
+  outcome: {
+    assigneeId?: string;
+    priority?: "P1" | "P2" | "P3";
+    dueOffsetHours?: number;
+    watcherIds: string[];
+    notify: Array<Extract<RuleAction, { type: "notify" }>>;
+  };
+}
+
 export const rules = pgTable("rules", {
   id: text("id").primaryKey(),
-  type: text("type", { 
-    enum: ["RESTOCK", "RECONCILE", "RETRY_SYNC", "ADJUST_BUDGET"] 
-  }).notNull().unique(),
-  assigneeId: text("assignee_id").references(() => users.id),
-  priority: text("priority", { enum: ["P1", "P2", "P3"] }),
-  dueOffsetHours: integer("due_offset_hours"),
+  name: text("name").notNull(),
+  position: integer("position").notNull().default(0), // Evaluation order, lowest first
+  enabled: boolean("enabled").notNull().default(true),
+  stopProcessing: boolean("stop_processing").notNull().default(true), // Skip later rules once this one matches
+  conditions: jsonb("conditions").$type<RuleCondition[]>().notNull().default([]), // All must match; none matches everything
+  actions: jsonb("actions").$type<RuleAction[]>().notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// SLA escalation policies, applied by the escalation sweeper to OPEN and IN_PROGRESS tasks in creation order
+export const escalationPolicies = pgTable("escalation_policies", {
+  id: text("id").primaryKey(),
+  name: text("name").notNull(),
+  enabled: boolean("enabled").notNull().default(true),
+  trigger: text("trigger", { enum: ["OVERDUE", "STALE"] }).notNull(),
+  thresholdHours: real("threshold_hours").notNull(), // Hours past due (OVERDUE) or without updates (STALE), then between repeat escalations
+  taskType: text("task_type", { enum: ["RESTOCK", "RETRY_SYNC", "RECONCILE", "ADJUST_BUDGET"] }), // null = any type
+  priority: text("priority", { enum: ["P1", "P2", "P3"] }), // null = any priority
+  raisePriority: boolean("raise_priority").notNull().default(true),
+  reassignTo: text("reassign_to").references(() => users.id),
+  maxEscalations: integer("max_escalations").notNull().default(2), // Skip tasks already escalated this many times
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
 // Task collaboration schemas
@@ -510,34 +724,126 @@ export const createCommentSchema = z.object({
   message: z.string().min(1, "Comment cannot be empty"),
 });
 
+export const ruleConditionSchema = z.object({
+  field: z.string().regex(/^(eventType|severity|channel|sku|taskType|payload\.[\w.]+)$/, "Unknown condition field"),
+  operator: z.enum(["eq", "neq", "in", "not_in", "matches", "contains", "gt", "gte", "lt", "lte", "exists"]),
+  value: z.union([z.string(), z.number(), z.array(z.string())]).optional(),
+  abs: z.boolean().optional(),
+}).refine(condition => condition.operator === "exists" || condition.value !== undefined, {
+  message: "A value is required for this operator",
+  path: ["value"],
+}).refine(condition => !["gt", "gte", "lt", "lte"].includes(condition.operator) || typeof condition.value === "number", {
+  message: "Numeric comparisons need a number",
+  path: ["value"],
+});
+
+export const ruleActionSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("assign"), assigneeId: z.string().min(1) }),
+  z.object({ type: z.literal("set_priority"), priority: z.enum(["P1", "P2", "P3"]) }),
+  z.object({ type: z.literal("set_due"), dueOffsetHours: z.number().int().min(0) }),
+  z.object({ type: z.literal("add_watcher"), userId: z.string().min(1) }),
+  z.object({ type: z.literal("notify"), channel: z.enum(["in_app", "teams_email"]), userId: z.string().optional() }),
+]);
+
 export const createRuleSchema = z.object({
-  type: z.enum(["RESTOCK", "RECONCILE", "RETRY_SYNC", "ADJUST_BUDGET"]),
-  assigneeId: z.string().optional(),
+  name: z.string().min(1, "Name is required"),
+  position: z.number().int().min(0).optional(),
+  enabled: z.boolean().default(true),
+  stopProcessing: z.boolean().default(true),
+  conditions: z.array(ruleConditionSchema).default([]),
+  actions: z.array(ruleActionSchema).min(1, "At least one action is required"),
+});
+
+export const updateRuleSchema = z.object({
+  name: z.string().min(1).optional(),
+  enabled: z.boolean().optional(),
+  stopProcessing: z.boolean().optional(),
+  conditions: z.array(ruleConditionSchema).optional(),
+  actions: z.array(ruleActionSchema).min(1).optional(),
+});
+
+export const reorderRulesSchema = z.object({
+  ruleIds: z.array(z.string()).min(1),
+});
+
+// Dry run: which rules would match a task raised from this event
+export const testRulesSchema = z.object({
+  event: createEventSchema.partial({ severity: true }),
+  taskType: z.enum(["RESTOCK", "RETRY_SYNC", "RECONCILE", "ADJUST_BUDGET"]).optional(),
+  rule: createRuleSchema.optional(), // Test an unsaved rule on its own
+});
+
+export const createEscalationPolicySchema = z.object({
+  name: z.string().min(1, "Name is required"),
+  enabled: z.boolean().default(true),
+  trigger: z.enum(["OVERDUE", "STALE"]),
+  thresholdHours: z.number().positive(),
+  taskType: z.enum(["RESTOCK", "RETRY_SYNC", "RECONCILE", "ADJUST_BUDGET"]).optional(),
   priority: z.enum(["P1", "P2", "P3"]).optional(),
-  dueOffsetHours: z.number().int().min(0).optional(),
+  raisePriority: z.boolean().default(true),
+  reassignTo: z.string().optional(),
+  maxEscalations: z.number().int().min(1).default(2),
 });
 
+export const updateEscalationPolicySchema = createEscalationPolicySchema.partial();
+
 // Task collaboration types
 export type Comment = typeof comments.$inferSelect;
 export type InsertComment = typeof comments.$inferInsert;
 export type Activity = typeof activities.$inferSelect;
 export type InsertActivity = typeof activities.$inferInsert;
+
+// Meta of an ESCALATION activity: the policy that fired and what it changed
+export interface EscalationActivityMeta {
+  policyId: string;
+  policyName: string;
+  trigger: EscalationPolicy["trigger"];
+  hours: number;
+  reason: string;
+  level: number;
+  oldPriority: Task["priority"];
+  newPriority: Task["priority"];
+  oldAssigneeId: string | null;
+  newAssigneeId: string | null;
+}
 export type Rule = typeof rules.$inferSelect;
 export type InsertRule = typeof rules.$inferInsert;
 export type CreateCommentData = z.infer<typeof createCommentSchema>;
 export type CreateRuleData = z.infer<typeof createRuleSchema>;
+export type UpdateRuleData = z.infer<typeof updateRuleSchema>;
+export type TestRulesData = z.infer<typeof testRulesSchema>;
+export type EscalationPolicy = typeof escalationPolicies.$inferSelect;
+export type CreateEscalationPolicyData = z.infer<typeof createEscalationPolicySchema>;
+export type UpdateEscalationPolicyData = z.infer<typeof updateEscalationPolicySchema>;
 
 // Taxation & Compliance schemas for localStorage
+const taxDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be YYYY-MM-DD");
+
+// A rate is in force from effectiveFrom through effectiveTo, both inclusive; an open end has no limit.
+// When a rate changes, the old version is closed and a new one with the same id (or state code) opens,
+// so documents are taxed, and reported, at the rate in force on their date
 export const taxRuleSchema = z.object({
   id: z.string(),
   name: z.string(),
   rate: z.number().min(0).max(1), // 0.0 to 1.0 (0% to 100%)
   category: z.enum(["standard", "reduced", "zero", "state"]), // Updated from scope to category
+  effectiveFrom: taxDateSchema.optional(),
+  effectiveTo: taxDateSchema.optional(),
 });
 
 export const stateRateSchema = z.object({
   code: z.string(), // State code like "CA", "NY", "KA", "MH"
   rate: z.number().min(0).max(1),
+  effectiveFrom: taxDateSchema.optional(),
+  effectiveTo: taxDateSchema.optional(),
+});
+
+// Tax is rounded on each line or once per document, ties going away from zero (half_up) or to the even
+// neighbour (half_even, banker's rounding), to a multiple of `unit` minor units (100 = whole rupees)
+export const taxRoundingSchema = z.object({
+  level: z.enum(["line", "invoice"]),
+  mode: z.enum(["half_up", "half_even"]),
+  unit: z.number().int().positive().optional(),
 });
 
 export const taxRegionSchema = z.object({
@@ -548,13 +854,43 @@ export const taxRegionSchema = z.object({
   taxRules: z.array(taxRuleSchema),
   states: z.array(z.string()).optional(), // For India and US - state codes
   stateRates: z.array(stateRateSchema).optional(), // For US state-specific rates
+  pricing: z.enum(["exclusive", "inclusive"]).optional(), // Whether prices already include tax; exclusive unless the workspace opts in
+  rounding: taxRoundingSchema.optional(), // Per line, half up, to the minor unit if unset
+});
+
+type RatePeriod = { effectiveFrom?: string; effectiveTo?: string };
+
+// Versions of one rule (or one state's rate) that would both be in force on some day
+const overlappingRatePeriods = <T extends RatePeriod>(versions: T[], key: (version: T) => string) =>
+  versions.some((a, i) => versions.some((b, j) => i < j && key(a) === key(b)
+    && (a.effectiveFrom ?? "") <= (b.effectiveTo ?? "9999-12-31")
+    && (b.effectiveFrom ?? "") <= (a.effectiveTo ?? "9999-12-31")));
+
+// The workspace's India GST registration: the supplier on GSTR-1 returns and e-invoices
+export const gstRegistrationSchema = z.object({
+  gstin: z.string(),
+  legalName: z.string(),
+  address1: z.string(),
+  location: z.string(), // City or town
+  pincode: z.string(),
 });
 
 export const financeSettingsSchema = z.object({
   baseCurrency: z.enum(["USD", "GBP", "EUR", "AED", "SGD", "INR"]),
   displayLocale: z.string(),
   businessState: z.string().optional(), // For India GST calculations
+  gstRegistration: gstRegistrationSchema.optional(),
   regions: z.array(taxRegionSchema),
+}).superRefine((settings, ctx) => {
+  settings.regions.forEach((region, index) => {
+    const periods: RatePeriod[] = [...region.taxRules, ...(region.stateRates ?? [])];
+    if (periods.some(period => period.effectiveFrom && period.effectiveTo && period.effectiveFrom > period.effectiveTo)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["regions", index], message: `${region.name} has a rate that ends before it starts` });
+    }
+    if (overlappingRatePeriods(region.taxRules, rule => rule.id) || overlappingRatePeriods(region.stateRates ?? [], rate => rate.code)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["regions", index], message: `${region.name} has more than one rate in force for the same rule or state on some date` });
+    }
+  });
 });
 
 export const taxOverrideSchema = z.object({
@@ -571,6 +907,7 @@ export const productSchema = z.object({
   price: z.number(),
   taxCategory: z.enum(["standard", "reduced", "zero"]).optional(), // Per-SKU tax category
   taxOverride: taxOverrideSchema.optional(),
+  hsnCode: z.string().optional(), // India HSN (goods) or SAC (services, starting 99) code
 });
 
 // Customer schema with region and state support
@@ -582,6 +919,9 @@ export const customerSchema = z.object({
   country: z.string(),
   state: z.string().optional(), // For India/US states
   gstinOrVatNo: z.string().optional(), // GST/VAT registration number
+  address: z.string().optional(),
+  city: z.string().optional(),
+  postalCode: z.string().optional(),
 });
 
 // Place of supply for tax calculations
@@ -644,11 +984,32 @@ export const insertTaxRegionSchema = taxRegionSchema.omit({ id: true });
 export const insertOrderSchema = orderSchema.omit({ id: true, number: true, createdAt: true });
 export const insertInvoiceSchema = invoiceSchema.omit({ id: true, number: true, createdAt: true });
 
+// POST /api/tax/calculate. businessState defaults to the workspace's own
+export const taxCalculationRequestSchema = z.object({
+  regionId: z.string().min(1, "Region is required"),
+  customerState: z.string().optional(),
+  businessState: z.string().optional(),
+  lineItems: z.array(orderItemSchema.pick({ productId: true, qty: true, unitPrice: true }).extend({
+    qty: z.number().positive(),
+    unitPrice: z.number().min(0),
+  })).min(1, "At least one line item is required"),
+  productTaxCategories: z.record(z.enum(["standard", "reduced", "zero"])).optional(),
+  date: documentDateSchema.optional(), // Document date; rates in force today if omitted
+});
+
+// GET /api/vat/purchases: bills and unbilled POs dated in a VAT period, inclusive
+export const vatPurchasesQuerySchema = z.object({
+  from: taxDateSchema,
+  to: taxDateSchema,
+}).refine(query => query.from <= query.to, { message: "The period ends before it starts", path: ["to"] });
+
 // Types
 export type TaxRule = z.infer<typeof taxRuleSchema>;
 export type StateRate = z.infer<typeof stateRateSchema>;
+export type TaxRounding = z.infer<typeof taxRoundingSchema>;
 export type TaxRegion = z.infer<typeof taxRegionSchema>;
 export type FinanceSettings = z.infer<typeof financeSettingsSchema>;
+export type GstRegistration = z.infer<typeof gstRegistrationSchema>;
 export type TaxOverride = z.infer<typeof taxOverrideSchema>;
 export type TaxProduct = z.infer<typeof productSchema>;
 export type TaxCustomer = z.infer<typeof customerSchema>;
@@ -662,6 +1023,7 @@ export type InsertTaxRule = z.infer<typeof insertTaxRuleSchema>;
 export type InsertTaxRegion = z.infer<typeof insertTaxRegionSchema>;
 export type InsertTaxOrder = z.infer<typeof insertOrderSchema>;
 export type InsertTaxInvoice = z.infer<typeof insertInvoiceSchema>;
+export type TaxCalculationRequest = z.infer<typeof taxCalculationRequestSchema>;
 
 // Reconciliation Schema
 export const reconBatches = pgTable("recon_batches", {
@@ -678,6 +1040,12 @@ export const reconBatches = pgTable("recon_batches", {
   diffBaseTotal: integer("diff_base_total").notNull().default(0),
   ordersTotal: integer("orders_total").notNull().default(0),
   mismatchedCount: integer("mismatched_count").notNull().default(0),
+  // FX snapshots used to convert this batch's rows into the base currency
+  fxSnapshots: jsonb("fx_snapshots").$type<{
+    snapshotId: string;
+    date: string;
+    provider: string;
+  }[]>().notNull().default([]),
   notes: text("notes"), // Batch notes/tags for UX polish
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -697,6 +1065,8 @@ export const reconRows = pgTable("recon_rows", {
   expectedNetBase: integer("expected_net_base").notNull(), // in base currency cents
   paidBase: integer("paid_base").notNull(), // in base currency cents
   diffBase: integer("diff_base").notNull(), // in base currency cents
+  orderDate: timestamp("order_date"),
+  fxRateDate: text("fx_rate_date"), // YYYY-MM-DD of the FX snapshot used for conversion
   status: text("status", { enum: ["PENDING", "PARTIAL", "RESOLVED"] }).default("PENDING").notNull(),
   taskId: varchar("task_id").references(() => tasks.id),
   eventId: varchar("event_id").references(() => events.id),
@@ -709,8 +1079,8 @@ export const reconRows = pgTable("recon_rows", {
 export const reconIngestSchema = z.object({
   source: z.enum(["Amazon", "Shopify", "Flipkart", "Other"]),
   region: z.enum(["UK", "UAE", "SG", "US", "IN", "EU", "GLOBAL"]),
-  periodFrom: z.string().optional(),
-  periodTo: z.string().optional(),
+  periodFrom: documentDateSchema.optional(),
+  periodTo: documentDateSchema.optional(), // Orders without a date are converted at the rates on this day
 });
 
 export const updateReconRowSchema = z.object({
@@ -730,6 +1100,30 @@ export type ReconIngestData = z.infer<typeof reconIngestSchema>;
 export type UpdateReconRowData = z.infer<typeof updateReconRowSchema>;
 export type UpdateReconBatchData = z.infer<typeof updateReconBatchSchema>;
 
+// FX rate snapshots - one per calendar day, rates quoted against USD
+export const fxRateSnapshots = pgTable("fx_rate_snapshots", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  date: text("date").notNull().unique(), // YYYY-MM-DD the snapshot applies to
+  sourceDate: text("source_date").notNull(), // YYYY-MM-DD the provider published these rates for
+  base: text("base").notNull().default("USD"),
+  rates: jsonb("rates").$type<Record<string, number>>().notNull(),
+  provider: text("provider").notNull(),
+  fetchedAt: timestamp("fetched_at").defaultNow().notNull(),
+});
+
+export const fxRatesQuerySchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format").optional(),
+});
+
+export const fxRatesHistoryQuerySchema = z.object({
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format").optional(),
+  to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format").optional(),
+  limit: z.coerce.number().int().min(1).max(366).optional(),
+});
+
+export type FxRateSnapshot = typeof fxRateSnapshots.$inferSelect;
+export type InsertFxRateSnapshot = typeof fxRateSnapshots.$inferInsert;
+
 // Simple Purchase Orders for manual restock feature
 export const simplePurchaseOrders = pgTable("simple_purchase_orders", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -846,6 +1240,8 @@ export const supplierSchema = z.object({
     moq: z.number().int().min(1).optional(),
     leadTimeDays: z.number().int().min(0, "Lead time must be non-negative"),
   })).default([]),
+  minOrderQty: z.number().int().min(1).optional(),
+  minOrderValue: z.number().min(0).optional(),
   notes: z.string().optional(),
   // SLA targets
   onTimeTargetPct: z.number().min(0).max(100).default(95),
@@ -909,6 +1305,9 @@ export const suppliers = pgTable("suppliers", {
     moq?: number;
     leadTimeDays: number;
   }[]>().notNull().default([]),
+  // Supplier-level order minimums, enforced by reorder runs
+  minOrderQty: integer("min_order_qty"),
+  minOrderValue: real("min_order_value"), // in supplier currency
   notes: text("notes"),
   // SLA Tracking fields
   onTimeRatePct: real("on_time_rate_pct").default(100.0),
@@ -920,8 +1319,8 @@ export const suppliers = pgTable("suppliers", {
   breachCount: integer("breach_count").default(0),
   lastBreachDate: timestamp("last_breach_date"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
-  updatedAt: timestamp("updated_at").defaultNow().notNull()
-});
+  updatedAt: cursorTimestamp("updated_at").defaultNow().notNull()
+}, table => [index("suppliers_workspace_updated").on(table.workspaceId, table.updatedAt, table.id)]);
 
 // Supplier Delivery Tracking - for SLA monitoring
 export const supplierDeliveries = pgTable("supplier_deliveries", {
@@ -950,8 +1349,8 @@ export const customers = pgTable("customers", {
   company: text("company"),
   workspaceId: varchar("workspace_id").notNull(),
   createdAt: timestamp("created_at").defaultNow(),
-  updatedAt: timestamp("updated_at").defaultNow(),
-});
+  updatedAt: cursorTimestamp("updated_at").defaultNow().notNull(),
+}, table => [index("customers_workspace_updated").on(table.workspaceId, table.updatedAt, table.id)]);
 
 // Sales Orders table - for customer orders
 export const salesOrders = pgTable("sales_orders", {
@@ -961,6 +1360,7 @@ export const salesOrders = pgTable("sales_orders", {
   customerName: text("customer_name").notNull(),
   customerEmail: text("customer_email"),
   workspaceId: varchar("workspace_id").notNull(),
+  locationId: varchar("location_id"), // fulfilling warehouse, used for per-location forecasts
   currency: text("currency", { enum: ["INR", "GBP", "USD", "AED", "SGD"] }).notNull().default("USD"),
   status: text("status", { enum: ["PENDING", "PROCESSING", "SHIPPED", "DELIVERED", "CANCELLED"] }).notNull().default("PENDING"),
   items: jsonb("items").$type<{
@@ -977,8 +1377,58 @@ export const salesOrders = pgTable("sales_orders", {
   shippingAddress: text("shipping_address"),
   notes: text("notes"),
   createdAt: timestamp("created_at").defaultNow(),
-  updatedAt: timestamp("updated_at").defaultNow(),
-});
+  updatedAt: cursorTimestamp("updated_at").defaultNow().notNull(),
+}, table => [index("sales_orders_workspace_updated").on(table.workspaceId, table.updatedAt, table.id)]);
+
+// Server-side product catalogue for the public API; stock lives in inventory_levels, keyed by SKU
+export const products = pgTable("products", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  workspaceId: varchar("workspace_id").notNull(),
+  sku: text("sku").notNull(),
+  name: text("name").notNull(),
+  category: text("category").notNull().default("Uncategorized"),
+  cost: real("cost").notNull().default(0),
+  price: real("price").notNull().default(0),
+  supplier: text("supplier"),
+  reorderPoint: integer("reorder_point").notNull().default(10),
+  maxStock: integer("max_stock").notNull().default(100),
+  regionId: text("region_id"),
+  taxCategory: text("tax_category", { enum: ["standard", "reduced", "zero"] }).notNull().default("standard"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: cursorTimestamp("updated_at").defaultNow().notNull(),
+}, table => [index("products_workspace_updated").on(table.workspaceId, table.updatedAt, table.id)]);
+
+// Customer invoices
+export const invoices = pgTable("invoices", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  workspaceId: varchar("workspace_id").notNull(),
+  number: text("number").notNull(),
+  orderId: varchar("order_id").references(() => salesOrders.id, { onDelete: "set null" }),
+  customerId: varchar("customer_id").references(() => customers.id, { onDelete: "cascade" }).notNull(),
+  customerName: text("customer_name").notNull(),
+  status: text("status", { enum: ["UNPAID", "PARTIAL", "PAID", "OVERDUE", "CANCELLED"] }).notNull().default("UNPAID"),
+  currency: text("currency", { enum: ["INR", "GBP", "USD", "AED", "SGD"] }).notNull().default("USD"),
+  locale: text("locale").notNull().default("en-US"),
+  regionId: text("region_id"),
+  lineItems: jsonb("line_items").$type<{
+    sku: string;
+    name: string;
+    quantity: number;
+    unitPrice: number; // In cents
+  }[]>().notNull().default([]),
+  subtotal: integer("subtotal").notNull().default(0), // In cents
+  tax: integer("tax").notNull().default(0), // In cents
+  grandTotal: integer("grand_total").notNull().default(0), // In cents
+  taxBreakdown: jsonb("tax_breakdown").$type<{ name: string; rate: number; amount: number }[]>().notNull().default([]),
+  issueDate: timestamp("issue_date").defaultNow().notNull(),
+  dueDate: timestamp("due_date").notNull(),
+  paidDate: timestamp("paid_date"),
+  paymentMethod: text("payment_method"),
+  paymentReference: text("payment_reference"),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: cursorTimestamp("updated_at").defaultNow().notNull(),
+}, table => [index("invoices_workspace_updated").on(table.workspaceId, table.updatedAt, table.id)]);
 
 // Reorder Policy schema
 export const reorderPolicies = pgTable("reorder_policies", {
@@ -992,6 +1442,106 @@ export const reorderPolicies = pgTable("reorder_policies", {
   updatedAt: timestamp("updated_at").defaultNow().notNull()
 });
 
+// Server-side stock levels per product (SKU) and location, read by reorder runs
+export const inventoryLevels = pgTable("inventory_levels", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  workspaceId: varchar("workspace_id").notNull(),
+  productId: text("product_id").notNull(), // product SKU
+  locationId: varchar("location_id").notNull(),
+  onHand: integer("on_hand").notNull().default(0),
+  onOrder: integer("on_order").notNull().default(0),
+  reorderPoint: integer("reorder_point").notNull().default(0),
+  safetyStock: integer("safety_stock").notNull().default(0),
+  reorderQty: integer("reorder_qty").notNull().default(0),
+  cost: real("cost"),
+  updatedAt: cursorTimestamp("updated_at").defaultNow().notNull()
+}, table => [
+  unique("inventory_levels_workspace_product_location").on(table.workspaceId, table.productId, table.locationId),
+  index("inventory_levels_workspace_updated").on(table.workspaceId, table.updatedAt, table.id),
+]);
+
+// Server-side stock movement audit trail, mirroring the client StockMove records
+export const inventoryMoves = pgTable("stock_moves", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  workspaceId: varchar("workspace_id").notNull(),
+  type: text("type", { enum: ["RECEIPT", "ADJUST", "TRANSFER", "PICK", "RETURN"] }).notNull(),
+  productId: text("product_id").notNull(), // product SKU
+  fromLocationId: varchar("from_location_id"),
+  toLocationId: varchar("to_location_id"),
+  qty: integer("qty").notNull(), // positive for inbound, negative for outbound
+  refType: text("ref_type", { enum: ["PO", "ORDER", "RMA", "MANUAL", "TRANSFER"] }),
+  refId: varchar("ref_id"),
+  note: text("note"),
+  userId: varchar("user_id"),
+  cost: real("cost"),
+  createdAt: timestamp("created_at").defaultNow().notNull()
+});
+
+// One evaluated SKU in a reorder run, with the reasoning behind its quantity
+export interface ReorderRunLine {
+  sku: string;
+  supplierId: string;
+  supplierName: string;
+  onHand: number;
+  onOrder: number;
+  dailySales: number;
+  forecastMethod: string | null;
+  leadTimeDays: number;
+  targetDaysCover: number;
+  safetyDays: number;
+  maxDaysCover: number | null;
+  daysCover: number; // (onHand + onOrder) / dailySales before ordering
+  shortfall: number; // units needed to cover lead time + target + safety days
+  packSize: number;
+  moq: number;
+  qty: number;
+  unitCost: number;
+  lineTotal: number;
+  reasons: string[];
+}
+
+// Suggestions consolidated into one draft PO per supplier
+export interface ReorderRunSupplierGroup {
+  supplierId: string;
+  supplierName: string;
+  currency: string;
+  skus: string[];
+  totalQty: number;
+  subtotal: number;
+  minOrderQty: number | null;
+  minOrderValue: number | null;
+  minimumsMet: boolean;
+  purchaseOrderId: string | null;
+  notes: string[];
+}
+
+export interface ReorderRunSkippedSku {
+  sku: string;
+  reason: string;
+}
+
+// Stored reorder runs so buyers can re-open a run and see why each quantity was proposed
+export const reorderRuns = pgTable("reorder_runs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  workspaceId: varchar("workspace_id").notNull(),
+  status: text("status", { enum: ["PREVIEW", "COMPLETED"] }).notNull().default("COMPLETED"),
+  lines: jsonb("lines").$type<ReorderRunLine[]>().notNull().default([]),
+  supplierGroups: jsonb("supplier_groups").$type<ReorderRunSupplierGroup[]>().notNull().default([]),
+  skipped: jsonb("skipped").$type<ReorderRunSkippedSku[]>().notNull().default([]),
+  totals: jsonb("totals").$type<{
+    skusEvaluated: number;
+    linesProposed: number;
+    purchaseOrders: number;
+  }>().notNull().default({ skusEvaluated: 0, linesProposed: 0, purchaseOrders: 0 }),
+  createdBy: varchar("created_by"),
+  createdAt: timestamp("created_at").defaultNow().notNull()
+});
+
+export const reorderRunRequestSchema = z.object({
+  // Preview the run without creating purchase orders
+  dryRun: z.boolean().default(false),
+});
+
 // Supplier Management schemas
 export const insertSupplierSchema = z.object({
   workspaceId: z.string(),
@@ -1011,6 +1561,8 @@ export const insertSupplierSchema = z.object({
     moq: z.number().int().min(1).optional(),
     leadTimeDays: z.number().int().min(0)
   })).default([]),
+  minOrderQty: z.number().int().min(1).optional(),
+  minOrderValue: z.number().min(0).optional(),
   notes: z.string().optional()
 });
 
@@ -1025,7 +1577,7 @@ export const insertReorderPolicySchema = z.object({
 
 
 export const updatePurchaseOrderStatusSchema = z.object({
-  status: z.enum(["DRAFT", "SENT", "RECEIVED", "CANCELLED"])
+  status: z.enum(["DRAFT", "SENT", "PARTIALLY_RECEIVED", "RECEIVED", "CANCELLED"])
 });
 
 // Restock Autopilot types
@@ -1048,6 +1600,13 @@ export type InsertSupplierDelivery = z.infer<typeof supplierDeliverySchema>;
 export type ReorderPolicy = typeof reorderPolicies.$inferSelect;
 export type InsertReorderPolicy = z.infer<typeof insertReorderPolicySchema>;
 export type ReorderSuggestData = z.infer<typeof reorderSuggestRequestSchema>;
+export type InventoryLevel = typeof inventoryLevels.$inferSelect;
+export type InsertInventoryLevel = typeof inventoryLevels.$inferInsert;
+export type InventoryMove = typeof inventoryMoves.$inferSelect;
+export type InsertInventoryMove = typeof inventoryMoves.$inferInsert;
+export type ReorderRun = typeof reorderRuns.$inferSelect;
+export type InsertReorderRun = typeof reorderRuns.$inferInsert;
+export type ReorderRunRequestData = z.infer<typeof reorderRunRequestSchema>;
 export type UpdatePurchaseOrderStatusData = z.infer<typeof updatePurchaseOrderStatusSchema>;
 
 // Customer schemas
@@ -1092,12 +1651,16 @@ export type UpdateCustomer = z.infer<typeof updateCustomerSchema>;
 export type SalesOrder = typeof salesOrders.$inferSelect;
 export type InsertSalesOrder = z.infer<typeof insertSalesOrderSchema>;
 export type UpdateSalesOrder = z.infer<typeof updateSalesOrderSchema>;
+export type Product = typeof products.$inferSelect;
+export type InsertProduct = typeof products.$inferInsert;
+export type Invoice = typeof invoices.$inferSelect;
+export type InsertInvoice = typeof invoices.$inferInsert;
 
 // Shipping Connectors - Store provider configurations with encrypted credentials
 export const shippingConnectors = pgTable("shipping_connectors", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   organizationId: varchar("organization_id").references(() => organizations.id).notNull(),
-  provider: text("provider", { enum: ["shiprocket", "dhl", "ups", "fedex"] }).notNull(),
+  provider: text("provider", { enum: ["shiprocket", "dhl", "ups", "fedex", "fake"] }).notNull(),
   name: text("name").notNull(), // User-friendly name (e.g., "Shiprocket Main Account")
   status: text("status", { enum: ["active", "inactive", "error"] }).notNull().default("inactive"),
   // Encrypted credentials stored as JSON with IV and auth tag
@@ -1120,12 +1683,79 @@ export const shippingConnectors = pgTable("shipping_connectors", {
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// What a shipping rule is evaluated against, built from the shipment request (and its sales order)
+export interface ShippingRuleContext {
+  destinationCountry?: string;
+  destinationRegion?: string; // State or province
+  destinationPostalCode?: string;
+  weightKg?: number; // Total parcel weight
+  parcelCount?: number;
+  orderValue?: number; // In major units of the order currency (e.g. 49.99)
+  currency?: string;
+  skus?: string[];
+  skuTags?: string[];
+  cod?: boolean;
+}
+
+// Shipping rule conditions reuse the routing rule operators; eq, neq, in and not_in on skus / skuTags test each entry
+export type ShippingRuleCondition = Omit<RuleCondition, "field"> & { field: keyof ShippingRuleContext };
+
+// Shipping rules pick the carrier and service for a shipment. Matching rules are tried in position order,
+// falling through to the next one when the carrier errors.
+export const shippingRules = pgTable("shipping_rules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id").references(() => organizations.id).notNull(),
+  name: text("name").notNull(),
+  position: integer("position").notNull().default(0), // Evaluation order, lowest first
+  enabled: boolean("enabled").notNull().default(true),
+  conditions: jsonb("conditions").$type<ShippingRuleCondition[]>().notNull().default([]), // All must match; none matches everything
+  connectorId: varchar("connector_id").references(() => shippingConnectors.id, { onDelete: "cascade" }).notNull(),
+  serviceCode: text("service_code"), // null = the cheapest service the connector quotes
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Product shipping weight and dimensions by SKU, used to pack orders into parcels
+export const productDimensions = pgTable("product_dimensions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id").references(() => organizations.id).notNull(),
+  sku: text("sku").notNull(),
+  length: real("length").notNull(),
+  width: real("width").notNull(),
+  height: real("height").notNull(),
+  units: text("units", { enum: ["cm", "in"] }).notNull().default("cm"),
+  weight: real("weight").notNull(),
+  weightUnits: text("weight_units", { enum: ["kg", "lb"] }).notNull().default("kg"),
+  shipsAlone: boolean("ships_alone").notNull().default(false), // Ships in its own packaging, never boxed with other items
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Box catalogue for packing suggestions; boxes without a location are available everywhere
+export const shippingBoxes = pgTable("shipping_boxes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id").references(() => organizations.id).notNull(),
+  locationId: varchar("location_id"),
+  name: text("name").notNull(),
+  length: real("length").notNull(), // Inner dimensions
+  width: real("width").notNull(),
+  height: real("height").notNull(),
+  units: text("units", { enum: ["cm", "in"] }).notNull().default("cm"),
+  maxWeight: real("max_weight").notNull(), // Contents plus the box itself
+  tareWeight: real("tare_weight").notNull().default(0),
+  weightUnits: text("weight_units", { enum: ["kg", "lb"] }).notNull().default("kg"),
+  active: boolean("active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
 // Shipments - Track individual shipments created through connectors
 export const shipments = pgTable("shipments", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   organizationId: varchar("organization_id").references(() => organizations.id).notNull(),
   connectorId: varchar("connector_id").references(() => shippingConnectors.id, { onDelete: "set null" }),
   salesOrderId: varchar("sales_order_id").references(() => salesOrders.id, { onDelete: "cascade" }),
+  shippingRuleId: varchar("shipping_rule_id").references(() => shippingRules.id, { onDelete: "set null" }), // Rule that chose the carrier; null when picked by hand
   // Provider details
   provider: text("provider").notNull(), // Cached from connector for history
   providerShipmentId: text("provider_shipment_id"), // Provider's shipment ID
@@ -1190,10 +1820,18 @@ export const shipments = pgTable("shipments", {
   // Webhook data for status updates
   lastWebhookAt: timestamp("last_webhook_at"),
   lastSyncAt: timestamp("last_sync_at"),
+  // Tracking poller state
+  statusChangedAt: timestamp("status_changed_at"),
+  nextTrackingPollAt: timestamp("next_tracking_poll_at"), // null = poll on the next run
+  trackingPollAttempts: integer("tracking_poll_attempts").notNull().default(0), // Polls since the last change, drives the backoff
+  delayAlertedAt: timestamp("delay_alerted_at"), // Last stalled / exception Action Center event
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// Shipments the tracking poller still follows; delivered and cancelled are final
+export const inFlightShipmentStatuses = ["created", "label_created", "picked_up", "in_transit", "exception"] as const;
+
 // Shipping Rates Cache - Optional table to cache rates for performance
 export const shippingRates = pgTable("shipping_rates", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -1219,7 +1857,7 @@ export const shippingRates = pgTable("shipping_rates", {
 // Shipping Connector schemas and types
 export const insertShippingConnectorSchema = z.object({
   organizationId: z.string(),
-  provider: z.enum(["shiprocket", "dhl", "ups", "fedex"]),
+  provider: z.enum(["shiprocket", "dhl", "ups", "fedex", "fake"]),
   name: z.string().min(1, "Connector name is required"),
   credentials: z.record(z.any()), // Will be encrypted before storage
   config: z.record(z.any()).optional(),
@@ -1229,11 +1867,18 @@ export const updateShippingConnectorSchema = insertShippingConnectorSchema.parti
   organizationId: true 
 });
 
+// Packing places each unit separately, so requests to pack items are capped at this many units
+export const MAX_PACKING_UNITS = 500;
+
+const packingUnitsWithinLimit = (items: { quantity: number }[]) =>
+  items.reduce((sum, item) => sum + item.quantity, 0) <= MAX_PACKING_UNITS;
+const packingUnitsMessage = `At most ${MAX_PACKING_UNITS} units can be packed at once`;
+
+// Without a connectorId the shipping rules pick the carrier and service
 export const createShipmentSchema = z.object({
-  connectorId: z.string(),
+  connectorId: z.string().optional(),
   salesOrderId: z.string().optional(),
-  service: z.string(),
-  serviceCode: z.string().optional(),
+  serviceCode: z.string().optional(), // With connectorId; defaults to the connector's cheapest service
   shipFrom: z.object({
     name: z.string().optional(),
     company: z.string().optional(),
@@ -1265,19 +1910,117 @@ export const createShipmentSchema = z.object({
     weight: z.number().positive(),
     units: z.enum(['cm', 'in']).default('cm'),
     weightUnits: z.enum(['kg', 'lb']).default('kg'),
-  })),
+  })).min(1).optional(), // Packed from the items (or the sales order) when omitted
   items: z.array(z.object({
     sku: z.string(),
     name: z.string(),
-    quantity: z.number().int().positive(),
+    quantity: z.number().int().positive().max(MAX_PACKING_UNITS),
     value: z.number().min(0), // In cents
     weight: z.number().positive(),
-  })).optional(),
+    tags: z.array(z.string()).optional(), // Product tags, matched by skuTags conditions
+  })).refine(packingUnitsWithinLimit, packingUnitsMessage).optional(),
+  locationId: z.string().optional(), // Box catalogue to pack from
+  orderValue: z.number().min(0).optional(), // In cents; defaults to the sales order total, then the item values
+  currency: z.string().length(3).optional(),
+  cod: z.boolean().default(false), // Cash on delivery
   metadata: z.record(z.any()).optional(),
+}).refine(shipment => !shipment.serviceCode || shipment.connectorId, {
+  message: "A service code needs a connector",
+  path: ["serviceCode"],
+}).refine(shipment => shipment.parcels || shipment.items?.length || shipment.salesOrderId, {
+  message: "Parcels are required unless items or a sales order can be packed",
+  path: ["parcels"],
+});
+
+export const shippingRuleConditionSchema = z.object({
+  field: z.enum(["destinationCountry", "destinationRegion", "destinationPostalCode", "weightKg", "parcelCount", "orderValue", "currency", "skus", "skuTags", "cod"]),
+  operator: z.enum(["eq", "neq", "in", "not_in", "matches", "contains", "gt", "gte", "lt", "lte", "exists"]),
+  value: z.union([z.string(), z.number(), z.array(z.string())]).optional(),
+}).refine(condition => condition.operator === "exists" || condition.value !== undefined, {
+  message: "A value is required for this operator",
+  path: ["value"],
+}).refine(condition => !["gt", "gte", "lt", "lte"].includes(condition.operator) || typeof condition.value === "number", {
+  message: "Numeric comparisons need a number",
+  path: ["value"],
+});
+
+export const createShippingRuleSchema = z.object({
+  name: z.string().min(1, "Name is required"),
+  position: z.number().int().min(0).optional(),
+  enabled: z.boolean().default(true),
+  conditions: z.array(shippingRuleConditionSchema).default([]),
+  connectorId: z.string().min(1, "Connector is required"),
+  serviceCode: z.string().min(1).nullable().optional(),
+});
+
+export const updateShippingRuleSchema = z.object({
+  name: z.string().min(1).optional(),
+  enabled: z.boolean().optional(),
+  conditions: z.array(shippingRuleConditionSchema).optional(),
+  connectorId: z.string().min(1).optional(),
+  serviceCode: z.string().min(1).nullable().optional(),
+});
+
+export const upsertProductDimensionsSchema = z.object({
+  length: z.number().positive(),
+  width: z.number().positive(),
+  height: z.number().positive(),
+  units: z.enum(['cm', 'in']).default('cm'),
+  weight: z.number().positive(),
+  weightUnits: z.enum(['kg', 'lb']).default('kg'),
+  shipsAlone: z.boolean().default(false),
+});
+
+export const createShippingBoxSchema = z.object({
+  locationId: z.string().min(1).nullable().optional(),
+  name: z.string().min(1, "Name is required"),
+  length: z.number().positive(),
+  width: z.number().positive(),
+  height: z.number().positive(),
+  units: z.enum(['cm', 'in']).default('cm'),
+  maxWeight: z.number().positive(),
+  tareWeight: z.number().min(0).default(0),
+  weightUnits: z.enum(['kg', 'lb']).default('kg'),
+  active: z.boolean().default(true),
+});
+
+export const updateShippingBoxSchema = createShippingBoxSchema.partial();
+
+// Packing suggestion for an order's items, or a sales order's
+export const packItemsSchema = z.object({
+  salesOrderId: z.string().optional(),
+  locationId: z.string().optional(), // Defaults to the sales order's location
+  items: z.array(z.object({
+    sku: z.string(),
+    quantity: z.number().int().positive().max(MAX_PACKING_UNITS),
+  })).min(1).refine(packingUnitsWithinLimit, packingUnitsMessage).optional(),
+}).refine(request => request.items || request.salesOrderId, {
+  message: "Items or a sales order are required",
+  path: ["items"],
+});
+
+// Dry run: which rules would match a shipment with these properties
+export const testShippingRulesSchema = z.object({
+  context: z.object({
+    destinationCountry: z.string().optional(),
+    destinationRegion: z.string().optional(),
+    destinationPostalCode: z.string().optional(),
+    weightKg: z.number().min(0).optional(),
+    parcelCount: z.number().int().min(0).optional(),
+    orderValue: z.number().min(0).optional(),
+    currency: z.string().optional(),
+    skus: z.array(z.string()).optional(),
+    skuTags: z.array(z.string()).optional(),
+    cod: z.boolean().optional(),
+  }),
+  rule: createShippingRuleSchema.optional(), // Test an unsaved rule on its own
 });
 
+// Rate shopping request; quotes every active connector unless connectorIds narrows it down
 export const getRatesSchema = z.object({
-  connectorId: z.string(),
+  connectorIds: z.array(z.string()).min(1).optional(),
+  currency: z.string().length(3).default('USD'),
+  timeoutMs: z.number().int().min(100).max(60000).optional(),
   shipFrom: z.object({
     address1: z.string(),
     city: z.string(),
@@ -1299,14 +2042,18 @@ export const getRatesSchema = z.object({
     weight: z.number().positive(),
     units: z.enum(['cm', 'in']).default('cm'),
     weightUnits: z.enum(['kg', 'lb']).default('kg'),
-  })),
+  })).min(1).optional(), // Packed from the items when omitted
   items: z.array(z.object({
     sku: z.string(),
     name: z.string(),
-    quantity: z.number().int().positive(),
+    quantity: z.number().int().positive().max(MAX_PACKING_UNITS),
     value: z.number().min(0), // In cents
     weight: z.number().positive(),
-  })).optional(),
+  })).refine(packingUnitsWithinLimit, packingUnitsMessage).optional(),
+  locationId: z.string().optional(), // Box catalogue to pack from
+}).refine(request => request.parcels || request.items?.length, {
+  message: "Parcels are required unless items can be packed",
+  path: ["parcels"],
 });
 
 export type ShippingConnector = typeof shippingConnectors.$inferSelect;
@@ -1314,8 +2061,552 @@ export type InsertShippingConnector = z.infer<typeof insertShippingConnectorSche
 export type UpdateShippingConnector = z.infer<typeof updateShippingConnectorSchema>;
 export type Shipment = typeof shipments.$inferSelect;
 export type CreateShipment = z.infer<typeof createShipmentSchema>;
+export type ShipmentParcel = NonNullable<CreateShipment['parcels']>[number];
+export type PackedCreateShipment = CreateShipment & { parcels: ShipmentParcel[] }; // Parcels given or packed from the items
 export type GetRates = z.infer<typeof getRatesSchema>;
 export type ShippingRate = typeof shippingRates.$inferSelect;
+export type ShippingRule = typeof shippingRules.$inferSelect;
+export type ProductDimensions = typeof productDimensions.$inferSelect;
+export type UpsertProductDimensionsData = z.infer<typeof upsertProductDimensionsSchema>;
+export type ShippingBox = typeof shippingBoxes.$inferSelect;
+export type CreateShippingBoxData = z.infer<typeof createShippingBoxSchema>;
+export type UpdateShippingBoxData = z.infer<typeof updateShippingBoxSchema>;
+export type PackItemsData = z.infer<typeof packItemsSchema>;
+export type CreateShippingRuleData = z.infer<typeof createShippingRuleSchema>;
+export type UpdateShippingRuleData = z.infer<typeof updateShippingRuleSchema>;
+export type TestShippingRulesData = z.infer<typeof testShippingRulesSchema>;
+
+export interface ShippingRuleTrace {
+  ruleId: string;
+  name: string;
+  status: "MATCHED" | "NOT_MATCHED" | "DISABLED";
+  conditions: Array<ShippingRuleCondition & { actual: unknown, passed: boolean }>;
+  connectorId: string;
+  serviceCode: string | null;
+}
+
+export interface ShippingRuleEvaluation {
+  context: ShippingRuleContext;
+  trace: ShippingRuleTrace[];
+  matchedRuleIds: string[]; // In the order they are tried
+}
+
+// Public API platform: keys, rate limit buckets, request audit trail and outbound webhooks
+
+export const apiKeys = pgTable("api_keys", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  keyPrefix: text("key_prefix").notNull().unique(), // fv_xxxxxxxx, safe to show and log
+  hashedKey: text("hashed_key").notNull().unique(), // HMAC-SHA256 of the full key
+  name: text("name").notNull(),
+  scopes: jsonb("scopes").$type<string[]>().notNull().default([]),
+  workspaceId: varchar("workspace_id"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  revokedAt: timestamp("revoked_at"),
+});
+
+// One token bucket per API key, updated atomically per request
+export const rateLimitBuckets = pgTable("rate_limit_buckets", {
+  keyPrefix: text("key_prefix").primaryKey(),
+  tokens: real("tokens").notNull(),
+  lastRefill: timestamp("last_refill").notNull(),
+  requestCount: integer("request_count").notNull().default(0),
+});
+
+// Append-only log of public and management API requests
+export const auditLogs = pgTable("audit_logs", {
+  id: varchar("id").primaryKey(),
+  timestamp: timestamp("timestamp").defaultNow().notNull(),
+  keyPrefix: text("key_prefix"),
+  keyId: varchar("key_id"),
+  ip: text("ip").notNull(),
+  userAgent: text("user_agent"),
+  method: text("method").notNull(),
+  path: text("path").notNull(),
+  query: text("query"),
+  statusCode: integer("status_code"),
+  responseTimeMs: integer("response_time_ms"),
+  error: text("error"),
+  requestBody: jsonb("request_body"),
+  responseSize: integer("response_size"),
+});
+
+// Outcome of a mutating request sent with an Idempotency-Key, replayed when the request is retried
+export const idempotencyKeys = pgTable("idempotency_keys", {
+  id: text("id").primaryKey(), // "<scope>:<key>", so a key can only be claimed once per scope
+  scope: text("scope").notNull(), // API key prefix or signed-in user that sent the key
+  key: text("key").notNull(),
+  method: text("method").notNull(),
+  path: text("path").notNull(),
+  fingerprint: text("fingerprint").notNull(), // sha256 of method, path and body
+  status: text("status", { enum: ["in_progress", "completed"] }).notNull().default("in_progress"),
+  responseStatus: integer("response_status"),
+  responseBody: jsonb("response_body"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+});
+
+export const webhooks = pgTable("webhooks", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  url: text("url").notNull(),
+  secret: text("secret").notNull(),
+  events: jsonb("events").$type<string[]>().notNull(),
+  active: boolean("active").notNull().default(true),
+  name: text("name"),
+  description: text("description"),
+  workspaceId: varchar("workspace_id"),
+  lastStatus: integer("last_status"),
+  lastAttemptAt: timestamp("last_attempt_at"),
+  lastSuccessAt: timestamp("last_success_at"),
+  failureCount: integer("failure_count").notNull().default(0), // Consecutive failed attempts
+  disabledAt: timestamp("disabled_at"), // Set when the endpoint is switched off after sustained failure
+  disabledReason: text("disabled_reason"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const webhookEvents = pgTable("webhook_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  event: text("event").notNull(),
+  data: jsonb("data"),
+  workspaceId: varchar("workspace_id"),
+  timestamp: timestamp("timestamp").defaultNow().notNull(),
+});
+
+// Delivery queue. Workers claim due rows by taking a lease (lockedBy/lockedUntil); an expired lease
+// makes the row claimable again, so a crashed worker's deliveries are retried. A delivery that runs out
+// of attempts stays behind as a dead letter (deadAt set) until it is replayed.
+export const webhookDeliveries = pgTable("webhook_deliveries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  webhookId: varchar("webhook_id").notNull().references(() => webhooks.id, { onDelete: "cascade" }),
+  eventType: text("event_type").notNull(),
+  payload: jsonb("payload").$type<{ id: string; event: string; version?: number; timestamp: string; data: any }>().notNull(),
+  url: text("url").notNull(),
+  attemptNumber: integer("attempt_number").notNull().default(1),
+  maxAttempts: integer("max_attempts").notNull(),
+  scheduledAt: timestamp("scheduled_at").defaultNow().notNull(),
+  nextAttemptAt: timestamp("next_attempt_at").defaultNow().notNull(),
+  attemptedAt: timestamp("attempted_at"),
+  statusCode: integer("status_code"),
+  responseBody: text("response_body"),
+  error: text("error"),
+  lockedBy: text("locked_by"),
+  lockedUntil: timestamp("locked_until"),
+  deadAt: timestamp("dead_at"),
+});
+
+// Every request made for a delivery, kept after the delivery leaves the queue
+export const webhookDeliveryAttempts = pgTable("webhook_delivery_attempts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  webhookId: varchar("webhook_id").notNull().references(() => webhooks.id, { onDelete: "cascade" }),
+  deliveryId: varchar("delivery_id").notNull(),
+  eventId: varchar("event_id").notNull(),
+  eventType: text("event_type").notNull(),
+  attemptNumber: integer("attempt_number").notNull(),
+  url: text("url").notNull(),
+  requestHeaders: jsonb("request_headers").$type<Record<string, string>>().notNull(),
+  requestBody: jsonb("request_body").$type<WebhookDelivery["payload"]>().notNull(),
+  statusCode: integer("status_code"),
+  responseBody: text("response_body"),
+  error: text("error"),
+  durationMs: integer("duration_ms").notNull(),
+  success: boolean("success").notNull(),
+  attemptedAt: timestamp("attempted_at").defaultNow().notNull(),
+}, table => [index("webhook_delivery_attempts_webhook_attempted").on(table.webhookId, table.attemptedAt)]);
+
+export type ApiKey = typeof apiKeys.$inferSelect;
+export type InsertApiKey = typeof apiKeys.$inferInsert;
+export type RateLimitBucket = typeof rateLimitBuckets.$inferSelect;
+export type AuditLog = typeof auditLogs.$inferSelect;
+export type InsertAuditLog = typeof auditLogs.$inferInsert;
+export type IdempotencyKey = typeof idempotencyKeys.$inferSelect;
+export type InsertIdempotencyKey = typeof idempotencyKeys.$inferInsert;
+export type Webhook = typeof webhooks.$inferSelect;
+export type InsertWebhook = typeof webhooks.$inferInsert;
+export type WebhookEvent = typeof webhookEvents.$inferSelect;
+export type InsertWebhookEvent = typeof webhookEvents.$inferInsert;
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+export type InsertWebhookDelivery = typeof webhookDeliveries.$inferInsert;
+export type WebhookDeliveryAttempt = typeof webhookDeliveryAttempts.$inferSelect;
+export type InsertWebhookDeliveryAttempt = typeof webhookDeliveryAttempts.$inferInsert;
+
+// Public API (v1) request bodies
+export const apiCreateProductSchema = z.object({
+  sku: z.string().min(1, "SKU is required"),
+  name: z.string().min(1, "Name is required"),
+  category: z.string().min(1).optional(),
+  cost: z.number().min(0).optional(),
+  price: z.number().min(0).optional(),
+  supplier: z.string().optional(),
+  reorderPoint: z.number().int().min(0).optional(),
+  maxStock: z.number().int().min(0).optional(),
+  regionId: z.string().optional(),
+  taxCategory: z.enum(["standard", "reduced", "zero"]).optional(),
+  stock: z.number().int().min(0).optional(), // Opening stock, booked at locationId
+  locationId: z.string().min(1).optional(),
+}).refine(product => product.stock === undefined || product.locationId, {
+  message: "Opening stock needs a locationId",
+  path: ["locationId"],
+});
+
+// Stock changes go through /inventory/adjust, so they aren't product fields here
+export const apiUpdateProductSchema = z.object({
+  name: z.string().min(1).optional(),
+  category: z.string().min(1).optional(),
+  cost: z.number().min(0).optional(),
+  price: z.number().min(0).optional(),
+  supplier: z.string().nullable().optional(),
+  reorderPoint: z.number().int().min(0).optional(),
+  maxStock: z.number().int().min(0).optional(),
+  regionId: z.string().nullable().optional(),
+  taxCategory: z.enum(["standard", "reduced", "zero"]).optional(),
+}).refine(updates => Object.keys(updates).length > 0, {
+  message: "No valid fields to update",
+});
+
+export const apiAdjustInventorySchema = z.object({
+  productId: z.string().min(1).optional(), // Product id or SKU
+  sku: z.string().min(1).optional(),
+  locationId: z.string().min(1),
+  delta: z.number().int(),
+  reason: z.string().min(1),
+}).refine(adjustment => adjustment.productId || adjustment.sku, {
+  message: "productId or sku is required",
+  path: ["productId"],
+});
+
+export const apiCreateOrderSchema = z.object({
+  customerId: z.string().min(1),
+  items: z.array(z.object({
+    productId: z.string().min(1).optional(), // Product id or SKU
+    sku: z.string().min(1).optional(),
+    quantity: z.number().int().positive(),
+    unitPrice: z.number().min(0).optional()
+      .describe("Defaults to the product price. Net of tax, unless the order's tax region quotes tax-inclusive prices"),
+  }).refine(item => item.productId || item.sku, {
+    message: "Each item needs a productId or sku",
+  })).min(1),
+  currency: z.enum(["INR", "GBP", "USD", "AED", "SGD"]).optional(),
+  taxRegionId: z.string().min(1).optional(), // Defaults to the tax region for the currency
+  customerState: z.string().min(1).optional(), // Place of supply, for India GST and US state sales tax
+  locationId: z.string().optional(),
+  shippingAddress: z.string().optional(),
+  notes: z.string().optional(),
+});
+
+// Statuses are accepted in either case
+export const apiUpdateOrderStatusSchema = z.object({
+  status: z.preprocess(
+    status => typeof status === "string" ? status.toUpperCase() : status,
+    z.enum(["PENDING", "PROCESSING", "SHIPPED", "DELIVERED", "CANCELLED"])
+  ),
+});
+
+export const apiUpdateInvoiceStatusSchema = z.object({
+  status: z.enum(["UNPAID", "PARTIAL", "PAID", "OVERDUE", "CANCELLED"]),
+  paidDate: z.coerce.date().optional(),
+  paymentMethod: z.string().optional(),
+  paymentReference: z.string().optional(),
+});
+
+export type ApiCreateProductData = z.infer<typeof apiCreateProductSchema>;
+export type ApiUpdateProductData = z.infer<typeof apiUpdateProductSchema>;
+export type ApiAdjustInventoryData = z.infer<typeof apiAdjustInventorySchema>;
+export type ApiCreateOrderData = z.infer<typeof apiCreateOrderSchema>;
+export type ApiUpdateInvoiceStatusData = z.infer<typeof apiUpdateInvoiceStatusSchema>;
+
+// Public API (v1) list and record queries. Resource filters and date ranges are
+// added per endpoint on top of these (see server/routes/api/listing.ts)
+const apiCommaListSchema = z.string().optional().transform(value =>
+  value ? value.split(",").map(item => item.trim()).filter(Boolean) : []
+);
+
+export const apiRecordQuerySchema = z.object({
+  fields: apiCommaListSchema,
+  expand: apiCommaListSchema,
+});
+
+export const apiListQuerySchema = apiRecordQuerySchema.extend({
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  cursor: z.string().optional(),
+  order: z.enum(["asc", "desc"]).default("desc"),
+});
+
+export type ApiRecordQuery = z.infer<typeof apiRecordQuerySchema>;
+export type ApiListQuery = z.infer<typeof apiListQuerySchema>;
+
+// Public API (v1) responses. The OpenAPI document and typed client are generated from these
+export const apiErrorSchema = z.object({
+  error: z.string(),
+  message: z.string().optional(),
+  details: z.array(z.unknown()).optional(),
+});
+
+export const apiPaginationSchema = z.object({
+  limit: z.number().int(),
+  hasMore: z.boolean(),
+  nextCursor: z.string().nullable(),
+});
+
+export const apiProductSchema = createSelectSchema(products).extend({
+  stock: z.number().int(), // summed across locations
+  available: z.number().int(),
+  status: z.enum(["In Stock", "Low Stock"]),
+});
+
+export const apiInventoryLevelSchema = createSelectSchema(inventoryLevels).extend({
+  sku: z.string(),
+  productId: z.string().nullable(), // catalogue id; levels themselves are keyed by SKU
+  productName: z.string(),
+  category: z.string(),
+  available: z.number().int(),
+});
+
+export const apiInventoryAdjustmentSchema = z.object({
+  inventory: apiInventoryLevelSchema,
+  adjustment: z.object({
+    id: z.string(),
+    productId: z.string().nullable(),
+    locationId: z.string(),
+    sku: z.string(),
+    previousStock: z.number().int(),
+    newStock: z.number().int(),
+    delta: z.number().int(), // change actually applied; stock doesn't go below zero
+    reason: z.string(),
+    adjustedBy: z.string(),
+    adjustedAt: z.string(),
+  }),
+});
+
+export const apiOrderSchema = createSelectSchema(salesOrders, {
+  items: z.array(z.object({
+    sku: z.string(),
+    productName: z.string(),
+    quantity: z.number().int(),
+    unitPrice: z.number().int(), // In cents
+    subtotal: z.number().int(), // In cents
+  })),
+});
+
+export const apiInvoiceSchema = createSelectSchema(invoices, {
+  lineItems: z.array(z.object({
+    sku: z.string(),
+    name: z.string(),
+    quantity: z.number().int(),
+    unitPrice: z.number().int(), // In cents
+  })),
+  taxBreakdown: z.array(z.object({ name: z.string(), rate: z.number(), amount: z.number().int() })),
+});
+
+export const apiCustomerSchema = createSelectSchema(customers);
+
+export const apiSupplierSchema = createSelectSchema(suppliers, {
+  skus: z.array(z.object({
+    sku: z.string(),
+    unitCost: z.number(),
+    packSize: z.number().optional(),
+    moq: z.number().optional(),
+    leadTimeDays: z.number(),
+  })),
+});
+
+// Webhook event catalogue. Every event carries a versioned payload schema; a breaking change to a
+// payload bumps its version, which is sent in the delivery envelope and X-Flowventory-Event-Version.
+const webhookPurchaseOrderSchema = createSelectSchema(purchaseOrders, {
+  items: z.array(z.object({
+    sku: z.string(),
+    name: z.string().optional(),
+    qty: z.number(),
+    unitCost: z.number(),
+    taxRate: z.number().optional(),
+    subtotal: z.number(),
+    taxAmount: z.number(),
+    total: z.number(),
+    receivedQty: z.number().optional(),
+  })),
+  totals: z.object({ subtotal: z.number(), tax: z.number(), grandTotal: z.number() }),
+});
+
+const webhookGoodsReceiptSchema = createSelectSchema(goodsReceipts, {
+  lines: z.array(z.object({
+    sku: z.string(),
+    orderedQty: z.number(),
+    previouslyReceivedQty: z.number(),
+    receivedQty: z.number(),
+    totalReceivedQty: z.number(),
+    outstandingQty: z.number(),
+    variance: z.number(),
+    varianceType: z.enum(["NONE", "OVER", "SHORT"]),
+    stockMoveId: z.string().nullable(),
+  })),
+});
+
+const webhookReturnSchema = createSelectSchema(returns, {
+  items: z.array(z.object({
+    sku: z.string(),
+    productName: z.string(),
+    quantity: z.number().int(),
+    unitPrice: z.number(),
+  })),
+});
+
+const webhookTaskSchema = createSelectSchema(tasks, { watcherIds: z.array(z.string()).nullable() });
+
+const webhookShipmentStatusSchema = z.enum(["created", "label_created", "picked_up", "in_transit", "delivered", "exception", "cancelled"]);
+
+const webhookTrackingEventSchema = z.object({
+  timestamp: z.string(),
+  status: z.string(),
+  location: z.string().optional(),
+  description: z.string(),
+  code: z.string().optional(),
+});
+
+export const webhookEventCatalog = {
+  "product.created": {
+    version: 1,
+    description: "A product was added to the catalogue",
+    payload: apiProductSchema,
+  },
+  "product.updated": {
+    version: 1,
+    description: "A product's details changed",
+    payload: z.object({ before: apiProductSchema, after: apiProductSchema }),
+  },
+  "inventory.adjusted": {
+    version: 1,
+    description: "Stock at a location was adjusted",
+    payload: apiInventoryAdjustmentSchema,
+  },
+  "inventory.low_stock": {
+    version: 1,
+    description: "An adjustment left stock at or below the reorder point",
+    payload: z.object({ inventory: apiInventoryLevelSchema, product: createSelectSchema(products).nullable() }),
+  },
+  "order.created": {
+    version: 1,
+    description: "A sales order was created",
+    payload: apiOrderSchema,
+  },
+  "order.status_changed": {
+    version: 1,
+    description: "A sales order moved to a new status",
+    payload: z.object({ order: apiOrderSchema, previousStatus: apiOrderSchema.shape.status, newStatus: apiOrderSchema.shape.status }),
+  },
+  "shipment.created": {
+    version: 1,
+    description: "A shipment was booked with a carrier",
+    payload: z.object({
+      shipmentId: z.string(),
+      salesOrderId: z.string().nullable(),
+      provider: z.string(),
+      trackingNumber: z.string().nullable(),
+      status: webhookShipmentStatusSchema,
+    }),
+  },
+  "shipment.status_changed": {
+    version: 1,
+    description: "Carrier tracking moved a shipment to a new status",
+    payload: z.object({
+      shipmentId: z.string(),
+      salesOrderId: z.string().nullable(),
+      provider: z.string(),
+      trackingNumber: z.string().nullable(),
+      previousStatus: webhookShipmentStatusSchema,
+      status: webhookShipmentStatusSchema,
+      events: z.array(webhookTrackingEventSchema), // tracking events new since the last poll
+      changedAt: z.string(),
+    }),
+  },
+  "invoice.created": {
+    version: 1,
+    description: "An invoice was issued",
+    payload: apiInvoiceSchema,
+  },
+  "invoice.paid": {
+    version: 1,
+    description: "An invoice was paid in full",
+    payload: z.object({
+      invoice: apiInvoiceSchema,
+      paymentDate: z.date().nullable(),
+      paymentMethod: z.string().nullable(),
+      amount: z.number().int(), // In cents
+    }),
+  },
+  "invoice.status_changed": {
+    version: 1,
+    description: "An invoice moved to a new status",
+    payload: z.object({ invoice: apiInvoiceSchema, previousStatus: apiInvoiceSchema.shape.status, newStatus: apiInvoiceSchema.shape.status }),
+  },
+  "purchase_order.created": {
+    version: 1,
+    description: "A purchase order was drafted, by a buyer or a reorder run",
+    payload: z.object({ purchaseOrder: webhookPurchaseOrderSchema }),
+  },
+  "purchase_order.sent": {
+    version: 1,
+    description: "A purchase order was sent to the supplier; its lead time starts now",
+    payload: z.object({ purchaseOrder: webhookPurchaseOrderSchema }),
+  },
+  "purchase_order.received": {
+    version: 1,
+    description: "A goods receipt was posted against a purchase order; status says whether it is now fully received",
+    payload: z.object({ purchaseOrder: webhookPurchaseOrderSchema, receipt: webhookGoodsReceiptSchema }),
+  },
+  "return.created": {
+    version: 1,
+    description: "A customer return (RMA) was requested",
+    payload: z.object({ return: webhookReturnSchema }),
+  },
+  "return.status_changed": {
+    version: 1,
+    description: "A return moved to a new status",
+    payload: z.object({
+      return: webhookReturnSchema,
+      previousStatus: webhookReturnSchema.shape.status,
+      newStatus: webhookReturnSchema.shape.status,
+    }),
+  },
+  "recon.batch_completed": {
+    version: 1,
+    description: "A payout reconciliation batch finished processing",
+    payload: z.object({ batch: createSelectSchema(reconBatches) }),
+  },
+  "recon.mismatch_detected": {
+    version: 1,
+    description: "A reconciled order was paid more or less than expected",
+    payload: z.object({
+      batchId: z.string(),
+      row: createSelectSchema(reconRows),
+      source: z.enum(["Amazon", "Shopify", "Flipkart", "Other"]),
+      region: z.enum(["UK", "UAE", "SG", "US", "IN", "EU", "GLOBAL"]),
+      eventId: z.string().nullable(), // Action Center event raised for the mismatch
+      taskId: z.string().nullable(),
+    }),
+  },
+  "task.created": {
+    version: 1,
+    description: "An Action Center task was created, by hand or from an event",
+    payload: z.object({ task: webhookTaskSchema }),
+  },
+  "task.resolved": {
+    version: 1,
+    description: "An Action Center task was marked done or dismissed",
+    payload: z.object({ task: webhookTaskSchema }),
+  },
+  "supplier.sla_breached": {
+    version: 1,
+    description: "A supplier delivery arrived late, defective or both",
+    payload: z.object({
+      supplier: apiSupplierSchema,
+      delivery: createSelectSchema(supplierDeliveries),
+      breachType: z.enum(["LATE_DELIVERY", "QUALITY_ISSUE", "BOTH"]),
+    }),
+  },
+} satisfies Record<string, { version: number; description: string; payload: z.ZodTypeAny }>;
+
+export type WebhookEventType = keyof typeof webhookEventCatalog;
+export type WebhookEventPayload<E extends WebhookEventType> = z.input<typeof webhookEventCatalog[E]["payload"]>;
+export const webhookEventTypes = Object.keys(webhookEventCatalog) as WebhookEventType[];
 
 // Multi-Warehouse & Multi-Region Stock Control Interfaces
 
@@ -1473,7 +2764,9 @@ export const inventorySettingsSchema = z.object({
 });
 
 // Demand Forecasting interfaces
-export type ForecastMethod = "moving_avg" | "ewma";
+export type ForecastMethod = "moving_avg" | "ewma" | "holt_winters" | "croston" | "sba" | "auto";
+// A concrete model; "auto" resolves to one of these per SKU via backtesting
+export type ForecastModel = Exclude<ForecastMethod, "auto">;
 export type ForecastSeasonality = "none" | "weekly" | "monthly";
 export type ForecastHorizon = "30" | "60" | "90";
 
@@ -1496,10 +2789,21 @@ export interface DailyForecast {
   qty: number;
 }
 
+// Rolling-origin backtest accuracy for one model on one SKU
+export interface ForecastBacktest {
+  method: ForecastModel;
+  folds: number;
+  mape: number | null; // % error over days with non-zero actuals (null when all actuals are zero)
+  wape: number | null; // sum |error| / sum actual, as %
+  bias: number | null; // sum (forecast - actual) / sum actual, as %; positive = over-forecast
+}
+
 export interface ForecastResult {
   daily: DailyForecast[];
   avgDaily: number;
   peakDaily: number;
+  selectedMethod?: ForecastModel; // model actually used (differs from the requested method for "auto")
+  backtests?: ForecastBacktest[];
 }
 
 export interface ForecastData {
@@ -1511,6 +2815,12 @@ export interface ForecastData {
   result: ForecastResult;
 }
 
+// GET /api/forecasts. `refreshing` is set while forecasts missing for the query are computed in the background
+export interface ForecastsResponse {
+  forecasts: ForecastData[];
+  refreshing: boolean;
+}
+
 export interface DemandSuggestion {
   onHand: number;
   safetyStock: number;
@@ -1547,7 +2857,7 @@ export type ForecastStatus = "healthy" | "action_needed" | "critical";
 
 // Zod schemas for validation
 export const forecastSettingsSchema = z.object({
-  defaultMethod: z.enum(["moving_avg", "ewma"]),
+  defaultMethod: z.enum(["moving_avg", "ewma", "holt_winters", "croston", "sba", "auto"]),
   defaultHorizon: z.enum(["30", "60", "90"]),
   ewmaAlpha: z.number().min(0.1).max(0.9),
   minHistoryDays: z.number().min(7).max(365),
@@ -1565,21 +2875,85 @@ export const dailyForecastSchema = z.object({
   qty: z.number().min(0),
 });
 
+export const forecastBacktestSchema = z.object({
+  method: z.enum(["moving_avg", "ewma", "holt_winters", "croston", "sba"]),
+  folds: z.number().min(0),
+  mape: z.number().nullable(),
+  wape: z.number().nullable(),
+  bias: z.number().nullable(),
+});
+
 export const forecastResultSchema = z.object({
   daily: z.array(dailyForecastSchema),
   avgDaily: z.number().min(0),
   peakDaily: z.number().min(0),
+  selectedMethod: z.enum(["moving_avg", "ewma", "holt_winters", "croston", "sba"]).optional(),
+  backtests: z.array(forecastBacktestSchema).optional(),
 });
 
 export const forecastDataSchema = z.object({
   productId: z.string(),
   locationId: z.string().optional(),
   horizon: z.enum(["30", "60", "90"]),
-  method: z.enum(["moving_avg", "ewma"]),
+  method: z.enum(["moving_avg", "ewma", "holt_winters", "croston", "sba", "auto"]),
   ts: z.string(),
   result: forecastResultSchema,
 });
 
+// Server-computed forecasts, one row per workspace/product/location/horizon/method
+export const forecasts = pgTable("forecasts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  workspaceId: varchar("workspace_id").notNull(),
+  productId: text("product_id").notNull(), // product SKU
+  locationId: varchar("location_id"), // null means "all locations"
+  horizon: text("horizon", { enum: ["30", "60", "90"] }).notNull(),
+  method: text("method", { enum: ["moving_avg", "ewma", "holt_winters", "croston", "sba", "auto"] }).notNull(),
+  result: jsonb("result").$type<ForecastResult>().notNull(),
+  computedAt: cursorTimestamp("computed_at").defaultNow().notNull(),
+}, table => [index("forecasts_workspace_computed").on(table.workspaceId, table.computedAt)]);
+
+export type ForecastRecord = typeof forecasts.$inferSelect;
+export type InsertForecastRecord = typeof forecasts.$inferInsert;
+
+export const forecastsQuerySchema = z.object({
+  productId: z.string().optional(),
+  locationId: z.string().optional(),
+  horizon: z.enum(["30", "60", "90"]).optional(),
+  method: z.enum(["moving_avg", "ewma", "holt_winters", "croston", "sba", "auto"]).optional(),
+});
+
+// Public API (v1) forecast; the id is "<sku>:<location or all>:<horizon>:<method>"
+export const apiForecastSchema = z.object({
+  id: z.string(),
+  productId: z.string(),
+  locationId: z.string().optional(),
+  horizon: z.enum(["30", "60", "90"]),
+  method: z.enum(["moving_avg", "ewma", "holt_winters", "croston", "sba", "auto"]),
+  ts: z.string(),
+  result: z.object({
+    daily: z.array(z.object({ date: z.string(), qty: z.number() })),
+    avgDaily: z.number(),
+    peakDaily: z.number(),
+    selectedMethod: z.enum(["moving_avg", "ewma", "holt_winters", "croston", "sba"]).optional(),
+    backtests: z.array(z.object({
+      method: z.enum(["moving_avg", "ewma", "holt_winters", "croston", "sba"]),
+      folds: z.number().int(),
+      mape: z.number().nullable(),
+      wape: z.number().nullable(),
+      bias: z.number().nullable(),
+    })).optional(),
+  }),
+});
+
+export const forecastHistoryQuerySchema = z.object({
+  locationId: z.string().optional(),
+  days: z.coerce.number().int().min(1).max(365).default(30),
+});
+
+export const refreshForecastsSchema = z.object({
+  productId: z.string().optional(),
+});
+
 export const demandSuggestionSchema = z.object({
   onHand: z.number().min(0),
   safetyStock: z.number().min(0),
@@ -0,0 +1,204 @@
+import { describe, expect, it } from "vitest";
+import { financeSettingsSchema, type TaxRegion } from "./schema";
+import {
+  DEFAULT_FINANCE_SETTINGS,
+  calculateRegionTax,
+  changeStateRate,
+  changeTaxRuleRate,
+  getEffectiveTaxRate,
+  roundMinorUnits,
+  splitTaxAmount,
+  type TaxCalculationInput
+} from "./taxation";
+
+function region(id: string): TaxRegion {
+  return DEFAULT_FINANCE_SETTINGS.regions.find(r => r.id === id)!;
+}
+
+// A standard-rated line, a reduced-rated line and a zero-rated line
+const lineItems = [
+  { productId: "headphones", qty: 2, unitPrice: 1500 },
+  { productId: "book", qty: 1, unitPrice: 800 },
+  { productId: "bread", qty: 4, unitPrice: 50 },
+];
+const productTaxCategories = { book: "reduced", bread: "zero" };
+
+// Each case's result is checked against its golden file in __golden__/taxation. After an intended
+// change to the engine, regenerate them with `npx vitest run shared/taxation.test.ts -u` and review the diff
+const cases: [string, string, TaxCalculationInput][] = [
+  ["india-intra-state", "IN", { businessState: "KA", customerState: "KA", lineItems, productTaxCategories }],
+  ["india-inter-state", "IN", { businessState: "KA", customerState: "MH", lineItems, productTaxCategories }],
+  ["us-california", "US", { customerState: "CA", lineItems }],
+  ["us-new-york", "US", { customerState: "NY", lineItems }],
+  ["us-state-without-rate", "US", { customerState: "WA", lineItems }],
+  ["uk-vat-exclusive", "UK", { lineItems, productTaxCategories }],
+  ["uae-vat-exclusive", "UAE", { lineItems, productTaxCategories }],
+  ["sg-gst-exclusive", "SG", { lineItems, productTaxCategories }],
+];
+
+// The regions where retail prices are usually quoted with tax, opted in to tax-inclusive pricing
+const inclusiveCases = cases
+  .filter(([name]) => name.endsWith("-exclusive"))
+  .map(([name, regionId, input]): [string, string, TaxCalculationInput] => [name.replace("-exclusive", "-inclusive"), regionId, input]);
+
+describe("calculateRegionTax", () => {
+  it.each(cases)("matches the golden file for %s", async (name, regionId, input) => {
+    const result = calculateRegionTax(region(regionId), input);
+
+    await expect(JSON.stringify(result, null, 2) + "\n").toMatchFileSnapshot(`./__golden__/taxation/${name}.json`);
+  });
+
+  it.each(inclusiveCases)("matches the golden file for %s", async (name, regionId, input) => {
+    const result = calculateRegionTax({ ...region(regionId), pricing: "inclusive" }, input);
+
+    await expect(JSON.stringify(result, null, 2) + "\n").toMatchFileSnapshot(`./__golden__/taxation/${name}.json`);
+  });
+
+  it("splits intra-state GST evenly between CGST and SGST, and charges IGST across states", () => {
+    const intra = calculateRegionTax(region("IN"), { businessState: "KA", customerState: "KA", lineItems: [lineItems[0]] });
+    const inter = calculateRegionTax(region("IN"), { businessState: "KA", customerState: "MH", lineItems: [lineItems[0]] });
+
+    expect(intra.taxBreakup).toEqual({ cgst: 270, sgst: 270, igst: undefined });
+    expect(inter.taxBreakup).toEqual({ cgst: undefined, sgst: undefined, igst: 540 });
+    expect(intra.totals.tax).toBe(inter.totals.tax);
+  });
+
+  it("charges the US default rate when the customer's state isn't known", () => {
+    const result = calculateRegionTax(region("US"), { lineItems: [{ productId: "headphones", qty: 1, unitPrice: 100 }] });
+
+    expect(result.totals).toEqual({ sub: 100, tax: 8, grand: 108, currency: "USD" });
+  });
+});
+
+describe("getEffectiveTaxRate", () => {
+  it("prefers the product override, then the chosen rule, then the product's category", () => {
+    const uk = region("UK");
+
+    expect(getEffectiveTaxRate(uk, { taxCategory: "reduced", taxOverride: { id: "zero", name: "Zero-rated", rate: 0 } }, "uk_std")).toBe(0);
+    expect(getEffectiveTaxRate(uk, { taxCategory: "reduced" }, "uk_zero")).toBe(0);
+    expect(getEffectiveTaxRate(uk, { taxCategory: "reduced" })).toBe(0.05);
+    expect(getEffectiveTaxRate(uk)).toBe(0.2);
+  });
+});
+
+describe("effective-dated rates", () => {
+  const uk = changeTaxRuleRate(region("UK"), "uk_std", "2025-04-01", { rate: 0.22, name: "VAT 22% (Standard)" });
+  const headphones = [{ productId: "headphones", qty: 1, unitPrice: 100 }];
+
+  it("closes the old version the day before the new rate starts", () => {
+    expect(uk.taxRules.filter(rule => rule.id === "uk_std")).toEqual([
+      { id: "uk_std", name: "VAT 20% (Standard)", rate: 0.2, category: "standard", effectiveTo: "2025-03-31" },
+      { id: "uk_std", name: "VAT 22% (Standard)", rate: 0.22, category: "standard", effectiveFrom: "2025-04-01", effectiveTo: undefined },
+    ]);
+  });
+
+  it("taxes each document at the rate in force on its date", () => {
+    expect(calculateRegionTax(uk, { date: "2025-03-31T23:00:00.000Z", lineItems: headphones }).totals.tax).toBe(20);
+    expect(calculateRegionTax(uk, { date: "2025-04-01", lineItems: headphones }).totals.tax).toBe(22);
+    expect(getEffectiveTaxRate(uk, undefined, "uk_std", "2024-06-30")).toBe(0.2);
+    expect(getEffectiveTaxRate(uk, undefined, "uk_std", "2025-06-30")).toBe(0.22);
+  });
+
+  it("dates US state rate changes the same way", () => {
+    const us = changeStateRate(region("US"), "CA", "2025-01-01", 0.0875);
+
+    expect(calculateRegionTax(us, { date: "2024-12-31", customerState: "CA", lineItems: headphones }).totals.tax).toBeCloseTo(8.5);
+    expect(calculateRegionTax(us, { date: "2025-01-01", customerState: "CA", lineItems: headphones }).totals.tax).toBeCloseTo(8.75);
+  });
+
+  it("replaces a scheduled change made again for the same date", () => {
+    const rescheduled = changeTaxRuleRate(uk, "uk_std", "2025-04-01", { rate: 0.21 });
+
+    expect(rescheduled.taxRules.filter(rule => rule.id === "uk_std").map(rule => rule.rate)).toEqual([0.2, 0.21]);
+  });
+
+  it("rejects settings with two versions of a rule in force on the same day", () => {
+    const overlapping = {
+      ...uk,
+      taxRules: uk.taxRules.map(rule => rule.effectiveTo === "2025-03-31" ? { ...rule, effectiveTo: "2025-04-01" } : rule),
+    };
+
+    expect(financeSettingsSchema.safeParse({ ...DEFAULT_FINANCE_SETTINGS, regions: [uk] }).success).toBe(true);
+    expect(financeSettingsSchema.safeParse({ ...DEFAULT_FINANCE_SETTINGS, regions: [overlapping] }).success).toBe(false);
+  });
+});
+
+describe("tax-inclusive pricing and rounding", () => {
+  // A region with one 10% rule, priced and rounded as each test needs
+  function flatRegion(overrides: Partial<TaxRegion> = {}): TaxRegion {
+    return {
+      id: "TEST",
+      name: "Test",
+      currency: "USD",
+      locale: "en-US",
+      taxRules: [{ id: "std", name: "Tax 10%", rate: 0.1, category: "standard" }],
+      ...overrides,
+    };
+  }
+  // 10% of 0.25 and of 0.15 are both exact half cents
+  const halfCentLines = [
+    { productId: "a", qty: 1, unitPrice: 0.25 },
+    { productId: "b", qty: 1, unitPrice: 0.15 },
+  ];
+
+  it("backs the net out of tax-inclusive prices", () => {
+    const result = calculateRegionTax({ ...region("UK"), pricing: "inclusive" }, { lineItems: [{ productId: "headphones", qty: 1, unitPrice: 120 }] });
+
+    expect(result.totals).toEqual({ sub: 100, tax: 20, grand: 120, currency: "GBP" });
+    expect(result.lineItemTaxDetails[0]).toMatchObject({ netAmount: 100, taxAmount: 20, grossAmount: 120 });
+  });
+
+  it("rounds ties half up or half even, on each line or once per invoice", () => {
+    const tax = (rounding: TaxRegion["rounding"]) =>
+      calculateRegionTax(flatRegion({ rounding }), { lineItems: halfCentLines }).totals.tax;
+
+    expect(tax({ level: "line", mode: "half_up" })).toBe(0.05); // 0.03 + 0.02
+    expect(tax({ level: "line", mode: "half_even" })).toBe(0.04); // 0.02 + 0.02
+    expect(tax({ level: "invoice", mode: "half_up" })).toBe(0.04); // 0.025 + 0.015 = 0.04
+    expect(tax({ level: "invoice", mode: "half_even" })).toBe(0.04);
+  });
+
+  it("keeps sub + tax equal to grand for inclusive lines rounded per invoice", () => {
+    const result = calculateRegionTax(flatRegion({ pricing: "inclusive", rounding: { level: "invoice", mode: "half_up" } }), {
+      lineItems: [{ productId: "a", qty: 3, unitPrice: 9.99 }, { productId: "b", qty: 1, unitPrice: 0.99 }],
+    });
+
+    expect(result.totals).toEqual({ sub: 28.15, tax: 2.81, grand: 30.96, currency: "USD" });
+  });
+
+  it("rounds India's CGST and SGST to whole rupees each", () => {
+    const result = calculateRegionTax(region("IN"), {
+      businessState: "KA",
+      customerState: "KA",
+      lineItems: [{ productId: "kettle", qty: 1, unitPrice: 99.5 }],
+    });
+
+    // 9% of 99.50 is 8.955 for each half
+    expect(result.taxBreakup).toEqual({ cgst: 9, sgst: 9, igst: undefined });
+    expect(result.totals).toEqual({ sub: 99.5, tax: 18, grand: 117.5, currency: "INR" });
+  });
+});
+
+describe("roundMinorUnits", () => {
+  it("rounds ties away from zero or to the even neighbour", () => {
+    expect([2.5, 3.5, -2.5].map(amount => roundMinorUnits(amount, { mode: "half_up" }))).toEqual([3, 4, -3]);
+    expect([2.5, 3.5, -2.5].map(amount => roundMinorUnits(amount, { mode: "half_even" }))).toEqual([2, 4, -2]);
+  });
+
+  it("treats float noise around a tie as the tie", () => {
+    expect(roundMinorUnits(1.005 * 1000, { mode: "half_up" })).toBe(1005);
+    expect(roundMinorUnits(0.1 * 3 * 5 + 1, { mode: "half_even" })).toBe(2); // 2.5000000000000004
+  });
+
+  it("rounds to a multiple of the unit", () => {
+    expect(roundMinorUnits(8955 / 10, { mode: "half_up", unit: 100 })).toBe(900);
+    expect(roundMinorUnits(850, { mode: "half_even", unit: 100 })).toBe(800);
+  });
+});
+
+describe("splitTaxAmount", () => {
+  it("splits a tax-inclusive amount into net and tax, and adds tax to an exclusive one", () => {
+    expect(splitTaxAmount(12000, 0.2, "inclusive")).toEqual({ net: 10000, tax: 2000, gross: 12000 });
+    expect(splitTaxAmount(10000, 0.2, "exclusive")).toEqual({ net: 10000, tax: 2000, gross: 12000 });
+  });
+});
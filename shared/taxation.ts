@@ -0,0 +1,382 @@
+import type {
+  FinanceSettings,
+  TaxRegion,
+  TaxRule,
+  TaxRounding,
+  StateRate,
+  TaxProduct,
+  OrderItem,
+  OrderTotals,
+  TaxBreakup
+} from "./schema";
+
+// Regions, rates and business state a workspace starts with until it saves its own
+export const DEFAULT_FINANCE_SETTINGS: FinanceSettings = {
+  baseCurrency: "USD",
+  displayLocale: "en-US",
+  businessState: "KA", // Default business state for India GST demo
+  regions: [
+    // UK (VAT)
+    {
+      id: "UK",
+      name: "United Kingdom",
+      currency: "GBP",
+      locale: "en-GB",
+      taxRules: [
+        { id: "uk_std", name: "VAT 20% (Standard)", rate: 0.20, category: "standard" },
+        { id: "uk_red", name: "VAT 5% (Reduced)", rate: 0.05, category: "reduced" },
+        { id: "uk_zero", name: "VAT 0% (Zero)", rate: 0, category: "zero" }
+      ]
+    },
+
+    // UAE (VAT)
+    {
+      id: "UAE",
+      name: "United Arab Emirates",
+      currency: "AED",
+      locale: "en-AE",
+      taxRules: [
+        { id: "ae_std", name: "VAT 5% (Standard)", rate: 0.05, category: "standard" },
+        { id: "ae_zero", name: "VAT 0% (Zero)", rate: 0, category: "zero" }
+      ]
+    },
+
+    // Singapore (GST)
+    {
+      id: "SG",
+      name: "Singapore",
+      currency: "SGD",
+      locale: "en-SG",
+      taxRules: [
+        { id: "sg_std", name: "GST 9% (Standard)", rate: 0.09, category: "standard" },
+        { id: "sg_zero", name: "GST 0% (Zero)", rate: 0, category: "zero" }
+      ]
+    },
+
+    // India (GST, simplified)
+    {
+      id: "IN",
+      name: "India",
+      currency: "INR",
+      locale: "en-IN",
+      taxRules: [
+        { id: "in_gst_18", name: "GST 18% (Std)", rate: 0.18, category: "standard" },
+        { id: "in_gst_12", name: "GST 12% (Reduced)", rate: 0.12, category: "reduced" },
+        { id: "in_gst_0", name: "GST 0% (Zero/Exempt)", rate: 0, category: "zero" }
+      ],
+      states: ["KA", "MH", "DL", "TN", "GJ", "UP", "WB", "RJ"],
+      rounding: { level: "invoice", mode: "half_up", unit: 100 } // Each of CGST/SGST/IGST to the nearest rupee
+    },
+
+    // US (Sales Tax, simplified per-state)
+    {
+      id: "US",
+      name: "United States",
+      currency: "USD",
+      locale: "en-US",
+      taxRules: [
+        { id: "us_std", name: "Default Sales Tax", rate: 0.08, category: "state" }
+      ],
+      states: ["CA", "NY", "TX", "FL"],
+      stateRates: [
+        { code: "CA", rate: 0.085 },
+        { code: "NY", rate: 0.08875 },
+        { code: "TX", rate: 0.0825 },
+        { code: "FL", rate: 0.07 }
+      ]
+    }
+  ]
+};
+
+export interface TaxCalculationInput {
+  date?: string | Date; // The document's date; rates in force today if omitted
+  customerState?: string;
+  businessState?: string;
+  lineItems: Pick<OrderItem, "productId" | "qty" | "unitPrice">[];
+  productTaxCategories?: Record<string, string>;
+}
+
+// Amounts are in major units (pounds, rupees), worked out in whole minor units. netAmount excludes
+// tax and grossAmount includes it, whichever way the region quotes its prices
+export interface LineItemTax {
+  productId: string;
+  taxRate: number;
+  netAmount: number;
+  taxAmount: number;
+  grossAmount: number;
+  taxBreakup?: TaxBreakup;
+}
+
+export interface TaxCalculation {
+  totals: OrderTotals;
+  taxBreakup?: TaxBreakup;
+  lineItemTaxDetails: LineItemTax[];
+}
+
+// Every currency a region can use (USD, GBP, EUR, AED, SGD, INR) has two decimal places
+const MINOR_UNITS_PER_MAJOR = 100;
+
+export const DEFAULT_TAX_ROUNDING: Required<TaxRounding> = { level: "line", mode: "half_up", unit: 1 };
+
+export function toMinorUnits(amount: number): number {
+  return Math.round(amount * MINOR_UNITS_PER_MAJOR);
+}
+
+export function fromMinorUnits(amount: number): number {
+  return amount / MINOR_UNITS_PER_MAJOR;
+}
+
+// Round an amount in minor units to a multiple of the rounding unit
+export function roundMinorUnits(amount: number, rounding: Pick<TaxRounding, "mode" | "unit"> = DEFAULT_TAX_ROUNDING): number {
+  const unit = rounding.unit ?? 1;
+  // Drop float noise first, so 0.5 that arrives as 0.49999999999999994 still counts as a tie
+  const scaled = Math.round(Math.abs(amount / unit) * 1e6) / 1e6;
+  const whole = Math.floor(scaled);
+  const fraction = scaled - whole;
+
+  let rounded = fraction > 0.5 ? whole + 1 : whole;
+  if (fraction === 0.5) {
+    rounded = rounding.mode === "half_even" && whole % 2 === 0 ? whole : whole + 1;
+  }
+  return (amount < 0 ? -rounded : rounded) * unit;
+}
+
+// Net, tax and gross of an amount quoted at a rate, in minor units. Inclusive amounts are split into
+// the net and the tax they contain
+export function splitTaxAmount(
+  amount: number,
+  rate: number,
+  pricing: TaxRegion["pricing"] = "exclusive",
+  rounding: Pick<TaxRounding, "mode" | "unit"> = DEFAULT_TAX_ROUNDING
+): { net: number; tax: number; gross: number } {
+  if (pricing === "inclusive") {
+    const tax = roundMinorUnits(amount * rate / (1 + rate), rounding);
+    return { net: amount - tax, tax, gross: amount };
+  }
+  const tax = roundMinorUnits(amount * rate, rounding);
+  return { net: amount, tax, gross: amount + tax };
+}
+
+type RatePeriod = Pick<TaxRule, "effectiveFrom" | "effectiveTo">;
+
+// Calendar date (YYYY-MM-DD, UTC) that effective dates are compared against
+export function toTaxDate(date: string | Date = new Date()): string {
+  return typeof date === "string" && /^\d{4}-\d{2}-\d{2}$/.test(date) ? date : new Date(date).toISOString().slice(0, 10);
+}
+
+export function isRateInForce(period: RatePeriod, date?: string | Date): boolean {
+  const day = toTaxDate(date);
+  return (!period.effectiveFrom || period.effectiveFrom <= day) && (!period.effectiveTo || day <= period.effectiveTo);
+}
+
+// The region with only the tax rules and state rates in force on a date
+export function regionRatesOn(region: TaxRegion, date?: string | Date): TaxRegion {
+  return {
+    ...region,
+    taxRules: region.taxRules.filter(rule => isRateInForce(rule, date)),
+    stateRates: region.stateRates?.filter(stateRate => isRateInForce(stateRate, date)),
+  };
+}
+
+// Every version of a rate, oldest first
+export function rateHistory<T extends RatePeriod>(versions: T[]): T[] {
+  return [...versions].sort((a, b) => (a.effectiveFrom ?? "").localeCompare(b.effectiveFrom ?? ""));
+}
+
+function dayBefore(date: string): string {
+  const day = new Date(`${date}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() - 1);
+  return day.toISOString().slice(0, 10);
+}
+
+// Versions with `rate` in force from effectiveFrom on. The version in force that day is closed the day
+// before (or replaced, if it starts that day) and the new one runs until it would have ended
+function withRateChange<T extends RatePeriod & { rate: number }>(
+  versions: T[],
+  isTarget: (version: T) => boolean,
+  effectiveFrom: string,
+  changes: Partial<T> & { rate: number }
+): T[] {
+  const current = versions.find(version => isTarget(version) && isRateInForce(version, effectiveFrom));
+  if (!current) {
+    throw new Error(`No rate in force on ${effectiveFrom} to change`);
+  }
+
+  const next = { ...current, ...changes, effectiveFrom, effectiveTo: current.effectiveTo };
+  if (current.effectiveFrom === effectiveFrom) {
+    return versions.map(version => version === current ? next : version);
+  }
+  return [...versions.map(version => version === current ? { ...current, effectiveTo: dayBefore(effectiveFrom) } : version), next];
+}
+
+// Schedule a new rate (and optionally name) for a tax rule from a date, keeping its history
+export function changeTaxRuleRate(
+  region: TaxRegion,
+  ruleId: string,
+  effectiveFrom: string,
+  changes: { rate: number; name?: string }
+): TaxRegion {
+  const { name, rate } = changes;
+  return {
+    ...region,
+    taxRules: withRateChange(region.taxRules, rule => rule.id === ruleId, effectiveFrom, name ? { rate, name } : { rate }),
+  };
+}
+
+// Schedule a new rate for a state from a date, keeping its history
+export function changeStateRate(region: TaxRegion, code: string, effectiveFrom: string, rate: number): TaxRegion {
+  return {
+    ...region,
+    stateRates: withRateChange<StateRate>(region.stateRates ?? [], stateRate => stateRate.code === code, effectiveFrom, { rate }),
+  };
+}
+
+// The region a document in this currency is taxed in, when it doesn't name one
+export function findRegionForCurrency(settings: FinanceSettings, currency: string): TaxRegion | undefined {
+  return settings.regions.find(region => region.currency === currency);
+}
+
+// Effective tax rate for a product in a region on a date (today by default): its override, then the
+// chosen rule, then the rule for its tax category, then the region's standard rate
+export function getEffectiveTaxRate(
+  region: TaxRegion,
+  product?: Pick<TaxProduct, "taxCategory" | "taxOverride">,
+  selectedTaxRuleId?: string,
+  date?: string | Date
+): number {
+  if (product?.taxOverride) {
+    return product.taxOverride.rate;
+  }
+
+  const { taxRules } = regionRatesOn(region, date);
+
+  if (selectedTaxRuleId) {
+    const taxRule = taxRules.find(rule => rule.id === selectedTaxRuleId);
+    if (taxRule) return taxRule.rate;
+  }
+
+  if (product?.taxCategory) {
+    const taxRule = taxRules.find(rule => rule.category === product.taxCategory);
+    if (taxRule) return taxRule.rate;
+  }
+
+  const standardRule = taxRules.find(rule => rule.category === "standard");
+  return standardRule?.rate || 0;
+}
+
+// A category the region has no rule for (say reduced-rate goods in the UAE) is taxed at the standard rate
+function ruleForCategory(region: TaxRegion, category = "standard"): TaxRule | undefined {
+  return region.taxRules.find(rule => rule.category === category)
+    || region.taxRules.find(rule => rule.category === "standard");
+}
+
+type TaxComponent = keyof TaxBreakup;
+
+// The rate charged on a line and, for India, how it divides between CGST/SGST or IGST
+function lineTaxRate(
+  region: TaxRegion,
+  item: TaxCalculationInput["lineItems"][number],
+  input: TaxCalculationInput
+): { taxRate: number; components: Partial<Record<TaxComponent, number>> } {
+  const { customerState, businessState, productTaxCategories = {} } = input;
+
+  if (region.id === "IN" && businessState && customerState) {
+    const taxRate = ruleForCategory(region, productTaxCategories[item.productId])?.rate || 0;
+    return businessState === customerState
+      ? { taxRate, components: { cgst: taxRate / 2, sgst: taxRate / 2 } } // Same state: CGST + SGST
+      : { taxRate, components: { igst: taxRate } }; // Different state: IGST
+  }
+  if (region.id === "US" && region.stateRates) {
+    const stateRate = customerState ? region.stateRates.find(sr => sr.code === customerState) : undefined;
+    return { taxRate: stateRate ? stateRate.rate : (region.taxRules[0]?.rate || 0), components: {} };
+  }
+  return { taxRate: ruleForCategory(region, productTaxCategories[item.productId])?.rate || 0, components: {} };
+}
+
+// Tax for a document in a region, at the rates in force on its date. India splits GST into CGST + SGST
+// within the business's state and IGST across states; the US charges the customer's state rate, or the
+// region's default rule when the state has none or isn't known; elsewhere (UK, UAE, SG) VAT/GST follows
+// each product's tax category.
+//
+// Amounts are worked in whole minor units. Regions that quote tax-inclusive prices have the tax backed
+// out of each line. Tax, and each of CGST/SGST/IGST, is rounded per line, or summed unrounded and
+// rounded once for the document, as the region's rounding says.
+export function calculateRegionTax(regionSettings: TaxRegion, input: TaxCalculationInput): TaxCalculation {
+  const region = regionRatesOn(regionSettings, input.date);
+  const inclusive = region.pricing === "inclusive";
+  const rounding = { ...DEFAULT_TAX_ROUNDING, ...region.rounding };
+  const round = (amount: number) => roundMinorUnits(amount, rounding);
+
+  let priced = 0; // Sum of the lines as quoted: net when exclusive, gross when inclusive
+  const exactComponents: Partial<Record<TaxComponent, number>> = {};
+  const roundedComponents: Partial<Record<TaxComponent, number>> = {};
+  let exactTax = 0;
+  let roundedTax = 0;
+
+  const lines = input.lineItems.map(item => {
+    const amount = toMinorUnits(item.qty * item.unitPrice);
+    priced += amount;
+
+    const { taxRate, components } = lineTaxRate(region, item, input);
+    // Share of the quoted amount that is tax at a rate
+    const taxAt = (rate: number) => inclusive ? amount * rate / (1 + taxRate) : amount * rate;
+
+    let lineTax: number;
+    let lineTaxBreakup: TaxBreakup | undefined;
+    const componentNames = Object.keys(components) as TaxComponent[];
+    if (componentNames.length > 0) {
+      lineTaxBreakup = {};
+      lineTax = 0;
+      for (const name of componentNames) {
+        const exact = taxAt(components[name]!);
+        const rounded = round(exact);
+        exactComponents[name] = (exactComponents[name] ?? 0) + exact;
+        roundedComponents[name] = (roundedComponents[name] ?? 0) + rounded;
+        lineTaxBreakup[name] = fromMinorUnits(rounded);
+        lineTax += rounded;
+      }
+    } else {
+      exactTax += taxAt(taxRate);
+      lineTax = round(taxAt(taxRate));
+      roundedTax += lineTax;
+    }
+
+    const net = inclusive ? amount - lineTax : amount;
+    return {
+      productId: item.productId,
+      taxRate,
+      netAmount: fromMinorUnits(net),
+      taxAmount: fromMinorUnits(lineTax),
+      grossAmount: fromMinorUnits(net + lineTax),
+      taxBreakup: lineTaxBreakup
+    };
+  });
+
+  // Per-invoice rounding rounds the document's exact tax, and each exact GST component, just once
+  const perInvoice = rounding.level === "invoice";
+  const components: Partial<Record<TaxComponent, number>> = {};
+  for (const name of Object.keys(exactComponents) as TaxComponent[]) {
+    components[name] = perInvoice ? round(exactComponents[name]!) : roundedComponents[name]!;
+  }
+  const tax = (perInvoice ? round(exactTax) : roundedTax)
+    + Object.values(components).reduce((sum, amount) => sum + amount, 0);
+  const net = inclusive ? priced - tax : priced;
+
+  const totals: OrderTotals = {
+    sub: fromMinorUnits(net),
+    tax: fromMinorUnits(tax),
+    grand: fromMinorUnits(net + tax),
+    currency: region.currency
+  };
+
+  let taxBreakup: TaxBreakup | undefined;
+  if (region.id === "IN" && (components.cgst || components.sgst || components.igst)) {
+    taxBreakup = {
+      cgst: components.cgst ? fromMinorUnits(components.cgst) : undefined,
+      sgst: components.sgst ? fromMinorUnits(components.sgst) : undefined,
+      igst: components.igst ? fromMinorUnits(components.igst) : undefined
+    };
+  }
+
+  return { totals, taxBreakup, lineItemTaxDetails: lines };
+}
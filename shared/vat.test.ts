@@ -0,0 +1,156 @@
+import { describe, expect, it } from "vitest";
+import type { PurchaseOrder, SupplierBill, TaxInvoice } from "./schema";
+import { DEFAULT_FINANCE_SETTINGS } from "./taxation";
+import { buildVatReturn, buildVatSummary, lockVatReturn, vatPurchasesFrom, vatReturnChanges, type VatPeriod } from "./vat";
+
+function purchaseOrder(id: string, currency: PurchaseOrder["currency"], status: PurchaseOrder["status"], sentAt: string, subtotal: number, tax: number): PurchaseOrder {
+  const created = new Date("2026-01-02T09:00:00.000Z");
+  return {
+    id,
+    workspaceId: "ws-1",
+    supplierId: `supplier-${id}`,
+    supplierName: `Supplier ${id}`,
+    supplierEmail: null,
+    currency,
+    status,
+    items: [],
+    totals: { subtotal, tax, grandTotal: subtotal + tax },
+    notes: null,
+    linkedTaskId: null,
+    sentAt: new Date(sentAt),
+    createdAt: created,
+    updatedAt: created,
+  };
+}
+
+function bill(id: string, purchaseOrderId: string, billDate: string, subtotal: number, tax: number): SupplierBill {
+  const created = new Date(billDate);
+  return {
+    id,
+    workspaceId: "ws-1",
+    purchaseOrderId,
+    supplierId: `supplier-${purchaseOrderId}`,
+    billNumber: `BILL-${id}`,
+    billDate: created,
+    dueDate: null,
+    currency: "GBP",
+    lines: [],
+    totals: { subtotal, tax, grandTotal: subtotal + tax },
+    matchStatus: "MATCHED",
+    matchResult: null,
+    eventId: null,
+    taskId: null,
+    notes: null,
+    createdAt: created,
+    updatedAt: created,
+  };
+}
+
+function invoice(id: string, regionId: string, createdAt: string, sub: number, tax: number, currency = "GBP"): TaxInvoice {
+  return { id, number: `INV-${id}`, regionId, customerName: `Customer ${id}`, createdAt, items: [], totals: { sub, tax, grand: sub + tax, currency } };
+}
+
+const purchases = vatPurchasesFrom(
+  [
+    purchaseOrder("po-1", "GBP", "RECEIVED", "2026-01-05T09:00:00.000Z", 420, 84), // Billed, so its bill counts instead
+    purchaseOrder("po-2", "GBP", "SENT", "2026-03-05T09:00:00.000Z", 99.99, 20),
+    purchaseOrder("po-3", "GBP", "DRAFT", "2026-03-06T09:00:00.000Z", 1000, 200),
+    purchaseOrder("po-4", "USD", "RECEIVED", "2026-01-20T09:00:00.000Z", 300, 24),
+  ],
+  [bill("b-1", "po-1", "2026-02-20T09:00:00.000Z", 400.4, 80.08)]
+);
+
+const invoices = [
+  invoice("s-1", "UK", "2026-01-10T12:00:00.000Z", 1000.1, 200.02),
+  invoice("s-2", "UK", "2026-02-15T12:00:00.000Z", 250.55, 50.11),
+  invoice("s-3", "UK", "2026-04-01T00:30:00.000Z", 100, 20),
+  invoice("s-4", "US", "2026-02-01T12:00:00.000Z", 500, 40, "USD"),
+];
+
+const q1: VatPeriod = { periodKey: "26A1", start: "2026-01-01", end: "2026-03-31" };
+
+describe("vatPurchasesFrom", () => {
+  it("takes bills, and sent POs that haven't been billed yet", () => {
+    expect(purchases.map(purchase => [purchase.source, purchase.reference, purchase.net, purchase.vat])).toEqual([
+      ["bill", "BILL-b-1", 400.4, 80.08],
+      ["purchase_order", "po-2", 99.99, 20],
+      ["purchase_order", "po-4", 300, 24],
+    ]);
+    expect(purchases[0]).toMatchObject({ supplierName: "Supplier po-1", date: "2026-02-20T09:00:00.000Z", currency: "GBP" });
+  });
+
+  it("leaves out a bill without a readable date, still counting its PO as billed", () => {
+    const undated = vatPurchasesFrom(
+      [purchaseOrder("po-1", "GBP", "RECEIVED", "2026-01-05T09:00:00.000Z", 420, 84)],
+      [bill("b-1", "po-1", "not a date", 400.4, 80.08)]
+    );
+
+    expect(undated).toEqual([]);
+  });
+});
+
+describe("buildVatReturn", () => {
+  it("fills the nine boxes from the period's UK invoices and GBP purchases", () => {
+    const { submission, documents } = buildVatReturn(invoices, purchases, q1);
+
+    expect(submission).toEqual({
+      periodKey: "26A1",
+      vatDueSales: 250.13,
+      vatDueAcquisitions: 0,
+      totalVatDue: 250.13,
+      vatReclaimedCurrPeriod: 100.08,
+      netVatDue: 150.05,
+      totalValueSalesExVAT: 1250,
+      totalValuePurchasesExVAT: 500,
+      totalValueGoodsSuppliedExVAT: 0,
+      totalAcquisitionsExVAT: 0,
+      finalised: false,
+    });
+    expect(documents.map(document => document.reference)).toEqual(["INV-s-1", "INV-s-2", "BILL-b-1", "po-2"]);
+  });
+
+  it("reports a refund due as a positive box 5", () => {
+    const { submission } = buildVatReturn(invoices, purchases, { periodKey: "26AC", start: "2026-03-01", end: "2026-03-31" });
+
+    expect(submission).toMatchObject({ totalVatDue: 0, vatReclaimedCurrPeriod: 20, netVatDue: 20 });
+  });
+});
+
+describe("filed VAT returns", () => {
+  const filed = lockVatReturn(buildVatReturn(invoices, purchases, q1), [], "2026-04-20T10:00:00.000Z");
+
+  it("finalises the submission and refuses to lock an overlapping period", () => {
+    expect(filed.submission.finalised).toBe(true);
+    expect(filed.filedAt).toBe("2026-04-20T10:00:00.000Z");
+    expect(() => lockVatReturn(buildVatReturn(invoices, purchases, { periodKey: "26A2", start: "2026-03-01", end: "2026-05-31" }), [filed]))
+      .toThrow("The VAT period overlaps one already filed (2026-01-01 to 2026-03-31)");
+  });
+
+  it("flags documents added, changed or removed in the period since it was filed", () => {
+    const edited = [
+      { ...invoices[0], totals: { ...invoices[0].totals, sub: 1000, tax: 200 } },
+      invoice("s-5", "UK", "2026-03-30T12:00:00.000Z", 10, 2),
+      ...invoices.slice(2),
+    ];
+    const changes = vatReturnChanges(filed, buildVatReturn(edited, purchases, q1));
+
+    expect(changes.map(({ change, document }) => [change, document.reference])).toEqual([
+      ["changed", "INV-s-1"],
+      ["added", "INV-s-5"],
+      ["removed", "INV-s-2"],
+    ]);
+    expect(changes[0].filed).toMatchObject({ net: 1000.1, vat: 200.02 });
+    expect(vatReturnChanges(filed, buildVatReturn(invoices, purchases, q1))).toEqual([]);
+  });
+});
+
+describe("buildVatSummary", () => {
+  it("nets output against input tax per region, with purchases assigned by currency", () => {
+    const summary = buildVatSummary(DEFAULT_FINANCE_SETTINGS, invoices, purchases, q1.start, q1.end);
+
+    expect(summary).toEqual([
+      expect.objectContaining({ regionId: "UK", currency: "GBP", sales: 1250.65, outputTax: 250.13, purchases: 500.39, inputTax: 100.08, netTax: 150.05, documents: 4 }),
+      expect.objectContaining({ regionId: "US", currency: "USD", sales: 500, outputTax: 40, purchases: 300, inputTax: 24, netTax: 16, documents: 2 }),
+    ]);
+  });
+});
@@ -0,0 +1,238 @@
+import type { FinanceSettings, PurchaseOrder, SupplierBill, TaxInvoice } from "./schema";
+import { findRegionForCurrency, fromMinorUnits, toMinorUnits, toTaxDate } from "./taxation";
+
+// VAT returns built from the app's tax invoices (output VAT) and supplier bills (input VAT): the UK's
+// nine-box Making Tax Digital return, and a per-region summary for everywhere else. Returns are
+// exported for filing; nothing is sent to HMRC from here.
+
+// A purchase that VAT can be reclaimed on, in the currency it was billed in
+export interface VatPurchase {
+  source: "bill" | "purchase_order";
+  id: string;
+  reference: string; // Bill number, or the PO id for POs not billed yet
+  supplierName: string;
+  date: string;
+  currency: string;
+  net: number;
+  vat: number;
+}
+
+// Start and end are YYYY-MM-DD and inclusive. periodKey is HMRC's key for the obligation
+export interface VatPeriod {
+  periodKey: string;
+  start: string;
+  end: string;
+}
+
+export interface VatReturnDocument {
+  kind: "sale" | "purchase";
+  id: string;
+  reference: string;
+  counterparty: string;
+  date: string; // YYYY-MM-DD
+  net: number;
+  vat: number;
+}
+
+// The body of an MTD VAT return submission: boxes 1 to 9 in order. Boxes 1 to 5 are in pounds and
+// pence, boxes 6 to 9 in whole pounds
+export interface MtdVatReturn {
+  periodKey: string;
+  vatDueSales: number;
+  vatDueAcquisitions: number;
+  totalVatDue: number;
+  vatReclaimedCurrPeriod: number;
+  netVatDue: number;
+  totalValueSalesExVAT: number;
+  totalValuePurchasesExVAT: number;
+  totalValueGoodsSuppliedExVAT: number;
+  totalAcquisitionsExVAT: number;
+  finalised: boolean;
+}
+
+export interface VatReturn {
+  period: VatPeriod;
+  submission: MtdVatReturn;
+  documents: VatReturnDocument[]; // What the boxes were built from
+}
+
+// A return as it was filed. Its period is locked: documents in it are compared against this snapshot
+export interface FiledVatReturn extends VatReturn {
+  filedAt: string;
+}
+
+export interface VatReturnChange {
+  change: "added" | "removed" | "changed";
+  document: VatReturnDocument; // As it is now, or as filed if removed
+  filed?: VatReturnDocument; // As filed, for changed documents
+}
+
+export interface VatSummaryRow {
+  regionId: string;
+  regionName: string;
+  currency: string;
+  sales: number; // Net of tax
+  outputTax: number;
+  purchases: number;
+  inputTax: number;
+  netTax: number; // Output less input tax; negative when a refund is due
+  documents: number;
+}
+
+export const MTD_VAT_REGION_ID = "UK";
+const MTD_VAT_CURRENCY = "GBP";
+
+function inPeriod(date: string | Date, start: string, end: string): boolean {
+  const day = toTaxDate(date);
+  return start <= day && day <= end;
+}
+
+const sum = (amounts: number[]) => amounts.reduce((total, amount) => total + toMinorUnits(amount), 0);
+
+// Input VAT comes from supplier bills. A sent PO that hasn't been billed yet counts at its own tax,
+// dated when it was sent, until its bill arrives
+export function vatPurchasesFrom(purchaseOrders: PurchaseOrder[], bills: SupplierBill[]): VatPurchase[] {
+  const billed = new Set(bills.map(bill => bill.purchaseOrderId));
+  const suppliers = new Map(purchaseOrders.map(po => [po.id, po.supplierName]));
+
+  return [
+    // A bill without a readable date can't be placed in a VAT period, so it waits until it has one
+    ...bills.filter(bill => !isNaN(new Date(bill.billDate).getTime())).map((bill): VatPurchase => ({
+      source: "bill",
+      id: bill.id,
+      reference: bill.billNumber,
+      supplierName: suppliers.get(bill.purchaseOrderId) ?? bill.supplierId,
+      date: new Date(bill.billDate).toISOString(),
+      currency: bill.currency,
+      net: bill.totals.subtotal,
+      vat: bill.totals.tax,
+    })),
+    ...purchaseOrders
+      .filter(po => po.status !== "DRAFT" && po.status !== "CANCELLED" && !billed.has(po.id))
+      .map((po): VatPurchase => ({
+        source: "purchase_order",
+        id: po.id,
+        reference: po.id,
+        supplierName: po.supplierName,
+        date: new Date(po.sentAt ?? po.createdAt).toISOString(),
+        currency: po.currency,
+        net: po.totals.subtotal,
+        vat: po.totals.tax,
+      })),
+  ];
+}
+
+export function buildVatReturn(invoices: TaxInvoice[], purchases: VatPurchase[], period: VatPeriod): VatReturn {
+  const documents: VatReturnDocument[] = [
+    ...invoices
+      .filter(invoice => invoice.regionId === MTD_VAT_REGION_ID && inPeriod(invoice.createdAt, period.start, period.end))
+      .map((invoice): VatReturnDocument => ({
+        kind: "sale",
+        id: invoice.id,
+        reference: invoice.number,
+        counterparty: invoice.customerName ?? invoice.customerId ?? "",
+        date: toTaxDate(invoice.createdAt),
+        net: invoice.totals.sub,
+        vat: invoice.totals.tax,
+      })),
+    ...purchases
+      .filter(purchase => purchase.currency === MTD_VAT_CURRENCY && inPeriod(purchase.date, period.start, period.end))
+      .map((purchase): VatReturnDocument => ({
+        kind: "purchase",
+        id: purchase.id,
+        reference: purchase.reference,
+        counterparty: purchase.supplierName,
+        date: toTaxDate(purchase.date),
+        net: purchase.net,
+        vat: purchase.vat,
+      })),
+  ];
+  const sales = documents.filter(document => document.kind === "sale");
+  const bought = documents.filter(document => document.kind === "purchase");
+
+  // Northern Ireland's trade in goods with the EU (boxes 2, 8 and 9) isn't recorded, so those are nil
+  const vatDueSales = sum(sales.map(document => document.vat));
+  const vatDueAcquisitions = 0;
+  const totalVatDue = vatDueSales + vatDueAcquisitions;
+  const vatReclaimedCurrPeriod = sum(bought.map(document => document.vat));
+  const wholePounds = (amount: number) => Math.trunc(fromMinorUnits(amount));
+
+  return {
+    period,
+    submission: {
+      periodKey: period.periodKey,
+      vatDueSales: fromMinorUnits(vatDueSales),
+      vatDueAcquisitions: fromMinorUnits(vatDueAcquisitions),
+      totalVatDue: fromMinorUnits(totalVatDue),
+      vatReclaimedCurrPeriod: fromMinorUnits(vatReclaimedCurrPeriod),
+      netVatDue: fromMinorUnits(Math.abs(totalVatDue - vatReclaimedCurrPeriod)),
+      totalValueSalesExVAT: wholePounds(sum(sales.map(document => document.net))),
+      totalValuePurchasesExVAT: wholePounds(sum(bought.map(document => document.net))),
+      totalValueGoodsSuppliedExVAT: 0,
+      totalAcquisitionsExVAT: 0,
+      finalised: false,
+    },
+    documents,
+  };
+}
+
+// The filed return covering a date, if that date's period is locked
+export function filedVatReturnFor(filed: FiledVatReturn[], date: string | Date): FiledVatReturn | undefined {
+  return filed.find(vatReturn => inPeriod(date, vatReturn.period.start, vatReturn.period.end));
+}
+
+export function lockVatReturn(vatReturn: VatReturn, filed: FiledVatReturn[], filedAt: string = new Date().toISOString()): FiledVatReturn {
+  const { start, end } = vatReturn.period;
+  if (end < start) {
+    throw new Error("The VAT period ends before it starts");
+  }
+  const overlapping = filed.find(other => other.period.start <= end && start <= other.period.end);
+  if (overlapping) {
+    throw new Error(`The VAT period overlaps one already filed (${overlapping.period.start} to ${overlapping.period.end})`);
+  }
+  return { ...vatReturn, submission: { ...vatReturn.submission, finalised: true }, filedAt };
+}
+
+// Documents added to, removed from or changed in a locked period since its return was filed, from
+// the return as it would be built now
+export function vatReturnChanges(filed: FiledVatReturn, current: VatReturn): VatReturnChange[] {
+  const key = (document: VatReturnDocument) => `${document.kind}:${document.id}`;
+  const filedDocuments = new Map(filed.documents.map(document => [key(document), document]));
+  const currentKeys = new Set(current.documents.map(key));
+
+  const changes = current.documents.flatMap((document): VatReturnChange[] => {
+    const before = filedDocuments.get(key(document));
+    if (!before) return [{ change: "added", document }];
+    const changed = before.date !== document.date || before.net !== document.net || before.vat !== document.vat;
+    return changed ? [{ change: "changed", document, filed: before }] : [];
+  });
+  const removed = filed.documents
+    .filter(document => !currentKeys.has(key(document)))
+    .map((document): VatReturnChange => ({ change: "removed", document }));
+  return [...changes, ...removed];
+}
+
+// Output and input tax per region for a period (YYYY-MM-DD, inclusive). Purchases count towards the
+// region that trades in their currency
+export function buildVatSummary(settings: FinanceSettings, invoices: TaxInvoice[], purchases: VatPurchase[], start: string, end: string): VatSummaryRow[] {
+  return settings.regions.flatMap(region => {
+    const sales = invoices.filter(invoice => invoice.regionId === region.id && inPeriod(invoice.createdAt, start, end));
+    const bought = purchases.filter(purchase =>
+      findRegionForCurrency(settings, purchase.currency)?.id === region.id && inPeriod(purchase.date, start, end));
+    if (sales.length === 0 && bought.length === 0) return [];
+
+    const outputTax = sum(sales.map(invoice => invoice.totals.tax));
+    const inputTax = sum(bought.map(purchase => purchase.vat));
+    return [{
+      regionId: region.id,
+      regionName: region.name,
+      currency: region.currency,
+      sales: fromMinorUnits(sum(sales.map(invoice => invoice.totals.sub))),
+      outputTax: fromMinorUnits(outputTax),
+      purchases: fromMinorUnits(sum(bought.map(purchase => purchase.net))),
+      inputTax: fromMinorUnits(inputTax),
+      netTax: fromMinorUnits(outputTax - inputTax),
+      documents: sales.length + bought.length,
+    }];
+  });
+}
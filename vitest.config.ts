@@ -0,0 +1,18 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": path.resolve(import.meta.dirname, "client", "src"),
+      "@shared": path.resolve(import.meta.dirname, "shared"),
+    },
+  },
+  test: {
+    include: ["client/src/**/*.test.ts", "server/**/*.test.ts", "shared/**/*.test.ts"],
+    environment: "node",
+    // Migrating the embedded Postgres takes a few seconds
+    hookTimeout: 60000,
+    testTimeout: 20000,
+  },
+});